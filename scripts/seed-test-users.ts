@@ -1,5 +1,6 @@
 import { getPayload } from 'payload'
 import config from '../src/payload.config'
+import { syncLanguagesCollection } from '../src/services/languageSync'
 import dotenv from 'dotenv'
 import path from 'path'
 import { fileURLToPath } from 'url'
@@ -183,37 +184,21 @@ async function seedTestUsers() {
       })
 
       if (existingSession.docs.length === 0) {
-        // Get or create default JavaScript language
+        // Languages come from the language registry; make sure they exist
         let languageId = null
-        const languages = await payload.find({
-          collection: 'languages',
-          where: {
-            slug: { equals: 'javascript' },
-          },
-          limit: 1,
-        })
-
-        if (languages.docs.length > 0) {
-          languageId = languages.docs[0].id
-        } else {
-          // Create default JavaScript language if it doesn't exist
-          try {
-            const jsLanguage = await payload.create({
-              collection: 'languages',
-              data: {
-                name: 'JavaScript',
-                slug: 'javascript',
-                monacoLanguage: 'javascript',
-                extension: '.js',
-                defaultCode: 'console.log("Hello, World!");',
-              },
-            })
-            languageId = jsLanguage.id
-            console.log(`  📝 Created default JavaScript language`)
-          } catch (error) {
-            console.log(`  ⚠️  Could not create language (may need trainer role): ${error}`)
-            // Language is optional, continue without it
-          }
+        try {
+          await syncLanguagesCollection(payload)
+          const languages = await payload.find({
+            collection: 'languages',
+            where: {
+              slug: { equals: 'javascript' },
+            },
+            limit: 1,
+          })
+          languageId = languages.docs[0]?.id ?? null
+        } catch (error) {
+          console.log(`  ⚠️  Could not sync languages: ${error}`)
+          // Language is optional, continue without it
         }
 
         const session = await payload.create({
@@ -160,6 +160,59 @@ export const PlatformSettings: GlobalConfig = {
                 description: 'Maximum installments allowed per fee record (optional)',
               },
             },
+            {
+              name: 'minAttendancePercent',
+              type: 'number',
+              defaultValue: 75,
+              min: 0,
+              max: 100,
+              admin: {
+                description:
+                  'Share of a live session (in %) a student must attend to count as present in attendance reports',
+              },
+            },
+            {
+              name: 'executionRateLimits',
+              type: 'array',
+              defaultValue: [
+                { role: 'student', runsPerMinute: 20, runsPerDay: 500 },
+                { role: 'guest', runsPerMinute: 5, runsPerDay: 50 },
+              ],
+              fields: [
+                {
+                  name: 'role',
+                  type: 'select',
+                  required: true,
+                  options: [
+                    { label: 'Admin', value: 'admin' },
+                    { label: 'Manager', value: 'manager' },
+                    { label: 'Trainer', value: 'trainer' },
+                    { label: 'Student', value: 'student' },
+                    { label: 'Guest (not signed in)', value: 'guest' },
+                  ],
+                },
+                {
+                  name: 'runsPerMinute',
+                  type: 'number',
+                  min: 1,
+                  admin: {
+                    description: 'Max code runs in any 60 seconds (empty = no limit)',
+                  },
+                },
+                {
+                  name: 'runsPerDay',
+                  type: 'number',
+                  min: 1,
+                  admin: {
+                    description: 'Max code runs in any 24 hours (empty = no limit)',
+                  },
+                },
+              ],
+              admin: {
+                description:
+                  'Code execution limits per user, by role. Roles without a row are not limited.',
+              },
+            },
           ],
         },
       ],
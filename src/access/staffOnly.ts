@@ -0,0 +1,10 @@
+import type { PayloadRequest } from 'payload'
+
+import { isStaff } from '@/utilities/dashboardAccess'
+
+type StaffOnly = (args: { req: PayloadRequest }) => boolean
+
+/** Trainers, managers and admins (works as collection and field access) */
+export const staffOnly: StaffOnly = ({ req: { user } }) => {
+  return isStaff(user)
+}
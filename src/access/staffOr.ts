@@ -0,0 +1,15 @@
+import type { Access, AccessResult, PayloadRequest } from 'payload'
+
+import { isStaff } from '@/utilities/dashboardAccess'
+
+/**
+ * Trainers, managers and admins read every document; other signed-in users only
+ * the documents `own` matches for them (e.g. `(userId) => ({ user: { equals: userId } })`).
+ */
+export const staffOr =
+  (own: (userId: number, req: PayloadRequest) => AccessResult | Promise<AccessResult>): Access =>
+  ({ req }) => {
+    if (!req.user) return false
+    if (isStaff(req.user)) return true
+    return own(req.user.id, req)
+  }
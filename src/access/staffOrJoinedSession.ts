@@ -0,0 +1,16 @@
+import type { Access, Where } from 'payload'
+
+import { joinedSessionIds } from '@/services/sessionParticipants'
+import { staffOr } from '@/access/staffOr'
+
+/**
+ * For collections with a `session` relationship: staff read everything; students only
+ * documents of sessions they joined that also match `own` (when given).
+ */
+export const staffOrJoinedSession = (own?: (userId: number) => Where): Access =>
+  staffOr(async (userId, req) => {
+    const sessionIds = await joinedSessionIds(req.payload, userId)
+    if (sessionIds.length === 0) return false
+    const joined: Where = { session: { in: sessionIds } }
+    return own ? { and: [joined, own(userId)] } : joined
+  })
@@ -0,0 +1,210 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Search, ChevronLeft, ChevronRight, CalendarCheck, Eye } from 'lucide-react'
+import type { AttendanceSessionList } from '@/services/attendance'
+import { formatAttendanceTime } from '@/components/Dashboard/AttendanceReport'
+
+interface AttendanceListResponse extends AttendanceSessionList {
+  minAttendancePercent: number
+}
+
+export function AttendanceListClient() {
+  const [data, setData] = useState<AttendanceListResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [page, setPage] = useState(1)
+
+  const limit = 20
+
+  const fetchSessions = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: limit.toString(),
+      })
+
+      if (search) {
+        params.append('search', search)
+      }
+
+      const res = await fetch(`/api/dashboard/attendance?${params.toString()}`, {
+        credentials: 'include',
+      })
+
+      if (!res.ok) {
+        throw new Error('Failed to fetch sessions')
+      }
+
+      setData(await res.json())
+    } catch (err) {
+      console.error('Error fetching attendance sessions:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load sessions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchSessions()
+  }, [page])
+
+  // Debounce search
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (page !== 1) {
+        setPage(1)
+      } else {
+        fetchSessions()
+      }
+    }, 500)
+
+    return () => clearTimeout(timer)
+  }, [search])
+
+  const sessions = data?.docs ?? []
+  const totalPages = data?.totalPages ?? 1
+  const totalDocs = data?.totalDocs ?? 0
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Attendance</h1>
+        <p className="text-muted-foreground mt-1">
+          Who attended each live session, for how long, and who arrived late or left early
+          {data && ` (minimum ${data.minAttendancePercent}%, see Settings)`}
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <input
+          type="text"
+          placeholder="Search by session title or join code..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="w-full pl-10 pr-4 py-2 rounded-lg border bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-4">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+
+      {/* Loading State */}
+      {loading && (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="animate-pulse h-20 bg-muted rounded-lg"></div>
+          ))}
+        </div>
+      )}
+
+      {/* Sessions Table */}
+      {!loading && !error && (
+        <>
+          {sessions.length === 0 ? (
+            <div className="rounded-lg border bg-card p-12 text-center">
+              <CalendarCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No sessions found</p>
+            </div>
+          ) : (
+            <>
+              <div className="rounded-lg border bg-card overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-sm font-medium">Session</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium">Trainer</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium">Started</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium">Ended</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium">Students</th>
+                        <th className="px-4 py-3 text-right text-sm font-medium">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {sessions.map((session) => (
+                        <tr key={session.id} className="hover:bg-muted/50 transition-colors">
+                          <td className="px-4 py-3">
+                            <div className="font-medium">{session.title}</div>
+                            <div className="text-xs text-muted-foreground">{session.joinCode}</div>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-muted-foreground">
+                            {session.trainer || 'N/A'}
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            {formatAttendanceTime(session.startedAt)}
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            {session.endedAt ? (
+                              formatAttendanceTime(session.endedAt)
+                            ) : (
+                              <span className="text-muted-foreground">Running</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm">{session.studentCount}</td>
+                          <td className="px-4 py-3">
+                            <div className="flex items-center justify-end gap-2">
+                              <Link
+                                href={`/dashboard/attendance/sessions/${session.joinCode}`}
+                                className="rounded-md p-1.5 text-muted-foreground hover:bg-accent hover:text-accent-foreground transition-colors"
+                                title="View attendance"
+                              >
+                                <Eye className="h-4 w-4" />
+                              </Link>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Pagination */}
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between">
+                  <div className="text-sm text-muted-foreground">
+                    Showing {((page - 1) * limit) + 1} to {Math.min(page * limit, totalDocs)} of {totalDocs} sessions
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setPage((p) => Math.max(1, p - 1))}
+                      disabled={page === 1}
+                      className="flex items-center gap-1 rounded-md border px-3 py-1.5 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed hover:bg-accent"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                      Previous
+                    </button>
+                    <span className="text-sm text-muted-foreground">
+                      Page {page} of {totalPages}
+                    </span>
+                    <button
+                      onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                      disabled={page === totalPages}
+                      className="flex items-center gap-1 rounded-md border px-3 py-1.5 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed hover:bg-accent"
+                    >
+                      Next
+                      <ChevronRight className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+import React from 'react'
+import { redirect } from 'next/navigation'
+import { getMeUser } from '@/auth/getMeUser'
+import { checkDashboardAccess } from '@/utilities/dashboardAccess'
+import { AttendanceListClient } from './AttendanceListClient'
+
+export default async function AttendancePage() {
+  // Check authentication and authorization
+  try {
+    const { user } = await getMeUser({ nullUserRedirect: undefined })
+
+    if (!user || !checkDashboardAccess(user)) {
+      redirect('/dashboard')
+    }
+
+    return <AttendanceListClient />
+  } catch (error) {
+    redirect('/dashboard')
+  }
+}
@@ -0,0 +1,171 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Users } from 'lucide-react'
+import type { SessionAttendanceReport } from '@/services/attendance'
+import { useDebounce } from '@/utilities/useDebounce'
+import {
+  AttendancePercent,
+  CsvDownloadLink,
+  MinAttendanceInput,
+  Punctuality,
+  formatAttendanceTime,
+} from '@/components/Dashboard/AttendanceReport'
+
+interface SessionAttendanceClientProps {
+  joinCode: string
+}
+
+export function SessionAttendanceClient({ joinCode }: SessionAttendanceClientProps) {
+  const [report, setReport] = useState<SessionAttendanceReport | null>(null)
+  const [defaultPercent, setDefaultPercent] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [minAttendance, setMinAttendance] = useState('')
+  const threshold = useDebounce(minAttendance, 500)
+
+  const query = threshold ? `?minAttendance=${encodeURIComponent(threshold)}` : ''
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const res = await fetch(`/api/dashboard/attendance/sessions/${joinCode}${query}`, {
+          credentials: 'include',
+        })
+
+        const data = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to fetch attendance')
+        }
+
+        setReport(data)
+        if (!threshold) setDefaultPercent(data.minAttendancePercent)
+      } catch (err) {
+        console.error('Error fetching session attendance:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load attendance')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchReport()
+  }, [joinCode, query, threshold])
+
+  const students = report?.students ?? []
+  const meeting = students.filter((row) => row.meetsThreshold).length
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-4">
+          <Link
+            href="/dashboard/attendance"
+            className="rounded-md p-2 hover:bg-accent transition-colors"
+            aria-label="Back to attendance"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold">{report?.session.title ?? joinCode}</h1>
+            <p className="text-muted-foreground mt-1">
+              {joinCode}
+              {report && ` · ${formatAttendanceTime(report.session.startedAt)} – `}
+              {report && (report.session.endedAt ? formatAttendanceTime(report.session.endedAt) : 'running')}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <MinAttendanceInput
+            value={minAttendance}
+            defaultPercent={defaultPercent}
+            onChange={setMinAttendance}
+          />
+          <CsvDownloadLink
+            href={`/api/dashboard/attendance/sessions/${joinCode}${query ? `${query}&` : '?'}format=csv`}
+          />
+        </div>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-4">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+
+      {/* Loading State */}
+      {loading && !report && (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="animate-pulse h-20 bg-muted rounded-lg"></div>
+          ))}
+        </div>
+      )}
+
+      {report && (
+        <>
+          {students.length === 0 ? (
+            <div className="rounded-lg border bg-card p-12 text-center">
+              <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No students joined this session</p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {meeting} of {students.length} students attended at least{' '}
+                {report.minAttendancePercent}% of the session
+              </p>
+              <div className="rounded-lg border bg-card overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-sm font-medium">Student</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium">Attended</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium">First joined</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium">Last seen</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium">Notes</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {students.map(({ student, ...attendance }) => (
+                        <tr key={student.id} className="hover:bg-muted/50 transition-colors">
+                          <td className="px-4 py-3">
+                            <Link
+                              href={`/dashboard/attendance/students/${student.id}`}
+                              className="font-medium hover:underline"
+                            >
+                              {student.name}
+                            </Link>
+                            <div className="text-xs text-muted-foreground">{student.email}</div>
+                          </td>
+                          <td className="px-4 py-3">
+                            <AttendancePercent attendance={attendance} />
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            {formatAttendanceTime(attendance.firstJoinedAt)}
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            {formatAttendanceTime(attendance.lastSeenAt)}
+                          </td>
+                          <td className="px-4 py-3">
+                            <Punctuality attendance={attendance} />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import React from 'react'
+import { redirect } from 'next/navigation'
+import { getMeUser } from '@/auth/getMeUser'
+import { checkDashboardAccess } from '@/utilities/dashboardAccess'
+import { SessionAttendanceClient } from './SessionAttendanceClient'
+
+export default async function SessionAttendancePage({
+  params,
+}: {
+  params: Promise<{ code: string }>
+}) {
+  const { code } = await params
+
+  // Check authentication and authorization
+  try {
+    const { user } = await getMeUser({ nullUserRedirect: undefined })
+
+    if (!user || !checkDashboardAccess(user)) {
+      redirect('/dashboard')
+    }
+
+    return <SessionAttendanceClient joinCode={code.toUpperCase()} />
+  } catch (error) {
+    redirect('/dashboard')
+  }
+}
@@ -0,0 +1,168 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, CalendarCheck } from 'lucide-react'
+import type { StudentAttendanceReport } from '@/services/attendance'
+import { useDebounce } from '@/utilities/useDebounce'
+import {
+  AttendancePercent,
+  CsvDownloadLink,
+  MinAttendanceInput,
+  Punctuality,
+  formatAttendanceTime,
+} from '@/components/Dashboard/AttendanceReport'
+
+interface StudentAttendanceClientProps {
+  studentId: string
+}
+
+export function StudentAttendanceClient({ studentId }: StudentAttendanceClientProps) {
+  const [report, setReport] = useState<StudentAttendanceReport | null>(null)
+  const [defaultPercent, setDefaultPercent] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [minAttendance, setMinAttendance] = useState('')
+  const threshold = useDebounce(minAttendance, 500)
+
+  const query = threshold ? `?minAttendance=${encodeURIComponent(threshold)}` : ''
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const res = await fetch(`/api/dashboard/attendance/students/${studentId}${query}`, {
+          credentials: 'include',
+        })
+
+        const data = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to fetch attendance')
+        }
+
+        setReport(data)
+        if (!threshold) setDefaultPercent(data.minAttendancePercent)
+      } catch (err) {
+        console.error('Error fetching student attendance:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load attendance')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchReport()
+  }, [studentId, query, threshold])
+
+  const sessions = report?.sessions ?? []
+  const meeting = sessions.filter((row) => row.meetsThreshold).length
+  const totalMinutes = sessions.reduce((total, row) => total + row.attendedMinutes, 0)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-4">
+          <Link
+            href="/dashboard/attendance"
+            className="rounded-md p-2 hover:bg-accent transition-colors"
+            aria-label="Back to attendance"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold">{report?.student.name ?? 'Student attendance'}</h1>
+            {report && <p className="text-muted-foreground mt-1">{report.student.email}</p>}
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <MinAttendanceInput
+            value={minAttendance}
+            defaultPercent={defaultPercent}
+            onChange={setMinAttendance}
+          />
+          <CsvDownloadLink
+            href={`/api/dashboard/attendance/students/${studentId}${query ? `${query}&` : '?'}format=csv`}
+          />
+        </div>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-4">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+
+      {/* Loading State */}
+      {loading && !report && (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="animate-pulse h-20 bg-muted rounded-lg"></div>
+          ))}
+        </div>
+      )}
+
+      {report && (
+        <>
+          {sessions.length === 0 ? (
+            <div className="rounded-lg border bg-card p-12 text-center">
+              <CalendarCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No sessions attended</p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Met the {report.minAttendancePercent}% minimum in {meeting} of {sessions.length}{' '}
+                sessions · {totalMinutes} minutes in total
+              </p>
+              <div className="rounded-lg border bg-card overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-sm font-medium">Session</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium">Started</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium">Attended</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium">First joined</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium">Notes</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {sessions.map(({ session, ...attendance }) => (
+                        <tr key={session.id} className="hover:bg-muted/50 transition-colors">
+                          <td className="px-4 py-3">
+                            <Link
+                              href={`/dashboard/attendance/sessions/${session.joinCode}`}
+                              className="font-medium hover:underline"
+                            >
+                              {session.title}
+                            </Link>
+                            <div className="text-xs text-muted-foreground">{session.joinCode}</div>
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            {formatAttendanceTime(session.startedAt)}
+                          </td>
+                          <td className="px-4 py-3">
+                            <AttendancePercent attendance={attendance} />
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            {formatAttendanceTime(attendance.firstJoinedAt)}
+                          </td>
+                          <td className="px-4 py-3">
+                            <Punctuality attendance={attendance} />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
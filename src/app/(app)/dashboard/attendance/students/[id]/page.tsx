@@ -0,0 +1,26 @@
+import React from 'react'
+import { redirect } from 'next/navigation'
+import { getMeUser } from '@/auth/getMeUser'
+import { checkDashboardAccess } from '@/utilities/dashboardAccess'
+import { StudentAttendanceClient } from './StudentAttendanceClient'
+
+export default async function StudentAttendancePage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+
+  // Check authentication and authorization
+  try {
+    const { user } = await getMeUser({ nullUserRedirect: undefined })
+
+    if (!user || !checkDashboardAccess(user)) {
+      redirect('/dashboard')
+    }
+
+    return <StudentAttendanceClient studentId={id} />
+  } catch (error) {
+    redirect('/dashboard')
+  }
+}
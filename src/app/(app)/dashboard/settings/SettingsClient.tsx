@@ -4,6 +4,12 @@ import React, { useState, useEffect } from 'react'
 import { Settings, Save, RotateCcw, Loader2 } from 'lucide-react'
 import { SettingsForm } from '@/components/Dashboard/SettingsForm'
 
+interface ExecutionRateLimit {
+  role: 'admin' | 'manager' | 'trainer' | 'student' | 'guest'
+  runsPerMinute?: number | null
+  runsPerDay?: number | null
+}
+
 interface PlatformSettings {
   trialDays?: number
   autoExtendTrial?: boolean
@@ -16,6 +22,8 @@ interface PlatformSettings {
   maintenanceMode?: boolean
   allowAllStudentsDuringMaintenance?: boolean
   maxInstallmentsPerFee?: number | null
+  minAttendancePercent?: number | null
+  executionRateLimits?: ExecutionRateLimit[]
 }
 
 const DEFAULT_SETTINGS: PlatformSettings = {
@@ -39,6 +47,11 @@ const DEFAULT_SETTINGS: PlatformSettings = {
   maintenanceMode: false,
   allowAllStudentsDuringMaintenance: false,
   maxInstallmentsPerFee: null,
+  minAttendancePercent: 75,
+  executionRateLimits: [
+    { role: 'student', runsPerMinute: 20, runsPerDay: 500 },
+    { role: 'guest', runsPerMinute: 5, runsPerDay: 50 },
+  ],
 }
 
 export function SettingsClient() {
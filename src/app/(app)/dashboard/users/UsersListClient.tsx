@@ -20,6 +20,12 @@ interface UserListItem {
   nextPaymentDueDate?: string | null
   temporaryAccessGranted?: boolean
   accessStatus?: 'trial' | 'grace' | 'granted' | 'restricted' | 'warning'
+  executionUsage?: {
+    lastMinute: number
+    lastDay: number
+    runsPerMinute: number | null
+    runsPerDay: number | null
+  }
   createdAt: string
   updatedAt: string
 }
@@ -289,6 +295,7 @@ export function UsersListClient() {
                         <th className="px-4 py-3 text-left text-sm font-medium">College</th>
                         <th className="px-4 py-3 text-left text-sm font-medium">Trial End Date</th>
                         <th className="px-4 py-3 text-left text-sm font-medium">Next Payment Due</th>
+                        <th className="px-4 py-3 text-left text-sm font-medium">Code Runs (24h)</th>
                         <th className="px-4 py-3 text-left text-sm font-medium">Created</th>
                         <th className="px-4 py-3 text-right text-sm font-medium">Actions</th>
                       </tr>
@@ -361,6 +368,28 @@ export function UsersListClient() {
                                 })()
                               : 'N/A'}
                           </td>
+                          <td className="px-4 py-3 text-sm text-muted-foreground">
+                            {user.executionUsage ? (
+                              (() => {
+                                const usage = user.executionUsage
+                                const atLimit =
+                                  (usage.runsPerDay != null && usage.lastDay >= usage.runsPerDay) ||
+                                  (usage.runsPerMinute != null && usage.lastMinute >= usage.runsPerMinute)
+
+                                return (
+                                  <span
+                                    className={atLimit ? 'text-destructive font-medium' : ''}
+                                    title={`Last minute: ${usage.lastMinute}${usage.runsPerMinute != null ? ` / ${usage.runsPerMinute}` : ''}`}
+                                  >
+                                    {usage.lastDay}
+                                    {usage.runsPerDay != null ? ` / ${usage.runsPerDay}` : ''}
+                                  </span>
+                                )
+                              })()
+                            ) : (
+                              'N/A'
+                            )}
+                          </td>
                           <td className="px-4 py-3 text-sm text-muted-foreground">
                             {new Date(user.createdAt).toLocaleDateString()}
                           </td>
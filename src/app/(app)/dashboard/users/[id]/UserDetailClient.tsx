@@ -9,6 +9,7 @@ import {
   Trash2, 
   FolderTree, 
   DollarSign,
+  CalendarCheck,
   Mail,
   Phone,
   GraduationCap,
@@ -319,6 +320,15 @@ export function UserDetailClient({ userId, currentUser }: UserDetailClientProps)
             View Fees
           </Link>
         )}
+        {user.role === 'student' && (
+          <Link
+            href={`/dashboard/attendance/students/${userId}`}
+            className="flex items-center gap-2 rounded-lg border bg-card px-4 py-2 text-sm font-medium transition-colors hover:bg-accent"
+          >
+            <CalendarCheck className="h-4 w-4" />
+            View Attendance
+          </Link>
+        )}
       </div>
 
       {/* Metadata */}
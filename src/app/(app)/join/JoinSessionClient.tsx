@@ -1,10 +1,12 @@
 'use client'
 
-import React, { useState } from 'react'
-import { Radio, ArrowRight, Loader2 } from 'lucide-react'
+import React, { useCallback, useEffect, useState } from 'react'
+import { Radio, ArrowRight, Loader2, Lock } from 'lucide-react'
 import Link from 'next/link'
 import { PaymentBlocked } from '@/components/Payment/PaymentBlocked'
 import { ActiveSessionsList } from '@/components/Session/ActiveSessionsList'
+import { UpcomingSessionsList } from '@/components/Session/UpcomingSessionsList'
+import type { JoinDenial, SessionAccessMode } from '@/services/sessionAccess'
 
 interface PaymentStatus {
   isBlocked: boolean
@@ -19,36 +21,80 @@ interface PaymentStatus {
   daysOverdue?: number
 }
 
+const WAITING_POLL_MS = 5000
+
+/** Why the session did not let the student in (from POST /api/sessions/[code]/join) */
+interface AccessPrompt {
+  code: string
+  mode: SessionAccessMode
+  reason: JoinDenial
+  message: string
+}
+
+type JoinOutcome =
+  | { ok: true }
+  | {
+      ok: false
+      error: string
+      access?: Omit<AccessPrompt, 'code' | 'message'>
+      paymentStatus?: PaymentStatus
+    }
+
+async function requestJoin(code: string, passcode?: string): Promise<JoinOutcome> {
+  const response = await fetch(`/api/sessions/${code}/join`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(passcode ? { passcode } : {}),
+  })
+  if (response.ok) return { ok: true }
+
+  const data = await response.json().catch(() => ({}))
+  return {
+    ok: false,
+    error: data.error || 'Failed to join session. Please try again.',
+    access: data.access,
+    paymentStatus: data.paymentStatus,
+  }
+}
+
 export function JoinSessionClient() {
   const [joinCode, setJoinCode] = useState('')
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
   const [joiningCode, setJoiningCode] = useState<string | null>(null)
   const [paymentStatus, setPaymentStatus] = useState<PaymentStatus | null>(null)
+  const [accessPrompt, setAccessPrompt] = useState<AccessPrompt | null>(null)
+  const [passcode, setPasscode] = useState('')
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    setError(null)
+  const stopJoining = () => {
+    setLoading(false)
+    setJoiningCode(null)
+  }
 
-    if (!joinCode.trim()) {
-      setError('Please enter a join code')
+  const finishJoin = useCallback((code: string, outcome: JoinOutcome) => {
+    if (outcome.ok) {
+      // Redirect to new session view (with workspace integration)
+      window.location.href = `/student/session/${code}`
       return
     }
+    setLoading(false)
+    setJoiningCode(null)
+    if (outcome.paymentStatus) {
+      setPaymentStatus(outcome.paymentStatus)
+    } else if (outcome.access) {
+      setAccessPrompt({ code, message: outcome.error, ...outcome.access })
+    } else {
+      setAccessPrompt(null)
+      setError(outcome.error)
+    }
+  }, [])
 
-    const code = joinCode.trim().toUpperCase()
+  const joinSession = async (code: string, sessionPasscode?: string) => {
+    setError(null)
     setJoiningCode(code)
     setLoading(true)
 
     try {
-      // Validate join code format (XXX-XXX-XXX), excluding confusing characters (0, O, I, 1, L)
-      const codePattern = /^[A-HJ-NP-Z2-9]{3}-[A-HJ-NP-Z2-9]{3}-[A-HJ-NP-Z2-9]{3}$/i
-      if (!codePattern.test(joinCode.trim())) {
-        setError('Invalid code. Use only A–Z (no O/I/L) and digits 2–9, e.g. ABC-234-XYZ')
-        setLoading(false)
-        setJoiningCode(null)
-        return
-      }
-
       // Check if session exists
       const response = await fetch(`/api/sessions/${code}/live`)
 
@@ -58,126 +104,84 @@ export function JoinSessionClient() {
         } else {
           setError('Failed to join session. Please try again.')
         }
-        setLoading(false)
-        setJoiningCode(null)
+        stopJoining()
         return
       }
 
       const session = await response.json()
 
       if (!session.isActive) {
-        setError('This session has ended.')
-        setLoading(false)
-        setJoiningCode(null)
-        return
-      }
-
-      // Join the session
-      const joinResponse = await fetch(
-        `/api/sessions/${code}/join`,
-        {
-          method: 'POST',
-        },
-      )
-
-      if (!joinResponse.ok) {
-        // Check if it's a payment-related error
-        if (joinResponse.status === 403) {
-          try {
-            const errorData = await joinResponse.json()
-            if (errorData.paymentStatus) {
-              setPaymentStatus(errorData.paymentStatus)
-              setLoading(false)
-              setJoiningCode(null)
-              return
-            }
-          } catch {
-            // Fall through to generic error
-          }
-        }
-        setError('Failed to join session. Please try again.')
-        setLoading(false)
-        setJoiningCode(null)
+        setError(
+          session.scheduledStart
+            ? `This session hasn't started yet. It is scheduled for ${new Date(session.scheduledStart).toLocaleString()}.`
+            : 'This session has ended.',
+        )
+        setAccessPrompt(null)
+        stopJoining()
         return
       }
 
-      // Redirect to new session view (with workspace integration)
-      window.location.href = `/student/session/${code}`
+      // Join the session (the trainer may require a passcode, enrolment or admission)
+      finishJoin(code, await requestJoin(code, sessionPasscode))
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
-      setLoading(false)
-      setJoiningCode(null)
+      stopJoining()
     }
   }
 
-  const handleSessionSelect = async (selectedCode: string) => {
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
     setError(null)
-    const code = selectedCode.trim().toUpperCase()
-    setJoiningCode(code)
-    setLoading(true)
+    setAccessPrompt(null)
 
-    try {
-      // Check if session exists
-      const response = await fetch(`/api/sessions/${code}/live`)
+    if (!joinCode.trim()) {
+      setError('Please enter a join code')
+      return
+    }
 
-      if (!response.ok) {
-        if (response.status === 404) {
-          setError('Session not found. Please check the code and try again.')
-        } else {
-          setError('Failed to join session. Please try again.')
-        }
-        setLoading(false)
-        setJoiningCode(null)
-        return
-      }
+    // Validate join code format (XXX-XXX-XXX), excluding confusing characters (0, O, I, 1, L)
+    const codePattern = /^[A-HJ-NP-Z2-9]{3}-[A-HJ-NP-Z2-9]{3}-[A-HJ-NP-Z2-9]{3}$/i
+    if (!codePattern.test(joinCode.trim())) {
+      setError('Invalid code. Use only A–Z (no O/I/L) and digits 2–9, e.g. ABC-234-XYZ')
+      return
+    }
 
-      const session = await response.json()
+    await joinSession(joinCode.trim().toUpperCase())
+  }
 
-      if (!session.isActive) {
-        setError('This session has ended.')
-        setLoading(false)
-        setJoiningCode(null)
-        return
-      }
+  const handleSessionSelect = async (selectedCode: string) => {
+    setAccessPrompt(null)
+    await joinSession(selectedCode.trim().toUpperCase())
+  }
 
-      // Join the session
-      const joinResponse = await fetch(
-        `/api/sessions/${code}/join`,
-        {
-          method: 'POST',
-        },
-      )
-
-      if (!joinResponse.ok) {
-        // Check if it's a payment-related error
-        if (joinResponse.status === 403) {
-          try {
-            const errorData = await joinResponse.json()
-            if (errorData.paymentStatus) {
-              setPaymentStatus(errorData.paymentStatus)
-              setLoading(false)
-              setJoiningCode(null)
-              return
-            }
-          } catch {
-            // Fall through to generic error
-          }
-        }
-        setError('Failed to join session. Please try again.')
-        setLoading(false)
-        setJoiningCode(null)
-        return
-      }
+  const handlePasscodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!accessPrompt || !passcode.trim()) return
+    await joinSession(accessPrompt.code, passcode.trim())
+  }
 
-      // Redirect to new session view (with workspace integration)
-      window.location.href = `/student/session/${code}`
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
-      setLoading(false)
-      setJoiningCode(null)
-    }
+  const leaveWaitingRoom = async () => {
+    if (!accessPrompt) return
+    const { code } = accessPrompt
+    setAccessPrompt(null)
+    await fetch(`/api/sessions/${code}/admissions`, { method: 'DELETE' }).catch(() => {})
   }
 
+  // In the waiting room, ask again until the trainer answers
+  useEffect(() => {
+    if (accessPrompt?.reason !== 'waiting') return
+    const { code } = accessPrompt
+    const timer = setInterval(async () => {
+      try {
+        const outcome = await requestJoin(code)
+        if (outcome.ok || outcome.access?.reason !== 'waiting') finishJoin(code, outcome)
+      } catch {
+        // Try again on the next tick
+      }
+    }, WAITING_POLL_MS)
+    return () => clearInterval(timer)
+  }, [accessPrompt, finishJoin])
+
   // Show payment blocked screen if student is blocked
   if (paymentStatus?.isBlocked) {
     return (
@@ -248,6 +252,68 @@ export function JoinSessionClient() {
             </button>
           </form>
 
+          {/* Access prompt (passcode, waiting room, not enrolled) */}
+          {accessPrompt && (
+            <div className="space-y-3 rounded-lg border bg-card p-6 shadow-sm">
+              <h2 className="flex items-center gap-2 text-sm font-medium">
+                <Lock className="h-4 w-4" />
+                {accessPrompt.code}
+              </h2>
+
+              {accessPrompt.mode === 'passcode' && (
+                <form onSubmit={handlePasscodeSubmit} className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    This session needs the passcode your trainer shared.
+                  </p>
+                  <input
+                    type="password"
+                    value={passcode}
+                    onChange={(e) => setPasscode(e.target.value)}
+                    placeholder="Passcode"
+                    className="w-full rounded-md border bg-background px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                    autoFocus
+                    autoComplete="off"
+                    disabled={loading}
+                  />
+                  {accessPrompt.reason !== 'passcode_required' && (
+                    <p className="text-sm text-destructive">{accessPrompt.message}</p>
+                  )}
+                  <button
+                    type="submit"
+                    disabled={loading || !passcode.trim()}
+                    className="w-full flex items-center justify-center gap-2 rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Enter Session'}
+                  </button>
+                </form>
+              )}
+
+              {accessPrompt.reason === 'waiting' && (
+                <>
+                  <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Waiting for the trainer to let you in. You will join automatically.
+                  </p>
+                  <button
+                    onClick={leaveWaitingRoom}
+                    className="rounded-md border px-3 py-1.5 text-sm transition-colors hover:bg-accent"
+                  >
+                    Stop waiting
+                  </button>
+                </>
+              )}
+
+              {(accessPrompt.reason === 'not_enrolled' || accessPrompt.reason === 'denied') && (
+                <>
+                  <p className="text-sm text-destructive">{accessPrompt.message}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Ask your trainer if you think you should have access.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
           <div className="text-center">
             <Link
               href="/workspace"
@@ -258,8 +324,8 @@ export function JoinSessionClient() {
           </div>
         </div>
 
-        {/* Active Sessions List */}
-        <div>
+        {/* Active and Upcoming Sessions */}
+        <div className="space-y-8">
           <ActiveSessionsList
             onSessionSelect={handleSessionSelect}
             actionLabel="Join"
@@ -268,6 +334,11 @@ export function JoinSessionClient() {
             emptyMessage="No active sessions available."
             emptySubMessage="Ask your trainer for a session code or wait for a session to start."
           />
+          <UpcomingSessionsList
+            onJoin={handleSessionSelect}
+            actionLoadingCode={joiningCode}
+            emptyMessage="No sessions are scheduled yet."
+          />
         </div>
       </div>
     </div>
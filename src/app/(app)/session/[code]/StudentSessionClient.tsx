@@ -16,6 +16,7 @@ import { AIAssistantPanel } from '@/components/AIAssistant'
 import { executeCode, type ExecutionResult } from '@/services/codeExecution'
 import { cn } from '@/utilities/ui'
 import { FileSelectionModal } from '@/components/Session/FileSelectionModal'
+import { SessionBreakOverlay } from '@/components/Session/SessionBreak'
 import { File, ChevronDown } from 'lucide-react'
 import { PaymentDueModal } from '@/components/Payment/PaymentDueModal'
 import { PaymentGracePeriodModal } from '@/components/Payment/PaymentGracePeriodModal'
@@ -25,6 +26,7 @@ import { PaymentBlocked } from '@/components/Payment/PaymentBlocked'
 import { useTheme } from '@/providers/Theme'
 import { useSessionData, type PaymentStatus as SessionPaymentStatus } from '@/hooks/session/useSessionData'
 import { useSessionCache } from '@/hooks/session/useSessionCache'
+import { useAttendanceHeartbeat } from '@/hooks/session/useAttendanceHeartbeat'
 import { usePaymentStatus } from '@/hooks/payment/usePaymentStatus'
 
 type ActiveTab = 'trainer' | 'scratchpad'
@@ -72,10 +74,10 @@ export function StudentSessionClient() {
 
   const joinCode = useMemo(() => normalizeCodeParam(params?.code), [params])
 
-  // Use React Query for session data (no automatic polling - manual refresh only)
+  // Use React Query for session data (no polling - changes are pushed by the server; refresh refetches)
   const { saveSessionCache } = useSessionCache()
   const { data: sessionData, isLoading: sessionLoading, error: sessionError, refetch: refetchSession } = useSessionData(joinCode, {
-    refetchInterval: false, // No automatic polling - use manual refresh button instead
+    refetchInterval: false, // No polling - updates arrive via /api/sessions/[code]/events
     enabled: !!joinCode,
   })
 
@@ -279,6 +281,9 @@ export function StudentSessionClient() {
     }
   }, [joinCode])
 
+  // Attendance heartbeats while the page is open
+  useAttendanceHeartbeat(joinCode, sessionActive)
+
   // Manual refresh function for trainer code
   const [refreshingTrainerCode, setRefreshingTrainerCode] = useState(false)
   const [refreshSuccess, setRefreshSuccess] = useState(false)
@@ -619,7 +624,7 @@ export function StudentSessionClient() {
   }
 
   return (
-    <div className="flex h-screen w-full flex-col overflow-hidden">
+    <div className="relative flex h-screen w-full flex-col overflow-hidden">
       {/* Header */}
       <header className="flex items-center justify-between border-b bg-card px-4 py-2">
         <div className="flex items-center gap-3">
@@ -655,10 +660,18 @@ export function StudentSessionClient() {
 
       {!sessionActive && (
         <div className="border-b bg-destructive/10 px-4 py-2 text-sm text-destructive">
-          This session has ended. You can go back to your workspace.
+          This session has ended. You can go back to your workspace or{' '}
+          <Link href={`/session/${joinCode}/replay`} className="font-medium underline">
+            replay the session
+          </Link>
+          .
         </div>
       )}
 
+      {sessionActive && sessionData?.pausedAt && (
+        <SessionBreakOverlay key={sessionData.pausedAt} resumeAt={sessionData.resumeAt} />
+      )}
+
       {/* Tabs */}
       <div className="flex flex-1 flex-col overflow-hidden p-2">
         <div className="flex items-center gap-2 border-b pb-2">
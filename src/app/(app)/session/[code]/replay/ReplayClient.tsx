@@ -0,0 +1,220 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { DiffEditor } from '@monaco-editor/react'
+import { Check, ChevronLeft, ChevronRight, Copy, Loader2 } from 'lucide-react'
+
+import { LiveCodePlayground, SUPPORTED_LANGUAGES } from '@/components/LiveCodePlayground'
+import { OutputPanel } from '@/components/LiveCodePlayground/OutputPanel'
+import type { ExecutionResult } from '@/services/codeExecution'
+import { useSessionSnapshots } from '@/hooks/session/useSessionSnapshots'
+import { useTheme } from '@/providers/Theme'
+import { cn } from '@/utilities/ui'
+
+type ReplayView = 'code' | 'changes'
+
+function mapOutputToExecutionResult(output: any): ExecutionResult | null {
+  if (!output) return null
+  return {
+    stdout: output.stdout || '',
+    stderr: output.stderr || '',
+    status: output.status || 'success',
+    executionTime: output.executionTime,
+    memory: output.memory,
+    exitCode: output.exitCode,
+  }
+}
+
+function formatTime(value: string | null | undefined): string {
+  if (!value) return ''
+  return new Date(value).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+}
+
+export function ReplayClient({ joinCode }: { joinCode: string }) {
+  const { recording, isLoading, error } = useSessionSnapshots(joinCode)
+  const { theme: appTheme } = useTheme()
+  const monacoTheme = appTheme === 'dark' ? 'vs-dark' : 'vs'
+
+  const snapshots = useMemo(() => recording?.snapshots ?? [], [recording])
+  const [index, setIndex] = useState(0)
+  const [view, setView] = useState<ReplayView>('code')
+  const [copied, setCopied] = useState(false)
+
+  // Start at the end of the session, where the final code is
+  useEffect(() => {
+    setIndex(Math.max(0, snapshots.length - 1))
+  }, [snapshots.length])
+
+  const snapshot = snapshots[index]
+  const previous = index > 0 ? snapshots[index - 1] : null
+  const language = snapshot?.language || 'javascript'
+  const monacoLanguage =
+    SUPPORTED_LANGUAGES.find((lang) => lang.id === language)?.monacoLanguage || 'javascript'
+
+  const copyFinalCode = async () => {
+    const finalCode = snapshots[snapshots.length - 1]?.code
+    if (!finalCode) return
+    try {
+      await navigator.clipboard.writeText(finalCode)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (e) {
+      console.error('Failed to copy code:', e)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex h-[80vh] items-center justify-center">
+        <div className="text-center space-y-4">
+          <div className="flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+          <p className="text-muted-foreground">Loading recording…</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !recording) {
+    return (
+      <div className="container mx-auto py-16 space-y-4">
+        <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-6">
+          <h2 className="text-lg font-semibold text-destructive mb-2">Replay unavailable</h2>
+          <p className="text-destructive mb-4">
+            {error instanceof Error ? error.message : 'Failed to load the recording.'}
+          </p>
+          <Link
+            href={`/session/${joinCode}`}
+            className="rounded-md border px-4 py-2 text-sm hover:bg-accent transition-colors"
+          >
+            Back to session
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex h-[calc(100vh-4rem)] flex-col">
+      <header className="flex items-center justify-between border-b px-4 py-2">
+        <div>
+          <h1 className="text-lg font-semibold">{recording.session.title}</h1>
+          <p className="text-xs text-muted-foreground">
+            Replay of session {recording.session.joinCode}
+            {recording.session.endedAt && ` · ended ${formatTime(recording.session.endedAt)}`}
+          </p>
+        </div>
+        <button
+          onClick={copyFinalCode}
+          disabled={snapshots.length === 0}
+          className="flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-sm hover:bg-accent transition-colors disabled:opacity-50"
+        >
+          {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          <span>{copied ? 'Copied' : 'Copy final code'}</span>
+        </button>
+      </header>
+
+      {snapshots.length === 0 ? (
+        <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+          Nothing was broadcast in this session.
+        </div>
+      ) : (
+        <>
+          {/* Timeline */}
+          <div className="flex items-center gap-3 border-b px-4 py-2">
+            <button
+              onClick={() => setIndex((i) => Math.max(0, i - 1))}
+              disabled={index === 0}
+              className="rounded-md border p-1 hover:bg-accent disabled:opacity-50"
+              aria-label="Previous snapshot"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <span className="w-16 text-xs text-muted-foreground">
+              {formatTime(snapshots[0].capturedAt)}
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={snapshots.length - 1}
+              value={index}
+              onChange={(e) => setIndex(Number(e.target.value))}
+              className="flex-1"
+              aria-label="Session timeline"
+            />
+            <span className="w-16 text-right text-xs text-muted-foreground">
+              {formatTime(snapshots[snapshots.length - 1].capturedAt)}
+            </span>
+            <button
+              onClick={() => setIndex((i) => Math.min(snapshots.length - 1, i + 1))}
+              disabled={index === snapshots.length - 1}
+              className="rounded-md border p-1 hover:bg-accent disabled:opacity-50"
+              aria-label="Next snapshot"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between border-b bg-muted/30 px-4 py-1.5 text-xs">
+            <span className="text-muted-foreground">
+              {index + 1} / {snapshots.length} · {formatTime(snapshot?.capturedAt)}
+              {snapshot?.workspaceFileName && ` · ${snapshot.workspaceFileName}`}
+            </span>
+            <div className="flex gap-1">
+              {(['code', 'changes'] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={cn(
+                    'rounded-md px-2 py-0.5 font-medium transition-colors',
+                    view === option
+                      ? 'bg-primary text-primary-foreground'
+                      : 'text-muted-foreground hover:bg-muted',
+                  )}
+                >
+                  {option === 'code' ? 'Code' : 'Changes'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-1 flex-col overflow-hidden">
+            <div className="flex-1 overflow-hidden">
+              {view === 'code' ? (
+                <LiveCodePlayground
+                  language={language}
+                  code={snapshot?.code || ''}
+                  onChange={() => {}}
+                  onRun={() => {}}
+                  readOnly
+                  codeTools={false}
+                />
+              ) : (
+                <DiffEditor
+                  height="100%"
+                  language={monacoLanguage}
+                  original={previous?.code ?? ''}
+                  modified={snapshot?.code || ''}
+                  theme={monacoTheme}
+                  options={{ readOnly: true, renderSideBySide: true, minimap: { enabled: false } }}
+                />
+              )}
+            </div>
+            <div className="h-48 border-t">
+              <OutputPanel
+                result={mapOutputToExecutionResult(snapshot?.output)}
+                executing={false}
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import React from 'react'
+import { redirect } from 'next/navigation'
+
+import { getMeUser } from '@/auth/getMeUser'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { ReplayClient } from './ReplayClient'
+
+type PageProps = {
+  params: Promise<{
+    code: string
+  }>
+}
+
+export default async function SessionReplayPage({ params }: PageProps) {
+  const { code } = await params
+
+  // Require authentication; the API decides whether the recording is available yet
+  await getMeUser({ nullUserRedirect: `/admin?redirect=/session/${code}/replay` })
+
+  if (!code || !isValidJoinCode(code)) {
+    redirect('/join')
+  }
+
+  return <ReplayClient joinCode={code.toUpperCase()} />
+}
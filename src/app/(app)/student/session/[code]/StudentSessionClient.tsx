@@ -100,6 +100,8 @@ export function StudentSessionClient() {
         sessionCode={joinCode}
         sessionTitle={sessionTitle}
         sessionActive={sessionActive}
+        pausedAt={sessionData?.pausedAt}
+        resumeAt={sessionData?.resumeAt}
       />
 
       {/* Payment Due Modal */}
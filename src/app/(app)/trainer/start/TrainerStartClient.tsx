@@ -2,16 +2,50 @@
 
 import React, { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
-import { Radio, Play } from 'lucide-react'
+import { useQueryClient } from '@tanstack/react-query'
+import { Radio, Play, CalendarPlus } from 'lucide-react'
 import { ActiveSessionsList } from '@/components/Session/ActiveSessionsList'
+import { UpcomingSessionsList } from '@/components/Session/UpcomingSessionsList'
+import { SUPPORTED_LANGUAGES } from '@/components/LiveCodePlayground'
 import { useCurrentUser } from '@/hooks/useCurrentUser'
+import { useCohorts } from '@/hooks/session/useCohorts'
+import {
+  AccessModeFields,
+  OPEN_ACCESS,
+  accessInputFrom,
+  type AccessDraft,
+} from '@/components/Session/SessionAccess'
+import {
+  DEFAULT_SESSION_DURATION_MINUTES,
+  MAX_SESSION_DURATION_MINUTES,
+  MIN_SESSION_DURATION_MINUTES,
+} from '@/utilities/sessionSchedule'
+
+const inputClassName =
+  'mt-1 w-full rounded-md border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-ring'
 
 export function TrainerStartClient() {
   const router = useRouter()
+  const queryClient = useQueryClient()
   const { user: me, isLoading: loading, error: userError } = useCurrentUser()
   const [title, setTitle] = useState('')
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [scheduleForLater, setScheduleForLater] = useState(false)
+  const [scheduledStart, setScheduledStart] = useState('')
+  const [durationMinutes, setDurationMinutes] = useState(DEFAULT_SESSION_DURATION_MINUTES)
+  const [timezone, setTimezone] = useState('UTC')
+  const [languageSlug, setLanguageSlug] = useState('')
+  const [description, setDescription] = useState('')
+  const [scheduledMessage, setScheduledMessage] = useState<string | null>(null)
+  const [openingCode, setOpeningCode] = useState<string | null>(null)
+  const [access, setAccess] = useState<AccessDraft>(OPEN_ACCESS)
+  const { cohorts } = useCohorts(access.accessMode === 'restricted')
+
+  // Default to the browser's time zone (not known during server render)
+  useEffect(() => {
+    setTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC')
+  }, [])
 
   useEffect(() => {
     if (userError) setError('Failed to load user info')
@@ -31,7 +65,13 @@ export function TrainerStartClient() {
       return
     }
 
+    if (scheduleForLater && !scheduledStart) {
+      setError('Please pick a start time.')
+      return
+    }
+
     setSubmitting(true)
+    setScheduledMessage(null)
 
     try {
       const res = await fetch('/api/sessions/start', {
@@ -41,6 +81,10 @@ export function TrainerStartClient() {
         },
         body: JSON.stringify({
           title: title.trim(),
+          description: description.trim() || undefined,
+          languageSlug: languageSlug || undefined,
+          ...(scheduleForLater && { scheduledStart, timezone, durationMinutes }),
+          ...(access.accessMode !== 'open' && { access: accessInputFrom(access) }),
         }),
       })
 
@@ -50,6 +94,17 @@ export function TrainerStartClient() {
       }
 
       const joinCode = data.joinCode as string
+      if (data.scheduledStart) {
+        // Stay here; the session shows up under Upcoming Sessions
+        setScheduledMessage(
+          `Scheduled "${data.title}" for ${new Date(data.scheduledStart).toLocaleString()}. Join code: ${joinCode}`,
+        )
+        setTitle('')
+        setDescription('')
+        setScheduledStart('')
+        queryClient.invalidateQueries({ queryKey: ['sessions', 'upcoming'] })
+        return
+      }
       router.push(`/trainer/session/${joinCode}`)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to start session')
@@ -62,6 +117,24 @@ export function TrainerStartClient() {
     router.push(`/trainer/session/${joinCode}`)
   }
 
+  const handleOpenScheduled = async (joinCode: string) => {
+    setError(null)
+    setOpeningCode(joinCode)
+    try {
+      const res = await fetch(`/api/sessions/${joinCode}/open`, { method: 'POST' })
+      const data = await res.json()
+      // Already live (e.g. opened in another tab) is fine
+      if (!res.ok && res.status !== 409) {
+        throw new Error(data.error || 'Failed to open session')
+      }
+      queryClient.invalidateQueries({ queryKey: ['sessions'] })
+      router.push(`/trainer/session/${joinCode}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open session')
+      setOpeningCode(null)
+    }
+  }
+
   return (
     <div className="container mx-auto max-w-6xl py-12 px-4">
       <div className="mb-6">
@@ -88,24 +161,124 @@ export function TrainerStartClient() {
                 value={title}
                 onChange={(e) => setTitle(e.target.value)}
                 placeholder="e.g., Python Loops – Day 1"
-                className="mt-1 w-full rounded-md border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-ring"
+                className={inputClassName}
+                disabled={loading || submitting}
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Language</label>
+              <select
+                value={languageSlug}
+                onChange={(e) => setLanguageSlug(e.target.value)}
+                className={inputClassName}
+                disabled={loading || submitting}
+              >
+                <option value="">Any</option>
+                {SUPPORTED_LANGUAGES.map((language) => (
+                  <option key={language.id} value={language.id}>
+                    {language.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Description (optional)</label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What will this session cover?"
+                rows={2}
+                className={inputClassName}
                 disabled={loading || submitting}
               />
             </div>
 
+            <div>
+              <label className="text-sm font-medium">Who may join</label>
+              <AccessModeFields
+                value={access}
+                onChange={setAccess}
+                cohorts={cohorts}
+                disabled={loading || submitting}
+                inputClassName={inputClassName}
+              />
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={scheduleForLater}
+                onChange={(e) => setScheduleForLater(e.target.checked)}
+                disabled={loading || submitting}
+              />
+              Schedule for later
+            </label>
+
+            {scheduleForLater && (
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="sm:col-span-2">
+                  <label className="text-sm font-medium">Starts at</label>
+                  <input
+                    type="datetime-local"
+                    value={scheduledStart}
+                    onChange={(e) => setScheduledStart(e.target.value)}
+                    className={inputClassName}
+                    disabled={submitting}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Duration (minutes)</label>
+                  <input
+                    type="number"
+                    min={MIN_SESSION_DURATION_MINUTES}
+                    max={MAX_SESSION_DURATION_MINUTES}
+                    step={5}
+                    value={durationMinutes}
+                    onChange={(e) => setDurationMinutes(Number(e.target.value))}
+                    className={inputClassName}
+                    disabled={submitting}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Time zone</label>
+                  <input
+                    type="text"
+                    value={timezone}
+                    onChange={(e) => setTimezone(e.target.value)}
+                    placeholder="e.g., Asia/Kolkata"
+                    className={inputClassName}
+                    disabled={submitting}
+                  />
+                </div>
+              </div>
+            )}
+
             {error && (
               <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
                 {error}
               </div>
             )}
 
+            {scheduledMessage && (
+              <div className="rounded-md bg-green-500/10 p-3 text-sm text-green-700 dark:text-green-400">
+                {scheduledMessage}
+              </div>
+            )}
+
             <button
               type="submit"
               disabled={loading || submitting || !title.trim() || !me?.id}
               className="inline-flex items-center justify-center gap-2 rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {submitting ? (
-                'Starting....'
+                scheduleForLater ? 'Scheduling...' : 'Starting....'
+              ) : scheduleForLater ? (
+                <>
+                  <CalendarPlus className="h-4 w-4" />
+                  Schedule Session
+                </>
               ) : (
                 <>
                   <Play className="h-4 w-4" />
@@ -122,8 +295,8 @@ export function TrainerStartClient() {
           </form>
         </div>
 
-        {/* Active Sessions List */}
-        <div>
+        {/* Active and Upcoming Sessions */}
+        <div className="space-y-8">
           <ActiveSessionsList
             onSessionSelect={handleSessionSelect}
             actionLabel="Open"
@@ -132,6 +305,12 @@ export function TrainerStartClient() {
             emptyMessage="No active sessions found."
             emptySubMessage="Sessions will appear here once you start them."
           />
+          <UpcomingSessionsList
+            onOpen={handleOpenScheduled}
+            actionLoadingCode={openingCode}
+            trainerId={me?.id}
+            emptyMessage="You have no scheduled sessions."
+          />
         </div>
       </div>
     </div>
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { getServerSideURL } from '@/utilities/getURL'
+import { buildCalendar } from '@/utilities/ics'
+import { findUserByCalendarToken, listCalendarEvents } from '@/services/sessionSchedule'
+
+/**
+ * GET /api/calendar/[token]
+ * ICS feed of the user's scheduled sessions (see GET /api/calendar for the URL).
+ * No cookie auth: calendar apps fetch it with the secret token in the URL.
+ * 
+ * Returns: text/calendar
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const payload = await getPayload({ config })
+
+    const user = await findUserByCalendarToken(payload, token)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found' },
+        { status: 404 }
+      )
+    }
+
+    const events = await listCalendarEvents(payload, user, getServerSideURL())
+    const name = user.role === 'student' ? 'Live coding sessions' : 'My live coding sessions'
+
+    return new NextResponse(buildCalendar(name, events), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="sessions.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+  } catch (error) {
+    console.error('Error building calendar feed:', error)
+    return NextResponse.json(
+      { error: 'Failed to build calendar feed' },
+      { status: 500 }
+    )
+  }
+}
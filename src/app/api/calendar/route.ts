@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { getServerSideURL } from '@/utilities/getURL'
+import { getCalendarToken } from '@/services/sessionSchedule'
+
+/**
+ * GET /api/calendar
+ * The signed-in user's calendar feed URL (ICS) for subscribing in calendar apps.
+ * The URL contains a secret, so calendar apps can fetch it without signing in.
+ * 
+ * POST /api/calendar
+ * Replace the secret; the old feed URL stops working.
+ * 
+ * Returns: { url: string }
+ */
+export async function GET() {
+  return feedUrlResponse(false)
+}
+
+export async function POST(_request: NextRequest) {
+  return feedUrlResponse(true)
+}
+
+async function feedUrlResponse(rotate: boolean) {
+  try {
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+    const token = await getCalendarToken(payload, user.id, { rotate })
+
+    return NextResponse.json({
+      url: `${getServerSideURL()}/api/calendar/${token}`,
+    })
+  } catch (error) {
+    console.error('Error getting calendar feed URL:', error)
+    return NextResponse.json(
+      { error: 'Failed to get calendar feed' },
+      { status: 500 }
+    )
+  }
+}
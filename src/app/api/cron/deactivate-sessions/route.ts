@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
-import { getSessionExpirationCutoff } from '@/utilities/sessionExpiration'
+import { getSessionExpirationCutoff, isSessionExpired } from '@/utilities/sessionExpiration'
 
 /**
  * POST /api/cron/deactivate-sessions
- * Deactivates sessions that have been active for more than 24 hours
+ * Deactivates sessions that have been active for more than 24 hours (breaks don't count)
  * 
  * This endpoint should be called periodically (e.g., every hour) by a cron job
  * Protected by CRON_SECRET environment variable
@@ -63,8 +63,9 @@ export async function POST(request: NextRequest) {
 
     let deactivatedCount = 0
 
-    // Deactivate each old session
+    // Deactivate each old session, unless breaks keep it within the limit
     for (const session of oldSessions.docs) {
+      if (!isSessionExpired(session.startedAt, session.createdAt, session)) continue
       try {
         await payload.update({
           collection: 'live-sessions',
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { checkDashboardAccess } from '@/utilities/dashboardAccess'
+import { getMinAttendancePercent, listAttendanceSessions } from '@/services/attendance'
+
+/**
+ * GET /api/dashboard/attendance
+ * List sessions that have started, newest first, for the attendance reports.
+ * Trainers see the sessions they own or co-host; managers and admins see all.
+ *
+ * Query params: page, limit, search (title or join code)
+ * Returns: { docs: AttendanceSessionListItem[], totalDocs, page, totalPages, minAttendancePercent }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    if (!checkDashboardAccess(user)) {
+      return createAuthErrorResponse('Unauthorized - dashboard access required', 403)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1)
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20))
+    const search = searchParams.get('search')?.trim() || null
+
+    const payload = await getPayload({ config })
+
+    const sessions = await listAttendanceSessions(payload, user, { page, limit, search })
+    const minAttendancePercent = await getMinAttendancePercent(payload)
+
+    return NextResponse.json({ ...sessions, minAttendancePercent })
+  } catch (error) {
+    console.error('Error listing attendance sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to list sessions' },
+      { status: 500 }
+    )
+  }
+}
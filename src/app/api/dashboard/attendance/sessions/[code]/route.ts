@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { checkDashboardAccess } from '@/utilities/dashboardAccess'
+import { isSessionHost } from '@/services/sessionHosts'
+import {
+  getMinAttendancePercent,
+  getSessionAttendance,
+  parseMinAttendance,
+} from '@/services/attendance'
+import { sessionAttendanceCsv } from '@/utilities/attendanceCsv'
+
+/**
+ * GET /api/dashboard/attendance/sessions/[code]
+ * Attendance of every student in a session: attended minutes, late arrival and
+ * early departure (session hosts, managers and admins)
+ *
+ * Query params: minAttendance (0-100, default from platform settings), format=csv
+ * Returns: SessionAttendanceReport, or a text/csv attachment attendance-<CODE>.csv
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    if (!checkDashboardAccess(user)) {
+      return createAuthErrorResponse('Unauthorized - dashboard access required', 403)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const threshold = parseMinAttendance(searchParams.get('minAttendance'))
+    if (!threshold.ok) {
+      return NextResponse.json(
+        { error: threshold.error },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!isSessionHost(session, user)) {
+      return createAuthErrorResponse('Only hosts of this session can see its attendance', 403)
+    }
+
+    const minAttendancePercent = threshold.percent ?? (await getMinAttendancePercent(payload))
+    const report = await getSessionAttendance(payload, session, minAttendancePercent)
+
+    if (searchParams.get('format') === 'csv') {
+      return new NextResponse(sessionAttendanceCsv(report), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="attendance-${session.joinCode}.csv"`,
+        },
+      })
+    }
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error building session attendance:', error)
+    return NextResponse.json(
+      { error: 'Failed to load attendance' },
+      { status: 500 }
+    )
+  }
+}
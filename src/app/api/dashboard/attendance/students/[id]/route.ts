@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { checkDashboardAccess } from '@/utilities/dashboardAccess'
+import {
+  getMinAttendancePercent,
+  getStudentAttendance,
+  parseMinAttendance,
+} from '@/services/attendance'
+import { studentAttendanceCsv } from '@/utilities/attendanceCsv'
+
+/**
+ * GET /api/dashboard/attendance/students/[id]
+ * A student's attendance across their most recent sessions. Trainers only see
+ * the sessions they own or co-host; managers and admins see all.
+ *
+ * Query params: minAttendance (0-100, default from platform settings), format=csv
+ * Returns: StudentAttendanceReport, or a text/csv attachment attendance-student-<id>.csv
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const studentId = Number(id)
+
+    if (!Number.isInteger(studentId) || studentId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid student id' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    if (!checkDashboardAccess(user)) {
+      return createAuthErrorResponse('Unauthorized - dashboard access required', 403)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const threshold = parseMinAttendance(searchParams.get('minAttendance'))
+    if (!threshold.ok) {
+      return NextResponse.json(
+        { error: threshold.error },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const students = await payload.find({
+      collection: 'users',
+      where: {
+        and: [{ id: { equals: studentId } }, { role: { equals: 'student' } }],
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (students.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Student not found' },
+        { status: 404 }
+      )
+    }
+
+    const minAttendancePercent = threshold.percent ?? (await getMinAttendancePercent(payload))
+    const report = await getStudentAttendance(payload, students.docs[0], user, minAttendancePercent)
+
+    if (searchParams.get('format') === 'csv') {
+      return new NextResponse(studentAttendanceCsv(report), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="attendance-student-${studentId}.csv"`,
+        },
+      })
+    }
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error building student attendance:', error)
+    return NextResponse.json(
+      { error: 'Failed to load attendance' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { checkDashboardAccess } from '@/utilities/dashboardAccess'
+import { listCohorts } from '@/services/sessionAccess'
+
+/**
+ * GET /api/dashboard/cohorts
+ * Cohorts (student batches) by name, for restricting a session to them.
+ * Cohorts are managed in the admin panel.
+ *
+ * Returns: { cohorts: Array<{ id: number, name: string, studentCount: number }> }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    if (!checkDashboardAccess(user)) {
+      return createAuthErrorResponse('Unauthorized - dashboard access required', 403)
+    }
+
+    const payload = await getPayload({ config })
+
+    const cohorts = await listCohorts(payload)
+
+    return NextResponse.json({ cohorts })
+  } catch (error) {
+    console.error('Error listing cohorts:', error)
+    return NextResponse.json(
+      { error: 'Failed to list cohorts' },
+      { status: 500 }
+    )
+  }
+}
@@ -113,6 +113,13 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
+    if (body.minAttendancePercent !== undefined && body.minAttendancePercent !== null && (typeof body.minAttendancePercent !== 'number' || body.minAttendancePercent < 0 || body.minAttendancePercent > 100)) {
+      return NextResponse.json(
+        { error: 'Minimum attendance must be a percentage between 0 and 100' },
+        { status: 400 }
+      )
+    }
+
     if (body.availableCurrencies !== undefined && !Array.isArray(body.availableCurrencies)) {
       return NextResponse.json(
         { error: 'Available currencies must be an array' },
@@ -120,6 +127,25 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
+    if (body.executionRateLimits !== undefined) {
+      const validLimit = (value: unknown) =>
+        value === undefined || value === null || (typeof value === 'number' && Number.isInteger(value) && value >= 1)
+      const roles = new Set<string>()
+      const valid =
+        Array.isArray(body.executionRateLimits) &&
+        body.executionRateLimits.every((row: any) => {
+          if (!row || roles.has(row.role)) return false
+          roles.add(row.role)
+          return validLimit(row.runsPerMinute) && validLimit(row.runsPerDay)
+        })
+      if (!valid) {
+        return NextResponse.json(
+          { error: 'Execution limits must have one row per role with positive integer limits' },
+          { status: 400 }
+        )
+      }
+    }
+
     if (body.availablePaymentMethods !== undefined && !Array.isArray(body.availablePaymentMethods)) {
       return NextResponse.json(
         { error: 'Available payment methods must be an array' },
@@ -5,6 +5,7 @@ import { getMeUser } from '@/auth/getMeUser'
 import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
 import { hasFullAccess } from '@/utilities/dashboardAccess'
 import { getAccessStatus } from '@/utilities/accessStatus'
+import { getExecutionUsage, getRoleLimits } from '@/services/execution'
 
 /**
  * GET /api/dashboard/users
@@ -12,6 +13,7 @@ import { getAccessStatus } from '@/utilities/accessStatus'
  * 
  * Query params: page, limit, search, role, sort
  * Returns: { docs: User[], totalDocs, limit, page, totalPages }
+ *   Each user includes executionUsage: runs in the last minute / 24 hours and the role's limits
  */
 export async function GET(request: NextRequest) {
   try {
@@ -122,6 +124,12 @@ export async function GET(request: NextRequest) {
       })
     }
 
+    // Code runs in the current rate-limit windows
+    const usageMap = await getExecutionUsage(
+      payload,
+      users.docs.map((u) => u.id),
+    )
+
     // Format response (exclude sensitive fields)
     const formattedUsers = users.docs.map((userDoc) => {
       const feeInfo = feesMap.get(userDoc.id)
@@ -152,9 +160,18 @@ export async function GET(request: NextRequest) {
         settings || null
       )
       
+      const usage = usageMap.get(userDoc.id)
+      const limits = getRoleLimits(settings, userDoc.role)
+
       return {
         ...userData,
         accessStatus,
+        executionUsage: {
+          lastMinute: usage?.lastMinute ?? 0,
+          lastDay: usage?.lastDay ?? 0,
+          runsPerMinute: limits.runsPerMinute,
+          runsPerDay: limits.runsPerDay,
+        },
       }
     })
 
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMeUser } from '@/auth/getMeUser'
+import { sendRunInput } from '@/services/execution'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+
+/**
+ * POST /api/execute/input
+ * Type into an interactive run started with POST /api/execute/stream ({ interactive: true }).
+ * Only the user who started the run may type into it.
+ *
+ * Body: { runId: string, data?: string, eof?: boolean }
+ *   data is written to the program's stdin as-is (include the trailing newline);
+ *   eof closes stdin (Ctrl+D)
+ *
+ * Returns: { sent: true } or 404 when the run finished, is not reading input yet or
+ *   belongs to someone else; 413 above MAX_INPUT_CHUNK_BYTES per request or
+ *   MAX_TYPED_INPUT_BYTES per run
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const { runId, data, eof } = await request.json()
+
+    if (!runId || typeof runId !== 'string') {
+      return NextResponse.json({ error: 'runId is required' }, { status: 400 })
+    }
+    if (data !== undefined && typeof data !== 'string') {
+      return NextResponse.json({ error: 'data must be a string' }, { status: 400 })
+    }
+
+    const result = sendRunInput(runId, user.id, { data, eof: eof === true })
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ sent: true })
+  } catch (error) {
+    console.error('Error sending execution input:', error)
+    return NextResponse.json({ error: 'Failed to send input' }, { status: 500 })
+  }
+}
@@ -1,163 +1,107 @@
-// API route to proxy code execution to OneCompiler via RapidAPI
-// https://rapidapi.com/onecompiler-onecompiler-default/api/onecompiler-apis
+// API route for code execution
+// Runs code on the backend configured for the language (OneCompiler proxy or local sandbox)
 // This avoids CORS issues by making the request server-side
 
-import { NextRequest, NextResponse } from 'next/server'
-
-// OneCompiler API via RapidAPI
-const ONECOMPILER_API = process.env.ONE_COMPILER_URL || 'https://onecompiler-apis.p.rapidapi.com/api/v1/run'
-const ONECOMPILER_HOST = process.env.ONE_COMPILER_HOST || 'onecompiler-apis.p.rapidapi.com'
-
-/** Parse ONE_COMPILER_KEY env: single key or comma-separated list → array of keys (trimmed, non-empty) */
-function getOneCompilerKeys(): string[] {
-  const raw = process.env.ONE_COMPILER_KEY || ''
-  if (!raw.trim()) return []
-  return raw.split(',').map((k) => k.trim()).filter(Boolean)
-}
-
-/** Pick a random key from the configured keys for load distribution */
-function pickRandomKey(keys: string[]): string {
-  return keys[Math.floor(Math.random() * keys.length)]!
-}
-
-// Language mapping for OneCompiler
-// Maps our language IDs to OneCompiler's language identifiers
-const LANGUAGE_MAP: Record<string, string> = {
-  javascript: 'nodejs',
-  nodejs: 'nodejs',
-  typescript: 'typescript',
-  python: 'python',
-  python2: 'python2',
-  c: 'c',
-  cpp: 'cpp',
-  java: 'java',
-  csharp: 'csharp',
-  php: 'php',
-  ruby: 'ruby',
-  go: 'go',
-  rust: 'rust',
-  kotlin: 'kotlin',
-  swift: 'swift',
-  scala: 'scala',
-  perl: 'perl',
-  r: 'r',
-  dart: 'dart',
-  lua: 'lua',
-  bash: 'bash',
-  shell: 'bash',
-  haskell: 'haskell',
-  elixir: 'elixir',
-  erlang: 'erlang',
-  clojure: 'clojure',
-  groovy: 'groovy',
-  objectivec: 'objectivec',
-  fsharp: 'fsharp',
-  assembly: 'assembly',
-  fortran: 'fortran',
-  cobol: 'cobol',
-  pascal: 'pascal',
-}
-
-// File name mapping based on language extensions
-const FILE_NAMES: Record<string, string> = {
-  javascript: 'index.js',
-  nodejs: 'index.js',
-  typescript: 'index.ts',
-  python: 'main.py',
-  python2: 'main.py',
-  c: 'main.c',
-  cpp: 'main.cpp',
-  java: 'Main.java',
-  csharp: 'Program.cs',
-  php: 'index.php',
-  ruby: 'main.rb',
-  go: 'main.go',
-  rust: 'main.rs',
-  kotlin: 'Main.kt',
-  swift: 'main.swift',
-  scala: 'Main.scala',
-  perl: 'main.pl',
-  r: 'main.r',
-  dart: 'main.dart',
-  lua: 'main.lua',
-  bash: 'script.sh',
-  shell: 'script.sh',
-  haskell: 'main.hs',
-  elixir: 'main.ex',
-  erlang: 'main.erl',
-  clojure: 'main.clj',
-  groovy: 'Main.groovy',
-  objectivec: 'main.m',
-  fsharp: 'Program.fs',
-  assembly: 'main.asm',
-  fortran: 'main.f90',
-  cobol: 'main.cob',
-  pascal: 'main.pas',
-}
-
+import { NextRequest, NextResponse, after } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { getMeUser } from '@/auth/getMeUser'
+import {
+  buildExecutionRequest,
+  getClientIp,
+  isFolderRun,
+  parseExecuteBody,
+  recordExecution,
+  reserveExecution,
+  resolveExecutionBackend,
+  type BackendResponse,
+} from '@/services/execution'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import type { User } from '@/payload-types'
+
+/**
+ * POST /api/execute
+ * Run code on the backend configured for the language
+ *
+ * Body (single file): { language, code, input? }
+ * Body (run folder):  { language, folderId, entryFileId, input? }
+ *   Every file under the folder subtree is sent, with paths relative to the
+ *   folder; the entry file is run. Requires an authenticated folder owner.
+ *
+ * Optional: fileId, sessionCode (stored with the run in the `executions` collection)
+ *
+ * Returns: backend output ({ stdout, stderr, exception, executionTime, ... })
+ *   429 { error, retryAfter } with a Retry-After header when the caller's run limit is reached
+ *   401 when the language runs on the local backend and the caller is not signed in
+ * See /api/execute/stream for the streaming (SSE) variant.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const apiKeys = getOneCompilerKeys()
-    if (apiKeys.length === 0) {
-      return NextResponse.json(
-        { error: 'ONE_COMPILER_KEY not configured. Please add it to your .env file.' },
-        { status: 500 },
-      )
+    const parsed = parseExecuteBody(await request.json())
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: parsed.status })
     }
 
-    const body = await request.json()
-    const { language, code, input } = body
-
-    if (!language || !code) {
-      return NextResponse.json(
-        { error: 'Missing required fields: language and code' },
-        { status: 400 },
-      )
+    // Signed-in user: required for folder runs, optional otherwise (recorded in run history)
+    let user: User | null = null
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      if (isFolderRun(parsed.value)) {
+        return createAuthErrorResponse('Session expired', 401)
+      }
     }
 
-    const oneCompilerLang = LANGUAGE_MAP[language] || language
-    const fileName = FILE_NAMES[language] || 'main.txt'
-    const selectedKey = pickRandomKey(apiKeys)
+    const payload = await getPayload({ config })
 
-    // Log which key is selected (index + short prefix) without dumping full secrets
-    const selectedIndex = apiKeys.indexOf(selectedKey)
-    const maskedKey = selectedKey.slice(0, 6) + '...' // show only prefix
-    console.log(
-      `[OneCompiler] Using key #${selectedIndex + 1} of ${apiKeys.length}: ${maskedKey}`,
-    )
+    const backend = await resolveExecutionBackend(payload, parsed.value.language)
+    if (backend.requiresSignIn && !user) {
+      return createAuthErrorResponse('Sign in to run code on this server', 401)
+    }
 
-    // Make request to OneCompiler via RapidAPI (random key from pool)
-    const response = await fetch(ONECOMPILER_API, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-RapidAPI-Key': selectedKey,
-        'X-RapidAPI-Host': ONECOMPILER_HOST,
-      },
-      body: JSON.stringify({
-        language: oneCompilerLang,
-        stdin: input || '',
-        files: [
-          {
-            name: fileName,
-            content: code,
-          },
-        ],
-      }),
-    })
+    const executionRequest = await buildExecutionRequest(payload, parsed.value, user)
+    if (!executionRequest.ok) {
+      return NextResponse.json({ error: executionRequest.error }, { status: executionRequest.status })
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('OneCompiler API error:', response.status, errorText)
+    // Per-role run limits (platform-settings → Limits); the run is counted from here on
+    const quota = await reserveExecution(payload, {
+      user,
+      ip: getClientIp(request.headers),
+      language: parsed.value.language,
+    })
+    if (!quota.ok) {
       return NextResponse.json(
-        { error: `OneCompiler API error: ${response.status} - ${errorText}` },
-        { status: response.status },
+        { error: quota.error, retryAfter: quota.retryAfter },
+        { status: quota.status, headers: { 'Retry-After': String(quota.retryAfter) } },
+      )
+    }
+
+    let result: BackendResponse | undefined
+    try {
+      result = await backend.execute(executionRequest.value)
+    } finally {
+      // Fill in the reserved run even when the backend throws
+      const response = result ?? { ok: false as const, error: 'Execution did not finish' }
+      after(() =>
+        recordExecution(payload, {
+          reservationId: quota.reservationId,
+          userId: user?.id,
+          fileId: parsed.value.fileId,
+          sessionCode: parsed.value.sessionCode,
+          folderRun: isFolderRun(parsed.value),
+          request: executionRequest.value,
+          response,
+        }),
       )
     }
 
-    const result = await response.json()
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
 
-    return NextResponse.json(result)
+    return NextResponse.json(result.output)
   } catch (error) {
     console.error('Code execution API error:', error)
     return NextResponse.json(
@@ -168,4 +112,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { getMeUser } from '@/auth/getMeUser'
+import { getOneCompilerKeyStatus } from '@/services/execution'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+
+/**
+ * GET /api/execute/status
+ * Health of the OneCompiler key pool (admin only)
+ *
+ * Returns: { summary: { total, healthy, probation, benched }, keys: KeyStatus[] }
+ *   Keys are masked; benched keys are skipped until their cooldown ends.
+ *   State is per server instance.
+ */
+export async function GET() {
+  try {
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    if (user.role !== 'admin') {
+      return createAuthErrorResponse('Unauthorized - admin access required', 403)
+    }
+
+    const keys = getOneCompilerKeyStatus()
+    const count = (health: string) => keys.filter((key) => key.health === health).length
+
+    return NextResponse.json({
+      summary: {
+        total: keys.length,
+        healthy: count('healthy'),
+        probation: count('probation'),
+        benched: count('benched'),
+      },
+      keys,
+    })
+  } catch (error) {
+    console.error('Error reading execution key status:', error)
+    return NextResponse.json({ error: 'Failed to read execution key status' }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMeUser } from '@/auth/getMeUser'
+import { cancelRun } from '@/services/execution'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+
+/**
+ * POST /api/execute/stop
+ * Stop a run started with POST /api/execute/stream. Only the user who started
+ * the run may stop it (guests stop the runs they started as guests).
+ *
+ * Body: { runId: string }
+ *
+ * Returns: { stopped: true } or 404 when the run already finished or belongs to someone else
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    const { runId } = await request.json()
+
+    if (!runId || typeof runId !== 'string') {
+      return NextResponse.json({ error: 'runId is required' }, { status: 400 })
+    }
+
+    if (!cancelRun(runId, user?.id ?? null)) {
+      return NextResponse.json({ error: 'Run not found or already finished' }, { status: 404 })
+    }
+
+    return NextResponse.json({ stopped: true })
+  } catch (error) {
+    console.error('Error stopping execution:', error)
+    return NextResponse.json({ error: 'Failed to stop execution' }, { status: 500 })
+  }
+}
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { getMeUser } from '@/auth/getMeUser'
+import {
+  attachRunStdin,
+  buildExecutionRequest,
+  getClientIp,
+  isFolderRun,
+  parseExecuteBody,
+  recordExecution,
+  registerRun,
+  reserveExecution,
+  resolveExecutionBackend,
+  resolveInteractiveBackend,
+  unregisterRun,
+  type BackendResponse,
+} from '@/services/execution'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import type { User } from '@/payload-types'
+
+/**
+ * POST /api/execute/stream
+ * Run code and stream the output as Server-Sent Events
+ *
+ * Body: same as POST /api/execute, plus optional `interactive: true`
+ *   Interactive runs keep stdin open: send typed input with POST /api/execute/input.
+ *   They need the local runner (400 when it can't run the language on this server).
+ *
+ * Events:
+ *   start   { runId }                      - pass runId to POST /api/execute/stop
+ *   stdin   { ready: true }                - interactive runs: the program is reading input
+ *   output  { stream: 'stdout' | 'stderr', data }
+ *   done    backend output (same shape as /api/execute)
+ *   error   { error }
+ *
+ * Closing the connection also stops the run.
+ * Interactive runs and runs on the local backend require sign-in: 401 JSON.
+ * Over the run limit: 429 JSON (same as /api/execute), no stream.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseExecuteBody(await request.json())
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: parsed.status })
+    }
+
+    // Signed-in user: required for folder runs, optional otherwise (recorded in run history)
+    let user: User | null = null
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      if (isFolderRun(parsed.value)) {
+        return createAuthErrorResponse('Session expired', 401)
+      }
+    }
+
+    const payload = await getPayload({ config })
+
+    const backend = parsed.value.interactive
+      ? resolveInteractiveBackend(parsed.value.language)
+      : await resolveExecutionBackend(payload, parsed.value.language)
+    if (!backend) {
+      return NextResponse.json(
+        {
+          error: `Interactive input is not available for ${parsed.value.language} on this server. Turn off interactive mode to run with the Input panel.`,
+        },
+        { status: 400 },
+      )
+    }
+
+    // Typed input goes to the run's owner only, so interactive runs need a user
+    if ((backend.requiresSignIn || parsed.value.interactive) && !user) {
+      return createAuthErrorResponse('Sign in to run code on this server', 401)
+    }
+
+    const executionRequest = await buildExecutionRequest(payload, parsed.value, user)
+    if (!executionRequest.ok) {
+      return NextResponse.json({ error: executionRequest.error }, { status: executionRequest.status })
+    }
+
+    // Per-role run limits (platform-settings → Limits); the run is counted from here on
+    const quota = await reserveExecution(payload, {
+      user,
+      ip: getClientIp(request.headers),
+      language: parsed.value.language,
+    })
+    if (!quota.ok) {
+      return NextResponse.json(
+        { error: quota.error, retryAfter: quota.retryAfter },
+        { status: quota.status, headers: { 'Retry-After': String(quota.retryAfter) } },
+      )
+    }
+
+    const { runId, controller } = registerRun(user?.id ?? null)
+    // Input typed during an interactive run, kept for the run history
+    let typedInput = ''
+    const encoder = new TextEncoder()
+
+    // Client went away: kill the program
+    request.signal.addEventListener('abort', () => controller.abort())
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(streamController) {
+        let closed = false
+        const send = (event: string, data: unknown) => {
+          if (closed) return
+          try {
+            streamController.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+          } catch {
+            closed = true
+          }
+        }
+
+        send('start', { runId })
+
+        let response: BackendResponse | { ok: false; error: string } = {
+          ok: false,
+          error: 'Execution did not finish',
+        }
+        try {
+          const result = await backend.execute(executionRequest.value, {
+            signal: controller.signal,
+            onOutput: (outputStream, data) => send('output', { stream: outputStream, data }),
+            interactive: parsed.value.interactive,
+            onStdinReady: (stdin) => {
+              attachRunStdin(runId, {
+                write: (data) => {
+                  typedInput += data
+                  stdin.write(data)
+                },
+                end: stdin.end,
+              })
+              send('stdin', { ready: true })
+            },
+          })
+          response = result
+
+          if (!result.ok) {
+            send('error', { error: result.error })
+          } else {
+            // Non-streaming backends deliver everything at the end
+            if (!backend.supportsStreaming) {
+              if (result.output.stdout) send('output', { stream: 'stdout', data: result.output.stdout })
+              if (result.output.stderr) send('output', { stream: 'stderr', data: result.output.stderr })
+            }
+            send('done', result.output)
+          }
+        } catch (error) {
+          console.error('Streaming execution error:', error)
+          const message = error instanceof Error ? error.message : 'Unknown error'
+          response = { ok: false, error: message }
+          send('error', { error: message })
+        } finally {
+          unregisterRun(runId)
+          await recordExecution(payload, {
+            reservationId: quota.reservationId,
+            userId: user?.id,
+            fileId: parsed.value.fileId,
+            sessionCode: parsed.value.sessionCode,
+            folderRun: isFolderRun(parsed.value),
+            request: {
+              ...executionRequest.value,
+              stdin: executionRequest.value.stdin + typedInput,
+            },
+            response,
+          })
+          if (!closed) {
+            closed = true
+            streamController.close()
+          }
+        }
+      },
+      cancel() {
+        controller.abort()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    console.error('Code execution API error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
 import { getMeUser } from '@/auth/getMeUser'
+import { getLanguageByFileName } from '@/utilities/languageRegistry'
 import { hasFullAccess, checkDashboardAccess } from '@/utilities/dashboardAccess'
 
 /**
@@ -65,34 +66,7 @@ export async function GET(
     }
 
     // Determine language from file extension
-    let language: string | null = null
-    const parts = file.name.split('.')
-    const ext = parts.length > 1 ? parts.pop()!.toLowerCase() : ''
-    if (ext) {
-      // Map common extensions to language slugs
-      const extToLang: Record<string, string> = {
-        'js': 'javascript',
-        'ts': 'typescript',
-        'py': 'python',
-        'java': 'java',
-        'cpp': 'cpp',
-        'c': 'c',
-        'cs': 'csharp',
-        'php': 'php',
-        'rb': 'ruby',
-        'go': 'go',
-        'rs': 'rust',
-        'swift': 'swift',
-        'kt': 'kotlin',
-        'scala': 'scala',
-        'sh': 'bash',
-        'html': 'html',
-        'css': 'css',
-        'json': 'json',
-        'xml': 'xml',
-      }
-      language = extToLang[ext] || null
-    }
+    const language = getLanguageByFileName(file.name)?.id ?? null
 
     return NextResponse.json({
       id: file.id,
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMeUser } from '@/auth/getMeUser'
+import { formatCode } from '@/services/codeTools'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+
+/**
+ * POST /api/format
+ * Format code with the language's formatter (Prettier for JavaScript/TypeScript, ruff or black for Python)
+ *
+ * Body: { language: string, code: string }
+ *
+ * Returns: { code: string } (the formatted code)
+ *   422 when the code can't be parsed, 501 when the language has no formatter on this server
+ */
+export async function POST(request: NextRequest) {
+  try {
+    try {
+      const { user } = await getMeUser({ nullUserRedirect: undefined })
+      if (!user) {
+        return createAuthErrorResponse('Unauthorized', 401)
+      }
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    const { language, code } = await request.json()
+
+    if (!language || typeof language !== 'string' || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required fields: language and code' },
+        { status: 400 },
+      )
+    }
+
+    const result = await formatCode(language, code)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ code: result.value })
+  } catch (error) {
+    console.error('Error formatting code:', error)
+    return NextResponse.json({ error: 'Failed to format code' }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMeUser } from '@/auth/getMeUser'
+import { lintCode, takeLintRequest } from '@/services/codeTools'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+
+/**
+ * POST /api/lint
+ * Check code without running it (TypeScript compiler for JavaScript/TypeScript, python3 + pyflakes for Python)
+ *
+ * Body: { language: string, code: string }
+ *
+ * Returns: { diagnostics: CodeDiagnostic[] } with 1-based line/column ranges
+ *   413 above MAX_LINT_SOURCE_BYTES, 429 above LINT_REQUESTS_PER_MINUTE per user,
+ *   501 when the language has no checker on this server
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const { language, code } = await request.json()
+
+    if (!language || typeof language !== 'string' || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required fields: language and code' },
+        { status: 400 },
+      )
+    }
+
+    const allowed = takeLintRequest(user.id)
+    if (!allowed.ok) {
+      return NextResponse.json({ error: allowed.error }, { status: allowed.status })
+    }
+
+    const result = await lintCode(language, code)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ diagnostics: result.value })
+  } catch (error) {
+    console.error('Error checking code:', error)
+    return NextResponse.json({ error: 'Failed to check code' }, { status: 500 })
+  }
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { canManageHosts, isSessionHost } from '@/services/sessionHosts'
+import {
+  parseAccessSettings,
+  toAccessSettings,
+  updateAccessSettings,
+} from '@/services/sessionAccess'
+
+/**
+ * GET /api/sessions/[code]/access
+ * Who may join the session (session trainer, co-hosts, managers and admins)
+ *
+ * Returns: { access: SessionAccessSettings, canManage: boolean }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 1, // Include the listed students and cohorts
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!isSessionHost(session, user)) {
+      return createAuthErrorResponse('Only the session trainer and co-hosts can see who may join', 403)
+    }
+
+    return NextResponse.json({
+      access: toAccessSettings(session),
+      canManage: canManageHosts(session, user),
+    })
+  } catch (error) {
+    console.error('Error fetching session access:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch session access' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/sessions/[code]/access
+ * Change who may join (session trainer, managers and admins). Students already
+ * in the session keep their place.
+ *
+ * Body: {
+ *   accessMode: 'open' | 'passcode' | 'restricted' | 'waitingRoom',
+ *   passcode?: string (passcode mode, 4-32 characters),
+ *   studentEmails?: string[], cohortIds?: number[] (restricted mode, at least one)
+ * }
+ * Returns: { access: SessionAccessSettings }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = parseAccessSettings(body)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!canManageHosts(session, user)) {
+      return createAuthErrorResponse('Only the session trainer can change who may join', 403)
+    }
+
+    const result = await updateAccessSettings(payload, session.id, parsed.input)
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ access: toAccessSettings(result.session) })
+  } catch (error) {
+    console.error('Error updating session access:', error)
+    return NextResponse.json(
+      { error: 'Failed to update session access' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,236 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { hasSessionPermission } from '@/services/sessionHosts'
+import {
+  decideAdmissions,
+  listWaiting,
+  toAdmissionItem,
+  withdrawAdmission,
+} from '@/services/sessionAccess'
+
+/**
+ * GET /api/sessions/[code]/admissions
+ * Students in the waiting room, oldest first (hosts with the monitor permission)
+ *
+ * Returns: { admissions: AdmissionItem[] }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'monitor')) {
+      return createAuthErrorResponse('Only hosts who monitor students can see the waiting room', 403)
+    }
+
+    const waiting = await listWaiting(payload, session.id)
+
+    return NextResponse.json({ admissions: waiting.map(toAdmissionItem) })
+  } catch (error) {
+    console.error('Error fetching admissions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch admissions' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/sessions/[code]/admissions
+ * Let waiting students in, or turn them away (hosts with the monitor permission).
+ * Admitted students get in on their next join attempt.
+ *
+ * Body: { status: 'admitted' | 'denied', ids?: number[] (every waiting student when omitted) }
+ * Returns: { decided: number }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { status, ids } = body as { status?: unknown; ids?: unknown }
+
+    if (status !== 'admitted' && status !== 'denied') {
+      return NextResponse.json(
+        { error: "status must be 'admitted' or 'denied'" },
+        { status: 400 }
+      )
+    }
+
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id) => Number.isInteger(id)))) {
+      return NextResponse.json(
+        { error: 'ids must be a list of admission ids' },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'monitor')) {
+      return createAuthErrorResponse('Only hosts who monitor students can admit them', 403)
+    }
+
+    const decided = await decideAdmissions(
+      payload,
+      session,
+      (ids as number[] | undefined) ?? null,
+      status,
+      user.id
+    )
+
+    return NextResponse.json({ decided })
+  } catch (error) {
+    console.error('Error deciding admissions:', error)
+    return NextResponse.json(
+      { error: 'Failed to update admissions' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/sessions/[code]/admissions
+ * Leave the waiting room (the student who is waiting)
+ *
+ * Returns: { success: boolean, withdrawn: boolean }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const withdrawn = await withdrawAdmission(payload, sessions.docs[0].id, user.id)
+
+    return NextResponse.json({ success: true, withdrawn })
+  } catch (error) {
+    console.error('Error leaving the waiting room:', error)
+    return NextResponse.json(
+      { error: 'Failed to leave the waiting room' },
+      { status: 500 }
+    )
+  }
+}
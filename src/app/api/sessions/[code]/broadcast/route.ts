@@ -2,10 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
 import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { hasSessionPermission } from '@/services/sessionHosts'
 
 /**
  * POST /api/sessions/[code]/broadcast
- * Update the live code and output (called when trainer clicks "Run & Broadcast")
+ * Update the live code and output (called when trainer clicks "Run & Broadcast").
+ * Session trainer, managers, admins and co-hosts with the broadcast permission.
  * 
  * Body: { currentCode?: string, currentOutput?: object, languageSlug?: string }
  * Returns: { success: boolean }
@@ -24,6 +28,18 @@ export async function POST(
       )
     }
 
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
     const body = await request.json()
     const { currentCode, currentOutput, languageSlug, workspaceFileId, workspaceFileName } = body as {
       currentCode?: string // Legacy: kept for backward compatibility
@@ -43,6 +59,7 @@ export async function POST(
         isActive: { equals: true },
       },
       limit: 1,
+      depth: 0,
     })
 
     if (sessions.docs.length === 0) {
@@ -54,6 +71,18 @@ export async function POST(
 
     const session = sessions.docs[0]
 
+    if (!hasSessionPermission(session, user, 'broadcast')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with broadcast permission can broadcast', 403)
+    }
+
+    // Broadcasts are frozen during a break
+    if (session.pausedAt) {
+      return NextResponse.json(
+        { error: 'Session is paused', paused: true },
+        { status: 409 }
+      )
+    }
+
     // Optional language update (map slug -> languages doc id)
     let languageId: number | undefined
     if (languageSlug) {
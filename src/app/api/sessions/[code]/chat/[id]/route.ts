@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { hasSessionPermission } from '@/services/sessionHosts'
+import { deleteChatMessage } from '@/services/sessionChat'
+
+/**
+ * DELETE /api/sessions/[code]/chat/[id]
+ * Remove a chat message (session trainer, managers, admins and co-hosts with the
+ * monitor permission). Everyone sees
+ * it as removed; the export keeps a "removed" line in its place.
+ *
+ * Returns: { success: true }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string; id: string }> }
+) {
+  try {
+    const { code, id } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'monitor')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with monitor permission can moderate the chat', 403)
+    }
+
+    // The message must belong to the session in the URL
+    const messages = await payload.find({
+      collection: 'session-messages',
+      where: {
+        and: [
+          { id: { equals: id } },
+          { session: { equals: session.id } },
+        ],
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (messages.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await deleteChatMessage(payload, messages.docs[0], user.id)
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+    })
+  } catch (error) {
+    console.error('Error removing chat message:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove message' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { hasSessionPermission } from '@/services/sessionHosts'
+import { listChatMessages, toChatMessageItem } from '@/services/sessionChat'
+import { buildChatTranscript } from '@/utilities/chatTranscript'
+
+/**
+ * GET /api/sessions/[code]/chat/export
+ * Download the whole chat, private threads included, as a Markdown file
+ * (session trainer, managers, admins and co-hosts with the monitor permission).
+ * Works during and after the session.
+ *
+ * Returns: text/markdown attachment chat-<CODE>.md
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'monitor')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with monitor permission can export the chat', 403)
+    }
+
+    const messages = await listChatMessages(payload, session.id, { userId: user.id, staff: true }, null)
+    const transcript = buildChatTranscript(session, messages.map(toChatMessageItem))
+
+    return new NextResponse(transcript, {
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="chat-${session.joinCode}.md"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting chat:', error)
+    return NextResponse.json(
+      { error: 'Failed to export chat' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import {
+  chatSettings,
+  listChatMessages,
+  parseChatMessage,
+  postChatMessage,
+  toChatMessageItem,
+} from '@/services/sessionChat'
+import { isStaff } from '@/utilities/dashboardAccess'
+import { hasSessionAccess } from '@/services/sessionAccess'
+
+/**
+ * GET /api/sessions/[code]/chat
+ * Recent chat messages, oldest first, and the chat settings. Staff see every
+ * private thread; students see public messages and their own thread.
+ *
+ * Returns: { messages: ChatMessageItem[], settings: { slowModeSeconds, muted, mutedUserIds } }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await hasSessionAccess(payload, sessions.docs[0], user))) {
+      return NextResponse.json(
+        { error: 'Join the session first' },
+        { status: 403 }
+      )
+    }
+
+    const session = sessions.docs[0]
+    const viewer = { userId: user.id, staff: isStaff(user) }
+    const [messages, settings] = await Promise.all([
+      listChatMessages(payload, session.id, viewer),
+      chatSettings(payload, session, viewer),
+    ])
+
+    return NextResponse.json({
+      messages: messages.map(toChatMessageItem),
+      settings,
+    })
+  } catch (error) {
+    console.error('Error fetching chat:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch chat' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/sessions/[code]/chat
+ * Send a chat message. Students must have joined the session.
+ *
+ * Body: {
+ *   body?: string, code?: string, language?: string,   // text, a code block, or both
+ *   visibility?: 'public' | 'private',                  // private: student <-> trainers
+ *   threadUserId?: number                               // staff: the student to answer privately
+ * }
+ * Returns: { message: ChatMessageItem }
+ *   - 403 when a muted student posts publicly, 429 while slow mode makes them wait
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = parseChatMessage(body)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+        isActive: { equals: true },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found or has ended' },
+        { status: 404 }
+      )
+    }
+
+    const result = await postChatMessage(payload, sessions.docs[0], user, parsed.input)
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      message: toChatMessageItem(result.message),
+    })
+  } catch (error) {
+    console.error('Error sending chat message:', error)
+    return NextResponse.json(
+      { error: 'Failed to send message' },
+      { status: 500 }
+    )
+  }
+}
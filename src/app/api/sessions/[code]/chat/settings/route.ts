@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { hasSessionPermission } from '@/services/sessionHosts'
+import { MAX_SLOW_MODE_SECONDS, chatSettings, setChatMuted } from '@/services/sessionChat'
+
+/**
+ * PATCH /api/sessions/[code]/chat/settings
+ * Chat moderation (session trainer, managers, admins and co-hosts with the
+ * monitor permission): slow mode for the whole session, or muting one student. Send either or both.
+ *
+ * Body: { slowModeSeconds?: number, userId?: number, muted?: boolean }
+ *   - slowModeSeconds: 0 (off) to 600
+ *   - userId + muted: mute or unmute a student of the session
+ * Returns: { settings: { slowModeSeconds, muted, mutedUserIds } }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const slowModeSeconds = body?.slowModeSeconds
+    const muteUserId = body?.userId
+
+    if (
+      slowModeSeconds !== undefined &&
+      (!Number.isInteger(slowModeSeconds) ||
+        slowModeSeconds < 0 ||
+        slowModeSeconds > MAX_SLOW_MODE_SECONDS)
+    ) {
+      return NextResponse.json(
+        { error: `slowModeSeconds must be a whole number from 0 to ${MAX_SLOW_MODE_SECONDS}` },
+        { status: 400 }
+      )
+    }
+
+    if (muteUserId !== undefined && (!Number.isInteger(muteUserId) || typeof body?.muted !== 'boolean')) {
+      return NextResponse.json(
+        { error: 'Muting needs a userId and muted: true or false' },
+        { status: 400 }
+      )
+    }
+
+    if (slowModeSeconds === undefined && muteUserId === undefined) {
+      return NextResponse.json(
+        { error: 'Nothing to change' },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    let session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'monitor')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with monitor permission can moderate the chat', 403)
+    }
+
+    if (muteUserId !== undefined) {
+      const participant = await setChatMuted(payload, session.id, muteUserId, body.muted)
+      if (!participant) {
+        return NextResponse.json(
+          { error: 'Student not found in this session' },
+          { status: 404 }
+        )
+      }
+    }
+
+    if (slowModeSeconds !== undefined && slowModeSeconds !== (session.chatSlowModeSeconds ?? 0)) {
+      session = await payload.update({
+        collection: 'live-sessions',
+        id: session.id,
+        data: { chatSlowModeSeconds: slowModeSeconds },
+        depth: 0,
+      })
+    }
+
+    return NextResponse.json({
+      settings: await chatSettings(payload, session, { userId: user.id, staff: true }),
+    })
+  } catch (error) {
+    console.error('Error updating chat settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to update chat settings' },
+      { status: 500 }
+    )
+  }
+}
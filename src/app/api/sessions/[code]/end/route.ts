@@ -4,10 +4,12 @@ import config from '@payload-config'
 import { isValidJoinCode } from '@/utilities/joinCode'
 import { getMeUser } from '@/auth/getMeUser'
 import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { hasSessionPermission } from '@/services/sessionHosts'
 
 /**
  * POST /api/sessions/[code]/end
- * End a live session (trainer only)
+ * End a live session (session trainer, managers, admins and co-hosts with the
+ * end permission)
  * 
  * Returns: { success: boolean, endedAt: string }
  */
@@ -25,7 +27,6 @@ export async function POST(
       )
     }
 
-    // Authenticate user and verify staff role (trainer, manager, or admin)
     let user
     try {
       const result = await getMeUser({ nullUserRedirect: undefined })
@@ -34,8 +35,8 @@ export async function POST(
       return createAuthErrorResponse('Session expired', 401)
     }
 
-    if (!user || (user.role !== 'trainer' && user.role !== 'manager' && user.role !== 'admin')) {
-      return createAuthErrorResponse('Unauthorized - trainer or manager access required', 401)
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
     }
 
     const payload = await getPayload({ config })
@@ -48,6 +49,7 @@ export async function POST(
         isActive: { equals: true },
       },
       limit: 1,
+      depth: 0,
     })
 
     if (sessions.docs.length === 0) {
@@ -58,6 +60,11 @@ export async function POST(
     }
 
     const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'end')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with end permission can end this session', 403)
+    }
+
     const endedAt = new Date().toISOString()
 
     // End the session
@@ -67,6 +74,8 @@ export async function POST(
       data: {
         isActive: false,
         endedAt,
+        pausedAt: null,
+        resumeAt: null,
       },
     })
 
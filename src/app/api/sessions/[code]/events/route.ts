@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { hasSessionAccess } from '@/services/sessionAccess'
+import { subscribeToSession } from '@/services/sessionEvents'
+import type { SessionEvent } from '@/types/live-session'
+
+/** Comment lines keep proxies from closing an idle stream */
+const HEARTBEAT_INTERVAL_MS = 25_000
+
+/**
+ * GET /api/sessions/[code]/events
+ * Server-Sent Events stream of changes to a live session (replaces polling /live)
+ *
+ * Each message is a SessionEvent: { type, timestamp, data }
+ *   code_broadcast       { code, trainerWorkspaceFileId, trainerWorkspaceFileName }
+ *   execution_completed  { output }
+ *   language_changed     { language }
+ *   session_ended        { endedAt }  - the stream closes after this event
+ *   refresh              {}           - refetch GET /api/sessions/[code]/live
+ *
+ * Events missed while disconnected are not replayed: refetch /live after reconnecting.
+ * Sessions that are not open only stream to staff and students who were let in (403 otherwise).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    let user = null
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      // Anonymous viewers can only follow open sessions
+    }
+
+    if (!(await hasSessionAccess(payload, session, user))) {
+      return NextResponse.json(
+        { error: 'Join the session first' },
+        { status: 403 }
+      )
+    }
+
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(streamController) {
+        let closed = false
+        let unsubscribe: (() => void) | null = null
+        let heartbeat: ReturnType<typeof setInterval> | null = null
+
+        const close = () => {
+          if (closed) return
+          closed = true
+          if (heartbeat) clearInterval(heartbeat)
+          unsubscribe?.()
+          try {
+            streamController.close()
+          } catch {
+            // Already closed by the client
+          }
+        }
+        cleanup = close
+
+        const write = (chunk: string) => {
+          if (closed) return
+          try {
+            streamController.enqueue(encoder.encode(chunk))
+          } catch {
+            close()
+          }
+        }
+        const send = (event: SessionEvent) => {
+          write(`data: ${JSON.stringify(event)}\n\n`)
+          if (event.type === 'session_ended') close()
+        }
+
+        // Reconnect after 3s if the connection drops
+        write('retry: 3000\n\n')
+
+        if (!session.isActive) {
+          send({
+            type: 'session_ended',
+            timestamp: new Date().toISOString(),
+            data: { endedAt: session.endedAt || new Date().toISOString() },
+          })
+          return
+        }
+
+        try {
+          const stop = await subscribeToSession(session.joinCode, send)
+          if (closed) stop()
+          else unsubscribe = stop
+        } catch (error) {
+          console.error('[SessionEvents] Could not subscribe:', error)
+          // Let the client retry (and refetch /live meanwhile)
+          close()
+          return
+        }
+
+        heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL_MS)
+      },
+      cancel() {
+        cleanup()
+      },
+    })
+
+    request.signal.addEventListener('abort', () => cleanup())
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    console.error('Error opening session events:', error)
+    return NextResponse.json(
+      { error: 'Failed to open session events' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { hasSessionPermission } from '@/services/sessionHosts'
+import { broadcastToGroup, parseGroupCode, toGroupItem } from '@/services/breakoutGroups'
+
+/**
+ * POST /api/sessions/[code]/groups/[id]/broadcast
+ * Send code to a single breakout group (session trainer, managers, admins and
+ * co-hosts with the broadcast permission).
+ * The group's members see it next to their scratchpad; the main broadcast is
+ * left unchanged.
+ * 
+ * Body: { code: string, language?: string }
+ * Returns: { group: GroupItem }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string; id: string }> }
+) {
+  try {
+    const { code, id } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = parseGroupCode(body)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+        isActive: { equals: true },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found or has ended' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'broadcast')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with broadcast permission can send code to groups', 403)
+    }
+
+    // The group must belong to the session in the URL
+    const groups = await payload.find({
+      collection: 'session-groups',
+      where: {
+        and: [
+          { id: { equals: id } },
+          { session: { equals: session.id } },
+        ],
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (groups.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Group not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await broadcastToGroup(payload, groups.docs[0], parsed.input)
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ group: toGroupItem(result.group) })
+  } catch (error) {
+    console.error('Error broadcasting to group:', error)
+    return NextResponse.json(
+      { error: 'Failed to broadcast to group' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { hasSessionPermission } from '@/services/sessionHosts'
+import { toGroupItem, updateGroup } from '@/services/breakoutGroups'
+
+/**
+ * PATCH /api/sessions/[code]/groups/[id]
+ * Rename an open breakout group or change its members (session trainer,
+ * managers, admins and co-hosts with the monitor permission). Students moved into the group leave their old group.
+ * 
+ * Body: { name?: string, memberIds?: number[] }
+ * Returns: { group: GroupItem }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string; id: string }> }
+) {
+  try {
+    const { code, id } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    if (body?.name === undefined && body?.memberIds === undefined) {
+      return NextResponse.json(
+        { error: 'name or memberIds is required' },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'monitor')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with monitor permission can change breakout groups', 403)
+    }
+
+    // The group must belong to the session in the URL
+    const groups = await payload.find({
+      collection: 'session-groups',
+      where: {
+        and: [
+          { id: { equals: id } },
+          { session: { equals: session.id } },
+        ],
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (groups.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Group not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await updateGroup(payload, session.id, groups.docs[0].id, {
+      name: body.name,
+      memberIds: body.memberIds,
+    })
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ group: toGroupItem(result.group) })
+  } catch (error) {
+    console.error('Error updating breakout group:', error)
+    return NextResponse.json(
+      { error: 'Failed to update breakout group' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import {
+  memberIdsOf,
+  parseScratchpadEdit,
+  saveGroupScratchpad,
+  toGroupItem,
+} from '@/services/breakoutGroups'
+import { hasSessionPermission } from '@/services/sessionHosts'
+
+/**
+ * PATCH /api/sessions/[code]/groups/[id]/scratchpad
+ * Save the group's shared scratchpad (group members, the session trainer,
+ * managers, admins and co-hosts with the monitor permission).
+ * 
+ * Body: { code: string, language?: string, baseUpdatedAt: string | null }
+ *   - baseUpdatedAt: the group's codeUpdatedAt the edit was made on (null if nobody had saved yet)
+ * Returns: { group: GroupItem }
+ *   - 409 with { error, group } when someone saved after baseUpdatedAt; `group` is
+ *     their version, to merge with or reload
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string; id: string }> }
+) {
+  try {
+    const { code, id } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = parseScratchpadEdit(body)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+        isActive: { equals: true },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found or has ended' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    // The group must belong to the session in the URL
+    const groups = await payload.find({
+      collection: 'session-groups',
+      where: {
+        and: [
+          { id: { equals: id } },
+          { session: { equals: session.id } },
+        ],
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (groups.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Group not found' },
+        { status: 404 }
+      )
+    }
+
+    const group = groups.docs[0]
+
+    if (!hasSessionPermission(session, user, 'monitor') && !memberIdsOf(group).includes(user.id)) {
+      return createAuthErrorResponse('You are not in this group', 403)
+    }
+
+    const result = await saveGroupScratchpad(payload, group, user.id, parsed.input)
+    if (!result.ok && 'latest' in result) {
+      return NextResponse.json(
+        { error: result.error, group: toGroupItem(result.latest) },
+        { status: result.status }
+      )
+    }
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ group: toGroupItem(result.group) })
+  } catch (error) {
+    console.error('Error saving group scratchpad:', error)
+    return NextResponse.json(
+      { error: 'Failed to save group scratchpad' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,251 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { hasSessionPermission } from '@/services/sessionHosts'
+import {
+  endBreakout,
+  findOpenGroupFor,
+  listOpenGroups,
+  parseBreakoutInput,
+  startBreakout,
+  toGroupItem,
+} from '@/services/breakoutGroups'
+import { hasSessionAccess } from '@/services/sessionAccess'
+
+/**
+ * GET /api/sessions/[code]/groups
+ * The session's open breakout groups. Hosts with the monitor permission get every
+ * group; students only the group they are in (null when there is none).
+ * 
+ * Returns: { groups: GroupItem[] } (hosts) or { group: GroupItem | null } (students)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await hasSessionAccess(payload, sessions.docs[0], user))) {
+      return NextResponse.json(
+        { error: 'Join the session first' },
+        { status: 403 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (hasSessionPermission(session, user, 'monitor')) {
+      const groups = await listOpenGroups(payload, session.id)
+      return NextResponse.json({ groups: groups.map(toGroupItem) })
+    }
+
+    const group = await findOpenGroupFor(payload, session.id, user.id)
+    return NextResponse.json({ group: group ? toGroupItem(group) : null })
+  } catch (error) {
+    console.error('Error fetching breakout groups:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch breakout groups' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/sessions/[code]/groups
+ * Split the participants into breakout groups (session trainer, managers, admins
+ * and co-hosts with the monitor permission). Groups that are still open are closed first.
+ * 
+ * Body:
+ *   { mode: 'random', groupCount: number }   // 1–20 groups
+ *   { mode: 'random', groupSize: number }    // as many groups as needed
+ *   { mode: 'manual', groups: Array<{ name?: string, memberIds: number[] }> }
+ * Returns: { groups: GroupItem[] }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = parseBreakoutInput(body)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+        isActive: { equals: true },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found or has ended' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'monitor')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with monitor permission can start breakout groups', 403)
+    }
+
+    const result = await startBreakout(payload, session.id, parsed.input)
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ groups: result.groups.map(toGroupItem) })
+  } catch (error) {
+    console.error('Error starting breakout groups:', error)
+    return NextResponse.json(
+      { error: 'Failed to start breakout groups' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/sessions/[code]/groups
+ * Bring everyone back together: close every open group, so students return to
+ * the main broadcast (session trainer, managers, admins and co-hosts with the
+ * monitor permission).
+ * 
+ * Returns: { closed: number }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'monitor')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with monitor permission can end breakout groups', 403)
+    }
+
+    const closed = await endBreakout(payload, session.id)
+
+    return NextResponse.json({ closed })
+  } catch (error) {
+    console.error('Error ending breakout groups:', error)
+    return NextResponse.json(
+      { error: 'Failed to end breakout groups' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { markSeen } from '@/services/sessionParticipants'
+import { recordAttendance } from '@/services/attendance'
+import { HEARTBEAT_INTERVAL_MS } from '@/utilities/attendanceReport'
+
+/**
+ * POST /api/sessions/[code]/heartbeat
+ * Tell the server the student still has the session open (sent about once a minute).
+ * Recorded for attendance reports, at most once per HEARTBEAT_INTERVAL_MS (extra
+ * heartbeats, e.g. when the tab becomes visible again, write nothing). Staff
+ * heartbeats are ignored. Students who are not in the session (never joined, or
+ * marked as left) get 409 and rejoin through POST /join, which runs the payment,
+ * expiry and access checks.
+ *
+ * Returns: { success: boolean, recorded: boolean }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+        isActive: { equals: true },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found or has ended' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (user.role !== 'student') {
+      return NextResponse.json({ success: true, recorded: false })
+    }
+
+    const seen = await markSeen(payload, session.id, user.id, HEARTBEAT_INTERVAL_MS)
+    if (seen === 'absent') {
+      return NextResponse.json(
+        { error: 'Rejoin required', rejoinRequired: true },
+        { status: 409 }
+      )
+    }
+    if (seen === 'seen') {
+      await recordAttendance(payload, session.id, user.id, 'heartbeat')
+    }
+
+    return NextResponse.json({ success: true, recorded: seen === 'seen' })
+  } catch (error) {
+    console.error('Error recording heartbeat:', error)
+    return NextResponse.json(
+      { error: 'Failed to record heartbeat' },
+      { status: 500 }
+    )
+  }
+}
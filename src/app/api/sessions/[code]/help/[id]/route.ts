@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { HELP_ACTIONS, updateHelpRequest, type HelpAction } from '@/services/helpRequests'
+import { hasSessionPermission } from '@/services/sessionHosts'
+
+/**
+ * PATCH /api/sessions/[code]/help/[id]
+ * Claim, resolve or dismiss a raised hand (session trainer, managers, admins and
+ * co-hosts with the help queue permission)
+ * 
+ * Body: { action: 'claim' | 'resolve' | 'dismiss' }
+ * Returns: { success: boolean, status: string }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string; id: string }> }
+) {
+  try {
+    const { code, id } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const action = body?.action as HelpAction
+    if (!HELP_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${HELP_ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'helpQueue')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with help queue permission can answer raised hands', 403)
+    }
+
+    // The request must belong to the session in the URL
+    const requests = await payload.find({
+      collection: 'help-requests',
+      where: {
+        and: [
+          { id: { equals: id } },
+          { session: { equals: session.id } },
+        ],
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (requests.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Help request not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await updateHelpRequest(payload, requests.docs[0], action, user.id)
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: result.request.status,
+    })
+  } catch (error) {
+    console.error('Error updating help request:', error)
+    return NextResponse.json(
+      { error: 'Failed to update help request' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import {
+  buildHelpQueue,
+  findOpenHelpRequest,
+  listHelpRequests,
+  lowerHand,
+  queuePosition,
+  raiseHand,
+  toHelpRequestItem,
+  type HelpRequestFields,
+} from '@/services/helpRequests'
+import { hasSessionPermission } from '@/services/sessionHosts'
+import { hasSessionAccess } from '@/services/sessionAccess'
+
+/**
+ * GET /api/sessions/[code]/help
+ * Help queue. Hosts with the help queue permission get every open
+ * request with stats; students get their own request.
+ * 
+ * Returns (hosts): { requests: HelpRequestItem[], stats: { waiting, claimed, resolved, averageWaitSeconds } }
+ * Returns (student): { request: HelpRequestItem | null, position: number | null, stats }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await hasSessionAccess(payload, sessions.docs[0], user))) {
+      return NextResponse.json(
+        { error: 'Join the session first' },
+        { status: 403 }
+      )
+    }
+
+    const requests = await listHelpRequests(payload, sessions.docs[0].id)
+    const queue = buildHelpQueue(requests)
+
+    if (hasSessionPermission(sessions.docs[0], user, 'helpQueue')) {
+      return NextResponse.json(queue)
+    }
+
+    const own = requests.find(
+      (helpRequest) =>
+        (typeof helpRequest.user === 'object' ? helpRequest.user.id : helpRequest.user) === user.id &&
+        (helpRequest.status === 'waiting' || helpRequest.status === 'claimed')
+    )
+
+    return NextResponse.json({
+      request: own ? toHelpRequestItem(own) : null,
+      position: own ? queuePosition(requests, own.id) : null,
+      stats: queue.stats,
+    })
+  } catch (error) {
+    console.error('Error fetching help queue:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch help queue' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/sessions/[code]/help
+ * Raise your hand (students in the session). Raising it again keeps your place
+ * and updates the code the trainer sees.
+ * 
+ * Body: { message?: string, code?: string, language?: string, workspaceFileName?: string, lastError?: string }
+ *   - Omitted code fields fall back to your shared scratchpad
+ * Returns: { request: HelpRequestItem, position: number | null }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  return updateOwnRequest(request, params, 'raise')
+}
+
+/**
+ * DELETE /api/sessions/[code]/help
+ * Lower your hand
+ * 
+ * Returns: { success: boolean }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  return updateOwnRequest(request, params, 'lower')
+}
+
+async function updateOwnRequest(
+  request: NextRequest,
+  params: Promise<{ code: string }>,
+  action: 'raise' | 'lower'
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+        isActive: { equals: true },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found or has ended' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (action === 'lower') {
+      const lowered = await lowerHand(payload, session.id, user.id)
+      return NextResponse.json({
+        success: lowered,
+      })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const fields: HelpRequestFields = {}
+    for (const key of ['message', 'code', 'language', 'workspaceFileName', 'lastError'] as const) {
+      if (typeof body?.[key] === 'string') fields[key] = body[key]
+    }
+    if (fields.message && fields.message.length > 500) {
+      return NextResponse.json(
+        { error: 'Message is too long (500 characters max)' },
+        { status: 400 }
+      )
+    }
+
+    await raiseHand(payload, session.id, user.id, fields)
+
+    const requests = await listHelpRequests(payload, session.id)
+    const own = await findOpenHelpRequest(payload, session.id, user.id)
+    const populated = requests.find((helpRequest) => helpRequest.id === own?.id)
+
+    return NextResponse.json({
+      request: populated ? toHelpRequestItem(populated) : null,
+      position: own ? queuePosition(requests, own.id) : null,
+    })
+  } catch (error) {
+    console.error('Error updating help request:', error)
+    return NextResponse.json(
+      { error: 'Failed to update help request' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import {
+  canManageHosts,
+  isSessionHost,
+  parseCoHosts,
+  sessionPermissions,
+  setCoHosts,
+  toSessionHosts,
+} from '@/services/sessionHosts'
+
+/**
+ * GET /api/sessions/[code]/hosts
+ * The session owner and co-hosts with their permissions (session trainer,
+ * co-hosts, managers and admins)
+ * 
+ * Returns: { hosts: SessionHosts, myPermissions: SessionPermission[], canManage: boolean }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 1, // Include the trainer and co-host users
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!isSessionHost(session, user)) {
+      return createAuthErrorResponse('Only the session trainer and co-hosts can see the hosts', 403)
+    }
+
+    return NextResponse.json({
+      hosts: toSessionHosts(session),
+      myPermissions: sessionPermissions(session, user),
+      canManage: canManageHosts(session, user),
+    })
+  } catch (error) {
+    console.error('Error fetching session hosts:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch session hosts' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/sessions/[code]/hosts
+ * Replace the co-host list (session trainer, managers and admins)
+ * 
+ * Body: { coHosts: Array<{ userId?: number, email?: string, permissions: SessionPermission[] }> }
+ *   - permissions: 'broadcast' | 'monitor' | 'end' | 'helpQueue'
+ * Returns: { hosts: SessionHosts }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = parseCoHosts(body)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!canManageHosts(session, user)) {
+      return createAuthErrorResponse('Only the session trainer can choose co-hosts', 403)
+    }
+
+    const result = await setCoHosts(payload, session.id, parsed.input)
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ hosts: toSessionHosts(result.session) })
+  } catch (error) {
+    console.error('Error updating session hosts:', error)
+    return NextResponse.json(
+      { error: 'Failed to update session hosts' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import {
+  canManageHosts,
+  toSessionHosts,
+  transferOwnership,
+} from '@/services/sessionHosts'
+
+/**
+ * POST /api/sessions/[code]/hosts/transfer
+ * Hand the session over to a co-host during the session (session trainer,
+ * managers and admins). A manager can give the session to a co-host when the
+ * trainer drops off. The previous trainer stays on as a co-host with every
+ * permission.
+ * 
+ * Body: { userId: number }
+ * Returns: { hosts: SessionHosts }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    if (!Number.isInteger(body?.userId)) {
+      return NextResponse.json(
+        { error: 'userId is required' },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+        isActive: { equals: true },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found or has ended' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!canManageHosts(session, user)) {
+      return createAuthErrorResponse('Only the session trainer can hand the session over', 403)
+    }
+
+    const result = await transferOwnership(payload, session.id, body.userId)
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ hosts: toSessionHosts(result.session) })
+  } catch (error) {
+    console.error('Error transferring session:', error)
+    return NextResponse.json(
+      { error: 'Failed to transfer session' },
+      { status: 500 }
+    )
+  }
+}
@@ -6,12 +6,21 @@ import { getMeUser } from '@/auth/getMeUser'
 import { checkStudentPaymentStatus } from '@/utilities/paymentGuard'
 import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
 import { isSessionExpired } from '@/utilities/sessionExpiration'
+import { countParticipants, joinSession } from '@/services/sessionParticipants'
+import { recordAttendance } from '@/services/attendance'
+import { checkJoinAccess } from '@/services/sessionAccess'
 
 /**
  * POST /api/sessions/[code]/join
- * Join a live session (adds student to studentScratchpads)
+ * Join a live session (adds the user to session-participants; idempotent).
+ * Students' joins are recorded for attendance reports.
+ * The session's access mode is enforced: passcode sessions need `passcode`,
+ * restricted sessions only let in listed students and cohorts, and waiting-room
+ * sessions answer 403 with `access.reason: 'waiting'` until a host admits the student.
  * 
+ * Body (optional): { passcode?: string }
  * Returns: { success: boolean, title: string, language: string }
+ * Refused: { error: string, access: { mode, reason } }
  */
 export async function POST(
   request: NextRequest,
@@ -78,8 +87,8 @@ export async function POST(
 
     const session = sessions.docs[0]
 
-    // Check if session has expired (older than 24 hours)
-    if (isSessionExpired(session.startedAt, session.createdAt)) {
+    // Check if session has expired (more than 24 hours of active time)
+    if (isSessionExpired(session.startedAt, session.createdAt, session)) {
       // Auto-deactivate expired session
       await payload.update({
         collection: 'live-sessions',
@@ -96,30 +105,24 @@ export async function POST(
       )
     }
 
-    // Get or initialize student scratchpads
-    const scratchpads = (session.studentScratchpads as Record<string, any>) || {}
-    
-    // Add student to scratchpads if not already there (idempotent)
-    if (!scratchpads[user.id]) {
-      scratchpads[user.id] = {
-        code: '',
-        language: 'javascript',
-        updatedAt: new Date().toISOString(),
-        studentName: user.name || user.email || 'Anonymous',
-      }
+    const body = await request.json().catch(() => ({}))
+    const passcode = typeof body?.passcode === 'string' ? body.passcode : null
 
-      // Update session with new scratchpads (count will be calculated from this)
-      await payload.update({
-        collection: 'live-sessions',
-        id: session.id,
-        data: {
-          studentScratchpads: scratchpads,
-        },
-      })
+    const access = await checkJoinAccess(payload, session, user, passcode)
+    if (!access.ok) {
+      return NextResponse.json(
+        { error: access.error, access: access.access },
+        { status: access.status }
+      )
+    }
+
+    // Add the user (or bring them back after leaving)
+    await joinSession(payload, session.id, user.id)
+    if (user.role === 'student') {
+      await recordAttendance(payload, session.id, user.id, 'join')
     }
 
-    // Calculate actual participant count from scratchpads
-    const participantCount = Object.keys(scratchpads).length
+    const participantCount = await countParticipants(payload, session.id)
 
     // Get language name if available
     const languageName = typeof session.language === 'object' 
@@ -3,10 +3,12 @@ import { getPayload } from 'payload'
 import config from '@payload-config'
 import { isValidJoinCode } from '@/utilities/joinCode'
 import { getMeUser } from '@/auth/getMeUser'
+import { countParticipants, leaveSession } from '@/services/sessionParticipants'
+import { recordAttendance } from '@/services/attendance'
 
 /**
  * POST /api/sessions/[code]/leave
- * Leave a live session (removes student from studentScratchpads)
+ * Leave a live session (marks the participant as left; their scratchpad is kept)
  * 
  * Returns: { success: boolean }
  */
@@ -53,25 +55,12 @@ export async function POST(
 
     const session = sessions.docs[0]
 
-    // Get student scratchpads
-    const scratchpads = (session.studentScratchpads as Record<string, any>) || {}
-    
-    // Remove this student from scratchpads
-    if (scratchpads[user.id]) {
-      delete scratchpads[user.id]
-
-      // Update session with updated scratchpads
-      await payload.update({
-        collection: 'live-sessions',
-        id: session.id,
-        data: {
-          studentScratchpads: scratchpads,
-        },
-      })
+    const left = await leaveSession(payload, session.id, user.id)
+    if (left && user.role === 'student') {
+      await recordAttendance(payload, session.id, user.id, 'leave')
     }
 
-    // Calculate actual participant count from scratchpads
-    const participantCount = Object.keys(scratchpads).length
+    const participantCount = await countParticipants(payload, session.id)
 
     return NextResponse.json({
       success: true,
@@ -5,12 +5,21 @@ import { isValidJoinCode } from '@/utilities/joinCode'
 import { getMeUser } from '@/auth/getMeUser'
 import { checkStudentPaymentStatus } from '@/utilities/paymentGuard'
 import { isSessionExpired } from '@/utilities/sessionExpiration'
+import { getLanguageByFileName } from '@/utilities/languageRegistry'
+import { countParticipants } from '@/services/sessionParticipants'
+import { isSessionScheduled } from '@/utilities/sessionSchedule'
+import { accessModeOf, hasSessionAccess } from '@/services/sessionAccess'
 
 /**
  * GET /api/sessions/[code]/live
  * Get current live code and output (lightweight endpoint for polling)
  * 
- * Returns: { code: string, output: object, isActive: boolean, title: string }
+ * Returns: { code: string, output: object, isActive: boolean, title: string,
+ *   scheduledStart: string | null (set while a scheduled session waits to be opened),
+ *   pausedAt: string | null, resumeAt: string | null (set during a break),
+ *   accessMode: string, locked: boolean }
+ * Visitors who have not been let into a passcode, restricted or waiting-room
+ * session get `locked: true` and no code or output.
  */
 export async function GET(
   request: NextRequest,
@@ -47,8 +56,8 @@ export async function GET(
 
     const session = sessions.docs[0]
 
-    // Check if session has expired (older than 24 hours)
-    if (session.isActive && isSessionExpired(session.startedAt, session.createdAt)) {
+    // Check if session has expired (more than 24 hours of active time)
+    if (session.isActive && isSessionExpired(session.startedAt, session.createdAt, session)) {
       // Auto-deactivate expired session
       await payload.update({
         collection: 'live-sessions',
@@ -72,53 +81,38 @@ export async function GET(
       })
     }
 
+    let user = null
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      // User not authenticated, continue as an anonymous viewer
+    }
+
+    if (!(await hasSessionAccess(payload, session, user))) {
+      return NextResponse.json({
+        code: '',
+        output: null,
+        isActive: session.isActive,
+        title: session.title,
+        language: null,
+        participantCount: 0,
+        trainerWorkspaceFileId: null,
+        trainerWorkspaceFileName: null,
+        scheduledStart: isSessionScheduled(session) ? session.scheduledStart : null,
+        pausedAt: null,
+        resumeAt: null,
+        accessMode: accessModeOf(session),
+        locked: true,
+      })
+    }
+
     // Determine language slug - prioritize from trainer's file name, then from session language
     let languageSlug: string | null = null
     
     // First, try to infer from trainer's file name
     if (session.trainerWorkspaceFileName) {
-      const fileName = String(session.trainerWorkspaceFileName)
-      const parts = fileName.split('.')
-      if (parts.length > 1) {
-        const ext = parts[parts.length - 1].toLowerCase()
-        // Map common extensions to language slugs
-        const extToLang: Record<string, string> = {
-          'js': 'javascript',
-          'ts': 'typescript',
-          'py': 'python',
-          'c': 'c',
-          'cpp': 'cpp',
-          'cc': 'cpp',
-          'cxx': 'cpp',
-          'java': 'java',
-          'cs': 'csharp',
-          'php': 'php',
-          'rb': 'ruby',
-          'go': 'go',
-          'rs': 'rust',
-          'kt': 'kotlin',
-          'swift': 'swift',
-          'scala': 'scala',
-          'pl': 'perl',
-          'r': 'r',
-          'dart': 'dart',
-          'lua': 'lua',
-          'sh': 'bash',
-          'hs': 'haskell',
-          'ex': 'elixir',
-          'erl': 'erlang',
-          'clj': 'clojure',
-          'groovy': 'groovy',
-          'm': 'objectivec',
-          'fs': 'fsharp',
-          'asm': 'assembly',
-          'f90': 'fortran',
-          'f': 'fortran',
-          'cob': 'cobol',
-          'pas': 'pascal',
-        }
-        languageSlug = extToLang[ext] || null
-      }
+      languageSlug = getLanguageByFileName(String(session.trainerWorkspaceFileName))?.id ?? null
     }
     
     // Fallback to session language if file-based inference didn't work
@@ -126,19 +120,12 @@ export async function GET(
       languageSlug = (session.language as any).slug || null
     }
 
-    // Calculate participant count from actual studentScratchpads array
-    const scratchpads = (session.studentScratchpads as Record<string, any>) || {}
-    const participantCount = Object.keys(scratchpads).length
+    const participantCount = await countParticipants(payload, session.id)
 
     // Check payment status for students (optional - for frontend to show warnings)
     let paymentStatus = null
-    try {
-      const { user } = await getMeUser({ nullUserRedirect: undefined })
-      if (user && user.role === 'student') {
-        paymentStatus = await checkStudentPaymentStatus(user.id, request as any)
-      }
-    } catch (error) {
-      // User not authenticated, continue without payment status
+    if (user && user.role === 'student') {
+      paymentStatus = await checkStudentPaymentStatus(user.id, request as any)
     }
 
     return NextResponse.json({
@@ -150,6 +137,11 @@ export async function GET(
       participantCount,
       trainerWorkspaceFileId: session.trainerWorkspaceFileId || null,
       trainerWorkspaceFileName: session.trainerWorkspaceFileName || null,
+      scheduledStart: isSessionScheduled(session) ? session.scheduledStart : null,
+      pausedAt: (session.isActive && session.pausedAt) || null,
+      resumeAt: (session.isActive && session.pausedAt && session.resumeAt) || null,
+      accessMode: accessModeOf(session),
+      locked: false,
       paymentStatus, // Include payment status for students
     })
   } catch (error) {
@@ -4,12 +4,14 @@ import config from '@payload-config'
 import { isValidJoinCode } from '@/utilities/joinCode'
 import { getMeUser } from '@/auth/getMeUser'
 import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { countParticipants } from '@/services/sessionParticipants'
+import { isSessionHost, sessionPermissions } from '@/services/sessionHosts'
 
 /**
  * GET /api/sessions/[code]/metadata
- * Get full session metadata (trainer only)
+ * Get full session metadata (session trainer, co-hosts, managers and admins)
  * 
- * Returns: { session: {id, joinCode, title, trainer, language, isActive, participantCount, startedAt, endedAt, createdAt} }
+ * Returns: { session: {id, joinCode, title, trainer, language, isActive, participantCount, startedAt, endedAt, createdAt, myPermissions} }
  */
 export async function GET(
   request: NextRequest,
@@ -25,7 +27,6 @@ export async function GET(
       )
     }
 
-    // Get authenticated user (must be trainer, manager, or admin)
     let user
     try {
       const result = await getMeUser({ nullUserRedirect: undefined })
@@ -34,8 +35,8 @@ export async function GET(
       return createAuthErrorResponse('Session expired', 401)
     }
     
-    if (!user || (user.role !== 'trainer' && user.role !== 'manager' && user.role !== 'admin')) {
-      return createAuthErrorResponse('Unauthorized - trainer access required', 401)
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
     }
 
     const payload = await getPayload({ config })
@@ -59,6 +60,10 @@ export async function GET(
 
     const session = sessions.docs[0]
 
+    if (!isSessionHost(session, user)) {
+      return createAuthErrorResponse('Only the session trainer and co-hosts can see session details', 403)
+    }
+
     // Get trainer info
     const trainer = typeof session.trainer === 'object' 
       ? session.trainer 
@@ -69,9 +74,7 @@ export async function GET(
       ? session.language 
       : null
 
-    // Calculate participant count from scratchpads
-    const scratchpads = (session.studentScratchpads as Record<string, any>) || {}
-    const participantCount = Object.keys(scratchpads).length
+    const participantCount = await countParticipants(payload, session.id)
 
     return NextResponse.json({
       session: {
@@ -95,6 +98,7 @@ export async function GET(
         createdAt: session.createdAt,
         trainerWorkspaceFileId: session.trainerWorkspaceFileId || null,
         trainerWorkspaceFileName: session.trainerWorkspaceFileName || null,
+        myPermissions: sessionPermissions(session, user),
       },
     })
   } catch (error) {
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { hasSessionPermission } from '@/services/sessionHosts'
+import { isSessionScheduled } from '@/utilities/sessionSchedule'
+
+/**
+ * POST /api/sessions/[code]/open
+ * Open a scheduled session so students can join (its trainer, managers, admins
+ * and co-hosts with the end permission).
+ * Can be done before the scheduled time.
+ * 
+ * Returns: { success: boolean, startedAt: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'end')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with end permission can open this session', 403)
+    }
+
+    if (!isSessionScheduled(session)) {
+      return NextResponse.json(
+        { error: session.isActive ? 'Session is already live' : 'Session has ended' },
+        { status: 409 }
+      )
+    }
+
+    const startedAt = new Date().toISOString()
+    await payload.update({
+      collection: 'live-sessions',
+      id: session.id,
+      data: {
+        isActive: true,
+        startedAt,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      startedAt,
+    })
+  } catch (error) {
+    console.error('Error opening session:', error)
+    return NextResponse.json(
+      { error: 'Failed to open session' },
+      { status: 500 }
+    )
+  }
+}
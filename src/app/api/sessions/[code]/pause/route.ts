@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import { sql, type PostgresAdapter } from '@payloadcms/db-postgres'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { hasSessionPermission } from '@/services/sessionHosts'
+import { publishSessionEvent } from '@/services/sessionEvents'
+
+/** Longest break a trainer can announce */
+const MAX_BREAK_MINUTES = 240
+
+/**
+ * POST /api/sessions/[code]/pause
+ * Start a break (session trainer, managers, admins and co-hosts with the end
+ * permission). Broadcasts are refused until the session resumes, and the break doesn't count towards the 24-hour expiry.
+ * 
+ * Body: { breakMinutes?: number } - announced length, shown to students as "back at HH:MM"
+ * Returns: { success: boolean, pausedAt: string, resumeAt: string | null }
+ * 
+ * DELETE /api/sessions/[code]/pause
+ * End the break.
+ * 
+ * Returns: { success: boolean, resumedAt: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code } = await params
+  const body = await request.json().catch(() => ({}))
+  const breakMinutes = body?.breakMinutes
+
+  if (
+    breakMinutes != null &&
+    (!Number.isInteger(breakMinutes) || breakMinutes < 1 || breakMinutes > MAX_BREAK_MINUTES)
+  ) {
+    return NextResponse.json(
+      { error: `breakMinutes must be a whole number from 1 to ${MAX_BREAK_MINUTES}` },
+      { status: 400 }
+    )
+  }
+
+  return updatePause(code, true, breakMinutes)
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code } = await params
+  return updatePause(code, false)
+}
+
+async function updatePause(code: string, pause: boolean, breakMinutes?: number) {
+  try {
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+        isActive: { equals: true },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found or has ended' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'end')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with end permission can pause this session', 403)
+    }
+
+    const now = new Date()
+
+    if (pause) {
+      if (session.pausedAt) {
+        return NextResponse.json(
+          { error: 'Session is already paused' },
+          { status: 409 }
+        )
+      }
+
+      const pausedAt = now.toISOString()
+      const resumeAt = breakMinutes
+        ? new Date(now.getTime() + breakMinutes * 60_000).toISOString()
+        : null
+      await payload.update({
+        collection: 'live-sessions',
+        id: session.id,
+        data: {
+          pausedAt,
+          resumeAt,
+        },
+      })
+
+      return NextResponse.json({
+        success: true,
+        pausedAt,
+        resumeAt,
+      })
+    }
+
+    if (!session.pausedAt) {
+      return NextResponse.json(
+        { error: 'Session is not paused' },
+        { status: 409 }
+      )
+    }
+
+    // Bank the break so the expiry clock skips it
+    const breakSeconds = Math.max(
+      0,
+      Math.round((now.getTime() - new Date(session.pausedAt).getTime()) / 1000)
+    )
+    // Only while the break is still on, so two resumes don't bank it twice
+    const { drizzle } = payload.db as unknown as PostgresAdapter
+    const resumed = await drizzle.execute(sql`
+      UPDATE "live_sessions"
+      SET "paused_at" = NULL, "resume_at" = NULL,
+        "paused_seconds" = COALESCE("paused_seconds", 0) + ${breakSeconds},
+        "updated_at" = ${now.toISOString()}
+      WHERE "id" = ${session.id} AND "paused_at" IS NOT NULL
+      RETURNING "id"`)
+
+    if (resumed.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Session is not paused' },
+        { status: 409 }
+      )
+    }
+
+    // The UPDATE skips the collection hooks, so tell the watchers here
+    await publishSessionEvent(session.joinCode, 'session_resumed', {
+      resumedAt: now.toISOString(),
+    })
+
+    return NextResponse.json({
+      success: true,
+      resumedAt: now.toISOString(),
+    })
+  } catch (error) {
+    console.error('Error updating session pause:', error)
+    return NextResponse.json(
+      { error: 'Failed to update session pause' },
+      { status: 500 }
+    )
+  }
+}
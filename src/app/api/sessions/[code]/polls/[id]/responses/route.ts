@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { answerPoll, summarizePoll } from '@/services/sessionPolls'
+
+/**
+ * POST /api/sessions/[code]/polls/[id]/responses
+ * Answer a running poll. Answering again before it closes replaces the answer.
+ * Only students who are in the session may answer (403 for everyone else,
+ * staff and hosts included).
+ *
+ * Body: { optionIndex: number } (multiple choice) or { answer: string }
+ * Returns: { poll: PollItem } (as the student sees it)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string; id: string }> }
+) {
+  try {
+    const { code, id } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+        isActive: { equals: true },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found or has ended' },
+        { status: 404 }
+      )
+    }
+
+    // The poll must belong to the session in the URL
+    const polls = await payload.find({
+      collection: 'session-polls',
+      where: {
+        and: [
+          { id: { equals: id } },
+          { session: { equals: sessions.docs[0].id } },
+        ],
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (polls.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Poll not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await answerPoll(payload, sessions.docs[0], polls.docs[0], user, {
+      optionIndex: body?.optionIndex,
+      answer: body?.answer,
+    })
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      poll: summarizePoll(polls.docs[0], { userId: user.id, staff: false }, [result.answer]),
+    })
+  } catch (error) {
+    console.error('Error answering poll:', error)
+    return NextResponse.json(
+      { error: 'Failed to answer poll' },
+      { status: 500 }
+    )
+  }
+}
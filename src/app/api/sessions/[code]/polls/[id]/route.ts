@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { hasSessionPermission } from '@/services/sessionHosts'
+import { closePoll, listPollAnswers, summarizePoll } from '@/services/sessionPolls'
+
+/**
+ * PATCH /api/sessions/[code]/polls/[id]
+ * Close a poll before its countdown runs out (session trainer, managers, admins
+ * and co-hosts with the broadcast permission)
+ * 
+ * Body: { action: 'close' }
+ * Returns: { poll: PollItem }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string; id: string }> }
+) {
+  try {
+    const { code, id } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    if (body?.action !== 'close') {
+      return NextResponse.json(
+        { error: "action must be 'close'" },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'broadcast')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with broadcast permission can close polls', 403)
+    }
+
+    // The poll must belong to the session in the URL
+    const polls = await payload.find({
+      collection: 'session-polls',
+      where: {
+        and: [
+          { id: { equals: id } },
+          { session: { equals: session.id } },
+        ],
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (polls.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Poll not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await closePoll(payload, polls.docs[0])
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    const answers = await listPollAnswers(payload, [result.poll])
+
+    return NextResponse.json({
+      poll: summarizePoll(result.poll, { userId: user.id, staff: true }, answers),
+    })
+  } catch (error) {
+    console.error('Error closing poll:', error)
+    return NextResponse.json(
+      { error: 'Failed to close poll' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,202 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { hasSessionPermission } from '@/services/sessionHosts'
+import {
+  broadcastPrompt,
+  listPollAnswers,
+  listPolls,
+  openPoll,
+  parsePollInput,
+  summarizePoll,
+} from '@/services/sessionPolls'
+import { hasSessionAccess } from '@/services/sessionAccess'
+
+/**
+ * GET /api/sessions/[code]/polls
+ * The session's polls, oldest first. Students (everyone without the broadcast
+ * permission) don't see the correct answer or the results of a poll until it closes.
+ * 
+ * Returns: { polls: PollItem[] }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await hasSessionAccess(payload, sessions.docs[0], user))) {
+      return NextResponse.json(
+        { error: 'Join the session first' },
+        { status: 403 }
+      )
+    }
+
+    const polls = await listPolls(payload, sessions.docs[0].id)
+    // Every answer: students see the results of closed polls
+    const answers = await listPollAnswers(payload, polls)
+    const viewer = {
+      userId: user.id,
+      staff: hasSessionPermission(sessions.docs[0], user, 'broadcast'),
+    }
+    const now = new Date()
+
+    return NextResponse.json({
+      polls: polls.map((poll) => summarizePoll(poll, viewer, answers, now)),
+    })
+  } catch (error) {
+    console.error('Error fetching polls:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch polls' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/sessions/[code]/polls
+ * Open a quiz question or poll (session trainer, managers, admins and co-hosts
+ * with the broadcast permission). A poll that is still running is closed first.
+ * 
+ * Body: {
+ *   kind: 'multiple_choice' | 'short_answer' | 'predict_output',
+ *   question: string,
+ *   options?: string[], correctOption?: number,   // multiple choice
+ *   expectedAnswer?: string,                      // short answer, predict the output
+ *   code?: string, language?: string,
+ *   useBroadcastCode?: boolean,                   // use the current broadcast as the code
+ *   durationSeconds?: number                      // countdown, 10–1800; omit for no limit
+ * }
+ * Returns: { poll: PollItem }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = parsePollInput(body)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+        isActive: { equals: true },
+      },
+      limit: 1,
+      depth: 1, // Include language for broadcast prompts
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found or has ended' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'broadcast')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with broadcast permission can run polls', 403)
+    }
+
+    const input = parsed.input
+    if (body?.useBroadcastCode === true) {
+      const prompt = broadcastPrompt(session)
+      if (!prompt) {
+        return NextResponse.json(
+          { error: 'Nothing has been broadcast yet' },
+          { status: 409 }
+        )
+      }
+      input.code = prompt.code
+      input.language = prompt.language
+      // A typed expected answer wins over the broadcast output
+      if (input.kind !== 'multiple_choice' && !input.expectedAnswer) {
+        input.expectedAnswer = prompt.expectedAnswer
+      }
+    }
+
+    const poll = await openPoll(payload, session.id, user.id, input)
+
+    return NextResponse.json({
+      poll: summarizePoll(poll, { userId: user.id, staff: true }, []),
+    })
+  } catch (error) {
+    console.error('Error opening poll:', error)
+    return NextResponse.json(
+      { error: 'Failed to open poll' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { CODE_PUSH_ACTIONS, respondToPush, type CodePushAction } from '@/services/codePushes'
+
+/**
+ * PATCH /api/sessions/[code]/pushes/[id]
+ * Answer a code push (students it was sent to who are in the session). The editor
+ * change itself happens in the browser; this records what the student chose.
+ * 
+ * Body: { action: 'replaced' | 'merged' | 'saved' | 'dismissed' }
+ * Returns: { success: boolean }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string; id: string }> }
+) {
+  try {
+    const { code, id } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const action = body?.action as CodePushAction
+    if (!CODE_PUSH_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${CODE_PUSH_ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    // The push must belong to the session in the URL
+    const pushes = await payload.find({
+      collection: 'code-pushes',
+      where: {
+        and: [
+          { id: { equals: id } },
+          { session: { equals: sessions.docs[0].id } },
+        ],
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (pushes.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Push not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await respondToPush(payload, pushes.docs[0], user.id, action)
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+    })
+  } catch (error) {
+    console.error('Error answering code push:', error)
+    return NextResponse.json(
+      { error: 'Failed to answer code push' },
+      { status: 500 }
+    )
+  }
+}
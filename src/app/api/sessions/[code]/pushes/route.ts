@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { hasSessionPermission } from '@/services/sessionHosts'
+import { findParticipant } from '@/services/sessionParticipants'
+import {
+  listCodePushes,
+  listPushResponses,
+  pendingPushesFor,
+  pushCode,
+  toCodePushItem,
+} from '@/services/codePushes'
+import { hasSessionAccess } from '@/services/sessionAccess'
+
+const MAX_PUSH_CODE_LENGTH = 100_000
+
+/**
+ * GET /api/sessions/[code]/pushes
+ * Code pushes. Hosts with the broadcast permission get the session's recent
+ * pushes with answer counts; students get the pushes they still have to accept or dismiss.
+ * 
+ * Returns: { pushes: CodePushItem[] } (oldest first)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await hasSessionAccess(payload, sessions.docs[0], user))) {
+      return NextResponse.json(
+        { error: 'Join the session first' },
+        { status: 403 }
+      )
+    }
+
+    const pushes = await listCodePushes(payload, sessions.docs[0].id)
+    const isHost = hasSessionPermission(sessions.docs[0], user, 'broadcast')
+    // Hosts get every answer for the counts; students only need their own
+    const responses = await listPushResponses(payload, pushes, isHost ? null : user.id)
+    const visible = isHost ? pushes : pendingPushesFor(pushes, user.id, responses)
+
+    return NextResponse.json({
+      pushes: visible.map((push) => toCodePushItem(push, responses)),
+    })
+  } catch (error) {
+    console.error('Error fetching code pushes:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch code pushes' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/sessions/[code]/pushes
+ * Push code to one student or the whole class (session trainer, managers, admins
+ * and co-hosts with the broadcast permission).
+ * Students get an accept prompt; nothing changes in their editor until they answer it.
+ * 
+ * Body: { code: string, language?: string, fileName?: string, message?: string, recipientId?: number }
+ *   - Omit recipientId to push to everyone in the session
+ * Returns: { push: CodePushItem }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { code: pushedCode, language, fileName, message, recipientId } = body ?? {}
+
+    if (typeof pushedCode !== 'string' || pushedCode.trim() === '') {
+      return NextResponse.json(
+        { error: 'code is required' },
+        { status: 400 }
+      )
+    }
+    if (pushedCode.length > MAX_PUSH_CODE_LENGTH) {
+      return NextResponse.json(
+        { error: `code is too long (${MAX_PUSH_CODE_LENGTH} characters max)` },
+        { status: 400 }
+      )
+    }
+    if (recipientId != null && typeof recipientId !== 'number') {
+      return NextResponse.json(
+        { error: 'recipientId must be a user id' },
+        { status: 400 }
+      )
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+        isActive: { equals: true },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found or has ended' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+
+    if (!hasSessionPermission(session, user, 'broadcast')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with broadcast permission can push code', 403)
+    }
+
+    if (recipientId != null && !(await findParticipant(payload, session.id, recipientId))) {
+      return NextResponse.json(
+        { error: 'Student is not in this session' },
+        { status: 404 }
+      )
+    }
+
+    const push = await pushCode(payload, session.id, user.id, {
+      code: pushedCode,
+      language: typeof language === 'string' ? language : null,
+      fileName: typeof fileName === 'string' ? fileName.trim() : null,
+      message: typeof message === 'string' ? message.trim() : null,
+      recipientId,
+    })
+
+    return NextResponse.json({
+      push: toCodePushItem(push),
+    })
+  } catch (error) {
+    console.error('Error pushing code:', error)
+    return NextResponse.json(
+      { error: 'Failed to push code' },
+      { status: 500 }
+    )
+  }
+}
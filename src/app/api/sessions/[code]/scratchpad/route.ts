@@ -4,6 +4,9 @@ import config from '@payload-config'
 import { isValidJoinCode } from '@/utilities/joinCode'
 import { getMeUser } from '@/auth/getMeUser'
 import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { getLanguageByFileName } from '@/utilities/languageRegistry'
+import { saveScratchpad, type ScratchpadFields } from '@/services/sessionParticipants'
+import { hasSessionAccess } from '@/services/sessionAccess'
 
 /**
  * POST /api/sessions/[code]/scratchpad
@@ -79,9 +82,14 @@ export async function POST(
 
     const session = sessions.docs[0]
 
-    // Get or initialize student scratchpads
-    const scratchpads = (session.studentScratchpads as Record<string, any>) || {}
-    
+    // Sharing a scratchpad adds the student, so it must not get around the access mode
+    if (!(await hasSessionAccess(payload, session, user))) {
+      return NextResponse.json(
+        { error: 'Join the session first' },
+        { status: 403 }
+      )
+    }
+
     // Use code and workspaceFileName from body when provided (keeps code + output in sync without stale file fetch)
     let workspaceFileName: string | null = typeof bodyWorkspaceFileName === 'string' ? bodyWorkspaceFileName : null
     let fileContent = typeof scratchpadCode === 'string' ? scratchpadCode : ''
@@ -96,45 +104,25 @@ export async function POST(
         if (workspaceFileName === null) workspaceFileName = file.name
         if (fileContent === '' && file.content) fileContent = file.content
         if (fileLanguage === 'javascript' && file.name) {
-          const parts = file.name.split('.')
-          const ext = parts.length > 1 ? parts.pop()!.toLowerCase() : ''
-          if (ext) {
-            const extToLang: Record<string, string> = {
-              'js': 'javascript', 'ts': 'typescript', 'py': 'python',
-              'java': 'java', 'cpp': 'cpp', 'c': 'c', 'cs': 'csharp',
-              'php': 'php', 'rb': 'ruby', 'go': 'go', 'rs': 'rust',
-            }
-            fileLanguage = extToLang[ext] || 'javascript'
-          }
+          fileLanguage = getLanguageByFileName(file.name)?.id || 'javascript'
         }
       } catch {
         // File might not exist, use provided or defaults
       }
     }
     
-    // Update this student's scratchpad
-    const updatedScratchpad: any = {
+    // Update only this student's participant entry
+    const scratchpad: ScratchpadFields = {
       code: fileContent, // Store code (from file or provided)
       language: fileLanguage,
-      updatedAt: new Date().toISOString(),
-      studentName: user.name || user.email || 'Anonymous',
     }
-    if (output) updatedScratchpad.output = output
+    if (output) scratchpad.output = output as ScratchpadFields['output']
     if (workspaceFileId) {
-      updatedScratchpad.workspaceFileId = workspaceFileId
-      updatedScratchpad.workspaceFileName = workspaceFileName
+      scratchpad.workspaceFileId = workspaceFileId
+      scratchpad.workspaceFileName = workspaceFileName
     }
 
-    scratchpads[user.id] = updatedScratchpad
-
-    // Update session with new scratchpads
-    await payload.update({
-      collection: 'live-sessions',
-      id: session.id,
-      data: {
-        studentScratchpads: scratchpads,
-      },
-    })
+    await saveScratchpad(payload, session.id, user.id, scratchpad)
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { isSessionScheduled } from '@/utilities/sessionSchedule'
+import { isStaff } from '@/utilities/dashboardAccess'
+import { hasSessionAccess } from '@/services/sessionAccess'
+
+/**
+ * GET /api/sessions/[code]/snapshots
+ * Recorded trainer broadcasts for replay, oldest first.
+ * Trainers, managers and admins can read them any time; students who had access to the
+ * session (see hasSessionAccess) once it has ended.
+ * 
+ * Returns: {
+ *   session: { title, joinCode, isActive, startedAt, endedAt },
+ *   snapshots: Array<{ id, code, language, output, workspaceFileName, capturedAt }>
+ * }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    if (!code || !isValidJoinCode(code)) {
+      return NextResponse.json(
+        { error: 'Invalid join code format' },
+        { status: 400 }
+      )
+    }
+
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const sessions = await payload.find({
+      collection: 'live-sessions',
+      where: {
+        joinCode: { equals: code.toUpperCase() },
+      },
+      limit: 1,
+      depth: 0,
+    })
+
+    if (sessions.docs.length === 0) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const session = sessions.docs[0]
+    if (!isStaff(user)) {
+      if (!(await hasSessionAccess(payload, session, user))) {
+        return NextResponse.json(
+          { error: 'Only students who were in the session can replay it' },
+          { status: 403 }
+        )
+      }
+
+      if (session.isActive || isSessionScheduled(session)) {
+        return NextResponse.json(
+          { error: 'Replay is available after the session ends' },
+          { status: 409 }
+        )
+      }
+    }
+
+    const snapshots = await payload.find({
+      collection: 'session-snapshots',
+      where: {
+        session: { equals: session.id },
+      },
+      sort: 'capturedAt',
+      pagination: false,
+      depth: 0,
+    })
+
+    return NextResponse.json({
+      session: {
+        title: session.title,
+        joinCode: session.joinCode,
+        isActive: session.isActive,
+        startedAt: session.startedAt || null,
+        endedAt: session.endedAt || null,
+      },
+      snapshots: snapshots.docs.map((snapshot) => ({
+        id: snapshot.id,
+        code: snapshot.code || '',
+        language: snapshot.language || null,
+        output: snapshot.output ?? null,
+        workspaceFileName: snapshot.workspaceFileName || null,
+        capturedAt: snapshot.capturedAt,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching session snapshots:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch session snapshots' },
+      { status: 500 }
+    )
+  }
+}
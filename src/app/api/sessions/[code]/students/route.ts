@@ -4,10 +4,13 @@ import config from '@payload-config'
 import { isValidJoinCode } from '@/utilities/joinCode'
 import { getMeUser } from '@/auth/getMeUser'
 import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { listParticipants, participantName } from '@/services/sessionParticipants'
+import { hasSessionPermission } from '@/services/sessionHosts'
 
 /**
  * GET /api/sessions/[code]/students
- * Get all students' scratchpad code (trainer only)
+ * Get all students' scratchpad code (session trainer, managers, admins and
+ * co-hosts with the monitor permission)
  * 
  * Returns: { students: Array<{userId, name, code, language, updatedAt}> }
  */
@@ -25,7 +28,6 @@ export async function GET(
       )
     }
 
-    // Get authenticated user (must be trainer, manager, or admin)
     let user
     try {
       const result = await getMeUser({ nullUserRedirect: undefined })
@@ -35,8 +37,8 @@ export async function GET(
       return createAuthErrorResponse('Session expired', 401)
     }
     
-    if (!user || (user.role !== 'trainer' && user.role !== 'manager' && user.role !== 'admin')) {
-      return createAuthErrorResponse('Unauthorized - trainer or manager access required', 401)
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
     }
 
     const payload = await getPayload({ config })
@@ -48,6 +50,7 @@ export async function GET(
         joinCode: { equals: code.toUpperCase() },
       },
       limit: 1,
+      depth: 0,
     })
 
     if (sessions.docs.length === 0) {
@@ -59,22 +62,22 @@ export async function GET(
 
     const session = sessions.docs[0]
 
-    // Any staff member (admin or trainer) can access any session
-    // No ownership check needed
+    if (!hasSessionPermission(session, user, 'monitor')) {
+      return createAuthErrorResponse('Only the session trainer or a co-host with monitor permission can see students', 403)
+    }
 
-    // Get student scratchpads
-    const scratchpads = (session.studentScratchpads as Record<string, any>) || {}
-    
-    // Convert to array format
-    const students = Object.entries(scratchpads).map(([userId, data]) => ({
-      userId,
-      name: data.studentName || 'Anonymous',
-      code: data.code || '',
-      language: data.language || 'javascript',
-      updatedAt: data.updatedAt || null,
-      output: data.output || null,
-      workspaceFileId: data.workspaceFileId || null,
-      workspaceFileName: data.workspaceFileName || null,
+    // Students currently in the session, with their scratchpads
+    const participants = await listParticipants(payload, session.id)
+
+    const students = participants.map((participant) => ({
+      userId: String(typeof participant.user === 'object' ? participant.user.id : participant.user),
+      name: participantName(participant),
+      code: participant.code || '',
+      language: participant.language || 'javascript',
+      updatedAt: participant.lastSeenAt || participant.updatedAt || null,
+      output: participant.output || null,
+      workspaceFileId: participant.workspaceFileId || null,
+      workspaceFileName: participant.workspaceFileName || null,
     }))
 
     return NextResponse.json({
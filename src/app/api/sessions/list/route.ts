@@ -3,7 +3,8 @@ import { getPayload } from 'payload'
 import config from '@payload-config'
 import { getMeUser } from '@/auth/getMeUser'
 import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
-import { getSessionExpirationCutoff } from '@/utilities/sessionExpiration'
+import { isSessionExpired } from '@/utilities/sessionExpiration'
+import { countParticipantsBySession } from '@/services/sessionParticipants'
 
 /**
  * GET /api/sessions/list
@@ -37,9 +38,6 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const trainerIdFilter = searchParams.get('trainerId')
 
-    // Calculate the cutoff time (24 hours ago)
-    const twentyFourHoursAgo = getSessionExpirationCutoff()
-
     // Build where clause
     const whereClause: any = {
       isActive: { equals: true },
@@ -52,8 +50,8 @@ export async function GET(request: NextRequest) {
       whereClause.trainer = { equals: trainerId }
     }
 
-    // Find all active sessions that started within the last 24 hours
-    // Also automatically deactivate sessions older than 24 hours
+    // Find all active sessions that have been live for less than 24 hours (breaks don't count)
+    // Also automatically deactivate sessions past that
     const allActiveSessions = await payload.find({
       collection: 'live-sessions',
       where: whereClause,
@@ -67,11 +65,8 @@ export async function GET(request: NextRequest) {
     const sessionsToDeactivate = []
 
     for (const session of allActiveSessions.docs) {
-      const sessionStartTime = session.startedAt || session.createdAt
-      const startDate = sessionStartTime ? new Date(sessionStartTime) : new Date(session.createdAt)
-      
-      if (startDate < twentyFourHoursAgo) {
-        // Session is older than 24 hours, mark for deactivation
+      if (isSessionExpired(session.startedAt, session.createdAt, session)) {
+        // Session has been live for more than 24 hours, mark for deactivation
         sessionsToDeactivate.push(session)
       } else {
         // Session is still valid
@@ -104,6 +99,10 @@ export async function GET(request: NextRequest) {
 
     // Return only valid sessions (limit to 100)
     const sessions = validSessions.slice(0, 100)
+    const participantCounts = await countParticipantsBySession(
+      payload,
+      sessions.map((session) => session.id)
+    )
 
     // Format response with trainer info
     const formattedSessions = sessions.map((session) => {
@@ -120,7 +119,7 @@ export async function GET(request: NextRequest) {
           name: trainer.name || trainer.email || 'Unknown',
           email: trainer.email || '',
         } : null,
-        participantCount: session.participantCount || 0,
+        participantCount: participantCounts.get(session.id) ?? 0,
         startedAt: session.startedAt || session.createdAt,
       }
     })
@@ -4,13 +4,27 @@ import config from '@payload-config'
 import { generateJoinCode } from '@/utilities/joinCode'
 import { getMeUser } from '@/auth/getMeUser'
 import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import {
+  isValidTimeZone,
+  MAX_SESSION_DURATION_MINUTES,
+  MIN_SESSION_DURATION_MINUTES,
+  parseScheduledStart,
+} from '@/utilities/sessionSchedule'
+import { parseAccessSettings, resolveAccessSettings } from '@/services/sessionAccess'
 
 /**
  * POST /api/sessions/start
- * Creates a new live session with auto-generated unique join code
+ * Creates a new live session with auto-generated unique join code.
+ * With scheduledStart the session is created for later and goes live when the
+ * trainer opens it (POST /api/sessions/[code]/open).
  * 
- * Body: { title: string, languageId?: string }
- * Returns: { joinCode: string, sessionId: string }
+ * Body: {
+ *   title: string, languageId?: string, languageSlug?: string, description?: string,
+ *   scheduledStart?: string (ISO, or YYYY-MM-DDTHH:mm in timezone),
+ *   timezone?: string (IANA, default UTC), durationMinutes?: number,
+ *   access?: { accessMode, passcode?, studentEmails?, cohortIds? } (see PUT /api/sessions/[code]/access)
+ * }
+ * Returns: { joinCode: string, sessionId: string, title: string, scheduledStart: string | null }
  */
 export async function POST(request: NextRequest) {
   try {
@@ -33,7 +47,8 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { title, languageId } = body
+    const { title, languageId, languageSlug, description, scheduledStart, durationMinutes } = body
+    const timezone = body.timezone || 'UTC'
 
     if (!title) {
       return NextResponse.json(
@@ -42,8 +57,74 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Optional scheduling
+    let scheduledStartDate: Date | null = null
+    if (scheduledStart) {
+      if (!isValidTimeZone(timezone)) {
+        return NextResponse.json(
+          { error: `Unknown time zone: ${timezone}` },
+          { status: 400 }
+        )
+      }
+      scheduledStartDate = parseScheduledStart(String(scheduledStart), timezone)
+      if (!scheduledStartDate) {
+        return NextResponse.json(
+          { error: 'Invalid scheduledStart' },
+          { status: 400 }
+        )
+      }
+      if (scheduledStartDate <= new Date()) {
+        return NextResponse.json(
+          { error: 'scheduledStart must be in the future' },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (
+      durationMinutes != null &&
+      (!Number.isInteger(durationMinutes) ||
+        durationMinutes < MIN_SESSION_DURATION_MINUTES ||
+        durationMinutes > MAX_SESSION_DURATION_MINUTES)
+    ) {
+      return NextResponse.json(
+        {
+          error: `durationMinutes must be a whole number from ${MIN_SESSION_DURATION_MINUTES} to ${MAX_SESSION_DURATION_MINUTES}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    // Optional access mode (open when omitted)
+    const parsedAccess = body.access ? parseAccessSettings(body.access) : null
+    if (parsedAccess && !parsedAccess.ok) {
+      return NextResponse.json(
+        { error: parsedAccess.error },
+        { status: 400 }
+      )
+    }
+
     const payload = await getPayload({ config })
 
+    const access = parsedAccess ? await resolveAccessSettings(payload, parsedAccess.input) : null
+    if (access && !access.ok) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      )
+    }
+
+    // Language by id, or by registry slug (map slug -> languages doc id)
+    let language = languageId || undefined
+    if (!language && languageSlug) {
+      const langs = await payload.find({
+        collection: 'languages',
+        where: { slug: { equals: String(languageSlug).toLowerCase() } },
+        limit: 1,
+      })
+      language = langs.docs[0]?.id
+    }
+
     // Generate unique join code
     let joinCode = generateJoinCode()
     let attempts = 0
@@ -77,12 +158,16 @@ export async function POST(request: NextRequest) {
         joinCode,
         title,
         trainer: user.id, // Use authenticated user's ID
-        language: languageId || undefined,
-        isActive: true,
-        participantCount: 0,
-        startedAt: new Date().toISOString(),
+        language,
+        description: description || undefined,
+        isActive: !scheduledStartDate,
+        startedAt: scheduledStartDate ? undefined : new Date().toISOString(),
+        scheduledStart: scheduledStartDate?.toISOString(),
+        durationMinutes: durationMinutes ?? undefined,
+        timezone: scheduledStartDate ? timezone : undefined,
         currentCode: '',
         currentOutput: null,
+        ...access?.data,
       },
     })
 
@@ -90,6 +175,7 @@ export async function POST(request: NextRequest) {
       joinCode,
       sessionId: session.id,
       title: session.title,
+      scheduledStart: session.scheduledStart || null,
     })
   } catch (error) {
     console.error('Error creating session:', error)
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { getMeUser } from '@/auth/getMeUser'
+import { createAuthErrorResponse } from '@/utilities/apiErrorResponse'
+import { listUpcomingSessions } from '@/services/sessionSchedule'
+import { isStaff } from '@/utilities/dashboardAccess'
+
+/**
+ * GET /api/sessions/upcoming
+ * Scheduled sessions that haven't happened yet or are live now, soonest first.
+ * Students only see open sessions and the ones they are enrolled in or joined.
+ * 
+ * Query parameters:
+ *   - trainerId: Optional, staff only. Only sessions hosted by this trainer
+ * 
+ * Returns: { sessions: Array<{id, joinCode, title, description, status: 'scheduled' | 'live',
+ *   scheduledStart, durationMinutes, timezone, language, trainer: {id, name}}> }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    let user
+    try {
+      const result = await getMeUser({ nullUserRedirect: undefined })
+      user = result.user
+    } catch (error) {
+      return createAuthErrorResponse('Session expired', 401)
+    }
+
+    if (!user) {
+      return createAuthErrorResponse('Unauthorized', 401)
+    }
+
+    const payload = await getPayload({ config })
+
+    const { searchParams } = new URL(request.url)
+    const trainerIdFilter = searchParams.get('trainerId')
+    const trainerId = trainerIdFilter
+      ? isNaN(Number(trainerIdFilter)) ? undefined : Number(trainerIdFilter)
+      : undefined
+
+    if (trainerId !== undefined && !isStaff(user)) {
+      return createAuthErrorResponse('Only staff can filter by trainer', 403)
+    }
+
+    const sessions = await listUpcomingSessions(payload, user, { trainerId })
+
+    return NextResponse.json({
+      sessions,
+    })
+  } catch (error) {
+    console.error('Error fetching upcoming sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch upcoming sessions' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly } from '@/access/adminOnly'
+import { staffOr } from '@/access/staffOr'
+
+export const CodePushResponses: CollectionConfig = {
+  slug: 'code-push-responses',
+  admin: {
+    defaultColumns: ['push', 'user', 'action', 'createdAt'],
+    group: 'Live Coding',
+    description:
+      'How each student answered a code push, one entry per student and push (written by the session routes)',
+  },
+  defaultSort: 'createdAt',
+  indexes: [
+    {
+      fields: ['push', 'user'],
+      unique: true,
+    },
+  ],
+  fields: [
+    {
+      name: 'push',
+      type: 'relationship',
+      relationTo: 'code-pushes',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'user',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'action',
+      type: 'select',
+      required: true,
+      options: [
+        { label: 'Replaced their code', value: 'replaced' },
+        { label: 'Added below their code', value: 'merged' },
+        { label: 'Saved as a new file', value: 'saved' },
+        { label: 'Dismissed', value: 'dismissed' },
+      ],
+    },
+  ],
+  access: {
+    // Staff can see every answer; students their own
+    read: staffOr((userId) => ({ user: { equals: userId } })),
+    // Written by PATCH /api/sessions/[code]/pushes/[id] only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+}
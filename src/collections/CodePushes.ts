@@ -0,0 +1,82 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly } from '@/access/adminOnly'
+import { staffOrJoinedSession } from '@/access/staffOrJoinedSession'
+
+import { publishCodePush } from '@/hooks/publishCodePush'
+
+export const CodePushes: CollectionConfig = {
+  slug: 'code-pushes',
+  admin: {
+    defaultColumns: ['session', 'sentBy', 'recipient', 'fileName', 'createdAt'],
+    group: 'Live Coding',
+    description:
+      'Code a trainer pushed to one student or the whole class; answers are in code-push-responses (written by the session routes)',
+  },
+  defaultSort: '-createdAt',
+  fields: [
+    {
+      name: 'session',
+      type: 'relationship',
+      relationTo: 'live-sessions',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'sentBy',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+    },
+    {
+      name: 'recipient',
+      type: 'relationship',
+      relationTo: 'users',
+      index: true,
+      admin: {
+        description: 'Empty when pushed to the whole class',
+      },
+    },
+    {
+      name: 'code',
+      type: 'code',
+      required: true,
+      admin: {
+        language: 'javascript',
+      },
+    },
+    {
+      name: 'language',
+      type: 'text',
+      admin: {
+        description: 'Language slug of the code (see the language registry)',
+      },
+    },
+    {
+      name: 'fileName',
+      type: 'text',
+      admin: {
+        description: 'Suggested file name when the student saves it as a new file',
+      },
+    },
+    {
+      name: 'message',
+      type: 'textarea',
+      admin: {
+        description: 'Optional note shown to the student with the code',
+      },
+    },
+  ],
+  hooks: {
+    afterChange: [publishCodePush],
+  },
+  access: {
+    // Staff can see every push; students the ones sent to them or their class, in sessions they joined
+    read: staffOrJoinedSession((userId) => ({
+      or: [{ recipient: { equals: userId } }, { recipient: { exists: false } }],
+    })),
+    // Written by the /api/sessions/[code]/pushes routes only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+}
@@ -0,0 +1,43 @@
+import type { CollectionConfig } from 'payload'
+import { staffOnly } from '@/access/staffOnly'
+
+export const Cohorts: CollectionConfig = {
+  slug: 'cohorts',
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'students', 'updatedAt'],
+    group: 'Live Coding',
+    description: 'Batches of students; restricted live sessions can be opened to whole cohorts',
+  },
+  defaultSort: 'name',
+  fields: [
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+      unique: true,
+    },
+    {
+      name: 'description',
+      type: 'textarea',
+    },
+    {
+      name: 'students',
+      type: 'relationship',
+      relationTo: 'users',
+      hasMany: true,
+      index: true,
+      filterOptions: {
+        role: { equals: 'student' },
+      },
+    },
+  ],
+  access: {
+    // Staff pick cohorts for sessions; students never need to see them
+    read: staffOnly,
+    // Managers and admins look after the cohorts
+    create: ({ req }) => req.user?.role === 'admin' || req.user?.role === 'manager',
+    update: ({ req }) => req.user?.role === 'admin' || req.user?.role === 'manager',
+    delete: ({ req }) => req.user?.role === 'admin' || req.user?.role === 'manager',
+  },
+}
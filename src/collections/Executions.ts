@@ -0,0 +1,158 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly } from '@/access/adminOnly'
+import { staffOr } from '@/access/staffOr'
+
+export const Executions: CollectionConfig = {
+  slug: 'executions',
+  admin: {
+    useAsTitle: 'language',
+    defaultColumns: ['user', 'language', 'status', 'sessionCode', 'executionTime', 'createdAt'],
+    group: 'Live Coding',
+    description: 'Every code run made through /api/execute (written by the server)',
+  },
+  defaultSort: '-createdAt',
+  fields: [
+    {
+      name: 'user',
+      type: 'relationship',
+      relationTo: 'users',
+      index: true,
+      admin: {
+        description: 'Who ran the code (empty for anonymous runs)',
+      },
+    },
+    {
+      name: 'file',
+      type: 'relationship',
+      relationTo: 'files',
+      index: true,
+      admin: {
+        description: 'Workspace file that was run (entry file for folder runs)',
+      },
+    },
+    {
+      name: 'guestKey',
+      type: 'text',
+      index: true,
+      admin: {
+        description: 'Hash of the IP address of an anonymous run (counts guest run limits)',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'sessionCode',
+      type: 'text',
+      index: true,
+      admin: {
+        description: 'Join code of the live session the run was made in',
+      },
+    },
+    {
+      name: 'language',
+      type: 'text',
+      required: true,
+    },
+    {
+      name: 'folderRun',
+      type: 'checkbox',
+      defaultValue: false,
+      admin: {
+        description: 'Run folder mode (all files of a folder were sent)',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'fileCount',
+      type: 'number',
+      admin: {
+        description: 'Number of source files sent',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'codeHash',
+      type: 'text',
+      index: true,
+      admin: {
+        description: 'SHA-256 of all source files (detects re-runs of identical code)',
+      },
+    },
+    {
+      name: 'code',
+      type: 'code',
+      admin: {
+        language: 'javascript',
+        description: 'Source of the entry file (truncated)',
+      },
+    },
+    {
+      name: 'input',
+      type: 'textarea',
+      admin: {
+        description: 'Program input (stdin, truncated)',
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      options: [
+        { label: 'Running', value: 'running' },
+        { label: 'Success', value: 'success' },
+        { label: 'Runtime error', value: 'runtime_error' },
+        { label: 'Compilation error', value: 'compilation_error' },
+        { label: 'Timeout', value: 'timeout' },
+        { label: 'Error', value: 'error' },
+        { label: 'Stopped', value: 'cancelled' },
+      ],
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'backend',
+      type: 'text',
+      admin: {
+        description: 'Execution backend that ran the code (onecompiler, local)',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'exitCode',
+      type: 'number',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'executionTime',
+      type: 'number',
+      admin: {
+        description: 'Run time in milliseconds',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'stdout',
+      type: 'textarea',
+      admin: {
+        description: 'Program output (truncated)',
+      },
+    },
+    {
+      name: 'stderr',
+      type: 'textarea',
+      admin: {
+        description: 'Error output or API error message (truncated)',
+      },
+    },
+  ],
+  access: {
+    // Staff can review everyone's runs; others only see their own
+    read: staffOr((userId) => ({ user: { equals: userId } })),
+    // Written by /api/execute only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+}
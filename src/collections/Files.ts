@@ -39,6 +39,59 @@ export const Files: CollectionConfig = {
         description: 'Parent folder (null = root level)',
       },
     },
+    {
+      name: 'testCases',
+      type: 'array',
+      fields: [
+        {
+          name: 'name',
+          type: 'text',
+          admin: {
+            description: 'Optional label shown in test results',
+          },
+        },
+        {
+          name: 'input',
+          type: 'textarea',
+          admin: {
+            description: 'Program input (stdin)',
+          },
+        },
+        {
+          name: 'expectedOutput',
+          type: 'textarea',
+          required: true,
+          admin: {
+            description: 'Expected program output (stdout)',
+          },
+        },
+      ],
+      admin: {
+        description: 'Input/expected-output cases run by the test runner',
+      },
+    },
+    {
+      name: 'testComparison',
+      type: 'select',
+      defaultValue: 'whitespace',
+      options: [
+        { label: 'Exact', value: 'exact' },
+        { label: 'Ignore whitespace', value: 'whitespace' },
+        { label: 'Ignore whitespace, float tolerance', value: 'float' },
+      ],
+      admin: {
+        description: 'How test output is compared with the expected output',
+      },
+    },
+    {
+      name: 'floatTolerance',
+      type: 'number',
+      defaultValue: 0.000001,
+      admin: {
+        description: 'Allowed absolute/relative difference for numbers (float comparison only)',
+        condition: (data) => data?.testComparison === 'float',
+      },
+    },
   ],
   access: {
     // Users can only read their own files
@@ -0,0 +1,139 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly } from '@/access/adminOnly'
+import { staffOr } from '@/access/staffOr'
+
+import { publishHelpQueueChanges } from '@/hooks/publishHelpQueueChanges'
+
+export const HelpRequests: CollectionConfig = {
+  slug: 'help-requests',
+  admin: {
+    defaultColumns: ['session', 'user', 'status', 'raisedAt', 'claimedBy', 'closedAt'],
+    group: 'Live Coding',
+    description:
+      'Raised hands in live sessions, with the code and error the student needed help with (written by the session routes)',
+  },
+  defaultSort: '-raisedAt',
+  indexes: [
+    {
+      fields: ['session', 'status'],
+    },
+  ],
+  fields: [
+    {
+      name: 'session',
+      type: 'relationship',
+      relationTo: 'live-sessions',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'user',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      defaultValue: 'waiting',
+      options: [
+        { label: 'Waiting', value: 'waiting' },
+        { label: 'Claimed', value: 'claimed' },
+        { label: 'Resolved', value: 'resolved' },
+        { label: 'Dismissed', value: 'dismissed' },
+        { label: 'Withdrawn', value: 'withdrawn' },
+      ],
+      admin: {
+        description: 'Withdrawn means the student lowered their hand',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'message',
+      type: 'textarea',
+      admin: {
+        description: 'Optional note from the student',
+      },
+    },
+    {
+      name: 'code',
+      type: 'code',
+      admin: {
+        language: 'javascript',
+        description: "The student's code when they raised their hand",
+      },
+    },
+    {
+      name: 'language',
+      type: 'text',
+      admin: {
+        description: 'Language slug of the code (see the language registry)',
+      },
+    },
+    {
+      name: 'workspaceFileName',
+      type: 'text',
+    },
+    {
+      name: 'lastError',
+      type: 'textarea',
+      admin: {
+        description: "Error output of the student's last failed run, if any",
+      },
+    },
+    {
+      name: 'raisedAt',
+      type: 'date',
+      required: true,
+      index: true,
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'claimedAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'claimedBy',
+      type: 'relationship',
+      relationTo: 'users',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'closedAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        description: 'When the request was resolved, dismissed or withdrawn',
+        position: 'sidebar',
+      },
+    },
+  ],
+  hooks: {
+    afterChange: [publishHelpQueueChanges],
+  },
+  access: {
+    // Staff can see every request; students only their own
+    read: staffOr((userId) => ({ user: { equals: userId } })),
+    // Written by the /api/sessions/[code]/help routes only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+}
@@ -1,11 +1,15 @@
 import type { CollectionConfig } from 'payload'
 
+import { executionLimits } from '@/fields/executionLimits'
+
 export const Languages: CollectionConfig = {
   slug: 'languages',
   admin: {
     useAsTitle: 'name',
-    defaultColumns: ['name', 'slug', 'extension'],
+    defaultColumns: ['name', 'slug', 'extension', 'executionBackend'],
     group: 'Live Coding',
+    description:
+      'Built-in languages are created and kept in sync from the language registry (src/utilities/languageRegistry.ts) on startup. Starter code and execution backend stay editable.',
   },
   fields: [
     {
@@ -22,7 +26,7 @@ export const Languages: CollectionConfig = {
       required: true,
       unique: true,
       admin: {
-        description: 'Used for OneCompiler API (e.g., javascript, python)',
+        description: 'Language ID used by the execution backends (e.g., javascript, python)',
       },
     },
     {
@@ -48,6 +52,24 @@ export const Languages: CollectionConfig = {
         description: 'Default starter code for this language',
       },
     },
+    {
+      name: 'executionBackend',
+      type: 'select',
+      defaultValue: 'onecompiler',
+      options: [
+        { label: 'OneCompiler (remote API)', value: 'onecompiler' },
+        { label: 'Local sandbox (offline)', value: 'local' },
+      ],
+      admin: {
+        description:
+          'Where code in this language runs. Local runs on the server without network access and needs the toolchain installed.',
+        position: 'sidebar',
+      },
+    },
+    executionLimits({
+      description:
+        'Resource limits for each run. Leave empty to use the language registry defaults. The local sandbox enforces all four; OneCompiler only wall time and output size.',
+    }),
   ],
   access: {
     read: () => true,
@@ -1,10 +1,23 @@
-import type { CollectionConfig } from 'payload'
+import type { CollectionConfig, Where } from 'payload'
+
+import { staffOnly } from '@/access/staffOnly'
+import { staffOr } from '@/access/staffOr'
+import { executionLimits } from '@/fields/executionLimits'
+import { publishLiveSessionEvents } from '@/hooks/publishLiveSessionEvents'
+import { recordSessionSnapshot } from '@/hooks/recordSessionSnapshot'
+import { joinedSessionIds } from '@/services/sessionParticipants'
+import {
+  DEFAULT_SESSION_DURATION_MINUTES,
+  isValidTimeZone,
+  MAX_SESSION_DURATION_MINUTES,
+  MIN_SESSION_DURATION_MINUTES,
+} from '@/utilities/sessionSchedule'
 
 export const LiveSessions: CollectionConfig = {
   slug: 'live-sessions',
   admin: {
     useAsTitle: 'title',
-    defaultColumns: ['title', 'joinCode', 'trainer', 'isActive', 'participantCount', 'startedAt'],
+    defaultColumns: ['title', 'joinCode', 'trainer', 'isActive', 'startedAt'],
     group: 'Live Coding',
   },
   fields: [
@@ -25,6 +38,13 @@ export const LiveSessions: CollectionConfig = {
         description: 'Session title (e.g., "Introduction to Python")',
       },
     },
+    {
+      name: 'description',
+      type: 'textarea',
+      admin: {
+        description: 'What the session covers; shown in the upcoming list and calendar feeds',
+      },
+    },
     {
       name: 'trainer',
       type: 'relationship',
@@ -38,6 +58,87 @@ export const LiveSessions: CollectionConfig = {
         description: 'Trainer/host conducting this session (can be trainer, manager, or admin)',
       },
     },
+    {
+      name: 'coHosts',
+      type: 'array',
+      admin: {
+        description:
+          'Co-hosts and teaching assistants. The trainer, managers and admins can always do everything.',
+      },
+      fields: [
+        {
+          name: 'user',
+          type: 'relationship',
+          relationTo: 'users',
+          required: true,
+        },
+        {
+          name: 'permissions',
+          type: 'select',
+          hasMany: true,
+          defaultValue: ['broadcast', 'monitor', 'helpQueue'],
+          options: [
+            { label: 'Broadcast code', value: 'broadcast' },
+            { label: 'Monitor students', value: 'monitor' },
+            { label: 'End the session', value: 'end' },
+            { label: 'Manage the help queue', value: 'helpQueue' },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'accessMode',
+      type: 'select',
+      defaultValue: 'open',
+      options: [
+        { label: 'Open to anyone with the join code', value: 'open' },
+        { label: 'Passcode', value: 'passcode' },
+        { label: 'Listed students and cohorts only', value: 'restricted' },
+        { label: 'Waiting room (the trainer admits people)', value: 'waitingRoom' },
+      ],
+      admin: {
+        description: 'Who may join. Students already in the session keep their place when this changes.',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'passcode',
+      type: 'text',
+      access: {
+        read: staffOnly,
+      },
+      admin: {
+        description: 'Students enter this after the join code',
+        position: 'sidebar',
+        condition: (data) => data?.accessMode === 'passcode',
+      },
+    },
+    {
+      name: 'allowedStudents',
+      type: 'relationship',
+      relationTo: 'users',
+      hasMany: true,
+      access: {
+        read: staffOnly,
+      },
+      admin: {
+        description: 'Students who may join a restricted session',
+        condition: (data) => data?.accessMode === 'restricted',
+      },
+    },
+    {
+      name: 'allowedCohorts',
+      type: 'relationship',
+      relationTo: 'cohorts',
+      hasMany: true,
+      access: {
+        read: staffOnly,
+      },
+      admin: {
+        description: 'Every student in these cohorts may join a restricted session',
+        condition: (data) => data?.accessMode === 'restricted',
+      },
+    },
     {
       name: 'language',
       type: 'relationship',
@@ -46,6 +147,10 @@ export const LiveSessions: CollectionConfig = {
         description: 'Programming language for this session',
       },
     },
+    executionLimits({
+      description: 'Override the language limits for runs in this session. Leave empty to use the language limits.',
+      overrides: { name: 'executionLimits' },
+    }),
     {
       name: 'isActive',
       type: 'checkbox',
@@ -58,6 +163,10 @@ export const LiveSessions: CollectionConfig = {
     {
       name: 'currentCode',
       type: 'code',
+      // Students get the broadcast through /api/sessions/[code]/live, which checks their access
+      access: {
+        read: staffOnly,
+      },
       admin: {
         language: 'javascript',
         description: 'Current code being broadcast to students',
@@ -66,47 +175,108 @@ export const LiveSessions: CollectionConfig = {
     {
       name: 'currentOutput',
       type: 'json',
+      access: {
+        read: staffOnly,
+      },
       admin: {
         description: 'Output from the last code execution',
       },
     },
     {
-      name: 'participantCount',
-      type: 'number',
-      defaultValue: 0,
+      name: 'startedAt',
+      type: 'date',
       admin: {
-        description: 'Number of students currently in session',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        description: 'When the session started',
         position: 'sidebar',
       },
     },
     {
-      name: 'startedAt',
+      name: 'endedAt',
       type: 'date',
       admin: {
         date: {
           pickerAppearance: 'dayAndTime',
         },
-        description: 'When the session started',
+        description: 'When the session ended',
         position: 'sidebar',
       },
     },
     {
-      name: 'endedAt',
+      name: 'pausedAt',
       type: 'date',
       admin: {
         date: {
           pickerAppearance: 'dayAndTime',
         },
-        description: 'When the session ended',
+        description: 'Start of the current break; empty while the session is running',
         position: 'sidebar',
       },
     },
     {
-      name: 'studentScratchpads',
-      type: 'json',
+      name: 'resumeAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        description: 'When the trainer said the break ends (shown to students)',
+        position: 'sidebar',
+        condition: (data) => !!data?.pausedAt,
+      },
+    },
+    {
+      name: 'pausedSeconds',
+      type: 'number',
+      defaultValue: 0,
       admin: {
-        description: 'Student scratchpad code (userId -> {code, language, updatedAt})',
-        hidden: true, // Hide from admin UI, managed via API
+        description: 'Total length of finished breaks; not counted towards the 24-hour expiry',
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'chatSlowModeSeconds',
+      type: 'number',
+      defaultValue: 0,
+      min: 0,
+      admin: {
+        description: 'Students wait this long between chat messages (0 turns slow mode off)',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'scheduledStart',
+      type: 'date',
+      index: true,
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        description: 'Planned start for scheduled sessions. The session goes live when the trainer opens it.',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'durationMinutes',
+      type: 'number',
+      min: MIN_SESSION_DURATION_MINUTES,
+      max: MAX_SESSION_DURATION_MINUTES,
+      admin: {
+        description: `Planned length in minutes (default ${DEFAULT_SESSION_DURATION_MINUTES})`,
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'timezone',
+      type: 'text',
+      validate: (value: string | null | undefined) =>
+        !value || isValidTimeZone(value) || 'Use an IANA time zone, e.g. Asia/Kolkata',
+      admin: {
+        description: 'Time zone the session was scheduled in (e.g. Asia/Kolkata)',
+        position: 'sidebar',
       },
     },
     {
@@ -126,9 +296,17 @@ export const LiveSessions: CollectionConfig = {
       },
     },
   ],
+  hooks: {
+    afterChange: [publishLiveSessionEvents, recordSessionSnapshot],
+  },
   access: {
-    // Anyone can read active sessions (to join)
-    read: () => true,
+    // Staff can read every session; students open sessions and the ones they joined.
+    // Joining goes through /api/sessions/[code]/join, which checks the access mode.
+    read: staffOr(async (userId, req) => {
+      const open: Where = { accessMode: { equals: 'open' } }
+      const joined = await joinedSessionIds(req.payload, userId)
+      return joined.length > 0 ? { or: [open, { id: { in: joined } }] } : open
+    }),
     // Only trainers, managers, or admins can create sessions
     create: ({ req }) => {
       if (!req.user) return false
@@ -0,0 +1,37 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly } from '@/access/adminOnly'
+import { staffOnly } from '@/access/staffOnly'
+
+export const PasscodeAttempts: CollectionConfig = {
+  slug: 'passcode-attempts',
+  admin: {
+    defaultColumns: ['session', 'user', 'createdAt'],
+    group: 'Live Coding',
+    description:
+      'Wrong passcodes entered when joining passcode sessions; too many lock the student out for a while (written by the join route)',
+  },
+  defaultSort: '-createdAt',
+  fields: [
+    {
+      name: 'session',
+      type: 'relationship',
+      relationTo: 'live-sessions',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'user',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+      index: true,
+    },
+  ],
+  access: {
+    read: staffOnly,
+    // Written by the /api/sessions/[code]/join route only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+}
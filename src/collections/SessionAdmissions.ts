@@ -0,0 +1,80 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly } from '@/access/adminOnly'
+import { staffOr } from '@/access/staffOr'
+
+import { publishAdmissionChange, publishAdmissionWithdrawn } from '@/hooks/publishAdmissionChanges'
+
+export const SessionAdmissions: CollectionConfig = {
+  slug: 'session-admissions',
+  admin: {
+    defaultColumns: ['session', 'user', 'status', 'createdAt', 'decidedAt'],
+    group: 'Live Coding',
+    description:
+      'Students asking to join waiting-room sessions, and the trainer’s answer (written by the session routes)',
+  },
+  defaultSort: 'createdAt',
+  indexes: [
+    {
+      fields: ['session', 'user'],
+      unique: true,
+    },
+  ],
+  fields: [
+    {
+      name: 'session',
+      type: 'relationship',
+      relationTo: 'live-sessions',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'user',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      defaultValue: 'waiting',
+      index: true,
+      options: [
+        { label: 'Waiting', value: 'waiting' },
+        { label: 'Admitted', value: 'admitted' },
+        { label: 'Denied', value: 'denied' },
+      ],
+    },
+    {
+      name: 'decidedAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'decidedBy',
+      type: 'relationship',
+      relationTo: 'users',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+  ],
+  hooks: {
+    afterChange: [publishAdmissionChange],
+    afterDelete: [publishAdmissionWithdrawn],
+  },
+  access: {
+    // Staff can see every request; students only their own
+    read: staffOr((userId) => ({ user: { equals: userId } })),
+    // Written by the /api/sessions/[code] join and admissions routes only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+}
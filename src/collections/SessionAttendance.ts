@@ -0,0 +1,67 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly } from '@/access/adminOnly'
+import { staffOr } from '@/access/staffOr'
+
+export const SessionAttendance: CollectionConfig = {
+  slug: 'session-attendance',
+  admin: {
+    defaultColumns: ['session', 'user', 'kind', 'at'],
+    group: 'Live Coding',
+    description:
+      'Join, leave and heartbeat events of students in live sessions, for attendance reports (written by the session routes)',
+  },
+  defaultSort: '-at',
+  indexes: [
+    {
+      fields: ['session', 'user', 'at'],
+    },
+  ],
+  fields: [
+    {
+      name: 'session',
+      type: 'relationship',
+      relationTo: 'live-sessions',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'user',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'kind',
+      type: 'select',
+      required: true,
+      options: [
+        { label: 'Join', value: 'join' },
+        { label: 'Leave', value: 'leave' },
+        { label: 'Heartbeat', value: 'heartbeat' },
+      ],
+      admin: {
+        description: 'Heartbeats are sent about once a minute while the session page is open',
+      },
+    },
+    {
+      name: 'at',
+      type: 'date',
+      required: true,
+      index: true,
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+  ],
+  access: {
+    // Staff can see every event; students only their own
+    read: staffOr((userId) => ({ user: { equals: userId } })),
+    // Written by the /api/sessions/[code] join, leave and heartbeat routes only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+}
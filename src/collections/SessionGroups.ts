@@ -0,0 +1,116 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly } from '@/access/adminOnly'
+import { staffOr } from '@/access/staffOr'
+
+import { publishGroupChange } from '@/hooks/publishGroupChanges'
+
+export const SessionGroups: CollectionConfig = {
+  slug: 'session-groups',
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'session', 'members', 'closedAt', 'createdAt'],
+    group: 'Live Coding',
+    description:
+      'Breakout groups of live sessions, each with a shared scratchpad (written by the session routes)',
+  },
+  defaultSort: 'createdAt',
+  fields: [
+    {
+      name: 'session',
+      type: 'relationship',
+      relationTo: 'live-sessions',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+    },
+    {
+      name: 'members',
+      type: 'relationship',
+      relationTo: 'users',
+      hasMany: true,
+      index: true,
+    },
+    {
+      name: 'code',
+      type: 'code',
+      admin: {
+        language: 'javascript',
+        description: 'Shared group scratchpad',
+      },
+    },
+    {
+      name: 'language',
+      type: 'text',
+      admin: {
+        description: 'Language slug of the scratchpad (see the language registry)',
+      },
+    },
+    {
+      name: 'codeUpdatedAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'codeUpdatedBy',
+      type: 'relationship',
+      relationTo: 'users',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'broadcastCode',
+      type: 'code',
+      admin: {
+        language: 'javascript',
+        description: 'Code the trainer sent to this group only',
+      },
+    },
+    {
+      name: 'broadcastLanguage',
+      type: 'text',
+    },
+    {
+      name: 'broadcastAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'closedAt',
+      type: 'date',
+      index: true,
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        description: 'Set when the trainer brings everyone back together',
+        position: 'sidebar',
+      },
+    },
+  ],
+  hooks: {
+    afterChange: [publishGroupChange],
+  },
+  access: {
+    // Staff can see every group; students only the groups they are in
+    read: staffOr((userId) => ({ members: { in: [userId] } })),
+    // Written by the /api/sessions/[code]/groups routes only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+}
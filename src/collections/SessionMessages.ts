@@ -0,0 +1,106 @@
+import type { CollectionConfig, Where } from 'payload'
+import { adminOnly } from '@/access/adminOnly'
+import { staffOrJoinedSession } from '@/access/staffOrJoinedSession'
+
+import { publishChatMessage } from '@/hooks/publishChatChanges'
+
+export const SessionMessages: CollectionConfig = {
+  slug: 'session-messages',
+  admin: {
+    defaultColumns: ['session', 'sender', 'visibility', 'body', 'createdAt'],
+    group: 'Live Coding',
+    description:
+      'Chat messages of live sessions: public messages and private student-trainer threads (written by the session routes)',
+  },
+  defaultSort: '-createdAt',
+  fields: [
+    {
+      name: 'session',
+      type: 'relationship',
+      relationTo: 'live-sessions',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'sender',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+    },
+    {
+      name: 'visibility',
+      type: 'select',
+      required: true,
+      defaultValue: 'public',
+      options: [
+        { label: 'Everyone in the session', value: 'public' },
+        { label: 'Student and trainers only', value: 'private' },
+      ],
+    },
+    {
+      name: 'thread',
+      type: 'relationship',
+      relationTo: 'users',
+      index: true,
+      admin: {
+        description: 'Student whose private conversation with the trainers this belongs to',
+        condition: (data) => data?.visibility === 'private',
+      },
+    },
+    {
+      name: 'body',
+      type: 'textarea',
+    },
+    {
+      name: 'code',
+      type: 'code',
+      admin: {
+        language: 'javascript',
+        description: 'Code block sent with the message',
+      },
+    },
+    {
+      name: 'language',
+      type: 'text',
+      admin: {
+        description: 'Language slug of the code block (see the language registry)',
+      },
+    },
+    {
+      name: 'deletedAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        description: 'Set when a trainer removes the message; it stays in the export as removed',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'deletedBy',
+      type: 'relationship',
+      relationTo: 'users',
+      admin: {
+        position: 'sidebar',
+        condition: (data) => !!data?.deletedAt,
+      },
+    },
+  ],
+  hooks: {
+    afterChange: [publishChatMessage],
+  },
+  access: {
+    // Staff can see every message; students public ones and their own private thread,
+    // in sessions they joined
+    read: staffOrJoinedSession(
+      (userId): Where => ({
+        or: [{ visibility: { equals: 'public' } }, { thread: { equals: userId } }],
+      }),
+    ),
+    // Written by the /api/sessions/[code]/chat routes only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+}
@@ -0,0 +1,144 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly } from '@/access/adminOnly'
+import { staffOr } from '@/access/staffOr'
+
+import { publishChatMute } from '@/hooks/publishChatChanges'
+
+export const SessionParticipants: CollectionConfig = {
+  slug: 'session-participants',
+  admin: {
+    defaultColumns: ['session', 'user', 'language', 'joinedAt', 'leftAt', 'lastSeenAt'],
+    group: 'Live Coding',
+    description:
+      'One entry per student per live session: their scratchpad and presence (written by the session routes)',
+  },
+  defaultSort: '-lastSeenAt',
+  indexes: [
+    {
+      fields: ['session', 'user'],
+      unique: true,
+    },
+  ],
+  fields: [
+    {
+      name: 'session',
+      type: 'relationship',
+      relationTo: 'live-sessions',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'user',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'code',
+      type: 'code',
+      admin: {
+        language: 'javascript',
+        description: 'Latest code shared by the student',
+      },
+    },
+    {
+      name: 'language',
+      type: 'text',
+      defaultValue: 'javascript',
+      admin: {
+        description: 'Language slug of the code (see the language registry)',
+      },
+    },
+    {
+      name: 'output',
+      type: 'json',
+      admin: {
+        description: "Output of the student's last run",
+      },
+    },
+    {
+      name: 'workspaceFileId',
+      type: 'text',
+      admin: {
+        description: 'Workspace file the student is working in',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'workspaceFileName',
+      type: 'text',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'joinedAt',
+      type: 'date',
+      required: true,
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'leftAt',
+      type: 'date',
+      index: true,
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        description: 'Set when the student leaves; cleared when they join again',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'lastSeenAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        description: 'Last join or recorded heartbeat',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'chatMutedAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        description: 'Set while a trainer has muted the student in the session chat',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'lastMessageAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        description: "The student's last chat message; chat slow mode counts from here",
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+  ],
+  hooks: {
+    afterChange: [publishChatMute],
+  },
+  access: {
+    // Staff can see every participant; students only their own entries
+    read: staffOr((userId) => ({ user: { equals: userId } })),
+    // Written by the /api/sessions/[code] routes only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+}
@@ -0,0 +1,64 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly } from '@/access/adminOnly'
+import { staffOnly } from '@/access/staffOnly'
+
+import { publishPollAnswer } from '@/hooks/publishPollChanges'
+
+export const SessionPollAnswers: CollectionConfig = {
+  slug: 'session-poll-answers',
+  admin: {
+    defaultColumns: ['poll', 'user', 'optionIndex', 'correct', 'updatedAt'],
+    group: 'Live Coding',
+    description:
+      'Student answers to session polls, one entry per student and poll; answering again replaces it (written by the session routes)',
+  },
+  defaultSort: 'createdAt',
+  indexes: [
+    {
+      fields: ['poll', 'user'],
+      unique: true,
+    },
+  ],
+  fields: [
+    {
+      name: 'poll',
+      type: 'relationship',
+      relationTo: 'session-polls',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'user',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'optionIndex',
+      type: 'number',
+    },
+    {
+      name: 'answer',
+      type: 'textarea',
+    },
+    {
+      name: 'correct',
+      type: 'checkbox',
+      admin: {
+        description: 'Empty when the question has no correct answer',
+      },
+    },
+  ],
+  hooks: {
+    afterChange: [publishPollAnswer],
+  },
+  access: {
+    // Staff only, like session-polls: students see their answer through GET /api/sessions/[code]/polls
+    read: staffOnly,
+    // Written by POST /api/sessions/[code]/polls/[id]/responses only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+}
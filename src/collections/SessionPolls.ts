@@ -0,0 +1,156 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly } from '@/access/adminOnly'
+import { staffOnly } from '@/access/staffOnly'
+
+import { publishPollChanges } from '@/hooks/publishPollChanges'
+
+export const SessionPolls: CollectionConfig = {
+  slug: 'session-polls',
+  admin: {
+    useAsTitle: 'question',
+    defaultColumns: ['question', 'session', 'kind', 'status', 'openedAt'],
+    group: 'Live Coding',
+    description:
+      'Quiz questions and polls run during live sessions; answers are in session-poll-answers (written by the session routes)',
+  },
+  defaultSort: '-openedAt',
+  fields: [
+    {
+      name: 'session',
+      type: 'relationship',
+      relationTo: 'live-sessions',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'createdBy',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+    },
+    {
+      name: 'kind',
+      type: 'select',
+      required: true,
+      options: [
+        { label: 'Multiple choice', value: 'multiple_choice' },
+        { label: 'Short answer', value: 'short_answer' },
+        { label: 'Predict the output', value: 'predict_output' },
+      ],
+    },
+    {
+      name: 'question',
+      type: 'textarea',
+      required: true,
+    },
+    {
+      name: 'code',
+      type: 'code',
+      admin: {
+        language: 'javascript',
+        description:
+          'Code shown with the question, e.g. the trainer broadcast for "predict the output"',
+      },
+    },
+    {
+      name: 'language',
+      type: 'text',
+      admin: {
+        description: 'Language slug of the code (see the language registry)',
+      },
+    },
+    {
+      name: 'options',
+      type: 'array',
+      admin: {
+        description: 'Choices of a multiple-choice question, in display order',
+        condition: (data) => data?.kind === 'multiple_choice',
+      },
+      fields: [
+        {
+          name: 'text',
+          type: 'text',
+          required: true,
+        },
+      ],
+    },
+    {
+      name: 'correctOption',
+      type: 'number',
+      min: 0,
+      admin: {
+        description: 'Index of the correct choice (0-based); empty for an opinion poll',
+        condition: (data) => data?.kind === 'multiple_choice',
+      },
+    },
+    {
+      name: 'expectedAnswer',
+      type: 'textarea',
+      admin: {
+        description:
+          'Correct text answer, compared ignoring surrounding and trailing whitespace; empty when any answer goes',
+        condition: (data) => data?.kind !== 'multiple_choice',
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      defaultValue: 'open',
+      options: [
+        { label: 'Open', value: 'open' },
+        { label: 'Closed', value: 'closed' },
+      ],
+      admin: {
+        description: 'A poll also stops taking answers once its countdown runs out',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'openedAt',
+      type: 'date',
+      required: true,
+      index: true,
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'closesAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        description: 'End of the countdown; empty for no time limit',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'closedAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        description: 'When the trainer closed the poll early',
+        position: 'sidebar',
+      },
+    },
+  ],
+  hooks: {
+    afterChange: [publishPollChanges],
+  },
+  access: {
+    // Staff only; students get their view through GET /api/sessions/[code]/polls,
+    // which hides the correct answer and other students' answers while the poll runs
+    read: staffOnly,
+    // Written by the /api/sessions/[code]/polls routes only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+}
@@ -0,0 +1,80 @@
+import type { CollectionConfig } from 'payload'
+import { adminOnly } from '@/access/adminOnly'
+import { staffOnly } from '@/access/staffOnly'
+
+export const SessionSnapshots: CollectionConfig = {
+  slug: 'session-snapshots',
+  admin: {
+    useAsTitle: 'workspaceFileName',
+    defaultColumns: ['session', 'workspaceFileName', 'language', 'capturedAt'],
+    group: 'Live Coding',
+    description: 'Every trainer broadcast of a live session, for replay (recorded by the server)',
+  },
+  defaultSort: '-capturedAt',
+  fields: [
+    {
+      name: 'session',
+      type: 'relationship',
+      relationTo: 'live-sessions',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'code',
+      type: 'code',
+      admin: {
+        language: 'javascript',
+        description: 'Code the trainer broadcast',
+      },
+    },
+    {
+      name: 'language',
+      type: 'text',
+      admin: {
+        description: 'Language slug of the code (see the language registry)',
+      },
+    },
+    {
+      name: 'output',
+      type: 'json',
+      admin: {
+        description: 'Output broadcast with the code, if any',
+      },
+    },
+    {
+      name: 'workspaceFileId',
+      type: 'text',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'workspaceFileName',
+      type: 'text',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'capturedAt',
+      type: 'date',
+      required: true,
+      index: true,
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+          displayFormat: 'd MMM yyyy HH:mm:ss',
+        },
+        position: 'sidebar',
+      },
+    },
+  ],
+  access: {
+    // Students replay through GET /api/sessions/[code]/snapshots
+    read: staffOnly,
+    // Recorded by the live-sessions collection only
+    create: () => false,
+    update: () => false,
+    delete: adminOnly,
+  },
+}
@@ -187,6 +187,19 @@ export const Users: CollectionConfig = {
         description: 'Temporarily grant access to this student, overriding all other access rules',
       },
     },
+    {
+      name: 'calendarToken',
+      type: 'text',
+      index: true,
+      access: {
+        // Secret for the calendar feed URL; managed through /api/calendar
+        read: ({ req }) => req.user?.role === 'admin',
+        update: () => false,
+      },
+      admin: {
+        hidden: true,
+      },
+    },
   ],
   hooks: {
     beforeChange: [
@@ -0,0 +1,80 @@
+'use client'
+
+import React from 'react'
+import { Download } from 'lucide-react'
+import type { StudentAttendance } from '@/services/attendance'
+import { cn } from '@/utilities/ui'
+
+/** Date and time in the viewer's locale, or an em dash */
+export function formatAttendanceTime(iso: string | null): string {
+  if (!iso) return '—'
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+interface MinAttendanceInputProps {
+  /** Empty uses the platform default */
+  value: string
+  defaultPercent: number | null
+  onChange: (value: string) => void
+}
+
+/** Minimum share of the session a student must attend; overrides the platform setting */
+export function MinAttendanceInput({ value, defaultPercent, onChange }: MinAttendanceInputProps) {
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <span className="text-muted-foreground">Minimum attendance</span>
+      <input
+        type="number"
+        min="0"
+        max="100"
+        value={value}
+        placeholder={defaultPercent === null ? '' : String(defaultPercent)}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-20 rounded-lg border bg-background px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary"
+      />
+      <span className="text-muted-foreground">%</span>
+    </label>
+  )
+}
+
+export function CsvDownloadLink({ href }: { href: string }) {
+  return (
+    <a
+      href={href}
+      className="flex items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium transition-colors hover:bg-accent"
+    >
+      <Download className="h-4 w-4" />
+      Export CSV
+    </a>
+  )
+}
+
+export function AttendancePercent({ attendance }: { attendance: StudentAttendance }) {
+  return (
+    <div className="flex items-center gap-2">
+      <span
+        className={cn(
+          'inline-flex items-center rounded-full px-2 py-1 text-xs font-medium',
+          attendance.meetsThreshold
+            ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+            : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+        )}
+      >
+        {attendance.percent}%
+      </span>
+      <span className="text-sm text-muted-foreground">{attendance.attendedMinutes} min</span>
+    </div>
+  )
+}
+
+/** Late arrival and early departure, or "On time" */
+export function Punctuality({ attendance }: { attendance: StudentAttendance }) {
+  const notes: string[] = []
+  if (attendance.lateMinutes > 0) notes.push(`${attendance.lateMinutes} min late`)
+  if (attendance.leftEarlyMinutes) notes.push(`left ${attendance.leftEarlyMinutes} min early`)
+  if (attendance.visits > 1) notes.push(`${attendance.visits} visits`)
+
+  if (attendance.visits === 0) return <span className="text-sm text-muted-foreground">Absent</span>
+  if (notes.length === 0) return <span className="text-sm text-muted-foreground">On time</span>
+  return <span className="text-sm text-amber-600 dark:text-amber-400">{notes.join(', ')}</span>
+}
@@ -8,6 +8,7 @@ import {
   Users, 
   DollarSign, 
   FolderTree, 
+  CalendarCheck,
   Settings 
 } from 'lucide-react'
 import type { User } from '@/payload-types'
@@ -30,6 +31,7 @@ const navItems: NavItem[] = [
   { label: 'Users', href: '/dashboard/users', icon: Users },
   { label: 'Fees', href: '/dashboard/fees', icon: DollarSign, requiresFullAccess: true },
   { label: 'Workspaces', href: '/dashboard/workspaces', icon: FolderTree },
+  { label: 'Attendance', href: '/dashboard/attendance', icon: CalendarCheck },
   { label: 'Settings', href: '/dashboard/settings', icon: Settings, requiresFullAccess: true },
 ]
 
@@ -3,6 +3,20 @@
 import React, { useState } from 'react'
 import { Plus, X } from 'lucide-react'
 
+interface ExecutionRateLimit {
+  role: 'admin' | 'manager' | 'trainer' | 'student' | 'guest'
+  runsPerMinute?: number | null
+  runsPerDay?: number | null
+}
+
+const RATE_LIMIT_ROLES: Array<{ value: ExecutionRateLimit['role']; label: string }> = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'manager', label: 'Manager' },
+  { value: 'trainer', label: 'Trainer' },
+  { value: 'student', label: 'Student' },
+  { value: 'guest', label: 'Guest (not signed in)' },
+]
+
 interface PlatformSettings {
   trialDays?: number
   autoExtendTrial?: boolean
@@ -15,6 +29,8 @@ interface PlatformSettings {
   maintenanceMode?: boolean
   allowAllStudentsDuringMaintenance?: boolean
   maxInstallmentsPerFee?: number | null
+  minAttendancePercent?: number | null
+  executionRateLimits?: ExecutionRateLimit[]
 }
 
 interface SettingsFormProps {
@@ -315,6 +331,100 @@ export function SettingsForm({ settings, activeTab, onChange }: SettingsFormProp
                 Maximum installments allowed per fee record (optional, leave empty for no limit)
               </p>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Minimum Attendance (%)
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={settings.minAttendancePercent ?? 75}
+                onChange={(e) => {
+                  const value = e.target.value === '' ? null : parseInt(e.target.value, 10)
+                  onChange('minAttendancePercent', value)
+                }}
+                className="w-full rounded-md border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Share of a live session a student must attend to count as present in attendance reports
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Code Execution Limits
+              </label>
+              <div className="space-y-2">
+                {(settings.executionRateLimits || []).map((rateLimit, index) => {
+                  const updateRow = (patch: Partial<ExecutionRateLimit>) => {
+                    const newLimits = [...(settings.executionRateLimits || [])]
+                    newLimits[index] = { ...rateLimit, ...patch }
+                    onChange('executionRateLimits', newLimits)
+                  }
+                  const parseLimit = (value: string) => (value === '' ? null : parseInt(value, 10) || null)
+
+                  return (
+                    <div key={index} className="flex gap-2">
+                      <select
+                        value={rateLimit.role}
+                        onChange={(e) => updateRow({ role: e.target.value as ExecutionRateLimit['role'] })}
+                        className="flex-1 rounded-md border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                      >
+                        {RATE_LIMIT_ROLES.map((role) => (
+                          <option key={role.value} value={role.value}>
+                            {role.label}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="1"
+                        placeholder="Runs / minute"
+                        value={rateLimit.runsPerMinute ?? ''}
+                        onChange={(e) => updateRow({ runsPerMinute: parseLimit(e.target.value) })}
+                        className="flex-1 rounded-md border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                      />
+                      <input
+                        type="number"
+                        min="1"
+                        placeholder="Runs / day"
+                        value={rateLimit.runsPerDay ?? ''}
+                        onChange={(e) => updateRow({ runsPerDay: parseLimit(e.target.value) })}
+                        className="flex-1 rounded-md border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                      />
+                      <button
+                        onClick={() => {
+                          const newLimits = [...(settings.executionRateLimits || [])]
+                          newLimits.splice(index, 1)
+                          onChange('executionRateLimits', newLimits)
+                        }}
+                        className="rounded-md border p-2 text-destructive hover:bg-destructive/10"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )
+                })}
+                <button
+                  onClick={() => {
+                    const newLimits = [
+                      ...(settings.executionRateLimits || []),
+                      { role: 'student' as const, runsPerMinute: null, runsPerDay: null },
+                    ]
+                    onChange('executionRateLimits', newLimits)
+                  }}
+                  className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm font-medium hover:bg-accent"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Role Limit
+                </button>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Max code runs per user in any minute / 24 hours, by role. Empty = no limit; roles without a row are not limited.
+              </p>
+            </div>
           </div>
         </div>
       </div>
@@ -2,9 +2,11 @@
 
 import React, { useState, useRef, useCallback, useEffect } from 'react'
 import Editor, { useMonaco } from '@monaco-editor/react'
-import { Play, Square, ChevronDown, ChevronUp, Sparkles, ZoomIn, ZoomOut } from 'lucide-react'
+import { Play, Square, ChevronDown, ChevronUp, Sparkles, Wand, ZoomIn, ZoomOut } from 'lucide-react'
 import { LiveCodePlaygroundProps, SUPPORTED_LANGUAGES } from './types'
 import { useTheme } from '@/providers/Theme'
+import { useCodeDiagnostics } from '@/hooks/useCodeDiagnostics'
+import { canFormat, formatCode } from '@/services/editorTools'
 import { parseErrorLocation } from '@/utilities/aiAssistant'
 
 export function LiveCodePlayground({
@@ -24,6 +26,7 @@ export function LiveCodePlayground({
   allowRunInReadOnly = false,
   runButtonLabel = 'Run',
   hideLanguageInToolbar = false,
+  codeTools = !readOnly,
 }: LiveCodePlaygroundProps) {
   const editorRef = useRef<any>(null)
   const containerRef = useRef<HTMLDivElement>(null)
@@ -32,6 +35,9 @@ export function LiveCodePlayground({
   const [showInput, setShowInput] = useState(false)
   const [input, setInput] = useState('')
   const [fontSize, setFontSize] = useState<number>(14)
+  const [formatting, setFormatting] = useState(false)
+  const [formatError, setFormatError] = useState<string | null>(null)
+  const formatHandlerRef = useRef<() => void>(() => {})
   const monaco = useMonaco()
   const { theme: appTheme } = useTheme()
 
@@ -56,6 +62,71 @@ export function LiveCodePlayground({
     runHandlerRef.current = handleRun
   }, [handleRun])
 
+  // Format through /api/format; applied as an edit so Ctrl+Z restores the original
+  const formatEnabled = codeTools && !readOnly && canFormat(language)
+  const handleFormat = useCallback(async () => {
+    const editor = editorRef.current
+    const model = editor?.getModel?.()
+    if (!formatEnabled || formatting || !model) return
+
+    setFormatting(true)
+    setFormatError(null)
+    const result = await formatCode(language, editor.getValue())
+    setFormatting(false)
+
+    if (!result.ok) {
+      setFormatError(result.error)
+      return
+    }
+    if (result.code !== editor.getValue()) {
+      editor.pushUndoStop()
+      editor.executeEdits('format', [{ range: model.getFullModelRange(), text: result.code }])
+      editor.pushUndoStop()
+    }
+  }, [formatEnabled, formatting, language])
+
+  useEffect(() => {
+    formatHandlerRef.current = handleFormat
+  }, [handleFormat])
+
+  // Hide the format error after a few seconds
+  useEffect(() => {
+    if (!formatError) return
+    const timer = setTimeout(() => setFormatError(null), 5000)
+    return () => clearTimeout(timer)
+  }, [formatError])
+
+  // Lint markers from /api/lint (separate owner from the compile-error markers below)
+  const diagnostics = useCodeDiagnostics(language, code, codeTools && !readOnly)
+  useEffect(() => {
+    const model = editorRef.current?.getModel?.()
+    if (!monaco || !model) return
+
+    const severities = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+      info: monaco.MarkerSeverity.Info,
+    }
+    monaco.editor.setModelMarkers(
+      model,
+      'lint',
+      diagnostics.map((diagnostic) => ({
+        startLineNumber: diagnostic.line,
+        startColumn: diagnostic.column,
+        endLineNumber: diagnostic.endLine,
+        // Zero-length ranges (e.g. "expected ;") still need a visible squiggle
+        endColumn:
+          diagnostic.endLine === diagnostic.line && diagnostic.endColumn <= diagnostic.column
+            ? diagnostic.column + 1
+            : diagnostic.endColumn,
+        message: diagnostic.message,
+        severity: severities[diagnostic.severity],
+        source: diagnostic.source,
+        code: diagnostic.code,
+      })),
+    )
+  }, [diagnostics, monaco])
+
   const runGuardRef = useRef({ readOnly, allowRunInReadOnly, executing, runDisabled })
   runGuardRef.current = { readOnly, allowRunInReadOnly, executing, runDisabled }
 
@@ -75,6 +146,15 @@ export function LiveCodePlayground({
           },
         )
 
+      // Shift+Alt+F: server-side formatter (replaces Monaco's built-in one)
+      editor.addAction({
+        id: 'codehub.format',
+        label: 'Format Document',
+        // eslint-disable-next-line no-bitwise
+        keybindings: [(monaco as any).KeyMod.Shift | (monaco as any).KeyMod.Alt | (monaco as any).KeyCode.KeyF],
+        run: () => formatHandlerRef.current(),
+      })
+
       // Disable copy/select when readOnly
       if (readOnly) {
         // Disable all copy shortcuts
@@ -367,6 +447,22 @@ export function LiveCodePlayground({
             </button>
           </div>
 
+          {/* Format Button */}
+          {formatEnabled && (
+            <button
+              type="button"
+              onClick={handleFormat}
+              disabled={formatting}
+              className="flex items-center gap-1 rounded-md px-2 py-1 text-xs hover:bg-accent transition-colors disabled:opacity-50"
+              title={formatError || 'Format code (Shift+Alt+F)'}
+            >
+              <Wand className="h-3 w-3" />
+              <span className={formatError ? 'text-destructive' : undefined}>
+                {formatting ? 'Formatting...' : formatError ? 'Format failed' : 'Format'}
+              </span>
+            </button>
+          )}
+
           {/* Input Toggle */}
           <button
             type="button"
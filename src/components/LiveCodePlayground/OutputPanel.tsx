@@ -1,17 +1,28 @@
 "use client"
 
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { X, CheckCircle2, AlertCircle, Clock, ZoomIn, ZoomOut } from 'lucide-react'
+import type { InteractiveRunControls } from '@/hooks/useCodeExecution'
 import type { ExecutionResult } from '@/services/codeExecution'
 
 interface OutputPanelProps {
   result: ExecutionResult | null
   executing: boolean
   onClear?: () => void
+  /** Show the "Interactive" toggle and let the user type while their program runs */
+  interactive?: InteractiveRunControls
 }
 
-export function OutputPanel({ result, executing, onClear }: OutputPanelProps) {
+export function OutputPanel({ result, executing, onClear, interactive }: OutputPanelProps) {
   const [fontSize, setFontSize] = useState<number>(12)
+  const [inputLine, setInputLine] = useState('')
+  const inputRef = useRef<HTMLInputElement>(null)
+  const acceptingInput = !!interactive?.acceptingInput
+
+  // Focus the input line as soon as the program can read it
+  useEffect(() => {
+    if (acceptingInput) inputRef.current?.focus()
+  }, [acceptingInput])
 
   // Load persisted output font size
   useEffect(() => {
@@ -50,7 +61,40 @@ export function OutputPanel({ result, executing, onClear }: OutputPanelProps) {
     setFontSize((prev) => Math.max(10, prev - 1))
   }
 
-  if (executing) {
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!interactive) return
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      void interactive.sendInput(inputLine)
+      setInputLine('')
+    } else if (event.key === 'd' && event.ctrlKey) {
+      event.preventDefault()
+      void interactive.closeInput()
+    }
+  }
+
+  const interactiveToggle = interactive && (
+    <label
+      className="flex items-center gap-1 text-[10px] text-muted-foreground"
+      title="Keep stdin open so you can type while the program runs (the Input panel is sent first)"
+    >
+      <input
+        type="checkbox"
+        className="h-3 w-3"
+        checked={interactive.enabled}
+        disabled={executing}
+        onChange={(event) => interactive.setEnabled(event.target.checked)}
+      />
+      Interactive
+    </label>
+  )
+
+  // Streamed runs fill `result` while executing; show the spinner until output arrives.
+  // Interactive runs may wait for input before printing anything, so show the console at once.
+  const streaming =
+    executing && (!!interactive?.enabled || (!!result && !!(result.stdout || result.stderr)))
+
+  if (executing && !streaming) {
     return (
       <div className="flex h-full flex-col items-center justify-center gap-3 p-6 text-sm text-muted-foreground">
         <div className="h-8 w-8 animate-spin rounded-full border-4 border-muted border-t-primary" />
@@ -59,37 +103,47 @@ export function OutputPanel({ result, executing, onClear }: OutputPanelProps) {
     )
   }
 
-  if (!result) {
+  if (!result && !streaming) {
     return (
       <div className="flex h-full items-center justify-center p-6 text-center text-sm text-muted-foreground">
         <div className="space-y-2">
           <div className="text-4xl opacity-20">▶️</div>
           <p>Click &quot;Run&quot; to execute your code</p>
           <p className="text-xs">Powered by OneCompiler</p>
+          {interactiveToggle && <div className="flex justify-center pt-1">{interactiveToggle}</div>}
         </div>
       </div>
     )
   }
 
-  const hasOutput = result.stdout || result.stderr
-  const isSuccess = result.status === 'success' && !result.stderr
+  const current: ExecutionResult = result ?? { stdout: '', stderr: '', status: 'success' }
+  const transcript = interactive?.enabled ? interactive.transcript : []
+  const showConsole = !!interactive?.enabled && (executing || transcript.length > 0)
+  const hasOutput = current.stdout || current.stderr || showConsole
+  const isSuccess = current.status === 'success' && !current.stderr
 
   return (
     <div className="flex h-full flex-col overflow-hidden">
       {/* Header */}
       <div className="flex items-center justify-between border-b bg-muted/10 px-3 py-1.5">
         <div className="flex items-center gap-2">
-          {isSuccess ? (
+          {streaming ? (
+            <div className="h-3.5 w-3.5 animate-spin rounded-full border-2 border-muted border-t-primary" />
+          ) : isSuccess ? (
             <CheckCircle2 className="h-3.5 w-3.5 text-success" />
           ) : (
             <AlertCircle className="h-3.5 w-3.5 text-destructive" />
           )}
           <span className="text-xs font-medium">
-            {isSuccess ? 'Success' : getStatusLabel(result.status)}
+            {streaming ? 'Running...' : isSuccess ? 'Success' : getStatusLabel(current)}
           </span>
         </div>
 
         <div className="flex items-center gap-2">
+          {interactiveToggle && (
+            <div className="flex items-center border-r pr-2 mr-1">{interactiveToggle}</div>
+          )}
+
           {/* Zoom Controls */}
           <div className="flex items-center gap-1 border-r pr-2 mr-1">
             <button
@@ -113,13 +167,13 @@ export function OutputPanel({ result, executing, onClear }: OutputPanelProps) {
             </button>
           </div>
 
-          {result.executionTime !== undefined && (
+          {current.executionTime !== undefined && (
             <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
               <Clock className="h-3 w-3" />
-              <span>{result.executionTime.toFixed(2)}s</span>
+              <span>{current.executionTime.toFixed(2)}s</span>
             </div>
           )}
-          {onClear && (
+          {onClear && !streaming && (
             <button
               type="button"
               onClick={onClear}
@@ -139,16 +193,67 @@ export function OutputPanel({ result, executing, onClear }: OutputPanelProps) {
             className="p-3 font-mono"
             style={{ fontSize: `${fontSize}px`, lineHeight: 1.4 }}
           >
-            {/* Standard Output */}
-            {result.stdout && (
-              <div className="whitespace-pre-wrap text-foreground">{result.stdout}</div>
-            )}
+            {showConsole ? (
+              <>
+                {/* Output and typed input, in the order they happened */}
+                {transcript.map((entry, index) => (
+                  <span
+                    key={index}
+                    className={`whitespace-pre-wrap ${
+                      entry.stream === 'stderr'
+                        ? 'text-destructive'
+                        : entry.stream === 'stdin'
+                          ? 'text-primary'
+                          : 'text-foreground'
+                    }`}
+                  >
+                    {entry.text}
+                  </span>
+                ))}
+                {executing && (
+                  <div className="mt-1 flex items-center gap-2">
+                    <span className="text-primary">&gt;</span>
+                    <input
+                      ref={inputRef}
+                      value={inputLine}
+                      onChange={(event) => setInputLine(event.target.value)}
+                      onKeyDown={handleInputKeyDown}
+                      disabled={!acceptingInput}
+                      placeholder={
+                        acceptingInput
+                          ? 'Type input, Enter to send, Ctrl+D for end of input'
+                          : 'Starting...'
+                      }
+                      className="flex-1 bg-transparent font-mono text-primary outline-none placeholder:text-muted-foreground"
+                      style={{ fontSize: `${fontSize}px` }}
+                      aria-label="Program input"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => void interactive?.closeInput()}
+                      disabled={!acceptingInput}
+                      className="rounded-md border px-1.5 py-0.5 text-[10px] hover:bg-accent disabled:opacity-50"
+                      title="Close input (Ctrl+D)"
+                    >
+                      EOF
+                    </button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <>
+                {/* Standard Output */}
+                {current.stdout && (
+                  <div className="whitespace-pre-wrap text-foreground">{current.stdout}</div>
+                )}
 
-            {/* Standard Error */}
-            {result.stderr && (
-              <div className="whitespace-pre-wrap text-destructive">
-                {result.stderr}
-              </div>
+                {/* Standard Error */}
+                {current.stderr && (
+                  <div className="whitespace-pre-wrap text-destructive">
+                    {current.stderr}
+                  </div>
+                )}
+              </>
             )}
           </div>
         ) : (
@@ -159,16 +264,17 @@ export function OutputPanel({ result, executing, onClear }: OutputPanelProps) {
       </div>
 
       {/* Footer - Execution Stats */}
-      {(result.executionTime !== undefined || result.memory !== undefined) && (
+      {(current.executionTime !== undefined || current.memory !== undefined) && (
         <div className="border-t bg-muted/5 px-3 py-1.5 text-[10px] text-muted-foreground">
           <div className="flex gap-4">
-            {result.executionTime !== undefined && (
-              <span>Time: {result.executionTime.toFixed(3)}s</span>
+            {current.executionTime !== undefined && (
+              <span>Time: {current.executionTime.toFixed(3)}s</span>
             )}
-            {result.memory !== undefined && (
-              <span>Memory: {(result.memory / 1024).toFixed(2)} MB</span>
+            {current.memory !== undefined && (
+              <span>Memory: {(current.memory / 1024).toFixed(2)} MB</span>
             )}
-            <span>Exit Code: {result.exitCode ?? 'N/A'}</span>
+            <span>Exit Code: {current.exitCode ?? 'N/A'}</span>
+            {current.signal && <span>Signal: {current.signal}</span>}
           </div>
         </div>
       )}
@@ -176,7 +282,10 @@ export function OutputPanel({ result, executing, onClear }: OutputPanelProps) {
   )
 }
 
-function getStatusLabel(status: ExecutionResult['status']): string {
+function getStatusLabel({ status, limitExceeded }: ExecutionResult): string {
+  if (limitExceeded === 'memory') return 'Memory Limit Exceeded'
+  // A remote run can finish normally with its output cut short
+  if (limitExceeded === 'output' && status !== 'success') return 'Output Limit Exceeded'
   switch (status) {
     case 'success':
       return 'Success'
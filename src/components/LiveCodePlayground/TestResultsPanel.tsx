@@ -0,0 +1,265 @@
+"use client"
+
+import React, { useState } from 'react'
+import {
+  CheckCircle2,
+  XCircle,
+  Clock,
+  Plus,
+  Trash2,
+  Save,
+  FlaskConical,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react'
+import type { UseTestCasesReturn } from '@/hooks/workspace/useTestCases'
+import type { TestCaseResult } from '@/services/testCaseRunner'
+import type { ComparisonMode, TestCase } from '@/utilities/testCases'
+import { cn } from '@/utilities/ui'
+
+interface TestResultsPanelProps {
+  /** State from useTestCases */
+  tests: UseTestCasesReturn
+  /** Run all cases against the current editor code */
+  onRunTests: () => void
+  /** Hide editing controls (cases can still be run) */
+  readOnly?: boolean
+}
+
+const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  exact: 'Exact',
+  whitespace: 'Ignore whitespace',
+  float: 'Float tolerance',
+}
+
+const fieldClassName =
+  'w-full resize-y rounded-md border bg-background px-2 py-1 font-mono text-[11px] focus:outline-none focus:ring-1 focus:ring-ring disabled:opacity-60'
+
+export function TestResultsPanel({ tests, onRunTests, readOnly = false }: TestResultsPanelProps) {
+  const [expanded, setExpanded] = useState<Record<number, boolean>>({})
+
+  const { testCases, comparison, floatTolerance, updateSettings, results, summary, running } = tests
+
+  const updateCase = (index: number, changes: Partial<TestCase>) => {
+    updateSettings({
+      testCases: testCases.map((testCase, i) => (i === index ? { ...testCase, ...changes } : testCase)),
+    })
+  }
+
+  const addCase = () => {
+    updateSettings({ testCases: [...testCases, { name: '', input: '', expectedOutput: '' }] })
+    setExpanded((prev) => ({ ...prev, [testCases.length]: true }))
+  }
+
+  const removeCase = (index: number) => {
+    updateSettings({ testCases: testCases.filter((_, i) => i !== index) })
+  }
+
+  const resultFor = (testCase: TestCase): TestCaseResult | undefined =>
+    results.find((result) => result.testCase === testCase || (testCase.id && result.testCase.id === testCase.id))
+
+  return (
+    <div className="flex h-full flex-col overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b bg-muted/10 px-3 py-1.5">
+        <div className="flex items-center gap-2">
+          <select
+            value={comparison}
+            onChange={(e) => updateSettings({ comparison: e.target.value as ComparisonMode })}
+            disabled={readOnly}
+            className="rounded-md border bg-background px-2 py-0.5 text-[10px] focus:outline-none focus:ring-1 focus:ring-ring cursor-pointer"
+            title="Output comparison"
+          >
+            {(Object.keys(COMPARISON_LABELS) as ComparisonMode[]).map((mode) => (
+              <option key={mode} value={mode}>
+                {COMPARISON_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+          {comparison === 'float' && (
+            <input
+              type="number"
+              step="any"
+              min={0}
+              value={floatTolerance}
+              onChange={(e) => updateSettings({ floatTolerance: Number(e.target.value) || 0 })}
+              disabled={readOnly}
+              className="w-24 rounded-md border bg-background px-2 py-0.5 text-[10px] focus:outline-none focus:ring-1 focus:ring-ring"
+              title="Tolerance"
+            />
+          )}
+          {summary && (
+            <span
+              className={cn(
+                'text-xs font-medium',
+                summary.passed === summary.total ? 'text-success' : 'text-destructive'
+              )}
+            >
+              {summary.passed}/{summary.total} passed · {(summary.durationMs / 1000).toFixed(2)}s
+            </span>
+          )}
+          {running && (
+            <span className="text-xs text-muted-foreground">
+              Running {results.length}/{testCases.filter((c) => c.expectedOutput !== '').length}...
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          {!readOnly && (
+            <>
+              <button
+                type="button"
+                onClick={addCase}
+                className="flex items-center gap-1 rounded-md border bg-background px-2 py-0.5 text-[10px] hover:bg-accent transition-colors"
+              >
+                <Plus className="h-3 w-3" />
+                Add case
+              </button>
+              <button
+                type="button"
+                onClick={() => void tests.save()}
+                disabled={!tests.dirty || tests.saving}
+                className="flex items-center gap-1 rounded-md border bg-background px-2 py-0.5 text-[10px] hover:bg-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="h-3 w-3" />
+                {tests.saving ? 'Saving...' : 'Save cases'}
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={onRunTests}
+            disabled={running || testCases.length === 0}
+            className="flex items-center gap-1 rounded-md bg-success px-2 py-0.5 text-[10px] font-medium text-background hover:bg-success/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FlaskConical className="h-3 w-3" />
+            {running ? 'Running...' : 'Run tests'}
+          </button>
+        </div>
+      </div>
+
+      {/* Cases */}
+      <div className="flex-1 space-y-2 overflow-y-auto p-2">
+        {tests.isLoading ? (
+          <div className="p-4 text-center text-xs text-muted-foreground">Loading test cases...</div>
+        ) : testCases.length === 0 ? (
+          <div className="p-4 text-center text-xs text-muted-foreground">
+            No test cases yet. Add stdin and expected output to check your program automatically.
+          </div>
+        ) : (
+          testCases.map((testCase, index) => {
+            const result = resultFor(testCase)
+            const isOpen = expanded[index] ?? (result ? !result.passed : false)
+            return (
+              <div key={testCase.id ?? `new-${index}`} className="rounded-md border bg-card">
+                <div className="flex items-center justify-between gap-2 px-2 py-1">
+                  <button
+                    type="button"
+                    onClick={() => setExpanded((prev) => ({ ...prev, [index]: !isOpen }))}
+                    className="flex flex-1 items-center gap-1.5 text-left text-xs"
+                  >
+                    {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                    {result &&
+                      (result.passed ? (
+                        <CheckCircle2 className="h-3.5 w-3.5 text-success" />
+                      ) : (
+                        <XCircle className="h-3.5 w-3.5 text-destructive" />
+                      ))}
+                    <span className="font-medium">{testCase.name || `Case ${index + 1}`}</span>
+                  </button>
+                  {result && (
+                    <span className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                      <Clock className="h-3 w-3" />
+                      {result.durationMs} ms
+                    </span>
+                  )}
+                  {!readOnly && (
+                    <button
+                      type="button"
+                      onClick={() => removeCase(index)}
+                      className="rounded p-0.5 hover:bg-accent"
+                      title="Remove case"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+
+                {isOpen && (
+                  <div className="space-y-2 border-t p-2">
+                    {!readOnly && (
+                      <input
+                        value={testCase.name ?? ''}
+                        onChange={(e) => updateCase(index, { name: e.target.value })}
+                        placeholder={`Case ${index + 1}`}
+                        className={fieldClassName}
+                      />
+                    )}
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="space-y-1 text-[10px] text-muted-foreground">
+                        <span>Input (stdin)</span>
+                        <textarea
+                          value={testCase.input ?? ''}
+                          onChange={(e) => updateCase(index, { input: e.target.value })}
+                          disabled={readOnly}
+                          rows={3}
+                          className={fieldClassName}
+                        />
+                      </label>
+                      <label className="space-y-1 text-[10px] text-muted-foreground">
+                        <span>Expected output</span>
+                        <textarea
+                          value={testCase.expectedOutput}
+                          onChange={(e) => updateCase(index, { expectedOutput: e.target.value })}
+                          disabled={readOnly}
+                          rows={3}
+                          className={fieldClassName}
+                        />
+                      </label>
+                    </div>
+
+                    {result && !result.passed && <CaseFailureDetails result={result} />}
+                  </div>
+                )}
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
+
+function CaseFailureDetails({ result }: { result: TestCaseResult }) {
+  if (result.result.status !== 'success') {
+    return (
+      <div className="rounded-md bg-destructive/10 p-2 font-mono text-[11px] text-destructive whitespace-pre-wrap">
+        {result.result.stderr || result.result.status}
+      </div>
+    )
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-md border">
+      <table className="w-full font-mono text-[11px]">
+        <thead className="bg-muted/30 text-[10px] text-muted-foreground">
+          <tr>
+            <th className="px-2 py-1 text-left">Line</th>
+            <th className="px-2 py-1 text-left">Expected</th>
+            <th className="px-2 py-1 text-left">Actual</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.diff.map((line) => (
+            <tr key={line.line} className="border-t">
+              <td className="px-2 py-0.5 text-muted-foreground">{line.line}</td>
+              <td className="px-2 py-0.5 whitespace-pre text-success">{line.expected ?? '∅'}</td>
+              <td className="px-2 py-0.5 whitespace-pre text-destructive">{line.actual ?? '∅'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
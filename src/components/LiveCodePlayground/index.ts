@@ -1,4 +1,5 @@
 export { LiveCodePlayground } from './LiveCodePlayground'
+export { TestResultsPanel } from './TestResultsPanel'
 export { SUPPORTED_LANGUAGES } from './types'
 export type {
   Language,
@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect, useCallback } from 'react'
 import Link from 'next/link'
-import { GraduationCap, Users, Clock, FolderOpen, LayoutTemplate } from 'lucide-react'
+import { GraduationCap, Users, Clock, FolderOpen, LayoutTemplate, Send } from 'lucide-react'
 import { LiveCodePlayground } from '@/components/LiveCodePlayground'
 import { OutputPanel } from '@/components/LiveCodePlayground/OutputPanel'
 import { useTheme } from '@/providers/Theme'
@@ -21,9 +21,11 @@ interface User {
 
 interface CodeViewerProps {
   user: User | null
+  /** Open the push dialog with this user's code (students) or for the class (trainer) */
+  onPushCode?: () => void
 }
 
-export function CodeViewer({ user }: CodeViewerProps) {
+export function CodeViewer({ user, onPushCode }: CodeViewerProps) {
   const { theme: appTheme } = useTheme()
   const monacoTheme = appTheme === 'dark' ? 'vs-dark' : 'vs'
 
@@ -125,6 +127,16 @@ export function CodeViewer({ user }: CodeViewerProps) {
             )}
           </div>
           <div className="flex items-center gap-2">
+            {onPushCode && (
+              <button
+                onClick={onPushCode}
+                className="inline-flex items-center gap-1.5 rounded-md border bg-background px-2.5 py-1.5 text-xs font-medium hover:bg-accent transition-colors"
+                title={user.isTrainer ? 'Push this code to the class' : 'Push code to this student'}
+              >
+                <Send className="h-3 w-3" />
+                {user.isTrainer ? 'Push to class' : 'Push code'}
+              </button>
+            )}
             {/* Open Workspace buttons - only show for students */}
             {!user.isTrainer && (
               <>
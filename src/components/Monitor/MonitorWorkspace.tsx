@@ -1,12 +1,19 @@
 'use client'
 
-import React from 'react'
+import React, { useState } from 'react'
 import Link from 'next/link'
-import { ArrowLeft, RefreshCw, Loader2, Users } from 'lucide-react'
+import { ArrowLeft, RefreshCw, Loader2, Users, Hand, Send, Shuffle, Undo2 } from 'lucide-react'
 import { cn } from '@/utilities/ui'
 import { UserSidebar } from './UserSidebar'
 import { CodeViewer } from './CodeViewer'
 import type { ExecutionResult } from '@/services/codeExecution'
+import { HelpQueuePanel } from '@/components/Session/HelpQueue'
+import { useHelpQueue } from '@/hooks/session/useHelpQueue'
+import { PushCodeModal } from '@/components/Session/CodePush'
+import { useCodePushes } from '@/hooks/session/useCodePushes'
+import { BreakoutSetupModal, GroupTabs, GroupView } from '@/components/Session/BreakoutGroups'
+import { useBreakoutGroups } from '@/hooks/session/useBreakoutGroups'
+import type { GroupItem } from '@/services/breakoutGroups'
 
 interface MonitorWorkspaceProps {
   sessionCode: string
@@ -50,6 +57,22 @@ export function MonitorWorkspace({
   refreshing,
   refreshSuccess,
 }: MonitorWorkspaceProps) {
+  const helpQueue = useHelpQueue(sessionCode)
+  const raisedHands = helpQueue.stats?.waiting ?? 0
+  const [showHelpQueue, setShowHelpQueue] = useState(false)
+  const codePushes = useCodePushes(sessionCode)
+  const [pushDraft, setPushDraft] = useState<{
+    code: string
+    language: string
+    recipientId: string | null
+  } | null>(null)
+
+  // Breakout groups: the monitor shows either the main session or one group
+  const breakout = useBreakoutGroups(sessionCode)
+  const [showBreakoutSetup, setShowBreakoutSetup] = useState(false)
+  const [viewGroupId, setViewGroupId] = useState<GroupItem['id'] | null>(null)
+  const viewGroup = breakout.groups.find((group) => group.id === viewGroupId) ?? null
+
   // Prepare trainer data
   const trainerData: {
     id: string
@@ -109,28 +132,92 @@ export function MonitorWorkspace({
               <span>{participantCount} participant{participantCount !== 1 ? 's' : ''}</span>
             </div>
           </div>
-          <button
-            onClick={onRefresh}
-            disabled={refreshing}
-            className={cn(
-              "flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-sm transition-colors",
-              refreshSuccess 
-                ? "bg-green-500/20 border-green-500 text-green-700 dark:text-green-400" 
-                : "bg-background hover:bg-accent",
-              refreshing && "opacity-50 cursor-not-allowed"
-            )}
-            title="Refresh session data"
-          >
-            {refreshing ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <RefreshCw className="h-4 w-4" />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowBreakoutSetup(true)}
+              className={cn(
+                "flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-sm transition-colors",
+                breakout.groups.length > 0
+                  ? "border-primary bg-primary/10 text-primary hover:bg-primary/20"
+                  : "bg-background hover:bg-accent"
+              )}
+              title="Split the class into breakout groups"
+            >
+              <Shuffle className="h-4 w-4" />
+              <span>{breakout.groups.length > 0 ? 'Regroup' : 'Breakout'}</span>
+            </button>
+            {breakout.groups.length > 0 && (
+              <button
+                onClick={breakout.endBreakout}
+                disabled={breakout.updating}
+                className="flex items-center gap-1.5 rounded-md border bg-background px-3 py-1.5 text-sm transition-colors hover:bg-accent disabled:opacity-50"
+                title="Close every group and return to the main broadcast"
+              >
+                <Undo2 className="h-4 w-4" />
+                <span>Bring everyone back</span>
+              </button>
             )}
-            <span>{refreshSuccess ? 'Refreshed!' : 'Refresh'}</span>
-          </button>
+            <button
+              onClick={() =>
+                setPushDraft({ code: trainerCode, language: trainerLanguage, recipientId: null })
+              }
+              className="flex items-center gap-1.5 rounded-md border bg-background px-3 py-1.5 text-sm transition-colors hover:bg-accent"
+              title="Push code to every student in the session"
+            >
+              <Send className="h-4 w-4" />
+              <span>Push to class</span>
+            </button>
+            <button
+              onClick={() => setShowHelpQueue((prev) => !prev)}
+              className={cn(
+                "flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-sm transition-colors",
+                raisedHands > 0
+                  ? "border-amber-500 bg-amber-500/10 text-amber-700 hover:bg-amber-500/20 dark:text-amber-400"
+                  : "bg-background hover:bg-accent",
+                showHelpQueue && "ring-1 ring-ring"
+              )}
+              title="Raised hands"
+            >
+              <Hand className="h-4 w-4" />
+              <span>Help ({raisedHands})</span>
+            </button>
+            <button
+              onClick={onRefresh}
+              disabled={refreshing}
+              className={cn(
+                "flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-sm transition-colors",
+                refreshSuccess 
+                  ? "bg-green-500/20 border-green-500 text-green-700 dark:text-green-400" 
+                  : "bg-background hover:bg-accent",
+                refreshing && "opacity-50 cursor-not-allowed"
+              )}
+              title="Refresh session data"
+            >
+              {refreshing ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4" />
+              )}
+              <span>{refreshSuccess ? 'Refreshed!' : 'Refresh'}</span>
+            </button>
+          </div>
         </div>
       </header>
 
+      {/* Breakout group switcher */}
+      {breakout.groups.length > 0 && (
+        <div className="flex items-center gap-3 border-b px-4 py-2">
+          <span className="text-xs font-medium text-muted-foreground">Viewing</span>
+          <GroupTabs
+            groups={breakout.groups}
+            selectedGroupId={viewGroup?.id ?? null}
+            onSelect={setViewGroupId}
+            mainLabel="Everyone"
+          />
+          {breakout.error && <span className="text-xs text-destructive">{breakout.error}</span>}
+        </div>
+      )}
+
       {/* Main Content - VS Code style layout */}
       <div className="flex flex-1 overflow-hidden">
         {/* Left Sidebar - User List */}
@@ -143,11 +230,81 @@ export function MonitorWorkspace({
           />
         </div>
 
-        {/* Right Workspace - Code Viewer */}
+        {/* Right Workspace - Group scratchpad or Code Viewer */}
+        {viewGroup ? (
+          <div className="flex-1 overflow-y-auto p-4">
+            <GroupView
+              group={viewGroup}
+              updating={breakout.updating}
+              onBroadcast={() =>
+                breakout.broadcastToGroup(viewGroup.id, { code: trainerCode, language: trainerLanguage })
+              }
+              broadcastLabel="Send trainer's code to this group"
+              onSelectMember={(userId) => {
+                setViewGroupId(null)
+                onSelectUser(String(userId))
+              }}
+              height="60vh"
+            />
+          </div>
+        ) : (
         <div className="flex-1 overflow-hidden">
-          <CodeViewer user={selectedUser} />
+          <CodeViewer
+            user={selectedUser}
+            onPushCode={
+              selectedUser
+                ? () =>
+                    setPushDraft({
+                      code: selectedUser.code,
+                      language: selectedUser.language,
+                      recipientId: selectedUser.isTrainer ? null : selectedUser.id,
+                    })
+                : undefined
+            }
+          />
         </div>
+        )}
+
+        {/* Right Sidebar - Help Queue */}
+        {showHelpQueue && (
+          <div className="w-96 border-l bg-muted/30 overflow-y-auto p-3">
+            <HelpQueuePanel
+              requests={helpQueue.requests}
+              stats={helpQueue.stats}
+              onAction={helpQueue.act}
+              pendingId={helpQueue.pendingId}
+              error={helpQueue.error}
+              onSelectStudent={onSelectUser}
+            />
+          </div>
+        )}
       </div>
+
+      <BreakoutSetupModal
+        isOpen={showBreakoutSetup}
+        onClose={() => setShowBreakoutSetup(false)}
+        students={students}
+        hasOpenGroups={breakout.groups.length > 0}
+        starting={breakout.updating}
+        error={breakout.error}
+        onStart={breakout.startBreakout}
+      />
+
+      {pushDraft && (
+        <PushCodeModal
+          isOpen
+          onClose={() => setPushDraft(null)}
+          initialCode={pushDraft.code}
+          initialLanguage={pushDraft.language}
+          initialRecipientId={pushDraft.recipientId}
+          students={students}
+          trainerCode={trainerCode}
+          recentPushes={codePushes.pushes}
+          pushing={codePushes.pushing}
+          error={codePushes.error}
+          onPush={codePushes.push}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,677 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import Editor from '@monaco-editor/react'
+import { Loader2, Play, Send, Shuffle, Undo2, Users, X } from 'lucide-react'
+import { SUPPORTED_LANGUAGES } from '@/components/LiveCodePlayground/types'
+import { OutputPanel } from '@/components/LiveCodePlayground/OutputPanel'
+import { useTheme } from '@/providers/Theme'
+import type { ScratchpadSaveResult } from '@/hooks/session/useMyGroup'
+import { executeCode, type ExecutionResult } from '@/services/codeExecution'
+import type { BreakoutInput, GroupCode, GroupItem, ScratchpadEdit } from '@/services/breakoutGroups'
+import { cn } from '@/utilities/ui'
+import { SimpleCodeViewer } from './SimpleCodeViewer'
+
+const SAVE_DELAY_MS = 800
+
+const monacoLanguageOf = (language: string | null | undefined) =>
+  SUPPORTED_LANGUAGES.find((lang) => lang.id === language)?.monacoLanguage || 'javascript'
+
+export interface BreakoutStudent {
+  userId: string
+  name: string
+}
+
+interface BreakoutSetupModalProps {
+  isOpen: boolean
+  onClose: () => void
+  students: BreakoutStudent[]
+  /** Groups already running; starting again replaces them */
+  hasOpenGroups: boolean
+  starting: boolean
+  error: string | null
+  onStart: (input: BreakoutInput) => Promise<boolean>
+}
+
+/** Staff: split the class into breakout groups, randomly or by hand */
+export function BreakoutSetupModal({
+  isOpen,
+  onClose,
+  students,
+  hasOpenGroups,
+  starting,
+  error,
+  onStart,
+}: BreakoutSetupModalProps) {
+  const [mode, setMode] = useState<'random' | 'manual'>('random')
+  const [randomBy, setRandomBy] = useState<'groupSize' | 'groupCount'>('groupSize')
+  const [amount, setAmount] = useState(2)
+  const [names, setNames] = useState(['Group 1', 'Group 2'])
+  // Group index per student; -1 stays with the main session
+  const [assignment, setAssignment] = useState<Record<string, number>>({})
+
+  if (!isOpen) return null
+
+  const groupOf = (userId: string) => assignment[userId] ?? -1
+  const manualGroups = names
+    .map((name, index) => ({
+      name: name.trim() || null,
+      memberIds: students
+        .filter((student) => groupOf(student.userId) === index)
+        .map((student) => Number(student.userId)),
+    }))
+    .filter((group) => group.memberIds.length > 0)
+
+  const canStart = mode === 'random' ? students.length > 0 && amount >= 1 : manualGroups.length > 0
+
+  const handleStart = async () => {
+    const input: BreakoutInput =
+      mode === 'manual'
+        ? { mode, groups: manualGroups }
+        : randomBy === 'groupSize'
+          ? { mode, groupSize: amount }
+          : { mode, groupCount: amount }
+    if (await onStart(input)) onClose()
+  }
+
+  const removeGroup = (index: number) => {
+    setNames((prev) => prev.filter((_, i) => i !== index))
+    setAssignment((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).map(([userId, group]) => [
+          userId,
+          group === index ? -1 : group > index ? group - 1 : group,
+        ]),
+      ),
+    )
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="relative flex max-h-[90vh] w-full max-w-xl flex-col rounded-lg border bg-card shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b px-6 py-4">
+          <h2 className="text-xl font-semibold">Breakout Groups</h2>
+          <button
+            onClick={onClose}
+            className="rounded-md p-1 transition-colors hover:bg-accent"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-3 overflow-y-auto px-6 py-4 text-sm">
+          <div className="flex gap-2">
+            {(['random', 'manual'] as const).map((value) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={cn(
+                  'flex-1 rounded-md border px-3 py-1.5 text-xs transition-colors',
+                  mode === value
+                    ? 'border-primary bg-primary/10 text-primary'
+                    : 'bg-background hover:bg-accent',
+                )}
+              >
+                {value === 'random' ? 'Random groups' : 'Pick by hand'}
+              </button>
+            ))}
+          </div>
+
+          {students.length === 0 && (
+            <p className="text-xs text-muted-foreground">No students have joined yet.</p>
+          )}
+
+          {mode === 'random' ? (
+            <div className="flex items-center gap-2 text-xs">
+              <select
+                value={randomBy}
+                onChange={(e) => setRandomBy(e.target.value as typeof randomBy)}
+                className="rounded-md border bg-background px-2 py-1.5 text-foreground"
+              >
+                <option value="groupSize">Students per group</option>
+                <option value="groupCount">Number of groups</option>
+              </select>
+              <input
+                type="number"
+                min={1}
+                value={amount}
+                onChange={(e) => setAmount(Math.max(1, Number(e.target.value) || 1))}
+                className="w-20 rounded-md border bg-background px-2 py-1.5 text-foreground"
+              />
+              <span className="text-muted-foreground">{students.length} students</span>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                {names.map((name, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      value={name}
+                      onChange={(e) =>
+                        setNames((prev) => prev.map((n, i) => (i === index ? e.target.value : n)))
+                      }
+                      maxLength={60}
+                      className="flex-1 rounded-md border bg-background px-2 py-1 text-xs"
+                    />
+                    <button
+                      onClick={() => removeGroup(index)}
+                      disabled={names.length === 1}
+                      className="rounded-md p-1 text-muted-foreground transition-colors hover:bg-accent disabled:opacity-50"
+                      aria-label={`Remove ${name}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setNames((prev) => [...prev, `Group ${prev.length + 1}`])}
+                  className="text-xs text-primary hover:underline"
+                >
+                  Add group
+                </button>
+              </div>
+              <ul className="space-y-1">
+                {students.map((student) => (
+                  <li key={student.userId} className="flex items-center justify-between gap-2">
+                    <span className="truncate text-xs">{student.name}</span>
+                    <select
+                      value={groupOf(student.userId)}
+                      onChange={(e) =>
+                        setAssignment((prev) => ({
+                          ...prev,
+                          [student.userId]: Number(e.target.value),
+                        }))
+                      }
+                      className="rounded-md border bg-background px-2 py-1 text-xs text-foreground"
+                    >
+                      <option value={-1}>Not in a group</option>
+                      {names.map((name, index) => (
+                        <option key={index} value={index}>
+                          {name || `Group ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t px-6 py-3">
+          <p className="text-xs text-destructive">
+            {error ?? (hasOpenGroups ? 'The current groups will be closed.' : null)}
+          </p>
+          <button
+            onClick={handleStart}
+            disabled={starting || !canStart}
+            className="flex items-center gap-1.5 rounded-md bg-primary px-3 py-1.5 text-xs text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+          >
+            {starting ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <Shuffle className="h-3 w-3" />
+            )}
+            Start breakout
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface GroupTabsProps {
+  groups: GroupItem[]
+  selectedGroupId: GroupItem['id'] | null
+  onSelect: (groupId: GroupItem['id'] | null) => void
+  /** Label of the tab for the main session; omit to hide it */
+  mainLabel?: string
+}
+
+/** Chips to hop between breakout groups */
+export function GroupTabs({ groups, selectedGroupId, onSelect, mainLabel }: GroupTabsProps) {
+  const chip = (selected: boolean) =>
+    cn(
+      'flex items-center gap-1 rounded-full border px-3 py-1 text-xs transition-colors',
+      selected ? 'border-primary bg-primary/10 text-primary' : 'bg-background hover:bg-accent',
+    )
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {mainLabel && (
+        <button onClick={() => onSelect(null)} className={chip(selectedGroupId == null)}>
+          {mainLabel}
+        </button>
+      )}
+      {groups.map((group) => (
+        <button
+          key={group.id}
+          onClick={() => onSelect(group.id)}
+          className={chip(selectedGroupId === group.id)}
+        >
+          {group.name}
+          <span className="text-muted-foreground">({group.members.length})</span>
+        </button>
+      ))}
+    </div>
+  )
+}
+
+interface GroupViewProps {
+  group: GroupItem
+  /** Other open groups, to move members between groups */
+  otherGroups?: GroupItem[]
+  updating?: boolean
+  /** Send the trainer's current code to this group */
+  onBroadcast?: () => void
+  broadcastLabel?: string
+  onRename?: (name: string) => void
+  onMoveMember?: (userId: number, toGroupId: GroupItem['id']) => void
+  onSelectMember?: (userId: number) => void
+  /** Height of the scratchpad viewer */
+  height?: string
+}
+
+/** Staff: a group's members and shared scratchpad */
+export function GroupView({
+  group,
+  otherGroups = [],
+  updating = false,
+  onBroadcast,
+  broadcastLabel = 'Send my code to this group',
+  onRename,
+  onMoveMember,
+  onSelectMember,
+  height = '16rem',
+}: GroupViewProps) {
+  const [name, setName] = useState(group.name)
+  useEffect(() => setName(group.name), [group.name])
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        {onRename ? (
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={() => name.trim() && name !== group.name && onRename(name.trim())}
+            maxLength={60}
+            className="min-w-0 flex-1 rounded-md border bg-background px-2 py-1 text-sm font-medium"
+            aria-label="Group name"
+          />
+        ) : (
+          <h3 className="text-sm font-medium">{group.name}</h3>
+        )}
+        {onBroadcast && (
+          <button
+            onClick={onBroadcast}
+            disabled={updating}
+            className="flex items-center gap-1.5 rounded-md border bg-background px-2 py-1 text-xs transition-colors hover:bg-accent disabled:opacity-50"
+          >
+            <Send className="h-3 w-3" />
+            {broadcastLabel}
+          </button>
+        )}
+      </div>
+
+      <ul className="flex flex-wrap gap-1.5">
+        {group.members.map((member) => (
+          <li
+            key={member.id}
+            className="flex items-center gap-1 rounded-md border bg-background px-2 py-0.5 text-xs"
+          >
+            {onSelectMember ? (
+              <button onClick={() => onSelectMember(member.id)} className="hover:underline">
+                {member.name}
+              </button>
+            ) : (
+              <span>{member.name}</span>
+            )}
+            {onMoveMember && otherGroups.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && onMoveMember(member.id, Number(e.target.value))}
+                disabled={updating}
+                className="rounded border-none bg-transparent text-xs text-muted-foreground"
+                aria-label={`Move ${member.name} to another group`}
+              >
+                <option value="">Move…</option>
+                {otherGroups.map((other) => (
+                  <option key={other.id} value={other.id}>
+                    {other.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <SimpleCodeViewer code={group.code} language={group.language ?? undefined} height={height} />
+      <p className="text-xs text-muted-foreground" suppressHydrationWarning>
+        {group.codeUpdatedAt
+          ? `Last edited by ${group.codeUpdatedBy?.name ?? 'someone'} at ${new Date(
+              group.codeUpdatedAt,
+            ).toLocaleTimeString()}`
+          : 'Nobody has typed in the group scratchpad yet'}
+        {group.broadcast &&
+          ` · Code sent to the group at ${new Date(group.broadcast.sentAt).toLocaleTimeString()}`}
+      </p>
+    </div>
+  )
+}
+
+interface BreakoutGroupsPanelProps {
+  groups: GroupItem[]
+  students: BreakoutStudent[]
+  trainerCode: string
+  trainerLanguage: string
+  updating: boolean
+  error: string | null
+  onStart: (input: BreakoutInput) => Promise<boolean>
+  onEnd: () => Promise<boolean>
+  onBroadcast: (groupId: GroupItem['id'], code: GroupCode) => Promise<boolean>
+  onUpdate: (
+    groupId: GroupItem['id'],
+    change: { name?: string; memberIds?: number[] },
+  ) => Promise<boolean>
+}
+
+/** Staff: start breakout groups, hop between them and bring everyone back */
+export function BreakoutGroupsPanel({
+  groups,
+  students,
+  trainerCode,
+  trainerLanguage,
+  updating,
+  error,
+  onStart,
+  onEnd,
+  onBroadcast,
+  onUpdate,
+}: BreakoutGroupsPanelProps) {
+  const [showSetup, setShowSetup] = useState(false)
+  const [selectedGroupId, setSelectedGroupId] = useState<GroupItem['id'] | null>(null)
+  const selected = groups.find((group) => group.id === selectedGroupId) ?? groups[0] ?? null
+
+  const moveMember = (userId: number, toGroupId: GroupItem['id']) => {
+    const target = groups.find((group) => group.id === toGroupId)
+    if (!target) return
+    onUpdate(toGroupId, { memberIds: [...target.members.map((member) => member.id), userId] })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="flex items-center gap-1.5 text-xs font-medium">
+          <Users className="h-3 w-3" />
+          {groups.length > 0 ? `Breakout: ${groups.length} groups` : 'Breakout Groups'}
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowSetup(true)}
+            disabled={updating}
+            className="flex items-center gap-1.5 rounded-md border bg-background px-2 py-1 text-xs transition-colors hover:bg-accent disabled:opacity-50"
+          >
+            <Shuffle className="h-3 w-3" />
+            {groups.length > 0 ? 'Regroup' : 'Start breakout'}
+          </button>
+          {groups.length > 0 && (
+            <button
+              onClick={onEnd}
+              disabled={updating}
+              className="flex items-center gap-1.5 rounded-md bg-primary px-2 py-1 text-xs text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+            >
+              <Undo2 className="h-3 w-3" />
+              Bring everyone back
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {groups.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Split the class into groups that share a scratchpad, for pair programming.
+        </p>
+      ) : (
+        <>
+          <GroupTabs
+            groups={groups}
+            selectedGroupId={selected?.id ?? null}
+            onSelect={setSelectedGroupId}
+          />
+          {selected && (
+            <GroupView
+              group={selected}
+              otherGroups={groups.filter((group) => group.id !== selected.id)}
+              updating={updating}
+              onBroadcast={() =>
+                onBroadcast(selected.id, { code: trainerCode, language: trainerLanguage })
+              }
+              onRename={(name) => onUpdate(selected.id, { name })}
+              onMoveMember={moveMember}
+            />
+          )}
+        </>
+      )}
+
+      <BreakoutSetupModal
+        isOpen={showSetup}
+        onClose={() => setShowSetup(false)}
+        students={students}
+        hasOpenGroups={groups.length > 0}
+        starting={updating}
+        error={error}
+        onStart={onStart}
+      />
+    </div>
+  )
+}
+
+interface GroupWorkspaceProps {
+  group: GroupItem
+  saving: boolean
+  error: string | null
+  onSave: (edit: ScratchpadEdit) => Promise<ScratchpadSaveResult>
+}
+
+/**
+ * Student: the shared group scratchpad. Edits are saved shortly after typing
+ * stops; other members' saves show up while this member isn't typing. A save
+ * made while someone else saved is refused, and the member chooses whether to
+ * keep their version or load the other one.
+ */
+export function GroupWorkspace({ group, saving, error, onSave }: GroupWorkspaceProps) {
+  const { theme: appTheme } = useTheme()
+  const [code, setCode] = useState(group.code)
+  const [language, setLanguage] = useState(group.language || 'javascript')
+  const [executing, setExecuting] = useState(false)
+  const [result, setResult] = useState<ExecutionResult | null>(null)
+  // The other member's version while this member's edits conflict with it
+  const [conflict, setConflict] = useState<GroupItem | null>(null)
+  const dirtyRef = useRef(false)
+  const editCountRef = useRef(0)
+  // Saved version the local edits are based on
+  const baseRef = useRef(group.codeUpdatedAt)
+
+  // Take other members' saves unless there are unsaved local edits
+  useEffect(() => {
+    if (dirtyRef.current) return
+    baseRef.current = group.codeUpdatedAt
+    setCode(group.code)
+    if (group.language) setLanguage(group.language)
+  }, [group.code, group.language, group.codeUpdatedAt])
+
+  useEffect(() => {
+    if (!dirtyRef.current || conflict) return
+    const timer = setTimeout(async () => {
+      // Edits stay unsaved until the save succeeds, so the reply can't replace them
+      const editCount = editCountRef.current
+      const saved = await onSave({ code, language, baseUpdatedAt: baseRef.current })
+      if (saved.status === 'saved') {
+        baseRef.current = saved.group.codeUpdatedAt
+        if (editCountRef.current === editCount) dirtyRef.current = false
+      } else if (saved.status === 'conflict') {
+        setConflict(saved.group)
+      }
+    }, SAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [code, language, onSave, conflict])
+
+  const edit = (next: { code?: string; language?: string }) => {
+    dirtyRef.current = true
+    editCountRef.current++
+    if (next.code !== undefined) setCode(next.code)
+    if (next.language !== undefined) setLanguage(next.language)
+  }
+
+  // Save this member's version over the other one
+  const keepMine = () => {
+    if (!conflict) return
+    baseRef.current = conflict.codeUpdatedAt
+    setConflict(null)
+  }
+
+  // Drop the local edits and load the other member's version
+  const loadTheirs = () => {
+    if (!conflict) return
+    dirtyRef.current = false
+    baseRef.current = conflict.codeUpdatedAt
+    setCode(conflict.code)
+    if (conflict.language) setLanguage(conflict.language)
+    setConflict(null)
+  }
+
+  const handleRun = async () => {
+    setExecuting(true)
+    setResult(null)
+    try {
+      setResult(await executeCode(language, code))
+    } catch (e) {
+      setResult({
+        stdout: '',
+        stderr: e instanceof Error ? e.message : 'Unknown error occurred',
+        status: 'error',
+        exitCode: 1,
+      })
+    } finally {
+      setExecuting(false)
+    }
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b px-4 py-2 text-xs">
+        <div className="flex min-w-0 items-center gap-2">
+          <Users className="h-3 w-3 shrink-0" />
+          <span className="font-medium">{group.name}</span>
+          <span className="truncate text-muted-foreground">
+            {group.members.map((member) => member.name).join(', ')}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={cn('text-muted-foreground', error && 'text-destructive')}>
+            {error ?? (saving ? 'Saving…' : 'Shared with your group')}
+          </span>
+          <select
+            value={language}
+            onChange={(e) => edit({ language: e.target.value })}
+            className="rounded-md border bg-background px-2 py-1 text-xs text-foreground"
+          >
+            {SUPPORTED_LANGUAGES.map((lang) => (
+              <option key={lang.id} value={lang.id}>
+                {lang.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleRun}
+            disabled={executing || code.trim() === ''}
+            className="flex items-center gap-1.5 rounded-md bg-primary px-3 py-1 text-xs text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+          >
+            {executing ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <Play className="h-3 w-3" />
+            )}
+            Run
+          </button>
+        </div>
+      </div>
+
+      {conflict && (
+        <div className="flex flex-wrap items-center justify-between gap-2 border-b bg-destructive/10 px-4 py-2 text-xs">
+          <span>
+            {conflict.codeUpdatedBy?.name ?? 'Someone'} saved the scratchpad while you were editing.
+            Your changes are not saved yet.
+          </span>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={keepMine}
+              className="rounded-md border bg-background px-2 py-0.5 transition-colors hover:bg-accent"
+            >
+              Keep mine
+            </button>
+            <button
+              onClick={loadTheirs}
+              className="rounded-md border bg-background px-2 py-0.5 transition-colors hover:bg-accent"
+            >
+              Load theirs
+            </button>
+          </div>
+        </div>
+      )}
+
+      {group.broadcast && (
+        <div className="space-y-1 border-b bg-muted/30 px-4 py-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-medium" suppressHydrationWarning>
+              From the trainer, {new Date(group.broadcast.sentAt).toLocaleTimeString()}
+            </span>
+            <button
+              onClick={() =>
+                edit({
+                  code: group.broadcast!.code,
+                  language: group.broadcast!.language ?? language,
+                })
+              }
+              className="rounded-md border bg-background px-2 py-0.5 transition-colors hover:bg-accent"
+            >
+              Copy into scratchpad
+            </button>
+          </div>
+          <SimpleCodeViewer
+            code={group.broadcast.code}
+            language={group.broadcast.language ?? undefined}
+            className="max-h-40"
+          />
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1">
+        <Editor
+          height="100%"
+          language={monacoLanguageOf(language)}
+          value={code}
+          onChange={(value) => edit({ code: value ?? '' })}
+          theme={appTheme === 'dark' ? 'vs-dark' : 'vs'}
+          options={{ minimap: { enabled: false }, fontSize: 14 }}
+        />
+      </div>
+
+      {(executing || result) && (
+        <div className="h-48 border-t">
+          <OutputPanel result={result} executing={executing} onClear={() => setResult(null)} />
+        </div>
+      )}
+    </div>
+  )
+}
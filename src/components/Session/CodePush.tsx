@@ -0,0 +1,325 @@
+'use client'
+
+import React, { useState } from 'react'
+import Editor, { DiffEditor } from '@monaco-editor/react'
+import { FilePlus, Loader2, PlusSquare, Replace, Send, X } from 'lucide-react'
+import { SUPPORTED_LANGUAGES } from '@/components/LiveCodePlayground/types'
+import { useTheme } from '@/providers/Theme'
+import type { CodePushFields, CodePushItem } from '@/services/codePushes'
+import { cn } from '@/utilities/ui'
+
+const monacoLanguageOf = (language: string | null | undefined) =>
+  SUPPORTED_LANGUAGES.find((lang) => lang.id === language)?.monacoLanguage || 'javascript'
+
+function describeResponses(push: CodePushItem): string {
+  const { replaced, merged, saved, dismissed } = push.responses
+  const accepted = replaced + merged + saved
+  if (accepted + dismissed === 0) return 'no answers yet'
+  return `${accepted} accepted · ${dismissed} dismissed`
+}
+
+interface PushCodeModalProps {
+  isOpen: boolean
+  onClose: () => void
+  initialCode: string
+  initialLanguage: string
+  /** Preselected student; null pushes to the whole class */
+  initialRecipientId: string | null
+  students: Array<{ userId: string; name: string }>
+  /** Offered as a starting point when pushing something other than the trainer's code */
+  trainerCode?: string
+  recentPushes: CodePushItem[]
+  pushing: boolean
+  error: string | null
+  onPush: (fields: CodePushFields) => Promise<boolean>
+}
+
+/** Staff: edit a snippet or file and push it to one student or the whole class */
+export function PushCodeModal({
+  isOpen,
+  onClose,
+  initialCode,
+  initialLanguage,
+  initialRecipientId,
+  students,
+  trainerCode,
+  recentPushes,
+  pushing,
+  error,
+  onPush,
+}: PushCodeModalProps) {
+  const { theme: appTheme } = useTheme()
+  const [code, setCode] = useState(initialCode)
+  const [language, setLanguage] = useState(initialLanguage)
+  const [recipientId, setRecipientId] = useState<string>(initialRecipientId ?? '')
+  const [fileName, setFileName] = useState('')
+  const [message, setMessage] = useState('')
+
+  if (!isOpen) return null
+
+  const handlePush = async () => {
+    const pushed = await onPush({
+      code,
+      language,
+      fileName: fileName.trim() || null,
+      message: message.trim() || null,
+      recipientId: recipientId ? Number(recipientId) : null,
+    })
+    if (pushed) onClose()
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="relative flex max-h-[90vh] w-full max-w-3xl flex-col rounded-lg border bg-card shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b px-6 py-4">
+          <h2 className="text-xl font-semibold">Push Code</h2>
+          <button
+            onClick={onClose}
+            className="rounded-md p-1 transition-colors hover:bg-accent"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-3 overflow-y-auto px-6 py-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1 text-xs font-medium text-muted-foreground">
+              <span>Send to</span>
+              <select
+                value={recipientId}
+                onChange={(e) => setRecipientId(e.target.value)}
+                className="w-full rounded-md border bg-background px-2 py-1.5 text-sm text-foreground"
+              >
+                <option value="">Whole class</option>
+                {students.map((student) => (
+                  <option key={student.userId} value={student.userId}>
+                    {student.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1 text-xs font-medium text-muted-foreground">
+              <span>Language</span>
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value)}
+                className="w-full rounded-md border bg-background px-2 py-1.5 text-sm text-foreground"
+              >
+                {SUPPORTED_LANGUAGES.map((lang) => (
+                  <option key={lang.id} value={lang.id}>
+                    {lang.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1 text-xs font-medium text-muted-foreground">
+              <span>File name (when saved as a new file)</span>
+              <input
+                value={fileName}
+                onChange={(e) => setFileName(e.target.value)}
+                placeholder="starter.py"
+                className="w-full rounded-md border bg-background px-2 py-1.5 text-sm text-foreground"
+              />
+            </label>
+            <label className="space-y-1 text-xs font-medium text-muted-foreground">
+              <span>Message</span>
+              <input
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="Optional note for the student"
+                className="w-full rounded-md border bg-background px-2 py-1.5 text-sm text-foreground"
+              />
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-medium text-muted-foreground">Code</span>
+            <div className="flex gap-2">
+              {trainerCode != null && (
+                <button
+                  onClick={() => setCode(trainerCode)}
+                  className="rounded-md border px-2 py-0.5 transition-colors hover:bg-accent"
+                >
+                  Use trainer&apos;s code
+                </button>
+              )}
+              <button
+                onClick={() => setCode(initialCode)}
+                className="rounded-md border px-2 py-0.5 transition-colors hover:bg-accent"
+              >
+                Reset
+              </button>
+            </div>
+          </div>
+          <div className="h-72 overflow-hidden rounded-md border">
+            <Editor
+              height="100%"
+              language={monacoLanguageOf(language)}
+              value={code}
+              onChange={(value) => setCode(value ?? '')}
+              theme={appTheme === 'dark' ? 'vs-dark' : 'vs'}
+              options={{ minimap: { enabled: false }, fontSize: 13 }}
+            />
+          </div>
+
+          {recentPushes.length > 0 && (
+            <div className="space-y-1">
+              <h3 className="text-xs font-medium text-muted-foreground">Recent pushes</h3>
+              <ul className="space-y-1 text-xs">
+                {recentPushes
+                  .slice(-5)
+                  .reverse()
+                  .map((push) => (
+                    <li key={push.id} className="flex justify-between gap-2">
+                      <span className="truncate" suppressHydrationWarning>
+                        {new Date(push.sentAt).toLocaleTimeString()} ·{' '}
+                        {push.recipient?.name ?? 'Whole class'}
+                        {push.fileName && ` · ${push.fileName}`}
+                      </span>
+                      <span className="whitespace-nowrap text-muted-foreground">
+                        {describeResponses(push)}
+                      </span>
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t px-6 py-3">
+          <p className="text-xs text-destructive">{error}</p>
+          <button
+            onClick={handlePush}
+            disabled={pushing || code.trim() === ''}
+            className="flex items-center gap-2 rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+          >
+            {pushing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            Push
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface CodePushPromptProps {
+  push: CodePushItem
+  /** More pushes waiting after this one */
+  remaining: number
+  /** The student's open file; null when no file is open */
+  currentCode: string | null
+  busy?: boolean
+  onReplace: () => void
+  onMerge: () => void
+  onSaveAsFile: () => void
+  onDismiss: () => void
+}
+
+/**
+ * Student: pushed code waiting to be accepted. Nothing changes in their editor
+ * until they pick one of the options.
+ */
+export function CodePushPrompt({
+  push,
+  remaining,
+  currentCode,
+  busy = false,
+  onReplace,
+  onMerge,
+  onSaveAsFile,
+  onDismiss,
+}: CodePushPromptProps) {
+  const { theme: appTheme } = useTheme()
+  const buttonClassName =
+    'flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-sm transition-colors hover:bg-accent disabled:opacity-50'
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-4xl flex-col rounded-lg border bg-card shadow-lg">
+        <div className="border-b px-6 py-4">
+          <h2 className="text-lg font-semibold">
+            {push.sentBy?.name ?? 'Your trainer'} sent you code
+            {push.fileName && <span className="font-mono text-primary"> · {push.fileName}</span>}
+          </h2>
+          {push.message && <p className="mt-1 text-sm text-muted-foreground">{push.message}</p>}
+          {remaining > 0 && (
+            <p className="mt-1 text-xs text-muted-foreground">{remaining} more after this one</p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-hidden px-6 py-4">
+          {currentCode != null ? (
+            <>
+              <div className="mb-1 grid grid-cols-2 text-xs text-muted-foreground">
+                <span>Your code</span>
+                <span>Pushed code</span>
+              </div>
+              <div className="h-80 overflow-hidden rounded-md border">
+                <DiffEditor
+                  height="100%"
+                  language={monacoLanguageOf(push.language)}
+                  original={currentCode}
+                  modified={push.code}
+                  theme={appTheme === 'dark' ? 'vs-dark' : 'vs'}
+                  options={{
+                    readOnly: true,
+                    renderSideBySide: true,
+                    minimap: { enabled: false },
+                  }}
+                />
+              </div>
+            </>
+          ) : (
+            <div className="h-80 overflow-hidden rounded-md border">
+              <Editor
+                height="100%"
+                language={monacoLanguageOf(push.language)}
+                value={push.code}
+                theme={appTheme === 'dark' ? 'vs-dark' : 'vs'}
+                options={{ readOnly: true, minimap: { enabled: false } }}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-2 border-t px-6 py-3">
+          <button onClick={onDismiss} disabled={busy} className={buttonClassName}>
+            <X className="h-4 w-4" />
+            Dismiss
+          </button>
+          <button onClick={onSaveAsFile} disabled={busy} className={buttonClassName}>
+            <FilePlus className="h-4 w-4" />
+            Save as new file
+          </button>
+          <button
+            onClick={onMerge}
+            disabled={busy || currentCode == null}
+            className={buttonClassName}
+            title="Keep your code and add the pushed code below it"
+          >
+            <PlusSquare className="h-4 w-4" />
+            Add below my code
+          </button>
+          <button
+            onClick={onReplace}
+            disabled={busy || currentCode == null}
+            className={cn(
+              buttonClassName,
+              'border-primary bg-primary text-primary-foreground hover:bg-primary/90',
+            )}
+          >
+            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Replace className="h-4 w-4" />}
+            Replace my code
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
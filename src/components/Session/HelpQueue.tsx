@@ -0,0 +1,221 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Check, Hand, Loader2, UserCheck, X } from 'lucide-react'
+import { cn } from '@/utilities/ui'
+import { SimpleCodeViewer } from './SimpleCodeViewer'
+import type { HelpAction, HelpQueueStats, HelpRequestItem } from '@/services/helpRequests'
+
+export function formatWait(seconds: number): string {
+  if (seconds < 60) return `${Math.max(0, Math.round(seconds))}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${Math.round(seconds % 60)}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+interface HelpQueuePanelProps {
+  requests: HelpRequestItem[]
+  stats: HelpQueueStats | null
+  onAction: (id: HelpRequestItem['id'], action: HelpAction) => void
+  pendingId?: HelpRequestItem['id'] | null
+  error?: string | null
+  /** Show the student's full workspace instead of the inline code (staff monitor) */
+  onSelectStudent?: (userId: string) => void
+  className?: string
+}
+
+/** Raised hands in queue order, with what each student was stuck on */
+export function HelpQueuePanel({
+  requests,
+  stats,
+  onAction,
+  pendingId = null,
+  error,
+  onSelectStudent,
+  className,
+}: HelpQueuePanelProps) {
+  const [expandedId, setExpandedId] = useState<HelpRequestItem['id'] | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Keep wait times ticking between refetches
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const actionButtonClassName =
+    'flex items-center gap-1 rounded-md border px-2 py-1 text-xs transition-colors hover:bg-accent disabled:opacity-50'
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-medium">Help Queue</h3>
+        {stats && (
+          <span className="text-[10px] text-muted-foreground">
+            {stats.waiting} waiting · {stats.claimed} being helped · {stats.resolved} resolved
+            {stats.averageWaitSeconds != null &&
+              ` · average wait ${formatWait(stats.averageWaitSeconds)}`}
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {requests.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No raised hands.</p>
+      ) : (
+        <ol className="space-y-2">
+          {requests.map((request, index) => {
+            const isExpanded = expandedId === request.id
+            const busy = pendingId === request.id
+            const waitedSeconds =
+              ((request.claimedAt ? new Date(request.claimedAt).getTime() : now) -
+                new Date(request.raisedAt).getTime()) /
+              1000
+            return (
+              <li key={request.id} className="rounded-md border bg-card">
+                <div className="flex items-center justify-between gap-2 p-2">
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : request.id)}
+                    className="flex min-w-0 flex-1 flex-wrap items-center gap-2 text-left"
+                  >
+                    <span className="text-[10px] font-mono text-muted-foreground">
+                      {index + 1}.
+                    </span>
+                    <span className="text-xs font-medium">{request.name}</span>
+                    {request.status === 'claimed' ? (
+                      <span className="rounded-full bg-primary/10 px-2 py-0.5 text-[10px] text-primary">
+                        {request.claimedBy?.name ?? 'Claimed'} · waited {formatWait(waitedSeconds)}
+                      </span>
+                    ) : (
+                      <span
+                        className="rounded-full bg-amber-500/10 px-2 py-0.5 text-[10px] text-amber-700 dark:text-amber-400"
+                        suppressHydrationWarning
+                      >
+                        waiting {formatWait(waitedSeconds)}
+                      </span>
+                    )}
+                    {request.lastError && (
+                      <span className="text-[10px] text-destructive">has an error</span>
+                    )}
+                  </button>
+                  <div className="flex flex-shrink-0 items-center gap-1">
+                    {busy && <Loader2 className="h-3 w-3 animate-spin" />}
+                    {request.status === 'waiting' && (
+                      <button
+                        onClick={() => onAction(request.id, 'claim')}
+                        disabled={busy}
+                        className={actionButtonClassName}
+                      >
+                        <UserCheck className="h-3 w-3" />
+                        Claim
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onAction(request.id, 'resolve')}
+                      disabled={busy}
+                      className={actionButtonClassName}
+                    >
+                      <Check className="h-3 w-3" />
+                      Resolve
+                    </button>
+                    <button
+                      onClick={() => onAction(request.id, 'dismiss')}
+                      disabled={busy}
+                      className={actionButtonClassName}
+                      title="Dismiss without helping"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                </div>
+                {request.message && (
+                  <p className="px-2 pb-2 text-xs text-muted-foreground">
+                    &ldquo;{request.message}&rdquo;
+                  </p>
+                )}
+                {isExpanded && (
+                  <div className="space-y-2 border-t p-2">
+                    <div className="flex items-center justify-between text-[10px] text-muted-foreground">
+                      <span>
+                        {request.workspaceFileName
+                          ? `📁 ${request.workspaceFileName}`
+                          : 'Scratchpad'}
+                        {request.language && ` · ${request.language}`}
+                      </span>
+                      {onSelectStudent && (
+                        <button
+                          onClick={() => onSelectStudent(String(request.userId))}
+                          className="text-primary hover:underline"
+                        >
+                          Open their workspace
+                        </button>
+                      )}
+                    </div>
+                    <SimpleCodeViewer
+                      code={request.code}
+                      language={request.language || 'javascript'}
+                      height="12rem"
+                    />
+                    {request.lastError && (
+                      <pre className="max-h-32 overflow-auto whitespace-pre-wrap rounded-md border border-destructive/30 bg-destructive/10 p-2 font-mono text-[10px] text-destructive">
+                        {request.lastError}
+                      </pre>
+                    )}
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+interface RaiseHandButtonProps {
+  raised: boolean
+  /** 1-based place in the queue while waiting */
+  position: number | null
+  claimedBy: { name: string } | null
+  updating: boolean
+  disabled?: boolean
+  onRaise: () => void
+  onLower: () => void
+}
+
+/** Student header control: raise a hand for help, or lower it again */
+export function RaiseHandButton({
+  raised,
+  position,
+  claimedBy,
+  updating,
+  disabled = false,
+  onRaise,
+  onLower,
+}: RaiseHandButtonProps) {
+  const label = !raised
+    ? 'Raise hand'
+    : claimedBy
+      ? `${claimedBy.name} is coming`
+      : position
+        ? `Hand raised · #${position}`
+        : 'Hand raised'
+
+  return (
+    <button
+      onClick={raised ? onLower : onRaise}
+      disabled={updating || disabled}
+      className={cn(
+        'flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-xs transition-colors disabled:opacity-50',
+        raised
+          ? 'border-amber-500 bg-amber-500/10 text-amber-700 hover:bg-amber-500/20 dark:text-amber-400'
+          : 'bg-background hover:bg-accent',
+      )}
+      title={raised ? 'Lower your hand' : 'Ask the trainer for help with your current code'}
+    >
+      {updating ? <Loader2 className="h-3 w-3 animate-spin" /> : <Hand className="h-3 w-3" />}
+      <span>{label}</span>
+    </button>
+  )
+}
@@ -0,0 +1,272 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Check, Loader2, Lock, X } from 'lucide-react'
+import type {
+  AccessSettingsInput,
+  AdmissionItem,
+  CohortOption,
+  SessionAccessMode,
+  SessionAccessSettings,
+} from '@/services/sessionAccess'
+
+const MODE_LABELS: Record<SessionAccessMode, string> = {
+  open: 'Open to anyone with the join code',
+  passcode: 'Passcode',
+  restricted: 'Listed students and cohorts only',
+  waitingRoom: 'Waiting room (you admit people)',
+}
+
+/** Access settings while they are being edited (emails as typed) */
+export interface AccessDraft {
+  accessMode: SessionAccessMode
+  passcode: string
+  studentEmails: string
+  cohortIds: number[]
+}
+
+export const OPEN_ACCESS: AccessDraft = {
+  accessMode: 'open',
+  passcode: '',
+  studentEmails: '',
+  cohortIds: [],
+}
+
+export function accessDraftFrom(settings: SessionAccessSettings): AccessDraft {
+  return {
+    accessMode: settings.accessMode,
+    passcode: settings.passcode ?? '',
+    studentEmails: settings.allowedStudents.map((student) => student.email).join('\n'),
+    cohortIds: settings.allowedCohorts.map((cohort) => cohort.id),
+  }
+}
+
+/** Body for PUT /api/sessions/[code]/access; emails may be separated by commas or lines */
+export function accessInputFrom(draft: AccessDraft): AccessSettingsInput {
+  return {
+    accessMode: draft.accessMode,
+    passcode: draft.passcode.trim() || null,
+    studentEmails: draft.studentEmails.split(/[\s,;]+/).filter(Boolean),
+    cohortIds: draft.cohortIds,
+  }
+}
+
+const fieldClassName = 'w-full rounded-md border bg-background px-2 py-1 text-xs'
+
+interface AccessModeFieldsProps {
+  value: AccessDraft
+  onChange: (value: AccessDraft) => void
+  cohorts: CohortOption[]
+  disabled?: boolean
+  /** Class of the select, passcode and email inputs */
+  inputClassName?: string
+}
+
+/** Access mode with the passcode, or the students and cohorts, it needs */
+export function AccessModeFields({
+  value,
+  onChange,
+  cohorts,
+  disabled,
+  inputClassName = fieldClassName,
+}: AccessModeFieldsProps) {
+  const toggleCohort = (id: number) =>
+    onChange({
+      ...value,
+      cohortIds: value.cohortIds.includes(id)
+        ? value.cohortIds.filter((cohortId) => cohortId !== id)
+        : [...value.cohortIds, id],
+    })
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={value.accessMode}
+        onChange={(e) => onChange({ ...value, accessMode: e.target.value as SessionAccessMode })}
+        className={inputClassName}
+        disabled={disabled}
+        aria-label="Who may join"
+      >
+        {(Object.keys(MODE_LABELS) as SessionAccessMode[]).map((mode) => (
+          <option key={mode} value={mode}>
+            {MODE_LABELS[mode]}
+          </option>
+        ))}
+      </select>
+
+      {value.accessMode === 'passcode' && (
+        <input
+          type="text"
+          value={value.passcode}
+          onChange={(e) => onChange({ ...value, passcode: e.target.value })}
+          placeholder="Passcode (4-32 characters)"
+          className={inputClassName}
+          disabled={disabled}
+          autoComplete="off"
+        />
+      )}
+
+      {value.accessMode === 'restricted' && (
+        <>
+          <textarea
+            value={value.studentEmails}
+            onChange={(e) => onChange({ ...value, studentEmails: e.target.value })}
+            placeholder="Student emails, one per line"
+            rows={3}
+            className={inputClassName}
+            disabled={disabled}
+          />
+          {cohorts.length > 0 ? (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+              {cohorts.map((cohort) => (
+                <label key={cohort.id} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={value.cohortIds.includes(cohort.id)}
+                    onChange={() => toggleCohort(cohort.id)}
+                    disabled={disabled}
+                  />
+                  {cohort.name}
+                  <span className="text-muted-foreground">({cohort.studentCount})</span>
+                </label>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              No cohorts yet. Managers can create them in the admin panel.
+            </p>
+          )}
+        </>
+      )}
+
+      {value.accessMode === 'waitingRoom' && (
+        <p className="text-xs text-muted-foreground">
+          Students wait until you or a co-host let them in.
+        </p>
+      )}
+    </div>
+  )
+}
+
+interface SessionAccessPanelProps {
+  access: SessionAccessSettings
+  /** The viewer may change the access mode (owner, managers, admins) */
+  canManage: boolean
+  cohorts: CohortOption[]
+  updating: boolean
+  error: string | null
+  onSave: (input: AccessSettingsInput) => Promise<boolean>
+  /** Students in the waiting room; only shown to hosts who may admit them */
+  waiting: AdmissionItem[]
+  canAdmit: boolean
+  admitting: boolean
+  admissionsError: string | null
+  onDecide: (status: 'admitted' | 'denied', ids?: AdmissionItem['id'][]) => Promise<boolean>
+}
+
+/** Who may join the session, and the waiting room */
+export function SessionAccessPanel({
+  access,
+  canManage,
+  cohorts,
+  updating,
+  error,
+  onSave,
+  waiting,
+  canAdmit,
+  admitting,
+  admissionsError,
+  onDecide,
+}: SessionAccessPanelProps) {
+  const [draft, setDraft] = useState<AccessDraft>(() => accessDraftFrom(access))
+
+  // Show the saved settings after saving (or a change from another host)
+  useEffect(() => {
+    setDraft(accessDraftFrom(access))
+  }, [access])
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-1.5 text-xs font-medium">
+            <Lock className="h-3 w-3" />
+            Who may join
+          </h3>
+          {updating && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+        </div>
+        <AccessModeFields
+          value={draft}
+          onChange={setDraft}
+          cohorts={cohorts}
+          disabled={!canManage || updating}
+        />
+        {canManage && (
+          <button
+            onClick={() => onSave(accessInputFrom(draft))}
+            disabled={updating}
+            className="rounded-md border bg-background px-2 py-1 text-xs transition-colors hover:bg-accent disabled:opacity-50"
+          >
+            Save access
+          </button>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Students already in the session keep their place when you change this.
+        </p>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+
+      {canAdmit && access.accessMode === 'waitingRoom' && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xs font-medium">Waiting room ({waiting.length})</h3>
+            {waiting.length > 1 && (
+              <button
+                onClick={() => onDecide('admitted')}
+                disabled={admitting}
+                className="rounded-md border bg-background px-2 py-0.5 text-xs transition-colors hover:bg-accent disabled:opacity-50"
+              >
+                Admit all
+              </button>
+            )}
+          </div>
+          {waiting.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Nobody is waiting.</p>
+          ) : (
+            <ul className="space-y-1.5">
+              {waiting.map((admission) => (
+                <li
+                  key={admission.id}
+                  className="flex items-center justify-between gap-2 rounded-md border bg-background px-2 py-1.5 text-xs"
+                >
+                  <span className="min-w-0 truncate" title={admission.user.email}>
+                    {admission.user.name}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => onDecide('admitted', [admission.id])}
+                      disabled={admitting}
+                      className="flex items-center gap-1 rounded-md border px-2 py-0.5 transition-colors hover:bg-accent disabled:opacity-50"
+                    >
+                      <Check className="h-3 w-3" />
+                      Admit
+                    </button>
+                    <button
+                      onClick={() => onDecide('denied', [admission.id])}
+                      disabled={admitting}
+                      className="flex items-center gap-1 rounded-md border px-2 py-0.5 text-muted-foreground transition-colors hover:bg-accent hover:text-destructive disabled:opacity-50"
+                    >
+                      <X className="h-3 w-3" />
+                      Deny
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          {admissionsError && <p className="text-xs text-destructive">{admissionsError}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Coffee, Loader2, Pause, Play } from 'lucide-react'
+import { cn } from '@/utilities/ui'
+
+const BREAK_OPTIONS = [5, 10, 15, 30]
+
+function formatBackAt(resumeAt: string | null | undefined): string {
+  if (!resumeAt) return 'Break — the trainer will be back shortly'
+  const time = new Date(resumeAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  return `Break — back at ${time}`
+}
+
+interface SessionBreakOverlayProps {
+  resumeAt: string | null | undefined
+  className?: string
+}
+
+/**
+ * Shown to students while the trainer is on a break. They can dismiss it and keep
+ * working on their own code; a slim banner stays until the session resumes.
+ */
+export function SessionBreakOverlay({ resumeAt, className }: SessionBreakOverlayProps) {
+  const [dismissed, setDismissed] = useState(false)
+
+  if (dismissed) {
+    return (
+      <div
+        className={cn(
+          'flex items-center gap-2 border-b bg-amber-500/10 px-4 py-2 text-xs text-amber-700 dark:text-amber-400',
+          className,
+        )}
+      >
+        <Coffee className="h-3 w-3" />
+        <span suppressHydrationWarning>{formatBackAt(resumeAt)}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className={cn(
+        'absolute inset-0 z-40 flex items-center justify-center bg-background/80 backdrop-blur-sm',
+        className,
+      )}
+    >
+      <div className="space-y-4 rounded-lg border bg-card p-8 text-center shadow-lg">
+        <Coffee className="mx-auto h-10 w-10 text-primary" />
+        <h2 className="text-xl font-semibold" suppressHydrationWarning>
+          {formatBackAt(resumeAt)}
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          The trainer&apos;s code won&apos;t change until the session resumes.
+        </p>
+        <button
+          onClick={() => setDismissed(true)}
+          className="rounded-md border px-4 py-2 text-sm transition-colors hover:bg-accent"
+        >
+          Keep working on my code
+        </button>
+      </div>
+    </div>
+  )
+}
+
+interface SessionBreakControlProps {
+  paused: boolean
+  resumeAt: string | null
+  updating: boolean
+  disabled?: boolean
+  onPause: (breakMinutes?: number) => void
+  onResume: () => void
+}
+
+/** Trainer header control: pick a break length, or resume */
+export function SessionBreakControl({
+  paused,
+  resumeAt,
+  updating,
+  disabled = false,
+  onPause,
+  onResume,
+}: SessionBreakControlProps) {
+  const [choosing, setChoosing] = useState(false)
+  const buttonClassName =
+    'flex items-center gap-1.5 rounded-md border bg-background px-3 py-1.5 text-xs hover:bg-accent transition-colors disabled:opacity-50'
+
+  if (paused) {
+    return (
+      <button
+        onClick={onResume}
+        disabled={updating || disabled}
+        className={cn(buttonClassName, 'border-amber-500 text-amber-700 dark:text-amber-400')}
+        title={formatBackAt(resumeAt)}
+      >
+        {updating ? <Loader2 className="h-3 w-3 animate-spin" /> : <Play className="h-3 w-3" />}
+        Resume
+      </button>
+    )
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setChoosing((prev) => !prev)}
+        disabled={updating || disabled}
+        className={buttonClassName}
+      >
+        {updating ? <Loader2 className="h-3 w-3 animate-spin" /> : <Pause className="h-3 w-3" />}
+        Break
+      </button>
+      {choosing && (
+        <div className="absolute right-0 top-full z-50 mt-1 w-40 rounded-md border bg-popover p-1 shadow-md">
+          {BREAK_OPTIONS.map((minutes) => (
+            <button
+              key={minutes}
+              onClick={() => {
+                setChoosing(false)
+                onPause(minutes)
+              }}
+              className="w-full rounded px-2 py-1 text-left text-xs hover:bg-accent"
+            >
+              {minutes} minutes
+            </button>
+          ))}
+          <button
+            onClick={() => {
+              setChoosing(false)
+              onPause()
+            }}
+            className="w-full rounded px-2 py-1 text-left text-xs hover:bg-accent"
+          >
+            Until I&apos;m back
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,450 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import {
+  Code2,
+  Download,
+  Lock,
+  Loader2,
+  MessageSquare,
+  MessageSquareReply,
+  Send,
+  Trash2,
+  VolumeX,
+  Volume2,
+  X,
+} from 'lucide-react'
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
+import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism'
+import { SUPPORTED_LANGUAGES } from '@/components/LiveCodePlayground/types'
+import type { ChatSettingsChange, SendChatMessage } from '@/hooks/session/useSessionChat'
+import type { ChatMessageItem, ChatSettings } from '@/services/sessionChat'
+import { cn } from '@/utilities/ui'
+
+const SLOW_MODE_OPTIONS = [
+  { label: 'Off', seconds: 0 },
+  { label: '10s', seconds: 10 },
+  { label: '30s', seconds: 30 },
+  { label: '1 min', seconds: 60 },
+  { label: '5 min', seconds: 300 },
+]
+
+const highlightLanguageOf = (language: string | null) =>
+  SUPPORTED_LANGUAGES.find((lang) => lang.id === language)?.monacoLanguage || 'text'
+
+function privateLabel(message: ChatMessageItem, viewer: { id: number; staff: boolean }): string {
+  if (!viewer.staff) return message.sender.staff ? 'Private reply' : 'Private · to the trainer'
+  return `Private · ${message.thread?.name ?? 'student'}`
+}
+
+interface ChatMessageRowProps {
+  message: ChatMessageItem
+  viewer: { id: number; staff: boolean }
+  muted: boolean
+  onRemove?: () => void
+  onToggleMute?: () => void
+  onReplyPrivately?: () => void
+}
+
+function ChatMessageRow({
+  message,
+  viewer,
+  muted,
+  onRemove,
+  onToggleMute,
+  onReplyPrivately,
+}: ChatMessageRowProps) {
+  const own = message.sender.id === viewer.id
+  const moderate = viewer.staff && !message.deleted
+
+  return (
+    <li
+      className={cn(
+        'group space-y-1 rounded-md px-2 py-1.5 text-xs',
+        message.visibility === 'private' && 'border border-dashed border-primary/40 bg-primary/5',
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <span className={cn('font-medium', message.sender.staff && 'text-primary')}>
+          {own ? 'You' : message.sender.name}
+        </span>
+        {message.sender.staff && (
+          <span className="rounded bg-primary/10 px-1 text-[10px] text-primary">Trainer</span>
+        )}
+        {muted && <VolumeX className="h-3 w-3 text-muted-foreground" aria-label="Muted" />}
+        <span className="text-[10px] text-muted-foreground" suppressHydrationWarning>
+          {new Date(message.sentAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+        {message.visibility === 'private' && (
+          <span className="flex items-center gap-0.5 text-[10px] text-muted-foreground">
+            <Lock className="h-2.5 w-2.5" />
+            {privateLabel(message, viewer)}
+          </span>
+        )}
+        {moderate && (
+          <div className="ml-auto hidden items-center gap-0.5 group-hover:flex">
+            {onReplyPrivately && (
+              <button
+                onClick={onReplyPrivately}
+                className="rounded p-0.5 text-muted-foreground hover:bg-accent"
+                title="Reply privately"
+              >
+                <MessageSquareReply className="h-3 w-3" />
+              </button>
+            )}
+            {onToggleMute && (
+              <button
+                onClick={onToggleMute}
+                className="rounded p-0.5 text-muted-foreground hover:bg-accent"
+                title={muted ? 'Unmute in chat' : 'Mute in chat'}
+              >
+                {muted ? <Volume2 className="h-3 w-3" /> : <VolumeX className="h-3 w-3" />}
+              </button>
+            )}
+            {onRemove && (
+              <button
+                onClick={onRemove}
+                className="rounded p-0.5 text-muted-foreground hover:bg-accent hover:text-destructive"
+                title="Remove message"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      {message.deleted ? (
+        <p className="italic text-muted-foreground">Message removed by a trainer</p>
+      ) : (
+        <>
+          {message.body && <p className="whitespace-pre-wrap break-words">{message.body}</p>}
+          {message.code && (
+            <SyntaxHighlighter
+              style={vscDarkPlus}
+              language={highlightLanguageOf(message.language)}
+              PreTag="div"
+              customStyle={{ margin: 0, fontSize: '0.75rem', maxHeight: '16rem' }}
+            >
+              {message.code.replace(/\n$/, '')}
+            </SyntaxHighlighter>
+          )}
+        </>
+      )}
+    </li>
+  )
+}
+
+interface SessionChatPanelProps {
+  messages: ChatMessageItem[]
+  settings: ChatSettings | null
+  viewer: { id: number; staff: boolean }
+  /** Sending is only possible while the session is running */
+  sessionActive: boolean
+  sending: boolean
+  error: string | null
+  onSend: (message: SendChatMessage) => Promise<boolean>
+  onRemove: (id: ChatMessageItem['id']) => void
+  onUpdateSettings: (change: ChatSettingsChange) => void
+  /** Staff: link to the Markdown transcript */
+  exportUrl?: string
+  /** Code and language offered by "Attach my code" */
+  currentCode?: string
+  currentLanguage?: string
+  onClose?: () => void
+  className?: string
+}
+
+/**
+ * Session chat for trainers and students: public messages, private student-trainer
+ * threads and code blocks. Staff also get moderation (remove, mute, slow mode) and the export.
+ */
+export function SessionChatPanel({
+  messages,
+  settings,
+  viewer,
+  sessionActive,
+  sending,
+  error,
+  onSend,
+  onRemove,
+  onUpdateSettings,
+  exportUrl,
+  currentCode,
+  currentLanguage,
+  onClose,
+  className,
+}: SessionChatPanelProps) {
+  const [body, setBody] = useState('')
+  const [code, setCode] = useState('')
+  const [language, setLanguage] = useState(currentLanguage || 'javascript')
+  const [showCode, setShowCode] = useState(false)
+  const [privately, setPrivately] = useState(false)
+  const [replyTo, setReplyTo] = useState<{ id: number; name: string } | null>(null)
+  const [privateOnly, setPrivateOnly] = useState(false)
+  const listRef = useRef<HTMLUListElement>(null)
+
+  const mutedUserIds = settings?.mutedUserIds ?? []
+  const visible = privateOnly
+    ? messages.filter((message) => message.visibility === 'private')
+    : messages
+
+  // Keep the newest message in view
+  const lastId = messages[messages.length - 1]?.id
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight })
+  }, [lastId, privateOnly])
+
+  const mutedPublicly = !viewer.staff && !!settings?.muted
+  const isPrivate = viewer.staff ? replyTo != null : privately || mutedPublicly
+  const canSend =
+    sessionActive && !sending && (body.trim() !== '' || (showCode && code.trim() !== ''))
+
+  const handleSend = async () => {
+    if (!canSend) return
+    const sent = await onSend({
+      body: body.trim() || null,
+      code: showCode && code.trim() ? code : null,
+      language: showCode && code.trim() ? language : null,
+      visibility: isPrivate ? 'private' : 'public',
+      threadUserId: viewer.staff ? (replyTo?.id ?? null) : null,
+    })
+    if (sent) {
+      setBody('')
+      setCode('')
+      setShowCode(false)
+    }
+  }
+
+  return (
+    <div className={cn('flex h-full flex-col bg-card', className)}>
+      <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+        <h3 className="text-sm font-medium">Chat</h3>
+        <div className="flex items-center gap-1">
+          {viewer.staff && (
+            <>
+              <button
+                onClick={() => setPrivateOnly((prev) => !prev)}
+                className={cn(
+                  'rounded-md border px-2 py-0.5 text-[10px] transition-colors',
+                  privateOnly ? 'border-primary bg-primary/10 text-primary' : 'hover:bg-accent',
+                )}
+              >
+                Private only
+              </button>
+              <select
+                value={settings?.slowModeSeconds ?? 0}
+                onChange={(e) => onUpdateSettings({ slowModeSeconds: Number(e.target.value) })}
+                disabled={!settings}
+                className="rounded-md border bg-background px-1 py-0.5 text-[10px]"
+                title="Slow mode: how long students wait between messages"
+              >
+                {SLOW_MODE_OPTIONS.map((option) => (
+                  <option key={option.seconds} value={option.seconds}>
+                    Slow mode: {option.label}
+                  </option>
+                ))}
+              </select>
+              {exportUrl && (
+                <a
+                  href={exportUrl}
+                  className="rounded-md p-1 text-muted-foreground transition-colors hover:bg-accent"
+                  title="Export chat (Markdown)"
+                >
+                  <Download className="h-3.5 w-3.5" />
+                </a>
+              )}
+            </>
+          )}
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="rounded-md p-1 transition-colors hover:bg-accent"
+              aria-label="Close chat"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ul ref={listRef} className="flex-1 space-y-1 overflow-y-auto p-2">
+        {visible.length === 0 ? (
+          <li className="py-8 text-center text-xs text-muted-foreground">
+            {privateOnly ? 'No private questions yet.' : 'No messages yet.'}
+          </li>
+        ) : (
+          visible.map((message) => {
+            const studentSender = !message.sender.staff
+            const muted = mutedUserIds.includes(message.sender.id)
+            return (
+              <ChatMessageRow
+                key={message.id}
+                message={message}
+                viewer={viewer}
+                muted={viewer.staff && muted}
+                onRemove={() => onRemove(message.id)}
+                onToggleMute={
+                  studentSender
+                    ? () => onUpdateSettings({ userId: message.sender.id, muted: !muted })
+                    : undefined
+                }
+                onReplyPrivately={
+                  message.thread || studentSender
+                    ? () => setReplyTo(message.thread ?? message.sender)
+                    : undefined
+                }
+              />
+            )
+          })
+        )}
+      </ul>
+
+      <div className="space-y-2 border-t p-2">
+        {!viewer.staff && settings && settings.slowModeSeconds > 0 && (
+          <p className="text-[10px] text-muted-foreground">
+            Slow mode: one message every {settings.slowModeSeconds}s
+          </p>
+        )}
+        {mutedPublicly && (
+          <p className="text-[10px] text-amber-700 dark:text-amber-400">
+            A trainer muted you in the chat. Your messages go privately to the trainer.
+          </p>
+        )}
+        {replyTo && (
+          <div className="flex items-center justify-between rounded-md bg-primary/10 px-2 py-1 text-[10px] text-primary">
+            <span className="flex items-center gap-1">
+              <Lock className="h-2.5 w-2.5" />
+              Private reply to {replyTo.name}
+            </span>
+            <button onClick={() => setReplyTo(null)} aria-label="Reply publicly instead">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {showCode && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value)}
+                className="rounded-md border bg-background px-1 py-0.5 text-[10px]"
+              >
+                {SUPPORTED_LANGUAGES.map((lang) => (
+                  <option key={lang.id} value={lang.id}>
+                    {lang.name}
+                  </option>
+                ))}
+              </select>
+              {currentCode != null && (
+                <button
+                  onClick={() => {
+                    setCode(currentCode)
+                    if (currentLanguage) setLanguage(currentLanguage)
+                  }}
+                  className="rounded-md border px-2 py-0.5 text-[10px] transition-colors hover:bg-accent"
+                >
+                  Attach my code
+                </button>
+              )}
+            </div>
+            <textarea
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Paste code"
+              rows={5}
+              spellCheck={false}
+              className="w-full resize-y rounded-md border bg-background px-2 py-1.5 font-mono text-xs focus:outline-none focus:ring-1 focus:ring-ring"
+            />
+          </div>
+        )}
+
+        <div className="flex items-end gap-1">
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault()
+                handleSend()
+              }
+            }}
+            placeholder={
+              !sessionActive
+                ? 'The session has ended'
+                : isPrivate
+                  ? 'Private message'
+                  : 'Message everyone'
+            }
+            disabled={!sessionActive}
+            rows={2}
+            className="flex-1 resize-none rounded-md border bg-background px-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-ring disabled:opacity-50"
+          />
+          <div className="flex flex-col gap-1">
+            <button
+              onClick={() => setShowCode((prev) => !prev)}
+              className={cn(
+                'rounded-md border p-1.5 transition-colors',
+                showCode ? 'border-primary bg-primary/10 text-primary' : 'hover:bg-accent',
+              )}
+              title="Add a code block"
+            >
+              <Code2 className="h-3.5 w-3.5" />
+            </button>
+            <button
+              onClick={handleSend}
+              disabled={!canSend}
+              className="rounded-md bg-primary p-1.5 text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+              aria-label="Send"
+            >
+              {sending ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Send className="h-3.5 w-3.5" />
+              )}
+            </button>
+          </div>
+        </div>
+
+        {!viewer.staff && !mutedPublicly && (
+          <label className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={privately}
+              onChange={(e) => setPrivately(e.target.checked)}
+            />
+            Ask the trainer privately
+          </label>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface ChatToggleButtonProps {
+  open: boolean
+  unreadCount: number
+  onClick: () => void
+}
+
+/** Header button that opens the chat, with a badge for unread messages */
+export function ChatToggleButton({ open, unreadCount, onClick }: ChatToggleButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        'relative flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-xs transition-colors',
+        open ? 'border-primary bg-primary/10 text-primary' : 'bg-background hover:bg-accent',
+      )}
+    >
+      <MessageSquare className="h-3 w-3" />
+      <span>Chat</span>
+      {unreadCount > 0 && !open && (
+        <span className="absolute -right-1.5 -top-1.5 min-w-4 rounded-full bg-primary px-1 text-center text-[10px] leading-4 text-primary-foreground">
+          {unreadCount > 99 ? '99+' : unreadCount}
+        </span>
+      )}
+    </button>
+  )
+}
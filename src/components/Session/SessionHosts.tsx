@@ -0,0 +1,169 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Crown, Loader2, Plus, Trash2 } from 'lucide-react'
+import type { CoHostChange } from '@/hooks/session/useSessionHosts'
+import type { SessionHosts, SessionPermission } from '@/services/sessionHosts'
+
+const PERMISSION_LABELS: Record<SessionPermission, string> = {
+  broadcast: 'Broadcast',
+  monitor: 'Monitor',
+  end: 'End session',
+  helpQueue: 'Help queue',
+}
+
+const DEFAULT_PERMISSIONS: SessionPermission[] = ['broadcast', 'monitor', 'helpQueue']
+
+interface SessionHostsPanelProps {
+  hosts: SessionHosts
+  currentUserId: number | null
+  /** The viewer may add, remove and change co-hosts */
+  canManage: boolean
+  /** The viewer may hand the session over (owner, managers, admins) */
+  canTransfer: boolean
+  updating: boolean
+  error: string | null
+  onSave: (coHosts: CoHostChange[]) => Promise<boolean>
+  onTransfer: (userId: number) => Promise<boolean>
+}
+
+/** Co-hosts and teaching assistants of a session, with per-person permissions */
+export function SessionHostsPanel({
+  hosts,
+  currentUserId,
+  canManage,
+  canTransfer,
+  updating,
+  error,
+  onSave,
+  onTransfer,
+}: SessionHostsPanelProps) {
+  const [email, setEmail] = useState('')
+
+  const current: CoHostChange[] = hosts.coHosts.map((coHost) => ({
+    userId: coHost.user.id,
+    permissions: coHost.permissions,
+  }))
+
+  const togglePermission = (userId: number, permission: SessionPermission) =>
+    onSave(
+      hosts.coHosts.map((coHost) => ({
+        userId: coHost.user.id,
+        permissions:
+          coHost.user.id !== userId
+            ? coHost.permissions
+            : coHost.permissions.includes(permission)
+              ? coHost.permissions.filter((p) => p !== permission)
+              : [...coHost.permissions, permission],
+      })),
+    )
+
+  const remove = (userId: number) =>
+    onSave(current.filter((coHost) => 'userId' in coHost && coHost.userId !== userId))
+
+  const add = async () => {
+    if (!email.trim()) return
+    if (await onSave([...current, { email: email.trim(), permissions: DEFAULT_PERMISSIONS }])) {
+      setEmail('')
+    }
+  }
+
+  const transfer = (userId: number, name: string) => {
+    if (window.confirm(`Make ${name} the owner of this session?`)) onTransfer(userId)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-medium">Co-hosts</h3>
+        {updating && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+      </div>
+
+      {hosts.trainer && (
+        <p className="flex items-center gap-1.5 text-xs">
+          <Crown className="h-3 w-3 text-amber-500" />
+          <span className="font-medium">{hosts.trainer.name}</span>
+          <span className="text-muted-foreground">
+            owner{hosts.trainer.id === currentUserId && ' (you)'}
+          </span>
+        </p>
+      )}
+
+      {hosts.coHosts.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No co-hosts yet. Add a trainer or teaching assistant by email.
+        </p>
+      ) : (
+        <ul className="space-y-1.5">
+          {hosts.coHosts.map((coHost) => (
+            <li
+              key={coHost.user.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-md border bg-background px-2 py-1.5 text-xs"
+            >
+              <span className="min-w-0 truncate" title={coHost.user.email}>
+                {coHost.user.name}
+                {coHost.user.id === currentUserId && ' (you)'}
+              </span>
+              <div className="flex flex-wrap items-center gap-2">
+                {(Object.keys(PERMISSION_LABELS) as SessionPermission[]).map((permission) => (
+                  <label key={permission} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={coHost.permissions.includes(permission)}
+                      disabled={!canManage || updating}
+                      onChange={() => togglePermission(coHost.user.id, permission)}
+                    />
+                    {PERMISSION_LABELS[permission]}
+                  </label>
+                ))}
+                {canTransfer && (
+                  <button
+                    onClick={() => transfer(coHost.user.id, coHost.user.name)}
+                    disabled={updating}
+                    className="rounded-md border px-2 py-0.5 transition-colors hover:bg-accent disabled:opacity-50"
+                    title="Hand the session over to this co-host"
+                  >
+                    Make owner
+                  </button>
+                )}
+                {canManage && (
+                  <button
+                    onClick={() => remove(coHost.user.id)}
+                    disabled={updating}
+                    className="rounded-md p-1 text-muted-foreground transition-colors hover:bg-accent hover:text-destructive disabled:opacity-50"
+                    aria-label={`Remove ${coHost.user.name}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canManage && (
+        <div className="flex gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && add()}
+            placeholder="co-host@example.com"
+            className="flex-1 rounded-md border bg-background px-2 py-1 text-xs"
+          />
+          <button
+            onClick={add}
+            disabled={updating || !email.trim()}
+            className="flex items-center gap-1.5 rounded-md border bg-background px-2 py-1 text-xs transition-colors hover:bg-accent disabled:opacity-50"
+          >
+            <Plus className="h-3 w-3" />
+            Add co-host
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
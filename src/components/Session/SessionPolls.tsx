@@ -0,0 +1,553 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Check, ChevronDown, ChevronUp, Loader2, Plus, Timer, Trash2, X } from 'lucide-react'
+import { cn } from '@/utilities/ui'
+import { SimpleCodeViewer } from './SimpleCodeViewer'
+import type { OpenPollRequest } from '@/hooks/session/useSessionPolls'
+import type { PollAnswer, PollItem, PollKind } from '@/services/sessionPolls'
+
+const KIND_LABELS: Record<PollKind, string> = {
+  multiple_choice: 'Multiple choice',
+  short_answer: 'Short answer',
+  predict_output: 'Predict the output',
+}
+
+const DURATION_OPTIONS: Array<{ label: string; seconds: number | null }> = [
+  { label: '30 seconds', seconds: 30 },
+  { label: '1 minute', seconds: 60 },
+  { label: '2 minutes', seconds: 120 },
+  { label: '5 minutes', seconds: 300 },
+  { label: 'No time limit', seconds: null },
+]
+
+function useSecondsLeft(closesAt: string | null): number | null {
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    if (!closesAt) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [closesAt])
+  if (!closesAt) return null
+  return Math.max(0, Math.ceil((new Date(closesAt).getTime() - now) / 1000))
+}
+
+/** Countdown of a running poll, e.g. "0:42" */
+export function PollCountdown({
+  closesAt,
+  className,
+}: {
+  closesAt: string | null
+  className?: string
+}) {
+  const secondsLeft = useSecondsLeft(closesAt)
+  if (secondsLeft == null) return null
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 font-mono text-xs',
+        secondsLeft <= 10 ? 'text-destructive' : 'text-muted-foreground',
+        className,
+      )}
+      suppressHydrationWarning
+    >
+      <Timer className="h-3 w-3" />
+      {secondsLeft === 0
+        ? "Time's up"
+        : `${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`}
+    </span>
+  )
+}
+
+/** Live results: a bar per choice, or identical text answers grouped */
+export function PollResults({ poll }: { poll: PollItem }) {
+  const results = poll.results
+  if (!results) return null
+  const total = results.responseCount
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {total} answer{total !== 1 ? 's' : ''}
+        {results.correctCount != null && ` · ${results.correctCount} correct`}
+      </p>
+      {poll.kind === 'multiple_choice' ? (
+        <ul className="space-y-1.5">
+          {poll.options.map((option, index) => {
+            const count = results.optionCounts[index] ?? 0
+            const percent = total > 0 ? Math.round((count / total) * 100) : 0
+            const correct = poll.correctOption === index
+            return (
+              <li key={index} className="space-y-0.5">
+                <div className="flex justify-between gap-2 text-xs">
+                  <span className={cn('truncate', correct && 'font-medium text-success')}>
+                    {correct && <Check className="mr-1 inline h-3 w-3" />}
+                    {option}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {count} · {percent}%
+                  </span>
+                </div>
+                <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+                  <div
+                    className={cn('h-full rounded-full', correct ? 'bg-success' : 'bg-primary')}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      ) : (
+        <>
+          {poll.expectedAnswer && (
+            <div className="text-xs">
+              <span className="text-muted-foreground">Expected:</span>
+              <pre className="mt-0.5 whitespace-pre-wrap rounded-md border bg-muted/20 p-2 font-mono">
+                {poll.expectedAnswer}
+              </pre>
+            </div>
+          )}
+          <ul className="max-h-48 space-y-1 overflow-y-auto">
+            {results.answers.map((group) => (
+              <li
+                key={group.answer}
+                className={cn(
+                  'flex items-start justify-between gap-2 rounded-md border px-2 py-1 text-xs',
+                  group.correct === true && 'border-success/50 bg-success/10',
+                  group.correct === false && 'border-destructive/30',
+                )}
+              >
+                <pre className="whitespace-pre-wrap font-mono">{group.answer}</pre>
+                <span className="whitespace-nowrap text-muted-foreground">× {group.count}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
+
+interface PollComposerProps {
+  updating: boolean
+  onOpen: (poll: OpenPollRequest) => Promise<boolean>
+  onCancel: () => void
+}
+
+function PollComposer({ updating, onOpen, onCancel }: PollComposerProps) {
+  const [kind, setKind] = useState<PollKind>('multiple_choice')
+  const [question, setQuestion] = useState('')
+  const [options, setOptions] = useState(['', ''])
+  const [correctOption, setCorrectOption] = useState<number | null>(null)
+  const [expectedAnswer, setExpectedAnswer] = useState('')
+  const [useBroadcastCode, setUseBroadcastCode] = useState(false)
+  const [durationSeconds, setDurationSeconds] = useState<number | null>(60)
+
+  const changeKind = (next: PollKind) => {
+    setKind(next)
+    if (next === 'predict_output') {
+      setUseBroadcastCode(true)
+      if (!question.trim()) setQuestion('What does this code print?')
+    }
+  }
+
+  const canOpen =
+    question.trim() !== '' &&
+    (kind !== 'multiple_choice' || options.filter((option) => option.trim()).length >= 2)
+
+  const handleOpen = async () => {
+    const choices = options.map((option) => option.trim())
+    const opened = await onOpen({
+      kind,
+      question,
+      options: kind === 'multiple_choice' ? choices.filter(Boolean) : undefined,
+      correctOption:
+        kind === 'multiple_choice' && correctOption != null && choices[correctOption]
+          ? choices.slice(0, correctOption).filter(Boolean).length
+          : null,
+      expectedAnswer: kind !== 'multiple_choice' ? expectedAnswer : null,
+      useBroadcastCode,
+      durationSeconds,
+    })
+    if (opened) onCancel()
+  }
+
+  const inputClassName =
+    'w-full rounded-md border bg-background px-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-ring'
+
+  return (
+    <div className="space-y-2 rounded-md border bg-card p-3">
+      <div className="flex gap-1">
+        {(Object.keys(KIND_LABELS) as PollKind[]).map((option) => (
+          <button
+            key={option}
+            onClick={() => changeKind(option)}
+            className={cn(
+              'rounded-md px-2 py-1 text-xs font-medium transition-colors',
+              kind === option
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:bg-muted',
+            )}
+          >
+            {KIND_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={question}
+        onChange={(e) => setQuestion(e.target.value)}
+        placeholder="Question"
+        rows={2}
+        className={cn(inputClassName, 'resize-y')}
+      />
+
+      {kind === 'multiple_choice' && (
+        <div className="space-y-1">
+          {options.map((option, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="correct-option"
+                checked={correctOption === index}
+                onChange={() => setCorrectOption(index)}
+                title="Mark as the correct answer"
+              />
+              <input
+                value={option}
+                onChange={(e) =>
+                  setOptions((prev) => prev.map((o, i) => (i === index ? e.target.value : o)))
+                }
+                placeholder={`Choice ${index + 1}`}
+                className={inputClassName}
+              />
+              {options.length > 2 && (
+                <button
+                  onClick={() => {
+                    setOptions((prev) => prev.filter((_, i) => i !== index))
+                    setCorrectOption(null)
+                  }}
+                  className="rounded-md p-1 text-muted-foreground hover:bg-accent"
+                  aria-label="Remove choice"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            {options.length < 8 && (
+              <button
+                onClick={() => setOptions((prev) => [...prev, ''])}
+                className="flex items-center gap-1 text-xs text-primary hover:underline"
+              >
+                <Plus className="h-3 w-3" />
+                Add choice
+              </button>
+            )}
+            <button
+              onClick={() => setCorrectOption(null)}
+              className="text-[10px] text-muted-foreground hover:underline"
+            >
+              No correct answer (opinion poll)
+            </button>
+          </div>
+        </div>
+      )}
+
+      {kind !== 'multiple_choice' && (
+        <>
+          <label className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={useBroadcastCode}
+              onChange={(e) => setUseBroadcastCode(e.target.checked)}
+            />
+            Show my current broadcast code with the question
+          </label>
+          <textarea
+            value={expectedAnswer}
+            onChange={(e) => setExpectedAnswer(e.target.value)}
+            placeholder={
+              useBroadcastCode
+                ? 'Expected answer (leave empty to use the output of your last run)'
+                : 'Expected answer (optional)'
+            }
+            rows={2}
+            className={cn(inputClassName, 'resize-y font-mono')}
+          />
+        </>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <select
+          value={durationSeconds ?? ''}
+          onChange={(e) => setDurationSeconds(e.target.value ? Number(e.target.value) : null)}
+          className="rounded-md border bg-background px-2 py-1 text-xs"
+        >
+          {DURATION_OPTIONS.map((option) => (
+            <option key={option.label} value={option.seconds ?? ''}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="rounded-md border px-3 py-1 text-xs transition-colors hover:bg-accent"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleOpen}
+            disabled={!canOpen || updating}
+            className="flex items-center gap-1 rounded-md bg-primary px-3 py-1 text-xs font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+          >
+            {updating && <Loader2 className="h-3 w-3 animate-spin" />}
+            Start poll
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface SessionPollsPanelProps {
+  polls: PollItem[]
+  activePoll: PollItem | null
+  updating: boolean
+  error: string | null
+  onOpen: (poll: OpenPollRequest) => Promise<boolean>
+  onClose: (id: PollItem['id']) => void
+  className?: string
+}
+
+/** Trainer: start a poll, watch the answers come in, look back at earlier ones */
+export function SessionPollsPanel({
+  polls,
+  activePoll,
+  updating,
+  error,
+  onOpen,
+  onClose,
+  className,
+}: SessionPollsPanelProps) {
+  const [composing, setComposing] = useState(false)
+  const [showPast, setShowPast] = useState(false)
+  const latest = activePoll ?? polls[polls.length - 1] ?? null
+  const past = polls.filter((poll) => poll.id !== latest?.id).reverse()
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-medium">Polls</h3>
+        {!composing && (
+          <button
+            onClick={() => setComposing(true)}
+            className="flex items-center gap-1 rounded-md border bg-background px-2 py-1 text-xs transition-colors hover:bg-accent"
+          >
+            <Plus className="h-3 w-3" />
+            New poll
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {composing && (
+        <PollComposer updating={updating} onOpen={onOpen} onCancel={() => setComposing(false)} />
+      )}
+
+      {latest ? (
+        <div className="space-y-2 rounded-md border bg-card p-3">
+          <div className="flex items-start justify-between gap-2">
+            <div className="space-y-0.5">
+              <p className="text-[10px] uppercase text-muted-foreground">
+                {KIND_LABELS[latest.kind]} · {latest.status === 'open' ? 'running' : 'closed'}
+              </p>
+              <p className="text-sm font-medium">{latest.question}</p>
+            </div>
+            {latest.status === 'open' && (
+              <div className="flex flex-shrink-0 items-center gap-2">
+                <PollCountdown closesAt={latest.closesAt} />
+                <button
+                  onClick={() => onClose(latest.id)}
+                  disabled={updating}
+                  className="rounded-md border px-2 py-1 text-xs transition-colors hover:bg-accent disabled:opacity-50"
+                >
+                  Close poll
+                </button>
+              </div>
+            )}
+          </div>
+          {latest.code && (
+            <SimpleCodeViewer code={latest.code} language={latest.language || undefined} />
+          )}
+          <PollResults poll={latest} />
+        </div>
+      ) : (
+        !composing && <p className="text-xs text-muted-foreground">No polls yet.</p>
+      )}
+
+      {past.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowPast((prev) => !prev)}
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          >
+            {showPast ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+            Earlier polls ({past.length})
+          </button>
+          {showPast && (
+            <ul className="mt-2 space-y-2">
+              {past.map((poll) => (
+                <li key={poll.id} className="space-y-1 rounded-md border bg-card p-2">
+                  <p className="text-xs font-medium">{poll.question}</p>
+                  <PollResults poll={poll} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface StudentPollCardProps {
+  poll: PollItem
+  answering: boolean
+  error: string | null
+  onAnswer: (answer: PollAnswer) => void
+  /** Hide a closed poll's results */
+  onDismiss: () => void
+}
+
+/** Student: the running poll in a corner card, then its results once it closes */
+export function StudentPollCard({
+  poll,
+  answering,
+  error,
+  onAnswer,
+  onDismiss,
+}: StudentPollCardProps) {
+  const [collapsed, setCollapsed] = useState(false)
+  const [optionIndex, setOptionIndex] = useState<number | null>(poll.myAnswer?.optionIndex ?? null)
+  const [text, setText] = useState(poll.myAnswer?.answer ?? '')
+  const secondsLeft = useSecondsLeft(poll.status === 'open' ? poll.closesAt : null)
+  const open = poll.status === 'open' && secondsLeft !== 0
+  const answered = poll.myAnswer != null
+
+  if (collapsed) {
+    return (
+      <button
+        onClick={() => setCollapsed(false)}
+        className="fixed bottom-4 right-4 z-40 flex items-center gap-2 rounded-full border bg-card px-4 py-2 text-xs shadow-lg"
+      >
+        <span className="font-medium">{open ? 'Poll running' : 'Poll results'}</span>
+        {open && <PollCountdown closesAt={poll.closesAt} />}
+      </button>
+    )
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-96 max-w-[calc(100vw-2rem)] space-y-3 rounded-lg border bg-card p-4 shadow-lg">
+      <div className="flex items-start justify-between gap-2">
+        <div className="space-y-0.5">
+          <p className="text-[10px] uppercase text-muted-foreground">{KIND_LABELS[poll.kind]}</p>
+          <p className="text-sm font-medium">{poll.question}</p>
+        </div>
+        <div className="flex flex-shrink-0 items-center gap-1">
+          {open && <PollCountdown closesAt={poll.closesAt} />}
+          <button
+            onClick={() => (open ? setCollapsed(true) : onDismiss())}
+            className="rounded-md p-1 text-muted-foreground hover:bg-accent"
+            aria-label={open ? 'Minimize poll' : 'Close results'}
+          >
+            {open ? <ChevronDown className="h-4 w-4" /> : <X className="h-4 w-4" />}
+          </button>
+        </div>
+      </div>
+
+      {poll.code && (
+        <SimpleCodeViewer
+          code={poll.code}
+          language={poll.language || undefined}
+          className="max-h-48"
+        />
+      )}
+
+      {open ? (
+        <>
+          {poll.kind === 'multiple_choice' ? (
+            <div className="space-y-1">
+              {poll.options.map((option, index) => (
+                <label
+                  key={index}
+                  className={cn(
+                    'flex cursor-pointer items-center gap-2 rounded-md border px-2 py-1.5 text-xs transition-colors hover:bg-accent',
+                    optionIndex === index && 'border-primary bg-primary/10',
+                  )}
+                >
+                  <input
+                    type="radio"
+                    name={`poll-${poll.id}`}
+                    checked={optionIndex === index}
+                    onChange={() => setOptionIndex(index)}
+                  />
+                  {option}
+                </label>
+              ))}
+            </div>
+          ) : (
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={poll.kind === 'predict_output' ? 'The exact output' : 'Your answer'}
+              rows={3}
+              className="w-full resize-y rounded-md border bg-background px-2 py-1.5 font-mono text-xs focus:outline-none focus:ring-1 focus:ring-ring"
+            />
+          )}
+          {error && <p className="text-xs text-destructive">{error}</p>}
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] text-muted-foreground">
+              {answered ? 'Answer sent. You can change it until the poll closes.' : ''}
+            </span>
+            <button
+              onClick={() =>
+                onAnswer(poll.kind === 'multiple_choice' ? { optionIndex } : { answer: text })
+              }
+              disabled={
+                answering || (poll.kind === 'multiple_choice' ? optionIndex == null : !text.trim())
+              }
+              className="flex items-center gap-1 rounded-md bg-primary px-3 py-1 text-xs font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+            >
+              {answering && <Loader2 className="h-3 w-3 animate-spin" />}
+              {answered ? 'Update answer' : 'Send answer'}
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          {poll.myAnswer?.correct != null && (
+            <p
+              className={cn(
+                'text-xs font-medium',
+                poll.myAnswer.correct ? 'text-success' : 'text-destructive',
+              )}
+            >
+              {poll.myAnswer.correct ? 'You got it right!' : 'Not quite this time.'}
+            </p>
+          )}
+          {!answered && <p className="text-xs text-muted-foreground">You didn&apos;t answer.</p>}
+          {poll.results ? (
+            <PollResults poll={poll} />
+          ) : (
+            <p className="text-xs text-muted-foreground">Waiting for the results…</p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
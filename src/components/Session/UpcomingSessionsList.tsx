@@ -0,0 +1,188 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Calendar, CalendarPlus, Check, Clock, Loader2, Play, Radio, Users } from 'lucide-react'
+import { cn } from '@/utilities/ui'
+import { getLanguage } from '@/utilities/languageRegistry'
+import { useUpcomingSessions, type UpcomingSessionItem } from '@/hooks/session/useUpcomingSessions'
+
+interface UpcomingSessionsListProps {
+  /** Join a live session (students) */
+  onJoin?: (joinCode: string) => void
+  /** Open a scheduled session early or on time (trainers) */
+  onOpen?: (joinCode: string) => void
+  actionLoadingCode?: string | null
+  trainerId?: string | number
+  className?: string
+  emptyMessage?: string
+}
+
+function formatStartsIn(scheduledStart: string, now: number): string {
+  const minutes = Math.round((new Date(scheduledStart).getTime() - now) / 60_000)
+  if (minutes <= 0) return 'Starting soon'
+  if (minutes < 60) return `Starts in ${minutes} min`
+  const hours = Math.round(minutes / 60)
+  if (hours < 48) return `Starts in ${hours} h`
+  return `Starts in ${Math.round(hours / 24)} days`
+}
+
+function CalendarFeedButton() {
+  const [state, setState] = useState<'idle' | 'loading' | 'copied' | 'error'>('idle')
+
+  const copyFeedUrl = async () => {
+    setState('loading')
+    try {
+      const res = await fetch('/api/calendar', { credentials: 'include' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to get calendar feed')
+      await navigator.clipboard.writeText(data.url)
+      setState('copied')
+    } catch (e) {
+      console.error('Failed to copy calendar feed URL:', e)
+      setState('error')
+    }
+    setTimeout(() => setState('idle'), 3000)
+  }
+
+  return (
+    <button
+      onClick={copyFeedUrl}
+      disabled={state === 'loading'}
+      className="flex items-center gap-1.5 rounded-md border bg-background px-3 py-1.5 text-sm transition-colors hover:bg-accent disabled:opacity-50"
+      title="Copy a calendar feed URL to subscribe to in Google Calendar, Outlook or Apple Calendar"
+    >
+      {state === 'copied' ? <Check className="h-4 w-4" /> : <CalendarPlus className="h-4 w-4" />}
+      <span>
+        {state === 'copied'
+          ? 'Feed URL copied'
+          : state === 'error'
+            ? 'Could not copy'
+            : 'Subscribe in calendar'}
+      </span>
+    </button>
+  )
+}
+
+export function UpcomingSessionsList({
+  onJoin,
+  onOpen,
+  actionLoadingCode = null,
+  trainerId,
+  className,
+  emptyMessage = 'No upcoming sessions.',
+}: UpcomingSessionsListProps) {
+  const { sessions, isLoading, error } = useUpcomingSessions(trainerId)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Keep "Starts in" current between refetches
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const renderAction = (session: UpcomingSessionItem) => {
+    const busy = actionLoadingCode === session.joinCode
+    if (session.status === 'live' && onJoin) {
+      return (
+        <button
+          onClick={() => onJoin(session.joinCode)}
+          disabled={busy}
+          className="flex items-center gap-2 whitespace-nowrap rounded-md bg-primary px-4 py-2 font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Radio className="h-4 w-4" />}
+          <span>{busy ? 'Joining...' : 'Join'}</span>
+        </button>
+      )
+    }
+    if (session.status === 'scheduled' && onOpen) {
+      return (
+        <button
+          onClick={() => onOpen(session.joinCode)}
+          disabled={busy}
+          className="flex items-center gap-2 whitespace-nowrap rounded-md border px-4 py-2 font-medium transition-colors hover:bg-accent disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+          <span>{busy ? 'Opening...' : 'Open now'}</span>
+        </button>
+      )
+    }
+    return (
+      <span className="whitespace-nowrap text-sm text-muted-foreground">
+        {session.status === 'live' ? 'Live now' : formatStartsIn(session.scheduledStart, now)}
+      </span>
+    )
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Upcoming Sessions</h2>
+        <CalendarFeedButton />
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-destructive/20 bg-destructive/10 p-4 text-sm text-destructive">
+          Failed to load upcoming sessions. Please try again.
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          <span className="ml-2 text-muted-foreground">Loading sessions...</span>
+        </div>
+      ) : sessions.length === 0 ? (
+        <div className="rounded-lg border bg-card p-8 text-center">
+          <p className="text-muted-foreground">{emptyMessage}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {sessions.map((session) => (
+            <div key={session.id} className="rounded-lg border bg-card p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-lg font-semibold">{session.title}</h3>
+                    {session.status === 'live' && (
+                      <span className="rounded-full bg-green-500/20 px-2 py-0.5 text-xs font-medium text-green-700 dark:text-green-400">
+                        Live
+                      </span>
+                    )}
+                  </div>
+                  {session.description && (
+                    <p className="text-sm text-muted-foreground">{session.description}</p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                    <div className="flex items-center gap-1.5">
+                      <Calendar className="h-4 w-4" />
+                      <span suppressHydrationWarning>
+                        {new Date(session.scheduledStart).toLocaleString(undefined, {
+                          dateStyle: 'medium',
+                          timeStyle: 'short',
+                        })}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-1.5">
+                      <Clock className="h-4 w-4" />
+                      <span>{session.durationMinutes} min</span>
+                    </div>
+                    {session.trainer && (
+                      <div className="flex items-center gap-1.5">
+                        <Users className="h-4 w-4" />
+                        <span>{session.trainer.name}</span>
+                      </div>
+                    )}
+                    {session.language && (
+                      <span>{getLanguage(session.language)?.name ?? session.language}</span>
+                    )}
+                  </div>
+                </div>
+                {renderAction(session)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,3 +2,17 @@ export { ActiveSessionsList } from './ActiveSessionsList'
 export { SessionMetadataModal } from './SessionMetadataModal'
 export { SimpleCodeViewer } from './SimpleCodeViewer'
 
+export { UpcomingSessionsList } from './UpcomingSessionsList'
+export { HelpQueuePanel, RaiseHandButton } from './HelpQueue'
+export { CodePushPrompt, PushCodeModal } from './CodePush'
+export { PollCountdown, PollResults, SessionPollsPanel, StudentPollCard } from './SessionPolls'
+export { ChatToggleButton, SessionChatPanel } from './SessionChat'
+export {
+  BreakoutGroupsPanel,
+  BreakoutSetupModal,
+  GroupTabs,
+  GroupView,
+  GroupWorkspace,
+} from './BreakoutGroups'
+export { SessionHostsPanel } from './SessionHosts'
+export { AccessModeFields, SessionAccessPanel } from './SessionAccess'
@@ -14,21 +14,42 @@ import { WorkspaceHeader } from '@/components/Workspace/WorkspaceHeader'
 import { NoFileSelectedView } from '@/components/Workspace/NoFileSelectedView'
 import { FileExplorerSidebar } from '@/components/Workspace/FileExplorerSidebar'
 import { OutputPanelWrapper } from '@/components/Workspace/OutputPanelWrapper'
+import { TestResultsPanel } from '@/components/LiveCodePlayground/TestResultsPanel'
 import { AIAssistantPanelWrapper } from '@/components/Workspace/AIAssistantPanelWrapper'
 import { FileSwitchingOverlay } from '@/components/Workspace/FileSwitchingOverlay'
+import { RunHistoryDrawer } from '@/components/Workspace/RunHistoryDrawer'
 import { WorkspaceEditorHeader } from '@/components/Workspace/WorkspaceEditorHeader'
 import { useExplorerData } from '@/hooks/workspace/useExplorerData'
 import { useFileSelection } from '@/hooks/workspace/useFileSelection'
 import { useSaveCode } from '@/hooks/workspace/useSaveCode'
 import { useSaveAndRun } from '@/hooks/workspace/useSaveAndRun'
+import { useFolderRun } from '@/hooks/workspace/useFolderRun'
+import { useTestCases } from '@/hooks/workspace/useTestCases'
 import { useWorkspaceCodeExecution } from '@/hooks/workspace/useWorkspaceCodeExecution'
+import { useSessionEvents } from '@/hooks/session/useSessionEvents'
 import { executeCode, type ExecutionResult } from '@/services/codeExecution'
 import { SUPPORTED_LANGUAGES } from '@/components/LiveCodePlayground/types'
 import { inferLanguageFromFileName } from '@/utilities/languageInference'
+import { getLanguageByFileName } from '@/utilities/languageRegistry'
 import { WorkspaceViewControls } from '@/components/Workspace/WorkspaceViewControls'
 import { ViewToggleButton } from '@/components/Workspace/ViewToggleButton'
-import { Radio, Eye, File, ArrowLeft, Bell, RefreshCw, Terminal, LogOut, Loader2 } from 'lucide-react'
+import { Radio, Eye, File, ArrowLeft, Bell, RefreshCw, Terminal, LogOut, Loader2, Users } from 'lucide-react'
 import { cn } from '@/utilities/ui'
+import { SessionBreakOverlay } from '@/components/Session/SessionBreak'
+import { RaiseHandButton } from '@/components/Session/HelpQueue'
+import { useRaiseHand } from '@/hooks/session/useRaiseHand'
+import { useAttendanceHeartbeat } from '@/hooks/session/useAttendanceHeartbeat'
+import { CodePushPrompt } from '@/components/Session/CodePush'
+import { usePendingPushes } from '@/hooks/session/usePendingPushes'
+import { StudentPollCard } from '@/components/Session/SessionPolls'
+import { useStudentPoll } from '@/hooks/session/useStudentPoll'
+import { ChatToggleButton, SessionChatPanel } from '@/components/Session/SessionChat'
+import { useSessionChat } from '@/hooks/session/useSessionChat'
+import { GroupWorkspace } from '@/components/Session/BreakoutGroups'
+import { useMyGroup } from '@/hooks/session/useMyGroup'
+import type { CodePushAction, CodePushItem } from '@/services/codePushes'
+import { getLanguage, getPrimaryExtension } from '@/utilities/languageRegistry'
+import { lastErrorFromOutput } from '@/utilities/executionError'
 import { FileSelectionModal } from '@/components/Session/FileSelectionModal'
 import type { BasicFolderRef } from '@/utilities/workspaceScope'
 import { buildFolderPathChain } from '@/utilities/workspaceScope'
@@ -37,7 +58,7 @@ import { useCurrentUser } from '@/hooks/useCurrentUser'
 
 type WorkspaceFile = WorkspaceFileWithContent
 
-type ActiveTab = 'trainer' | 'mycode'
+type ActiveTab = 'trainer' | 'mycode' | 'group'
 
 // Helper function to check if an error is a cancellation error (should be ignored)
 function isCancellationError(error: unknown): boolean {
@@ -60,6 +81,10 @@ interface StudentSessionWorkspaceProps {
   sessionCode: string
   sessionTitle: string
   sessionActive: boolean
+  /** Start of the trainer's current break, if any */
+  pausedAt?: string | null
+  /** When the trainer said the break ends */
+  resumeAt?: string | null
 }
 
 type BasicUserLike = {
@@ -95,6 +120,8 @@ export function StudentSessionWorkspace({
   sessionCode,
   sessionTitle,
   sessionActive,
+  pausedAt = null,
+  resumeAt = null,
 }: StudentSessionWorkspaceProps) {
   const router = useRouter()
   // Tab state
@@ -115,6 +142,7 @@ export function StudentSessionWorkspace({
   const [code, setCode] = useState('')
   const [language, setLanguage] = useState('javascript')
   const [showAI, setShowAI] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
   const [showFileExplorer, setShowFileExplorer] = useState(true)
   const [showOutput, setShowOutput] = useState(true)
   const [workspaceMode, setWorkspaceMode] = useState<'explorer' | 'workspace'>('explorer')
@@ -189,18 +217,24 @@ export function StudentSessionWorkspace({
     saveCurrentFileRef.current = saveCurrentFile
   }, [saveCurrentFile])
 
+  // "Run folder" mode (entry point picked in the editor header)
+  const folderRun = useFolderRun({ selectedFileId: selectedFile?.id })
+
   // Code execution with session sync (scratchpad)
   const {
     executing,
     executionResult,
     handleRun,
+    handleStop,
     clearResult,
+    interactive,
   } = useWorkspaceCodeExecution({
     language,
     sessionCode,
     selectedFile,
     syncToSession: true,
     sessionSyncType: 'scratchpad',
+    folderRun: folderRun.target,
   })
 
   // Save and run (shared hook: save if dirty then run, simultaneous)
@@ -209,7 +243,23 @@ export function StudentSessionWorkspace({
     lastSavedCode,
     saveCurrentFile,
     handleRun,
+    awaitSave: folderRun.target != null,
+  })
+
+  // Test cases attached to the selected file (Tests tab next to the output)
+  const testCases = useTestCases({
+    fileId: selectedFile?.id,
+    language,
+    folderRun: folderRun.target,
   })
+  const runTests = testCases.runTests
+  const handleRunTests = useCallback(async () => {
+    // Folder runs read files from the server, so save pending edits first
+    if (folderRun.target && code !== lastSavedCode) {
+      await saveCurrentFile()
+    }
+    await runTests(code)
+  }, [folderRun.target, code, lastSavedCode, saveCurrentFile, runTests])
 
   /**
    * Legacy behavior (requested):
@@ -230,6 +280,11 @@ export function StudentSessionWorkspace({
       if (!res.ok) return
 
       const data = await res.json()
+      // Not let in yet (passcode, restricted or waiting-room session): join from /join
+      if (data.locked) {
+        router.replace('/join')
+        return
+      }
       setTrainerFileName(data.trainerWorkspaceFileName || '')
 
       // Set trainer language from API response
@@ -237,14 +292,9 @@ export function StudentSessionWorkspace({
         setTrainerLanguage(String(data.language))
       } else if (data.trainerWorkspaceFileName) {
         // Fallback: infer language from file extension
-        const fileName = String(data.trainerWorkspaceFileName)
-        const parts = fileName.split('.')
-        if (parts.length > 1) {
-          const ext = parts[parts.length - 1].toLowerCase()
-          const byExt = SUPPORTED_LANGUAGES.find((lang) => lang.extension.replace('.', '') === ext)
-          if (byExt) {
-            setTrainerLanguage(byExt.id)
-          }
+        const byExt = getLanguageByFileName(String(data.trainerWorkspaceFileName))
+        if (byExt) {
+          setTrainerLanguage(byExt.id)
         }
       }
 
@@ -265,7 +315,7 @@ export function StudentSessionWorkspace({
       }
       console.error('Failed to fetch trainer meta:', error)
     }
-  }, [sessionCode])
+  }, [sessionCode, router])
 
   const handleRefreshTrainerCode = useCallback(async () => {
     if (!sessionCode) return
@@ -311,9 +361,8 @@ export function StudentSessionWorkspace({
       }
 
       // Note: lastUpdate from useSaveCode is only for saves, not trainer updates
-      if (activeTab !== 'trainer') {
-        setHasNewTrainerUpdate(true)
-      }
+      // On the trainer tab the student has now seen the latest code
+      setHasNewTrainerUpdate(activeTab !== 'trainer')
     } catch (error) {
       // Ignore cancellation errors (from AbortController or manual cancellation)
       if (isCancellationError(error) || error instanceof Error && error.name === 'AbortError') {
@@ -325,6 +374,21 @@ export function StudentSessionWorkspace({
     }
   }, [sessionCode, activeTab])
 
+  // Trainer broadcasts are pushed: flag them (and show the new file name), but keep the
+  // student's view of the trainer code unchanged until they click Refresh.
+  useSessionEvents(
+    sessionCode,
+    (event) => {
+      if (event.type === 'code_broadcast') {
+        setTrainerFileName(event.data.trainerWorkspaceFileName || '')
+      }
+      if (event.type === 'code_broadcast' || event.type === 'execution_completed') {
+        setHasNewTrainerUpdate(true)
+      }
+    },
+    sessionActive
+  )
+
   // On mount, fetch just metadata so student can see trainer selected file name (without syncing code).
   useEffect(() => {
     const abortController = new AbortController()
@@ -468,8 +532,100 @@ export function StudentSessionWorkspace({
     }
   }, [leavingSession, router, sessionCode])
 
+  // Attendance: heartbeats while the page is open (join / leave are recorded by their routes)
+  useAttendanceHeartbeat(sessionCode, sessionActive)
+
+  // Raise hand: the trainer sees the code open in "My Code" and the last failed run
+  const raiseHand = useRaiseHand(sessionCode, sessionActive)
+  const { raise: raiseHandWithCode } = raiseHand
+  const handleRaiseHand = useCallback(() => {
+    raiseHandWithCode({
+      code,
+      language,
+      workspaceFileName: selectedFile?.name ?? null,
+      lastError: lastErrorFromOutput(executionResult) ?? '',
+    })
+  }, [raiseHandWithCode, code, language, selectedFile, executionResult])
+
+  // Code pushed by the trainer: applied only after the student picks an option
+  const { pending: pendingPushes, respond: respondToPush } = usePendingPushes(
+    sessionCode,
+    sessionActive,
+  )
+  const [savingPushedFile, setSavingPushedFile] = useState(false)
+
+  // Chat: messages count as read while the panel is open
+  const [showChat, setShowChat] = useState(false)
+  const chat = useSessionChat(sessionCode, true, user ? { id: user.id, staff: false } : null)
+  const { markRead: markChatRead } = chat
+  useEffect(() => {
+    if (showChat) markChatRead()
+  }, [showChat, markChatRead])
+
+  // Polls: shown while open, then with the results until dismissed
+  const studentPoll = useStudentPoll(sessionCode, sessionActive)
+  const [shownPollId, setShownPollId] = useState<number | null>(null)
+  const latestPoll = studentPoll.poll
+  useEffect(() => {
+    if (latestPoll?.status === 'open') setShownPollId(latestPoll.id)
+  }, [latestPoll?.id, latestPoll?.status])
+  const nextPush = pendingPushes[0]
+
+  // Breakout groups: open the group tab when a breakout starts, and go back to
+  // the main broadcast when the trainer brings everyone back
+  const myGroup = useMyGroup(sessionCode, sessionActive)
+  const myGroupId = myGroup.group?.id ?? null
+  useEffect(() => {
+    if (myGroupId != null) setActiveTab('group')
+    else setActiveTab((tab) => (tab === 'group' ? 'trainer' : tab))
+  }, [myGroupId])
+
+  const acceptPush = useCallback(
+    (push: CodePushItem, action: CodePushAction) => {
+      if (action === 'replaced') setCode(push.code)
+      if (action === 'merged') setCode((current) => (current ? `${current}\n\n${push.code}` : push.code))
+      if (action !== 'dismissed') setActiveTab('mycode')
+      respondToPush(push.id, action)
+    },
+    [respondToPush],
+  )
+
+  const savePushAsFile = useCallback(
+    async (push: CodePushItem) => {
+      const definition = getLanguage(push.language)
+      const name =
+        push.fileName || `pushed-${push.id}${definition ? getPrimaryExtension(definition) : '.txt'}`
+      setSavingPushedFile(true)
+      try {
+        const res = await fetch('/api/files', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({
+            name,
+            content: push.code,
+            folder: currentFolderId != null ? Number(currentFolderId) : null,
+          }),
+        })
+        const data = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to create file')
+        }
+        refreshExplorerData()
+        setActiveTab('mycode')
+        await handleFileSelect({ id: String(data.doc.id), name: data.doc.name, content: push.code })
+        respondToPush(push.id, 'saved')
+      } catch (error) {
+        console.error('[StudentSessionWorkspace] Failed to save pushed code:', error)
+      } finally {
+        setSavingPushedFile(false)
+      }
+    },
+    [currentFolderId, refreshExplorerData, handleFileSelect, respondToPush],
+  )
+
   return (
-    <div className="flex h-screen w-full flex-col overflow-hidden">
+    <div className="relative flex h-screen w-full flex-col overflow-hidden">
       {/* Session Header */}
       <WorkspaceHeader
         leftContent={
@@ -512,8 +668,8 @@ export function StudentSessionWorkspace({
                 />
               </>
             )}
-            {/* Output Toggle (shown in both tabs) */}
-            {activeTab !== 'mycode' && (
+            {/* Output Toggle ("Trainer's Code" tab) */}
+            {activeTab === 'trainer' && (
               <ViewToggleButton
                 icon={<Terminal className="h-3 w-3" />}
                 activeLabel="Hide Output"
@@ -528,6 +684,21 @@ export function StudentSessionWorkspace({
                 <span>Last update: {lastUpdate.toLocaleTimeString()}</span>
               </div>
             )}
+            <ChatToggleButton
+              open={showChat}
+              unreadCount={chat.unreadCount}
+              onClick={() => setShowChat((prev) => !prev)}
+            />
+            {sessionActive && (
+              <RaiseHandButton
+                raised={raiseHand.raised}
+                position={raiseHand.position}
+                claimedBy={raiseHand.claimedBy}
+                updating={raiseHand.updating}
+                onRaise={handleRaiseHand}
+                onLower={raiseHand.lower}
+              />
+            )}
             <button
               type="button"
               onClick={handleLeaveSession}
@@ -563,10 +734,59 @@ export function StudentSessionWorkspace({
 
       {!sessionActive && (
         <div className="border-b bg-destructive/10 px-4 py-2 text-xs text-destructive">
-          This session has ended. You can no longer sync your code.
+          This session has ended. You can no longer sync your code.{' '}
+          <Link href={`/session/${sessionCode}/replay`} className="font-medium underline">
+            Replay the session
+          </Link>
         </div>
       )}
 
+      {sessionActive && pausedAt && <SessionBreakOverlay key={pausedAt} resumeAt={resumeAt} />}
+
+      {nextPush && (
+        <CodePushPrompt
+          key={nextPush.id}
+          push={nextPush}
+          remaining={pendingPushes.length - 1}
+          currentCode={selectedFile ? code : null}
+          busy={savingPushedFile}
+          onReplace={() => acceptPush(nextPush, 'replaced')}
+          onMerge={() => acceptPush(nextPush, 'merged')}
+          onSaveAsFile={() => savePushAsFile(nextPush)}
+          onDismiss={() => acceptPush(nextPush, 'dismissed')}
+        />
+      )}
+
+      {showChat && user && (
+        <div className="fixed bottom-4 right-4 z-30 h-[70vh] w-96 max-w-[calc(100vw-2rem)] overflow-hidden rounded-lg border shadow-lg">
+          <SessionChatPanel
+            messages={chat.messages}
+            settings={chat.settings}
+            viewer={{ id: user.id, staff: false }}
+            sessionActive={sessionActive}
+            sending={chat.sending}
+            error={chat.error}
+            onSend={chat.send}
+            onRemove={chat.remove}
+            onUpdateSettings={chat.updateSettings}
+            currentCode={selectedFile ? code : undefined}
+            currentLanguage={language}
+            onClose={() => setShowChat(false)}
+          />
+        </div>
+      )}
+
+      {latestPoll && latestPoll.id === shownPollId && (
+        <StudentPollCard
+          key={latestPoll.id}
+          poll={latestPoll}
+          answering={studentPoll.answering}
+          error={studentPoll.error}
+          onAnswer={(answer) => studentPoll.answer(latestPoll.id, answer)}
+          onDismiss={() => setShownPollId(null)}
+        />
+      )}
+
       {/* Tab Navigation */}
       <div className="flex border-b bg-muted/30">
         <button
@@ -596,11 +816,36 @@ export function StudentSessionWorkspace({
           <File className="h-3 w-3" />
           {codeTabLabel}
         </button>
+        {myGroup.group && (
+          <button
+            onClick={() => handleTabChange('group')}
+            className={cn(
+              "flex items-center gap-2 px-4 py-2 text-xs font-medium transition-colors border-b-2",
+              activeTab === 'group'
+                ? "border-primary text-primary bg-background"
+                : "border-transparent text-muted-foreground hover:text-foreground"
+            )}
+          >
+            <Users className="h-3 w-3" />
+            {myGroup.group.name}
+          </button>
+        )}
       </div>
 
       {/* Main Content */}
       <div className="flex flex-1 overflow-hidden">
-        {activeTab === 'trainer' ? (
+        {activeTab === 'group' && myGroup.group ? (
+          /* Shared group scratchpad (breakout) */
+          <div className="flex flex-1 flex-col overflow-hidden">
+            <GroupWorkspace
+              key={myGroup.group.id}
+              group={myGroup.group}
+              saving={myGroup.saving}
+              error={myGroup.error}
+              onSave={myGroup.saveScratchpad}
+            />
+          </div>
+        ) : activeTab === 'trainer' ? (
           /* Trainer's Code View (Read-only) */
           <>
             <div className="flex flex-1 flex-col overflow-hidden">
@@ -637,10 +882,13 @@ export function StudentSessionWorkspace({
                           ? "opacity-50 cursor-not-allowed bg-muted text-muted-foreground"
                           : "bg-background text-foreground hover:bg-muted"
                       )}
-                      title="Refresh trainer's code"
+                      title={hasNewTrainerUpdate ? "The trainer broadcast new code - click to load it" : "Refresh trainer's code"}
                     >
                       <RefreshCw className={cn("h-3 w-3", refreshingTrainerCode && "animate-spin")} />
                       Refresh
+                      {hasNewTrainerUpdate && (
+                        <span className="h-1.5 w-1.5 rounded-full bg-primary" aria-label="New trainer code" />
+                      )}
                     </button>
                   </div>
                   <WorkspaceEditor
@@ -785,6 +1033,8 @@ export function StudentSessionWorkspace({
                       saveSuccess={saveSuccess}
                       showAI={showAI}
                       onToggleAI={() => setShowAI(!showAI)}
+                      folderRun={folderRun}
+                      onOpenHistory={() => setShowHistory(true)}
                     />
                     <WorkspaceEditor
                       fileId={selectedFile.id}
@@ -794,6 +1044,7 @@ export function StudentSessionWorkspace({
                       onLanguageChange={setLanguage}
                       onChange={setCode}
                       onRun={handleSaveAndRun}
+                      onStop={handleStop}
                       executing={executing}
                       executionResult={executionResult}
                       onSave={() => setRefreshKey((prev) => prev + 1)}
@@ -811,11 +1062,23 @@ export function StudentSessionWorkspace({
                 )
               }
               outputPanel={
-                <OutputPanelWrapper>
+                <OutputPanelWrapper
+                  testsPanel={
+                    selectedFile ? (
+                      <TestResultsPanel tests={testCases} onRunTests={handleRunTests} />
+                    ) : undefined
+                  }
+                  testsLabel={
+                    testCases.summary
+                      ? `Tests ${testCases.summary.passed}/${testCases.summary.total}`
+                      : 'Tests'
+                  }
+                >
                   <OutputPanel
                     result={executionResult}
                     executing={executing}
                     onClear={clearResult}
+                    interactive={interactive}
                   />
                 </OutputPanelWrapper>
               }
@@ -843,6 +1106,17 @@ export function StudentSessionWorkspace({
         )}
       </div>
 
+      {/* Run History Drawer */}
+      <RunHistoryDrawer
+        open={showHistory}
+        onClose={() => setShowHistory(false)}
+        fileId={selectedFile?.id}
+        onRestore={(restoredCode, restoredLanguage) => {
+          setCode(restoredCode)
+          setLanguage(restoredLanguage)
+        }}
+      />
+
       {/* File Selection Modal */}
       <FileSelectionModal
         isOpen={showFileModal}
@@ -11,7 +11,7 @@ import { executeCode, type ExecutionResult } from '@/services/codeExecution'
 import { SUPPORTED_LANGUAGES } from '@/components/LiveCodePlayground/types'
 import { inferLanguageFromFileName } from '@/utilities/languageInference'
 import { WorkspaceViewControls } from '@/components/Workspace/WorkspaceViewControls'
-import { Radio, RefreshCw, X, Users, ChevronDown, ChevronUp, Loader2, ArrowLeft, Play } from 'lucide-react'
+import { Radio, RefreshCw, X, Users, ChevronDown, ChevronUp, Loader2, ArrowLeft, Play, Hand, Vote, Shuffle, UserCog, Lock } from 'lucide-react'
 import type { BasicFolderRef } from '@/utilities/workspaceScope'
 import { buildFolderPathChain } from '@/utilities/workspaceScope'
 import { cn } from '@/utilities/ui'
@@ -24,17 +24,38 @@ import { WorkspaceHeader } from '@/components/Workspace/WorkspaceHeader'
 import { NoFileSelectedView } from '@/components/Workspace/NoFileSelectedView'
 import { FileExplorerSidebar } from '@/components/Workspace/FileExplorerSidebar'
 import { OutputPanelWrapper } from '@/components/Workspace/OutputPanelWrapper'
+import { TestResultsPanel } from '@/components/LiveCodePlayground/TestResultsPanel'
 import { AIAssistantPanelWrapper } from '@/components/Workspace/AIAssistantPanelWrapper'
 import { FileSwitchingOverlay } from '@/components/Workspace/FileSwitchingOverlay'
+import { RunHistoryDrawer } from '@/components/Workspace/RunHistoryDrawer'
 import { WorkspaceEditorHeader } from '@/components/Workspace/WorkspaceEditorHeader'
 import { useExplorerData } from '@/hooks/workspace/useExplorerData'
 import { useFileSelection } from '@/hooks/workspace/useFileSelection'
 import { useSaveCode } from '@/hooks/workspace/useSaveCode'
 import { useSaveAndRun } from '@/hooks/workspace/useSaveAndRun'
+import { useFolderRun } from '@/hooks/workspace/useFolderRun'
+import { useTestCases } from '@/hooks/workspace/useTestCases'
 import { useWorkspaceCodeExecution } from '@/hooks/workspace/useWorkspaceCodeExecution'
 import { SessionMetadataModal } from '@/components/Session/SessionMetadataModal'
 import type { WorkspaceFileWithContent } from '@/types/workspace'
 import { useSessionData } from '@/hooks/session/useSessionData'
+import { useSessionBreak } from '@/hooks/session/useSessionBreak'
+import { SessionBreakControl } from '@/components/Session/SessionBreak'
+import { HelpQueuePanel } from '@/components/Session/HelpQueue'
+import { useHelpQueue } from '@/hooks/session/useHelpQueue'
+import { SessionPollsPanel } from '@/components/Session/SessionPolls'
+import { useSessionPolls } from '@/hooks/session/useSessionPolls'
+import { ChatToggleButton, SessionChatPanel } from '@/components/Session/SessionChat'
+import { useSessionChat } from '@/hooks/session/useSessionChat'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+import { BreakoutGroupsPanel } from '@/components/Session/BreakoutGroups'
+import { useBreakoutGroups } from '@/hooks/session/useBreakoutGroups'
+import { SessionHostsPanel } from '@/components/Session/SessionHosts'
+import { useSessionHosts } from '@/hooks/session/useSessionHosts'
+import { SessionAccessPanel } from '@/components/Session/SessionAccess'
+import { useSessionAccess } from '@/hooks/session/useSessionAccess'
+import { useAdmissions } from '@/hooks/session/useAdmissions'
+import { useCohorts } from '@/hooks/session/useCohorts'
 
 type WorkspaceFile = WorkspaceFileWithContent
 
@@ -77,7 +98,14 @@ export function TrainerSessionWorkspace({
   const [code, setCode] = useState('')
   const [language, setLanguage] = useState('javascript')
   const [showAI, setShowAI] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
   const [showStudents, setShowStudents] = useState(false)
+  const [showHelpQueue, setShowHelpQueue] = useState(false)
+  const [showPolls, setShowPolls] = useState(false)
+  const [showChat, setShowChat] = useState(false)
+  const [showGroups, setShowGroups] = useState(false)
+  const [showHosts, setShowHosts] = useState(false)
+  const [showAccess, setShowAccess] = useState(false)
   const [showFileExplorer, setShowFileExplorer] = useState(true)
   const [showOutput, setShowOutput] = useState(true)
   const [workspaceMode, setWorkspaceMode] = useState<'explorer' | 'workspace'>('explorer')
@@ -168,18 +196,24 @@ export function TrainerSessionWorkspace({
     saveCurrentFileRef.current = saveCurrentFile
   }, [saveCurrentFile])
 
+  // "Run folder" mode (entry point picked in the editor header)
+  const folderRun = useFolderRun({ selectedFileId: selectedFile?.id })
+
   // Code execution with session sync
   const {
     executing,
     executionResult,
     handleRun,
+    handleStop,
     clearResult,
+    interactive,
   } = useWorkspaceCodeExecution({
     language,
     sessionCode,
     selectedFile,
     syncToSession: true,
     sessionSyncType: 'broadcast',
+    folderRun: folderRun.target,
   })
 
   // Save and run (shared hook: save if dirty then run, simultaneous)
@@ -188,8 +222,24 @@ export function TrainerSessionWorkspace({
     lastSavedCode,
     saveCurrentFile,
     handleRun,
+    awaitSave: folderRun.target != null,
   })
 
+  // Test cases attached to the selected file (Tests tab next to the output)
+  const testCases = useTestCases({
+    fileId: selectedFile?.id,
+    language,
+    folderRun: folderRun.target,
+  })
+  const runTests = testCases.runTests
+  const handleRunTests = useCallback(async () => {
+    // Folder runs read files from the server, so save pending edits first
+    if (folderRun.target && code !== lastSavedCode) {
+      await saveCurrentFile()
+    }
+    await runTests(code)
+  }, [folderRun.target, code, lastSavedCode, saveCurrentFile, runTests])
+
   // Explorer data for explorer mode
   const {
     explorerFolders,
@@ -213,6 +263,7 @@ export function TrainerSessionWorkspace({
   // Use React Query to fetch session data (cached)
   const { data: sessionData } = useSessionData(sessionCode, {
     refetchInterval: false, // Don't poll - just get initial data
+    live: false, // The trainer makes the changes; no need to hear them back
     enabled: !!sessionCode,
   })
 
@@ -259,6 +310,36 @@ export function TrainerSessionWorkspace({
     loadActiveFile()
   }, [sessionData, selectedFile]) // Depend on sessionData and selectedFile
 
+  // Break controls (pause freezes broadcasts)
+  const sessionBreak = useSessionBreak(sessionCode)
+  const helpQueue = useHelpQueue(sessionCode)
+  const raisedHands = helpQueue.stats?.waiting ?? 0
+  const sessionPolls = useSessionPolls(sessionCode)
+  const breakout = useBreakoutGroups(sessionCode)
+
+  // Co-hosts: what the signed-in user may do in this session
+  const sessionHosts = useSessionHosts(sessionCode)
+  const canEndSession = sessionHosts.myPermissions?.includes('end') ?? true
+
+  // Access mode and waiting room
+  const sessionAccess = useSessionAccess(sessionCode)
+  const canAdmit = sessionHosts.myPermissions?.includes('monitor') ?? false
+  const inWaitingRoom = sessionAccess.access?.accessMode === 'waitingRoom'
+  const admissions = useAdmissions(sessionCode, canAdmit && inWaitingRoom)
+  const { cohorts } = useCohorts(showAccess)
+
+  // Chat: messages count as read while the panel is open
+  const { user: currentUser } = useCurrentUser()
+  const chat = useSessionChat(
+    sessionCode,
+    true,
+    currentUser ? { id: currentUser.id, staff: true } : null
+  )
+  const { markRead: markChatRead } = chat
+  useEffect(() => {
+    if (showChat) markChatRead()
+  }, [showChat, markChatRead])
+
   // Reset the load attempt flag when session code changes
   useEffect(() => {
     hasAttemptedLoadRef.current = false
@@ -443,6 +524,75 @@ export function TrainerSessionWorkspace({
             <span>{participantCount} students</span>
             {showStudents ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
           </button>
+          <button
+            onClick={() => setShowHelpQueue((prev) => !prev)}
+            className={cn(
+              "flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-xs transition-colors",
+              raisedHands > 0
+                ? "border-amber-500 bg-amber-500/10 text-amber-700 hover:bg-amber-500/20 dark:text-amber-400"
+                : "bg-background hover:bg-accent"
+            )}
+          >
+            <Hand className="h-3 w-3" />
+            <span>Help ({raisedHands})</span>
+            {showHelpQueue ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+          </button>
+          <button
+            onClick={() => setShowPolls((prev) => !prev)}
+            className={cn(
+              "flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-xs transition-colors",
+              sessionPolls.activePoll
+                ? "border-primary bg-primary/10 text-primary hover:bg-primary/20"
+                : "bg-background hover:bg-accent"
+            )}
+          >
+            <Vote className="h-3 w-3" />
+            <span>{sessionPolls.activePoll ? 'Poll running' : 'Polls'}</span>
+            {showPolls ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+          </button>
+          <button
+            onClick={() => setShowGroups((prev) => !prev)}
+            className={cn(
+              "flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-xs transition-colors",
+              breakout.groups.length > 0
+                ? "border-primary bg-primary/10 text-primary hover:bg-primary/20"
+                : "bg-background hover:bg-accent"
+            )}
+          >
+            <Shuffle className="h-3 w-3" />
+            <span>{breakout.groups.length > 0 ? `In groups (${breakout.groups.length})` : 'Groups'}</span>
+            {showGroups ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+          </button>
+          <button
+            onClick={() => setShowHosts((prev) => !prev)}
+            className="flex items-center gap-1.5 rounded-md border bg-background px-3 py-1.5 text-xs hover:bg-accent transition-colors"
+          >
+            <UserCog className="h-3 w-3" />
+            <span>Co-hosts ({sessionHosts.hosts?.coHosts.length ?? 0})</span>
+            {showHosts ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+          </button>
+          <button
+            onClick={() => setShowAccess((prev) => !prev)}
+            className={cn(
+              "flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-xs transition-colors",
+              inWaitingRoom && admissions.waiting.length > 0
+                ? "border-primary bg-primary/10 text-primary hover:bg-primary/20"
+                : "bg-background hover:bg-accent"
+            )}
+          >
+            <Lock className="h-3 w-3" />
+            <span>
+              {inWaitingRoom && admissions.waiting.length > 0
+                ? `Waiting (${admissions.waiting.length})`
+                : 'Access'}
+            </span>
+            {showAccess ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+          </button>
+          <ChatToggleButton
+            open={showChat}
+            unreadCount={chat.unreadCount}
+            onClick={() => setShowChat((prev) => !prev)}
+          />
           {lastUpdate && (
             <div className="flex items-center gap-1.5 text-xs text-muted-foreground" suppressHydrationWarning>
               <RefreshCw className="h-3 w-3" />
@@ -458,9 +608,19 @@ export function TrainerSessionWorkspace({
               Back to Workspace
             </Link>
           )}
+          {sessionActive && (
+            <SessionBreakControl
+              paused={sessionBreak.paused}
+              resumeAt={sessionBreak.resumeAt}
+              updating={sessionBreak.updating}
+              onPause={sessionBreak.pause}
+              onResume={sessionBreak.resume}
+            />
+          )}
           <button
             onClick={onEndSession}
-            disabled={!sessionActive}
+            disabled={!sessionActive || !canEndSession}
+            title={canEndSession ? undefined : "You don't have permission to end this session"}
             className="flex items-center gap-1.5 rounded-md border bg-background px-3 py-1.5 text-xs hover:bg-accent transition-colors disabled:opacity-50"
           >
             <X className="h-3 w-3" />
@@ -471,7 +631,97 @@ export function TrainerSessionWorkspace({
 
       {!sessionActive && (
         <div className="border-b bg-destructive/10 px-4 py-2 text-xs text-destructive">
-          This session has ended. Students can no longer join.
+          This session has ended. Students can no longer join.{' '}
+          <a href={chat.exportUrl} className="underline hover:no-underline">
+            Export chat
+          </a>
+        </div>
+      )}
+
+      {sessionActive && (sessionBreak.paused || sessionBreak.error) && (
+        <div className="border-b bg-amber-500/10 px-4 py-2 text-xs text-amber-700 dark:text-amber-400">
+          {sessionBreak.error ||
+            'On a break: saves are kept in your files but not broadcast until you resume.'}
+        </div>
+      )}
+
+      {/* Help Queue Panel */}
+      {showHelpQueue && (
+        <div className="border-b bg-muted/30 px-4 py-2 max-h-[40vh] overflow-y-auto">
+          <HelpQueuePanel
+            requests={helpQueue.requests}
+            stats={helpQueue.stats}
+            onAction={helpQueue.act}
+            pendingId={helpQueue.pendingId}
+            error={helpQueue.error}
+          />
+        </div>
+      )}
+
+      {/* Polls Panel */}
+      {showPolls && (
+        <div className="border-b bg-muted/30 px-4 py-2 max-h-[50vh] overflow-y-auto">
+          <SessionPollsPanel
+            polls={sessionPolls.polls}
+            activePoll={sessionPolls.activePoll}
+            updating={sessionPolls.updating}
+            error={sessionPolls.error}
+            onOpen={sessionPolls.openPoll}
+            onClose={sessionPolls.closePoll}
+          />
+        </div>
+      )}
+
+      {/* Co-hosts Panel */}
+      {showHosts && sessionHosts.hosts && (
+        <div className="border-b bg-muted/30 px-4 py-2 max-h-[40vh] overflow-y-auto">
+          <SessionHostsPanel
+            hosts={sessionHosts.hosts}
+            currentUserId={currentUser?.id ?? null}
+            canManage={sessionHosts.canManage}
+            canTransfer={sessionActive && sessionHosts.canManage}
+            updating={sessionHosts.updating}
+            error={sessionHosts.error}
+            onSave={sessionHosts.saveCoHosts}
+            onTransfer={sessionHosts.transferTo}
+          />
+        </div>
+      )}
+
+      {/* Access Panel */}
+      {showAccess && sessionAccess.access && (
+        <div className="border-b bg-muted/30 px-4 py-2 max-h-[40vh] overflow-y-auto">
+          <SessionAccessPanel
+            access={sessionAccess.access}
+            canManage={sessionAccess.canManage}
+            cohorts={cohorts}
+            updating={sessionAccess.updating}
+            error={sessionAccess.error}
+            onSave={sessionAccess.saveAccess}
+            waiting={admissions.waiting}
+            canAdmit={canAdmit}
+            admitting={admissions.updating}
+            admissionsError={admissions.error}
+            onDecide={admissions.decide}
+          />
+        </div>
+      )}
+
+      {/* Breakout Groups Panel */}
+      {showGroups && (
+        <div className="border-b bg-muted/30 px-4 py-2 max-h-[60vh] overflow-y-auto">
+          <BreakoutGroupsPanel
+            groups={breakout.groups}
+            students={students}
+            trainerCode={code}
+            trainerLanguage={language}
+            updating={breakout.updating}
+            error={breakout.error}
+            onStart={breakout.startBreakout}
+            onEnd={breakout.endBreakout}
+            onBroadcast={breakout.broadcastToGroup}
+            onUpdate={breakout.updateGroup}
+          />
         </div>
       )}
 
@@ -715,6 +965,8 @@ export function TrainerSessionWorkspace({
                   saveSuccess={saveSuccess}
                   showAI={showAI}
                   onToggleAI={() => setShowAI(!showAI)}
+                  folderRun={folderRun}
+                  onOpenHistory={() => setShowHistory(true)}
                 />
                 <WorkspaceEditor
                   fileId={selectedFile.id}
@@ -724,6 +976,7 @@ export function TrainerSessionWorkspace({
                   onLanguageChange={setLanguage}
                   onChange={setCode}
                   onRun={handleSaveAndRun}
+                  onStop={handleStop}
                   executing={executing}
                   onSave={() => setRefreshKey((prev) => prev + 1)}
                   hideSaveButton={true}
@@ -740,11 +993,23 @@ export function TrainerSessionWorkspace({
             )
           }
           outputPanel={
-            <OutputPanelWrapper>
+            <OutputPanelWrapper
+              testsPanel={
+                selectedFile ? (
+                  <TestResultsPanel tests={testCases} onRunTests={handleRunTests} />
+                ) : undefined
+              }
+              testsLabel={
+                testCases.summary
+                  ? `Tests ${testCases.summary.passed}/${testCases.summary.total}`
+                  : 'Tests'
+              }
+            >
               <OutputPanel
                 result={executionResult}
                 executing={executing}
                 onClear={clearResult}
+                interactive={interactive}
               />
             </OutputPanelWrapper>
           }
@@ -788,6 +1053,37 @@ export function TrainerSessionWorkspace({
         }}
       />
 
+      {/* Run History Drawer */}
+      {showChat && currentUser && (
+        <div className="fixed bottom-4 right-4 z-30 h-[70vh] w-96 max-w-[calc(100vw-2rem)] overflow-hidden rounded-lg border shadow-lg">
+          <SessionChatPanel
+            messages={chat.messages}
+            settings={chat.settings}
+            viewer={{ id: currentUser.id, staff: true }}
+            sessionActive={sessionActive}
+            sending={chat.sending}
+            error={chat.error}
+            onSend={chat.send}
+            onRemove={chat.remove}
+            onUpdateSettings={chat.updateSettings}
+            exportUrl={chat.exportUrl}
+            currentCode={code}
+            currentLanguage={language}
+            onClose={() => setShowChat(false)}
+          />
+        </div>
+      )}
+
+      <RunHistoryDrawer
+        open={showHistory}
+        onClose={() => setShowHistory(false)}
+        fileId={selectedFile?.id}
+        onRestore={(restoredCode, restoredLanguage) => {
+          setCode(restoredCode)
+          setLanguage(restoredLanguage)
+        }}
+      />
+
       {/* Session Metadata Modal */}
       <SessionMetadataModal
         sessionCode={sessionCode}
@@ -0,0 +1,102 @@
+/**
+ * Folder Run Controls Component
+ *
+ * "Run folder" toggle with project root and entry file pickers.
+ * Rendered inside WorkspaceEditorHeader and the WorkspaceEditor header.
+ *
+ * @module FolderRunControls
+ */
+
+'use client'
+
+import React from 'react'
+import { FolderTree } from 'lucide-react'
+import type { UseFolderRunReturn } from '@/hooks/workspace/useFolderRun'
+import { cn } from '@/utilities/ui'
+
+interface FolderRunControlsProps {
+  /** State from useFolderRun */
+  folderRun: UseFolderRunReturn
+  /** Optional: disable all controls */
+  disabled?: boolean
+}
+
+const selectClassName =
+  'max-w-[160px] rounded-md border bg-background px-2 py-0.5 text-[10px] focus:outline-none focus:ring-1 focus:ring-ring cursor-pointer disabled:opacity-50'
+
+/**
+ * Folder Run Controls Component
+ *
+ * @example
+ * ```tsx
+ * const folderRun = useFolderRun({ selectedFileId: selectedFile?.id })
+ * <FolderRunControls folderRun={folderRun} />
+ * ```
+ */
+export function FolderRunControls({ folderRun, disabled = false }: FolderRunControlsProps) {
+  if (!folderRun.available) return null
+
+  const {
+    enabled,
+    setEnabled,
+    rootFolderId,
+    setRootFolderId,
+    rootOptions,
+    entryFileId,
+    setEntryFileId,
+    entryOptions,
+  } = folderRun
+
+  return (
+    <div className="ml-2 flex items-center gap-1.5">
+      <button
+        type="button"
+        onClick={() => setEnabled(!enabled)}
+        disabled={disabled}
+        title="Run every file in the folder, starting from the entry file"
+        className={cn(
+          'flex items-center gap-1 rounded-md border px-2 py-0.5 text-[10px] transition-colors',
+          enabled ? 'border-primary bg-primary/10 text-primary' : 'bg-background hover:bg-accent',
+          disabled && 'opacity-50 cursor-not-allowed'
+        )}
+      >
+        <FolderTree className="h-3 w-3" />
+        Run folder
+      </button>
+
+      {enabled && (
+        <>
+          {rootOptions.length > 1 && (
+            <select
+              value={rootFolderId ?? ''}
+              onChange={(e) => setRootFolderId(e.target.value)}
+              disabled={disabled}
+              className={selectClassName}
+              title="Project root folder"
+            >
+              {rootOptions.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          )}
+          <span className="text-[10px] text-muted-foreground">Entry:</span>
+          <select
+            value={entryFileId ?? ''}
+            onChange={(e) => setEntryFileId(e.target.value)}
+            disabled={disabled || entryOptions.length === 0}
+            className={selectClassName}
+            title="Entry file"
+          >
+            {entryOptions.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
-import React from 'react'
+import React, { useState } from 'react'
+import { cn } from '@/utilities/ui'
 
 interface OutputPanelWrapperProps {
   /** OutputPanel component content */
@@ -9,6 +10,10 @@ interface OutputPanelWrapperProps {
   className?: string
   /** Optional data-testid for testing */
   'data-testid'?: string
+  /** Optional test runner content; when set, Output / Tests tabs are shown */
+  testsPanel?: React.ReactNode
+  /** Optional label for the Tests tab (e.g. "Tests 3/4") */
+  testsLabel?: string
 }
 
 /**
@@ -19,18 +24,49 @@ export function OutputPanelWrapper({
   children,
   className = '',
   'data-testid': testId = 'output-panel-wrapper',
+  testsPanel,
+  testsLabel = 'Tests',
 }: OutputPanelWrapperProps) {
+  const [activeTab, setActiveTab] = useState<'output' | 'tests'>('output')
+
+  const tabClassName = (tab: 'output' | 'tests') =>
+    cn(
+      'rounded px-2 py-0.5 text-xs font-medium transition-colors',
+      activeTab === tab ? 'bg-background shadow-sm' : 'text-muted-foreground hover:text-foreground'
+    )
+
   return (
-    <div 
+    <div
       className={`flex flex-1 flex-col rounded-lg border bg-card overflow-hidden ${className}`}
       data-testid={testId}
     >
       <div className="border-b bg-muted/30 px-3 py-1.5">
-        <h2 className="text-xs font-medium">Output</h2>
+        {testsPanel ? (
+          <div className="flex items-center gap-1" role="tablist">
+            <button
+              type="button"
+              role="tab"
+              aria-selected={activeTab === 'output'}
+              onClick={() => setActiveTab('output')}
+              className={tabClassName('output')}
+            >
+              Output
+            </button>
+            <button
+              type="button"
+              role="tab"
+              aria-selected={activeTab === 'tests'}
+              onClick={() => setActiveTab('tests')}
+              className={tabClassName('tests')}
+            >
+              {testsLabel}
+            </button>
+          </div>
+        ) : (
+          <h2 className="text-xs font-medium">Output</h2>
+        )}
       </div>
-      {children}
+      {testsPanel && activeTab === 'tests' ? testsPanel : children}
     </div>
   )
 }
-
-
@@ -0,0 +1,155 @@
+'use client'
+
+import React, { useState } from 'react'
+import { X, History, CheckCircle2, AlertCircle, RotateCcw, Loader2 } from 'lucide-react'
+import { useExecutionHistory } from '@/hooks/workspace/useExecutionHistory'
+import type { Execution } from '@/payload-types'
+import { cn } from '@/utilities/ui'
+
+interface RunHistoryDrawerProps {
+  open: boolean
+  onClose: () => void
+  /** File currently open in the editor (history can be filtered to it) */
+  fileId?: string | number | null
+  /** Put a past run's code back into the editor */
+  onRestore?: (code: string, language: string) => void
+}
+
+const STATUS_LABELS: Record<Execution['status'], string> = {
+  running: 'Running',
+  success: 'Success',
+  runtime_error: 'Runtime Error',
+  compilation_error: 'Compilation Error',
+  timeout: 'Timeout',
+  error: 'Error',
+  cancelled: 'Stopped',
+}
+
+/**
+ * Side drawer listing the user's past runs with their output.
+ * Runs can be restored into the editor.
+ */
+export function RunHistoryDrawer({ open, onClose, fileId, onRestore }: RunHistoryDrawerProps) {
+  const [onlyThisFile, setOnlyThisFile] = useState(true)
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+
+  const { runs, isLoading, error } = useExecutionHistory({
+    fileId: onlyThisFile ? fileId : null,
+    enabled: open,
+  })
+
+  if (!open) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={onClose}>
+      <div
+        className="flex h-full w-full max-w-md flex-col border-l bg-card shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <div className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            <h2 className="text-sm font-semibold">Run history</h2>
+          </div>
+          <button type="button" onClick={onClose} className="rounded p-1 hover:bg-accent" title="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {fileId != null && (
+          <label className="flex items-center gap-2 border-b px-4 py-2 text-xs text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={onlyThisFile}
+              onChange={(e) => setOnlyThisFile(e.target.checked)}
+            />
+            Only this file
+          </label>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 p-6 text-xs text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading runs...
+            </div>
+          ) : error ? (
+            <div className="p-6 text-center text-xs text-destructive">{error.message}</div>
+          ) : runs.length === 0 ? (
+            <div className="p-6 text-center text-xs text-muted-foreground">No runs yet</div>
+          ) : (
+            <ul className="divide-y">
+              {runs.map((run) => {
+                const expanded = expandedId === run.id
+                const succeeded = run.status === 'success'
+                return (
+                  <li key={run.id} className="px-4 py-2">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId(expanded ? null : run.id)}
+                      className="flex w-full items-center justify-between gap-2 text-left"
+                    >
+                      <span className="flex items-center gap-2 text-xs">
+                        {succeeded ? (
+                          <CheckCircle2 className="h-3.5 w-3.5 text-success" />
+                        ) : (
+                          <AlertCircle className="h-3.5 w-3.5 text-destructive" />
+                        )}
+                        <span className="font-medium">{STATUS_LABELS[run.status]}</span>
+                        <span className="text-muted-foreground">{run.language}</span>
+                        {run.folderRun && (
+                          <span className="rounded bg-muted px-1 text-[10px]">folder</span>
+                        )}
+                      </span>
+                      <span className="text-[10px] text-muted-foreground">
+                        {new Date(run.createdAt).toLocaleString()}
+                      </span>
+                    </button>
+
+                    {expanded && (
+                      <div className="mt-2 space-y-2">
+                        {run.code && (
+                          <pre className="max-h-40 overflow-auto rounded-md bg-muted/40 p-2 font-mono text-[11px]">
+                            {run.code}
+                          </pre>
+                        )}
+                        {(run.stdout || run.stderr) && (
+                          <pre className="max-h-40 overflow-auto rounded-md border p-2 font-mono text-[11px] whitespace-pre-wrap">
+                            {run.stdout}
+                            {run.stderr && <span className="text-destructive">{run.stderr}</span>}
+                          </pre>
+                        )}
+                        <div className="flex items-center justify-between text-[10px] text-muted-foreground">
+                          <span>
+                            {run.executionTime != null && `${run.executionTime} ms · `}
+                            Exit code {run.exitCode ?? 'N/A'}
+                          </span>
+                          {onRestore && run.code && (
+                            <button
+                              type="button"
+                              onClick={() => {
+                                onRestore(run.code!, run.language)
+                                onClose()
+                              }}
+                              className={cn(
+                                'flex items-center gap-1 rounded-md border px-2 py-0.5 text-[10px]',
+                                'bg-background hover:bg-accent transition-colors'
+                              )}
+                            >
+                              <RotateCcw className="h-3 w-3" />
+                              Restore code
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,9 +2,11 @@
 
 import React, { useState, useCallback, useEffect } from 'react'
 import { LiveCodePlayground } from '@/components/LiveCodePlayground'
-import { Save, CheckCircle } from 'lucide-react'
+import { Save, CheckCircle, History } from 'lucide-react'
 import { SUPPORTED_LANGUAGES, type ExecutionResult } from '@/components/LiveCodePlayground/types'
 import { useTheme } from '@/providers/Theme'
+import type { UseFolderRunReturn } from '@/hooks/workspace/useFolderRun'
+import { FolderRunControls } from './FolderRunControls'
 
 interface WorkspaceEditorProps {
   fileId: string
@@ -14,6 +16,8 @@ interface WorkspaceEditorProps {
   onLanguageChange: (languageId: string) => void
   onChange: (code: string) => void
   onRun: (code: string, input?: string) => void
+  /** Stop the running program (Run button turns into Stop while executing) */
+  onStop?: () => void
   executing: boolean
   onSave?: () => void
   readOnly?: boolean
@@ -25,6 +29,10 @@ interface WorkspaceEditorProps {
   runButtonLabel?: string
   /** When true, hide the editor header (file name, language) - use when parent shows WorkspaceEditorHeader */
   hideHeader?: boolean
+  /** Optional "Run folder" state from useFolderRun (shown in the editor header) */
+  folderRun?: UseFolderRunReturn
+  /** Optional: open the run history drawer (shows a History button in the header) */
+  onOpenHistory?: () => void
 }
 
 export function WorkspaceEditor({
@@ -35,6 +43,7 @@ export function WorkspaceEditor({
   onLanguageChange,
   onChange,
   onRun,
+  onStop,
   executing,
   onSave,
   readOnly = false,
@@ -44,6 +53,8 @@ export function WorkspaceEditor({
   allowRunInReadOnly = false,
   runButtonLabel,
   hideHeader = false,
+  folderRun,
+  onOpenHistory,
 }: WorkspaceEditorProps) {
   const [saving, setSaving] = useState(false)
   const [saveSuccess, setSaveSuccess] = useState(false)
@@ -132,29 +143,42 @@ export function WorkspaceEditor({
                 </option>
               ))}
             </select>
+            {folderRun && <FolderRunControls folderRun={folderRun} disabled={readOnly} />}
           </div>
-          {!readOnly && !hideSaveButton && (
-            <div className="flex items-center gap-2">
-              {saveSuccess && (
-                <div className="flex items-center gap-1.5 rounded-md bg-success/20 px-2 py-1 text-xs text-success">
-                  <CheckCircle className="h-3 w-3" />
-                  <span>Saved</span>
-                </div>
-              )}
-              {hasChanges && !saveSuccess && (
-                <span className="text-xs text-muted-foreground">Unsaved changes</span>
-              )}
+          <div className="flex items-center gap-2">
+            {onOpenHistory && (
               <button
-                onClick={handleManualSave}
-                disabled={saving || !hasChanges}
-                className="flex items-center gap-1.5 rounded-md bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
-                title="Save (Ctrl+S)"
+                onClick={onOpenHistory}
+                className="flex items-center gap-1.5 rounded-md border bg-background px-2 py-1 text-xs hover:bg-accent transition-colors cursor-pointer"
+                title="Run history"
               >
-                <Save className="h-3 w-3" />
-                {saving ? 'Saving...' : 'Save'}
+                <History className="h-3 w-3" />
+                History
               </button>
-            </div>
-          )}
+            )}
+            {!readOnly && !hideSaveButton && (
+              <div className="flex items-center gap-2">
+                {saveSuccess && (
+                  <div className="flex items-center gap-1.5 rounded-md bg-success/20 px-2 py-1 text-xs text-success">
+                    <CheckCircle className="h-3 w-3" />
+                    <span>Saved</span>
+                  </div>
+                )}
+                {hasChanges && !saveSuccess && (
+                  <span className="text-xs text-muted-foreground">Unsaved changes</span>
+                )}
+                <button
+                  onClick={handleManualSave}
+                  disabled={saving || !hasChanges}
+                  className="flex items-center gap-1.5 rounded-md bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                  title="Save (Ctrl+S)"
+                >
+                  <Save className="h-3 w-3" />
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            )}
+          </div>
         </div>
       )}
 
@@ -165,6 +189,7 @@ export function WorkspaceEditor({
           code={code}
           onChange={onChange}
           onRun={onRun}
+          onStopExecution={onStop}
           executing={executing}
           executionResult={executionResult}
           showAIHelper={false} // AI is in sidebar
@@ -1,7 +1,8 @@
 /**
  * Workspace Editor Header Component
  * 
- * Displays role badge, file name, language selector, save button, and AI toggle.
+ * Displays role badge, file name, language selector, optional "Run folder" controls,
+ * save button, optional run history button, and AI toggle.
  * Used in TrainerSessionWorkspace, StudentSessionWorkspace, and WorkspaceLayout.
  * 
  * @module WorkspaceEditorHeader
@@ -10,9 +11,11 @@
 'use client'
 
 import React from 'react'
-import { Save, CheckCircle, Loader2, Sparkles, File } from 'lucide-react'
+import { Save, CheckCircle, Loader2, Sparkles, File, History } from 'lucide-react'
 import { SUPPORTED_LANGUAGES } from '@/components/LiveCodePlayground/types'
+import type { UseFolderRunReturn } from '@/hooks/workspace/useFolderRun'
 import { cn } from '@/utilities/ui'
+import { FolderRunControls } from './FolderRunControls'
 
 export type WorkspaceRole = 'trainer' | 'student' | 'workspace'
 
@@ -39,6 +42,10 @@ interface WorkspaceEditorHeaderProps {
   readOnly?: boolean
   /** Optional: Custom save button text */
   saveButtonText?: string
+  /** Optional: "Run folder" state from useFolderRun (shows toggle and entry picker) */
+  folderRun?: UseFolderRunReturn
+  /** Optional: open the run history drawer (shows a History button) */
+  onOpenHistory?: () => void
 }
 
 /**
@@ -71,6 +78,8 @@ export function WorkspaceEditorHeader({
   onToggleAI,
   readOnly = false,
   saveButtonText,
+  folderRun,
+  onOpenHistory,
 }: WorkspaceEditorHeaderProps) {
   // Role badge configuration
   const roleConfig = {
@@ -121,6 +130,8 @@ export function WorkspaceEditorHeader({
             </option>
           ))}
         </select>
+
+        {folderRun && <FolderRunControls folderRun={folderRun} disabled={readOnly} />}
       </div>
 
       <div className="flex items-center gap-2">
@@ -154,6 +165,18 @@ export function WorkspaceEditorHeader({
           )}
         </button>
 
+        {/* Run History Button */}
+        {onOpenHistory && (
+          <button
+            onClick={() => onOpenHistory()}
+            className="flex items-center gap-1.5 rounded-md border bg-background px-2 py-1 text-xs hover:bg-accent transition-colors"
+            title="Run history"
+          >
+            <History className="h-3 w-3" />
+            History
+          </button>
+        )}
+
         {/* AI Toggle Button */}
         <button
           onClick={() => onToggleAI()}
@@ -20,6 +20,7 @@ import { PaymentGracePeriodModal } from '@/components/Payment/PaymentGracePeriod
 import { TrialEndingSoonModal } from '@/components/Payment/TrialEndingSoonModal'
 import { TrialGracePeriodModal } from '@/components/Payment/TrialGracePeriodModal'
 import { UploadModal } from './UploadModal'
+import { RunHistoryDrawer } from './RunHistoryDrawer'
 import { buildFolderPathChain, type BasicFolderRef } from '@/utilities/workspaceScope'
 import { FolderExplorerView } from './FolderExplorerView'
 import { WorkspaceModeToggle } from './WorkspaceModeToggle'
@@ -29,6 +30,7 @@ import { NoFileSelectedView } from './NoFileSelectedView'
 import { FileExplorerSidebar } from './FileExplorerSidebar'
 import { FileSwitchingOverlay } from './FileSwitchingOverlay'
 import { OutputPanelWrapper } from './OutputPanelWrapper'
+import { TestResultsPanel } from '@/components/LiveCodePlayground/TestResultsPanel'
 import { AIAssistantPanelWrapper } from './AIAssistantPanelWrapper'
 import { useExplorerData } from '@/hooks/workspace/useExplorerData'
 import { useWorkspaceData } from '@/hooks/workspace/useWorkspaceData'
@@ -36,6 +38,8 @@ import { useFolderExplorerHandlers } from '@/hooks/workspace/useFolderExplorerHa
 import { useFileSelection } from '@/hooks/workspace/useFileSelection'
 import { useSaveCode } from '@/hooks/workspace/useSaveCode'
 import { useSaveAndRun } from '@/hooks/workspace/useSaveAndRun'
+import { useFolderRun } from '@/hooks/workspace/useFolderRun'
+import { useTestCases } from '@/hooks/workspace/useTestCases'
 import { useWorkspaceCodeExecution } from '@/hooks/workspace/useWorkspaceCodeExecution'
 import { useWorkspaceImportExport } from '@/hooks/workspace/useWorkspaceImportExport'
 import type { WorkspaceFileWithContent } from '@/types/workspace'
@@ -72,6 +76,7 @@ export function WorkspaceLayout({ userId, readOnly = false, scopeFolderId, user
   const [code, setCode] = useState('')
   const [language, setLanguage] = useState('javascript')
   const [showAI, setShowAI] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
   const [showFileExplorer, setShowFileExplorer] = useState(true)
   const [showOutput, setShowOutput] = useState(true)
   const [refreshKey, setRefreshKey] = useState(0) // Refresh trigger for FileExplorer
@@ -170,24 +175,50 @@ export function WorkspaceLayout({ userId, readOnly = false, scopeFolderId, user
     setRefreshKey((prev) => prev + 1)
   }, [queryClient, userId])
 
+  // "Run folder" mode (own workspace only; the server reads the current user's files)
+  const folderRun = useFolderRun({
+    selectedFileId: selectedFile?.id,
+    disabled: readOnly || userId != null,
+  })
+
   // Code execution (no session sync for standalone workspace)
   const {
     executing,
     executionResult,
     handleRun,
+    handleStop,
     clearResult,
+    interactive,
   } = useWorkspaceCodeExecution({
     language,
     syncToSession: false,
+    folderRun: folderRun.target,
   })
 
   // Save and run (same behavior as session: save if dirty then run, simultaneous)
+  // Folder runs wait for the save so the server sees the latest content
   const handleSaveAndRun = useSaveAndRun({
     code,
     lastSavedCode,
     saveCurrentFile,
     handleRun,
+    awaitSave: folderRun.target != null,
+  })
+
+  // Test cases attached to the selected file (Tests tab next to the output)
+  const testCases = useTestCases({
+    fileId: selectedFile?.id,
+    language,
+    folderRun: folderRun.target,
   })
+  const runTests = testCases.runTests
+  const handleRunTests = useCallback(async () => {
+    // Folder runs read files from the server, so save pending edits first
+    if (folderRun.target && code !== lastSavedCode) {
+      await saveCurrentFile()
+    }
+    await runTests(code)
+  }, [folderRun.target, code, lastSavedCode, saveCurrentFile, runTests])
 
   // Import/Export functionality
   const {
@@ -515,23 +546,39 @@ export function WorkspaceLayout({ userId, readOnly = false, scopeFolderId, user
                 onLanguageChange={setLanguage}
                 onChange={setCode}
                 onRun={handleSaveAndRun}
+                onStop={handleStop}
                 executing={executing}
                 executionResult={executionResult}
                 onSave={handleEditorSave}
                 readOnly={readOnly}
                 allowRunInReadOnly={readOnly}
                 runButtonLabel="Save and Run"
+                folderRun={folderRun}
+                // Run history lists the signed-in user's runs, so hide it when viewing someone else's workspace
+                onOpenHistory={userId == null ? () => setShowHistory(true) : undefined}
               />
             ) : (
               <NoFileSelectedView />
             )
           }
           outputPanel={
-            <OutputPanelWrapper>
+            <OutputPanelWrapper
+              testsPanel={
+                selectedFile && !(readOnly || userId != null) ? (
+                  <TestResultsPanel tests={testCases} onRunTests={handleRunTests} />
+                ) : undefined
+              }
+              testsLabel={
+                testCases.summary
+                  ? `Tests ${testCases.summary.passed}/${testCases.summary.total}`
+                  : 'Tests'
+              }
+            >
               <OutputPanel
                 result={executionResult}
                 executing={executing}
                 onClear={clearResult}
+                interactive={interactive}
               />
             </OutputPanelWrapper>
           }
@@ -589,6 +636,21 @@ export function WorkspaceLayout({ userId, readOnly = false, scopeFolderId, user
         />
       )}
 
+      {/* Run History Drawer */}
+      <RunHistoryDrawer
+        open={showHistory}
+        onClose={() => setShowHistory(false)}
+        fileId={selectedFile?.id}
+        onRestore={
+          readOnly
+            ? undefined
+            : (restoredCode, restoredLanguage) => {
+                setCode(restoredCode)
+                setLanguage(restoredLanguage)
+              }
+        }
+      />
+
       {/* Trial Grace Period Modal */}
       {paymentStatus?.isTrialInGracePeriod && paymentStatus.trialEndDate && (
         <TrialGracePeriodModal
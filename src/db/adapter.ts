@@ -19,7 +19,7 @@ import { postgresAdapter } from '@payloadcms/db-postgres'
 import { migrations } from '../migrations'
 
 /** Normalize connection string: use sslmode=verify-full to avoid pg v3 future break and SSL warning */
-function getConnectionString(): string {
+export function getConnectionString(): string {
   const url = process.env.DATABASE_URL || ''
   if (!url) return url
   const hasParams = url.includes('?')
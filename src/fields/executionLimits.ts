@@ -0,0 +1,71 @@
+import type { GroupField } from 'payload'
+
+import deepMerge from '@/utilities/deepMerge'
+
+type ExecutionLimitsType = (options?: {
+  description?: string
+  overrides?: Partial<GroupField>
+}) => GroupField
+
+/**
+ * Per-run resource limits. Empty fields inherit the next level
+ * (session → language → language registry defaults).
+ */
+export const executionLimits: ExecutionLimitsType = ({ description, overrides = {} } = {}) => {
+  const generatedLimits: GroupField = {
+    name: 'limits',
+    type: 'group',
+    admin: {
+      description,
+    },
+    fields: [
+      {
+        type: 'row',
+        fields: [
+          {
+            name: 'cpuTimeSeconds',
+            type: 'number',
+            min: 1,
+            max: 60,
+            admin: {
+              description: 'CPU time per process (seconds)',
+              step: 1,
+            },
+          },
+          {
+            name: 'wallTimeMs',
+            type: 'number',
+            min: 1000,
+            max: 120_000,
+            admin: {
+              description: 'Wall-clock time (ms)',
+              step: 1000,
+            },
+          },
+          {
+            name: 'memoryMb',
+            type: 'number',
+            min: 16,
+            max: 4096,
+            admin: {
+              description: 'Memory (MB)',
+              step: 16,
+            },
+          },
+          {
+            name: 'maxOutputKb',
+            type: 'number',
+            min: 1,
+            max: 10_240,
+            admin: {
+              description: 'Output per stream (KB)',
+              step: 1,
+            },
+          },
+        ],
+      },
+    ],
+  }
+
+  return deepMerge(generatedLimits, overrides)
+}
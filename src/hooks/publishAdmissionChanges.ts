@@ -0,0 +1,51 @@
+import type { CollectionAfterChangeHook, CollectionAfterDeleteHook } from 'payload'
+
+import type { SessionAdmission } from '@/payload-types'
+import { publishSessionEvent } from '@/services/sessionEvents'
+import { afterCommit } from '@/utilities/afterCommit'
+
+async function publish(
+  doc: SessionAdmission,
+  req: Parameters<CollectionAfterChangeHook<SessionAdmission>>[0]['req'],
+  status: SessionAdmission['status'] | 'withdrawn',
+) {
+  const session =
+    typeof doc.session === 'object'
+      ? doc.session
+      : await req.payload.findByID({
+          collection: 'live-sessions',
+          id: doc.session,
+          depth: 0,
+          req,
+        })
+  const userId = typeof doc.user === 'object' ? doc.user.id : doc.user
+  afterCommit(req, () =>
+    publishSessionEvent(session.joinCode, 'admission_changed', { userId, status }),
+  )
+}
+
+/** Tell the session's hosts that someone is waiting, or was admitted or turned away */
+export const publishAdmissionChange: CollectionAfterChangeHook<SessionAdmission> = async ({
+  doc,
+  req,
+}) => {
+  try {
+    await publish(doc, req, doc.status)
+  } catch (error) {
+    req.payload.logger.error({ err: error }, 'Failed to publish admission change')
+  }
+  return doc
+}
+
+/** A student gave up waiting */
+export const publishAdmissionWithdrawn: CollectionAfterDeleteHook<SessionAdmission> = async ({
+  doc,
+  req,
+}) => {
+  try {
+    await publish(doc, req, 'withdrawn')
+  } catch (error) {
+    req.payload.logger.error({ err: error }, 'Failed to publish withdrawn admission')
+  }
+  return doc
+}
@@ -0,0 +1,65 @@
+import type { CollectionAfterChangeHook, PayloadRequest } from 'payload'
+
+import type { LiveSession, SessionMessage, SessionParticipant } from '@/payload-types'
+import { publishSessionEvent } from '@/services/sessionEvents'
+import { afterCommit } from '@/utilities/afterCommit'
+import { idOf } from '@/utilities/idOf'
+
+async function joinCodeOf(
+  session: SessionMessage['session'] | SessionParticipant['session'],
+  req: PayloadRequest,
+): Promise<LiveSession['joinCode']> {
+  if (typeof session === 'object') return session.joinCode
+  const doc = await req.payload.findByID({
+    collection: 'live-sessions',
+    id: session,
+    depth: 0,
+    req,
+  })
+  return doc.joinCode
+}
+
+/** Tell a session's watchers that a chat message was posted or removed */
+export const publishChatMessage: CollectionAfterChangeHook<SessionMessage> = async ({
+  doc,
+  previousDoc,
+  operation,
+  req,
+}) => {
+  const reason =
+    operation === 'create' ? 'posted' : doc.deletedAt && !previousDoc?.deletedAt ? 'deleted' : null
+  if (!reason) return doc
+  try {
+    const joinCode = await joinCodeOf(doc.session, req)
+    afterCommit(req, () =>
+      publishSessionEvent(joinCode, 'chat_message', {
+        messageId: doc.id,
+        threadUserId: idOf(doc.thread),
+        reason,
+      }),
+    )
+  } catch (error) {
+    req.payload.logger.error({ err: error }, 'Failed to publish chat message')
+  }
+  return doc
+}
+
+/** Tell a session's watchers that a trainer muted or unmuted a student in chat */
+export const publishChatMute: CollectionAfterChangeHook<SessionParticipant> = async ({
+  doc,
+  previousDoc,
+  operation,
+  req,
+}) => {
+  if (operation !== 'update' || !previousDoc) return doc
+  if (!doc.chatMutedAt === !previousDoc.chatMutedAt) return doc
+  try {
+    const joinCode = await joinCodeOf(doc.session, req)
+    afterCommit(req, () =>
+      publishSessionEvent(joinCode, 'chat_settings_changed', { userId: idOf(doc.user) }),
+    )
+  } catch (error) {
+    req.payload.logger.error({ err: error }, 'Failed to publish chat mute')
+  }
+  return doc
+}
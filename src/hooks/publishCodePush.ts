@@ -0,0 +1,38 @@
+import type { CollectionAfterChangeHook } from 'payload'
+
+import type { CodePush } from '@/payload-types'
+import { publishSessionEvent } from '@/services/sessionEvents'
+import { afterCommit } from '@/utilities/afterCommit'
+
+/**
+ * Tell a session's students that the trainer pushed code, so recipients refetch
+ * GET /api/sessions/[code]/pushes and see the accept prompt. Answers are not announced.
+ */
+export const publishCodePush: CollectionAfterChangeHook<CodePush> = async ({
+  doc,
+  operation,
+  req,
+}) => {
+  if (operation !== 'create') return doc
+  try {
+    const session =
+      typeof doc.session === 'object'
+        ? doc.session
+        : await req.payload.findByID({
+            collection: 'live-sessions',
+            id: doc.session,
+            depth: 0,
+            req,
+          })
+    const recipient = typeof doc.recipient === 'object' ? doc.recipient?.id : doc.recipient
+    afterCommit(req, () =>
+      publishSessionEvent(session.joinCode, 'code_pushed', {
+        pushId: doc.id,
+        recipientId: recipient ?? null,
+      }),
+    )
+  } catch (error) {
+    req.payload.logger.error({ err: error }, 'Failed to publish code push')
+  }
+  return doc
+}
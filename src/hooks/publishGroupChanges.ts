@@ -0,0 +1,46 @@
+import type { CollectionAfterChangeHook } from 'payload'
+
+import type { SessionGroup } from '@/payload-types'
+import { publishSessionEvent } from '@/services/sessionEvents'
+import { afterCommit } from '@/utilities/afterCommit'
+
+type GroupChangeReason = 'started' | 'updated' | 'scratchpad' | 'broadcast' | 'closed'
+
+function reasonFor(
+  doc: SessionGroup,
+  previousDoc: SessionGroup | undefined,
+  operation: 'create' | 'update',
+): GroupChangeReason {
+  if (operation === 'create') return 'started'
+  if (doc.closedAt && !previousDoc?.closedAt) return 'closed'
+  if (doc.broadcastAt !== previousDoc?.broadcastAt) return 'broadcast'
+  if (doc.codeUpdatedAt !== previousDoc?.codeUpdatedAt) return 'scratchpad'
+  return 'updated'
+}
+
+/** Tell a session's watchers that a breakout group started, changed or closed */
+export const publishGroupChange: CollectionAfterChangeHook<SessionGroup> = async ({
+  doc,
+  previousDoc,
+  operation,
+  req,
+}) => {
+  try {
+    const session =
+      typeof doc.session === 'object'
+        ? doc.session
+        : await req.payload.findByID({
+            collection: 'live-sessions',
+            id: doc.session,
+            depth: 0,
+            req,
+          })
+    const reason = reasonFor(doc, previousDoc, operation)
+    afterCommit(req, () =>
+      publishSessionEvent(session.joinCode, 'group_changed', { groupId: doc.id, reason }),
+    )
+  } catch (error) {
+    req.payload.logger.error({ err: error }, 'Failed to publish group change')
+  }
+  return doc
+}
@@ -0,0 +1,30 @@
+import type { CollectionAfterChangeHook } from 'payload'
+
+import type { HelpRequest } from '@/payload-types'
+import { publishSessionEvent } from '@/services/sessionEvents'
+import { afterCommit } from '@/utilities/afterCommit'
+
+/**
+ * Tell a session's watchers that its help queue changed, so trainers and
+ * waiting students refetch GET /api/sessions/[code]/help.
+ */
+export const publishHelpQueueChanges: CollectionAfterChangeHook<HelpRequest> = async ({
+  doc,
+  req,
+}) => {
+  try {
+    const session =
+      typeof doc.session === 'object'
+        ? doc.session
+        : await req.payload.findByID({
+            collection: 'live-sessions',
+            id: doc.session,
+            depth: 0,
+            req,
+          })
+    afterCommit(req, () => publishSessionEvent(session.joinCode, 'help_queue_changed', {}))
+  } catch (error) {
+    req.payload.logger.error({ err: error }, 'Failed to publish help queue change')
+  }
+  return doc
+}
@@ -0,0 +1,124 @@
+import type { CollectionAfterChangeHook, PayloadRequest } from 'payload'
+
+import type { LiveSession } from '@/payload-types'
+import { publishSessionEvent } from '@/services/sessionEvents'
+import { afterCommit } from '@/utilities/afterCommit'
+import { idOf } from '@/utilities/idOf'
+
+type LanguageRef = LiveSession['language']
+
+function languageId(language: LanguageRef): number | null {
+  if (language == null) return null
+  return typeof language === 'object' ? language.id : language
+}
+
+const coHostsOf = (session: LiveSession) =>
+  (session.coHosts ?? []).map((coHost) => [idOf(coHost.user), coHost.permissions ?? []])
+
+/** Slug of a session's language relationship, populated or not */
+export async function languageSlug(
+  language: LanguageRef,
+  req: PayloadRequest,
+): Promise<string | null> {
+  if (language == null) return null
+  if (typeof language === 'object') return language.slug ?? null
+  try {
+    const doc = await req.payload.findByID({ collection: 'languages', id: language, depth: 0, req })
+    return doc.slug ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Push changes of a live session to its watchers (GET /api/sessions/[code]/events).
+ * Runs for every update path: broadcast, pause, end, expiry and edits in the admin panel.
+ * Events go out in order once the update has committed.
+ */
+export const publishLiveSessionEvents: CollectionAfterChangeHook<LiveSession> = async ({
+  doc,
+  previousDoc,
+  operation,
+  req,
+}) => {
+  if (operation !== 'update' || !previousDoc) return doc
+
+  const sessionCode = doc.joinCode
+  const events: Array<() => Promise<void>> = []
+
+  if (
+    doc.currentCode !== previousDoc.currentCode ||
+    doc.trainerWorkspaceFileId !== previousDoc.trainerWorkspaceFileId ||
+    doc.trainerWorkspaceFileName !== previousDoc.trainerWorkspaceFileName
+  ) {
+    events.push(() =>
+      publishSessionEvent(sessionCode, 'code_broadcast', {
+        code: doc.currentCode || '',
+        trainerWorkspaceFileId: doc.trainerWorkspaceFileId || null,
+        trainerWorkspaceFileName: doc.trainerWorkspaceFileName || null,
+      }),
+    )
+  }
+
+  if (
+    JSON.stringify(doc.currentOutput ?? null) !== JSON.stringify(previousDoc.currentOutput ?? null)
+  ) {
+    events.push(() =>
+      publishSessionEvent(sessionCode, 'execution_completed', {
+        output: doc.currentOutput ?? null,
+      }),
+    )
+  }
+
+  if (languageId(doc.language) !== languageId(previousDoc.language)) {
+    const language = await languageSlug(doc.language, req)
+    if (language) {
+      events.push(() => publishSessionEvent(sessionCode, 'language_changed', { language }))
+    }
+  }
+
+  if (
+    doc.pausedAt &&
+    (doc.pausedAt !== previousDoc.pausedAt || doc.resumeAt !== previousDoc.resumeAt)
+  ) {
+    const { pausedAt, resumeAt } = doc
+    events.push(() =>
+      publishSessionEvent(sessionCode, 'session_paused', { pausedAt, resumeAt: resumeAt || null }),
+    )
+  } else if (previousDoc.pausedAt && !doc.pausedAt && doc.isActive) {
+    events.push(() =>
+      publishSessionEvent(sessionCode, 'session_resumed', {
+        resumedAt: new Date().toISOString(),
+      }),
+    )
+  }
+
+  if ((doc.chatSlowModeSeconds ?? 0) !== (previousDoc.chatSlowModeSeconds ?? 0)) {
+    events.push(() => publishSessionEvent(sessionCode, 'chat_settings_changed', { userId: null }))
+  }
+
+  if (
+    idOf(doc.trainer) !== idOf(previousDoc.trainer) ||
+    JSON.stringify(coHostsOf(doc)) !== JSON.stringify(coHostsOf(previousDoc))
+  ) {
+    events.push(() =>
+      publishSessionEvent(sessionCode, 'hosts_changed', { trainerId: idOf(doc.trainer) }),
+    )
+  }
+
+  if (previousDoc.isActive && !doc.isActive) {
+    events.push(() =>
+      publishSessionEvent(sessionCode, 'session_ended', {
+        endedAt: doc.endedAt || new Date().toISOString(),
+      }),
+    )
+  }
+
+  if (events.length > 0) {
+    afterCommit(req, async () => {
+      for (const publish of events) await publish()
+    })
+  }
+
+  return doc
+}
@@ -0,0 +1,68 @@
+import type { CollectionAfterChangeHook, PayloadRequest } from 'payload'
+
+import type { SessionPoll, SessionPollAnswer } from '@/payload-types'
+import { publishSessionEvent } from '@/services/sessionEvents'
+import { afterCommit } from '@/utilities/afterCommit'
+
+type PollChangeReason = 'opened' | 'answered' | 'closed'
+
+async function publish(
+  poll: SessionPoll | SessionPoll['id'],
+  reason: PollChangeReason,
+  req: PayloadRequest,
+) {
+  const doc =
+    typeof poll === 'object'
+      ? poll
+      : await req.payload.findByID({ collection: 'session-polls', id: poll, depth: 0, req })
+  const session =
+    typeof doc.session === 'object'
+      ? doc.session
+      : await req.payload.findByID({
+          collection: 'live-sessions',
+          id: doc.session,
+          depth: 0,
+          req,
+        })
+  afterCommit(req, () =>
+    publishSessionEvent(session.joinCode, 'poll_changed', { pollId: doc.id, reason }),
+  )
+}
+
+/**
+ * Tell a session's watchers that a poll opened, got an answer or closed.
+ * Trainers refetch on every change to aggregate results live; students only
+ * need `opened` and `closed`.
+ */
+export const publishPollChanges: CollectionAfterChangeHook<SessionPoll> = async ({
+  doc,
+  previousDoc,
+  operation,
+  req,
+}) => {
+  const reason =
+    operation === 'create'
+      ? 'opened'
+      : doc.status === 'closed' && previousDoc?.status !== 'closed'
+        ? 'closed'
+        : 'answered'
+  try {
+    await publish(doc, reason, req)
+  } catch (error) {
+    req.payload.logger.error({ err: error }, 'Failed to publish poll change')
+  }
+  return doc
+}
+
+/** A student answered a poll, or changed their answer */
+export const publishPollAnswer: CollectionAfterChangeHook<SessionPollAnswer> = async ({
+  doc,
+  req,
+}) => {
+  try {
+    await publish(doc.poll, 'answered', req)
+  } catch (error) {
+    req.payload.logger.error({ err: error }, 'Failed to publish poll answer')
+  }
+  return doc
+}
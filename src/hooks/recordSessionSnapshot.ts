@@ -0,0 +1,49 @@
+import type { CollectionAfterChangeHook } from 'payload'
+
+import type { LiveSession } from '@/payload-types'
+import { getLanguageByFileName } from '@/utilities/languageRegistry'
+import { languageSlug } from './publishLiveSessionEvents'
+
+/**
+ * Save every trainer broadcast (code, output or file change) to `session-snapshots`,
+ * so the session can be replayed after it ends. Never throws: a failed recording
+ * must not fail the broadcast.
+ */
+export const recordSessionSnapshot: CollectionAfterChangeHook<LiveSession> = async ({
+  doc,
+  previousDoc,
+  operation,
+  req,
+}) => {
+  if (operation !== 'update' || !previousDoc) return doc
+
+  const broadcast =
+    doc.currentCode !== previousDoc.currentCode ||
+    doc.trainerWorkspaceFileId !== previousDoc.trainerWorkspaceFileId ||
+    JSON.stringify(doc.currentOutput ?? null) !== JSON.stringify(previousDoc.currentOutput ?? null)
+  if (!broadcast) return doc
+
+  try {
+    const language =
+      (doc.trainerWorkspaceFileName && getLanguageByFileName(doc.trainerWorkspaceFileName)?.id) ||
+      (await languageSlug(doc.language, req))
+
+    await req.payload.create({
+      collection: 'session-snapshots',
+      data: {
+        session: doc.id,
+        code: doc.currentCode || '',
+        language,
+        output: doc.currentOutput ?? null,
+        workspaceFileId: doc.trainerWorkspaceFileId || null,
+        workspaceFileName: doc.trainerWorkspaceFileName || null,
+        capturedAt: new Date().toISOString(),
+      },
+      req,
+    })
+  } catch (error) {
+    req.payload.logger.error({ err: error }, `Failed to record snapshot of session ${doc.joinCode}`)
+  }
+
+  return doc
+}
@@ -0,0 +1,96 @@
+/**
+ * Hook for a waiting-room session's admissions (trainer side).
+ *
+ * This hook provides:
+ * - Students waiting to be let in, oldest first
+ * - Admit or turn away one student, or everyone waiting
+ * - Live updates from `admission_changed` session events
+ *
+ * API Endpoints Used:
+ * - GET /api/sessions/[code]/admissions - Students in the waiting room
+ * - PATCH /api/sessions/[code]/admissions - Admit or deny
+ *
+ * @module useAdmissions
+ */
+
+import { useCallback, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useSessionEvents } from '@/hooks/session/useSessionEvents'
+import type { AdmissionItem } from '@/services/sessionAccess'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+/**
+ * @example
+ * ```tsx
+ * const { waiting, decide } = useAdmissions(sessionCode)
+ * await decide('admitted') // everyone waiting
+ * await decide('denied', [waiting[0].id])
+ * ```
+ */
+export function useAdmissions(sessionCode: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const [updating, setUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const query = useQuery<{ admissions: AdmissionItem[] }>({
+    queryKey: ['session', 'admissions', sessionCode],
+    queryFn: async () => {
+      const url = `/api/sessions/${sessionCode}/admissions`
+      logApiFetch('useAdmissions', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        logApiFetch('useAdmissions', url, 'error')
+        throw new Error(data.error || `Failed to fetch admissions (${res.status})`)
+      }
+      logApiFetch('useAdmissions', url, 'ok')
+      return data
+    },
+    enabled: enabled && !!sessionCode,
+  })
+
+  useSessionEvents(
+    sessionCode,
+    (event) => {
+      if (event.type === 'admission_changed' || event.type === 'refresh') {
+        queryClient.invalidateQueries({ queryKey: ['session', 'admissions', sessionCode] })
+      }
+    },
+    enabled,
+  )
+
+  /** Without ids, answers everyone waiting */
+  const decide = useCallback(
+    async (status: 'admitted' | 'denied', ids?: AdmissionItem['id'][]) => {
+      setUpdating(true)
+      setError(null)
+      try {
+        const res = await fetch(`/api/sessions/${sessionCode}/admissions`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ status, ids }),
+        })
+        const result = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          throw new Error(result.error || `Request failed (${res.status})`)
+        }
+        return true
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to update admissions')
+        return false
+      } finally {
+        setUpdating(false)
+        queryClient.invalidateQueries({ queryKey: ['session', 'admissions', sessionCode] })
+      }
+    },
+    [sessionCode, queryClient],
+  )
+
+  return {
+    waiting: query.data?.admissions ?? [],
+    decide,
+    updating,
+    error,
+  }
+}
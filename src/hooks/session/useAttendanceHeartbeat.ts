@@ -0,0 +1,56 @@
+/**
+ * Hook that keeps a student's attendance up to date while the session page is open.
+ *
+ * This hook provides:
+ * - A heartbeat about once a minute, recorded for attendance reports
+ * - An immediate heartbeat when the tab becomes visible again (sleeping laptops,
+ *   background tabs whose timers were throttled)
+ * - A rejoin when the server no longer counts the student as present (409)
+ *
+ * API Endpoints Used:
+ * - POST /api/sessions/[code]/heartbeat - Record that the student is still here
+ * - POST /api/sessions/[code]/join - Rejoin after being marked as left
+ *
+ * @module useAttendanceHeartbeat
+ */
+
+import { useEffect } from 'react'
+import { HEARTBEAT_INTERVAL_MS } from '@/utilities/attendanceReport'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+/**
+ * @example
+ * ```tsx
+ * useAttendanceHeartbeat(joinCode, sessionActive)
+ * ```
+ */
+export function useAttendanceHeartbeat(sessionCode: string, enabled = true) {
+  useEffect(() => {
+    if (!enabled || !sessionCode) return
+
+    const url = `/api/sessions/${sessionCode}/heartbeat`
+    const joinUrl = `/api/sessions/${sessionCode}/join`
+    const beat = () => {
+      logApiFetch('useAttendanceHeartbeat', url)
+      fetch(url, { method: 'POST', credentials: 'include' })
+        .then((res) => {
+          logApiFetch('useAttendanceHeartbeat', url, res.ok ? 'ok' : 'error')
+          // Marked as left (e.g. the page was closed in another tab): join again
+          if (res.status === 409) {
+            return fetch(joinUrl, { method: 'POST', credentials: 'include' })
+          }
+        })
+        .catch(() => logApiFetch('useAttendanceHeartbeat', url, 'error'))
+    }
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') beat()
+    }
+
+    const timer = setInterval(beat, HEARTBEAT_INTERVAL_MS)
+    document.addEventListener('visibilitychange', onVisible)
+    return () => {
+      clearInterval(timer)
+      document.removeEventListener('visibilitychange', onVisible)
+    }
+  }, [sessionCode, enabled])
+}
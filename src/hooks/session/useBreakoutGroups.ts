@@ -0,0 +1,123 @@
+/**
+ * Hook for running breakout groups in a live session (trainers and staff).
+ *
+ * This hook provides:
+ * - The open breakout groups with their members and shared scratchpads
+ * - Start a breakout (random or hand-picked groups) and bring everyone back
+ * - Rename a group, move students between groups, send code to one group
+ * - Live updates from `group_changed` session events, including scratchpad edits
+ *
+ * API Endpoints Used:
+ * - GET /api/sessions/[code]/groups - Open groups
+ * - POST /api/sessions/[code]/groups - Start a breakout
+ * - DELETE /api/sessions/[code]/groups - Close every group
+ * - PATCH /api/sessions/[code]/groups/[id] - Rename or regroup
+ * - POST /api/sessions/[code]/groups/[id]/broadcast - Send code to one group
+ *
+ * @module useBreakoutGroups
+ */
+
+import { useCallback, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useSessionEvents } from '@/hooks/session/useSessionEvents'
+import type { BreakoutInput, GroupCode, GroupItem } from '@/services/breakoutGroups'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+export type GroupChange = { name?: string; memberIds?: number[] }
+
+/**
+ * @example
+ * ```tsx
+ * const { groups, startBreakout, endBreakout } = useBreakoutGroups(sessionCode)
+ * await startBreakout({ mode: 'random', groupSize: 2 })
+ * ```
+ */
+export function useBreakoutGroups(sessionCode: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const [updating, setUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const query = useQuery<GroupItem[]>({
+    queryKey: ['session', 'groups', sessionCode],
+    queryFn: async () => {
+      const url = `/api/sessions/${sessionCode}/groups`
+      logApiFetch('useBreakoutGroups', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        logApiFetch('useBreakoutGroups', url, 'error')
+        throw new Error(data.error || `Failed to fetch breakout groups (${res.status})`)
+      }
+      logApiFetch('useBreakoutGroups', url, 'ok')
+      return data.groups ?? []
+    },
+    enabled: enabled && !!sessionCode,
+  })
+
+  useSessionEvents(
+    sessionCode,
+    (event) => {
+      if (event.type === 'group_changed' || event.type === 'refresh') {
+        queryClient.invalidateQueries({ queryKey: ['session', 'groups', sessionCode] })
+      }
+    },
+    enabled,
+  )
+
+  const request = useCallback(
+    async (url: string, method: 'POST' | 'PATCH' | 'DELETE', body?: unknown) => {
+      setUpdating(true)
+      setError(null)
+      try {
+        const res = await fetch(url, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: body === undefined ? undefined : JSON.stringify(body),
+        })
+        const result = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          throw new Error(result.error || `Request failed (${res.status})`)
+        }
+        return true
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to update breakout groups')
+        return false
+      } finally {
+        setUpdating(false)
+        queryClient.invalidateQueries({ queryKey: ['session', 'groups', sessionCode] })
+      }
+    },
+    [sessionCode, queryClient],
+  )
+
+  const startBreakout = useCallback(
+    (input: BreakoutInput) => request(`/api/sessions/${sessionCode}/groups`, 'POST', input),
+    [request, sessionCode],
+  )
+  const endBreakout = useCallback(
+    () => request(`/api/sessions/${sessionCode}/groups`, 'DELETE'),
+    [request, sessionCode],
+  )
+  const updateGroup = useCallback(
+    (id: GroupItem['id'], change: GroupChange) =>
+      request(`/api/sessions/${sessionCode}/groups/${id}`, 'PATCH', change),
+    [request, sessionCode],
+  )
+  const broadcastToGroup = useCallback(
+    (id: GroupItem['id'], code: GroupCode) =>
+      request(`/api/sessions/${sessionCode}/groups/${id}/broadcast`, 'POST', code),
+    [request, sessionCode],
+  )
+
+  return {
+    groups: query.data ?? [],
+    isLoading: query.isLoading,
+    startBreakout,
+    endBreakout,
+    updateGroup,
+    broadcastToGroup,
+    updating,
+    error,
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Hook for pushing code to students, as used by trainers and staff.
+ *
+ * This hook provides:
+ * - The session's recent pushes with how students answered them
+ * - Push to one student or the whole class
+ *
+ * API Endpoints Used:
+ * - GET /api/sessions/[code]/pushes - Recent pushes
+ * - POST /api/sessions/[code]/pushes - Push code
+ *
+ * @module useCodePushes
+ */
+
+import { useCallback, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import type { CodePushFields, CodePushItem } from '@/services/codePushes'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+/**
+ * @example
+ * ```tsx
+ * const { push } = useCodePushes(sessionCode)
+ * await push({ code: starterCode, fileName: 'loops.py' }) // whole class
+ * ```
+ */
+export function useCodePushes(sessionCode: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const [pushing, setPushing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const query = useQuery<CodePushItem[]>({
+    queryKey: ['session', 'pushes', sessionCode],
+    queryFn: async () => {
+      const url = `/api/sessions/${sessionCode}/pushes`
+      logApiFetch('useCodePushes', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        logApiFetch('useCodePushes', url, 'error')
+        throw new Error(data.error || `Failed to fetch code pushes (${res.status})`)
+      }
+      logApiFetch('useCodePushes', url, 'ok')
+      return data.pushes ?? []
+    },
+    enabled: enabled && !!sessionCode,
+    // Answers are not announced as events
+    refetchInterval: 30000,
+  })
+
+  const push = useCallback(
+    async (fields: CodePushFields) => {
+      setPushing(true)
+      setError(null)
+      try {
+        const res = await fetch(`/api/sessions/${sessionCode}/pushes`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(fields),
+        })
+        const result = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          throw new Error(result.error || `Request failed (${res.status})`)
+        }
+        queryClient.setQueryData<CodePushItem[]>(['session', 'pushes', sessionCode], (current) => [
+          ...(current ?? []),
+          result.push,
+        ])
+        return true
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to push code')
+        return false
+      } finally {
+        setPushing(false)
+      }
+    },
+    [sessionCode, queryClient],
+  )
+
+  return {
+    pushes: query.data ?? [],
+    push,
+    pushing,
+    error,
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Hook for the cohorts a session can be restricted to.
+ *
+ * This hook provides:
+ * - Every cohort by name, with its number of students
+ *
+ * API Endpoints Used:
+ * - GET /api/dashboard/cohorts - Cohorts (managed in the admin panel)
+ *
+ * @module useCohorts
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import type { CohortOption } from '@/services/sessionAccess'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+/**
+ * @example
+ * ```tsx
+ * const { cohorts } = useCohorts(accessMode === 'restricted')
+ * ```
+ */
+export function useCohorts(enabled = true) {
+  const query = useQuery<{ cohorts: CohortOption[] }>({
+    queryKey: ['cohorts'],
+    queryFn: async () => {
+      const url = '/api/dashboard/cohorts'
+      logApiFetch('useCohorts', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        logApiFetch('useCohorts', url, 'error')
+        throw new Error(data.error || `Failed to fetch cohorts (${res.status})`)
+      }
+      logApiFetch('useCohorts', url, 'ok')
+      return data
+    },
+    enabled,
+    staleTime: 60 * 1000,
+  })
+
+  return {
+    cohorts: query.data?.cohorts ?? [],
+    loading: query.isLoading,
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Hook for the raise-hand help queue, as seen by trainers and staff.
+ *
+ * This hook provides:
+ * - Open requests in queue order, with the student's code and last error
+ * - Queue stats (waiting, claimed, resolved, average wait)
+ * - Claim, resolve and dismiss actions
+ * - Live updates from `help_queue_changed` session events
+ *
+ * API Endpoints Used:
+ * - GET /api/sessions/[code]/help - Fetch the queue
+ * - PATCH /api/sessions/[code]/help/[id] - Claim, resolve or dismiss a request
+ *
+ * @module useHelpQueue
+ */
+
+import { useCallback, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useSessionEvents } from '@/hooks/session/useSessionEvents'
+import type { HelpAction, HelpQueueStats, HelpRequestItem } from '@/services/helpRequests'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+export interface HelpQueue {
+  requests: HelpRequestItem[]
+  stats: HelpQueueStats
+}
+
+/**
+ * @example
+ * ```tsx
+ * const { requests, stats, act } = useHelpQueue(sessionCode)
+ * await act(requests[0].id, 'claim')
+ * ```
+ */
+export function useHelpQueue(sessionCode: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const queryKey = ['session', 'help', sessionCode]
+  const [pendingId, setPendingId] = useState<HelpRequestItem['id'] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const query = useQuery<HelpQueue>({
+    queryKey,
+    queryFn: async () => {
+      const url = `/api/sessions/${sessionCode}/help`
+      logApiFetch('useHelpQueue', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        logApiFetch('useHelpQueue', url, 'error')
+        throw new Error(data.error || `Failed to fetch help queue (${res.status})`)
+      }
+      logApiFetch('useHelpQueue', url, 'ok')
+      return data as HelpQueue
+    },
+    enabled: enabled && !!sessionCode,
+    // Events keep it current; poll slowly in case the stream drops
+    refetchInterval: 30000,
+  })
+
+  useSessionEvents(
+    sessionCode,
+    (event) => {
+      if (event.type === 'help_queue_changed' || event.type === 'refresh') {
+        queryClient.invalidateQueries({ queryKey: ['session', 'help', sessionCode] })
+      }
+    },
+    enabled,
+  )
+
+  const act = useCallback(
+    async (id: HelpRequestItem['id'], action: HelpAction) => {
+      setPendingId(id)
+      setError(null)
+      try {
+        const res = await fetch(`/api/sessions/${sessionCode}/help/${id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ action }),
+        })
+        const result = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          throw new Error(result.error || `Request failed (${res.status})`)
+        }
+        return true
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to update help request')
+        return false
+      } finally {
+        setPendingId(null)
+        queryClient.invalidateQueries({ queryKey: ['session', 'help', sessionCode] })
+      }
+    },
+    [sessionCode, queryClient],
+  )
+
+  return {
+    requests: query.data?.requests ?? [],
+    stats: query.data?.stats ?? null,
+    isLoading: query.isLoading,
+    act,
+    pendingId,
+    error,
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Hook for a student's breakout group in a live session.
+ *
+ * This hook provides:
+ * - The open group the student is in (null outside a breakout), with its members,
+ *   shared scratchpad and the code the trainer sent to the group
+ * - Save the shared scratchpad; a save made on an outdated version is refused
+ *   and comes back with the newer version
+ * - Live updates from `group_changed` session events; scratchpad and broadcast
+ *   events of other groups are skipped
+ *
+ * API Endpoints Used:
+ * - GET /api/sessions/[code]/groups - The student's group
+ * - PATCH /api/sessions/[code]/groups/[id]/scratchpad - Save the shared scratchpad
+ *
+ * @module useMyGroup
+ */
+
+import { useCallback, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useSessionEvents } from '@/hooks/session/useSessionEvents'
+import type { GroupItem, ScratchpadEdit } from '@/services/breakoutGroups'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+/** `group` is the saved scratchpad, or on a conflict the newer one that was kept */
+export type ScratchpadSaveResult =
+  | { status: 'saved' | 'conflict'; group: GroupItem }
+  | { status: 'failed' }
+
+/**
+ * @example
+ * ```tsx
+ * const { group, saveScratchpad } = useMyGroup(sessionCode, sessionActive)
+ * if (group) await saveScratchpad({ code, language: 'python', baseUpdatedAt: group.codeUpdatedAt })
+ * ```
+ */
+export function useMyGroup(sessionCode: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const query = useQuery<GroupItem | null>({
+    queryKey: ['session', 'my-group', sessionCode],
+    queryFn: async () => {
+      const url = `/api/sessions/${sessionCode}/groups`
+      logApiFetch('useMyGroup', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        logApiFetch('useMyGroup', url, 'error')
+        throw new Error(data.error || `Failed to fetch breakout group (${res.status})`)
+      }
+      logApiFetch('useMyGroup', url, 'ok')
+      return data.group ?? null
+    },
+    enabled: enabled && !!sessionCode,
+  })
+
+  const groupId = query.data?.id ?? null
+
+  useSessionEvents(
+    sessionCode,
+    (event) => {
+      const relevant =
+        event.type === 'refresh' ||
+        (event.type === 'group_changed' &&
+          ((event.data.reason !== 'scratchpad' && event.data.reason !== 'broadcast') ||
+            event.data.groupId === groupId))
+      if (relevant) {
+        queryClient.invalidateQueries({ queryKey: ['session', 'my-group', sessionCode] })
+      }
+    },
+    enabled,
+  )
+
+  const saveScratchpad = useCallback(
+    async (edit: ScratchpadEdit): Promise<ScratchpadSaveResult> => {
+      if (groupId == null) return { status: 'failed' }
+      setSaving(true)
+      setError(null)
+      try {
+        const res = await fetch(`/api/sessions/${sessionCode}/groups/${groupId}/scratchpad`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(edit),
+        })
+        const result = await res.json().catch(() => ({}))
+        if (res.status === 409 && result.group) {
+          queryClient.setQueryData(['session', 'my-group', sessionCode], result.group)
+          return { status: 'conflict', group: result.group }
+        }
+        if (!res.ok) {
+          throw new Error(result.error || `Request failed (${res.status})`)
+        }
+        queryClient.setQueryData(['session', 'my-group', sessionCode], result.group)
+        return { status: 'saved', group: result.group }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to save the group scratchpad')
+        return { status: 'failed' }
+      } finally {
+        setSaving(false)
+      }
+    },
+    [queryClient, sessionCode, groupId],
+  )
+
+  return {
+    group: query.data ?? null,
+    isLoading: query.isLoading,
+    saveScratchpad,
+    saving,
+    error,
+  }
+}
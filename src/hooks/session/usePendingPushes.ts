@@ -0,0 +1,94 @@
+/**
+ * Hook for code the trainer pushed to a student.
+ *
+ * This hook provides:
+ * - Pushes the student has not answered yet, oldest first
+ * - Answering a push once the student replaced, merged, saved or dismissed it
+ * - Live updates from `code_pushed` session events
+ *
+ * API Endpoints Used:
+ * - GET /api/sessions/[code]/pushes - Pending pushes
+ * - PATCH /api/sessions/[code]/pushes/[id] - Record the answer
+ *
+ * @module usePendingPushes
+ */
+
+import { useCallback, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useSessionEvents } from '@/hooks/session/useSessionEvents'
+import type { CodePushAction, CodePushItem } from '@/services/codePushes'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+/**
+ * @example
+ * ```tsx
+ * const { pending, respond } = usePendingPushes(sessionCode)
+ * setCode(pending[0].code)
+ * await respond(pending[0].id, 'replaced')
+ * ```
+ */
+export function usePendingPushes(sessionCode: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const queryKey = ['session', 'pushes', sessionCode, 'pending']
+  const [responding, setResponding] = useState(false)
+
+  const query = useQuery<CodePushItem[]>({
+    queryKey,
+    queryFn: async () => {
+      const url = `/api/sessions/${sessionCode}/pushes`
+      logApiFetch('usePendingPushes', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        logApiFetch('usePendingPushes', url, 'error')
+        throw new Error(data.error || `Failed to fetch code pushes (${res.status})`)
+      }
+      logApiFetch('usePendingPushes', url, 'ok')
+      return data.pushes ?? []
+    },
+    enabled: enabled && !!sessionCode,
+  })
+
+  useSessionEvents(
+    sessionCode,
+    (event) => {
+      // Every recipient refetches; the server filters out pushes for other students
+      if (event.type === 'code_pushed' || event.type === 'refresh') {
+        queryClient.invalidateQueries({ queryKey: ['session', 'pushes', sessionCode, 'pending'] })
+      }
+    },
+    enabled,
+  )
+
+  const respond = useCallback(
+    async (id: CodePushItem['id'], action: CodePushAction) => {
+      setResponding(true)
+      // Drop it right away; the answer is only bookkeeping for the trainer
+      queryClient.setQueryData<CodePushItem[]>(
+        ['session', 'pushes', sessionCode, 'pending'],
+        (current) => current?.filter((push) => push.id !== id),
+      )
+      try {
+        const res = await fetch(`/api/sessions/${sessionCode}/pushes/${id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ action }),
+        })
+        if (!res.ok) {
+          const result = await res.json().catch(() => ({}))
+          console.error('[usePendingPushes] Failed to record answer:', result.error || res.status)
+        }
+      } finally {
+        setResponding(false)
+      }
+    },
+    [sessionCode, queryClient],
+  )
+
+  return {
+    pending: query.data ?? [],
+    respond,
+    responding,
+  }
+}
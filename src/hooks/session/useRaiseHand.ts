@@ -0,0 +1,112 @@
+/**
+ * Hook for a student's raised hand in a live session.
+ *
+ * This hook provides:
+ * - Whether the hand is up, its place in the queue and who claimed it
+ * - Raise (with the code to look at) and lower actions
+ * - Live updates from `help_queue_changed` session events
+ *
+ * API Endpoints Used:
+ * - GET /api/sessions/[code]/help - The student's own request
+ * - POST /api/sessions/[code]/help - Raise the hand
+ * - DELETE /api/sessions/[code]/help - Lower it
+ *
+ * @module useRaiseHand
+ */
+
+import { useCallback, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useSessionEvents } from '@/hooks/session/useSessionEvents'
+import type { HelpRequestFields, HelpRequestItem } from '@/services/helpRequests'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+interface OwnHelpRequest {
+  request: HelpRequestItem | null
+  position: number | null
+}
+
+/**
+ * @example
+ * ```tsx
+ * const { raised, position, raise, lower } = useRaiseHand(sessionCode)
+ * await raise({ code, language, lastError: 'TypeError: ...' })
+ * ```
+ */
+export function useRaiseHand(sessionCode: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const [updating, setUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const query = useQuery<OwnHelpRequest>({
+    queryKey: ['session', 'help', sessionCode, 'own'],
+    queryFn: async () => {
+      const url = `/api/sessions/${sessionCode}/help`
+      logApiFetch('useRaiseHand', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        logApiFetch('useRaiseHand', url, 'error')
+        throw new Error(data.error || `Failed to fetch help request (${res.status})`)
+      }
+      logApiFetch('useRaiseHand', url, 'ok')
+      return { request: data.request ?? null, position: data.position ?? null }
+    },
+    enabled: enabled && !!sessionCode,
+  })
+
+  useSessionEvents(
+    sessionCode,
+    (event) => {
+      if (event.type === 'help_queue_changed' || event.type === 'refresh') {
+        queryClient.invalidateQueries({ queryKey: ['session', 'help', sessionCode, 'own'] })
+      }
+    },
+    enabled,
+  )
+
+  const request = useCallback(
+    async (method: 'POST' | 'DELETE', fields?: HelpRequestFields) => {
+      setUpdating(true)
+      setError(null)
+      try {
+        const res = await fetch(`/api/sessions/${sessionCode}/help`, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: method === 'POST' ? JSON.stringify(fields ?? {}) : undefined,
+        })
+        const result = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          throw new Error(result.error || `Request failed (${res.status})`)
+        }
+        queryClient.setQueryData<OwnHelpRequest>(
+          ['session', 'help', sessionCode, 'own'],
+          method === 'POST'
+            ? { request: result.request ?? null, position: result.position ?? null }
+            : { request: null, position: null },
+        )
+        return true
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to update help request')
+        return false
+      } finally {
+        setUpdating(false)
+      }
+    },
+    [sessionCode, queryClient],
+  )
+
+  const raise = useCallback((fields?: HelpRequestFields) => request('POST', fields), [request])
+  const lower = useCallback(() => request('DELETE'), [request])
+
+  return {
+    raised: !!query.data?.request,
+    status: query.data?.request?.status ?? null,
+    position: query.data?.position ?? null,
+    claimedBy: query.data?.request?.claimedBy ?? null,
+    raise,
+    lower,
+    updating,
+    error,
+  }
+}
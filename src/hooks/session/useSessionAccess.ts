@@ -0,0 +1,89 @@
+/**
+ * Hook for who may join a live session.
+ *
+ * This hook provides:
+ * - The session's access mode, passcode, and listed students and cohorts
+ * - Whether the signed-in user may change them
+ * - Save new access settings
+ *
+ * API Endpoints Used:
+ * - GET /api/sessions/[code]/access - Current access settings
+ * - PUT /api/sessions/[code]/access - Change the access mode
+ *
+ * @module useSessionAccess
+ */
+
+import { useCallback, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import type { AccessSettingsInput, SessionAccessSettings } from '@/services/sessionAccess'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+interface AccessData {
+  access: SessionAccessSettings
+  canManage: boolean
+}
+
+/**
+ * @example
+ * ```tsx
+ * const { access, saveAccess } = useSessionAccess(sessionCode)
+ * await saveAccess({ accessMode: 'passcode', passcode: 'py-batch-7', studentEmails: [], cohortIds: [] })
+ * ```
+ */
+export function useSessionAccess(sessionCode: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const [updating, setUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const query = useQuery<AccessData>({
+    queryKey: ['session', 'access', sessionCode],
+    queryFn: async () => {
+      const url = `/api/sessions/${sessionCode}/access`
+      logApiFetch('useSessionAccess', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        logApiFetch('useSessionAccess', url, 'error')
+        throw new Error(data.error || `Failed to fetch session access (${res.status})`)
+      }
+      logApiFetch('useSessionAccess', url, 'ok')
+      return data
+    },
+    enabled: enabled && !!sessionCode,
+  })
+
+  const saveAccess = useCallback(
+    async (input: AccessSettingsInput) => {
+      setUpdating(true)
+      setError(null)
+      try {
+        const res = await fetch(`/api/sessions/${sessionCode}/access`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(input),
+        })
+        const result = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          throw new Error(result.error || `Request failed (${res.status})`)
+        }
+        return true
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to update session access')
+        return false
+      } finally {
+        setUpdating(false)
+        queryClient.invalidateQueries({ queryKey: ['session', 'access', sessionCode] })
+      }
+    },
+    [sessionCode, queryClient],
+  )
+
+  return {
+    access: query.data?.access ?? null,
+    canManage: query.data?.canManage ?? false,
+    saveAccess,
+    updating,
+    error,
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Hook for the trainer's break controls in a live session.
+ *
+ * This hook provides:
+ * - The current break (from the cached session data, see useSessionData)
+ * - Pause with an optional announced length, and resume
+ * - Cache updates on success, so the UI doesn't wait for a refetch
+ *
+ * API Endpoints Used:
+ * - POST /api/sessions/[code]/pause - Start a break
+ * - DELETE /api/sessions/[code]/pause - End the break
+ *
+ * @module useSessionBreak
+ */
+
+import { useCallback, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { useSessionData, type SessionLiveData } from '@/hooks/session/useSessionData'
+
+/**
+ * @example
+ * ```tsx
+ * const { paused, resumeAt, pause, resume } = useSessionBreak(sessionCode)
+ * await pause(15) // "Break — back at 10:45"
+ * ```
+ */
+export function useSessionBreak(sessionCode: string) {
+  const queryClient = useQueryClient()
+  const { data } = useSessionData(sessionCode, {
+    refetchInterval: false,
+    live: false,
+    enabled: !!sessionCode,
+  })
+  const [updating, setUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const request = useCallback(
+    async (method: 'POST' | 'DELETE', breakMinutes?: number) => {
+      setUpdating(true)
+      setError(null)
+      try {
+        const res = await fetch(`/api/sessions/${sessionCode}/pause`, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: method === 'POST' ? JSON.stringify({ breakMinutes }) : undefined,
+        })
+        const result = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          throw new Error(result.error || `Request failed (${res.status})`)
+        }
+        queryClient.setQueryData<SessionLiveData>(['session', 'live', sessionCode], (current) =>
+          current
+            ? {
+                ...current,
+                pausedAt: method === 'POST' ? result.pausedAt : null,
+                resumeAt: method === 'POST' ? result.resumeAt : null,
+              }
+            : current,
+        )
+        return true
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to update break')
+        return false
+      } finally {
+        setUpdating(false)
+      }
+    },
+    [sessionCode, queryClient],
+  )
+
+  const pause = useCallback((breakMinutes?: number) => request('POST', breakMinutes), [request])
+  const resume = useCallback(() => request('DELETE'), [request])
+
+  return {
+    paused: !!data?.pausedAt,
+    resumeAt: data?.resumeAt ?? null,
+    pause,
+    resume,
+    updating,
+    error,
+  }
+}
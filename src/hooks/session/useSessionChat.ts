@@ -0,0 +1,165 @@
+/**
+ * Hook for the session chat (trainers and students).
+ *
+ * This hook provides:
+ * - Recent messages (public, plus private threads the viewer may read) and chat settings
+ * - Send a message with optional code block, publicly or privately
+ * - Trainer moderation: remove messages, mute students, slow mode
+ * - An unread count for messages from others since the chat was last opened
+ * - Live updates from `chat_message` and `chat_settings_changed` session events
+ *
+ * API Endpoints Used:
+ * - GET /api/sessions/[code]/chat - Messages and settings
+ * - POST /api/sessions/[code]/chat - Send a message
+ * - DELETE /api/sessions/[code]/chat/[id] - Remove a message
+ * - PATCH /api/sessions/[code]/chat/settings - Mute a student, slow mode
+ * - GET /api/sessions/[code]/chat/export - Markdown transcript (linked via `exportUrl`)
+ *
+ * @module useSessionChat
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useSessionEvents } from '@/hooks/session/useSessionEvents'
+import type { ChatMessageInput, ChatMessageItem, ChatSettings } from '@/services/sessionChat'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+export type SendChatMessage = Partial<ChatMessageInput>
+
+export type ChatSettingsChange = { slowModeSeconds: number } | { userId: number; muted: boolean }
+
+interface ChatData {
+  messages: ChatMessageItem[]
+  settings: ChatSettings
+}
+
+/**
+ * @param viewer - The signed-in user: own messages aren't unread, and students skip refetches
+ *   for other students' private threads
+ *
+ * @example
+ * ```tsx
+ * const chat = useSessionChat(sessionCode, true, { id: user.id, staff: false })
+ * await chat.send({ body: 'Why does this loop never end?', code, language, visibility: 'private' })
+ * ```
+ */
+export function useSessionChat(
+  sessionCode: string,
+  enabled = true,
+  viewer?: { id: number; staff: boolean } | null,
+) {
+  const viewerId = viewer?.id ?? null
+  const seesAllThreads = viewer == null || viewer.staff
+
+  const queryClient = useQueryClient()
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [lastReadId, setLastReadId] = useState<number | null>(null)
+
+  const query = useQuery<ChatData>({
+    queryKey: ['session', 'chat', sessionCode],
+    queryFn: async () => {
+      const url = `/api/sessions/${sessionCode}/chat`
+      logApiFetch('useSessionChat', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        logApiFetch('useSessionChat', url, 'error')
+        throw new Error(data.error || `Failed to fetch chat (${res.status})`)
+      }
+      logApiFetch('useSessionChat', url, 'ok')
+      return data
+    },
+    enabled: enabled && !!sessionCode,
+  })
+
+  useSessionEvents(
+    sessionCode,
+    (event) => {
+      const relevant =
+        event.type === 'refresh' ||
+        (event.type === 'chat_message' &&
+          (seesAllThreads ||
+            event.data.threadUserId == null ||
+            event.data.threadUserId === viewerId)) ||
+        (event.type === 'chat_settings_changed' &&
+          (seesAllThreads || event.data.userId == null || event.data.userId === viewerId))
+      if (relevant) {
+        queryClient.invalidateQueries({ queryKey: ['session', 'chat', sessionCode] })
+      }
+    },
+    enabled,
+  )
+
+  const messages = query.data?.messages ?? []
+  const latestId = messages[messages.length - 1]?.id ?? null
+
+  // History from before this page load counts as read
+  const loaded = query.data != null
+  useEffect(() => {
+    if (loaded) setLastReadId((prev) => prev ?? latestId ?? 0)
+  }, [loaded, latestId])
+
+  const markRead = useCallback(() => {
+    if (latestId != null) setLastReadId(latestId)
+  }, [latestId])
+
+  const request = useCallback(
+    async (url: string, method: 'POST' | 'PATCH' | 'DELETE', body?: unknown) => {
+      setSending(true)
+      setError(null)
+      try {
+        const res = await fetch(url, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: body === undefined ? undefined : JSON.stringify(body),
+        })
+        const result = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          throw new Error(result.error || `Request failed (${res.status})`)
+        }
+        return true
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Chat request failed')
+        return false
+      } finally {
+        setSending(false)
+        queryClient.invalidateQueries({ queryKey: ['session', 'chat', sessionCode] })
+      }
+    },
+    [sessionCode, queryClient],
+  )
+
+  const send = useCallback(
+    (message: SendChatMessage) => request(`/api/sessions/${sessionCode}/chat`, 'POST', message),
+    [request, sessionCode],
+  )
+  const remove = useCallback(
+    (id: ChatMessageItem['id']) => request(`/api/sessions/${sessionCode}/chat/${id}`, 'DELETE'),
+    [request, sessionCode],
+  )
+  const updateSettings = useCallback(
+    (change: ChatSettingsChange) =>
+      request(`/api/sessions/${sessionCode}/chat/settings`, 'PATCH', change),
+    [request, sessionCode],
+  )
+
+  return {
+    messages,
+    settings: query.data?.settings ?? null,
+    isLoading: query.isLoading,
+    unreadCount:
+      lastReadId == null
+        ? 0
+        : messages.filter((message) => message.id > lastReadId && message.sender.id !== viewerId)
+            .length,
+    markRead,
+    send,
+    remove,
+    updateSettings,
+    exportUrl: `/api/sessions/${sessionCode}/chat/export`,
+    sending,
+    error,
+  }
+}
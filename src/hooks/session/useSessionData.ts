@@ -3,15 +3,22 @@
  * 
  * This hook provides:
  * - Cached session data with automatic polling
+ * - Live updates pushed by the server (see useSessionEvents), applied to the cache
  * - Visibility-based polling pause (pauses when tab is hidden)
  * - Support for localStorage persistence
  * 
+ * API Endpoints Used:
+ * - GET /api/sessions/[code]/live - Current session state
+ * - GET /api/sessions/[code]/events - Pushed changes
+ * 
  * @module useSessionData
  */
 
 import React from 'react'
-import { useQuery } from '@tanstack/react-query'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { logApiFetch } from '@/utilities/devApiLogger'
+import { applySessionEvent } from '@/utilities/applySessionEvent'
+import { useSessionEvents } from '@/hooks/session/useSessionEvents'
 
 export type PaymentStatus = {
   isBlocked: boolean
@@ -43,6 +50,12 @@ export interface SessionLiveData {
   participantCount: number
   trainerWorkspaceFileId: string | null
   trainerWorkspaceFileName: string | null
+  /** Set while the trainer is on a break (broadcasts are frozen) */
+  pausedAt?: string | null
+  resumeAt?: string | null
+  accessMode?: 'open' | 'passcode' | 'restricted' | 'waitingRoom'
+  /** The viewer has not been let into a session that is not open: no code or output */
+  locked?: boolean
   paymentStatus?: PaymentStatus | null
 }
 
@@ -53,6 +66,8 @@ interface UseSessionDataOptions {
   enabled?: boolean
   /** When true (default), polling pauses when the tab is hidden to reduce load. */
   pauseOnHidden?: boolean
+  /** When true (default), apply changes pushed by the server as they happen. */
+  live?: boolean
 }
 
 /**
@@ -68,6 +83,9 @@ interface UseSessionDataOptions {
  *   refetchInterval: 3000, // Poll every 3 seconds
  *   pauseOnHidden: true, // Pause when tab is hidden
  * })
+ * 
+ * // Push only: no polling, updates arrive over GET /api/sessions/[code]/events
+ * const { data } = useSessionData(joinCode, { refetchInterval: false })
  * ```
  */
 export function useSessionData(
@@ -99,6 +117,24 @@ export function useSessionData(
     return options?.refetchInterval ?? 5000 // Default 5s when polling enabled; reduces load vs 3s
   }, [options?.refetchInterval, pauseOnHidden, isTabVisible])
 
+  const queryClient = useQueryClient()
+  const enabled = options?.enabled !== false && !!sessionCode
+
+  useSessionEvents(
+    sessionCode,
+    (event) => {
+      const queryKey = ['session', 'live', sessionCode]
+      const current = queryClient.getQueryData<SessionLiveData>(queryKey)
+      const next = current ? applySessionEvent(current, event) : null
+      if (next) {
+        queryClient.setQueryData(queryKey, next)
+      } else {
+        queryClient.invalidateQueries({ queryKey })
+      }
+    },
+    enabled && options?.live !== false
+  )
+
   return useQuery<SessionLiveData>({
     queryKey: ['session', 'live', sessionCode],
     queryFn: async () => {
@@ -120,7 +156,7 @@ export function useSessionData(
       const data = await res.json()
       return data as SessionLiveData
     },
-    enabled: options?.enabled !== false && !!sessionCode,
+    enabled,
     staleTime: 30 * 1000, // 30 seconds - data is considered fresh for 30s
     gcTime: 5 * 60 * 1000, // 5 minutes - keep in cache for 5 minutes
     refetchInterval, // Polling interval (or false to disable)
@@ -0,0 +1,100 @@
+/**
+ * Hook for events pushed by the server for a live session.
+ *
+ * This hook provides:
+ * - One shared EventSource per session, however many components listen
+ * - Automatic reconnection (a `refresh` event is delivered after reconnecting,
+ *   since events sent while disconnected are lost)
+ * - Closing the stream once the session has ended
+ *
+ * API Endpoints Used:
+ * - GET /api/sessions/[code]/events - Server-Sent Events stream
+ *
+ * @module useSessionEvents
+ */
+
+import { useEffect, useRef } from 'react'
+import type { SessionEvent } from '@/types/live-session'
+
+type Listener = (event: SessionEvent) => void
+
+interface SharedStream {
+  source: EventSource
+  listeners: Set<Listener>
+}
+
+const streams = new Map<string, SharedStream>()
+
+function emit(stream: SharedStream, event: SessionEvent) {
+  stream.listeners.forEach((listener) => listener(event))
+}
+
+function openStream(sessionCode: string): SharedStream {
+  const source = new EventSource(`/api/sessions/${sessionCode}/events`, { withCredentials: true })
+  const stream: SharedStream = { source, listeners: new Set() }
+  let disconnected = false
+
+  source.onmessage = (message) => {
+    try {
+      const event = JSON.parse(message.data) as SessionEvent
+      emit(stream, event)
+      // The server closes the stream after this; don't reconnect
+      if (event.type === 'session_ended') source.close()
+    } catch (error) {
+      console.error('[useSessionEvents] Ignoring malformed event:', error)
+    }
+  }
+  source.onerror = () => {
+    disconnected = true
+  }
+  source.onopen = () => {
+    if (!disconnected) return
+    disconnected = false
+    emit(stream, { type: 'refresh', timestamp: new Date().toISOString(), data: {} })
+  }
+
+  return stream
+}
+
+/**
+ * Listen to a live session's events while `enabled`.
+ *
+ * @example
+ * ```tsx
+ * useSessionEvents(sessionCode, (event) => {
+ *   if (event.type === 'code_broadcast') setHasNewTrainerUpdate(true)
+ * })
+ * ```
+ */
+export function useSessionEvents(
+  sessionCode: string,
+  onEvent: (event: SessionEvent) => void,
+  enabled = true,
+): void {
+  // Keep the latest callback without reopening the stream
+  const onEventRef = useRef(onEvent)
+  onEventRef.current = onEvent
+
+  useEffect(() => {
+    if (!enabled || !sessionCode || typeof EventSource === 'undefined') return
+
+    const key = sessionCode.toUpperCase()
+    let stream = streams.get(key)
+    if (!stream || stream.source.readyState === EventSource.CLOSED) {
+      stream = openStream(key)
+      streams.set(key, stream)
+    }
+
+    const listener: Listener = (event) => onEventRef.current(event)
+    stream.listeners.add(listener)
+    const current = stream
+
+    return () => {
+      current.listeners.delete(listener)
+      if (current.listeners.size === 0) {
+        current.source.close()
+        if (streams.get(key) === current) streams.delete(key)
+      }
+    }
+  }, [sessionCode, enabled])
+}
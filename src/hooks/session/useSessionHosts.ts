@@ -0,0 +1,119 @@
+/**
+ * Hook for a live session's owner and co-hosts.
+ *
+ * This hook provides:
+ * - The session owner and co-hosts with their permissions
+ * - The signed-in user's own permissions, and whether they may choose co-hosts
+ * - Replace the co-host list and hand the session over to a co-host
+ * - Live updates from `hosts_changed` session events
+ *
+ * API Endpoints Used:
+ * - GET /api/sessions/[code]/hosts - Owner, co-hosts and own permissions
+ * - PUT /api/sessions/[code]/hosts - Replace the co-host list
+ * - POST /api/sessions/[code]/hosts/transfer - Make a co-host the owner
+ *
+ * @module useSessionHosts
+ */
+
+import { useCallback, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useSessionEvents } from '@/hooks/session/useSessionEvents'
+import type { SessionHosts, SessionPermission } from '@/services/sessionHosts'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+export type CoHostChange =
+  | { userId: number; permissions: SessionPermission[] }
+  | { email: string; permissions: SessionPermission[] }
+
+interface HostsData {
+  hosts: SessionHosts
+  myPermissions: SessionPermission[]
+  canManage: boolean
+}
+
+/**
+ * @example
+ * ```tsx
+ * const { hosts, saveCoHosts } = useSessionHosts(sessionCode)
+ * await saveCoHosts([{ email: 'ta@example.com', permissions: ['monitor', 'helpQueue'] }])
+ * ```
+ */
+export function useSessionHosts(sessionCode: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const [updating, setUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const query = useQuery<HostsData>({
+    queryKey: ['session', 'hosts', sessionCode],
+    queryFn: async () => {
+      const url = `/api/sessions/${sessionCode}/hosts`
+      logApiFetch('useSessionHosts', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        logApiFetch('useSessionHosts', url, 'error')
+        throw new Error(data.error || `Failed to fetch session hosts (${res.status})`)
+      }
+      logApiFetch('useSessionHosts', url, 'ok')
+      return data
+    },
+    enabled: enabled && !!sessionCode,
+  })
+
+  useSessionEvents(
+    sessionCode,
+    (event) => {
+      if (event.type === 'hosts_changed' || event.type === 'refresh') {
+        queryClient.invalidateQueries({ queryKey: ['session', 'hosts', sessionCode] })
+      }
+    },
+    enabled,
+  )
+
+  const request = useCallback(
+    async (url: string, method: 'POST' | 'PUT', body: unknown) => {
+      setUpdating(true)
+      setError(null)
+      try {
+        const res = await fetch(url, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(body),
+        })
+        const result = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          throw new Error(result.error || `Request failed (${res.status})`)
+        }
+        return true
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to update session hosts')
+        return false
+      } finally {
+        setUpdating(false)
+        queryClient.invalidateQueries({ queryKey: ['session', 'hosts', sessionCode] })
+      }
+    },
+    [sessionCode, queryClient],
+  )
+
+  const saveCoHosts = useCallback(
+    (coHosts: CoHostChange[]) => request(`/api/sessions/${sessionCode}/hosts`, 'PUT', { coHosts }),
+    [request, sessionCode],
+  )
+  const transferTo = useCallback(
+    (userId: number) => request(`/api/sessions/${sessionCode}/hosts/transfer`, 'POST', { userId }),
+    [request, sessionCode],
+  )
+
+  return {
+    hosts: query.data?.hosts ?? null,
+    /** null until loaded */
+    myPermissions: query.data?.myPermissions ?? null,
+    canManage: query.data?.canManage ?? false,
+    saveCoHosts,
+    transferTo,
+    updating,
+    error,
+  }
+}
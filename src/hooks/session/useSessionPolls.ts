@@ -0,0 +1,116 @@
+/**
+ * Hook for running quizzes and polls in a live session (trainers and staff).
+ *
+ * This hook provides:
+ * - Every poll of the session with live results
+ * - The running poll, if any
+ * - Open a poll (optionally using the current broadcast as its code) and close it early
+ * - Live updates from `poll_changed` session events, including each new answer
+ *
+ * API Endpoints Used:
+ * - GET /api/sessions/[code]/polls - Polls with results
+ * - POST /api/sessions/[code]/polls - Open a poll
+ * - PATCH /api/sessions/[code]/polls/[id] - Close a poll
+ *
+ * @module useSessionPolls
+ */
+
+import { useCallback, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useSessionEvents } from '@/hooks/session/useSessionEvents'
+import type { PollInput, PollItem } from '@/services/sessionPolls'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+export type OpenPollRequest = Partial<PollInput> &
+  Pick<PollInput, 'kind' | 'question'> & {
+    /** Use the trainer's current broadcast as the code (and its output as the expected answer) */
+    useBroadcastCode?: boolean
+  }
+
+/**
+ * @example
+ * ```tsx
+ * const { activePoll, openPoll } = useSessionPolls(sessionCode)
+ * await openPoll({ kind: 'predict_output', question: 'What does this print?', useBroadcastCode: true, durationSeconds: 60 })
+ * ```
+ */
+export function useSessionPolls(sessionCode: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const [updating, setUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const query = useQuery<PollItem[]>({
+    queryKey: ['session', 'polls', sessionCode],
+    queryFn: async () => {
+      const url = `/api/sessions/${sessionCode}/polls`
+      logApiFetch('useSessionPolls', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        logApiFetch('useSessionPolls', url, 'error')
+        throw new Error(data.error || `Failed to fetch polls (${res.status})`)
+      }
+      logApiFetch('useSessionPolls', url, 'ok')
+      return data.polls ?? []
+    },
+    enabled: enabled && !!sessionCode,
+  })
+
+  useSessionEvents(
+    sessionCode,
+    (event) => {
+      if (event.type === 'poll_changed' || event.type === 'refresh') {
+        queryClient.invalidateQueries({ queryKey: ['session', 'polls', sessionCode] })
+      }
+    },
+    enabled,
+  )
+
+  const request = useCallback(
+    async (url: string, method: 'POST' | 'PATCH', body: unknown) => {
+      setUpdating(true)
+      setError(null)
+      try {
+        const res = await fetch(url, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(body),
+        })
+        const result = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          throw new Error(result.error || `Request failed (${res.status})`)
+        }
+        return true
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to update poll')
+        return false
+      } finally {
+        setUpdating(false)
+        queryClient.invalidateQueries({ queryKey: ['session', 'polls', sessionCode] })
+      }
+    },
+    [sessionCode, queryClient],
+  )
+
+  const openPoll = useCallback(
+    (poll: OpenPollRequest) => request(`/api/sessions/${sessionCode}/polls`, 'POST', poll),
+    [request, sessionCode],
+  )
+  const closePoll = useCallback(
+    (id: PollItem['id']) =>
+      request(`/api/sessions/${sessionCode}/polls/${id}`, 'PATCH', { action: 'close' }),
+    [request, sessionCode],
+  )
+
+  const polls = query.data ?? []
+  return {
+    polls,
+    activePoll: polls.find((poll) => poll.status === 'open') ?? null,
+    openPoll,
+    closePoll,
+    refetch: query.refetch,
+    updating,
+    error,
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Hook for fetching a session's recorded broadcasts for replay.
+ * Snapshots of an ended session never change, so they are fetched once.
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+export interface SessionSnapshot {
+  id: number
+  code: string
+  language: string | null
+  output: any
+  workspaceFileName: string | null
+  capturedAt: string
+}
+
+export interface SessionRecording {
+  session: {
+    title: string
+    joinCode: string
+    isActive: boolean
+    startedAt: string | null
+    endedAt: string | null
+  }
+  snapshots: SessionSnapshot[]
+}
+
+export function useSessionSnapshots(code: string) {
+  const query = useQuery<SessionRecording>({
+    queryKey: ['sessions', code, 'snapshots'],
+    queryFn: async () => {
+      const url = `/api/sessions/${code}/snapshots`
+      logApiFetch('useSessionSnapshots', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        logApiFetch('useSessionSnapshots', url, 'error')
+        throw new Error(data.error || `Failed to fetch recording (${res.status})`)
+      }
+      logApiFetch('useSessionSnapshots', url, 'ok')
+      return data as SessionRecording
+    },
+    enabled: !!code,
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+    retry: false,
+  })
+
+  return {
+    recording: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error,
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Hook for the poll a student is asked during a live session.
+ *
+ * This hook provides:
+ * - The latest poll: the running one, or the last closed one with its results
+ * - Answering (again, until the poll closes)
+ * - Live updates when polls open or close, and a refetch when the countdown ends
+ *
+ * API Endpoints Used:
+ * - GET /api/sessions/[code]/polls - Polls as the student sees them
+ * - POST /api/sessions/[code]/polls/[id]/responses - Answer
+ *
+ * @module useStudentPoll
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useSessionEvents } from '@/hooks/session/useSessionEvents'
+import type { PollAnswer, PollItem } from '@/services/sessionPolls'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+/**
+ * @example
+ * ```tsx
+ * const { poll, answer } = useStudentPoll(sessionCode)
+ * if (poll?.status === 'open') await answer(poll.id, { optionIndex: 2 })
+ * ```
+ */
+export function useStudentPoll(sessionCode: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const [answering, setAnswering] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const query = useQuery<PollItem[]>({
+    queryKey: ['session', 'polls', sessionCode, 'student'],
+    queryFn: async () => {
+      const url = `/api/sessions/${sessionCode}/polls`
+      logApiFetch('useStudentPoll', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        logApiFetch('useStudentPoll', url, 'error')
+        throw new Error(data.error || `Failed to fetch polls (${res.status})`)
+      }
+      logApiFetch('useStudentPoll', url, 'ok')
+      return data.polls ?? []
+    },
+    enabled: enabled && !!sessionCode,
+  })
+
+  useSessionEvents(
+    sessionCode,
+    (event) => {
+      // Other students' answers don't change what this student sees
+      if (
+        (event.type === 'poll_changed' && event.data.reason !== 'answered') ||
+        event.type === 'refresh'
+      ) {
+        queryClient.invalidateQueries({ queryKey: ['session', 'polls', sessionCode, 'student'] })
+      }
+    },
+    enabled,
+  )
+
+  const polls = query.data ?? []
+  const poll = polls[polls.length - 1] ?? null
+
+  // The countdown ends without an event; fetch the results then
+  const closesAt = poll?.status === 'open' ? poll.closesAt : null
+  useEffect(() => {
+    if (!closesAt) return
+    const timer = setTimeout(
+      () =>
+        queryClient.invalidateQueries({ queryKey: ['session', 'polls', sessionCode, 'student'] }),
+      Math.max(0, new Date(closesAt).getTime() - Date.now()) + 500,
+    )
+    return () => clearTimeout(timer)
+  }, [closesAt, sessionCode, queryClient])
+
+  const answer = useCallback(
+    async (id: PollItem['id'], pollAnswer: PollAnswer) => {
+      setAnswering(true)
+      setError(null)
+      try {
+        const res = await fetch(`/api/sessions/${sessionCode}/polls/${id}/responses`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(pollAnswer),
+        })
+        const result = await res.json().catch(() => ({}))
+        if (!res.ok) {
+          throw new Error(result.error || `Request failed (${res.status})`)
+        }
+        queryClient.setQueryData<PollItem[]>(
+          ['session', 'polls', sessionCode, 'student'],
+          (current) => current?.map((item) => (item.id === id ? result.poll : item)),
+        )
+        return true
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to answer poll')
+        return false
+      } finally {
+        setAnswering(false)
+      }
+    },
+    [sessionCode, queryClient],
+  )
+
+  return {
+    poll,
+    answer,
+    answering,
+    error,
+  }
+}
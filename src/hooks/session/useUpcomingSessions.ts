@@ -0,0 +1,63 @@
+/**
+ * Hook for fetching scheduled sessions with React Query.
+ * Refetches every 30 seconds so a session flips to "live" (and becomes joinable)
+ * soon after its trainer opens it.
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { logApiFetch } from '@/utilities/devApiLogger'
+
+export interface UpcomingSessionItem {
+  id: number
+  joinCode: string
+  title: string
+  description: string | null
+  status: 'scheduled' | 'live'
+  scheduledStart: string
+  durationMinutes: number
+  timezone: string | null
+  language: string | null
+  trainer: {
+    id: number
+    name: string
+  } | null
+}
+
+interface UpcomingResponse {
+  sessions: UpcomingSessionItem[]
+}
+
+export function useUpcomingSessions(trainerId?: string | number) {
+  const trainerIdStr = trainerId != null ? String(trainerId) : undefined
+  const query = useQuery<UpcomingSessionItem[]>({
+    queryKey: ['sessions', 'upcoming', trainerIdStr ?? 'all'],
+    queryFn: async () => {
+      const url = trainerIdStr
+        ? `/api/sessions/upcoming?trainerId=${encodeURIComponent(trainerIdStr)}`
+        : '/api/sessions/upcoming'
+      logApiFetch('useUpcomingSessions', url)
+      const res = await fetch(url, { cache: 'no-store', credentials: 'include' })
+      if (res.status === 401 || res.status === 403) {
+        logApiFetch('useUpcomingSessions', url, 'ok')
+        return []
+      }
+      if (!res.ok) {
+        logApiFetch('useUpcomingSessions', url, 'error')
+        throw new Error(`Failed to fetch upcoming sessions (${res.status})`)
+      }
+      logApiFetch('useUpcomingSessions', url, 'ok')
+      const data: UpcomingResponse = await res.json()
+      return data.sessions ?? []
+    },
+    staleTime: 30 * 1000,
+    refetchInterval: 30 * 1000,
+    refetchOnWindowFocus: true,
+  })
+
+  return {
+    sessions: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: query.refetch,
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Hook for server-side diagnostics of the code in an editor.
+ *
+ * This hook provides:
+ * - Diagnostics for the current code, refreshed after typing pauses
+ * - Cancellation of checks that are outdated by newer edits
+ * - Nothing for languages without a checker (see `linter` in the language registry)
+ *
+ * API Endpoints Used:
+ * - POST /api/lint - Check code without running it
+ *
+ * @module useCodeDiagnostics
+ */
+
+import { useEffect, useState } from 'react'
+import { canLint, lintCode, type CodeDiagnostic } from '@/services/editorTools'
+
+/** Wait this long after the last keystroke before checking */
+const LINT_DELAY_MS = 700
+
+/**
+ * @example
+ * ```tsx
+ * const diagnostics = useCodeDiagnostics(language, code, !readOnly)
+ * ```
+ */
+export function useCodeDiagnostics(
+  language: string,
+  code: string,
+  enabled = true,
+): CodeDiagnostic[] {
+  const [diagnostics, setDiagnostics] = useState<CodeDiagnostic[]>([])
+  const active = enabled && canLint(language)
+
+  useEffect(() => {
+    if (!active || !code.trim()) {
+      setDiagnostics([])
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => {
+      lintCode(language, code, controller.signal)
+        .then((result) => {
+          // Keep the previous markers when the check is unavailable
+          if (result) setDiagnostics(result)
+        })
+        .catch(() => {
+          // Aborted by a newer edit, or offline
+        })
+    }, LINT_DELAY_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [active, language, code])
+
+  return active ? diagnostics : []
+}
@@ -1,5 +1,13 @@
-import { useState, useCallback } from 'react'
-import { executeCode, type ExecutionResult } from '@/services/codeExecution'
+import { useState, useCallback, useRef } from 'react'
+import {
+  closeExecutionInput,
+  executeCodeStream,
+  sendExecutionInput,
+  stopExecution,
+  type ExecutionContext,
+  type ExecutionResult,
+  type ExecutionTarget,
+} from '@/services/codeExecution'
 
 interface UseCodeExecutionOptions {
   /** Optional callback after successful execution */
@@ -8,32 +16,113 @@ interface UseCodeExecutionOptions {
   onExecutionError?: (error: Error) => void
 }
 
+/** One piece of an interactive run's console, in the order it happened */
+export interface TranscriptEntry {
+  stream: 'stdout' | 'stderr' | 'stdin'
+  text: string
+}
+
+/** Interactive mode: stdin stays open and the user types while the program runs */
+export interface InteractiveRunControls {
+  /** Whether the next run is interactive */
+  enabled: boolean
+  setEnabled: (enabled: boolean) => void
+  /** Program output and typed input of the current/last interactive run */
+  transcript: TranscriptEntry[]
+  /** Whether the running program accepts input */
+  acceptingInput: boolean
+  /** Send one line (a newline is appended) */
+  sendInput: (line: string) => Promise<void>
+  /** Close stdin (Ctrl+D) */
+  closeInput: () => Promise<void>
+}
+
 interface UseCodeExecutionReturn {
   /** Execute code with given language and optional input */
-  execute: (language: string, code: string, input?: string) => Promise<ExecutionResult | null>
+  execute: (
+    language: string,
+    code: string,
+    input?: string,
+    context?: ExecutionContext
+  ) => Promise<ExecutionResult | null>
+  /** Execute all files of a folder, running the given entry file */
+  executeFolder: (
+    language: string,
+    folderId: string | number,
+    entryFileId: string | number,
+    input?: string,
+    context?: ExecutionContext
+  ) => Promise<ExecutionResult | null>
+  /** Stop the current run on the server */
+  stop: () => Promise<void>
   /** Whether code is currently executing */
   executing: boolean
-  /** Last execution result */
+  /** Last execution result (holds partial output while executing) */
   result: ExecutionResult | null
   /** Clear the execution result */
   clearResult: () => void
+  /** Interactive stdin mode */
+  interactive: InteractiveRunControls
 }
 
 /**
  * Shared hook for code execution logic.
  * Handles execution state, error handling, and optional callbacks.
+ * Runs are streamed: `result` fills with output while `executing` is true.
+ * In interactive mode stdin stays open (local runner only) and `interactive.transcript`
+ * interleaves output with what the user typed.
  */
 export function useCodeExecution(options: UseCodeExecutionOptions = {}): UseCodeExecutionReturn {
   const [executing, setExecuting] = useState(false)
   const [result, setResult] = useState<ExecutionResult | null>(null)
+  const runIdRef = useRef<string | null>(null)
+  const stopRequestedRef = useRef(false)
+  const [interactiveEnabled, setInteractiveEnabled] = useState(false)
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([])
+  const [acceptingInput, setAcceptingInput] = useState(false)
 
-  const execute = useCallback(
-    async (language: string, code: string, input?: string): Promise<ExecutionResult | null> => {
+  const appendTranscript = useCallback((entry: TranscriptEntry) => {
+    setTranscript((prev) => {
+      const last = prev[prev.length - 1]
+      // Merge consecutive chunks of the same stream so the list stays short
+      if (last && last.stream === entry.stream && entry.stream !== 'stdin') {
+        return [...prev.slice(0, -1), { ...last, text: last.text + entry.text }]
+      }
+      return [...prev, entry]
+    })
+  }, [])
+
+  const run = useCallback(
+    async (
+      language: string,
+      target: ExecutionTarget,
+      input?: string,
+      context?: ExecutionContext
+    ): Promise<ExecutionResult | null> => {
+      const interactive = interactiveEnabled
       setExecuting(true)
       setResult(null)
+      setTranscript([])
+      setAcceptingInput(false)
+      runIdRef.current = null
+      stopRequestedRef.current = false
 
       try {
-        const executionResult = await executeCode(language, code, input)
+        const executionResult = await executeCodeStream(language, target, input, {
+          onStart: (runId) => {
+            runIdRef.current = runId
+            // Stop was clicked before the server reported the run
+            if (stopRequestedRef.current) void stopExecution(runId)
+          },
+          onOutput: (stream, data) => {
+            setResult((prev) => {
+              const partial: ExecutionResult = prev ?? { stdout: '', stderr: '', status: 'success' }
+              return { ...partial, [stream]: partial[stream] + data }
+            })
+            if (interactive) appendTranscript({ stream, text: data })
+          },
+          onStdinReady: () => setAcceptingInput(true),
+        }, context, { interactive })
         setResult(executionResult)
 
         if (options.onExecutionComplete) {
@@ -58,21 +147,72 @@ export function useCodeExecution(options: UseCodeExecutionOptions = {}): UseCode
 
         return errorResult
       } finally {
+        runIdRef.current = null
+        setAcceptingInput(false)
         setExecuting(false)
       }
     },
-    [options.onExecutionComplete, options.onExecutionError]
+    [interactiveEnabled, appendTranscript, options.onExecutionComplete, options.onExecutionError]
   )
 
+  const execute = useCallback(
+    (language: string, code: string, input?: string, context?: ExecutionContext) =>
+      run(language, { code }, input, context),
+    [run]
+  )
+
+  const executeFolder = useCallback(
+    (
+      language: string,
+      folderId: string | number,
+      entryFileId: string | number,
+      input?: string,
+      context?: ExecutionContext
+    ) => run(language, { folderId, entryFileId }, input, context),
+    [run]
+  )
+
+  const stop = useCallback(async () => {
+    stopRequestedRef.current = true
+    if (runIdRef.current) {
+      await stopExecution(runIdRef.current)
+    }
+  }, [])
+
+  const sendInput = useCallback(async (line: string) => {
+    const runId = runIdRef.current
+    if (!runId) return
+    appendTranscript({ stream: 'stdin', text: line + '\n' })
+    if (!(await sendExecutionInput(runId, line + '\n'))) setAcceptingInput(false)
+  }, [appendTranscript])
+
+  const closeInput = useCallback(async () => {
+    const runId = runIdRef.current
+    if (!runId) return
+    await closeExecutionInput(runId)
+    setAcceptingInput(false)
+  }, [])
+
   const clearResult = useCallback(() => {
     setResult(null)
+    setTranscript([])
   }, [])
 
   return {
     execute,
+    executeFolder,
+    stop,
     executing,
     result,
     clearResult,
+    interactive: {
+      enabled: interactiveEnabled,
+      setEnabled: setInteractiveEnabled,
+      transcript,
+      acceptingInput,
+      sendInput,
+      closeInput,
+    },
   }
 }
 
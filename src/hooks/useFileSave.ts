@@ -103,7 +103,9 @@ export function useFileSave(options: UseFileSaveOptions = {}): UseFileSaveReturn
             body: JSON.stringify(syncBody),
           })
 
-          if (!syncRes.ok) {
+          // A paused session refuses broadcasts; the file itself is saved
+          const paused = syncRes.status === 409 && options.sessionSyncType === 'broadcast'
+          if (!syncRes.ok && !paused) {
             throw new Error(
               options.sessionSyncType === 'scratchpad'
                 ? 'Failed to sync to session'
@@ -0,0 +1,78 @@
+/**
+ * Hook for the current user's past runs (the `executions` collection).
+ *
+ * This hook provides:
+ * - Most recent runs, newest first
+ * - Optional filtering to a single workspace file
+ * - Fetching only while the history drawer is open
+ *
+ * API Endpoints Used:
+ * - GET /api/executions - Payload REST (students only ever see their own runs)
+ *
+ * @module useExecutionHistory
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+import type { Execution } from '@/payload-types'
+
+interface UseExecutionHistoryOptions {
+  /** Only show runs of this file */
+  fileId?: string | number | null
+  /** Fetch only when true (e.g. drawer open) */
+  enabled?: boolean
+  /** Max runs to load */
+  limit?: number
+}
+
+/**
+ * Hook for loading the current user's run history.
+ *
+ * @example
+ * ```tsx
+ * const { runs, isLoading } = useExecutionHistory({ fileId: selectedFile?.id, enabled: open })
+ * ```
+ */
+export function useExecutionHistory({
+  fileId,
+  enabled = true,
+  limit = 30,
+}: UseExecutionHistoryOptions) {
+  const { user } = useCurrentUser()
+
+  const query = useQuery<Execution[]>({
+    queryKey: ['executions', user?.id, fileId ?? 'all', limit],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        'where[user][equals]': String(user!.id),
+        sort: '-createdAt',
+        limit: String(limit),
+        depth: '0',
+      })
+      if (fileId != null) {
+        params.set('where[file][equals]', String(fileId))
+      }
+      const res = await fetch(`/api/executions?${params.toString()}`, {
+        credentials: 'include',
+        cache: 'no-store',
+      })
+      if (!res.ok) {
+        throw new Error(`Failed to load run history: ${res.status}`)
+      }
+      const data = await res.json()
+      return (data.docs || []) as Execution[]
+    },
+    enabled: enabled && !!user,
+    // New runs are recorded on every execute, so always refetch when opened
+    staleTime: 0,
+    refetchOnMount: 'always',
+    refetchOnWindowFocus: false,
+  })
+
+  return {
+    runs: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error as Error | null,
+    refetch: query.refetch,
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Hook for "Run folder" mode: run every file under a workspace folder with a chosen entry file.
+ *
+ * This hook provides:
+ * - Toggle state for folder mode
+ * - Project root choices (the selected file's folder and its ancestors)
+ * - Entry file choices (all files under the chosen root, with relative paths)
+ * - The resolved run target passed to useWorkspaceCodeExecution
+ *
+ * @module useFolderRun
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useWorkspaceData } from '@/hooks/workspace/useWorkspaceData'
+import { getFolderSubtreeIds } from '@/utilities/workspaceScope'
+
+export interface FolderRunTarget {
+  folderId: string | number
+  entryFileId: string | number
+}
+
+export interface FolderRunOption {
+  id: string
+  /** Path shown in the picker (relative to the workspace root for folders, to the project root for files) */
+  label: string
+}
+
+interface UseFolderRunOptions {
+  /** Currently selected file; its folder is the default project root */
+  selectedFileId?: string | null
+  /** Disable folder mode (e.g. read-only or another user's workspace) */
+  disabled?: boolean
+}
+
+export interface UseFolderRunReturn {
+  /** Whether the selected file lives in a folder that can be run */
+  available: boolean
+  /** Whether folder mode is on */
+  enabled: boolean
+  setEnabled: (enabled: boolean) => void
+  /** Current project root folder */
+  rootFolderId: string | null
+  setRootFolderId: (folderId: string) => void
+  rootOptions: FolderRunOption[]
+  /** Current entry file */
+  entryFileId: string | null
+  setEntryFileId: (fileId: string) => void
+  entryOptions: FolderRunOption[]
+  /** Run target when folder mode is on and valid, otherwise null (single-file run) */
+  target: FolderRunTarget | null
+}
+
+const relationId = (value: unknown): string | null => {
+  if (value && typeof value === 'object' && 'id' in value) {
+    return String((value as { id: string | number }).id)
+  }
+  return value != null ? String(value) : null
+}
+
+/**
+ * Hook for "Run folder" state in workspace editors.
+ *
+ * @example
+ * ```tsx
+ * const folderRun = useFolderRun({ selectedFileId: selectedFile?.id })
+ *
+ * const { handleRun } = useWorkspaceCodeExecution({
+ *   language,
+ *   folderRun: folderRun.target,
+ * })
+ *
+ * <WorkspaceEditorHeader {...props} folderRun={folderRun} />
+ * ```
+ */
+export function useFolderRun({
+  selectedFileId,
+  disabled = false,
+}: UseFolderRunOptions): UseFolderRunReturn {
+  const { folders, files } = useWorkspaceData()
+  const [enabled, setEnabledState] = useState(false)
+  const [rootFolderId, setRootFolderId] = useState<string | null>(null)
+  const [entryFileId, setEntryFileId] = useState<string | null>(null)
+
+  const folderById = useMemo(
+    () => new Map(folders.map((folder) => [String(folder.id), folder])),
+    [folders]
+  )
+
+  const folderPath = useCallback(
+    (folderId: string, stopAt?: string): string => {
+      const segments: string[] = []
+      const visited = new Set<string>()
+      let current = folderById.get(folderId)
+      while (current && String(current.id) !== stopAt && !visited.has(String(current.id))) {
+        visited.add(String(current.id))
+        segments.unshift(current.name || '')
+        const parentId = relationId(current.parentFolder)
+        current = parentId ? folderById.get(parentId) : undefined
+      }
+      return segments.join('/')
+    },
+    [folderById]
+  )
+
+  const selectedFolderId = useMemo(() => {
+    if (!selectedFileId) return null
+    const file = files.find((f) => String(f.id) === String(selectedFileId))
+    return relationId(file?.folder)
+  }, [files, selectedFileId])
+
+  // The selected file's folder and each ancestor can act as the project root
+  const rootOptions = useMemo<FolderRunOption[]>(() => {
+    const options: FolderRunOption[] = []
+    const visited = new Set<string>()
+    let currentId = selectedFolderId
+    while (currentId && folderById.has(currentId) && !visited.has(currentId)) {
+      visited.add(currentId)
+      options.push({ id: currentId, label: folderPath(currentId) })
+      currentId = relationId(folderById.get(currentId)?.parentFolder)
+    }
+    return options
+  }, [selectedFolderId, folderById, folderPath])
+
+  const effectiveRootId =
+    rootFolderId && rootOptions.some((option) => option.id === rootFolderId)
+      ? rootFolderId
+      : (rootOptions[0]?.id ?? null)
+
+  const entryOptions = useMemo<FolderRunOption[]>(() => {
+    if (!effectiveRootId) return []
+    const subtree = getFolderSubtreeIds(folders, effectiveRootId)
+    return files
+      .filter((file) => {
+        const folderId = relationId(file.folder)
+        return folderId != null && subtree.has(folderId)
+      })
+      .map((file) => {
+        const dir = folderPath(relationId(file.folder)!, effectiveRootId)
+        return { id: String(file.id), label: dir ? `${dir}/${file.name}` : file.name }
+      })
+      .sort((a, b) => a.label.localeCompare(b.label))
+  }, [effectiveRootId, folders, files, folderPath])
+
+  // Default the entry point to the file being edited when it is part of the project
+  useEffect(() => {
+    if (entryFileId && entryOptions.some((option) => option.id === entryFileId)) return
+    const fallback =
+      entryOptions.find((option) => option.id === String(selectedFileId)) ?? entryOptions[0]
+    setEntryFileId(fallback?.id ?? null)
+  }, [entryOptions, entryFileId, selectedFileId])
+
+  const available = !disabled && rootOptions.length > 0
+
+  const setEnabled = useCallback((value: boolean) => {
+    setEnabledState(value)
+    if (!value) setRootFolderId(null)
+  }, [])
+
+  const target = useMemo<FolderRunTarget | null>(() => {
+    if (!available || !enabled || !effectiveRootId || !entryFileId) return null
+    return { folderId: effectiveRootId, entryFileId }
+  }, [available, enabled, effectiveRootId, entryFileId])
+
+  return {
+    available,
+    enabled: available && enabled,
+    setEnabled,
+    rootFolderId: effectiveRootId,
+    setRootFolderId,
+    rootOptions,
+    entryFileId,
+    setEntryFileId,
+    entryOptions,
+    target,
+  }
+}
@@ -16,24 +16,32 @@ interface UseSaveAndRunOptions {
   saveCurrentFile: () => Promise<boolean>
   /** Run code with optional stdin */
   handleRun: (currentCode: string, input?: string) => Promise<void>
+  /** Wait for the save before running (folder runs read files from the server) */
+  awaitSave?: boolean
 }
 
 /**
  * Returns handleSaveAndRun: if code is dirty, fires save (non-blocking), then runs.
+ * With awaitSave the run starts only after the save finishes.
  */
 export function useSaveAndRun({
   code,
   lastSavedCode,
   saveCurrentFile,
   handleRun,
+  awaitSave = false,
 }: UseSaveAndRunOptions): (runCode: string, input?: string) => Promise<void> {
   return useCallback(
     async (runCode: string, input?: string) => {
       if (code !== lastSavedCode) {
-        void saveCurrentFile()
+        if (awaitSave) {
+          await saveCurrentFile()
+        } else {
+          void saveCurrentFile()
+        }
       }
       await handleRun(runCode, input)
     },
-    [code, lastSavedCode, saveCurrentFile, handleRun]
+    [code, lastSavedCode, saveCurrentFile, handleRun, awaitSave]
   )
 }
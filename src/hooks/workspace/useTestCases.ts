@@ -0,0 +1,211 @@
+/**
+ * Hook for a file's test cases: load, edit, save and run them.
+ *
+ * This hook provides:
+ * - Test cases and comparison settings stored on the file (cached with React Query)
+ * - Local editing with an explicit save
+ * - Running all cases via runTestCases (single file or "Run folder" target)
+ *
+ * API Endpoints Used:
+ * - GET /api/files/${fileId} - Fetch test cases
+ * - PATCH /api/files/${fileId} - Save test cases
+ * - POST /api/execute - One request per case
+ *
+ * @module useTestCases
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { executeFolder } from '@/services/codeExecution'
+import { runTestCases, type TestCaseResult, type TestRunSummary } from '@/services/testCaseRunner'
+import type { FolderRunTarget } from '@/hooks/workspace/useFolderRun'
+import {
+  DEFAULT_COMPARISON_MODE,
+  DEFAULT_FLOAT_TOLERANCE,
+  type ComparisonMode,
+  type TestCase,
+} from '@/utilities/testCases'
+
+export interface TestCaseSettings {
+  testCases: TestCase[]
+  comparison: ComparisonMode
+  floatTolerance: number
+}
+
+interface UseTestCasesOptions {
+  /** File the test cases belong to */
+  fileId?: string | null
+  /** Current programming language */
+  language: string
+  /** When set, each case runs the whole folder instead of the editor code */
+  folderRun?: FolderRunTarget | null
+}
+
+export interface UseTestCasesReturn extends TestCaseSettings {
+  isLoading: boolean
+  /** Replace the local (unsaved) settings */
+  updateSettings: (changes: Partial<TestCaseSettings>) => void
+  /** Whether local settings differ from the saved ones */
+  dirty: boolean
+  saving: boolean
+  /** Persist test cases and comparison settings on the file */
+  save: () => Promise<boolean>
+  /** Run all cases against the given code */
+  runTests: (code: string) => Promise<TestRunSummary | null>
+  running: boolean
+  /** Results so far (filled progressively while running) */
+  results: TestCaseResult[]
+  /** Summary of the last completed run */
+  summary: TestRunSummary | null
+  clearResults: () => void
+}
+
+const EMPTY_SETTINGS: TestCaseSettings = {
+  testCases: [],
+  comparison: DEFAULT_COMPARISON_MODE,
+  floatTolerance: DEFAULT_FLOAT_TOLERANCE,
+}
+
+/**
+ * Hook for loading, editing and running a file's test cases.
+ *
+ * @example
+ * ```tsx
+ * const tests = useTestCases({ fileId: selectedFile?.id, language })
+ *
+ * tests.updateSettings({ testCases: [...tests.testCases, { input: '', expectedOutput: '' }] })
+ * await tests.save()
+ * const summary = await tests.runTests(code)
+ * ```
+ */
+export function useTestCases({
+  fileId,
+  language,
+  folderRun = null,
+}: UseTestCasesOptions): UseTestCasesReturn {
+  const queryClient = useQueryClient()
+  const queryKey = ['file', fileId, 'testCases']
+
+  const query = useQuery<TestCaseSettings>({
+    queryKey,
+    queryFn: async () => {
+      const res = await fetch(`/api/files/${fileId}?depth=0`, { credentials: 'include' })
+      if (!res.ok) {
+        throw new Error(`Failed to fetch test cases: ${res.status}`)
+      }
+      const data = await res.json()
+      return {
+        testCases: (data.testCases || []).map((testCase: TestCase) => ({
+          id: testCase.id ?? null,
+          name: testCase.name ?? '',
+          input: testCase.input ?? '',
+          expectedOutput: testCase.expectedOutput ?? '',
+        })),
+        comparison: data.testComparison || DEFAULT_COMPARISON_MODE,
+        floatTolerance: data.floatTolerance ?? DEFAULT_FLOAT_TOLERANCE,
+      }
+    },
+    enabled: !!fileId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    refetchOnWindowFocus: false,
+  })
+
+  const [draft, setDraft] = useState<TestCaseSettings | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [running, setRunning] = useState(false)
+  const [results, setResults] = useState<TestCaseResult[]>([])
+  const [summary, setSummary] = useState<TestRunSummary | null>(null)
+
+  // Drop local edits and results when switching files
+  useEffect(() => {
+    setDraft(null)
+    setResults([])
+    setSummary(null)
+  }, [fileId])
+
+  const settings = draft ?? query.data ?? EMPTY_SETTINGS
+
+  const updateSettings = useCallback(
+    (changes: Partial<TestCaseSettings>) => {
+      setDraft((prev) => ({ ...(prev ?? query.data ?? EMPTY_SETTINGS), ...changes }))
+    },
+    [query.data]
+  )
+
+  const save = useCallback(async (): Promise<boolean> => {
+    if (!fileId || !draft) return false
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/files/${fileId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          testCases: draft.testCases.map(({ name, input, expectedOutput }) => ({
+            name,
+            input,
+            expectedOutput,
+          })),
+          testComparison: draft.comparison,
+          floatTolerance: draft.floatTolerance,
+        }),
+      })
+      if (!res.ok) {
+        throw new Error('Failed to save test cases')
+      }
+      queryClient.setQueryData(['file', fileId, 'testCases'], draft)
+      setDraft(null)
+      return true
+    } catch (error) {
+      console.error('[useTestCases] Failed to save test cases:', error)
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }, [fileId, draft, queryClient])
+
+  const runTests = useCallback(
+    async (code: string): Promise<TestRunSummary | null> => {
+      const cases = settings.testCases.filter((testCase) => testCase.expectedOutput !== '')
+      if (cases.length === 0) return null
+
+      setRunning(true)
+      setResults([])
+      setSummary(null)
+      try {
+        const runSummary = await runTestCases(language, code, cases, {
+          mode: settings.comparison,
+          floatTolerance: settings.floatTolerance,
+          execute: folderRun
+            ? (input) => executeFolder(language, folderRun.folderId, folderRun.entryFileId, input)
+            : undefined,
+          onCaseComplete: (result) => setResults((prev) => [...prev, result]),
+        })
+        setSummary(runSummary)
+        return runSummary
+      } finally {
+        setRunning(false)
+      }
+    },
+    [language, settings, folderRun]
+  )
+
+  const clearResults = useCallback(() => {
+    setResults([])
+    setSummary(null)
+  }, [])
+
+  return {
+    ...settings,
+    isLoading: query.isLoading,
+    updateSettings,
+    dirty: draft !== null,
+    saving,
+    save,
+    runTests,
+    running,
+    results,
+    summary,
+    clearResults,
+  }
+}
@@ -5,13 +5,15 @@
  * - Code execution via useCodeExecution
  * - Session broadcast (trainer) via /api/sessions/${sessionCode}/broadcast
  * - Session sync (student) via /api/sessions/${sessionCode}/scratchpad
+ * - Optional "Run folder" mode (all files under a folder, see useFolderRun)
  * - Optional save-before-run is handled by the parent (session workspace)
  * 
  * @module useWorkspaceCodeExecution
  */
 
 import { useCallback, useRef } from 'react'
-import { useCodeExecution } from '@/hooks/useCodeExecution'
+import { useCodeExecution, type InteractiveRunControls } from '@/hooks/useCodeExecution'
+import type { FolderRunTarget } from '@/hooks/workspace/useFolderRun'
 import type { ExecutionResult } from '@/services/codeExecution'
 import type { WorkspaceFileWithContent } from '@/types/workspace'
 
@@ -30,6 +32,8 @@ interface UseWorkspaceCodeExecutionOptions {
   sessionSyncType?: 'broadcast' | 'scratchpad'
   /** Callback after execution completes */
   onExecutionComplete?: (result: ExecutionResult) => void
+  /** When set, runs every file under the folder instead of only the editor code */
+  folderRun?: FolderRunTarget | null
 }
 
 interface UseWorkspaceCodeExecutionReturn {
@@ -39,8 +43,12 @@ interface UseWorkspaceCodeExecutionReturn {
   executionResult: ExecutionResult | null
   /** Run code with optional input */
   handleRun: (currentCode: string, input?: string) => Promise<void>
+  /** Stop the running program (kills it on the server) */
+  handleStop: () => Promise<void>
   /** Clear the execution result */
   clearResult: () => void
+  /** Interactive stdin mode (typing while the program runs) */
+  interactive: InteractiveRunControls
 }
 
 /**
@@ -52,6 +60,7 @@ interface UseWorkspaceCodeExecutionReturn {
  *   executing,
  *   executionResult,
  *   handleRun,
+ *   handleStop,
  *   clearResult
  * } = useWorkspaceCodeExecution({
  *   language: 'javascript',
@@ -72,10 +81,19 @@ export function useWorkspaceCodeExecution({
   syncToSession = false,
   sessionSyncType = 'broadcast',
   onExecutionComplete,
+  folderRun = null,
 }: UseWorkspaceCodeExecutionOptions): UseWorkspaceCodeExecutionReturn {
   const lastExecutedCodeRef = useRef<string>('')
 
-  const { execute, executing, result: executionResult, clearResult } = useCodeExecution({
+  const {
+    execute,
+    executeFolder,
+    stop,
+    executing,
+    result: executionResult,
+    clearResult,
+    interactive,
+  } = useCodeExecution({
     onExecutionComplete: async (result) => {
       // Sync to session if configured (include code + output so trainer sees both on refresh)
       if (syncToSession && sessionCode && selectedFile) {
@@ -136,18 +154,28 @@ export function useWorkspaceCodeExecution({
         hasInput: !!input,
         sessionCode,
         syncToSession,
+        folderRun,
       })
 
-      await execute(language, currentCode, input)
+      // Recorded with the run in the execution history
+      const context = { fileId: selectedFile?.id, sessionCode }
+
+      if (folderRun) {
+        await executeFolder(language, folderRun.folderId, folderRun.entryFileId, input, context)
+        return
+      }
+      await execute(language, currentCode, input, context)
     },
-    [language, execute, sessionCode, syncToSession]
+    [language, execute, executeFolder, folderRun, selectedFile?.id, sessionCode, syncToSession]
   )
 
   return {
     executing,
     executionResult,
     handleRun,
+    handleStop: stop,
     clearResult,
+    interactive,
   }
 }
 
@@ -0,0 +1,241 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  // Collections that existed before migrations were tracked; databases set up by dev push already have them
+  const existsResult = await db.execute(
+    sql`SELECT 1 AS "one" FROM pg_type WHERE typname = 'enum_users_role' LIMIT 1`,
+  )
+  const rows = (existsResult as { rows?: unknown[] })?.rows
+  if (Array.isArray(rows) && rows.length > 0) {
+    return
+  }
+
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_users_role" AS ENUM('admin', 'manager', 'trainer', 'student');
+  CREATE TABLE "languages" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"name" varchar NOT NULL,
+  	"slug" varchar NOT NULL,
+  	"monaco_language" varchar NOT NULL,
+  	"extension" varchar NOT NULL,
+  	"default_code" varchar,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  CREATE TABLE "live_sessions" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"join_code" varchar NOT NULL,
+  	"title" varchar NOT NULL,
+  	"trainer_id" integer NOT NULL,
+  	"language_id" integer,
+  	"is_active" boolean DEFAULT true,
+  	"current_code" varchar,
+  	"current_output" jsonb,
+  	"participant_count" numeric DEFAULT 0,
+  	"started_at" timestamp(3) with time zone,
+  	"ended_at" timestamp(3) with time zone,
+  	"student_scratchpads" jsonb,
+  	"trainer_workspace_file_id" varchar,
+  	"trainer_workspace_file_name" varchar,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  CREATE TABLE "folders" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"name" varchar NOT NULL,
+  	"slug" varchar NOT NULL,
+  	"user_id" integer NOT NULL,
+  	"parent_folder_id" integer,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  CREATE TABLE "files" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"name" varchar NOT NULL,
+  	"content" varchar,
+  	"user_id" integer NOT NULL,
+  	"folder_id" integer,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  CREATE TABLE "fees_installments" (
+  	"_order" integer NOT NULL,
+  	"_parent_id" integer NOT NULL,
+  	"id" varchar PRIMARY KEY NOT NULL,
+  	"due_date" timestamp(3) with time zone NOT NULL,
+  	"amount" numeric NOT NULL,
+  	"is_paid" boolean DEFAULT false,
+  	"payment_method" varchar,
+  	"paid_at" timestamp(3) with time zone,
+  	"notes" varchar
+  );
+  
+  CREATE TABLE "fees" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"student_id" integer NOT NULL,
+  	"course_name" varchar,
+  	"total_fee" numeric NOT NULL,
+  	"currency" varchar DEFAULT 'INR' NOT NULL,
+  	"is_active" boolean DEFAULT true,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  CREATE TABLE "platform_settings_available_currencies" (
+  	"_order" integer NOT NULL,
+  	"_parent_id" integer NOT NULL,
+  	"id" varchar PRIMARY KEY NOT NULL,
+  	"code" varchar NOT NULL,
+  	"label" varchar NOT NULL
+  );
+  
+  CREATE TABLE "platform_settings_available_payment_methods" (
+  	"_order" integer NOT NULL,
+  	"_parent_id" integer NOT NULL,
+  	"id" varchar PRIMARY KEY NOT NULL,
+  	"method" varchar NOT NULL
+  );
+  
+  CREATE TABLE "platform_settings" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"trial_days" numeric DEFAULT 7 NOT NULL,
+  	"auto_extend_trial" boolean DEFAULT false,
+  	"block_unpaid_students" boolean DEFAULT true NOT NULL,
+  	"warning_days_before_due" numeric DEFAULT 7 NOT NULL,
+  	"grace_period_days" numeric DEFAULT 0 NOT NULL,
+  	"default_currency" varchar DEFAULT 'INR' NOT NULL,
+  	"maintenance_mode" boolean DEFAULT false NOT NULL,
+  	"allow_all_students_during_maintenance" boolean DEFAULT false NOT NULL,
+  	"max_installments_per_fee" numeric,
+  	"updated_at" timestamp(3) with time zone,
+  	"created_at" timestamp(3) with time zone
+  );
+  
+  ALTER TABLE "users" ADD COLUMN "role" "enum_users_role" DEFAULT 'student' NOT NULL;
+  ALTER TABLE "users" ADD COLUMN "phone" varchar;
+  ALTER TABLE "users" ADD COLUMN "alt_phone" varchar;
+  ALTER TABLE "users" ADD COLUMN "date_of_birth" timestamp(3) with time zone;
+  ALTER TABLE "users" ADD COLUMN "college" varchar;
+  ALTER TABLE "users" ADD COLUMN "educational_background" varchar;
+  ALTER TABLE "users" ADD COLUMN "address" varchar;
+  ALTER TABLE "users" ADD COLUMN "city" varchar;
+  ALTER TABLE "users" ADD COLUMN "state" varchar;
+  ALTER TABLE "users" ADD COLUMN "postal_code" varchar;
+  ALTER TABLE "users" ADD COLUMN "country" varchar;
+  ALTER TABLE "users" ADD COLUMN "trial_start_date" timestamp(3) with time zone;
+  ALTER TABLE "users" ADD COLUMN "trial_end_date" timestamp(3) with time zone;
+  ALTER TABLE "users" ADD COLUMN "is_admission_confirmed" boolean DEFAULT false;
+  ALTER TABLE "users" ADD COLUMN "temporary_access_granted" boolean DEFAULT false;
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "languages_id" integer;
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "live_sessions_id" integer;
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "folders_id" integer;
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "files_id" integer;
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "fees_id" integer;
+  ALTER TABLE "live_sessions" ADD CONSTRAINT "live_sessions_trainer_id_users_id_fk" FOREIGN KEY ("trainer_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "live_sessions" ADD CONSTRAINT "live_sessions_language_id_languages_id_fk" FOREIGN KEY ("language_id") REFERENCES "public"."languages"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "folders" ADD CONSTRAINT "folders_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "folders" ADD CONSTRAINT "folders_parent_folder_id_folders_id_fk" FOREIGN KEY ("parent_folder_id") REFERENCES "public"."folders"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "files" ADD CONSTRAINT "files_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "files" ADD CONSTRAINT "files_folder_id_folders_id_fk" FOREIGN KEY ("folder_id") REFERENCES "public"."folders"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "fees_installments" ADD CONSTRAINT "fees_installments_parent_id_fk" FOREIGN KEY ("_parent_id") REFERENCES "public"."fees"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "fees" ADD CONSTRAINT "fees_student_id_users_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "platform_settings_available_currencies" ADD CONSTRAINT "platform_settings_available_currencies_parent_id_fk" FOREIGN KEY ("_parent_id") REFERENCES "public"."platform_settings"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "platform_settings_available_payment_methods" ADD CONSTRAINT "platform_settings_available_payment_methods_parent_id_fk" FOREIGN KEY ("_parent_id") REFERENCES "public"."platform_settings"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE UNIQUE INDEX "languages_slug_idx" ON "languages" USING btree ("slug");
+  CREATE INDEX "languages_updated_at_idx" ON "languages" USING btree ("updated_at");
+  CREATE INDEX "languages_created_at_idx" ON "languages" USING btree ("created_at");
+  CREATE UNIQUE INDEX "live_sessions_join_code_idx" ON "live_sessions" USING btree ("join_code");
+  CREATE INDEX "live_sessions_trainer_idx" ON "live_sessions" USING btree ("trainer_id");
+  CREATE INDEX "live_sessions_language_idx" ON "live_sessions" USING btree ("language_id");
+  CREATE INDEX "live_sessions_updated_at_idx" ON "live_sessions" USING btree ("updated_at");
+  CREATE INDEX "live_sessions_created_at_idx" ON "live_sessions" USING btree ("created_at");
+  CREATE INDEX "folders_user_idx" ON "folders" USING btree ("user_id");
+  CREATE INDEX "folders_parent_folder_idx" ON "folders" USING btree ("parent_folder_id");
+  CREATE INDEX "folders_updated_at_idx" ON "folders" USING btree ("updated_at");
+  CREATE INDEX "folders_created_at_idx" ON "folders" USING btree ("created_at");
+  CREATE INDEX "files_user_idx" ON "files" USING btree ("user_id");
+  CREATE INDEX "files_folder_idx" ON "files" USING btree ("folder_id");
+  CREATE INDEX "files_updated_at_idx" ON "files" USING btree ("updated_at");
+  CREATE INDEX "files_created_at_idx" ON "files" USING btree ("created_at");
+  CREATE INDEX "fees_installments_order_idx" ON "fees_installments" USING btree ("_order");
+  CREATE INDEX "fees_installments_parent_id_idx" ON "fees_installments" USING btree ("_parent_id");
+  CREATE INDEX "fees_student_idx" ON "fees" USING btree ("student_id");
+  CREATE INDEX "fees_updated_at_idx" ON "fees" USING btree ("updated_at");
+  CREATE INDEX "fees_created_at_idx" ON "fees" USING btree ("created_at");
+  CREATE INDEX "platform_settings_available_currencies_order_idx" ON "platform_settings_available_currencies" USING btree ("_order");
+  CREATE INDEX "platform_settings_available_currencies_parent_id_idx" ON "platform_settings_available_currencies" USING btree ("_parent_id");
+  CREATE INDEX "platform_settings_available_payment_methods_order_idx" ON "platform_settings_available_payment_methods" USING btree ("_order");
+  CREATE INDEX "platform_settings_available_payment_methods_parent_id_idx" ON "platform_settings_available_payment_methods" USING btree ("_parent_id");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_languages_fk" FOREIGN KEY ("languages_id") REFERENCES "public"."languages"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_live_sessions_fk" FOREIGN KEY ("live_sessions_id") REFERENCES "public"."live_sessions"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_folders_fk" FOREIGN KEY ("folders_id") REFERENCES "public"."folders"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_files_fk" FOREIGN KEY ("files_id") REFERENCES "public"."files"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_fees_fk" FOREIGN KEY ("fees_id") REFERENCES "public"."fees"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_languages_id_idx" ON "payload_locked_documents_rels" USING btree ("languages_id");
+  CREATE INDEX "payload_locked_documents_rels_live_sessions_id_idx" ON "payload_locked_documents_rels" USING btree ("live_sessions_id");
+  CREATE INDEX "payload_locked_documents_rels_folders_id_idx" ON "payload_locked_documents_rels" USING btree ("folders_id");
+  CREATE INDEX "payload_locked_documents_rels_files_id_idx" ON "payload_locked_documents_rels" USING btree ("files_id");
+  CREATE INDEX "payload_locked_documents_rels_fees_id_idx" ON "payload_locked_documents_rels" USING btree ("fees_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "languages" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "live_sessions" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "folders" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "files" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "fees_installments" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "fees" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "platform_settings_available_currencies" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "platform_settings_available_payment_methods" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "platform_settings" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "languages" CASCADE;
+  DROP TABLE "live_sessions" CASCADE;
+  DROP TABLE "folders" CASCADE;
+  DROP TABLE "files" CASCADE;
+  DROP TABLE "fees_installments" CASCADE;
+  DROP TABLE "fees" CASCADE;
+  DROP TABLE "platform_settings_available_currencies" CASCADE;
+  DROP TABLE "platform_settings_available_payment_methods" CASCADE;
+  DROP TABLE "platform_settings" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_languages_fk";
+  
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_live_sessions_fk";
+  
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_folders_fk";
+  
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_files_fk";
+  
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_fees_fk";
+  
+  DROP INDEX "payload_locked_documents_rels_languages_id_idx";
+  DROP INDEX "payload_locked_documents_rels_live_sessions_id_idx";
+  DROP INDEX "payload_locked_documents_rels_folders_id_idx";
+  DROP INDEX "payload_locked_documents_rels_files_id_idx";
+  DROP INDEX "payload_locked_documents_rels_fees_id_idx";
+  ALTER TABLE "users" DROP COLUMN "role";
+  ALTER TABLE "users" DROP COLUMN "phone";
+  ALTER TABLE "users" DROP COLUMN "alt_phone";
+  ALTER TABLE "users" DROP COLUMN "date_of_birth";
+  ALTER TABLE "users" DROP COLUMN "college";
+  ALTER TABLE "users" DROP COLUMN "educational_background";
+  ALTER TABLE "users" DROP COLUMN "address";
+  ALTER TABLE "users" DROP COLUMN "city";
+  ALTER TABLE "users" DROP COLUMN "state";
+  ALTER TABLE "users" DROP COLUMN "postal_code";
+  ALTER TABLE "users" DROP COLUMN "country";
+  ALTER TABLE "users" DROP COLUMN "trial_start_date";
+  ALTER TABLE "users" DROP COLUMN "trial_end_date";
+  ALTER TABLE "users" DROP COLUMN "is_admission_confirmed";
+  ALTER TABLE "users" DROP COLUMN "temporary_access_granted";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "languages_id";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "live_sessions_id";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "folders_id";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "files_id";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "fees_id";
+  DROP TYPE "public"."enum_users_role";`)
+}
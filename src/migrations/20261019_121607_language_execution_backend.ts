@@ -0,0 +1,13 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_languages_execution_backend" AS ENUM('onecompiler', 'local');
+  ALTER TABLE "languages" ADD COLUMN "execution_backend" "enum_languages_execution_backend" DEFAULT 'onecompiler';`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "languages" DROP COLUMN "execution_backend";
+  DROP TYPE "public"."enum_languages_execution_backend";`)
+}
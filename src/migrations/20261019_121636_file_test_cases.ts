@@ -0,0 +1,28 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_files_test_comparison" AS ENUM('exact', 'whitespace', 'float');
+  CREATE TABLE "files_test_cases" (
+  	"_order" integer NOT NULL,
+  	"_parent_id" integer NOT NULL,
+  	"id" varchar PRIMARY KEY NOT NULL,
+  	"name" varchar,
+  	"input" varchar,
+  	"expected_output" varchar NOT NULL
+  );
+  
+  ALTER TABLE "files" ADD COLUMN "test_comparison" "enum_files_test_comparison" DEFAULT 'whitespace';
+  ALTER TABLE "files" ADD COLUMN "float_tolerance" numeric DEFAULT 0.000001;
+  ALTER TABLE "files_test_cases" ADD CONSTRAINT "files_test_cases_parent_id_fk" FOREIGN KEY ("_parent_id") REFERENCES "public"."files"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "files_test_cases_order_idx" ON "files_test_cases" USING btree ("_order");
+  CREATE INDEX "files_test_cases_parent_id_idx" ON "files_test_cases" USING btree ("_parent_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   DROP TABLE "files_test_cases" CASCADE;
+  ALTER TABLE "files" DROP COLUMN "test_comparison";
+  ALTER TABLE "files" DROP COLUMN "float_tolerance";
+  DROP TYPE "public"."enum_files_test_comparison";`)
+}
@@ -0,0 +1,49 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_executions_status" AS ENUM('success', 'runtime_error', 'compilation_error', 'timeout', 'error', 'cancelled');
+  CREATE TABLE "executions" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"user_id" integer,
+  	"file_id" integer,
+  	"session_code" varchar,
+  	"language" varchar NOT NULL,
+  	"folder_run" boolean DEFAULT false,
+  	"file_count" numeric,
+  	"code_hash" varchar,
+  	"code" varchar,
+  	"input" varchar,
+  	"status" "enum_executions_status" NOT NULL,
+  	"backend" varchar,
+  	"exit_code" numeric,
+  	"execution_time" numeric,
+  	"stdout" varchar,
+  	"stderr" varchar,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "executions_id" integer;
+  ALTER TABLE "executions" ADD CONSTRAINT "executions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "executions" ADD CONSTRAINT "executions_file_id_files_id_fk" FOREIGN KEY ("file_id") REFERENCES "public"."files"("id") ON DELETE set null ON UPDATE no action;
+  CREATE INDEX "executions_user_idx" ON "executions" USING btree ("user_id");
+  CREATE INDEX "executions_file_idx" ON "executions" USING btree ("file_id");
+  CREATE INDEX "executions_session_code_idx" ON "executions" USING btree ("session_code");
+  CREATE INDEX "executions_code_hash_idx" ON "executions" USING btree ("code_hash");
+  CREATE INDEX "executions_updated_at_idx" ON "executions" USING btree ("updated_at");
+  CREATE INDEX "executions_created_at_idx" ON "executions" USING btree ("created_at");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_executions_fk" FOREIGN KEY ("executions_id") REFERENCES "public"."executions"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_executions_id_idx" ON "payload_locked_documents_rels" USING btree ("executions_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "executions" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "executions" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_executions_fk";
+  
+  DROP INDEX "payload_locked_documents_rels_executions_id_idx";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "executions_id";
+  DROP TYPE "public"."enum_executions_status";`)
+}
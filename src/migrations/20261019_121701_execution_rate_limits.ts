@@ -0,0 +1,24 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_platform_settings_execution_rate_limits_role" AS ENUM('admin', 'manager', 'trainer', 'student', 'guest');
+  CREATE TABLE "platform_settings_execution_rate_limits" (
+  	"_order" integer NOT NULL,
+  	"_parent_id" integer NOT NULL,
+  	"id" varchar PRIMARY KEY NOT NULL,
+  	"role" "enum_platform_settings_execution_rate_limits_role" NOT NULL,
+  	"runs_per_minute" numeric,
+  	"runs_per_day" numeric
+  );
+  
+  ALTER TABLE "platform_settings_execution_rate_limits" ADD CONSTRAINT "platform_settings_execution_rate_limits_parent_id_fk" FOREIGN KEY ("_parent_id") REFERENCES "public"."platform_settings"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "platform_settings_execution_rate_limits_order_idx" ON "platform_settings_execution_rate_limits" USING btree ("_order");
+  CREATE INDEX "platform_settings_execution_rate_limits_parent_id_idx" ON "platform_settings_execution_rate_limits" USING btree ("_parent_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   DROP TABLE "platform_settings_execution_rate_limits" CASCADE;
+  DROP TYPE "public"."enum_platform_settings_execution_rate_limits_role";`)
+}
@@ -0,0 +1,25 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "languages" ADD COLUMN "limits_cpu_time_seconds" numeric;
+  ALTER TABLE "languages" ADD COLUMN "limits_wall_time_ms" numeric;
+  ALTER TABLE "languages" ADD COLUMN "limits_memory_mb" numeric;
+  ALTER TABLE "languages" ADD COLUMN "limits_max_output_kb" numeric;
+  ALTER TABLE "live_sessions" ADD COLUMN "execution_limits_cpu_time_seconds" numeric;
+  ALTER TABLE "live_sessions" ADD COLUMN "execution_limits_wall_time_ms" numeric;
+  ALTER TABLE "live_sessions" ADD COLUMN "execution_limits_memory_mb" numeric;
+  ALTER TABLE "live_sessions" ADD COLUMN "execution_limits_max_output_kb" numeric;`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "languages" DROP COLUMN "limits_cpu_time_seconds";
+  ALTER TABLE "languages" DROP COLUMN "limits_wall_time_ms";
+  ALTER TABLE "languages" DROP COLUMN "limits_memory_mb";
+  ALTER TABLE "languages" DROP COLUMN "limits_max_output_kb";
+  ALTER TABLE "live_sessions" DROP COLUMN "execution_limits_cpu_time_seconds";
+  ALTER TABLE "live_sessions" DROP COLUMN "execution_limits_wall_time_ms";
+  ALTER TABLE "live_sessions" DROP COLUMN "execution_limits_memory_mb";
+  ALTER TABLE "live_sessions" DROP COLUMN "execution_limits_max_output_kb";`)
+}
@@ -0,0 +1,70 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TABLE "session_participants" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"session_id" integer NOT NULL,
+  	"user_id" integer NOT NULL,
+  	"code" varchar,
+  	"language" varchar DEFAULT 'javascript',
+  	"output" jsonb,
+  	"workspace_file_id" varchar,
+  	"workspace_file_name" varchar,
+  	"joined_at" timestamp(3) with time zone NOT NULL,
+  	"left_at" timestamp(3) with time zone,
+  	"last_seen_at" timestamp(3) with time zone,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "session_participants_id" integer;
+  ALTER TABLE "session_participants" ADD CONSTRAINT "session_participants_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "session_participants" ADD CONSTRAINT "session_participants_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  CREATE INDEX "session_participants_session_idx" ON "session_participants" USING btree ("session_id");
+  CREATE INDEX "session_participants_user_idx" ON "session_participants" USING btree ("user_id");
+  CREATE INDEX "session_participants_left_at_idx" ON "session_participants" USING btree ("left_at");
+  CREATE INDEX "session_participants_updated_at_idx" ON "session_participants" USING btree ("updated_at");
+  CREATE INDEX "session_participants_created_at_idx" ON "session_participants" USING btree ("created_at");
+  CREATE UNIQUE INDEX "session_user_idx" ON "session_participants" USING btree ("session_id","user_id");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_session_participants_fk" FOREIGN KEY ("session_participants_id") REFERENCES "public"."session_participants"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_session_participants_id_idx" ON "payload_locked_documents_rels" USING btree ("session_participants_id");
+  ALTER TABLE "live_sessions" DROP COLUMN "participant_count";`)
+
+  // Move the scratchpads out of the old `studentScratchpads` JSON (keyed by user ID).
+  // It only recorded each student's last update; scratchpads of deleted users are dropped.
+  await db.execute(sql`
+   INSERT INTO "session_participants" ("session_id", "user_id", "code", "language", "output", "workspace_file_id", "workspace_file_name", "joined_at", "left_at", "last_seen_at")
+  SELECT
+  	s."id",
+  	u."id",
+  	COALESCE(e.value->>'code', ''),
+  	COALESCE(NULLIF(e.value->>'language', ''), 'javascript'),
+  	e.value->'output',
+  	NULLIF(e.value->>'workspaceFileId', ''),
+  	NULLIF(e.value->>'workspaceFileName', ''),
+  	COALESCE(s."started_at", (e.value->>'updatedAt')::timestamptz, s."created_at"),
+  	CASE WHEN s."is_active" THEN NULL
+  		ELSE COALESCE(s."ended_at", (e.value->>'updatedAt')::timestamptz, s."started_at", s."created_at") END,
+  	COALESCE((e.value->>'updatedAt')::timestamptz, s."started_at", s."created_at")
+  FROM "live_sessions" s
+  CROSS JOIN LATERAL jsonb_each(
+  	CASE WHEN jsonb_typeof(s."student_scratchpads") = 'object' THEN s."student_scratchpads" ELSE '{}'::jsonb END
+  ) AS e(key, value)
+  JOIN "users" u ON u."id"::text = e.key
+  WHERE jsonb_typeof(e.value) = 'object';
+  
+  ALTER TABLE "live_sessions" DROP COLUMN "student_scratchpads";`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "session_participants" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "session_participants" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_session_participants_fk";
+  
+  DROP INDEX "payload_locked_documents_rels_session_participants_id_idx";
+  ALTER TABLE "live_sessions" ADD COLUMN "participant_count" numeric DEFAULT 0;
+  ALTER TABLE "live_sessions" ADD COLUMN "student_scratchpads" jsonb;
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "session_participants_id";`)
+}
@@ -0,0 +1,36 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TABLE "session_snapshots" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"session_id" integer NOT NULL,
+  	"code" varchar,
+  	"language" varchar,
+  	"output" jsonb,
+  	"workspace_file_id" varchar,
+  	"workspace_file_name" varchar,
+  	"captured_at" timestamp(3) with time zone NOT NULL,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "session_snapshots_id" integer;
+  ALTER TABLE "session_snapshots" ADD CONSTRAINT "session_snapshots_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE set null ON UPDATE no action;
+  CREATE INDEX "session_snapshots_session_idx" ON "session_snapshots" USING btree ("session_id");
+  CREATE INDEX "session_snapshots_captured_at_idx" ON "session_snapshots" USING btree ("captured_at");
+  CREATE INDEX "session_snapshots_updated_at_idx" ON "session_snapshots" USING btree ("updated_at");
+  CREATE INDEX "session_snapshots_created_at_idx" ON "session_snapshots" USING btree ("created_at");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_session_snapshots_fk" FOREIGN KEY ("session_snapshots_id") REFERENCES "public"."session_snapshots"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_session_snapshots_id_idx" ON "payload_locked_documents_rels" USING btree ("session_snapshots_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "session_snapshots" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "session_snapshots" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_session_snapshots_fk";
+  
+  DROP INDEX "payload_locked_documents_rels_session_snapshots_id_idx";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "session_snapshots_id";`)
+}
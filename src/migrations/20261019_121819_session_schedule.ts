@@ -0,0 +1,23 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "users" ADD COLUMN "calendar_token" varchar;
+  ALTER TABLE "live_sessions" ADD COLUMN "description" varchar;
+  ALTER TABLE "live_sessions" ADD COLUMN "scheduled_start" timestamp(3) with time zone;
+  ALTER TABLE "live_sessions" ADD COLUMN "duration_minutes" numeric;
+  ALTER TABLE "live_sessions" ADD COLUMN "timezone" varchar;
+  CREATE INDEX "users_calendar_token_idx" ON "users" USING btree ("calendar_token");
+  CREATE INDEX "live_sessions_scheduled_start_idx" ON "live_sessions" USING btree ("scheduled_start");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   DROP INDEX "users_calendar_token_idx";
+  DROP INDEX "live_sessions_scheduled_start_idx";
+  ALTER TABLE "users" DROP COLUMN "calendar_token";
+  ALTER TABLE "live_sessions" DROP COLUMN "description";
+  ALTER TABLE "live_sessions" DROP COLUMN "scheduled_start";
+  ALTER TABLE "live_sessions" DROP COLUMN "duration_minutes";
+  ALTER TABLE "live_sessions" DROP COLUMN "timezone";`)
+}
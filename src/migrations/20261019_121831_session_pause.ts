@@ -0,0 +1,15 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "live_sessions" ADD COLUMN "paused_at" timestamp(3) with time zone;
+  ALTER TABLE "live_sessions" ADD COLUMN "resume_at" timestamp(3) with time zone;
+  ALTER TABLE "live_sessions" ADD COLUMN "paused_seconds" numeric DEFAULT 0;`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "live_sessions" DROP COLUMN "paused_at";
+  ALTER TABLE "live_sessions" DROP COLUMN "resume_at";
+  ALTER TABLE "live_sessions" DROP COLUMN "paused_seconds";`)
+}
@@ -0,0 +1,48 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_help_requests_status" AS ENUM('waiting', 'claimed', 'resolved', 'dismissed', 'withdrawn');
+  CREATE TABLE "help_requests" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"session_id" integer NOT NULL,
+  	"user_id" integer NOT NULL,
+  	"status" "enum_help_requests_status" DEFAULT 'waiting' NOT NULL,
+  	"message" varchar,
+  	"code" varchar,
+  	"language" varchar,
+  	"workspace_file_name" varchar,
+  	"last_error" varchar,
+  	"raised_at" timestamp(3) with time zone NOT NULL,
+  	"claimed_at" timestamp(3) with time zone,
+  	"claimed_by_id" integer,
+  	"closed_at" timestamp(3) with time zone,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "help_requests_id" integer;
+  ALTER TABLE "help_requests" ADD CONSTRAINT "help_requests_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "help_requests" ADD CONSTRAINT "help_requests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "help_requests" ADD CONSTRAINT "help_requests_claimed_by_id_users_id_fk" FOREIGN KEY ("claimed_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  CREATE INDEX "help_requests_session_idx" ON "help_requests" USING btree ("session_id");
+  CREATE INDEX "help_requests_user_idx" ON "help_requests" USING btree ("user_id");
+  CREATE INDEX "help_requests_raised_at_idx" ON "help_requests" USING btree ("raised_at");
+  CREATE INDEX "help_requests_claimed_by_idx" ON "help_requests" USING btree ("claimed_by_id");
+  CREATE INDEX "help_requests_updated_at_idx" ON "help_requests" USING btree ("updated_at");
+  CREATE INDEX "help_requests_created_at_idx" ON "help_requests" USING btree ("created_at");
+  CREATE INDEX "session_status_idx" ON "help_requests" USING btree ("session_id","status");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_help_requests_fk" FOREIGN KEY ("help_requests_id") REFERENCES "public"."help_requests"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_help_requests_id_idx" ON "payload_locked_documents_rels" USING btree ("help_requests_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "help_requests" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "help_requests" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_help_requests_fk";
+  
+  DROP INDEX "payload_locked_documents_rels_help_requests_id_idx";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "help_requests_id";
+  DROP TYPE "public"."enum_help_requests_status";`)
+}
@@ -0,0 +1,57 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_code_pushes_responses_action" AS ENUM('replaced', 'merged', 'saved', 'dismissed');
+  CREATE TABLE "code_pushes_responses" (
+  	"_order" integer NOT NULL,
+  	"_parent_id" integer NOT NULL,
+  	"id" varchar PRIMARY KEY NOT NULL,
+  	"user_id" integer NOT NULL,
+  	"action" "enum_code_pushes_responses_action" NOT NULL,
+  	"responded_at" timestamp(3) with time zone NOT NULL
+  );
+  
+  CREATE TABLE "code_pushes" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"session_id" integer NOT NULL,
+  	"sent_by_id" integer NOT NULL,
+  	"recipient_id" integer,
+  	"code" varchar NOT NULL,
+  	"language" varchar,
+  	"file_name" varchar,
+  	"message" varchar,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "code_pushes_id" integer;
+  ALTER TABLE "code_pushes_responses" ADD CONSTRAINT "code_pushes_responses_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "code_pushes_responses" ADD CONSTRAINT "code_pushes_responses_parent_id_fk" FOREIGN KEY ("_parent_id") REFERENCES "public"."code_pushes"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "code_pushes" ADD CONSTRAINT "code_pushes_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "code_pushes" ADD CONSTRAINT "code_pushes_sent_by_id_users_id_fk" FOREIGN KEY ("sent_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "code_pushes" ADD CONSTRAINT "code_pushes_recipient_id_users_id_fk" FOREIGN KEY ("recipient_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  CREATE INDEX "code_pushes_responses_order_idx" ON "code_pushes_responses" USING btree ("_order");
+  CREATE INDEX "code_pushes_responses_parent_id_idx" ON "code_pushes_responses" USING btree ("_parent_id");
+  CREATE INDEX "code_pushes_responses_user_idx" ON "code_pushes_responses" USING btree ("user_id");
+  CREATE INDEX "code_pushes_session_idx" ON "code_pushes" USING btree ("session_id");
+  CREATE INDEX "code_pushes_sent_by_idx" ON "code_pushes" USING btree ("sent_by_id");
+  CREATE INDEX "code_pushes_recipient_idx" ON "code_pushes" USING btree ("recipient_id");
+  CREATE INDEX "code_pushes_updated_at_idx" ON "code_pushes" USING btree ("updated_at");
+  CREATE INDEX "code_pushes_created_at_idx" ON "code_pushes" USING btree ("created_at");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_code_pushes_fk" FOREIGN KEY ("code_pushes_id") REFERENCES "public"."code_pushes"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_code_pushes_id_idx" ON "payload_locked_documents_rels" USING btree ("code_pushes_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "code_pushes_responses" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "code_pushes" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "code_pushes_responses" CASCADE;
+  DROP TABLE "code_pushes" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_code_pushes_fk";
+  
+  DROP INDEX "payload_locked_documents_rels_code_pushes_id_idx";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "code_pushes_id";
+  DROP TYPE "public"."enum_code_pushes_responses_action";`)
+}
@@ -0,0 +1,77 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_session_polls_kind" AS ENUM('multiple_choice', 'short_answer', 'predict_output');
+  CREATE TYPE "public"."enum_session_polls_status" AS ENUM('open', 'closed');
+  CREATE TABLE "session_polls_options" (
+  	"_order" integer NOT NULL,
+  	"_parent_id" integer NOT NULL,
+  	"id" varchar PRIMARY KEY NOT NULL,
+  	"text" varchar
+  );
+  
+  CREATE TABLE "session_polls_responses" (
+  	"_order" integer NOT NULL,
+  	"_parent_id" integer NOT NULL,
+  	"id" varchar PRIMARY KEY NOT NULL,
+  	"user_id" integer NOT NULL,
+  	"option_index" numeric,
+  	"answer" varchar,
+  	"correct" boolean,
+  	"answered_at" timestamp(3) with time zone NOT NULL
+  );
+  
+  CREATE TABLE "session_polls" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"session_id" integer NOT NULL,
+  	"created_by_id" integer NOT NULL,
+  	"kind" "enum_session_polls_kind" NOT NULL,
+  	"question" varchar NOT NULL,
+  	"code" varchar,
+  	"language" varchar,
+  	"correct_option" numeric,
+  	"expected_answer" varchar,
+  	"status" "enum_session_polls_status" DEFAULT 'open' NOT NULL,
+  	"opened_at" timestamp(3) with time zone NOT NULL,
+  	"closes_at" timestamp(3) with time zone,
+  	"closed_at" timestamp(3) with time zone,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "session_polls_id" integer;
+  ALTER TABLE "session_polls_options" ADD CONSTRAINT "session_polls_options_parent_id_fk" FOREIGN KEY ("_parent_id") REFERENCES "public"."session_polls"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "session_polls_responses" ADD CONSTRAINT "session_polls_responses_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "session_polls_responses" ADD CONSTRAINT "session_polls_responses_parent_id_fk" FOREIGN KEY ("_parent_id") REFERENCES "public"."session_polls"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "session_polls" ADD CONSTRAINT "session_polls_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "session_polls" ADD CONSTRAINT "session_polls_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  CREATE INDEX "session_polls_options_order_idx" ON "session_polls_options" USING btree ("_order");
+  CREATE INDEX "session_polls_options_parent_id_idx" ON "session_polls_options" USING btree ("_parent_id");
+  CREATE INDEX "session_polls_responses_order_idx" ON "session_polls_responses" USING btree ("_order");
+  CREATE INDEX "session_polls_responses_parent_id_idx" ON "session_polls_responses" USING btree ("_parent_id");
+  CREATE INDEX "session_polls_responses_user_idx" ON "session_polls_responses" USING btree ("user_id");
+  CREATE INDEX "session_polls_session_idx" ON "session_polls" USING btree ("session_id");
+  CREATE INDEX "session_polls_created_by_idx" ON "session_polls" USING btree ("created_by_id");
+  CREATE INDEX "session_polls_opened_at_idx" ON "session_polls" USING btree ("opened_at");
+  CREATE INDEX "session_polls_updated_at_idx" ON "session_polls" USING btree ("updated_at");
+  CREATE INDEX "session_polls_created_at_idx" ON "session_polls" USING btree ("created_at");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_session_polls_fk" FOREIGN KEY ("session_polls_id") REFERENCES "public"."session_polls"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_session_polls_id_idx" ON "payload_locked_documents_rels" USING btree ("session_polls_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "session_polls_options" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "session_polls_responses" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "session_polls" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "session_polls_options" CASCADE;
+  DROP TABLE "session_polls_responses" CASCADE;
+  DROP TABLE "session_polls" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_session_polls_fk";
+  
+  DROP INDEX "payload_locked_documents_rels_session_polls_id_idx";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "session_polls_id";
+  DROP TYPE "public"."enum_session_polls_kind";
+  DROP TYPE "public"."enum_session_polls_status";`)
+}
@@ -0,0 +1,49 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_session_messages_visibility" AS ENUM('public', 'private');
+  CREATE TABLE "session_messages" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"session_id" integer NOT NULL,
+  	"sender_id" integer NOT NULL,
+  	"visibility" "enum_session_messages_visibility" DEFAULT 'public' NOT NULL,
+  	"thread_id" integer,
+  	"body" varchar,
+  	"code" varchar,
+  	"language" varchar,
+  	"deleted_at" timestamp(3) with time zone,
+  	"deleted_by_id" integer,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  ALTER TABLE "live_sessions" ADD COLUMN "chat_slow_mode_seconds" numeric DEFAULT 0;
+  ALTER TABLE "session_participants" ADD COLUMN "chat_muted_at" timestamp(3) with time zone;
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "session_messages_id" integer;
+  ALTER TABLE "session_messages" ADD CONSTRAINT "session_messages_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "session_messages" ADD CONSTRAINT "session_messages_sender_id_users_id_fk" FOREIGN KEY ("sender_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "session_messages" ADD CONSTRAINT "session_messages_thread_id_users_id_fk" FOREIGN KEY ("thread_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "session_messages" ADD CONSTRAINT "session_messages_deleted_by_id_users_id_fk" FOREIGN KEY ("deleted_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  CREATE INDEX "session_messages_session_idx" ON "session_messages" USING btree ("session_id");
+  CREATE INDEX "session_messages_sender_idx" ON "session_messages" USING btree ("sender_id");
+  CREATE INDEX "session_messages_thread_idx" ON "session_messages" USING btree ("thread_id");
+  CREATE INDEX "session_messages_deleted_by_idx" ON "session_messages" USING btree ("deleted_by_id");
+  CREATE INDEX "session_messages_updated_at_idx" ON "session_messages" USING btree ("updated_at");
+  CREATE INDEX "session_messages_created_at_idx" ON "session_messages" USING btree ("created_at");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_session_messages_fk" FOREIGN KEY ("session_messages_id") REFERENCES "public"."session_messages"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_session_messages_id_idx" ON "payload_locked_documents_rels" USING btree ("session_messages_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "session_messages" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "session_messages" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_session_messages_fk";
+  
+  DROP INDEX "payload_locked_documents_rels_session_messages_id_idx";
+  ALTER TABLE "live_sessions" DROP COLUMN "chat_slow_mode_seconds";
+  ALTER TABLE "session_participants" DROP COLUMN "chat_muted_at";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "session_messages_id";
+  DROP TYPE "public"."enum_session_messages_visibility";`)
+}
@@ -0,0 +1,57 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TABLE "session_groups" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"session_id" integer NOT NULL,
+  	"name" varchar NOT NULL,
+  	"code" varchar,
+  	"language" varchar,
+  	"code_updated_at" timestamp(3) with time zone,
+  	"code_updated_by_id" integer,
+  	"broadcast_code" varchar,
+  	"broadcast_language" varchar,
+  	"broadcast_at" timestamp(3) with time zone,
+  	"closed_at" timestamp(3) with time zone,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  CREATE TABLE "session_groups_rels" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"order" integer,
+  	"parent_id" integer NOT NULL,
+  	"path" varchar NOT NULL,
+  	"users_id" integer
+  );
+  
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "session_groups_id" integer;
+  ALTER TABLE "session_groups" ADD CONSTRAINT "session_groups_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "session_groups" ADD CONSTRAINT "session_groups_code_updated_by_id_users_id_fk" FOREIGN KEY ("code_updated_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "session_groups_rels" ADD CONSTRAINT "session_groups_rels_parent_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."session_groups"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "session_groups_rels" ADD CONSTRAINT "session_groups_rels_users_fk" FOREIGN KEY ("users_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "session_groups_session_idx" ON "session_groups" USING btree ("session_id");
+  CREATE INDEX "session_groups_code_updated_by_idx" ON "session_groups" USING btree ("code_updated_by_id");
+  CREATE INDEX "session_groups_closed_at_idx" ON "session_groups" USING btree ("closed_at");
+  CREATE INDEX "session_groups_updated_at_idx" ON "session_groups" USING btree ("updated_at");
+  CREATE INDEX "session_groups_created_at_idx" ON "session_groups" USING btree ("created_at");
+  CREATE INDEX "session_groups_rels_order_idx" ON "session_groups_rels" USING btree ("order");
+  CREATE INDEX "session_groups_rels_parent_idx" ON "session_groups_rels" USING btree ("parent_id");
+  CREATE INDEX "session_groups_rels_path_idx" ON "session_groups_rels" USING btree ("path");
+  CREATE INDEX "session_groups_rels_users_id_idx" ON "session_groups_rels" USING btree ("users_id");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_session_groups_fk" FOREIGN KEY ("session_groups_id") REFERENCES "public"."session_groups"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_session_groups_id_idx" ON "payload_locked_documents_rels" USING btree ("session_groups_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "session_groups" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "session_groups_rels" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "session_groups" CASCADE;
+  DROP TABLE "session_groups_rels" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_session_groups_fk";
+  
+  DROP INDEX "payload_locked_documents_rels_session_groups_id_idx";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "session_groups_id";`)
+}
@@ -0,0 +1,35 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_live_sessions_co_hosts_permissions" AS ENUM('broadcast', 'monitor', 'end', 'helpQueue');
+  CREATE TABLE "live_sessions_co_hosts_permissions" (
+  	"order" integer NOT NULL,
+  	"parent_id" varchar NOT NULL,
+  	"value" "enum_live_sessions_co_hosts_permissions",
+  	"id" serial PRIMARY KEY NOT NULL
+  );
+  
+  CREATE TABLE "live_sessions_co_hosts" (
+  	"_order" integer NOT NULL,
+  	"_parent_id" integer NOT NULL,
+  	"id" varchar PRIMARY KEY NOT NULL,
+  	"user_id" integer NOT NULL
+  );
+  
+  ALTER TABLE "live_sessions_co_hosts_permissions" ADD CONSTRAINT "live_sessions_co_hosts_permissions_parent_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."live_sessions_co_hosts"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "live_sessions_co_hosts" ADD CONSTRAINT "live_sessions_co_hosts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "live_sessions_co_hosts" ADD CONSTRAINT "live_sessions_co_hosts_parent_id_fk" FOREIGN KEY ("_parent_id") REFERENCES "public"."live_sessions"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "live_sessions_co_hosts_permissions_order_idx" ON "live_sessions_co_hosts_permissions" USING btree ("order");
+  CREATE INDEX "live_sessions_co_hosts_permissions_parent_idx" ON "live_sessions_co_hosts_permissions" USING btree ("parent_id");
+  CREATE INDEX "live_sessions_co_hosts_order_idx" ON "live_sessions_co_hosts" USING btree ("_order");
+  CREATE INDEX "live_sessions_co_hosts_parent_id_idx" ON "live_sessions_co_hosts" USING btree ("_parent_id");
+  CREATE INDEX "live_sessions_co_hosts_user_idx" ON "live_sessions_co_hosts" USING btree ("user_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   DROP TABLE "live_sessions_co_hosts_permissions" CASCADE;
+  DROP TABLE "live_sessions_co_hosts" CASCADE;
+  DROP TYPE "public"."enum_live_sessions_co_hosts_permissions";`)
+}
@@ -0,0 +1,40 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_session_attendance_kind" AS ENUM('join', 'leave', 'heartbeat');
+  CREATE TABLE "session_attendance" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"session_id" integer NOT NULL,
+  	"user_id" integer NOT NULL,
+  	"kind" "enum_session_attendance_kind" NOT NULL,
+  	"at" timestamp(3) with time zone NOT NULL,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "session_attendance_id" integer;
+  ALTER TABLE "platform_settings" ADD COLUMN "min_attendance_percent" numeric DEFAULT 75;
+  ALTER TABLE "session_attendance" ADD CONSTRAINT "session_attendance_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "session_attendance" ADD CONSTRAINT "session_attendance_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  CREATE INDEX "session_attendance_session_idx" ON "session_attendance" USING btree ("session_id");
+  CREATE INDEX "session_attendance_user_idx" ON "session_attendance" USING btree ("user_id");
+  CREATE INDEX "session_attendance_at_idx" ON "session_attendance" USING btree ("at");
+  CREATE INDEX "session_attendance_updated_at_idx" ON "session_attendance" USING btree ("updated_at");
+  CREATE INDEX "session_attendance_created_at_idx" ON "session_attendance" USING btree ("created_at");
+  CREATE INDEX "session_user_at_idx" ON "session_attendance" USING btree ("session_id","user_id","at");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_session_attendance_fk" FOREIGN KEY ("session_attendance_id") REFERENCES "public"."session_attendance"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_session_attendance_id_idx" ON "payload_locked_documents_rels" USING btree ("session_attendance_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "session_attendance" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "session_attendance" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_session_attendance_fk";
+  
+  DROP INDEX "payload_locked_documents_rels_session_attendance_id_idx";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "session_attendance_id";
+  ALTER TABLE "platform_settings" DROP COLUMN "min_attendance_percent";
+  DROP TYPE "public"."enum_session_attendance_kind";`)
+}
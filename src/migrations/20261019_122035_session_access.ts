@@ -0,0 +1,102 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_live_sessions_access_mode" AS ENUM('open', 'passcode', 'restricted', 'waitingRoom');
+  CREATE TYPE "public"."enum_session_admissions_status" AS ENUM('waiting', 'admitted', 'denied');
+  CREATE TABLE "live_sessions_rels" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"order" integer,
+  	"parent_id" integer NOT NULL,
+  	"path" varchar NOT NULL,
+  	"users_id" integer,
+  	"cohorts_id" integer
+  );
+  
+  CREATE TABLE "session_admissions" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"session_id" integer NOT NULL,
+  	"user_id" integer NOT NULL,
+  	"status" "enum_session_admissions_status" DEFAULT 'waiting' NOT NULL,
+  	"decided_at" timestamp(3) with time zone,
+  	"decided_by_id" integer,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  CREATE TABLE "cohorts" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"name" varchar NOT NULL,
+  	"description" varchar,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  CREATE TABLE "cohorts_rels" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"order" integer,
+  	"parent_id" integer NOT NULL,
+  	"path" varchar NOT NULL,
+  	"users_id" integer
+  );
+  
+  ALTER TABLE "live_sessions" ADD COLUMN "access_mode" "enum_live_sessions_access_mode" DEFAULT 'open';
+  ALTER TABLE "live_sessions" ADD COLUMN "passcode" varchar;
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "session_admissions_id" integer;
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "cohorts_id" integer;
+  ALTER TABLE "live_sessions_rels" ADD CONSTRAINT "live_sessions_rels_parent_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."live_sessions"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "live_sessions_rels" ADD CONSTRAINT "live_sessions_rels_users_fk" FOREIGN KEY ("users_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "live_sessions_rels" ADD CONSTRAINT "live_sessions_rels_cohorts_fk" FOREIGN KEY ("cohorts_id") REFERENCES "public"."cohorts"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "session_admissions" ADD CONSTRAINT "session_admissions_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "session_admissions" ADD CONSTRAINT "session_admissions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "session_admissions" ADD CONSTRAINT "session_admissions_decided_by_id_users_id_fk" FOREIGN KEY ("decided_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "cohorts_rels" ADD CONSTRAINT "cohorts_rels_parent_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."cohorts"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "cohorts_rels" ADD CONSTRAINT "cohorts_rels_users_fk" FOREIGN KEY ("users_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "live_sessions_rels_order_idx" ON "live_sessions_rels" USING btree ("order");
+  CREATE INDEX "live_sessions_rels_parent_idx" ON "live_sessions_rels" USING btree ("parent_id");
+  CREATE INDEX "live_sessions_rels_path_idx" ON "live_sessions_rels" USING btree ("path");
+  CREATE INDEX "live_sessions_rels_users_id_idx" ON "live_sessions_rels" USING btree ("users_id");
+  CREATE INDEX "live_sessions_rels_cohorts_id_idx" ON "live_sessions_rels" USING btree ("cohorts_id");
+  CREATE INDEX "session_admissions_session_idx" ON "session_admissions" USING btree ("session_id");
+  CREATE INDEX "session_admissions_user_idx" ON "session_admissions" USING btree ("user_id");
+  CREATE INDEX "session_admissions_status_idx" ON "session_admissions" USING btree ("status");
+  CREATE INDEX "session_admissions_decided_by_idx" ON "session_admissions" USING btree ("decided_by_id");
+  CREATE INDEX "session_admissions_updated_at_idx" ON "session_admissions" USING btree ("updated_at");
+  CREATE INDEX "session_admissions_created_at_idx" ON "session_admissions" USING btree ("created_at");
+  CREATE UNIQUE INDEX "session_user_1_idx" ON "session_admissions" USING btree ("session_id","user_id");
+  CREATE UNIQUE INDEX "cohorts_name_idx" ON "cohorts" USING btree ("name");
+  CREATE INDEX "cohorts_updated_at_idx" ON "cohorts" USING btree ("updated_at");
+  CREATE INDEX "cohorts_created_at_idx" ON "cohorts" USING btree ("created_at");
+  CREATE INDEX "cohorts_rels_order_idx" ON "cohorts_rels" USING btree ("order");
+  CREATE INDEX "cohorts_rels_parent_idx" ON "cohorts_rels" USING btree ("parent_id");
+  CREATE INDEX "cohorts_rels_path_idx" ON "cohorts_rels" USING btree ("path");
+  CREATE INDEX "cohorts_rels_users_id_idx" ON "cohorts_rels" USING btree ("users_id");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_session_admissions_fk" FOREIGN KEY ("session_admissions_id") REFERENCES "public"."session_admissions"("id") ON DELETE cascade ON UPDATE no action;
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_cohorts_fk" FOREIGN KEY ("cohorts_id") REFERENCES "public"."cohorts"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_session_admissions_id_idx" ON "payload_locked_documents_rels" USING btree ("session_admissions_id");
+  CREATE INDEX "payload_locked_documents_rels_cohorts_id_idx" ON "payload_locked_documents_rels" USING btree ("cohorts_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "live_sessions_rels" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "session_admissions" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "cohorts" DISABLE ROW LEVEL SECURITY;
+  ALTER TABLE "cohorts_rels" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "live_sessions_rels" CASCADE;
+  DROP TABLE "session_admissions" CASCADE;
+  DROP TABLE "cohorts" CASCADE;
+  DROP TABLE "cohorts_rels" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_session_admissions_fk";
+  
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_cohorts_fk";
+  
+  DROP INDEX "payload_locked_documents_rels_session_admissions_id_idx";
+  DROP INDEX "payload_locked_documents_rels_cohorts_id_idx";
+  ALTER TABLE "live_sessions" DROP COLUMN "access_mode";
+  ALTER TABLE "live_sessions" DROP COLUMN "passcode";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "session_admissions_id";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "cohorts_id";
+  DROP TYPE "public"."enum_live_sessions_access_mode";
+  DROP TYPE "public"."enum_session_admissions_status";`)
+}
@@ -0,0 +1,18 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TYPE "public"."enum_executions_status" ADD VALUE 'running' BEFORE 'success';
+  ALTER TABLE "executions" ADD COLUMN "guest_key" varchar;
+  CREATE INDEX "executions_guest_key_idx" ON "executions" USING btree ("guest_key");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "executions" ALTER COLUMN "status" SET DATA TYPE text;
+  DROP TYPE "public"."enum_executions_status";
+  CREATE TYPE "public"."enum_executions_status" AS ENUM('success', 'runtime_error', 'compilation_error', 'timeout', 'error', 'cancelled');
+  ALTER TABLE "executions" ALTER COLUMN "status" SET DATA TYPE "public"."enum_executions_status" USING "status"::"public"."enum_executions_status";
+  DROP INDEX "executions_guest_key_idx";
+  ALTER TABLE "executions" DROP COLUMN "guest_key";`)
+}
@@ -0,0 +1,57 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_code_push_responses_action" AS ENUM('replaced', 'merged', 'saved', 'dismissed');
+  CREATE TABLE "code_push_responses" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"push_id" integer NOT NULL,
+  	"user_id" integer NOT NULL,
+  	"action" "enum_code_push_responses_action" NOT NULL,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  INSERT INTO "code_push_responses" ("push_id", "user_id", "action", "updated_at", "created_at")
+  SELECT DISTINCT ON ("_parent_id", "user_id") "_parent_id", "user_id", "action"::text::"enum_code_push_responses_action", "responded_at", "responded_at"
+  FROM "code_pushes_responses" ORDER BY "_parent_id", "user_id", "responded_at";
+  ALTER TABLE "code_pushes_responses" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "code_pushes_responses" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "code_push_responses_id" integer;
+  ALTER TABLE "code_push_responses" ADD CONSTRAINT "code_push_responses_push_id_code_pushes_id_fk" FOREIGN KEY ("push_id") REFERENCES "public"."code_pushes"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "code_push_responses" ADD CONSTRAINT "code_push_responses_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  CREATE INDEX "code_push_responses_push_idx" ON "code_push_responses" USING btree ("push_id");
+  CREATE INDEX "code_push_responses_user_idx" ON "code_push_responses" USING btree ("user_id");
+  CREATE INDEX "code_push_responses_updated_at_idx" ON "code_push_responses" USING btree ("updated_at");
+  CREATE INDEX "code_push_responses_created_at_idx" ON "code_push_responses" USING btree ("created_at");
+  CREATE UNIQUE INDEX "push_user_idx" ON "code_push_responses" USING btree ("push_id","user_id");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_code_push_responses_fk" FOREIGN KEY ("code_push_responses_id") REFERENCES "public"."code_push_responses"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_code_push_responses_id_idx" ON "payload_locked_documents_rels" USING btree ("code_push_responses_id");
+  DROP TYPE "public"."enum_code_pushes_responses_action";`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TYPE "public"."enum_code_pushes_responses_action" AS ENUM('replaced', 'merged', 'saved', 'dismissed');
+  CREATE TABLE "code_pushes_responses" (
+  	"_order" integer NOT NULL,
+  	"_parent_id" integer NOT NULL,
+  	"id" varchar PRIMARY KEY NOT NULL,
+  	"user_id" integer NOT NULL,
+  	"action" "enum_code_pushes_responses_action" NOT NULL,
+  	"responded_at" timestamp(3) with time zone NOT NULL
+  );
+  
+  ALTER TABLE "code_push_responses" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "code_push_responses" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_code_push_responses_fk";
+  
+  DROP INDEX "payload_locked_documents_rels_code_push_responses_id_idx";
+  ALTER TABLE "code_pushes_responses" ADD CONSTRAINT "code_pushes_responses_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "code_pushes_responses" ADD CONSTRAINT "code_pushes_responses_parent_id_fk" FOREIGN KEY ("_parent_id") REFERENCES "public"."code_pushes"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "code_pushes_responses_order_idx" ON "code_pushes_responses" USING btree ("_order");
+  CREATE INDEX "code_pushes_responses_parent_id_idx" ON "code_pushes_responses" USING btree ("_parent_id");
+  CREATE INDEX "code_pushes_responses_user_idx" ON "code_pushes_responses" USING btree ("user_id");
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "code_push_responses_id";
+  DROP TYPE "public"."enum_code_push_responses_action";`)
+}
@@ -0,0 +1,57 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TABLE "session_poll_answers" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"poll_id" integer NOT NULL,
+  	"user_id" integer NOT NULL,
+  	"option_index" numeric,
+  	"answer" varchar,
+  	"correct" boolean,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  INSERT INTO "session_poll_answers" ("poll_id", "user_id", "option_index", "answer", "correct", "updated_at", "created_at")
+  SELECT DISTINCT ON ("_parent_id", "user_id") "_parent_id", "user_id", "option_index", "answer", "correct", "answered_at", "answered_at"
+  FROM "session_polls_responses" ORDER BY "_parent_id", "user_id", "answered_at" DESC;
+  ALTER TABLE "session_polls_responses" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "session_polls_responses" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "session_poll_answers_id" integer;
+  ALTER TABLE "session_poll_answers" ADD CONSTRAINT "session_poll_answers_poll_id_session_polls_id_fk" FOREIGN KEY ("poll_id") REFERENCES "public"."session_polls"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "session_poll_answers" ADD CONSTRAINT "session_poll_answers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  CREATE INDEX "session_poll_answers_poll_idx" ON "session_poll_answers" USING btree ("poll_id");
+  CREATE INDEX "session_poll_answers_user_idx" ON "session_poll_answers" USING btree ("user_id");
+  CREATE INDEX "session_poll_answers_updated_at_idx" ON "session_poll_answers" USING btree ("updated_at");
+  CREATE INDEX "session_poll_answers_created_at_idx" ON "session_poll_answers" USING btree ("created_at");
+  CREATE UNIQUE INDEX "poll_user_idx" ON "session_poll_answers" USING btree ("poll_id","user_id");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_session_poll_answers_fk" FOREIGN KEY ("session_poll_answers_id") REFERENCES "public"."session_poll_answers"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_session_poll_answers_id_idx" ON "payload_locked_documents_rels" USING btree ("session_poll_answers_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TABLE "session_polls_responses" (
+  	"_order" integer NOT NULL,
+  	"_parent_id" integer NOT NULL,
+  	"id" varchar PRIMARY KEY NOT NULL,
+  	"user_id" integer NOT NULL,
+  	"option_index" numeric,
+  	"answer" varchar,
+  	"correct" boolean,
+  	"answered_at" timestamp(3) with time zone NOT NULL
+  );
+  
+  ALTER TABLE "session_poll_answers" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "session_poll_answers" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_session_poll_answers_fk";
+  
+  DROP INDEX "payload_locked_documents_rels_session_poll_answers_id_idx";
+  ALTER TABLE "session_polls_responses" ADD CONSTRAINT "session_polls_responses_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "session_polls_responses" ADD CONSTRAINT "session_polls_responses_parent_id_fk" FOREIGN KEY ("_parent_id") REFERENCES "public"."session_polls"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "session_polls_responses_order_idx" ON "session_polls_responses" USING btree ("_order");
+  CREATE INDEX "session_polls_responses_parent_id_idx" ON "session_polls_responses" USING btree ("_parent_id");
+  CREATE INDEX "session_polls_responses_user_idx" ON "session_polls_responses" USING btree ("user_id");
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "session_poll_answers_id";`)
+}
@@ -0,0 +1,19 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "session_participants" ADD COLUMN "last_message_at" timestamp(3) with time zone;
+  
+  UPDATE "session_participants" SET "last_message_at" = "last"."created_at"
+  FROM (
+  	SELECT "session_id", "sender_id", max("created_at") AS "created_at"
+  	FROM "session_messages" GROUP BY "session_id", "sender_id"
+  ) AS "last"
+  WHERE "last"."session_id" = "session_participants"."session_id"
+  	AND "last"."sender_id" = "session_participants"."user_id";`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "session_participants" DROP COLUMN "last_message_at";`)
+}
@@ -0,0 +1,32 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+   CREATE TABLE "passcode_attempts" (
+  	"id" serial PRIMARY KEY NOT NULL,
+  	"session_id" integer NOT NULL,
+  	"user_id" integer NOT NULL,
+  	"updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+  	"created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+  );
+  
+  ALTER TABLE "payload_locked_documents_rels" ADD COLUMN "passcode_attempts_id" integer;
+  ALTER TABLE "passcode_attempts" ADD CONSTRAINT "passcode_attempts_session_id_live_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."live_sessions"("id") ON DELETE set null ON UPDATE no action;
+  ALTER TABLE "passcode_attempts" ADD CONSTRAINT "passcode_attempts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+  CREATE INDEX "passcode_attempts_session_idx" ON "passcode_attempts" USING btree ("session_id");
+  CREATE INDEX "passcode_attempts_user_idx" ON "passcode_attempts" USING btree ("user_id");
+  CREATE INDEX "passcode_attempts_updated_at_idx" ON "passcode_attempts" USING btree ("updated_at");
+  CREATE INDEX "passcode_attempts_created_at_idx" ON "passcode_attempts" USING btree ("created_at");
+  ALTER TABLE "payload_locked_documents_rels" ADD CONSTRAINT "payload_locked_documents_rels_passcode_attempts_fk" FOREIGN KEY ("passcode_attempts_id") REFERENCES "public"."passcode_attempts"("id") ON DELETE cascade ON UPDATE no action;
+  CREATE INDEX "payload_locked_documents_rels_passcode_attempts_id_idx" ON "payload_locked_documents_rels" USING btree ("passcode_attempts_id");`)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+   ALTER TABLE "passcode_attempts" DISABLE ROW LEVEL SECURITY;
+  DROP TABLE "passcode_attempts" CASCADE;
+  ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT "payload_locked_documents_rels_passcode_attempts_fk";
+  
+  DROP INDEX "payload_locked_documents_rels_passcode_attempts_id_idx";
+  ALTER TABLE "payload_locked_documents_rels" DROP COLUMN "passcode_attempts_id";`)
+}
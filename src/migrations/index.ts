@@ -1,4 +1,27 @@
 import * as migration_20260127_102817_initial_schema from './20260127_102817_initial_schema'
+import * as migration_20261019_121545_existing_schema from './20261019_121545_existing_schema'
+import * as migration_20261019_121607_language_execution_backend from './20261019_121607_language_execution_backend'
+import * as migration_20261019_121636_file_test_cases from './20261019_121636_file_test_cases'
+import * as migration_20261019_121648_executions from './20261019_121648_executions'
+import * as migration_20261019_121701_execution_rate_limits from './20261019_121701_execution_rate_limits'
+import * as migration_20261019_121726_execution_limits from './20261019_121726_execution_limits'
+import * as migration_20261019_121755_session_participants from './20261019_121755_session_participants'
+import * as migration_20261019_121806_session_snapshots from './20261019_121806_session_snapshots'
+import * as migration_20261019_121819_session_schedule from './20261019_121819_session_schedule'
+import * as migration_20261019_121831_session_pause from './20261019_121831_session_pause'
+import * as migration_20261019_121844_help_requests from './20261019_121844_help_requests'
+import * as migration_20261019_121859_code_pushes from './20261019_121859_code_pushes'
+import * as migration_20261019_121929_session_polls from './20261019_121929_session_polls'
+import * as migration_20261019_121944_session_chat from './20261019_121944_session_chat'
+import * as migration_20261019_121958_session_groups from './20261019_121958_session_groups'
+import * as migration_20261019_122010_session_co_hosts from './20261019_122010_session_co_hosts'
+import * as migration_20261019_122023_session_attendance from './20261019_122023_session_attendance'
+import * as migration_20261019_122035_session_access from './20261019_122035_session_access'
+import * as migration_20261019_122950_execution_reservations from './20261019_122950_execution_reservations'
+import * as migration_20261019_123924_code_push_responses from './20261019_123924_code_push_responses'
+import * as migration_20261019_124223_session_poll_answers from './20261019_124223_session_poll_answers'
+import * as migration_20261019_125718_participant_last_message_at from './20261019_125718_participant_last_message_at'
+import * as migration_20261019_134845_passcode_attempts from './20261019_134845_passcode_attempts'
 
 export const migrations = [
   {
@@ -6,4 +29,119 @@ export const migrations = [
     down: migration_20260127_102817_initial_schema.down,
     name: '20260127_102817_initial_schema'
   },
+  {
+    up: migration_20261019_121545_existing_schema.up,
+    down: migration_20261019_121545_existing_schema.down,
+    name: '20261019_121545_existing_schema'
+  },
+  {
+    up: migration_20261019_121607_language_execution_backend.up,
+    down: migration_20261019_121607_language_execution_backend.down,
+    name: '20261019_121607_language_execution_backend'
+  },
+  {
+    up: migration_20261019_121636_file_test_cases.up,
+    down: migration_20261019_121636_file_test_cases.down,
+    name: '20261019_121636_file_test_cases'
+  },
+  {
+    up: migration_20261019_121648_executions.up,
+    down: migration_20261019_121648_executions.down,
+    name: '20261019_121648_executions'
+  },
+  {
+    up: migration_20261019_121701_execution_rate_limits.up,
+    down: migration_20261019_121701_execution_rate_limits.down,
+    name: '20261019_121701_execution_rate_limits'
+  },
+  {
+    up: migration_20261019_121726_execution_limits.up,
+    down: migration_20261019_121726_execution_limits.down,
+    name: '20261019_121726_execution_limits'
+  },
+  {
+    up: migration_20261019_121755_session_participants.up,
+    down: migration_20261019_121755_session_participants.down,
+    name: '20261019_121755_session_participants'
+  },
+  {
+    up: migration_20261019_121806_session_snapshots.up,
+    down: migration_20261019_121806_session_snapshots.down,
+    name: '20261019_121806_session_snapshots'
+  },
+  {
+    up: migration_20261019_121819_session_schedule.up,
+    down: migration_20261019_121819_session_schedule.down,
+    name: '20261019_121819_session_schedule'
+  },
+  {
+    up: migration_20261019_121831_session_pause.up,
+    down: migration_20261019_121831_session_pause.down,
+    name: '20261019_121831_session_pause'
+  },
+  {
+    up: migration_20261019_121844_help_requests.up,
+    down: migration_20261019_121844_help_requests.down,
+    name: '20261019_121844_help_requests'
+  },
+  {
+    up: migration_20261019_121859_code_pushes.up,
+    down: migration_20261019_121859_code_pushes.down,
+    name: '20261019_121859_code_pushes'
+  },
+  {
+    up: migration_20261019_121929_session_polls.up,
+    down: migration_20261019_121929_session_polls.down,
+    name: '20261019_121929_session_polls'
+  },
+  {
+    up: migration_20261019_121944_session_chat.up,
+    down: migration_20261019_121944_session_chat.down,
+    name: '20261019_121944_session_chat'
+  },
+  {
+    up: migration_20261019_121958_session_groups.up,
+    down: migration_20261019_121958_session_groups.down,
+    name: '20261019_121958_session_groups'
+  },
+  {
+    up: migration_20261019_122010_session_co_hosts.up,
+    down: migration_20261019_122010_session_co_hosts.down,
+    name: '20261019_122010_session_co_hosts'
+  },
+  {
+    up: migration_20261019_122023_session_attendance.up,
+    down: migration_20261019_122023_session_attendance.down,
+    name: '20261019_122023_session_attendance'
+  },
+  {
+    up: migration_20261019_122035_session_access.up,
+    down: migration_20261019_122035_session_access.down,
+    name: '20261019_122035_session_access'
+  },
+  {
+    up: migration_20261019_122950_execution_reservations.up,
+    down: migration_20261019_122950_execution_reservations.down,
+    name: '20261019_122950_execution_reservations'
+  },
+  {
+    up: migration_20261019_123924_code_push_responses.up,
+    down: migration_20261019_123924_code_push_responses.down,
+    name: '20261019_123924_code_push_responses'
+  },
+  {
+    up: migration_20261019_124223_session_poll_answers.up,
+    down: migration_20261019_124223_session_poll_answers.down,
+    name: '20261019_124223_session_poll_answers'
+  },
+  {
+    up: migration_20261019_125718_participant_last_message_at.up,
+    down: migration_20261019_125718_participant_last_message_at.down,
+    name: '20261019_125718_participant_last_message_at'
+  },
+  {
+    up: migration_20261019_134845_passcode_attempts.up,
+    down: migration_20261019_134845_passcode_attempts.down,
+    name: '20261019_134845_passcode_attempts'
+  },
 ]
@@ -74,9 +74,23 @@ export interface Config {
     users: User;
     languages: Language;
     'live-sessions': LiveSession;
+    'session-participants': SessionParticipant;
+    'session-snapshots': SessionSnapshot;
+    'help-requests': HelpRequest;
+    'code-pushes': CodePush;
+    'code-push-responses': CodePushResponse;
+    'session-polls': SessionPoll;
+    'session-poll-answers': SessionPollAnswer;
+    'session-messages': SessionMessage;
+    'session-groups': SessionGroup;
+    'session-attendance': SessionAttendance;
+    'session-admissions': SessionAdmission;
+    'passcode-attempts': PasscodeAttempt;
+    cohorts: Cohort;
     folders: Folder;
     files: File;
     fees: Fee;
+    executions: Execution;
     redirects: Redirect;
     forms: Form;
     'form-submissions': FormSubmission;
@@ -101,9 +115,23 @@ export interface Config {
     users: UsersSelect<false> | UsersSelect<true>;
     languages: LanguagesSelect<false> | LanguagesSelect<true>;
     'live-sessions': LiveSessionsSelect<false> | LiveSessionsSelect<true>;
+    'session-participants': SessionParticipantsSelect<false> | SessionParticipantsSelect<true>;
+    'session-snapshots': SessionSnapshotsSelect<false> | SessionSnapshotsSelect<true>;
+    'help-requests': HelpRequestsSelect<false> | HelpRequestsSelect<true>;
+    'code-pushes': CodePushesSelect<false> | CodePushesSelect<true>;
+    'code-push-responses': CodePushResponsesSelect<false> | CodePushResponsesSelect<true>;
+    'session-polls': SessionPollsSelect<false> | SessionPollsSelect<true>;
+    'session-poll-answers': SessionPollAnswersSelect<false> | SessionPollAnswersSelect<true>;
+    'session-messages': SessionMessagesSelect<false> | SessionMessagesSelect<true>;
+    'session-groups': SessionGroupsSelect<false> | SessionGroupsSelect<true>;
+    'session-attendance': SessionAttendanceSelect<false> | SessionAttendanceSelect<true>;
+    'session-admissions': SessionAdmissionsSelect<false> | SessionAdmissionsSelect<true>;
+    'passcode-attempts': PasscodeAttemptsSelect<false> | PasscodeAttemptsSelect<true>;
+    cohorts: CohortsSelect<false> | CohortsSelect<true>;
     folders: FoldersSelect<false> | FoldersSelect<true>;
     files: FilesSelect<false> | FilesSelect<true>;
     fees: FeesSelect<false> | FeesSelect<true>;
+    executions: ExecutionsSelect<false> | ExecutionsSelect<true>;
     redirects: RedirectsSelect<false> | RedirectsSelect<true>;
     forms: FormsSelect<false> | FormsSelect<true>;
     'form-submissions': FormSubmissionsSelect<false> | FormSubmissionsSelect<true>;
@@ -482,6 +510,7 @@ export interface User {
    * Temporarily grant access to this student, overriding all other access rules
    */
   temporaryAccessGranted?: boolean | null;
+  calendarToken?: string | null;
   updatedAt: string;
   createdAt: string;
   email: string;
@@ -843,6 +872,8 @@ export interface Form {
   createdAt: string;
 }
 /**
+ * Built-in languages are created and kept in sync from the language registry (src/utilities/languageRegistry.ts) on startup. Starter code and execution backend stay editable.
+ *
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "languages".
  */
@@ -853,7 +884,7 @@ export interface Language {
    */
   name: string;
   /**
-   * Used for OneCompiler API (e.g., javascript, python)
+   * Language ID used by the execution backends (e.g., javascript, python)
    */
   slug: string;
   /**
@@ -868,6 +899,31 @@ export interface Language {
    * Default starter code for this language
    */
   defaultCode?: string | null;
+  /**
+   * Where code in this language runs. Local runs on the server without network access and needs the toolchain installed.
+   */
+  executionBackend?: ('onecompiler' | 'local') | null;
+  /**
+   * Resource limits for each run. Leave empty to use the language registry defaults. The local sandbox enforces all four; OneCompiler only wall time and output size.
+   */
+  limits?: {
+    /**
+     * CPU time per process (seconds)
+     */
+    cpuTimeSeconds?: number | null;
+    /**
+     * Wall-clock time (ms)
+     */
+    wallTimeMs?: number | null;
+    /**
+     * Memory (MB)
+     */
+    memoryMb?: number | null;
+    /**
+     * Output per stream (KB)
+     */
+    maxOutputKb?: number | null;
+  };
   updatedAt: string;
   createdAt: string;
 }
@@ -885,14 +941,65 @@ export interface LiveSession {
    * Session title (e.g., "Introduction to Python")
    */
   title: string;
+  /**
+   * What the session covers; shown in the upcoming list and calendar feeds
+   */
+  description?: string | null;
   /**
    * Trainer/host conducting this session (can be trainer, manager, or admin)
    */
   trainer: number | User;
+  /**
+   * Co-hosts and teaching assistants. The trainer, managers and admins can always do everything.
+   */
+  coHosts?:
+    | {
+        user: number | User;
+        permissions?: ('broadcast' | 'monitor' | 'end' | 'helpQueue')[] | null;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * Who may join. Students already in the session keep their place when this changes.
+   */
+  accessMode?: ('open' | 'passcode' | 'restricted' | 'waitingRoom') | null;
+  /**
+   * Students enter this after the join code
+   */
+  passcode?: string | null;
+  /**
+   * Students who may join a restricted session
+   */
+  allowedStudents?: (number | User)[] | null;
+  /**
+   * Every student in these cohorts may join a restricted session
+   */
+  allowedCohorts?: (number | Cohort)[] | null;
   /**
    * Programming language for this session
    */
   language?: (number | null) | Language;
+  /**
+   * Override the language limits for runs in this session. Leave empty to use the language limits.
+   */
+  executionLimits?: {
+    /**
+     * CPU time per process (seconds)
+     */
+    cpuTimeSeconds?: number | null;
+    /**
+     * Wall-clock time (ms)
+     */
+    wallTimeMs?: number | null;
+    /**
+     * Memory (MB)
+     */
+    memoryMb?: number | null;
+    /**
+     * Output per stream (KB)
+     */
+    maxOutputKb?: number | null;
+  };
   /**
    * Is this session currently live?
    */
@@ -913,10 +1020,6 @@ export interface LiveSession {
     | number
     | boolean
     | null;
-  /**
-   * Number of students currently in session
-   */
-  participantCount?: number | null;
   /**
    * When the session started
    */
@@ -926,9 +1029,80 @@ export interface LiveSession {
    */
   endedAt?: string | null;
   /**
-   * Student scratchpad code (userId -> {code, language, updatedAt})
+   * Start of the current break; empty while the session is running
+   */
+  pausedAt?: string | null;
+  /**
+   * When the trainer said the break ends (shown to students)
+   */
+  resumeAt?: string | null;
+  /**
+   * Total length of finished breaks; not counted towards the 24-hour expiry
+   */
+  pausedSeconds?: number | null;
+  /**
+   * Students wait this long between chat messages (0 turns slow mode off)
+   */
+  chatSlowModeSeconds?: number | null;
+  /**
+   * Planned start for scheduled sessions. The session goes live when the trainer opens it.
+   */
+  scheduledStart?: string | null;
+  /**
+   * Planned length in minutes (default 60)
+   */
+  durationMinutes?: number | null;
+  /**
+   * Time zone the session was scheduled in (e.g. Asia/Kolkata)
+   */
+  timezone?: string | null;
+  /**
+   * Currently active workspace file ID for trainer
+   */
+  trainerWorkspaceFileId?: string | null;
+  /**
+   * Currently active workspace file name for trainer
    */
-  studentScratchpads?:
+  trainerWorkspaceFileName?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Batches of students; restricted live sessions can be opened to whole cohorts
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "cohorts".
+ */
+export interface Cohort {
+  id: number;
+  name: string;
+  description?: string | null;
+  students?: (number | User)[] | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * One entry per student per live session: their scratchpad and presence (written by the session routes)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-participants".
+ */
+export interface SessionParticipant {
+  id: number;
+  session: number | LiveSession;
+  user: number | User;
+  /**
+   * Latest code shared by the student
+   */
+  code?: string | null;
+  /**
+   * Language slug of the code (see the language registry)
+   */
+  language?: string | null;
+  /**
+   * Output of the student's last run
+   */
+  output?:
     | {
         [k: string]: unknown;
       }
@@ -938,13 +1112,332 @@ export interface LiveSession {
     | boolean
     | null;
   /**
-   * Currently active workspace file ID for trainer
+   * Workspace file the student is working in
    */
-  trainerWorkspaceFileId?: string | null;
+  workspaceFileId?: string | null;
+  workspaceFileName?: string | null;
+  joinedAt: string;
   /**
-   * Currently active workspace file name for trainer
+   * Set when the student leaves; cleared when they join again
    */
-  trainerWorkspaceFileName?: string | null;
+  leftAt?: string | null;
+  /**
+   * Last join or recorded heartbeat
+   */
+  lastSeenAt?: string | null;
+  /**
+   * Set while a trainer has muted the student in the session chat
+   */
+  chatMutedAt?: string | null;
+  /**
+   * The student's last chat message; chat slow mode counts from here
+   */
+  lastMessageAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Every trainer broadcast of a live session, for replay (recorded by the server)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-snapshots".
+ */
+export interface SessionSnapshot {
+  id: number;
+  session: number | LiveSession;
+  /**
+   * Code the trainer broadcast
+   */
+  code?: string | null;
+  /**
+   * Language slug of the code (see the language registry)
+   */
+  language?: string | null;
+  /**
+   * Output broadcast with the code, if any
+   */
+  output?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  workspaceFileId?: string | null;
+  workspaceFileName?: string | null;
+  capturedAt: string;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Raised hands in live sessions, with the code and error the student needed help with (written by the session routes)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "help-requests".
+ */
+export interface HelpRequest {
+  id: number;
+  session: number | LiveSession;
+  user: number | User;
+  /**
+   * Withdrawn means the student lowered their hand
+   */
+  status: 'waiting' | 'claimed' | 'resolved' | 'dismissed' | 'withdrawn';
+  /**
+   * Optional note from the student
+   */
+  message?: string | null;
+  /**
+   * The student's code when they raised their hand
+   */
+  code?: string | null;
+  /**
+   * Language slug of the code (see the language registry)
+   */
+  language?: string | null;
+  workspaceFileName?: string | null;
+  /**
+   * Error output of the student's last failed run, if any
+   */
+  lastError?: string | null;
+  raisedAt: string;
+  claimedAt?: string | null;
+  claimedBy?: (number | null) | User;
+  /**
+   * When the request was resolved, dismissed or withdrawn
+   */
+  closedAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Code a trainer pushed to one student or the whole class; answers are in code-push-responses (written by the session routes)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "code-pushes".
+ */
+export interface CodePush {
+  id: number;
+  session: number | LiveSession;
+  sentBy: number | User;
+  /**
+   * Empty when pushed to the whole class
+   */
+  recipient?: (number | null) | User;
+  code: string;
+  /**
+   * Language slug of the code (see the language registry)
+   */
+  language?: string | null;
+  /**
+   * Suggested file name when the student saves it as a new file
+   */
+  fileName?: string | null;
+  /**
+   * Optional note shown to the student with the code
+   */
+  message?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * How each student answered a code push, one entry per student and push (written by the session routes)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "code-push-responses".
+ */
+export interface CodePushResponse {
+  id: number;
+  push: number | CodePush;
+  user: number | User;
+  action: 'replaced' | 'merged' | 'saved' | 'dismissed';
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Quiz questions and polls run during live sessions; answers are in session-poll-answers (written by the session routes)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-polls".
+ */
+export interface SessionPoll {
+  id: number;
+  session: number | LiveSession;
+  createdBy: number | User;
+  kind: 'multiple_choice' | 'short_answer' | 'predict_output';
+  question: string;
+  /**
+   * Code shown with the question, e.g. the trainer broadcast for "predict the output"
+   */
+  code?: string | null;
+  /**
+   * Language slug of the code (see the language registry)
+   */
+  language?: string | null;
+  /**
+   * Choices of a multiple-choice question, in display order
+   */
+  options?:
+    | {
+        text: string;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * Index of the correct choice (0-based); empty for an opinion poll
+   */
+  correctOption?: number | null;
+  /**
+   * Correct text answer, compared ignoring surrounding and trailing whitespace; empty when any answer goes
+   */
+  expectedAnswer?: string | null;
+  /**
+   * A poll also stops taking answers once its countdown runs out
+   */
+  status: 'open' | 'closed';
+  openedAt: string;
+  /**
+   * End of the countdown; empty for no time limit
+   */
+  closesAt?: string | null;
+  /**
+   * When the trainer closed the poll early
+   */
+  closedAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Student answers to session polls, one entry per student and poll; answering again replaces it (written by the session routes)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-poll-answers".
+ */
+export interface SessionPollAnswer {
+  id: number;
+  poll: number | SessionPoll;
+  user: number | User;
+  optionIndex?: number | null;
+  answer?: string | null;
+  /**
+   * Empty when the question has no correct answer
+   */
+  correct?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Chat messages of live sessions: public messages and private student-trainer threads (written by the session routes)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-messages".
+ */
+export interface SessionMessage {
+  id: number;
+  session: number | LiveSession;
+  sender: number | User;
+  visibility: 'public' | 'private';
+  /**
+   * Student whose private conversation with the trainers this belongs to
+   */
+  thread?: (number | null) | User;
+  body?: string | null;
+  /**
+   * Code block sent with the message
+   */
+  code?: string | null;
+  /**
+   * Language slug of the code block (see the language registry)
+   */
+  language?: string | null;
+  /**
+   * Set when a trainer removes the message; it stays in the export as removed
+   */
+  deletedAt?: string | null;
+  deletedBy?: (number | null) | User;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Breakout groups of live sessions, each with a shared scratchpad (written by the session routes)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-groups".
+ */
+export interface SessionGroup {
+  id: number;
+  session: number | LiveSession;
+  name: string;
+  members?: (number | User)[] | null;
+  /**
+   * Shared group scratchpad
+   */
+  code?: string | null;
+  /**
+   * Language slug of the scratchpad (see the language registry)
+   */
+  language?: string | null;
+  codeUpdatedAt?: string | null;
+  codeUpdatedBy?: (number | null) | User;
+  /**
+   * Code the trainer sent to this group only
+   */
+  broadcastCode?: string | null;
+  broadcastLanguage?: string | null;
+  broadcastAt?: string | null;
+  /**
+   * Set when the trainer brings everyone back together
+   */
+  closedAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Join, leave and heartbeat events of students in live sessions, for attendance reports (written by the session routes)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-attendance".
+ */
+export interface SessionAttendance {
+  id: number;
+  session: number | LiveSession;
+  user: number | User;
+  /**
+   * Heartbeats are sent about once a minute while the session page is open
+   */
+  kind: 'join' | 'leave' | 'heartbeat';
+  at: string;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Students asking to join waiting-room sessions, and the trainer’s answer (written by the session routes)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-admissions".
+ */
+export interface SessionAdmission {
+  id: number;
+  session: number | LiveSession;
+  user: number | User;
+  status: 'waiting' | 'admitted' | 'denied';
+  decidedAt?: string | null;
+  decidedBy?: (number | null) | User;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Wrong passcodes entered when joining passcode sessions; too many lock the student out for a while (written by the join route)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "passcode-attempts".
+ */
+export interface PasscodeAttempt {
+  id: number;
+  session: number | LiveSession;
+  user: number | User;
   updatedAt: string;
   createdAt: string;
 }
@@ -989,6 +1482,34 @@ export interface File {
    * Parent folder (null = root level)
    */
   folder?: (number | null) | Folder;
+  /**
+   * Input/expected-output cases run by the test runner
+   */
+  testCases?:
+    | {
+        /**
+         * Optional label shown in test results
+         */
+        name?: string | null;
+        /**
+         * Program input (stdin)
+         */
+        input?: string | null;
+        /**
+         * Expected program output (stdout)
+         */
+        expectedOutput: string;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * How test output is compared with the expected output
+   */
+  testComparison?: ('exact' | 'whitespace' | 'float') | null;
+  /**
+   * Allowed absolute/relative difference for numbers (float comparison only)
+   */
+  floatTolerance?: number | null;
   updatedAt: string;
   createdAt: string;
 }
@@ -1053,6 +1574,72 @@ export interface Fee {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * Every code run made through /api/execute (written by the server)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "executions".
+ */
+export interface Execution {
+  id: number;
+  /**
+   * Who ran the code (empty for anonymous runs)
+   */
+  user?: (number | null) | User;
+  /**
+   * Workspace file that was run (entry file for folder runs)
+   */
+  file?: (number | null) | File;
+  /**
+   * Hash of the IP address of an anonymous run (counts guest run limits)
+   */
+  guestKey?: string | null;
+  /**
+   * Join code of the live session the run was made in
+   */
+  sessionCode?: string | null;
+  language: string;
+  /**
+   * Run folder mode (all files of a folder were sent)
+   */
+  folderRun?: boolean | null;
+  /**
+   * Number of source files sent
+   */
+  fileCount?: number | null;
+  /**
+   * SHA-256 of all source files (detects re-runs of identical code)
+   */
+  codeHash?: string | null;
+  /**
+   * Source of the entry file (truncated)
+   */
+  code?: string | null;
+  /**
+   * Program input (stdin, truncated)
+   */
+  input?: string | null;
+  status: 'running' | 'success' | 'runtime_error' | 'compilation_error' | 'timeout' | 'error' | 'cancelled';
+  /**
+   * Execution backend that ran the code (onecompiler, local)
+   */
+  backend?: string | null;
+  exitCode?: number | null;
+  /**
+   * Run time in milliseconds
+   */
+  executionTime?: number | null;
+  /**
+   * Program output (truncated)
+   */
+  stdout?: string | null;
+  /**
+   * Error output or API error message (truncated)
+   */
+  stderr?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "redirects".
@@ -1271,6 +1858,58 @@ export interface PayloadLockedDocument {
         relationTo: 'live-sessions';
         value: number | LiveSession;
       } | null)
+    | ({
+        relationTo: 'session-participants';
+        value: number | SessionParticipant;
+      } | null)
+    | ({
+        relationTo: 'session-snapshots';
+        value: number | SessionSnapshot;
+      } | null)
+    | ({
+        relationTo: 'help-requests';
+        value: number | HelpRequest;
+      } | null)
+    | ({
+        relationTo: 'code-pushes';
+        value: number | CodePush;
+      } | null)
+    | ({
+        relationTo: 'code-push-responses';
+        value: number | CodePushResponse;
+      } | null)
+    | ({
+        relationTo: 'session-polls';
+        value: number | SessionPoll;
+      } | null)
+    | ({
+        relationTo: 'session-poll-answers';
+        value: number | SessionPollAnswer;
+      } | null)
+    | ({
+        relationTo: 'session-messages';
+        value: number | SessionMessage;
+      } | null)
+    | ({
+        relationTo: 'session-groups';
+        value: number | SessionGroup;
+      } | null)
+    | ({
+        relationTo: 'session-attendance';
+        value: number | SessionAttendance;
+      } | null)
+    | ({
+        relationTo: 'session-admissions';
+        value: number | SessionAdmission;
+      } | null)
+    | ({
+        relationTo: 'passcode-attempts';
+        value: number | PasscodeAttempt;
+      } | null)
+    | ({
+        relationTo: 'cohorts';
+        value: number | Cohort;
+      } | null)
     | ({
         relationTo: 'folders';
         value: number | Folder;
@@ -1283,6 +1922,10 @@ export interface PayloadLockedDocument {
         relationTo: 'fees';
         value: number | Fee;
       } | null)
+    | ({
+        relationTo: 'executions';
+        value: number | Execution;
+      } | null)
     | ({
         relationTo: 'redirects';
         value: number | Redirect;
@@ -1646,6 +2289,7 @@ export interface UsersSelect<T extends boolean = true> {
   trialEndDate?: T;
   isAdmissionConfirmed?: T;
   temporaryAccessGranted?: T;
+  calendarToken?: T;
   updatedAt?: T;
   createdAt?: T;
   email?: T;
@@ -1673,6 +2317,15 @@ export interface LanguagesSelect<T extends boolean = true> {
   monacoLanguage?: T;
   extension?: T;
   defaultCode?: T;
+  executionBackend?: T;
+  limits?:
+    | T
+    | {
+        cpuTimeSeconds?: T;
+        wallTimeMs?: T;
+        memoryMb?: T;
+        maxOutputKb?: T;
+      };
   updatedAt?: T;
   createdAt?: T;
 }
@@ -1683,20 +2336,247 @@ export interface LanguagesSelect<T extends boolean = true> {
 export interface LiveSessionsSelect<T extends boolean = true> {
   joinCode?: T;
   title?: T;
+  description?: T;
   trainer?: T;
+  coHosts?:
+    | T
+    | {
+        user?: T;
+        permissions?: T;
+        id?: T;
+      };
+  accessMode?: T;
+  passcode?: T;
+  allowedStudents?: T;
+  allowedCohorts?: T;
   language?: T;
+  executionLimits?:
+    | T
+    | {
+        cpuTimeSeconds?: T;
+        wallTimeMs?: T;
+        memoryMb?: T;
+        maxOutputKb?: T;
+      };
   isActive?: T;
   currentCode?: T;
   currentOutput?: T;
-  participantCount?: T;
   startedAt?: T;
   endedAt?: T;
-  studentScratchpads?: T;
+  pausedAt?: T;
+  resumeAt?: T;
+  pausedSeconds?: T;
+  chatSlowModeSeconds?: T;
+  scheduledStart?: T;
+  durationMinutes?: T;
+  timezone?: T;
   trainerWorkspaceFileId?: T;
   trainerWorkspaceFileName?: T;
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-participants_select".
+ */
+export interface SessionParticipantsSelect<T extends boolean = true> {
+  session?: T;
+  user?: T;
+  code?: T;
+  language?: T;
+  output?: T;
+  workspaceFileId?: T;
+  workspaceFileName?: T;
+  joinedAt?: T;
+  leftAt?: T;
+  lastSeenAt?: T;
+  chatMutedAt?: T;
+  lastMessageAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-snapshots_select".
+ */
+export interface SessionSnapshotsSelect<T extends boolean = true> {
+  session?: T;
+  code?: T;
+  language?: T;
+  output?: T;
+  workspaceFileId?: T;
+  workspaceFileName?: T;
+  capturedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "help-requests_select".
+ */
+export interface HelpRequestsSelect<T extends boolean = true> {
+  session?: T;
+  user?: T;
+  status?: T;
+  message?: T;
+  code?: T;
+  language?: T;
+  workspaceFileName?: T;
+  lastError?: T;
+  raisedAt?: T;
+  claimedAt?: T;
+  claimedBy?: T;
+  closedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "code-pushes_select".
+ */
+export interface CodePushesSelect<T extends boolean = true> {
+  session?: T;
+  sentBy?: T;
+  recipient?: T;
+  code?: T;
+  language?: T;
+  fileName?: T;
+  message?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "code-push-responses_select".
+ */
+export interface CodePushResponsesSelect<T extends boolean = true> {
+  push?: T;
+  user?: T;
+  action?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-polls_select".
+ */
+export interface SessionPollsSelect<T extends boolean = true> {
+  session?: T;
+  createdBy?: T;
+  kind?: T;
+  question?: T;
+  code?: T;
+  language?: T;
+  options?:
+    | T
+    | {
+        text?: T;
+        id?: T;
+      };
+  correctOption?: T;
+  expectedAnswer?: T;
+  status?: T;
+  openedAt?: T;
+  closesAt?: T;
+  closedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-poll-answers_select".
+ */
+export interface SessionPollAnswersSelect<T extends boolean = true> {
+  poll?: T;
+  user?: T;
+  optionIndex?: T;
+  answer?: T;
+  correct?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-messages_select".
+ */
+export interface SessionMessagesSelect<T extends boolean = true> {
+  session?: T;
+  sender?: T;
+  visibility?: T;
+  thread?: T;
+  body?: T;
+  code?: T;
+  language?: T;
+  deletedAt?: T;
+  deletedBy?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-groups_select".
+ */
+export interface SessionGroupsSelect<T extends boolean = true> {
+  session?: T;
+  name?: T;
+  members?: T;
+  code?: T;
+  language?: T;
+  codeUpdatedAt?: T;
+  codeUpdatedBy?: T;
+  broadcastCode?: T;
+  broadcastLanguage?: T;
+  broadcastAt?: T;
+  closedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-attendance_select".
+ */
+export interface SessionAttendanceSelect<T extends boolean = true> {
+  session?: T;
+  user?: T;
+  kind?: T;
+  at?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "session-admissions_select".
+ */
+export interface SessionAdmissionsSelect<T extends boolean = true> {
+  session?: T;
+  user?: T;
+  status?: T;
+  decidedAt?: T;
+  decidedBy?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "passcode-attempts_select".
+ */
+export interface PasscodeAttemptsSelect<T extends boolean = true> {
+  session?: T;
+  user?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "cohorts_select".
+ */
+export interface CohortsSelect<T extends boolean = true> {
+  name?: T;
+  description?: T;
+  students?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "folders_select".
@@ -1718,6 +2598,16 @@ export interface FilesSelect<T extends boolean = true> {
   content?: T;
   user?: T;
   folder?: T;
+  testCases?:
+    | T
+    | {
+        name?: T;
+        input?: T;
+        expectedOutput?: T;
+        id?: T;
+      };
+  testComparison?: T;
+  floatTolerance?: T;
   updatedAt?: T;
   createdAt?: T;
 }
@@ -1745,6 +2635,30 @@ export interface FeesSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "executions_select".
+ */
+export interface ExecutionsSelect<T extends boolean = true> {
+  user?: T;
+  file?: T;
+  guestKey?: T;
+  sessionCode?: T;
+  language?: T;
+  folderRun?: T;
+  fileCount?: T;
+  codeHash?: T;
+  code?: T;
+  input?: T;
+  status?: T;
+  backend?: T;
+  exitCode?: T;
+  executionTime?: T;
+  stdout?: T;
+  stderr?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "redirects_select".
@@ -2141,6 +3055,27 @@ export interface PlatformSetting {
    * Maximum installments allowed per fee record (optional)
    */
   maxInstallmentsPerFee?: number | null;
+  /**
+   * Share of a live session (in %) a student must attend to count as present in attendance reports
+   */
+  minAttendancePercent?: number | null;
+  /**
+   * Code execution limits per user, by role. Roles without a row are not limited.
+   */
+  executionRateLimits?:
+    | {
+        role: 'admin' | 'manager' | 'trainer' | 'student' | 'guest';
+        /**
+         * Max code runs in any 60 seconds (empty = no limit)
+         */
+        runsPerMinute?: number | null;
+        /**
+         * Max code runs in any 24 hours (empty = no limit)
+         */
+        runsPerDay?: number | null;
+        id?: string | null;
+      }[]
+    | null;
   updatedAt?: string | null;
   createdAt?: string | null;
 }
@@ -2217,6 +3152,15 @@ export interface PlatformSettingsSelect<T extends boolean = true> {
   maintenanceMode?: T;
   allowAllStudentsDuringMaintenance?: T;
   maxInstallmentsPerFee?: T;
+  minAttendancePercent?: T;
+  executionRateLimits?:
+    | T
+    | {
+        role?: T;
+        runsPerMinute?: T;
+        runsPerDay?: T;
+        id?: T;
+      };
   updatedAt?: T;
   createdAt?: T;
   globalType?: T;
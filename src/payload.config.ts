@@ -4,14 +4,28 @@ import { buildConfig, PayloadRequest } from 'payload'
 import { fileURLToPath } from 'url'
 
 import { Categories } from './collections/Categories'
+import { Executions } from './collections/Executions'
 import { Fees } from './collections/Fees'
 import { Files } from './collections/Files'
 import { Folders } from './collections/Folders'
+import { HelpRequests } from './collections/HelpRequests'
+import { CodePushes } from './collections/CodePushes'
+import { CodePushResponses } from './collections/CodePushResponses'
+import { SessionPolls } from './collections/SessionPolls'
+import { SessionPollAnswers } from './collections/SessionPollAnswers'
+import { SessionMessages } from './collections/SessionMessages'
+import { SessionGroups } from './collections/SessionGroups'
+import { SessionAttendance } from './collections/SessionAttendance'
+import { SessionAdmissions } from './collections/SessionAdmissions'
+import { PasscodeAttempts } from './collections/PasscodeAttempts'
+import { Cohorts } from './collections/Cohorts'
 import { Languages } from './collections/Languages'
 import { LiveSessions } from './collections/LiveSessions'
 import { Media } from './collections/Media'
 import { Pages } from './collections/Pages'
 import { Posts } from './collections/Posts'
+import { SessionParticipants } from './collections/SessionParticipants'
+import { SessionSnapshots } from './collections/SessionSnapshots'
 import { Users } from './collections/Users'
 import { Footer } from './Footer/config'
 import { Header } from './Header/config'
@@ -20,6 +34,8 @@ import { plugins } from './plugins'
 import { defaultLexical } from '@/fields/defaultLexical'
 import { getServerSideURL } from './utilities/getURL'
 import { getDbAdapter } from './db/adapter'
+import { syncLanguagesCollection } from './services/languageSync'
+import { trackCommits } from './utilities/afterCommit'
 import type { User } from './payload-types'
 
 const filename = fileURLToPath(import.meta.url)
@@ -71,10 +87,46 @@ export default buildConfig({
   // This config helps us configure global or default features that the other editors can inherit
   editor: defaultLexical,
   db: getDbAdapter(),
-  collections: [Pages, Posts, Media, Categories, Users, Languages, LiveSessions, Folders, Files, Fees],
+  collections: [
+    Pages,
+    Posts,
+    Media,
+    Categories,
+    Users,
+    Languages,
+    LiveSessions,
+    SessionParticipants,
+    SessionSnapshots,
+    HelpRequests,
+    CodePushes,
+    CodePushResponses,
+    SessionPolls,
+    SessionPollAnswers,
+    SessionMessages,
+    SessionGroups,
+    SessionAttendance,
+    SessionAdmissions,
+    PasscodeAttempts,
+    Cohorts,
+    Folders,
+    Files,
+    Fees,
+    Executions,
+  ],
   cors: [getServerSideURL()].filter(Boolean),
   globals: [Header, Footer, PlatformSettings],
   plugins,
+  onInit: async (payload) => {
+    // Session events from collection hooks wait for their transaction to commit
+    trackCommits(payload.db)
+
+    // Keep the languages collection in step with the language registry
+    try {
+      await syncLanguagesCollection(payload)
+    } catch (error) {
+      payload.logger.error({ err: error, msg: '[LanguageSync] Failed to sync languages' })
+    }
+  },
   secret: process.env.PAYLOAD_SECRET,
   sharp,
   typescript: {
@@ -0,0 +1,313 @@
+// Attendance of students in live sessions (`session-attendance` collection).
+// Every join, leave and heartbeat is stored with its time; the reports work out
+// attended minutes, late arrival and early departure from them (see
+// utilities/attendanceReport). Students who joined before events were recorded
+// fall back to the join / leave times on their session-participants entry.
+
+import type { Payload, Where } from 'payload'
+
+import type { LiveSession, SessionParticipant, User } from '@/payload-types'
+import {
+  DEFAULT_MIN_ATTENDANCE_PERCENT,
+  HEARTBEAT_INTERVAL_MS,
+  summarizeAttendance,
+  type AttendanceEvent,
+  type AttendanceKind,
+  type AttendanceSummary,
+} from '@/utilities/attendanceReport'
+import { hostedSessionsWhere, isSessionHost } from '@/services/sessionHosts'
+import { idOf } from '@/utilities/idOf'
+
+type SessionId = LiveSession['id']
+type UserId = User['id']
+
+/** Most recent sessions shown in a student's report */
+export const MAX_STUDENT_REPORT_SESSIONS = 100
+
+export interface AttendanceStudent {
+  id: UserId
+  name: string
+  email: string
+}
+
+export interface AttendanceSessionInfo {
+  id: SessionId
+  title: string
+  joinCode: string
+  startedAt: string | null
+  endedAt: string | null
+  scheduledStart: string | null
+  timezone: string | null
+}
+
+export interface StudentAttendance extends AttendanceSummary {
+  meetsThreshold: boolean
+}
+
+export interface SessionAttendanceReport {
+  session: AttendanceSessionInfo
+  minAttendancePercent: number
+  students: Array<StudentAttendance & { student: AttendanceStudent }>
+}
+
+export interface StudentAttendanceReport {
+  student: AttendanceStudent
+  minAttendancePercent: number
+  sessions: Array<StudentAttendance & { session: AttendanceSessionInfo }>
+}
+
+export interface AttendanceSessionListItem extends AttendanceSessionInfo {
+  trainer: string | null
+  studentCount: number
+}
+
+export interface AttendanceSessionList {
+  docs: AttendanceSessionListItem[]
+  totalDocs: number
+  page: number
+  totalPages: number
+}
+
+export type ParsedMinAttendance =
+  | { ok: true; percent: number | null }
+  | { ok: false; error: string }
+
+type Viewer = Pick<User, 'id' | 'role'>
+
+/** Store one event; attendance is best effort and never fails the request it belongs to */
+export async function recordAttendance(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+  kind: AttendanceKind,
+  at: Date = new Date(),
+): Promise<void> {
+  try {
+    await payload.create({
+      collection: 'session-attendance',
+      data: { session: sessionId, user: userId, kind, at: at.toISOString() },
+      depth: 0,
+    })
+  } catch (error) {
+    console.error(`[Attendance] Failed to record ${kind} of user ${userId}:`, error)
+  }
+}
+
+/** Validate the `minAttendance` query parameter (null when it is not given) */
+export function parseMinAttendance(value: string | null): ParsedMinAttendance {
+  if (value === null || value.trim() === '') return { ok: true, percent: null }
+  const percent = Number(value)
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+    return { ok: false, error: 'minAttendance must be a percentage between 0 and 100' }
+  }
+  return { ok: true, percent }
+}
+
+/** Threshold from the platform settings (default 75%) */
+export async function getMinAttendancePercent(payload: Payload): Promise<number> {
+  try {
+    const settings = await payload.findGlobal({ slug: 'platform-settings', depth: 0 })
+    return settings.minAttendancePercent ?? DEFAULT_MIN_ATTENDANCE_PERCENT
+  } catch (error) {
+    console.error('[Attendance] Failed to read platform settings:', error)
+    return DEFAULT_MIN_ATTENDANCE_PERCENT
+  }
+}
+
+export function toAttendanceStudent(user: User): AttendanceStudent {
+  return { id: user.id, name: user.name || user.email || 'Anonymous', email: user.email }
+}
+
+export function toAttendanceSessionInfo(session: LiveSession): AttendanceSessionInfo {
+  return {
+    id: session.id,
+    title: session.title,
+    joinCode: session.joinCode,
+    startedAt: session.startedAt ?? null,
+    endedAt: session.endedAt ?? null,
+    scheduledStart: session.scheduledStart ?? null,
+    timezone: session.timezone ?? null,
+  }
+}
+
+/** Sessions that have started, newest first, limited to those the viewer hosts */
+export async function listAttendanceSessions(
+  payload: Payload,
+  viewer: Viewer,
+  { page, limit, search }: { page: number; limit: number; search?: string | null },
+): Promise<AttendanceSessionList> {
+  const hosted = hostedSessionsWhere(viewer)
+  const conditions: Where[] = [{ startedAt: { exists: true } }]
+  if (hosted) conditions.push(hosted)
+  if (search) {
+    conditions.push({
+      or: [{ title: { contains: search } }, { joinCode: { equals: search.toUpperCase() } }],
+    })
+  }
+
+  const sessions = await payload.find({
+    collection: 'live-sessions',
+    where: { and: conditions },
+    sort: '-startedAt',
+    page,
+    limit,
+    depth: 1,
+  })
+
+  const counts = new Map<SessionId, number>()
+  const ids = sessions.docs.map((session) => session.id)
+  if (ids.length > 0) {
+    const participants = await payload.find({
+      collection: 'session-participants',
+      where: { session: { in: ids } },
+      select: { session: true },
+      pagination: false,
+      depth: 0,
+    })
+    for (const participant of participants.docs) {
+      const id = idOf(participant.session)
+      counts.set(id, (counts.get(id) ?? 0) + 1)
+    }
+  }
+
+  return {
+    docs: sessions.docs.map((session) => ({
+      ...toAttendanceSessionInfo(session),
+      trainer:
+        typeof session.trainer === 'object' && session.trainer
+          ? session.trainer.name || session.trainer.email
+          : null,
+      studentCount: counts.get(session.id) ?? 0,
+    })),
+    totalDocs: sessions.totalDocs,
+    page: sessions.page ?? page,
+    totalPages: sessions.totalPages,
+  }
+}
+
+/**
+ * Events for students without recorded ones. Their participant entry only says when
+ * they last joined and left, so they count as present throughout.
+ */
+function fallbackEvents(participant: SessionParticipant): AttendanceEvent[] {
+  const from = Date.parse(participant.joinedAt)
+  const to = Date.parse(participant.leftAt ?? participant.lastSeenAt ?? participant.joinedAt)
+  const events: AttendanceEvent[] = [{ kind: 'join', at: participant.joinedAt }]
+  for (let time = from + HEARTBEAT_INTERVAL_MS; time < to; time += HEARTBEAT_INTERVAL_MS) {
+    events.push({ kind: 'heartbeat', at: new Date(time).toISOString() })
+  }
+  events.push({ kind: 'leave', at: new Date(Math.max(from, to)).toISOString() })
+  return events
+}
+
+function attendanceOf(
+  session: LiveSession,
+  events: AttendanceEvent[],
+  minAttendancePercent: number,
+  now: Date,
+): StudentAttendance | null {
+  if (!session.startedAt) return null
+  const summary = summarizeAttendance(
+    events,
+    {
+      startedAt: session.startedAt,
+      endedAt: session.isActive ? null : (session.endedAt ?? null),
+      scheduledStart: session.scheduledStart,
+    },
+    now,
+  )
+  return { ...summary, meetsThreshold: summary.percent >= minAttendancePercent }
+}
+
+async function findEvents(
+  payload: Payload,
+  sessionIds: SessionId[],
+  userId: UserId | null,
+): Promise<Map<string, AttendanceEvent[]>> {
+  const byKey = new Map<string, AttendanceEvent[]>()
+  if (sessionIds.length === 0) return byKey
+
+  const result = await payload.find({
+    collection: 'session-attendance',
+    where: {
+      and: [
+        { session: { in: sessionIds } },
+        ...(userId === null ? [] : [{ user: { equals: userId } }]),
+      ],
+    },
+    select: { session: true, user: true, kind: true, at: true },
+    sort: 'at',
+    pagination: false,
+    depth: 0,
+  })
+  for (const event of result.docs) {
+    const key = `${idOf(event.session)}:${idOf(event.user)}`
+    const list = byKey.get(key) ?? []
+    list.push({ kind: event.kind, at: event.at })
+    byKey.set(key, list)
+  }
+  return byKey
+}
+
+/** Every student who joined the session, by name */
+export async function getSessionAttendance(
+  payload: Payload,
+  session: LiveSession,
+  minAttendancePercent: number,
+  now: Date = new Date(),
+): Promise<SessionAttendanceReport> {
+  const participants = await payload.find({
+    collection: 'session-participants',
+    where: { session: { equals: session.id } },
+    pagination: false,
+    depth: 1,
+  })
+  const events = await findEvents(payload, [session.id], null)
+
+  const students: SessionAttendanceReport['students'] = []
+  for (const participant of participants.docs) {
+    if (typeof participant.user !== 'object' || participant.user.role !== 'student') continue
+    const own = events.get(`${session.id}:${participant.user.id}`) ?? fallbackEvents(participant)
+    const attendance = attendanceOf(session, own, minAttendancePercent, now)
+    if (attendance) students.push({ student: toAttendanceStudent(participant.user), ...attendance })
+  }
+  students.sort((a, b) => a.student.name.localeCompare(b.student.name))
+
+  return { session: toAttendanceSessionInfo(session), minAttendancePercent, students }
+}
+
+/** The student's most recent sessions, limited to those the viewer hosts */
+export async function getStudentAttendance(
+  payload: Payload,
+  student: User,
+  viewer: Viewer,
+  minAttendancePercent: number,
+  now: Date = new Date(),
+): Promise<StudentAttendanceReport> {
+  const participants = await payload.find({
+    collection: 'session-participants',
+    where: { user: { equals: student.id } },
+    sort: '-joinedAt',
+    limit: MAX_STUDENT_REPORT_SESSIONS,
+    depth: 1,
+  })
+  const visible = participants.docs.filter(
+    (participant): participant is SessionParticipant & { session: LiveSession } =>
+      typeof participant.session === 'object' && isSessionHost(participant.session, viewer),
+  )
+  const events = await findEvents(
+    payload,
+    visible.map((participant) => participant.session.id),
+    student.id,
+  )
+
+  const sessions: StudentAttendanceReport['sessions'] = []
+  for (const participant of visible) {
+    const session = participant.session
+    const own = events.get(`${session.id}:${student.id}`) ?? fallbackEvents(participant)
+    const attendance = attendanceOf(session, own, minAttendancePercent, now)
+    if (attendance) sessions.push({ session: toAttendanceSessionInfo(session), ...attendance })
+  }
+
+  return { student: toAttendanceStudent(student), minAttendancePercent, sessions }
+}
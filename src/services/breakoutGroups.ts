@@ -0,0 +1,474 @@
+// Breakout groups during live sessions (`session-groups` collection).
+// The trainer splits the present participants into named groups, randomly or
+// by hand. Each group shares one scratchpad and can get its own code from the
+// trainer. Starting a new breakout closes the previous one; closing every open
+// group brings everyone back to the main broadcast. A student is in at most
+// one open group at a time.
+
+import type { Payload } from 'payload'
+
+import type { LiveSession, SessionGroup, User } from '@/payload-types'
+import { listParticipants } from '@/services/sessionParticipants'
+import { runExclusive } from '@/utilities/keyedQueue'
+import { idOf } from '@/utilities/idOf'
+
+type SessionId = LiveSession['id']
+type UserId = User['id']
+
+export const MAX_GROUPS = 20
+export const MAX_GROUP_NAME_LENGTH = 60
+export const MAX_GROUP_CODE_LENGTH = 100_000
+
+export type BreakoutInput =
+  | { mode: 'random'; groupCount: number }
+  | { mode: 'random'; groupSize: number }
+  | { mode: 'manual'; groups: Array<{ name: string | null; memberIds: UserId[] }> }
+
+export interface GroupCode {
+  code: string
+  language: string | null
+}
+
+export interface GroupMember {
+  id: UserId
+  name: string
+}
+
+export interface GroupItem {
+  id: SessionGroup['id']
+  name: string
+  members: GroupMember[]
+  code: string
+  language: string | null
+  codeUpdatedAt: string | null
+  codeUpdatedBy: GroupMember | null
+  /** Latest code the trainer sent to this group */
+  broadcast: { code: string; language: string | null; sentAt: string } | null
+}
+
+export type ParsedBreakoutInput = { ok: true; input: BreakoutInput } | { ok: false; error: string }
+
+/** A scratchpad save, with the saved version (`codeUpdatedAt`) the edit was made on */
+export interface ScratchpadEdit extends GroupCode {
+  baseUpdatedAt: string | null
+}
+
+export type ParsedGroupCode = { ok: true; input: GroupCode } | { ok: false; error: string }
+
+export type ParsedScratchpadEdit =
+  | { ok: true; input: ScratchpadEdit }
+  | { ok: false; error: string }
+
+export type GroupsResult =
+  | { ok: true; groups: SessionGroup[] }
+  | { ok: false; status: number; error: string }
+
+export type GroupActionResult =
+  | { ok: true; group: SessionGroup }
+  | { ok: false; status: number; error: string }
+
+/** A stale scratchpad save also gets the newer scratchpad it would have overwritten */
+export type ScratchpadResult =
+  | GroupActionResult
+  | { ok: false; status: 409; error: string; latest: SessionGroup }
+
+export const memberIdsOf = (group: SessionGroup): UserId[] =>
+  (group.members ?? []).map((member) => idOf(member))
+
+const isWholeNumber = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+
+function parseName(value: unknown): string | null | false {
+  if (value == null) return null
+  if (typeof value !== 'string') return false
+  const name = value.trim()
+  if (name.length > MAX_GROUP_NAME_LENGTH) return false
+  return name || null
+}
+
+/** Validate a start-breakout request body */
+export function parseBreakoutInput(body: unknown): ParsedBreakoutInput {
+  const data = (body ?? {}) as Record<string, unknown>
+
+  if (data.mode === 'random') {
+    if (data.groupCount != null) {
+      if (!isWholeNumber(data.groupCount, 1, MAX_GROUPS)) {
+        return { ok: false, error: `groupCount must be a whole number from 1 to ${MAX_GROUPS}` }
+      }
+      return { ok: true, input: { mode: 'random', groupCount: data.groupCount } }
+    }
+    if (!isWholeNumber(data.groupSize, 1, Number.MAX_SAFE_INTEGER)) {
+      return { ok: false, error: 'groupCount or groupSize (a positive whole number) is required' }
+    }
+    return { ok: true, input: { mode: 'random', groupSize: data.groupSize } }
+  }
+
+  if (data.mode === 'manual') {
+    const groups = Array.isArray(data.groups) ? data.groups : []
+    if (groups.length === 0 || groups.length > MAX_GROUPS) {
+      return { ok: false, error: `groups must list 1 to ${MAX_GROUPS} groups` }
+    }
+    const parsed: Array<{ name: string | null; memberIds: UserId[] }> = []
+    for (const group of groups as Array<Record<string, unknown>>) {
+      const name = parseName(group?.name)
+      if (name === false) {
+        return {
+          ok: false,
+          error: `Group names must be text of at most ${MAX_GROUP_NAME_LENGTH} characters`,
+        }
+      }
+      const memberIds = group?.memberIds
+      if (
+        !Array.isArray(memberIds) ||
+        memberIds.length === 0 ||
+        !memberIds.every((id) => Number.isInteger(id))
+      ) {
+        return { ok: false, error: 'Every group needs memberIds (a list of user ids)' }
+      }
+      parsed.push({ name, memberIds: memberIds as UserId[] })
+    }
+    return { ok: true, input: { mode: 'manual', groups: parsed } }
+  }
+
+  return { ok: false, error: 'mode must be one of: random, manual' }
+}
+
+/** Validate a scratchpad or group broadcast request body */
+export function parseGroupCode(body: unknown): ParsedGroupCode {
+  const data = (body ?? {}) as Record<string, unknown>
+  if (typeof data.code !== 'string') return { ok: false, error: 'code is required' }
+  if (data.code.length > MAX_GROUP_CODE_LENGTH) {
+    return { ok: false, error: `code is too long (${MAX_GROUP_CODE_LENGTH} characters max)` }
+  }
+  return {
+    ok: true,
+    input: {
+      code: data.code,
+      language: typeof data.language === 'string' && data.language ? data.language : null,
+    },
+  }
+}
+
+/** Validate a scratchpad save: the code plus the `baseUpdatedAt` it was edited from */
+export function parseScratchpadEdit(body: unknown): ParsedScratchpadEdit {
+  const parsed = parseGroupCode(body)
+  if (!parsed.ok) return parsed
+  const { baseUpdatedAt } = (body ?? {}) as Record<string, unknown>
+  if (baseUpdatedAt !== null && typeof baseUpdatedAt !== 'string') {
+    return {
+      ok: false,
+      error: 'baseUpdatedAt is required (the codeUpdatedAt you edited from, null for a new pad)',
+    }
+  }
+  return { ok: true, input: { ...parsed.input, baseUpdatedAt } }
+}
+
+function sameTime(a: string | null | undefined, b: string | null): boolean {
+  if (!a || !b) return !a && !b
+  return new Date(a).getTime() === new Date(b).getTime()
+}
+
+/**
+ * Shuffle `items` and deal them round-robin into `groupCount` groups, so group
+ * sizes differ by at most one. Never returns empty groups.
+ */
+export function splitRandomly<T>(items: T[], groupCount: number, random = Math.random): T[][] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  const count = Math.max(1, Math.min(groupCount, shuffled.length))
+  const groups: T[][] = Array.from({ length: count }, () => [])
+  shuffled.forEach((item, index) => groups[index % count].push(item))
+  return groups.filter((group) => group.length > 0)
+}
+
+async function closeGroups(payload: Payload, groups: SessionGroup[], now: Date) {
+  for (const group of groups) {
+    await payload.update({
+      collection: 'session-groups',
+      id: group.id,
+      data: { closedAt: now.toISOString() },
+      depth: 0,
+    })
+  }
+}
+
+/** Open groups of the session, oldest first, with members populated */
+export async function listOpenGroups(
+  payload: Payload,
+  sessionId: SessionId,
+  depth = 1,
+): Promise<SessionGroup[]> {
+  const result = await payload.find({
+    collection: 'session-groups',
+    where: { and: [{ session: { equals: sessionId } }, { closedAt: { exists: false } }] },
+    sort: 'createdAt',
+    pagination: false,
+    depth,
+  })
+  return result.docs
+}
+
+/** The open group a user is in, if any */
+export async function findOpenGroupFor(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+): Promise<SessionGroup | null> {
+  const result = await payload.find({
+    collection: 'session-groups',
+    where: {
+      and: [
+        { session: { equals: sessionId } },
+        { closedAt: { exists: false } },
+        { members: { in: [userId] } },
+      ],
+    },
+    limit: 1,
+    depth: 1,
+  })
+  return result.docs[0] ?? null
+}
+
+async function presentUserIds(payload: Payload, sessionId: SessionId): Promise<Set<UserId>> {
+  const participants = await listParticipants(payload, sessionId)
+  return new Set(participants.map((participant) => idOf(participant.user)))
+}
+
+function checkMembers(memberIds: UserId[], present: Set<UserId>, taken: Set<UserId>) {
+  for (const id of memberIds) {
+    if (!present.has(id)) return `User ${id} is not in the session`
+    if (taken.has(id)) return `User ${id} is in more than one group`
+    taken.add(id)
+  }
+  return null
+}
+
+/** Close any open groups of the session, then split the participants into new ones */
+export function startBreakout(
+  payload: Payload,
+  sessionId: SessionId,
+  input: BreakoutInput,
+  now = new Date(),
+  random = Math.random,
+): Promise<GroupsResult> {
+  return runExclusive(`session-groups:${sessionId}`, async () => {
+    const present = await presentUserIds(payload, sessionId)
+
+    let groups: Array<{ name: string | null; memberIds: UserId[] }>
+    if (input.mode === 'random') {
+      if (present.size === 0) {
+        return { ok: false as const, status: 409, error: 'Nobody has joined the session yet' }
+      }
+      const count =
+        'groupCount' in input ? input.groupCount : Math.ceil(present.size / input.groupSize)
+      groups = splitRandomly([...present], count, random).map((memberIds) => ({
+        name: null,
+        memberIds,
+      }))
+    } else {
+      const taken = new Set<UserId>()
+      for (const group of input.groups) {
+        const error = checkMembers(group.memberIds, present, taken)
+        if (error) return { ok: false as const, status: 400, error }
+      }
+      groups = input.groups
+    }
+
+    await closeGroups(payload, await listOpenGroups(payload, sessionId, 0), now)
+
+    const created: SessionGroup[] = []
+    for (const [index, group] of groups.entries()) {
+      created.push(
+        await payload.create({
+          collection: 'session-groups',
+          data: {
+            session: sessionId,
+            name: group.name ?? `Group ${index + 1}`,
+            members: group.memberIds,
+            code: '',
+          },
+          depth: 1,
+        }),
+      )
+    }
+    return { ok: true as const, groups: created }
+  })
+}
+
+/** Close every open group of the session, bringing everyone back to the main broadcast */
+export function endBreakout(
+  payload: Payload,
+  sessionId: SessionId,
+  now = new Date(),
+): Promise<number> {
+  return runExclusive(`session-groups:${sessionId}`, async () => {
+    const open = await listOpenGroups(payload, sessionId, 0)
+    await closeGroups(payload, open, now)
+    return open.length
+  })
+}
+
+/**
+ * Rename a group or change its members. Students moved here leave the other
+ * open group they were in.
+ */
+export function updateGroup(
+  payload: Payload,
+  sessionId: SessionId,
+  groupId: SessionGroup['id'],
+  changes: { name?: unknown; memberIds?: unknown },
+): Promise<GroupActionResult> {
+  return runExclusive(`session-groups:${sessionId}`, async () => {
+    const data: { name?: string; members?: UserId[] } = {}
+
+    if (changes.name !== undefined) {
+      const name = parseName(changes.name)
+      if (!name) {
+        return {
+          ok: false as const,
+          status: 400,
+          error: `name must be 1 to ${MAX_GROUP_NAME_LENGTH} characters`,
+        }
+      }
+      data.name = name
+    }
+
+    if (changes.memberIds !== undefined) {
+      const memberIds = changes.memberIds
+      if (!Array.isArray(memberIds) || !memberIds.every((id) => Number.isInteger(id))) {
+        return { ok: false as const, status: 400, error: 'memberIds must be a list of user ids' }
+      }
+      const error = checkMembers(
+        memberIds,
+        await presentUserIds(payload, sessionId),
+        new Set<UserId>(),
+      )
+      if (error) return { ok: false as const, status: 400, error }
+      data.members = memberIds
+    }
+
+    const open = await listOpenGroups(payload, sessionId, 0)
+    if (!open.some((group) => group.id === groupId)) {
+      return { ok: false as const, status: 409, error: 'This breakout group has ended' }
+    }
+
+    if (data.members) {
+      const moved = new Set(data.members)
+      for (const other of open) {
+        if (other.id === groupId) continue
+        const kept = memberIdsOf(other).filter((id) => !moved.has(id))
+        if (kept.length === memberIdsOf(other).length) continue
+        await payload.update({
+          collection: 'session-groups',
+          id: other.id,
+          data: { members: kept },
+          depth: 0,
+        })
+      }
+    }
+
+    const group = await payload.update({
+      collection: 'session-groups',
+      id: groupId,
+      data,
+      depth: 1,
+    })
+    return { ok: true as const, group }
+  })
+}
+
+/**
+ * Save the shared scratchpad of a group. The edit must be based on the saved
+ * version (`baseUpdatedAt`); if another member saved since, nothing is written
+ * and the result carries their version so the editor can merge or reload.
+ */
+export async function saveGroupScratchpad(
+  payload: Payload,
+  group: SessionGroup,
+  editorId: UserId,
+  input: ScratchpadEdit,
+  now = new Date(),
+): Promise<ScratchpadResult> {
+  return runExclusive(`session-groups:${idOf(group.session)}`, async () => {
+    const current = await payload.findByID({
+      collection: 'session-groups',
+      id: group.id,
+      depth: 1,
+    })
+    if (current.closedAt) {
+      return { ok: false as const, status: 409, error: 'This breakout group has ended' }
+    }
+    if (!sameTime(current.codeUpdatedAt, input.baseUpdatedAt)) {
+      return {
+        ok: false as const,
+        status: 409 as const,
+        error: 'Someone else in your group saved the scratchpad first',
+        latest: current,
+      }
+    }
+    const updated = await payload.update({
+      collection: 'session-groups',
+      id: group.id,
+      data: {
+        code: input.code,
+        language: input.language,
+        codeUpdatedAt: now.toISOString(),
+        codeUpdatedBy: editorId,
+      },
+      depth: 1,
+    })
+    return { ok: true as const, group: updated }
+  })
+}
+
+/** Send the trainer's code to one group only */
+export async function broadcastToGroup(
+  payload: Payload,
+  group: SessionGroup,
+  input: GroupCode,
+  now = new Date(),
+): Promise<GroupActionResult> {
+  if (group.closedAt) {
+    return { ok: false, status: 409, error: 'This breakout group has ended' }
+  }
+  const updated = await payload.update({
+    collection: 'session-groups',
+    id: group.id,
+    data: {
+      broadcastCode: input.code,
+      broadcastLanguage: input.language,
+      broadcastAt: now.toISOString(),
+    },
+    depth: 1,
+  })
+  return { ok: true, group: updated }
+}
+
+function toMember(user: User | UserId): GroupMember {
+  if (typeof user !== 'object') return { id: user, name: 'Anonymous' }
+  return { id: user.id, name: user.name || user.email || 'Anonymous' }
+}
+
+/** API shape of a group (members populated with depth 1) */
+export function toGroupItem(group: SessionGroup): GroupItem {
+  return {
+    id: group.id,
+    name: group.name,
+    members: (group.members ?? []).map(toMember),
+    code: group.code ?? '',
+    language: group.language || null,
+    codeUpdatedAt: group.codeUpdatedAt || null,
+    codeUpdatedBy: group.codeUpdatedBy ? toMember(group.codeUpdatedBy) : null,
+    broadcast:
+      group.broadcastAt && group.broadcastCode != null
+        ? {
+            code: group.broadcastCode,
+            language: group.broadcastLanguage || null,
+            sentAt: group.broadcastAt,
+          }
+        : null,
+  }
+}
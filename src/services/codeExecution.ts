@@ -1,5 +1,8 @@
-// Code Execution Service using OneCompiler API
-// https://onecompiler.com
+// Code Execution Service
+// Runs code through /api/execute (OneCompiler or the local sandbox, per language)
+
+import { normalizeExecutionResult, type RawExecutionOutput } from '@/services/execution/resultNormalizers'
+import { LANGUAGES } from '@/utilities/languageRegistry'
 
 export interface ExecutionResult {
   stdout: string
@@ -7,23 +10,80 @@ export interface ExecutionResult {
   status: 'success' | 'runtime_error' | 'compilation_error' | 'timeout' | 'error'
   executionTime?: number
   memory?: number
+  /** Process exit code; unset when the backend does not report one (OneCompiler) */
   exitCode?: number
-}
-
-interface OneCompilerResponse {
-  stdout?: string
-  stderr?: string
-  exception?: string
-  status?: string
-  executionTime?: number
-  memory?: number
+  /** Signal that terminated the program, e.g. SIGKILL */
+  signal?: string
+  /** Which limit stopped the program, if any */
+  limitExceeded?: 'time' | 'memory' | 'output'
 }
 
 // Use our Next.js API route to avoid CORS issues
 const EXECUTION_API = '/api/execute'
+const EXECUTION_STREAM_API = '/api/execute/stream'
+const EXECUTION_STOP_API = '/api/execute/stop'
+const EXECUTION_INPUT_API = '/api/execute/input'
+
+/** What to run: editor code, or every file of a folder ("Run folder" mode) */
+export type ExecutionTarget =
+  | { code: string }
+  | { folderId: string | number; entryFileId: string | number }
+
+/** Where a run happened; stored with the run in the execution history */
+export interface ExecutionContext {
+  fileId?: string | number | null
+  sessionCode?: string | null
+}
+
+export interface StreamExecutionHandlers {
+  /** Called once the server has started the run (runId is needed to stop it) */
+  onStart?: (runId: string) => void
+  /** Called for each output chunk as it arrives */
+  onOutput?: (stream: 'stdout' | 'stderr', data: string) => void
+  /** Interactive runs: called once the program is running and accepts input */
+  onStdinReady?: () => void
+}
 
 /**
- * Execute code using OneCompiler (via our API proxy)
+ * POST a run request to /api/execute and normalise the response
+ */
+async function requestExecution(
+  language: string,
+  body: Record<string, unknown>,
+): Promise<ExecutionResult> {
+  try {
+    // Call our Next.js API route (which proxies to OneCompiler)
+    const response = await fetch(EXECUTION_API, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({ language, ...body }),
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }))
+      throw new Error(error.error || `API error: ${response.status}`)
+    }
+
+    const result: RawExecutionOutput = await response.json()
+    return normalizeExecutionResult(language, result)
+  } catch (error) {
+    console.error('Code execution failed:', error)
+
+    // Return error result instead of throwing
+    return {
+      stdout: '',
+      stderr: error instanceof Error ? error.message : 'Execution failed',
+      status: 'error',
+      exitCode: 1,
+    }
+  }
+}
+
+/**
+ * Execute code via our API route (OneCompiler proxy or local sandbox)
  * @param language - Programming language (javascript, python, c, cpp, java)
  * @param code - Source code to execute
  * @param input - Optional stdin input
@@ -33,57 +93,112 @@ export async function executeCode(
   language: string,
   code: string,
   input?: string,
+): Promise<ExecutionResult> {
+  return requestExecution(language, {
+    code,
+    input: input || '',
+  })
+}
+
+/**
+ * Execute every file of a workspace folder ("Run folder" mode).
+ * Files are read server-side, so unsaved editor changes must be saved first.
+ * @param language - Programming language of the entry file
+ * @param folderId - Root folder of the project; all nested files are included
+ * @param entryFileId - File to run (must be inside the folder)
+ * @param input - Optional stdin input
+ */
+export async function executeFolder(
+  language: string,
+  folderId: string | number,
+  entryFileId: string | number,
+  input?: string,
+): Promise<ExecutionResult> {
+  return requestExecution(language, {
+    folderId,
+    entryFileId,
+    input: input || '',
+  })
+}
+
+/**
+ * Execute code via the streaming API route (Server-Sent Events).
+ * Output is passed to `handlers.onOutput` as it is produced; the final result
+ * has the same shape as executeCode().
+ * @param language - Programming language
+ * @param target - Editor code or folder + entry file
+ * @param input - Optional stdin input
+ * @param handlers - Start/output callbacks
+ * @param context - Optional file/session the run belongs to (run history)
+ * @param options.interactive - Keep stdin open for sendExecutionInput() (local runner only)
+ */
+export async function executeCodeStream(
+  language: string,
+  target: ExecutionTarget,
+  input?: string,
+  handlers: StreamExecutionHandlers = {},
+  context: ExecutionContext = {},
+  options: { interactive?: boolean } = {},
 ): Promise<ExecutionResult> {
   try {
-    // Call our Next.js API route (which proxies to OneCompiler)
-    const response = await fetch(EXECUTION_API, {
+    const response = await fetch(EXECUTION_STREAM_API, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
       body: JSON.stringify({
         language,
-        code,
+        ...target,
         input: input || '',
+        ...context,
+        interactive: options.interactive === true,
       }),
     })
 
-    if (!response.ok) {
+    if (!response.ok || !response.body) {
       const error = await response.json().catch(() => ({ error: 'Unknown error' }))
       throw new Error(error.error || `API error: ${response.status}`)
     }
 
-    const result: OneCompilerResponse = await response.json()
-
-    // Determine status from the response
-    let status: ExecutionResult['status'] = 'success'
-    if (result.exception || result.stderr) {
-      // Check if it's a compilation error or runtime error
-      const errorMessage = result.exception || result.stderr || ''
-      if (
-        errorMessage.includes('SyntaxError') ||
-        errorMessage.includes('compilation') ||
-        errorMessage.includes('error:') ||
-        errorMessage.toLowerCase().includes('compile')
-      ) {
-        status = 'compilation_error'
-      } else {
-        status = 'runtime_error'
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let finalResult = null as RawExecutionOutput | null
+
+    const handleEvent = (rawEvent: string) => {
+      let event = 'message'
+      let data = ''
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim()
+        else if (line.startsWith('data:')) data += line.slice(5).trim()
       }
+      if (!data) return
+      const parsed = JSON.parse(data)
+      if (event === 'start') handlers.onStart?.(parsed.runId)
+      else if (event === 'output') handlers.onOutput?.(parsed.stream, parsed.data)
+      else if (event === 'stdin') handlers.onStdinReady?.()
+      else if (event === 'done') finalResult = parsed
+      else if (event === 'error') throw new Error(parsed.error || 'Execution failed')
     }
 
-    return {
-      stdout: result.stdout || '',
-      stderr: result.stderr || result.exception || '',
-      status,
-      executionTime: result.executionTime,
-      memory: result.memory,
-      exitCode: status === 'success' ? 0 : 1,
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        handleEvent(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        boundary = buffer.indexOf('\n\n')
+      }
+    }
+
+    if (!finalResult) {
+      throw new Error('Execution stream ended unexpectedly')
     }
+    return normalizeExecutionResult(language, finalResult)
   } catch (error) {
     console.error('Code execution failed:', error)
 
-    // Return error result instead of throwing
     return {
       stdout: '',
       stderr: error instanceof Error ? error.message : 'Execution failed',
@@ -93,11 +208,63 @@ export async function executeCode(
   }
 }
 
+/**
+ * Stop a streaming run on the server (kills the process on the local runner)
+ * @returns true when the run was still active
+ */
+export async function stopExecution(runId: string): Promise<boolean> {
+  try {
+    const response = await fetch(EXECUTION_STOP_API, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ runId }),
+    })
+    return response.ok
+  } catch (error) {
+    console.error('Failed to stop execution:', error)
+    return false
+  }
+}
+
+async function postExecutionInput(
+  runId: string,
+  input: { data?: string; eof?: boolean },
+): Promise<boolean> {
+  try {
+    const response = await fetch(EXECUTION_INPUT_API, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ runId, ...input }),
+    })
+    return response.ok
+  } catch (error) {
+    console.error('Failed to send execution input:', error)
+    return false
+  }
+}
+
+/**
+ * Type into an interactive run (include the trailing newline for line input)
+ * @returns false when the run finished or is not reading input
+ */
+export function sendExecutionInput(runId: string, data: string): Promise<boolean> {
+  return postExecutionInput(runId, { data })
+}
+
+/**
+ * Close stdin of an interactive run (Ctrl+D), e.g. for programs reading until EOF
+ */
+export function closeExecutionInput(runId: string): Promise<boolean> {
+  return postExecutionInput(runId, { eof: true })
+}
+
 /**
  * Get list of supported languages
  */
 export function getSupportedLanguages(): string[] {
-  return ['javascript', 'python', 'c', 'cpp', 'java']
+  return LANGUAGES.map((language) => language.id)
 }
 
 /**
@@ -0,0 +1,185 @@
+// Trainer code pushes (`code-pushes` collection). A push goes to one student or
+// to the whole class; each recipient answers it once from the accept prompt, so
+// nothing lands in their editor without their say. Answers are stored one per
+// student (`code-push-responses`), so a class answering together never collides.
+
+import type { Payload } from 'payload'
+
+import type { CodePush, CodePushResponse, LiveSession, User } from '@/payload-types'
+import { findParticipant } from '@/services/sessionParticipants'
+import { idOf } from '@/utilities/idOf'
+
+type SessionId = LiveSession['id']
+type UserId = User['id']
+
+export type CodePushAction = 'replaced' | 'merged' | 'saved' | 'dismissed'
+
+export const CODE_PUSH_ACTIONS: CodePushAction[] = ['replaced', 'merged', 'saved', 'dismissed']
+
+export type CodePushFields = Pick<CodePush, 'code'> &
+  Partial<Pick<CodePush, 'language' | 'fileName' | 'message'>> & {
+    /** Omit to push to the whole class */
+    recipientId?: UserId | null
+  }
+
+export interface CodePushItem {
+  id: CodePush['id']
+  code: string
+  language: string | null
+  fileName: string | null
+  message: string | null
+  sentBy: { id: UserId; name: string } | null
+  recipient: { id: UserId; name: string } | null
+  sentAt: string
+  /** How many students answered, by answer (staff view) */
+  responses: Record<CodePushAction, number>
+}
+
+export type CodePushResult =
+  | { ok: true; response: CodePushResponse }
+  | { ok: false; status: number; error: string }
+
+function userRef(user: CodePush['sentBy'] | CodePush['recipient']) {
+  if (user == null) return null
+  if (typeof user !== 'object') return { id: user, name: 'Unknown' }
+  return { id: user.id, name: user.name || user.email || 'Anonymous' }
+}
+
+export function isPushRecipient(push: CodePush, userId: UserId): boolean {
+  const recipient = idOf(push.recipient)
+  return recipient == null || recipient === userId
+}
+
+export function hasResponded(
+  push: CodePush,
+  userId: UserId,
+  responses: CodePushResponse[],
+): boolean {
+  return responses.some(
+    (response) => idOf(response.push) === push.id && idOf(response.user) === userId,
+  )
+}
+
+/** The push with its answers counted from `responses` (answers to any of the listed pushes) */
+export function toCodePushItem(push: CodePush, responses: CodePushResponse[] = []): CodePushItem {
+  const counts: Record<CodePushAction, number> = {
+    replaced: 0,
+    merged: 0,
+    saved: 0,
+    dismissed: 0,
+  }
+  for (const response of responses) {
+    if (idOf(response.push) === push.id) counts[response.action] += 1
+  }
+  return {
+    id: push.id,
+    code: push.code,
+    language: push.language || null,
+    fileName: push.fileName || null,
+    message: push.message || null,
+    sentBy: userRef(push.sentBy),
+    recipient: userRef(push.recipient),
+    sentAt: push.createdAt,
+    responses: counts,
+  }
+}
+
+export function pushCode(
+  payload: Payload,
+  sessionId: SessionId,
+  senderId: UserId,
+  fields: CodePushFields,
+): Promise<CodePush> {
+  return payload.create({
+    collection: 'code-pushes',
+    data: {
+      session: sessionId,
+      sentBy: senderId,
+      recipient: fields.recipientId ?? null,
+      code: fields.code,
+      language: fields.language || null,
+      fileName: fields.fileName || null,
+      message: fields.message || null,
+    },
+    depth: 0,
+  })
+}
+
+/** Pushes of the session, oldest first, with users populated */
+export async function listCodePushes(
+  payload: Payload,
+  sessionId: SessionId,
+  options: { limit?: number } = {},
+): Promise<CodePush[]> {
+  const result = await payload.find({
+    collection: 'code-pushes',
+    where: { session: { equals: sessionId } },
+    sort: '-createdAt',
+    limit: options.limit ?? 50,
+    depth: 1,
+  })
+  return result.docs.reverse()
+}
+
+/** Answers to the pushes; only the user's own when `userId` is given */
+export async function listPushResponses(
+  payload: Payload,
+  pushes: CodePush[],
+  userId: UserId | null = null,
+): Promise<CodePushResponse[]> {
+  if (pushes.length === 0) return []
+  const result = await payload.find({
+    collection: 'code-push-responses',
+    where: {
+      and: [
+        { push: { in: pushes.map((push) => push.id) } },
+        ...(userId == null ? [] : [{ user: { equals: userId } }]),
+      ],
+    },
+    pagination: false,
+    depth: 0,
+  })
+  return result.docs
+}
+
+/** Pushes the student still has to answer, oldest first */
+export function pendingPushesFor(
+  pushes: CodePush[],
+  userId: UserId,
+  responses: CodePushResponse[],
+): CodePush[] {
+  return pushes.filter(
+    (push) => isPushRecipient(push, userId) && !hasResponded(push, userId, responses),
+  )
+}
+
+/** Record a student's answer to a push; only students who are in the session can answer */
+export async function respondToPush(
+  payload: Payload,
+  push: CodePush,
+  userId: UserId,
+  action: CodePushAction,
+): Promise<CodePushResult> {
+  if (!isPushRecipient(push, userId)) {
+    return { ok: false, status: 404, error: 'Push not found' }
+  }
+  const participant = await findParticipant(payload, idOf(push.session), userId)
+  if (!participant || participant.leftAt) {
+    return { ok: false, status: 403, error: 'Join the session to answer pushes' }
+  }
+
+  try {
+    const response = await payload.create({
+      collection: 'code-push-responses',
+      data: { push: push.id, user: userId, action },
+      depth: 0,
+    })
+    return { ok: true, response }
+  } catch (error) {
+    // The student answered already (unique push + user)
+    if ((await listPushResponses(payload, [push], userId)).length > 0) {
+      return { ok: false, status: 409, error: 'You already answered this push' }
+    }
+    throw error
+  }
+}
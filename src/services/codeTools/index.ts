@@ -0,0 +1,89 @@
+/**
+ * Server-side formatting and lint used by `/api/format` and `/api/lint`.
+ *
+ * The tool for a language comes from the `formatter` and `linter` fields of
+ * its language registry entry: Prettier and the TypeScript compiler for
+ * JavaScript/TypeScript, the server's python3 (plus pyflakes, ruff or black
+ * when installed) for Python.
+ *
+ * @module services/codeTools
+ */
+
+import { getLanguage } from '@/utilities/languageRegistry'
+import { formatJavaScript, lintJavaScript } from './javascript'
+import { formatPython, lintPython } from './python'
+import type { CodeDiagnostic, CodeToolResult } from './types'
+
+export * from './types'
+
+/** Larger sources are rejected (413) */
+export const MAX_TOOL_SOURCE_BYTES = 200 * 1024
+
+/**
+ * Lint runs on every pause in typing and type-checking blocks the server while
+ * it runs, so it takes much smaller sources (about 500 lines) than formatting
+ */
+export const MAX_LINT_SOURCE_BYTES = 20 * 1024
+
+/** Lint requests per user per minute; typing nonstop sends about one a second */
+export const LINT_REQUESTS_PER_MINUTE = 60
+
+const LINT_WINDOW_MS = 60_000
+
+/** Lint request times in the last minute by user (this server process only) */
+const lintRequests = new Map<string | number, number[]>()
+
+function checkSource(code: string, maxBytes = MAX_TOOL_SOURCE_BYTES): CodeToolResult<null> {
+  if (Buffer.byteLength(code, 'utf8') > maxBytes) {
+    return { ok: false, status: 413, error: 'Code is too large to check' }
+  }
+  return { ok: true, value: null }
+}
+
+/** Count a lint request of `userId`; 429 once they sent LINT_REQUESTS_PER_MINUTE in the last minute */
+export function takeLintRequest(userId: string | number, now = Date.now()): CodeToolResult<null> {
+  for (const [key, times] of lintRequests) {
+    if (times[times.length - 1] <= now - LINT_WINDOW_MS) lintRequests.delete(key)
+  }
+  const recent = (lintRequests.get(userId) ?? []).filter((time) => time > now - LINT_WINDOW_MS)
+  if (recent.length >= LINT_REQUESTS_PER_MINUTE) {
+    lintRequests.set(userId, recent)
+    return { ok: false, status: 429, error: 'Too many checks, try again in a moment' }
+  }
+  recent.push(now)
+  lintRequests.set(userId, recent)
+  return { ok: true, value: null }
+}
+
+export async function formatCode(language: string, code: string): Promise<CodeToolResult<string>> {
+  const checked = checkSource(code)
+  if (!checked.ok) return checked
+
+  const definition = getLanguage(language)
+  switch (definition?.formatter) {
+    case 'prettier':
+      return formatJavaScript(code, definition.id === 'typescript')
+    case 'python':
+      return formatPython(code)
+    default:
+      return { ok: false, status: 501, error: `Formatting is not available for ${language}` }
+  }
+}
+
+export async function lintCode(
+  language: string,
+  code: string,
+): Promise<CodeToolResult<CodeDiagnostic[]>> {
+  const checked = checkSource(code, MAX_LINT_SOURCE_BYTES)
+  if (!checked.ok) return checked
+
+  const definition = getLanguage(language)
+  switch (definition?.linter) {
+    case 'typescript':
+      return { ok: true, value: lintJavaScript(code, definition.id === 'typescript') }
+    case 'python':
+      return lintPython(code)
+    default:
+      return { ok: false, status: 501, error: `Diagnostics are not available for ${language}` }
+  }
+}
@@ -0,0 +1,180 @@
+// JavaScript / TypeScript: Prettier for formatting, the TypeScript compiler for diagnostics
+// The program is built in memory around a single file; parsed lib files are cached per process.
+
+import { format } from 'prettier'
+import ts from 'typescript'
+
+import type { CodeDiagnostic, CodeToolResult } from './types'
+
+const ROOT = '/__codehub__'
+const GLOBALS_FILE = `${ROOT}/globals.d.ts`
+
+// Student code runs on Node; declare its globals loosely instead of requiring @types/node
+const GLOBALS_SOURCE = `
+export {}
+declare global {
+  var require: any
+  var module: any
+  var exports: any
+  var process: any
+  var Buffer: any
+  var __dirname: string
+  var __filename: string
+}
+`
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+  // Module scope: top-level names like `name` or `status` don't clash with DOM globals
+  moduleDetection: ts.ModuleDetectionKind.Force,
+  allowJs: true,
+  checkJs: true,
+  strict: false,
+  noEmit: true,
+  noUnusedLocals: true,
+  noUnusedParameters: true,
+  skipLibCheck: true,
+  types: [],
+}
+
+/** Imports can't be resolved in a single-file check */
+const IGNORED_CODES = new Set([2307, 2792, 7016])
+
+/** Unused declarations: shown as warnings */
+const UNUSED_CODES = new Set([6133, 6138, 6192, 6196, 6198, 6199, 6205])
+
+/**
+ * Plain JavaScript has no types, so checkJs would flag valid dynamic code.
+ * Keep parse/grammar errors (codes below 2000) and these reliable checks.
+ */
+const JAVASCRIPT_CODES = new Set([
+  2304, // Cannot find name
+  2552, // Cannot find name; did you mean
+  2451, // Cannot redeclare block-scoped variable
+  2588, // Cannot assign to a constant
+  2448, // Block-scoped variable used before its declaration
+  ...UNUSED_CODES,
+])
+
+/** Type-checking stops after this long and only the syntax errors are reported */
+export const LINT_TIME_LIMIT_MS = 1_000
+
+const libCache = new Map<string, ts.SourceFile>()
+
+/** Cancels the checker once `deadline` (ms since epoch) has passed */
+function deadlineToken(deadline: number): ts.CancellationToken {
+  return {
+    isCancellationRequested: () => Date.now() > deadline,
+    throwIfCancellationRequested: () => {
+      if (Date.now() > deadline) throw new ts.OperationCanceledException()
+    },
+  }
+}
+
+function semanticDiagnostics(
+  program: ts.Program,
+  file: ts.SourceFile,
+  deadline: number,
+): readonly ts.Diagnostic[] {
+  try {
+    return program.getSemanticDiagnostics(file, deadlineToken(deadline))
+  } catch (error) {
+    if (error instanceof ts.OperationCanceledException) return []
+    throw error
+  }
+}
+
+function createHost(fileName: string, code: string): ts.CompilerHost {
+  const host = ts.createCompilerHost(COMPILER_OPTIONS, true)
+  const readLib = host.getSourceFile.bind(host)
+
+  return {
+    ...host,
+    fileExists: (name) => name === fileName || name === GLOBALS_FILE || host.fileExists(name),
+    getSourceFile: (name, languageVersion, onError) => {
+      if (name === fileName) return ts.createSourceFile(name, code, languageVersion, true)
+      if (name === GLOBALS_FILE) return ts.createSourceFile(name, GLOBALS_SOURCE, languageVersion)
+      let sourceFile = libCache.get(name)
+      if (!sourceFile) {
+        sourceFile = readLib(name, languageVersion, onError)
+        if (sourceFile) libCache.set(name, sourceFile)
+      }
+      return sourceFile
+    },
+    writeFile: () => {},
+  }
+}
+
+function toDiagnostic(diagnostic: ts.Diagnostic, file: ts.SourceFile): CodeDiagnostic {
+  const start = diagnostic.start ?? 0
+  const startPosition = file.getLineAndCharacterOfPosition(start)
+  const endPosition = file.getLineAndCharacterOfPosition(start + (diagnostic.length ?? 0))
+  const severity = UNUSED_CODES.has(diagnostic.code)
+    ? 'warning'
+    : diagnostic.category === ts.DiagnosticCategory.Error
+      ? 'error'
+      : diagnostic.category === ts.DiagnosticCategory.Warning
+        ? 'warning'
+        : 'info'
+
+  return {
+    line: startPosition.line + 1,
+    column: startPosition.character + 1,
+    endLine: endPosition.line + 1,
+    endColumn: endPosition.character + 1,
+    severity,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    source: 'typescript',
+    code: `TS${diagnostic.code}`,
+  }
+}
+
+/**
+ * Type-check `code` as a single TypeScript or JavaScript file. Checks that take
+ * longer than `timeLimitMs` only report syntax errors.
+ */
+export function lintJavaScript(
+  code: string,
+  typescript: boolean,
+  timeLimitMs = LINT_TIME_LIMIT_MS,
+): CodeDiagnostic[] {
+  const deadline = Date.now() + timeLimitMs
+  const fileName = `${ROOT}/main.${typescript ? 'ts' : 'js'}`
+  const program = ts.createProgram({
+    rootNames: [fileName, GLOBALS_FILE],
+    options: COMPILER_OPTIONS,
+    host: createHost(fileName, code),
+  })
+  const file = program.getSourceFile(fileName)!
+
+  const syntactic = program.getSyntacticDiagnostics(file)
+  // Semantic checks on broken syntax mostly repeat the parse errors
+  const semantic = syntactic.length > 0 ? [] : semanticDiagnostics(program, file, deadline)
+
+  return [...syntactic, ...semantic]
+    .filter((diagnostic) => !IGNORED_CODES.has(diagnostic.code))
+    .filter(
+      (diagnostic) => typescript || diagnostic.code < 2000 || JAVASCRIPT_CODES.has(diagnostic.code),
+    )
+    .map((diagnostic) => toDiagnostic(diagnostic, file))
+}
+
+export async function formatJavaScript(
+  code: string,
+  typescript: boolean,
+): Promise<CodeToolResult<string>> {
+  try {
+    const formatted = await format(code, {
+      parser: typescript ? 'typescript' : 'babel',
+      tabWidth: 2,
+    })
+    return { ok: true, value: formatted }
+  } catch (error) {
+    // Prettier syntax errors include a code frame after the first line
+    const message = error instanceof Error ? error.message.split('\n')[0]! : String(error)
+    return { ok: false, status: 422, error: `Could not format: ${message}` }
+  }
+}
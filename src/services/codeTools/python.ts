@@ -0,0 +1,120 @@
+// Python: diagnostics from the server's python3 (compile() for syntax errors, plus
+// pyflakes when installed); formatting with ruff or black when one is installed.
+// The code is only parsed, never run.
+
+import { spawn, spawnSync } from 'child_process'
+
+import type { CodeDiagnostic, CodeToolResult } from './types'
+
+const TOOL_TIMEOUT_MS = 5_000
+
+// Reads the source on stdin and prints a JSON list of diagnostics
+const CHECK_SCRIPT = `
+import ast, json, sys
+source = sys.stdin.read()
+found = []
+try:
+    compile(source, "main.py", "exec", dont_inherit=True)
+except SyntaxError as error:
+    line = error.lineno or 1
+    column = error.offset or 1
+    found.append({
+        "line": line, "column": column,
+        "endLine": getattr(error, "end_lineno", None) or line,
+        "endColumn": getattr(error, "end_offset", None) or column + 1,
+        "severity": "error", "message": "%s: %s" % (type(error).__name__, error.msg),
+        "source": "python", "code": type(error).__name__,
+    })
+else:
+    try:
+        from pyflakes.checker import Checker
+    except ImportError:
+        Checker = None
+    if Checker is not None:
+        errors = ("UndefinedName", "UndefinedLocal", "UndefinedExport", "ReturnOutsideFunction")
+        for message in Checker(ast.parse(source), "main.py").messages:
+            kind = type(message).__name__
+            column = getattr(message, "col", 0) + 1
+            found.append({
+                "line": message.lineno, "column": column,
+                "endLine": message.lineno, "endColumn": column + 1,
+                "severity": "error" if kind in errors else "warning",
+                "message": message.message % message.message_args,
+                "source": "pyflakes", "code": kind,
+            })
+print(json.dumps(found))
+`
+
+interface ToolOutput {
+  exitCode: number | null
+  stdout: string
+  stderr: string
+}
+
+/** Run a tool with `input` on stdin; null when the command is not installed */
+function runTool(command: string, args: string[], input: string): Promise<ToolOutput | null> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args, { timeout: TOOL_TIMEOUT_MS })
+    let stdout = ''
+    let stderr = ''
+    child.stdout.on('data', (chunk: Buffer) => (stdout += chunk.toString('utf8')))
+    child.stderr.on('data', (chunk: Buffer) => (stderr += chunk.toString('utf8')))
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') resolve(null)
+      else resolve({ exitCode: null, stdout, stderr: stderr || error.message })
+    })
+    child.on('close', (exitCode) => resolve({ exitCode, stdout, stderr }))
+    child.stdin.on('error', () => {})
+    child.stdin.end(input)
+  })
+}
+
+const FORMATTERS: { command: string; args: string[] }[] = [
+  { command: 'ruff', args: ['format', '--stdin-filename', 'main.py', '-'] },
+  { command: 'black', args: ['--quiet', '-'] },
+]
+
+let installedFormatter: (typeof FORMATTERS)[number] | null | undefined
+
+function getInstalledFormatter() {
+  if (installedFormatter === undefined) {
+    installedFormatter =
+      FORMATTERS.find(
+        ({ command }) =>
+          spawnSync(command, ['--version'], { stdio: 'ignore', timeout: TOOL_TIMEOUT_MS })
+            .status === 0,
+      ) ?? null
+  }
+  return installedFormatter
+}
+
+export async function lintPython(code: string): Promise<CodeToolResult<CodeDiagnostic[]>> {
+  const output = await runTool('python3', ['-c', CHECK_SCRIPT], code)
+  if (!output) {
+    return { ok: false, status: 501, error: 'Python is not installed on the server' }
+  }
+  if (output.exitCode !== 0) {
+    console.error('[CodeTools] Python check failed:', output.stderr)
+    return { ok: false, status: 500, error: 'Python check failed' }
+  }
+  return { ok: true, value: JSON.parse(output.stdout) as CodeDiagnostic[] }
+}
+
+export async function formatPython(code: string): Promise<CodeToolResult<string>> {
+  const formatter = getInstalledFormatter()
+  if (!formatter) {
+    return {
+      ok: false,
+      status: 501,
+      error: 'No Python formatter is installed on the server (install ruff or black)',
+    }
+  }
+
+  const output = await runTool(formatter.command, formatter.args, code)
+  if (output?.exitCode === 0) {
+    return { ok: true, value: output.stdout }
+  }
+  // Both tools exit non-zero on syntax errors and explain why on stderr
+  const reason = output?.stderr.trim().split('\n').pop() || 'formatter failed'
+  return { ok: false, status: 422, error: `Could not format: ${reason}` }
+}
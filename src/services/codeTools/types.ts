@@ -0,0 +1,26 @@
+/**
+ * Shared types for server-side formatting and lint (`/api/format`, `/api/lint`).
+ * Client-safe: the editor imports CodeDiagnostic.
+ *
+ * @module services/codeTools/types
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info'
+
+/** One problem in the source; lines and columns start at 1 (Monaco convention) */
+export interface CodeDiagnostic {
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+  severity: DiagnosticSeverity
+  message: string
+  /** Tool that reported it, e.g. typescript, python, pyflakes */
+  source: string
+  /** Tool-specific rule or error code */
+  code?: string
+}
+
+export type CodeToolResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: number; error: string }
@@ -0,0 +1,68 @@
+// Editor Tools Service
+// Formats and checks code through /api/format and /api/lint (see services/codeTools)
+
+import type { CodeDiagnostic } from '@/services/codeTools/types'
+import { getLanguage } from '@/utilities/languageRegistry'
+
+export type { CodeDiagnostic } from '@/services/codeTools/types'
+
+const FORMAT_API = '/api/format'
+const LINT_API = '/api/lint'
+
+export function canFormat(language: string): boolean {
+  return !!getLanguage(language)?.formatter
+}
+
+export function canLint(language: string): boolean {
+  return !!getLanguage(language)?.linter
+}
+
+async function postCode(
+  url: string,
+  language: string,
+  code: string,
+  signal?: AbortSignal,
+): Promise<{ ok: true; data: any } | { ok: false; error: string }> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify({ language, code }),
+    signal,
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    return { ok: false, error: data.error || `Request failed (${response.status})` }
+  }
+  return { ok: true, data }
+}
+
+/**
+ * Format code on the server. Returns the formatted code or an error message.
+ */
+export async function formatCode(
+  language: string,
+  code: string,
+): Promise<{ ok: true; code: string } | { ok: false; error: string }> {
+  try {
+    const result = await postCode(FORMAT_API, language, code)
+    return result.ok ? { ok: true, code: result.data.code } : result
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Failed to format code' }
+  }
+}
+
+/**
+ * Check code on the server. Resolves to null when the check is unavailable
+ * (unsupported language, signed out, server error) so callers can stay quiet.
+ */
+export async function lintCode(
+  language: string,
+  code: string,
+  signal?: AbortSignal,
+): Promise<CodeDiagnostic[] | null> {
+  const result = await postCode(LINT_API, language, code, signal)
+  return result.ok ? (result.data.diagnostics as CodeDiagnostic[]) : null
+}
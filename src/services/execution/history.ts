@@ -0,0 +1,112 @@
+// Persists every /api/execute run in the `executions` collection ("Run history")
+
+import { createHash } from 'crypto'
+import type { Payload } from 'payload'
+
+import type { Execution, User } from '@/payload-types'
+import { isValidJoinCode } from '@/utilities/joinCode'
+import { normalizeExecutionResult } from './resultNormalizers'
+import type { BackendResponse, ExecutionRequest } from './types'
+
+/** Stored stdout/stderr/stdin are cut to this many characters */
+export const HISTORY_OUTPUT_LIMIT = 4000
+/** Stored entry file source is cut to this many characters */
+export const HISTORY_CODE_LIMIT = 100_000
+
+export interface ExecutionRecordInput {
+  /** Row written by reserveExecution before the run; a new row is created when absent */
+  reservationId?: Execution['id'] | null
+  userId?: User['id'] | null
+  /** Workspace file the client says it ran; only stored if it belongs to the user */
+  fileId?: string | number | null
+  sessionCode?: string | null
+  folderRun?: boolean
+  request: ExecutionRequest
+  /** Backend response, or the error thrown while running */
+  response: BackendResponse | { ok: false; error: string }
+}
+
+const truncate = (text: string | null | undefined, limit: number) => {
+  if (!text) return ''
+  return text.length > limit ? `${text.slice(0, limit)}\n[truncated]` : text
+}
+
+function hashFiles(request: ExecutionRequest): string {
+  const hash = createHash('sha256')
+  for (const file of request.files) {
+    hash.update(file.name).update('\0').update(file.content).update('\0')
+  }
+  return hash.digest('hex')
+}
+
+/**
+ * Store one run (fills in its reserved row). Never throws: history must not break code execution.
+ */
+export async function recordExecution(payload: Payload, input: ExecutionRecordInput): Promise<void> {
+  try {
+    const { request, response } = input
+
+    let fileId: number | null = null
+    if (input.fileId != null && input.userId != null) {
+      const files = await payload.find({
+        collection: 'files',
+        where: {
+          and: [{ id: { equals: input.fileId } }, { user: { equals: input.userId } }],
+        },
+        limit: 1,
+        depth: 0,
+      })
+      fileId = files.docs[0]?.id ?? null
+    }
+
+    const sessionCode =
+      input.sessionCode && isValidJoinCode(input.sessionCode) ? input.sessionCode.toUpperCase() : null
+
+    let result: {
+      status: 'success' | 'runtime_error' | 'compilation_error' | 'timeout' | 'error' | 'cancelled'
+      stdout: string
+      stderr: string
+      exitCode?: number | null
+      executionTime?: number | null
+      backend?: string | null
+    }
+    if (!response.ok) {
+      result = { status: 'error', stdout: '', stderr: response.error }
+    } else {
+      const output = response.output
+      const normalized = normalizeExecutionResult(request.language, output)
+      result = {
+        ...normalized,
+        status: output.cancelled ? 'cancelled' : normalized.status,
+        executionTime: output.executionTime ?? null,
+        backend: output.backend ?? null,
+      }
+    }
+
+    const data = {
+      user: input.userId ?? null,
+      file: fileId,
+      sessionCode,
+      language: request.language,
+      folderRun: input.folderRun ?? false,
+      fileCount: request.files.length,
+      codeHash: hashFiles(request),
+      code: truncate(request.files[0]?.content, HISTORY_CODE_LIMIT),
+      input: truncate(request.stdin, HISTORY_OUTPUT_LIMIT),
+      status: result.status,
+      backend: result.backend ?? null,
+      exitCode: result.exitCode ?? null,
+      executionTime: result.executionTime ?? null,
+      stdout: truncate(result.stdout, HISTORY_OUTPUT_LIMIT),
+      stderr: truncate(result.stderr, HISTORY_OUTPUT_LIMIT),
+    }
+
+    if (input.reservationId != null) {
+      await payload.update({ collection: 'executions', id: input.reservationId, data, depth: 0 })
+    } else {
+      await payload.create({ collection: 'executions', data, depth: 0 })
+    }
+  } catch (error) {
+    console.error('[Execution] Failed to record run history:', error)
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Server-side execution backends used by `/api/execute`.
+ *
+ * The backend for a language is chosen by the `executionBackend` field of its
+ * `languages` document. Languages without a document use DEFAULT_EXECUTION_BACKEND
+ * (default: onecompiler). When the chosen backend is not configured on this
+ * server (e.g. no ONE_COMPILER_KEY), the other backend is used if it can run
+ * the language, so classrooms without a key still work offline.
+ * Interactive runs always use a backend that can keep stdin open (the local runner).
+ *
+ * @module services/execution
+ */
+
+import type { Payload } from 'payload'
+
+import { localBackend } from './localBackend'
+import { oneCompilerBackend } from './oneCompilerBackend'
+import type { ExecutionBackend, ExecutionBackendId } from './types'
+
+export * from './types'
+export {
+  DEFAULT_LOCAL_LIMITS,
+  INTERACTIVE_WALL_TIME_MS,
+  runLocally,
+  type LocalRunnerLimits,
+} from './localBackend'
+export { collectProjectFiles, MAX_PROJECT_BYTES, MAX_PROJECT_FILES } from './projectFiles'
+export { buildExecutionRequest, isFolderRun, parseExecuteBody, type ExecuteBody } from './request'
+export { applyConfiguredLimits, resolveExecutionLimits, type ConfiguredLimits } from './limits'
+export {
+  attachRunStdin,
+  cancelRun,
+  MAX_INPUT_CHUNK_BYTES,
+  MAX_TYPED_INPUT_BYTES,
+  registerRun,
+  sendRunInput,
+  unregisterRun,
+  type RunInputResult,
+} from './runRegistry'
+export { createKeyPool, type KeyHealth, type KeyPool, type KeyStatus } from './keyPool'
+export { getOneCompilerKeyStatus } from './oneCompilerBackend'
+export { recordExecution, HISTORY_CODE_LIMIT, HISTORY_OUTPUT_LIMIT } from './history'
+export {
+  getClientIp,
+  getExecutionUsage,
+  getRoleLimits,
+  reserveExecution,
+  type ExecutionLimits,
+  type ExecutionQuotaRole,
+  type ExecutionUsage,
+} from './quota'
+
+const BACKENDS: Record<ExecutionBackendId, ExecutionBackend> = {
+  onecompiler: oneCompilerBackend,
+  local: localBackend,
+}
+
+export function isExecutionBackendId(value: unknown): value is ExecutionBackendId {
+  return typeof value === 'string' && Object.hasOwn(BACKENDS, value)
+}
+
+export function getExecutionBackend(id: ExecutionBackendId): ExecutionBackend {
+  return BACKENDS[id]
+}
+
+function getDefaultBackendId(): ExecutionBackendId {
+  const configured = process.env.DEFAULT_EXECUTION_BACKEND
+  return isExecutionBackendId(configured) ? configured : 'onecompiler'
+}
+
+/** Read the configured backend for a language slug from the `languages` collection */
+async function getConfiguredBackendId(
+  payload: Payload,
+  language: string,
+): Promise<ExecutionBackendId | null> {
+  try {
+    const langs = await payload.find({
+      collection: 'languages',
+      where: { slug: { equals: language.toLowerCase() } },
+      limit: 1,
+      depth: 0,
+    })
+    const configured = langs.docs[0]?.executionBackend
+    return isExecutionBackendId(configured) ? configured : null
+  } catch (error) {
+    // DB unavailable: fall back to the default backend rather than failing the run
+    console.error('[Execution] Failed to read language backend:', error)
+    return null
+  }
+}
+
+/**
+ * Backend for an interactive run (stdin typed while the program runs).
+ * Only the local runner keeps stdin open, whatever the language's configured backend.
+ */
+export function resolveInteractiveBackend(language: string): ExecutionBackend | null {
+  return (
+    Object.values(BACKENDS).find(
+      (backend) =>
+        backend.supportsInteractive && backend.isAvailable() && backend.supportsLanguage(language),
+    ) ?? null
+  )
+}
+
+/**
+ * Pick the backend that should run `language`.
+ */
+export async function resolveExecutionBackend(
+  payload: Payload,
+  language: string,
+): Promise<ExecutionBackend> {
+  const preferredId = (await getConfiguredBackendId(payload, language)) ?? getDefaultBackendId()
+  const preferred = BACKENDS[preferredId]
+  if (preferred.isAvailable() && preferred.supportsLanguage(language)) {
+    return preferred
+  }
+
+  const fallback = Object.values(BACKENDS).find(
+    (backend) =>
+      backend.id !== preferredId && backend.isAvailable() && backend.supportsLanguage(language),
+  )
+  if (fallback) {
+    console.log(`[Execution] Backend "${preferredId}" unavailable for ${language}, using "${fallback.id}"`)
+    return fallback
+  }
+
+  // Nothing usable: return the preferred backend so it reports its own error
+  return preferred
+}
@@ -0,0 +1,189 @@
+// Health-aware pool of API keys (OneCompiler / RapidAPI) with per-key circuit breaking
+// Keys that hit their quota (429), are rejected (401/403) or keep failing (5xx, network)
+// are benched for a cooldown; after it they get one trial run before being trusted again.
+// State is process-local, like runRegistry.
+
+/** Why a key failed; decides whether and how long it is benched */
+export type KeyFailureKind = 'quota' | 'auth' | 'error'
+
+export type KeyHealth = 'healthy' | 'benched' | 'probation'
+
+export interface KeyPoolOptions {
+  /** Consecutive errors (5xx, network) before a key is benched */
+  failureThreshold?: number
+  /** Bench time after repeated errors */
+  errorCooldownMs?: number
+  /** Bench time after a quota error when the response has no Retry-After */
+  quotaCooldownMs?: number
+  /** Bench time after the key was rejected (invalid or unsubscribed) */
+  authCooldownMs?: number
+  /** Clock, for tests */
+  now?: () => number
+}
+
+export interface KeyStatus {
+  /** Position in the configured list, starting at 1 */
+  index: number
+  /** Key prefix only; never the full secret */
+  maskedKey: string
+  health: KeyHealth
+  benchedUntil: string | null
+  consecutiveFailures: number
+  successes: number
+  failures: number
+  lastFailure: { kind: KeyFailureKind; status: number | null; message: string; at: string } | null
+  lastUsedAt: string | null
+}
+
+interface KeyState {
+  key: string
+  benchedUntil: number | null
+  /** Cooldown expired but no success since: the next failure benches it again */
+  probation: boolean
+  consecutiveFailures: number
+  successes: number
+  failures: number
+  lastFailure: { kind: KeyFailureKind; status: number | null; message: string; at: number } | null
+  lastUsedAt: number | null
+}
+
+export interface KeyPool {
+  /** Replace the configured keys; state of keys that stay is kept */
+  setKeys: (keys: string[]) => void
+  /** Random healthy key not in `exclude`, or null when every key is benched or excluded */
+  pick: (exclude?: ReadonlySet<string>) => string | null
+  reportSuccess: (key: string) => void
+  reportFailure: (
+    key: string,
+    failure: { kind: KeyFailureKind; status?: number | null; message: string; retryAfterMs?: number | null },
+  ) => void
+  /** When the first benched key comes back, or null if none is benched */
+  nextAvailableAt: () => number | null
+  status: () => KeyStatus[]
+}
+
+export const DEFAULT_KEY_POOL_OPTIONS: Required<Omit<KeyPoolOptions, 'now'>> = {
+  failureThreshold: 3,
+  errorCooldownMs: 60_000,
+  quotaCooldownMs: 15 * 60_000,
+  authCooldownMs: 60 * 60_000,
+}
+
+export function maskKey(key: string): string {
+  return key.slice(0, 6) + '...'
+}
+
+/** Map an HTTP status from the provider to a failure kind; null = not the key's fault (don't retry) */
+export function classifyKeyFailure(status: number): KeyFailureKind | null {
+  if (status === 429) return 'quota'
+  if (status === 401 || status === 403) return 'auth'
+  if (status >= 500) return 'error'
+  return null
+}
+
+export function createKeyPool(options: KeyPoolOptions = {}): KeyPool {
+  const config = { ...DEFAULT_KEY_POOL_OPTIONS, ...options }
+  const now = options.now ?? Date.now
+  let states: KeyState[] = []
+
+  const find = (key: string) => states.find((state) => state.key === key)
+
+  /** Clear expired benches; such keys go on probation */
+  const refresh = (state: KeyState) => {
+    if (state.benchedUntil != null && state.benchedUntil <= now()) {
+      state.benchedUntil = null
+      state.probation = true
+    }
+  }
+
+  const bench = (state: KeyState, ms: number) => {
+    state.benchedUntil = now() + ms
+    state.probation = false
+    console.warn(
+      `[KeyPool] Benching key ${maskKey(state.key)} for ${Math.round(ms / 1000)}s (${state.lastFailure?.message})`,
+    )
+  }
+
+  return {
+    setKeys(keys) {
+      states = keys.map(
+        (key) =>
+          find(key) ?? {
+            key,
+            benchedUntil: null,
+            probation: false,
+            consecutiveFailures: 0,
+            successes: 0,
+            failures: 0,
+            lastFailure: null,
+            lastUsedAt: null,
+          },
+      )
+    },
+
+    pick(exclude) {
+      const candidates = states.filter((state) => {
+        refresh(state)
+        return state.benchedUntil == null && !exclude?.has(state.key)
+      })
+      if (candidates.length === 0) return null
+      // Prefer trusted keys over ones still on probation
+      const trusted = candidates.filter((state) => !state.probation)
+      const pool = trusted.length > 0 ? trusted : candidates
+      const chosen = pool[Math.floor(Math.random() * pool.length)]!
+      chosen.lastUsedAt = now()
+      return chosen.key
+    },
+
+    reportSuccess(key) {
+      const state = find(key)
+      if (!state) return
+      refresh(state)
+      state.successes++
+      state.consecutiveFailures = 0
+      state.probation = false
+    },
+
+    reportFailure(key, { kind, status = null, message, retryAfterMs = null }) {
+      const state = find(key)
+      if (!state) return
+      refresh(state)
+      state.failures++
+      state.consecutiveFailures++
+      state.lastFailure = { kind, status, message, at: now() }
+
+      if (kind === 'quota') {
+        bench(state, retryAfterMs && retryAfterMs > 0 ? retryAfterMs : config.quotaCooldownMs)
+      } else if (kind === 'auth') {
+        bench(state, config.authCooldownMs)
+      } else if (state.probation || state.consecutiveFailures >= config.failureThreshold) {
+        bench(state, config.errorCooldownMs)
+      }
+    },
+
+    nextAvailableAt() {
+      const times = states
+        .map((state) => state.benchedUntil)
+        .filter((time): time is number => time != null && time > now())
+      return times.length > 0 ? Math.min(...times) : null
+    },
+
+    status() {
+      return states.map((state, index) => {
+        refresh(state)
+        const iso = (time: number | null) => (time == null ? null : new Date(time).toISOString())
+        return {
+          index: index + 1,
+          maskedKey: maskKey(state.key),
+          health: state.benchedUntil != null ? 'benched' : state.probation ? 'probation' : 'healthy',
+          benchedUntil: iso(state.benchedUntil),
+          consecutiveFailures: state.consecutiveFailures,
+          successes: state.successes,
+          failures: state.failures,
+          lastFailure: state.lastFailure && { ...state.lastFailure, at: iso(state.lastFailure.at)! },
+          lastUsedAt: iso(state.lastUsedAt),
+        }
+      })
+    },
+  }
+}
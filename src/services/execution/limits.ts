@@ -0,0 +1,90 @@
+// Resource limits for a run: language registry defaults, overridden by the
+// `languages.limits` fields, overridden by the live session's `executionLimits`
+// for the session's hosts and the students currently in it
+
+import type { Payload } from 'payload'
+
+import type { LiveSession, User } from '@/payload-types'
+import { isSessionHost } from '@/services/sessionHosts'
+import { findParticipant } from '@/services/sessionParticipants'
+import { getLanguageLimits, type LanguageLimits } from '@/utilities/languageRegistry'
+import { isValidJoinCode } from '@/utilities/joinCode'
+
+/** Stored shape of the `executionLimits` field group (empty fields are null) */
+export interface ConfiguredLimits {
+  cpuTimeSeconds?: number | null
+  wallTimeMs?: number | null
+  memoryMb?: number | null
+  maxOutputKb?: number | null
+}
+
+const isSet = (value: number | null | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0
+
+/** Apply the fields that are set in `configured` over `base` */
+export function applyConfiguredLimits(
+  base: LanguageLimits,
+  configured: ConfiguredLimits | null | undefined,
+): LanguageLimits {
+  if (!configured) return base
+  return {
+    cpuTimeSeconds: isSet(configured.cpuTimeSeconds)
+      ? configured.cpuTimeSeconds
+      : base.cpuTimeSeconds,
+    wallTimeMs: isSet(configured.wallTimeMs) ? configured.wallTimeMs : base.wallTimeMs,
+    memoryMb: isSet(configured.memoryMb) ? configured.memoryMb : base.memoryMb,
+    maxOutputBytes: isSet(configured.maxOutputKb)
+      ? configured.maxOutputKb * 1024
+      : base.maxOutputBytes,
+  }
+}
+
+type Runner = Pick<User, 'id' | 'role'>
+
+/** Hosts of the session and students who joined and have not left */
+async function isInSession(payload: Payload, session: LiveSession, user: Runner): Promise<boolean> {
+  if (isSessionHost(session, user)) return true
+  const participant = await findParticipant(payload, session.id, user.id)
+  return participant != null && participant.leftAt == null
+}
+
+/**
+ * Limits for a run of `language` by `user`, optionally inside the live session
+ * `sessionCode`. Anyone else naming the session gets the language limits.
+ * Falls back to the registry limits when the database can't be read.
+ */
+export async function resolveExecutionLimits(
+  payload: Payload,
+  language: string,
+  sessionCode?: string | null,
+  user?: Runner | null,
+): Promise<LanguageLimits> {
+  let limits = getLanguageLimits(language)
+
+  try {
+    const langs = await payload.find({
+      collection: 'languages',
+      where: { slug: { equals: language.toLowerCase() } },
+      limit: 1,
+      depth: 0,
+    })
+    limits = applyConfiguredLimits(limits, langs.docs[0]?.limits)
+
+    if (sessionCode && user && isValidJoinCode(sessionCode)) {
+      const sessions = await payload.find({
+        collection: 'live-sessions',
+        where: { joinCode: { equals: sessionCode.toUpperCase() } },
+        limit: 1,
+        depth: 0,
+      })
+      const session = sessions.docs[0]
+      if (session && (await isInSession(payload, session, user))) {
+        limits = applyConfiguredLimits(limits, session.executionLimits)
+      }
+    }
+  } catch (error) {
+    console.error('[Execution] Failed to read execution limits:', error)
+  }
+
+  return limits
+}
@@ -0,0 +1,563 @@
+/**
+ * Execution backend that runs programs on this server in a child process.
+ *
+ * Each run gets a fresh temp directory, a stripped environment and
+ * prlimit-enforced CPU time / address space / file size / process count limits,
+ * plus a wall-clock timeout. Programs run in new user, network, mount and PID
+ * namespaces (`unshare -rnpm`): the root is a read-only view of the system
+ * directories (SANDBOX_SYSTEM_DIRS), the work dir is the only writable path
+ * (`/work`), and every capability is dropped before the program starts. The app
+ * directory, home directories and other temp files are not visible. Killing the
+ * runner kills the PID namespace, so `setsid` or double forks cannot escape.
+ *
+ * Requires util-linux (`unshare`, `prlimit`, `setpriv`, `pivot_root`), unprivileged
+ * user namespaces and the language toolchains under SANDBOX_SYSTEM_DIRS
+ * (or LOCAL_RUNNER_READONLY_PATHS, colon-separated, for toolchains installed elsewhere).
+ * Set LOCAL_RUNNER_ALLOW_NETWORK=1 to give programs network access.
+ * When the server runs as root, programs run as LOCAL_RUNNER_UID / LOCAL_RUNNER_GID
+ * (default 65534, nobody): the kernel does not apply the process limit to root.
+ *
+ * @module services/execution/localBackend
+ */
+
+import { spawn, spawnSync } from 'child_process'
+import { chown, mkdir, mkdtemp, readdir, rm, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { getLanguageLimits } from '@/utilities/languageRegistry'
+
+import type {
+  BackendExecutionOutput,
+  ExecutionBackend,
+  ExecutionFile,
+  ExecutionOptions,
+} from './types'
+
+export interface LocalRunnerLimits {
+  /** CPU time per process in seconds (RLIMIT_CPU) */
+  cpuTimeSeconds: number
+  /** Wall-clock time in milliseconds before the process group is killed */
+  wallTimeMs: number
+  /** Memory available to the program in MB (RLIMIT_AS plus runtime headroom) */
+  memoryMb: number
+  /** Maximum bytes captured per stream before the program is killed */
+  maxOutputBytes: number
+  /** Maximum size of any file the program writes, in KB (RLIMIT_FSIZE) */
+  maxFileSizeKb: number
+  /** Processes and threads the program may run at once (RLIMIT_NPROC) */
+  maxProcesses: number
+}
+
+export const DEFAULT_LOCAL_LIMITS: LocalRunnerLimits = {
+  cpuTimeSeconds: 5,
+  wallTimeMs: 10_000,
+  memoryMb: 256,
+  maxOutputBytes: 64 * 1024,
+  maxFileSizeKb: 1024,
+  maxProcesses: 64,
+}
+
+/** Compilers are trusted, so they get generous limits (they still run in the sandbox) */
+const COMPILE_WALL_TIME_MS = 30_000
+const COMPILE_CPU_TIME_SECONDS = 20
+const COMPILE_MAX_PROCESSES = 256
+
+/** Mounted read-only inside the sandbox; nothing else from the host is visible */
+const SANDBOX_SYSTEM_DIRS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64', '/etc', '/opt']
+
+/** Where the work dir appears inside the sandbox */
+const SANDBOX_WORK_DIR = '/work'
+
+/**
+ * Runs as root of the new namespaces: builds the sandbox root in `$1/root`
+ * (read-only system dirs, the writable work dir, /dev nodes, /proc), pivots into
+ * it, drops every capability and execs the remaining arguments in /work.
+ */
+const SANDBOX_SETUP_SCRIPT = `set -e
+base=$1; shift
+root=$base/root
+mount -t tmpfs -o mode=755,size=1m tmpfs "$root"
+for dir in $SANDBOX_DIRS; do
+  if [ -L "$dir" ]; then
+    mkdir -p "$root$(dirname "$dir")"
+    ln -s "$(readlink "$dir")" "$root$dir"
+  elif [ -d "$dir" ]; then
+    mkdir -p "$root$dir"
+    mount --rbind "$dir" "$root$dir"
+    mount -o remount,bind,ro "$root$dir"
+  fi
+done
+mkdir -p "$root${SANDBOX_WORK_DIR}" "$root/tmp" "$root/dev" "$root/proc" "$root/.old"
+mount --bind "$base/work" "$root${SANDBOX_WORK_DIR}"
+for node in null zero random urandom; do
+  touch "$root/dev/$node"
+  mount --bind "/dev/$node" "$root/dev/$node"
+done
+mount -t proc proc "$root/proc"
+cd "$root"
+pivot_root . .old
+umount -l /.old
+rmdir /.old
+mount -o remount,bind,ro /
+cd ${SANDBOX_WORK_DIR}
+exec setpriv --bounding-set=-all --inh-caps=-all --no-new-privs -- "$@"`
+
+/** Upper bound on the wall time of interactive programs, whatever the configured limit */
+export const INTERACTIVE_WALL_TIME_MS = 5 * 60_000
+
+interface LocalRuntime {
+  /** Build argv for the compile step (file names are relative to the work dir) */
+  compile?: (fileNames: string[], entry: string) => string[]
+  /** Build argv for the run step */
+  run: (entry: string, limits: LocalRunnerLimits) => string[]
+  /** Address space the runtime reserves up front (MB), added on top of memoryMb */
+  addressSpaceOverheadMb?: number
+}
+
+const byExtension = (fileNames: string[], ...extensions: string[]) =>
+  fileNames.filter((name) => extensions.some((ext) => name.endsWith(ext)))
+
+/**
+ * Class to run for a Java entry file, with one directory per package level
+ * (com/acme/Main.java → com.acme.Main)
+ */
+export function javaMainClass(entry: string): string {
+  return entry
+    .replace(/\.java$/, '')
+    .split('/')
+    .filter((part) => part !== '' && part !== '.')
+    .join('.')
+}
+
+const nodeRuntime: LocalRuntime = {
+  run: (entry, limits) => ['node', `--max-old-space-size=${limits.memoryMb}`, entry],
+  // V8 reserves ~1GB of virtual memory for its code range at startup
+  addressSpaceOverheadMb: 1024,
+}
+
+const LOCAL_RUNTIMES: Record<string, LocalRuntime> = {
+  javascript: nodeRuntime,
+  nodejs: nodeRuntime,
+  python: { run: (entry) => ['python3', entry] },
+  python2: { run: (entry) => ['python2', entry] },
+  c: {
+    compile: (fileNames) => ['gcc', '-O2', '-o', 'main', ...byExtension(fileNames, '.c'), '-lm'],
+    run: () => ['./main'],
+  },
+  cpp: {
+    compile: (fileNames) => [
+      'g++',
+      '-O2',
+      '-o',
+      'main',
+      ...byExtension(fileNames, '.cpp', '.cc', '.cxx'),
+    ],
+    run: () => ['./main'],
+  },
+  java: {
+    compile: (fileNames) => ['javac', '-d', '.', ...byExtension(fileNames, '.java')],
+    run: (entry, limits) => [
+      'java',
+      `-Xmx${limits.memoryMb}m`,
+      '-XX:+UseSerialGC',
+      '-XX:CompressedClassSpaceSize=64m',
+      '-XX:ReservedCodeCacheSize=32m',
+      '-cp',
+      '.',
+      javaMainClass(entry),
+    ],
+    addressSpaceOverheadMb: 2048,
+  },
+  go: {
+    compile: (fileNames) => ['go', 'build', '-o', 'main', ...byExtension(fileNames, '.go')],
+    run: () => ['./main'],
+    addressSpaceOverheadMb: 512,
+  },
+  rust: {
+    compile: (_fileNames, entry) => ['rustc', '-O', '-o', 'main', entry],
+    run: () => ['./main'],
+  },
+  ruby: { run: (entry) => ['ruby', entry] },
+  php: { run: (entry) => ['php', entry] },
+  perl: { run: (entry) => ['perl', entry] },
+  lua: { run: (entry) => ['lua', entry] },
+  bash: { run: (entry) => ['bash', entry] },
+  shell: { run: (entry) => ['sh', entry] },
+}
+
+function commandExists(command: string, args: string[]): boolean {
+  try {
+    // Probe as the account programs run as (namespaces may be allowed for root only)
+    const options = { stdio: 'ignore', timeout: 5000, ...runnerAccount() } as const
+    return spawnSync(command, args, options).status === 0
+  } catch {
+    return false
+  }
+}
+
+let sandboxSupport: { prlimit: boolean; namespaces: boolean; stdbuf: boolean } | null = null
+
+/** Probe once for prlimit, unprivileged user/mount/PID/network namespaces and stdbuf */
+function getSandboxSupport() {
+  if (!sandboxSupport) {
+    sandboxSupport = {
+      prlimit: commandExists('prlimit', ['--version']) && commandExists('setpriv', ['--version']),
+      namespaces: commandExists('unshare', ['-rnpm', '--fork', '--kill-child', 'true']),
+      stdbuf: commandExists('stdbuf', ['--version']),
+    }
+    console.log('[LocalRunner] Sandbox support:', sandboxSupport)
+  }
+  return sandboxSupport
+}
+
+function networkAllowed(): boolean {
+  return process.env.LOCAL_RUNNER_ALLOW_NETWORK === '1'
+}
+
+/** Unprivileged account for programs when the server itself runs as root */
+function runnerAccount(): { uid: number; gid: number } | null {
+  if (process.getuid?.() !== 0) return null
+  const uid = Number(process.env.LOCAL_RUNNER_UID || 65534)
+  const gid = Number(process.env.LOCAL_RUNNER_GID || uid)
+  return { uid, gid }
+}
+
+function sandboxDirs(): string[] {
+  const extra = (process.env.LOCAL_RUNNER_READONLY_PATHS || '')
+    .split(':')
+    .filter((dir) => path.isAbsolute(dir))
+  return [...SANDBOX_SYSTEM_DIRS, ...extra]
+}
+
+/** Resolve a user-supplied file name inside the work dir, rejecting path traversal */
+function resolveInside(workDir: string, fileName: string): string | null {
+  const target = path.resolve(workDir, fileName)
+  if (target !== workDir && target.startsWith(workDir + path.sep)) return target
+  return null
+}
+
+async function writeSources(workDir: string, files: ExecutionFile[]): Promise<void> {
+  for (const file of files) {
+    const target = resolveInside(workDir, file.name)
+    if (!target) {
+      throw new Error(`Invalid file name: ${file.name}`)
+    }
+    await mkdir(path.dirname(target), { recursive: true })
+    await writeFile(target, file.content)
+  }
+}
+
+/** Hand the run directory to the runner account so the program can use its work dir */
+async function chownRunDir(baseDir: string, account: { uid: number; gid: number }): Promise<void> {
+  const entries = await readdir(baseDir, { recursive: true })
+  for (const entry of ['', ...entries]) {
+    await chown(path.join(baseDir, entry), account.uid, account.gid)
+  }
+}
+
+interface SpawnLimits {
+  cpuTimeSeconds: number
+  wallTimeMs: number
+  maxOutputBytes: number
+  maxFileSizeKb: number
+  maxProcesses: number
+  /** Omit to skip the address space limit */
+  addressSpaceMb?: number
+}
+
+interface ProcessResult {
+  stdout: string
+  stderr: string
+  exitCode: number | null
+  signal: string | null
+  timedOut: boolean
+  cancelled: boolean
+  durationMs: number
+}
+
+/**
+ * Minimal environment for user programs: no server secrets or DB URLs.
+ * (Cast because ProcessEnv is augmented with required app variables in environment.d.ts)
+ */
+function buildSandboxEnv(): NodeJS.ProcessEnv {
+  const env: Record<string, string> = {
+    PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+    HOME: SANDBOX_WORK_DIR,
+    TMPDIR: SANDBOX_WORK_DIR,
+    LANG: 'C.UTF-8',
+    // Stream Python output as it is printed (stdout is a pipe, not a terminal)
+    PYTHONUNBUFFERED: '1',
+    GOCACHE: path.posix.join(SANDBOX_WORK_DIR, '.gocache'),
+    // Read by SANDBOX_SETUP_SCRIPT (paths with spaces are not supported)
+    SANDBOX_DIRS: sandboxDirs().join(' '),
+  }
+  return env as NodeJS.ProcessEnv
+}
+
+/** Wrap argv with prlimit, then run it in the sandbox rooted at `baseDir` */
+function buildSandboxedCommand(
+  argv: string[],
+  baseDir: string,
+  limits: SpawnLimits,
+  interactive: boolean,
+): string[] {
+  const prlimitArgs = [
+    'prlimit',
+    `--cpu=${limits.cpuTimeSeconds}`,
+    `--fsize=${limits.maxFileSizeKb * 1024}`,
+    `--nproc=${limits.maxProcesses}`,
+  ]
+  if (limits.addressSpaceMb) {
+    prlimitArgs.push(`--as=${limits.addressSpaceMb * 1024 * 1024}`)
+  }
+  // Interactive prompts without a newline must reach the user before the program reads stdin
+  const program =
+    interactive && getSandboxSupport().stdbuf ? ['stdbuf', '-o0', '-e0', ...argv] : argv
+  const limited = [...prlimitArgs, '--', ...program]
+  return [
+    'unshare',
+    networkAllowed() ? '-rpm' : '-rnpm',
+    '--fork',
+    // The program is PID 1 of its namespace: when it dies, so does everything it started
+    '--kill-child',
+    'sh',
+    '-c',
+    SANDBOX_SETUP_SCRIPT,
+    'sandbox',
+    baseDir,
+    ...limited,
+  ]
+}
+
+function runProcess(
+  argv: string[],
+  baseDir: string,
+  stdin: string,
+  limits: SpawnLimits,
+  options: ExecutionOptions = {},
+): Promise<ProcessResult> {
+  const command = buildSandboxedCommand(argv, baseDir, limits, !!options.interactive)
+  const startedAt = Date.now()
+
+  return new Promise((resolve) => {
+    const child = spawn(command[0]!, command.slice(1), {
+      cwd: baseDir,
+      env: buildSandboxEnv(),
+      ...runnerAccount(),
+      // Own process group so the timeout can kill the runner (and with it the namespace)
+      detached: true,
+    })
+
+    let stdout = ''
+    let stderr = ''
+    let timedOut = false
+    let cancelled = false
+    let settled = false
+
+    const killGroup = () => {
+      try {
+        if (child.pid) process.kill(-child.pid, 'SIGKILL')
+      } catch {
+        // Process already exited
+      }
+    }
+
+    const timer = setTimeout(() => {
+      timedOut = true
+      killGroup()
+    }, limits.wallTimeMs)
+
+    const onAbort = () => {
+      cancelled = true
+      killGroup()
+    }
+    if (options.signal?.aborted) onAbort()
+    options.signal?.addEventListener('abort', onAbort)
+
+    const capture = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+      const current = stream === 'stdout' ? stdout : stderr
+      if (current.length >= limits.maxOutputBytes) return
+      let next = current + chunk.toString('utf8')
+      if (next.length >= limits.maxOutputBytes) {
+        next = next.slice(0, limits.maxOutputBytes) + '\n[output truncated]'
+        killGroup()
+      }
+      if (stream === 'stdout') stdout = next
+      else stderr = next
+      options.onOutput?.(stream, next.slice(current.length))
+    }
+
+    child.stdout.on('data', capture('stdout'))
+    child.stderr.on('data', capture('stderr'))
+
+    const finish = (exitCode: number | null, signal: string | null) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', onAbort)
+      resolve({
+        stdout,
+        stderr,
+        exitCode,
+        signal,
+        timedOut,
+        cancelled,
+        durationMs: Date.now() - startedAt,
+      })
+    }
+
+    child.on('error', (error) => {
+      stderr += error.message
+      finish(null, null)
+    })
+    child.on('close', (code, signal) => finish(code, signal))
+
+    // Programs that exit without reading stdin close the pipe early
+    child.stdin.on('error', () => {})
+    if (options.interactive) {
+      child.stdin.write(stdin)
+      options.onStdinReady?.({
+        write: (data) => {
+          if (child.stdin.writable) child.stdin.write(data)
+        },
+        end: () => child.stdin.end(),
+      })
+    } else {
+      child.stdin.end(stdin)
+    }
+  })
+}
+
+function toOutput(result: ProcessResult, phase: 'compile' | 'run'): BackendExecutionOutput {
+  const failed =
+    result.exitCode !== 0 || result.signal !== null || result.timedOut || result.cancelled
+  return {
+    stdout: result.stdout,
+    stderr: result.stderr,
+    exception: null,
+    status: failed ? 'failed' : 'success',
+    executionTime: result.durationMs,
+    exitCode: result.exitCode,
+    signal: result.signal,
+    timedOut: result.timedOut,
+    cancelled: result.cancelled,
+    phase,
+    backend: 'local',
+  }
+}
+
+/**
+ * Run source files with the local toolchain for `language`.
+ * The first file is the entry file. Compiler output is not streamed.
+ * Interactive runs keep stdin open; their wall time is the configured limit, capped
+ * at INTERACTIVE_WALL_TIME_MS.
+ */
+export async function runLocally(
+  language: string,
+  files: ExecutionFile[],
+  stdin: string,
+  limits: LocalRunnerLimits = DEFAULT_LOCAL_LIMITS,
+  options: ExecutionOptions = {},
+): Promise<BackendExecutionOutput> {
+  const runtime = LOCAL_RUNTIMES[language]
+  if (!runtime) {
+    throw new Error(`Language "${language}" is not supported by the local runner`)
+  }
+  const entry = files[0]?.name
+  if (!entry) {
+    throw new Error('No source files provided')
+  }
+
+  // <base>/work holds the sources (mounted at /work); <base>/root is the sandbox root
+  const baseDir = await mkdtemp(path.join(os.tmpdir(), 'codehub-run-'))
+  const workDir = path.join(baseDir, 'work')
+  try {
+    await mkdir(path.join(baseDir, 'root'))
+    await mkdir(workDir)
+    await writeSources(workDir, files)
+    const account = runnerAccount()
+    if (account) await chownRunDir(baseDir, account)
+
+    if (runtime.compile) {
+      const compiled = await runProcess(
+        runtime.compile(files.map((f) => f.name), entry),
+        baseDir,
+        '',
+        {
+          cpuTimeSeconds: COMPILE_CPU_TIME_SECONDS,
+          wallTimeMs: COMPILE_WALL_TIME_MS,
+          maxOutputBytes: limits.maxOutputBytes,
+          maxFileSizeKb: 64 * 1024,
+          maxProcesses: COMPILE_MAX_PROCESSES,
+        },
+        { signal: options.signal },
+      )
+      if (compiled.exitCode !== 0 || compiled.timedOut || compiled.cancelled) {
+        return toOutput(compiled, 'compile')
+      }
+    }
+
+    const result = await runProcess(runtime.run(entry, limits), baseDir, stdin, {
+      cpuTimeSeconds: limits.cpuTimeSeconds,
+      wallTimeMs: options.interactive
+        ? Math.min(limits.wallTimeMs, INTERACTIVE_WALL_TIME_MS)
+        : limits.wallTimeMs,
+      maxOutputBytes: limits.maxOutputBytes,
+      maxFileSizeKb: limits.maxFileSizeKb,
+      maxProcesses: limits.maxProcesses,
+      addressSpaceMb: limits.memoryMb + (runtime.addressSpaceOverheadMb ?? 0),
+    }, options)
+    return toOutput(result, 'run')
+  } finally {
+    await rm(baseDir, { recursive: true, force: true }).catch((error) => {
+      console.error('[LocalRunner] Failed to clean up work dir:', error)
+    })
+  }
+}
+
+export const localBackend: ExecutionBackend = {
+  id: 'local',
+
+  isAvailable: () => {
+    const support = getSandboxSupport()
+    return support.prlimit && support.namespaces
+  },
+
+  supportsLanguage: (language) => Object.hasOwn(LOCAL_RUNTIMES, language),
+
+  supportsStreaming: true,
+
+  supportsInteractive: true,
+
+  // Programs run on this server, so anonymous visitors may not use it
+  requiresSignIn: true,
+
+  execute: async ({ language, files, stdin, limits }, options) => {
+    if (!localBackend.supportsLanguage(language)) {
+      return {
+        ok: false,
+        status: 400,
+        error: `Language "${language}" is not supported by the local runner`,
+      }
+    }
+    try {
+      return {
+        ok: true,
+        output: await runLocally(
+          language,
+          files,
+          stdin,
+          { ...DEFAULT_LOCAL_LIMITS, ...(limits ?? getLanguageLimits(language)) },
+          options,
+        ),
+      }
+    } catch (error) {
+      console.error('[LocalRunner] Execution failed:', error)
+      return {
+        ok: false,
+        status: 500,
+        error: error instanceof Error ? error.message : 'Local execution failed',
+      }
+    }
+  },
+}
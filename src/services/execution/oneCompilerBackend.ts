@@ -0,0 +1,183 @@
+// Execution backend that proxies to OneCompiler via RapidAPI
+// https://rapidapi.com/onecompiler-onecompiler-default/api/onecompiler-apis
+
+import { getLanguage, getLanguageLimits } from '@/utilities/languageRegistry'
+import { classifyKeyFailure, createKeyPool, maskKey, type KeyStatus } from './keyPool'
+import type { BackendResponse, ExecutionBackend } from './types'
+
+// OneCompiler API via RapidAPI
+const ONECOMPILER_API = process.env.ONE_COMPILER_URL || 'https://onecompiler-apis.p.rapidapi.com/api/v1/run'
+const ONECOMPILER_HOST = process.env.ONE_COMPILER_HOST || 'onecompiler-apis.p.rapidapi.com'
+
+/** Parse ONE_COMPILER_KEY env: single key or comma-separated list → array of keys (trimmed, non-empty) */
+function getOneCompilerKeys(): string[] {
+  const raw = process.env.ONE_COMPILER_KEY || ''
+  if (!raw.trim()) return []
+  return raw.split(',').map((k) => k.trim()).filter(Boolean)
+}
+
+// Keys are picked at random among healthy ones; failing keys are benched (see keyPool)
+const keyPool = createKeyPool()
+
+/** Pool health for the admin status endpoint (keys are masked) */
+export function getOneCompilerKeyStatus(): KeyStatus[] {
+  keyPool.setKeys(getOneCompilerKeys())
+  return keyPool.status()
+}
+
+// OneCompiler applies its own CPU and memory limits; we bound wall time and output size.
+// Wall time gets extra headroom for the round trip and the provider's queue.
+const NETWORK_GRACE_MS = 5_000
+
+/** Cut a stream to `maxBytes` like the local runner does */
+function truncateOutput(text: string | null | undefined, maxBytes: number): string {
+  if (!text) return ''
+  return text.length > maxBytes ? text.slice(0, maxBytes) + '\n[output truncated]' : text
+}
+
+/** Retry-After header (seconds or HTTP date) → milliseconds */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return seconds * 1000
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : date - Date.now()
+}
+
+export const oneCompilerBackend: ExecutionBackend = {
+  id: 'onecompiler',
+
+  isAvailable: () => getOneCompilerKeys().length > 0,
+
+  // Unknown IDs are passed through to OneCompiler as-is
+  supportsLanguage: () => true,
+
+  // OneCompiler returns the full output at once; aborting only stops waiting for it
+  supportsStreaming: false,
+
+  // Stdin is sent with the request
+  supportsInteractive: false,
+
+  requiresSignIn: false,
+
+  execute: async ({ language, files, stdin, limits: requestLimits }, options = {}) => {
+    const apiKeys = getOneCompilerKeys()
+    if (apiKeys.length === 0) {
+      return {
+        ok: false,
+        status: 500,
+        error: 'ONE_COMPILER_KEY not configured. Please add it to your .env file.',
+      }
+    }
+
+    const oneCompilerLang = getLanguage(language)?.oneCompilerId || language
+    keyPool.setKeys(apiKeys)
+
+    // One deadline for the whole run: a program that timed out on one key would time out on the next
+    const limits = requestLimits ?? getLanguageLimits(language)
+    const deadline = AbortSignal.timeout(limits.wallTimeMs + NETWORK_GRACE_MS)
+    const signal = options.signal ? AbortSignal.any([options.signal, deadline]) : deadline
+
+    // Try healthy keys in random order until one answers; each key is tried at most once
+    const triedKeys = new Set<string>()
+    let lastFailure: Extract<BackendResponse, { ok: false }> | null = null
+
+    for (let key = keyPool.pick(); key != null; key = keyPool.pick(triedKeys)) {
+      triedKeys.add(key)
+
+      // Log which key is selected (index + short prefix) without dumping full secrets
+      console.log(
+        `[OneCompiler] Using key #${apiKeys.indexOf(key) + 1} of ${apiKeys.length}: ${maskKey(key)}`,
+      )
+
+      let response: Response
+      try {
+        response = await fetch(ONECOMPILER_API, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-RapidAPI-Key': key,
+            'X-RapidAPI-Host': ONECOMPILER_HOST,
+          },
+          body: JSON.stringify({
+            language: oneCompilerLang,
+            stdin,
+            files,
+          }),
+          signal,
+        })
+      } catch (error) {
+        if (options.signal?.aborted) {
+          return {
+            ok: true,
+            output: { stdout: '', stderr: '', status: 'failed', cancelled: true, backend: 'onecompiler' },
+          }
+        }
+        if (deadline.aborted) {
+          return {
+            ok: true,
+            output: {
+              stdout: '',
+              stderr: '',
+              status: 'failed',
+              timedOut: true,
+              executionTime: limits.wallTimeMs,
+              backend: 'onecompiler',
+            },
+          }
+        }
+        const message = error instanceof Error ? error.message : String(error)
+        console.error('[OneCompiler] Request failed:', message)
+        keyPool.reportFailure(key, { kind: 'error', message })
+        lastFailure = { ok: false, status: 502, error: `OneCompiler request failed: ${message}` }
+        continue
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error('OneCompiler API error:', response.status, errorText)
+        const failure = {
+          ok: false as const,
+          status: response.status,
+          error: `OneCompiler API error: ${response.status} - ${errorText}`,
+        }
+
+        // Other 4xx errors are about the request, not the key: another key would fail the same way
+        const kind = classifyKeyFailure(response.status)
+        if (!kind) return failure
+
+        keyPool.reportFailure(key, {
+          kind,
+          status: response.status,
+          message: `${response.status} ${errorText.slice(0, 200)}`,
+          retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+        })
+        lastFailure = failure
+        continue
+      }
+
+      keyPool.reportSuccess(key)
+      const result = await response.json()
+      return {
+        ok: true,
+        output: {
+          ...result,
+          stdout: truncateOutput(result.stdout, limits.maxOutputBytes),
+          stderr: truncateOutput(result.stderr, limits.maxOutputBytes),
+          backend: 'onecompiler',
+        },
+      }
+    }
+
+    if (lastFailure) return lastFailure
+
+    // Every key was benched before this run
+    const nextAvailableAt = keyPool.nextAvailableAt()
+    const wait = nextAvailableAt ? ` Try again in ${Math.ceil((nextAvailableAt - Date.now()) / 1000)}s.` : ''
+    return {
+      ok: false,
+      status: 503,
+      error: `All OneCompiler keys are cooling down after errors.${wait}`,
+    }
+  },
+}
@@ -0,0 +1,101 @@
+// Collects a workspace folder subtree as a multi-file execution request
+// Used by /api/execute "Run folder" mode
+
+import type { Payload } from 'payload'
+
+import { getFolderSubtreeIds } from '@/utilities/workspaceScope'
+import type { ExecutionFile } from './types'
+
+/** Upper bounds so a stray folder (node_modules, datasets) can't be shipped to a backend */
+export const MAX_PROJECT_FILES = 100
+export const MAX_PROJECT_BYTES = 1024 * 1024
+
+export type ProjectFilesResult =
+  | { ok: true; files: ExecutionFile[] }
+  | { ok: false; status: number; error: string }
+
+const relationId = (value: unknown): string | null => {
+  if (value && typeof value === 'object' && 'id' in value) {
+    return String((value as { id: string | number }).id)
+  }
+  return value != null ? String(value) : null
+}
+
+/**
+ * Load every file under `folderId` (owned by `ownerId`) with paths relative to
+ * that folder. The entry file is returned first, as the backends expect.
+ */
+export async function collectProjectFiles(
+  payload: Payload,
+  {
+    ownerId,
+    folderId,
+    entryFileId,
+  }: { ownerId: string | number; folderId: string | number; entryFileId: string | number },
+): Promise<ProjectFilesResult> {
+  const foldersRes = await payload.find({
+    collection: 'folders',
+    where: { user: { equals: ownerId } },
+    limit: 1000,
+    depth: 0,
+  })
+
+  const folderById = new Map(foldersRes.docs.map((folder) => [String(folder.id), folder]))
+  if (!folderById.has(String(folderId))) {
+    return { ok: false, status: 404, error: 'Folder not found' }
+  }
+
+  const subtreeIds = getFolderSubtreeIds(foldersRes.docs, folderId)
+
+  // Path of a folder relative to the project root ('' for the root itself)
+  const relativeFolderPath = (id: string): string => {
+    const segments: string[] = []
+    let current = folderById.get(id)
+    while (current && String(current.id) !== String(folderId)) {
+      segments.unshift(current.name)
+      const parentId = relationId(current.parentFolder)
+      current = parentId ? folderById.get(parentId) : undefined
+    }
+    return segments.join('/')
+  }
+
+  const filesRes = await payload.find({
+    collection: 'files',
+    where: {
+      and: [
+        { user: { equals: ownerId } },
+        { folder: { in: Array.from(subtreeIds) } },
+      ],
+    },
+    limit: MAX_PROJECT_FILES + 1,
+    depth: 0,
+  })
+
+  if (filesRes.docs.length > MAX_PROJECT_FILES) {
+    return {
+      ok: false,
+      status: 400,
+      error: `Folder has too many files to run (max ${MAX_PROJECT_FILES})`,
+    }
+  }
+
+  const entry = filesRes.docs.find((file) => String(file.id) === String(entryFileId))
+  if (!entry) {
+    return { ok: false, status: 400, error: 'Entry file must be inside the selected folder' }
+  }
+
+  let totalBytes = 0
+  const files: ExecutionFile[] = []
+  for (const file of [entry, ...filesRes.docs.filter((f) => f !== entry)]) {
+    const content = file.content || ''
+    totalBytes += Buffer.byteLength(content)
+    const folderPath = relativeFolderPath(relationId(file.folder) ?? String(folderId))
+    files.push({ name: folderPath ? `${folderPath}/${file.name}` : file.name, content })
+  }
+
+  if (totalBytes > MAX_PROJECT_BYTES) {
+    return { ok: false, status: 400, error: 'Folder is too large to run (max 1 MB of source)' }
+  }
+
+  return { ok: true, files }
+}
@@ -0,0 +1,236 @@
+// Per-role execution rate limits ("runs per minute / per day") from the `platform-settings` global
+// Every run is counted from the `executions` collection, so all server instances share the counts:
+// the run's row is written (status 'running') before it starts, then checked against the limits.
+// Signed-in users are counted by user, guests by a hash of their IP address.
+
+import { createHash } from 'crypto'
+import type { Payload, Where } from 'payload'
+
+import type { Execution, PlatformSetting, User } from '@/payload-types'
+
+export type ExecutionQuotaRole = NonNullable<PlatformSetting['executionRateLimits']>[number]['role']
+
+export interface ExecutionLimits {
+  runsPerMinute: number | null
+  runsPerDay: number | null
+}
+
+export interface ExecutionUsage {
+  /** Runs in the last 60 seconds */
+  lastMinute: number
+  /** Runs in the last 24 hours */
+  lastDay: number
+}
+
+export type QuotaCheckResult =
+  /** `reservationId`: the run's `executions` row, for recordExecution (null if it could not be written) */
+  | { ok: true; reservationId: Execution['id'] | null }
+  | { ok: false; status: 429; error: string; retryAfter: number }
+
+export const MINUTE_MS = 60_000
+export const DAY_MS = 24 * 60 * 60_000
+
+const NO_LIMITS: ExecutionLimits = { runsPerMinute: null, runsPerDay: null }
+
+const positiveOrNull = (value: number | null | undefined) =>
+  typeof value === 'number' && value > 0 ? Math.floor(value) : null
+
+/** Limits configured for a role; roles without a settings row are unlimited */
+export function getRoleLimits(
+  settings: Pick<PlatformSetting, 'executionRateLimits'> | null | undefined,
+  role: ExecutionQuotaRole,
+): ExecutionLimits {
+  const row = settings?.executionRateLimits?.find((entry) => entry.role === role)
+  if (!row) return NO_LIMITS
+  return {
+    runsPerMinute: positiveOrNull(row.runsPerMinute),
+    runsPerDay: positiveOrNull(row.runsPerDay),
+  }
+}
+
+/**
+ * Seconds until another run is allowed, or null when under the limit.
+ * `newestFirst` holds run timestamps inside the window, newest first.
+ */
+export function getRetryAfterSeconds(
+  newestFirst: number[],
+  limit: number,
+  windowMs: number,
+  now: number,
+): number | null {
+  if (newestFirst.length < limit) return null
+  // A slot frees up when the limit-th newest run leaves the window
+  const freesAt = newestFirst[limit - 1] + windowMs
+  return Math.max(1, Math.ceil((freesAt - now) / 1000))
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min`
+  return `${Math.ceil(seconds / 3600)} h`
+}
+
+/** Proxies in front of the app (TRUSTED_PROXY_HOPS, default 0) */
+function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 0)
+  return Number.isInteger(hops) && hops >= 0 ? hops : 0
+}
+
+/**
+ * Client address used to count guest runs.
+ * Each proxy appends the address it received the request from to X-Forwarded-For, so only
+ * the last `trustedHops` entries were written by our proxies; earlier ones can be forged by
+ * the client. With no proxy (0) this is the address of the connection, which the Next.js
+ * server puts in X-Forwarded-For when the request arrives without one.
+ */
+export function getClientIp(headers: Headers, trustedHops: number = trustedProxyHops()): string {
+  const forwarded = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  if (forwarded.length === 0) return 'unknown'
+  return forwarded[Math.max(0, forwarded.length - Math.max(1, trustedHops))]
+}
+
+/** Stored instead of the guest's IP address */
+export function guestKeyOf(ip: string): string {
+  return createHash('sha256').update(`codehub-guest:${ip}`).digest('hex')
+}
+
+/** Runs counted together: the user's, or the guest address's */
+function callerWhere(caller: { user: User | null; ip: string }): Where {
+  return caller.user
+    ? { user: { equals: caller.user.id } }
+    : { and: [{ user: { exists: false } }, { guestKey: { equals: guestKeyOf(caller.ip) } }] }
+}
+
+/** Newest-first timestamps of the caller's other runs since `since`, at most `limit` */
+async function getOtherRunTimes(
+  payload: Payload,
+  caller: { user: User | null; ip: string },
+  reservationId: Execution['id'],
+  since: number,
+  limit: number,
+): Promise<number[]> {
+  const runs = await payload.find({
+    collection: 'executions',
+    where: {
+      and: [
+        callerWhere(caller),
+        { id: { not_equals: reservationId } },
+        { createdAt: { greater_than: new Date(since).toISOString() } },
+      ],
+    },
+    sort: '-createdAt',
+    limit,
+    depth: 0,
+    pagination: false,
+    select: { createdAt: true },
+  })
+  return runs.docs.map((run) => new Date(run.createdAt).getTime())
+}
+
+/**
+ * Reserve a run against the caller's limits before it starts.
+ *
+ * The run's `executions` row is written first and the limits are checked afterwards,
+ * counting every other run in the window. Of several parallel requests, the last one to
+ * count sees all the others, so together they can never go over the limit (at worst, more
+ * than one is turned away and retries). A refused run's row is deleted again.
+ * Fails open: if settings or history cannot be read, the run is allowed.
+ */
+export async function reserveExecution(
+  payload: Payload,
+  caller: { user: User | null; ip: string; language: string },
+  now: number = Date.now(),
+): Promise<QuotaCheckResult> {
+  let limits: ExecutionLimits
+  try {
+    const settings = await payload.findGlobal({ slug: 'platform-settings', depth: 0 })
+    limits = getRoleLimits(settings, caller.user?.role ?? 'guest')
+  } catch (error) {
+    console.error('[ExecutionQuota] Failed to read platform settings:', error)
+    limits = NO_LIMITS
+  }
+
+  let reservationId: Execution['id']
+  try {
+    const reservation = await payload.create({
+      collection: 'executions',
+      data: {
+        user: caller.user?.id ?? null,
+        guestKey: caller.user ? null : guestKeyOf(caller.ip),
+        language: caller.language,
+        status: 'running',
+      },
+      depth: 0,
+    })
+    reservationId = reservation.id
+  } catch (error) {
+    console.error('[ExecutionQuota] Failed to reserve run:', error)
+    return { ok: true, reservationId: null }
+  }
+
+  const windows = [
+    { limit: limits.runsPerMinute, windowMs: MINUTE_MS, label: 'per minute' },
+    { limit: limits.runsPerDay, windowMs: DAY_MS, label: 'per day' },
+  ]
+
+  for (const { limit, windowMs, label } of windows) {
+    if (limit == null) continue
+
+    let times: number[]
+    try {
+      times = await getOtherRunTimes(payload, caller, reservationId, now - windowMs, limit)
+    } catch (error) {
+      console.error('[ExecutionQuota] Failed to count runs:', error)
+      return { ok: true, reservationId }
+    }
+
+    const retryAfter = getRetryAfterSeconds(times, limit, windowMs, now)
+    if (retryAfter != null) {
+      await payload
+        .delete({ collection: 'executions', id: reservationId })
+        .catch((error) => console.error('[ExecutionQuota] Failed to release run:', error))
+      return {
+        ok: false,
+        status: 429,
+        error: `Run limit reached (${limit} runs ${label}). Try again in ${formatWait(retryAfter)}.`,
+        retryAfter,
+      }
+    }
+  }
+
+  return { ok: true, reservationId }
+}
+
+/** Current run counts for dashboard users, keyed by user id */
+export async function getExecutionUsage(
+  payload: Payload,
+  userIds: User['id'][],
+  now: number = Date.now(),
+): Promise<Map<User['id'], ExecutionUsage>> {
+  const countSince = async (userId: User['id'], since: number) => {
+    const result = await payload.count({
+      collection: 'executions',
+      where: {
+        and: [
+          { user: { equals: userId } },
+          { createdAt: { greater_than: new Date(since).toISOString() } },
+        ],
+      },
+    })
+    return result.totalDocs
+  }
+
+  const entries = await Promise.all(
+    userIds.map(async (userId) => {
+      const [lastMinute, lastDay] = await Promise.all([
+        countSince(userId, now - MINUTE_MS),
+        countSince(userId, now - DAY_MS),
+      ])
+      return [userId, { lastMinute, lastDay }] as const
+    }),
+  )
+  return new Map(entries)
+}
@@ -0,0 +1,114 @@
+// Parses /api/execute request bodies (single file or "Run folder") into an ExecutionRequest
+// Shared by the JSON and streaming execute routes
+
+import type { Payload } from 'payload'
+
+import type { User } from '@/payload-types'
+import { getLanguage } from '@/utilities/languageRegistry'
+import { resolveExecutionLimits } from './limits'
+import { collectProjectFiles } from './projectFiles'
+import type { ExecutionRequest } from './types'
+
+export interface ExecuteBody {
+  language: string
+  input: string
+  code?: string
+  folderId?: string | number
+  entryFileId?: string | number
+  /** Run history context: workspace file and live session the run belongs to */
+  fileId?: string | number
+  sessionCode?: string
+  /** Keep stdin open for input typed while the program runs (streaming route only) */
+  interactive?: boolean
+}
+
+type Result<T> = { ok: true; value: T } | { ok: false; status: number; error: string }
+
+const isId = (value: unknown): value is string | number =>
+  (typeof value === 'string' && value !== '') ||
+  (typeof value === 'number' && Number.isFinite(value))
+
+/** Validate a raw request body; folder runs need `folderId` + `entryFileId`, single runs need `code` */
+export function parseExecuteBody(body: unknown): Result<ExecuteBody> {
+  const { language, code, input, folderId, entryFileId, fileId, sessionCode, interactive } =
+    (body || {}) as Record<string, unknown>
+  if (language != null && typeof language !== 'string') {
+    return { ok: false, status: 400, error: 'language must be a string' }
+  }
+  if (input != null && typeof input !== 'string') {
+    return { ok: false, status: 400, error: 'input must be a string' }
+  }
+  const context = {
+    fileId: isId(fileId) ? fileId : undefined,
+    sessionCode: typeof sessionCode === 'string' ? sessionCode : undefined,
+    interactive: interactive === true,
+  }
+
+  if (folderId != null && folderId !== '') {
+    if (!language || !entryFileId) {
+      return { ok: false, status: 400, error: 'Missing required fields: language and entryFileId' }
+    }
+    if (!isId(folderId) || !isId(entryFileId)) {
+      return { ok: false, status: 400, error: 'folderId and entryFileId must be ids' }
+    }
+    return {
+      ok: true,
+      value: { language, input: input || '', folderId, entryFileId, ...context, fileId: entryFileId },
+    }
+  }
+
+  if (!language || !code) {
+    return { ok: false, status: 400, error: 'Missing required fields: language and code' }
+  }
+  if (typeof code !== 'string') {
+    return { ok: false, status: 400, error: 'code must be a string' }
+  }
+  return { ok: true, value: { language, input: input || '', code, ...context } }
+}
+
+export function isFolderRun(body: ExecuteBody): boolean {
+  return body.folderId != null
+}
+
+/**
+ * Build the backend request. Folder runs read the files owned by `user`.
+ * Limits come from the language and, for hosts and participants of a live session,
+ * the session override.
+ */
+export async function buildExecutionRequest(
+  payload: Payload,
+  body: ExecuteBody,
+  user: Pick<User, 'id' | 'role'> | null,
+): Promise<Result<ExecutionRequest>> {
+  if (isFolderRun(body)) {
+    if (user == null) {
+      return { ok: false, status: 401, error: 'Unauthorized' }
+    }
+    const project = await collectProjectFiles(payload, {
+      ownerId: user.id,
+      folderId: body.folderId!,
+      entryFileId: body.entryFileId!,
+    })
+    if (!project.ok) return project
+    const limits = await resolveExecutionLimits(payload, body.language, body.sessionCode, user)
+    return {
+      ok: true,
+      value: { language: body.language, stdin: body.input, files: project.files, limits },
+    }
+  }
+
+  return {
+    ok: true,
+    value: {
+      language: body.language,
+      stdin: body.input,
+      limits: await resolveExecutionLimits(payload, body.language, body.sessionCode, user),
+      files: [
+        {
+          name: getLanguage(body.language)?.entryFileName || 'main.txt',
+          content: body.code!,
+        },
+      ],
+    },
+  }
+}
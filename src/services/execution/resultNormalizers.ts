@@ -0,0 +1,259 @@
+// Per-language normalisers: raw backend output (OneCompiler or local runner) → ExecutionResult
+// Facts the backend reports (timeout, exit code, signal, compile phase) win; stderr is only
+// matched against the language's own compiler/runtime messages for what the backend does
+// not report (OneCompiler returns no exit code). Client-safe: no Node-only imports.
+
+import type { ExecutionResult } from '@/services/codeExecution'
+
+/** /api/execute output as received by the client; OneCompiler may send null streams */
+export interface RawExecutionOutput {
+  stdout?: string | null
+  stderr?: string | null
+  exception?: string | null
+  status?: string
+  executionTime?: number
+  memory?: number
+  exitCode?: number | null
+  signal?: string | null
+  timedOut?: boolean
+  cancelled?: boolean
+  phase?: 'compile' | 'run'
+}
+
+export interface LanguageResultProfile {
+  /** Compiler or parser diagnostics: the program never ran */
+  compileError: RegExp[]
+  /** Messages the runtime prints when it runs out of memory */
+  outOfMemory?: RegExp[]
+  /** Diagnostics that are only warnings (the program still ran) */
+  warning?: RegExp[]
+}
+
+// GCC/Clang style "file.ext:line:col: error:" (warnings use "warning:")
+const gccStyle = (extensions: string): LanguageResultProfile => ({
+  compileError: [
+    new RegExp(`\\.(?:${extensions}):\\d+(?::\\d+)?: (?:fatal )?error:`),
+    /undefined reference to|collect2: error|ld returned \d+ exit status/,
+  ],
+  outOfMemory: [/std::bad_alloc/],
+  warning: [/: warning:/],
+})
+
+const jvm = (compileError: RegExp[]): LanguageResultProfile => ({
+  compileError,
+  outOfMemory: [/java\.lang\.OutOfMemoryError/],
+  warning: [/warning:/i, /^Note: /m],
+})
+
+const node: LanguageResultProfile = {
+  // Parse errors are thrown while Node compiles the module, before any user code runs
+  compileError: [
+    /^SyntaxError: [^\n]*\n\s+at (?:Object\.compileFunction|internalCompileFunction|wrapSafe|compileSourceTextModule)\b/m,
+  ],
+  outOfMemory: [/JavaScript heap out of memory/, /Allocation failed - process out of memory/],
+  warning: [/^\(node:\d+\) \w*Warning:/m],
+}
+
+const python: LanguageResultProfile = {
+  // A traceback means the error was raised at run time (e.g. by compile() or an import)
+  compileError: [
+    /^(?![\s\S]*(?:^|\n)Traceback \(most recent call last\):)[\s\S]*(?:^|\n)(?:SyntaxError|IndentationError|TabError): /,
+  ],
+  outOfMemory: [/^MemoryError\b/m],
+  warning: [/^\S+:\d+: \w*Warning: /m],
+}
+
+const shell: LanguageResultProfile = {
+  compileError: [/syntax error near unexpected token|syntax error: unexpected end of file/],
+}
+
+const beam = (compileError: RegExp[]): LanguageResultProfile => ({
+  compileError,
+  outOfMemory: [/eheap_alloc: Cannot allocate/],
+  warning: [/warning:/i],
+})
+
+/** Keyed by language registry ID; every registry language needs a profile */
+export const LANGUAGE_RESULT_PROFILES: Record<string, LanguageResultProfile> = {
+  javascript: node,
+  nodejs: node,
+  typescript: {
+    compileError: [/\.ts\(\d+,\d+\): error TS\d+/, /\.ts:\d+:\d+ - error TS\d+/, /TSError: ⨯ Unable to compile TypeScript/],
+    outOfMemory: node.outOfMemory,
+    warning: node.warning,
+  },
+  python,
+  python2: python,
+  c: gccStyle('c|h'),
+  cpp: gccStyle('cpp|cc|cxx|h|hpp'),
+  objectivec: gccStyle('m|h'),
+  java: jvm([/\.java:\d+: error:/, /^error: /m]),
+  kotlin: jvm([/\.kts?:\d+:\d+: error:/, /^error: /m]),
+  scala: jvm([/\.scala:\d+(?::\d+)?: error:/, /^-- (?:\[E\d+\] )?[\w ]*Error: .*\.scala:\d+/m]),
+  groovy: jvm([/MultipleCompilationErrorsException|startup failed:/]),
+  clojure: jvm([/^Syntax error (?:compiling|reading source|macroexpanding)/m]),
+  csharp: {
+    compileError: [/\.cs\(\d+,\d+\): error CS\d+/, /error CS\d+:/],
+    outOfMemory: [/System\.OutOfMemoryException/],
+    warning: [/warning CS\d+:/],
+  },
+  fsharp: {
+    compileError: [/\.fsx?\(\d+,\d+\): error FS\d+/, /error FS\d+:/],
+    outOfMemory: [/System\.OutOfMemoryException/],
+    warning: [/warning FS\d+:/],
+  },
+  go: {
+    // `go build` prints "./main.go:5:2: undefined: x" under a package header
+    compileError: [/^# [\w./-]+\n/m, /^\.?\/?[\w./-]+\.go:\d+:\d+: /m],
+    outOfMemory: [/fatal error: runtime: out of memory/],
+  },
+  rust: {
+    compileError: [/^error(?:\[E\d+\])?: /m],
+    outOfMemory: [/memory allocation of \d+ bytes failed/],
+    warning: [/^warning: /m],
+  },
+  swift: {
+    compileError: [/\.swift:\d+:\d+: error:/],
+    warning: [/: warning:/],
+  },
+  php: {
+    compileError: [/^(?:PHP )?Parse error: /m],
+    outOfMemory: [/Allowed memory size of \d+ bytes exhausted/],
+    warning: [/^(?:PHP )?(?:Warning|Notice|Deprecated): /m],
+  },
+  ruby: {
+    compileError: [/:\d+: syntax errors?\b/, /syntax errors? found \(SyntaxError\)/],
+    outOfMemory: [/\(NoMemoryError\)|failed to allocate memory/],
+    warning: [/: warning: /],
+  },
+  perl: {
+    compileError: [/aborted due to compilation errors/, /^syntax error at /m],
+    outOfMemory: [/^Out of memory!/m],
+  },
+  r: {
+    compileError: [/^Error: unexpected /m],
+    outOfMemory: [/cannot allocate vector of size/],
+    warning: [/^Warning message/m],
+  },
+  dart: {
+    compileError: [/\.dart:\d+:\d+: Error: /],
+    outOfMemory: [/Out of Memory|Exhausted heap space/],
+    warning: [/\.dart:\d+:\d+: Warning: /],
+  },
+  lua: {
+    compileError: [
+      /:\d+: (?:[^\n]*expected(?: \(to close [^\n]*\))? near|unexpected symbol near|malformed number near|unfinished (?:long )?(?:string|comment) near)/,
+    ],
+    outOfMemory: [/not enough memory/],
+  },
+  bash: shell,
+  shell,
+  haskell: {
+    compileError: [/\.hs:\d+:\d+(?:-\d+)?: error:/],
+    outOfMemory: [/[Hh]eap (?:exhausted|overflow)/],
+    warning: [/\.hs:\d+:\d+(?:-\d+)?: warning:/],
+  },
+  elixir: beam([/^\*\* \((?:SyntaxError|CompileError|TokenMissingError|MismatchedDelimiterError)\)/m]),
+  erlang: beam([/\.erl:\d+(?::\d+)?: (?!Warning:)/]),
+  assembly: {
+    compileError: [/\.asm:\d+: (?:fatal: |error: )/, /undefined reference to|ld returned \d+ exit status/],
+    warning: [/\.asm:\d+: warning:/],
+  },
+  fortran: {
+    // gfortran: "main.f90:3:5:" location, then "Error: ..." (run-time errors say "Fortran runtime error:")
+    compileError: [/^(?:Fatal )?Error: /m],
+    outOfMemory: [/Allocation would exceed memory limit|Memory allocation failed/],
+    warning: [/^Warning: /m],
+  },
+  cobol: {
+    // cobc diagnostics; run-time errors are prefixed with "libcob:"
+    compileError: [/^[^\s:]+\.cob:\d+: (?:error|severe error):/m],
+    warning: [/\.cob:\d+: warning:/],
+  },
+  pascal: {
+    compileError: [/\.pas\(\d+,\d+\) (?:Error|Fatal):/, /Fatal: Compilation aborted/],
+    outOfMemory: [/Runtime error 203\b/],
+    warning: [/\.pas\(\d+,\d+\) (?:Warning|Note|Hint):/],
+  },
+}
+
+const UNKNOWN_LANGUAGE: LanguageResultProfile = {
+  compileError: [/compilation (?:error|failed)/i],
+}
+
+const GENERIC_OUT_OF_MEMORY = [/\bout of memory\b/i, /cannot allocate memory/i]
+/** OneCompiler reports its own time limit in `exception` */
+const TIMEOUT_EXCEPTION = /timed?[ -]?out|time ?limit exceeded/i
+/** Appended by the backends when a stream hits the output limit */
+const OUTPUT_TRUNCATED = '[output truncated]'
+const ERROR_WORDS = /\b(?:error|exception|panic(?:ked)?|traceback|fatal|abort(?:ed)?|segmentation fault|core dumped)\b/i
+
+export function getLanguageResultProfile(language: string): LanguageResultProfile {
+  return LANGUAGE_RESULT_PROFILES[language.toLowerCase()] ?? UNKNOWN_LANGUAGE
+}
+
+const appendNote = (text: string, note: string) => `${text}${text && !text.endsWith('\n') ? '\n' : ''}${note}`
+
+/**
+ * Map a raw /api/execute response for `language` to an ExecutionResult.
+ */
+export function normalizeExecutionResult(language: string, raw: RawExecutionOutput): ExecutionResult {
+  const profile = getLanguageResultProfile(language)
+  const stdout = raw.stdout || ''
+  const exception = raw.exception || ''
+  let stderr = raw.stderr || exception
+  const diagnostics = [raw.stderr, exception].filter(Boolean).join('\n')
+  const matches = (patterns: RegExp[] | undefined) => !!patterns?.some((pattern) => pattern.test(diagnostics))
+
+  const exitCode = raw.exitCode ?? undefined
+  const signal = raw.signal ?? undefined
+  let status: ExecutionResult['status']
+  let limitExceeded: ExecutionResult['limitExceeded']
+
+  if (raw.cancelled) {
+    status = 'error'
+    stderr = appendNote(stderr, '[Execution stopped]')
+  } else if (raw.timedOut || signal === 'SIGXCPU' || TIMEOUT_EXCEPTION.test(exception)) {
+    status = 'timeout'
+    limitExceeded = 'time'
+    stderr = appendNote(stderr, '[Time limit exceeded]')
+  } else if (exitCode === 0 && !signal) {
+    // Ran to completion; anything on stderr is a warning or deliberate output
+    status = 'success'
+  } else if (raw.phase === 'compile' || matches(profile.compileError)) {
+    status = 'compilation_error'
+  } else if (matches(profile.outOfMemory) || matches(GENERIC_OUT_OF_MEMORY)) {
+    status = 'runtime_error'
+    limitExceeded = 'memory'
+    stderr = appendNote(stderr, '[Memory limit exceeded]')
+  } else if (exitCode != null || signal) {
+    status = 'runtime_error'
+    // Output-limit kills already say "[output truncated]"
+    if (signal && !`${stdout}${stderr}`.includes(OUTPUT_TRUNCATED)) {
+      stderr = appendNote(stderr, `[Process terminated by ${signal}]`)
+    }
+  } else if (exception) {
+    status = 'runtime_error'
+  } else if (!diagnostics) {
+    status = raw.status === 'failed' ? 'runtime_error' : 'success'
+  } else if (matches(profile.warning) && !ERROR_WORDS.test(diagnostics)) {
+    status = 'success'
+  } else {
+    status = 'runtime_error'
+  }
+
+  if (!limitExceeded && `${stdout}${stderr}`.includes(OUTPUT_TRUNCATED)) {
+    limitExceeded = 'output'
+  }
+
+  return {
+    stdout,
+    stderr,
+    status,
+    executionTime: raw.executionTime,
+    memory: raw.memory,
+    exitCode,
+    signal,
+    limitExceeded,
+  }
+}
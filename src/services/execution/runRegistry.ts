@@ -0,0 +1,98 @@
+// In-memory registry of streaming runs so /api/execute/stop can cancel them
+// and /api/execute/input can type into interactive ones
+// Process-local: a stop or input request must reach the server instance running the program
+
+import { randomUUID } from 'crypto'
+
+import type { RunStdin } from './types'
+
+/** Largest piece of input one /api/execute/input request may type */
+export const MAX_INPUT_CHUNK_BYTES = 16 * 1024
+
+/** Input typed into one run, in total (it is also kept in the run history) */
+export const MAX_TYPED_INPUT_BYTES = 256 * 1024
+
+type OwnerId = string | number
+
+interface ActiveRun {
+  controller: AbortController
+  /** User who started the run (null for guests); only they may stop it or type into it */
+  ownerId: OwnerId | null
+  /** Set once an interactive program is running */
+  stdin?: RunStdin
+  typedBytes: number
+}
+
+export type RunInputResult = { ok: true } | { ok: false; status: number; error: string }
+
+const activeRuns = new Map<string, ActiveRun>()
+
+/** Register a new run of `ownerId`; abort the returned controller to stop it */
+export function registerRun(ownerId: OwnerId | null = null): {
+  runId: string
+  controller: AbortController
+} {
+  const runId = randomUUID()
+  const controller = new AbortController()
+  activeRuns.set(runId, { controller, ownerId, typedBytes: 0 })
+  return { runId, controller }
+}
+
+export function unregisterRun(runId: string): void {
+  activeRuns.delete(runId)
+}
+
+/**
+ * Stop a run started by `userId` (null: a guest's run, stopped by a guest).
+ * Returns false when the run is unknown, already finished or someone else's.
+ */
+export function cancelRun(runId: string, userId: OwnerId | null): boolean {
+  const run = activeRuns.get(runId)
+  if (!run || String(run.ownerId ?? '') !== String(userId ?? '')) return false
+  run.controller.abort()
+  activeRuns.delete(runId)
+  return true
+}
+
+/** Connect the stdin of an interactive run */
+export function attachRunStdin(runId: string, stdin: RunStdin): void {
+  const run = activeRuns.get(runId)
+  if (run) run.stdin = stdin
+}
+
+/**
+ * Write to (or, with `eof`, close) the stdin of an interactive run started by
+ * `userId`. Other users' runs look unknown (404), like finished runs and runs
+ * not reading input yet; input over the size limits is refused (413).
+ */
+export function sendRunInput(
+  runId: string,
+  userId: OwnerId,
+  input: { data?: string; eof?: boolean },
+): RunInputResult {
+  const run = activeRuns.get(runId)
+  if (!run?.stdin || run.ownerId == null || String(run.ownerId) !== String(userId)) {
+    return { ok: false, status: 404, error: 'Run not found or not reading input' }
+  }
+  if (input.data) {
+    const bytes = Buffer.byteLength(input.data, 'utf8')
+    if (bytes > MAX_INPUT_CHUNK_BYTES) {
+      return {
+        ok: false,
+        status: 413,
+        error: `Input is too large (${MAX_INPUT_CHUNK_BYTES / 1024} KB per send)`,
+      }
+    }
+    if (run.typedBytes + bytes > MAX_TYPED_INPUT_BYTES) {
+      return {
+        ok: false,
+        status: 413,
+        error: `This run has had ${MAX_TYPED_INPUT_BYTES / 1024} KB of input already`,
+      }
+    }
+    run.typedBytes += bytes
+    run.stdin.write(input.data)
+  }
+  if (input.eof) run.stdin.end()
+  return { ok: true }
+}
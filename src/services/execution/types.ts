@@ -0,0 +1,96 @@
+/**
+ * Shared types for server-side execution backends.
+ *
+ * @module services/execution/types
+ */
+
+import type { LanguageLimits } from '@/utilities/languageRegistry'
+
+/** Identifiers stored in the `languages.executionBackend` field */
+export type ExecutionBackendId = 'onecompiler' | 'local'
+
+/** A single source file sent to a backend */
+export interface ExecutionFile {
+  name: string
+  content: string
+}
+
+/** Everything a backend needs to run a program */
+export interface ExecutionRequest {
+  /** Our language ID (e.g. javascript, python, java) */
+  language: string
+  /** Source files; the first one is the entry file */
+  files: ExecutionFile[]
+  /** Program stdin */
+  stdin: string
+  /** Resource limits (see resolveExecutionLimits); backends use the registry limits when absent */
+  limits?: LanguageLimits
+}
+
+/**
+ * Raw output returned by `/api/execute`.
+ * Mirrors the OneCompiler response so existing clients keep working;
+ * the local runner fills the extra process fields.
+ */
+export interface BackendExecutionOutput {
+  stdout: string
+  stderr: string
+  exception?: string | null
+  /** 'success' or 'failed' (OneCompiler convention) */
+  status?: string
+  /** Wall-clock time in milliseconds */
+  executionTime?: number
+  memory?: number
+  /** Process exit code (local runner only) */
+  exitCode?: number | null
+  /** Signal that terminated the process, e.g. SIGKILL (local runner only) */
+  signal?: string | null
+  /** True when the wall-clock limit was hit (local runner only) */
+  timedOut?: boolean
+  /** True when the run was stopped by the user */
+  cancelled?: boolean
+  /** Phase that produced the result (local runner only) */
+  phase?: 'compile' | 'run'
+  /** Which backend produced this output */
+  backend?: ExecutionBackendId
+}
+
+/** Live stdin of an interactive run */
+export interface RunStdin {
+  write: (data: string) => void
+  /** Close stdin (end of input) */
+  end: () => void
+}
+
+/** Optional streaming/cancellation hooks for a run */
+export interface ExecutionOptions {
+  /** Receives output chunks as they are produced (streaming backends only) */
+  onOutput?: (stream: 'stdout' | 'stderr', chunk: string) => void
+  /** Aborting stops the run (the local runner kills the process) */
+  signal?: AbortSignal
+  /**
+   * Keep stdin open after the request's stdin is written (interactive backends only).
+   * `onStdinReady` receives the program's stdin once it runs.
+   */
+  interactive?: boolean
+  onStdinReady?: (stdin: RunStdin) => void
+}
+
+export type BackendResponse =
+  | { ok: true; output: BackendExecutionOutput }
+  | { ok: false; status: number; error: string }
+
+export interface ExecutionBackend {
+  id: ExecutionBackendId
+  /** Whether the backend is configured and usable on this server */
+  isAvailable: () => boolean
+  /** Whether the backend can run the given language */
+  supportsLanguage: (language: string) => boolean
+  /** Whether `onOutput` is called while the program runs (otherwise output arrives at the end) */
+  supportsStreaming: boolean
+  /** Whether the program's stdin can stay open for input typed while it runs */
+  supportsInteractive: boolean
+  /** Whether only signed-in users may run code on it (the routes answer 401 otherwise) */
+  requiresSignIn: boolean
+  execute: (request: ExecutionRequest, options?: ExecutionOptions) => Promise<BackendResponse>
+}
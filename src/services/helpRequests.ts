@@ -0,0 +1,234 @@
+// Raise-hand help queue for live sessions (`help-requests` collection).
+// A student has at most one open request per session; trainers claim it,
+// then resolve or dismiss it. Wait time runs from raising the hand until a
+// trainer claims it (or closes it without claiming).
+
+import type { Payload } from 'payload'
+
+import type { HelpRequest, LiveSession, User } from '@/payload-types'
+import { findParticipant } from '@/services/sessionParticipants'
+import { lastErrorFromOutput } from '@/utilities/executionError'
+
+type SessionId = LiveSession['id']
+type UserId = User['id']
+
+export type HelpAction = 'claim' | 'resolve' | 'dismiss'
+
+export const HELP_ACTIONS: HelpAction[] = ['claim', 'resolve', 'dismiss']
+
+const OPEN_STATUSES: HelpRequest['status'][] = ['waiting', 'claimed']
+
+/** What the student was working on when they raised their hand */
+export type HelpRequestFields = Partial<
+  Pick<HelpRequest, 'message' | 'code' | 'language' | 'workspaceFileName' | 'lastError'>
+>
+
+export interface HelpRequestItem {
+  id: HelpRequest['id']
+  userId: UserId
+  name: string
+  status: HelpRequest['status']
+  message: string | null
+  code: string
+  language: string | null
+  workspaceFileName: string | null
+  lastError: string | null
+  raisedAt: string
+  claimedAt: string | null
+  claimedBy: { id: UserId; name: string } | null
+}
+
+export interface HelpQueueStats {
+  waiting: number
+  claimed: number
+  resolved: number
+  /** Average seconds from raised hand to a trainer picking it up; null before the first one */
+  averageWaitSeconds: number | null
+}
+
+export type HelpActionResult =
+  | { ok: true; request: HelpRequest }
+  | { ok: false; status: number; error: string }
+
+function userRef(user: HelpRequest['user'] | HelpRequest['claimedBy']) {
+  if (user == null) return null
+  if (typeof user !== 'object') return { id: user, name: 'Unknown' }
+  return { id: user.id, name: user.name || user.email || 'Anonymous' }
+}
+
+const isOpen = (request: HelpRequest) => OPEN_STATUSES.includes(request.status)
+
+export async function findOpenHelpRequest(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+): Promise<HelpRequest | null> {
+  const result = await payload.find({
+    collection: 'help-requests',
+    where: {
+      and: [
+        { session: { equals: sessionId } },
+        { user: { equals: userId } },
+        { status: { in: OPEN_STATUSES } },
+      ],
+    },
+    limit: 1,
+    depth: 0,
+  })
+  return result.docs[0] ?? null
+}
+
+/**
+ * Put the student in the queue. Raising an already raised hand keeps its place
+ * and refreshes the code. Missing fields come from the student's shared scratchpad.
+ */
+export async function raiseHand(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+  fields: HelpRequestFields = {},
+): Promise<HelpRequest> {
+  const participant = await findParticipant(payload, sessionId, userId)
+  const data: HelpRequestFields = {
+    message: fields.message || null,
+    code: fields.code ?? participant?.code ?? '',
+    language: fields.language || participant?.language || null,
+    workspaceFileName: fields.workspaceFileName || participant?.workspaceFileName || null,
+    lastError: fields.lastError ?? lastErrorFromOutput(participant?.output),
+  }
+
+  const existing = await findOpenHelpRequest(payload, sessionId, userId)
+  if (existing) {
+    return payload.update({ collection: 'help-requests', id: existing.id, data, depth: 0 })
+  }
+
+  return payload.create({
+    collection: 'help-requests',
+    data: {
+      ...data,
+      session: sessionId,
+      user: userId,
+      status: 'waiting',
+      raisedAt: new Date().toISOString(),
+    },
+    depth: 0,
+  })
+}
+
+/** @returns false when the student had no open request */
+export async function lowerHand(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+): Promise<boolean> {
+  const existing = await findOpenHelpRequest(payload, sessionId, userId)
+  if (!existing) return false
+  await payload.update({
+    collection: 'help-requests',
+    id: existing.id,
+    data: { status: 'withdrawn', closedAt: new Date().toISOString() },
+    depth: 0,
+  })
+  return true
+}
+
+/** Claim, resolve or dismiss an open request on behalf of a staff member */
+export async function updateHelpRequest(
+  payload: Payload,
+  request: HelpRequest,
+  action: HelpAction,
+  staffId: UserId,
+): Promise<HelpActionResult> {
+  if (!isOpen(request)) {
+    return { ok: false, status: 409, error: `Request is already ${request.status}` }
+  }
+
+  const now = new Date().toISOString()
+  const data: Partial<HelpRequest> =
+    action === 'claim'
+      ? { status: 'claimed', claimedAt: request.claimedAt || now, claimedBy: staffId }
+      : { status: action === 'resolve' ? 'resolved' : 'dismissed', closedAt: now }
+
+  const updated = await payload.update({
+    collection: 'help-requests',
+    id: request.id,
+    data,
+    depth: 0,
+  })
+  return { ok: true, request: updated }
+}
+
+/** Every request of the session, oldest first, with users populated */
+export async function listHelpRequests(
+  payload: Payload,
+  sessionId: SessionId,
+): Promise<HelpRequest[]> {
+  const result = await payload.find({
+    collection: 'help-requests',
+    where: { session: { equals: sessionId } },
+    sort: 'raisedAt',
+    pagination: false,
+    depth: 1,
+  })
+  return result.docs
+}
+
+export function toHelpRequestItem(request: HelpRequest): HelpRequestItem {
+  const user = userRef(request.user)
+  return {
+    id: request.id,
+    userId: user?.id as UserId,
+    name: user?.name ?? 'Anonymous',
+    status: request.status,
+    message: request.message || null,
+    code: request.code || '',
+    language: request.language || null,
+    workspaceFileName: request.workspaceFileName || null,
+    lastError: request.lastError || null,
+    raisedAt: request.raisedAt,
+    claimedAt: request.claimedAt || null,
+    claimedBy: userRef(request.claimedBy),
+  }
+}
+
+/** Open requests in queue order (oldest first), plus counts and the average wait */
+export function buildHelpQueue(requests: HelpRequest[]): {
+  requests: HelpRequestItem[]
+  stats: HelpQueueStats
+} {
+  const waits: number[] = []
+  for (const request of requests) {
+    const pickedUpAt =
+      request.claimedAt ||
+      (request.status === 'resolved' || request.status === 'dismissed' ? request.closedAt : null)
+    if (pickedUpAt) {
+      waits.push((new Date(pickedUpAt).getTime() - new Date(request.raisedAt).getTime()) / 1000)
+    }
+  }
+
+  const open = requests
+    .filter(isOpen)
+    .sort((a, b) => new Date(a.raisedAt).getTime() - new Date(b.raisedAt).getTime())
+
+  return {
+    requests: open.map(toHelpRequestItem),
+    stats: {
+      waiting: open.filter((request) => request.status === 'waiting').length,
+      claimed: open.filter((request) => request.status === 'claimed').length,
+      resolved: requests.filter((request) => request.status === 'resolved').length,
+      averageWaitSeconds:
+        waits.length > 0
+          ? Math.round(waits.reduce((sum, wait) => sum + wait, 0) / waits.length)
+          : null,
+    },
+  }
+}
+
+/** 1-based place of a waiting request among the waiting ones; null when not waiting */
+export function queuePosition(requests: HelpRequest[], requestId: HelpRequest['id']) {
+  const waiting = requests
+    .filter((request) => request.status === 'waiting')
+    .sort((a, b) => new Date(a.raisedAt).getTime() - new Date(b.raisedAt).getTime())
+  const index = waiting.findIndex((request) => request.id === requestId)
+  return index === -1 ? null : index + 1
+}
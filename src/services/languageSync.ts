@@ -0,0 +1,54 @@
+import type { Payload } from 'payload'
+import { getPrimaryExtension, LANGUAGES } from '@/utilities/languageRegistry'
+
+/**
+ * Seed the `languages` collection from the language registry and keep the
+ * registry-owned fields (name, Monaco ID, extension) in sync.
+ *
+ * Missing languages are created with the registry starter code. Existing docs
+ * keep their `defaultCode` and `executionBackend`, which trainers and admins
+ * edit in the admin panel. Languages added only in the admin are left alone.
+ */
+export async function syncLanguagesCollection(
+  payload: Payload,
+): Promise<{ created: number; updated: number }> {
+  const existing = await payload.find({
+    collection: 'languages',
+    limit: 0,
+    pagination: false,
+    depth: 0,
+  })
+  const bySlug = new Map(existing.docs.map((doc) => [doc.slug, doc]))
+
+  let created = 0
+  let updated = 0
+
+  for (const language of LANGUAGES) {
+    const data = {
+      name: language.name,
+      monacoLanguage: language.monacoLanguage,
+      extension: getPrimaryExtension(language),
+    }
+    const doc = bySlug.get(language.id)
+
+    if (!doc) {
+      await payload.create({
+        collection: 'languages',
+        data: { ...data, slug: language.id, defaultCode: language.defaultCode },
+      })
+      created++
+    } else if (
+      doc.name !== data.name ||
+      doc.monacoLanguage !== data.monacoLanguage ||
+      doc.extension !== data.extension
+    ) {
+      await payload.update({ collection: 'languages', id: doc.id, data })
+      updated++
+    }
+  }
+
+  if (created > 0 || updated > 0) {
+    console.log(`[LanguageSync] Created ${created}, updated ${updated} languages`)
+  }
+  return { created, updated }
+}
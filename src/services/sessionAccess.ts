@@ -0,0 +1,485 @@
+// Who may join a live session (`accessMode` on live-sessions):
+// - open: anyone with the join code
+// - passcode: students also enter the session passcode
+// - restricted: only the listed students and the students of the listed cohorts
+// - waitingRoom: students ask to join (`session-admissions`) and a host admits them
+// Staff are never held back, and students who are already in the session keep
+// their place when the mode changes.
+
+import { timingSafeEqual } from 'crypto'
+import { sql, type PostgresAdapter } from '@payloadcms/db-postgres'
+import type { Payload, Where } from 'payload'
+
+import type { LiveSession, SessionAdmission, User } from '@/payload-types'
+import { publishSessionEvent } from '@/services/sessionEvents'
+import { findParticipant, joinedSessionIds } from '@/services/sessionParticipants'
+import { isSessionHost } from '@/services/sessionHosts'
+import { isStaff } from '@/utilities/dashboardAccess'
+import { idOf } from '@/utilities/idOf'
+
+type SessionId = LiveSession['id']
+type UserId = User['id']
+
+export type SessionAccessMode = NonNullable<LiveSession['accessMode']>
+
+export const SESSION_ACCESS_MODES: SessionAccessMode[] = [
+  'open',
+  'passcode',
+  'restricted',
+  'waitingRoom',
+]
+
+export const MIN_PASSCODE_LENGTH = 4
+export const MAX_PASSCODE_LENGTH = 32
+export const MAX_ALLOWED_STUDENTS = 500
+/** Wrong passcodes allowed per student and session in PASSCODE_WINDOW_MS */
+export const MAX_PASSCODE_ATTEMPTS = 5
+const PASSCODE_WINDOW_MS = 10 * 60_000
+
+/** Why a student was not let in; JoinSessionClient shows the matching prompt */
+export type JoinDenial =
+  | 'passcode_required'
+  | 'passcode_invalid'
+  | 'too_many_attempts'
+  | 'not_enrolled'
+  | 'waiting'
+  | 'denied'
+
+export type JoinAccess =
+  | { ok: true }
+  | {
+      ok: false
+      status: number
+      error: string
+      access: { mode: SessionAccessMode; reason: JoinDenial }
+    }
+
+/** Body of PUT /api/sessions/[code]/access (and `access` in POST /api/sessions/start) */
+export interface AccessSettingsInput {
+  accessMode: SessionAccessMode
+  passcode: string | null
+  studentEmails: string[]
+  cohortIds: number[]
+}
+
+export interface AccessUser {
+  id: UserId
+  name: string
+  email: string
+}
+
+export interface SessionAccessSettings {
+  accessMode: SessionAccessMode
+  passcode: string | null
+  allowedStudents: AccessUser[]
+  allowedCohorts: Array<{ id: number; name: string }>
+}
+
+export interface AdmissionItem {
+  id: SessionAdmission['id']
+  user: AccessUser
+  status: SessionAdmission['status']
+  requestedAt: string
+}
+
+export type ParsedAccessSettings =
+  | { ok: true; input: AccessSettingsInput }
+  | { ok: false; error: string }
+
+export type AccessFields = Pick<
+  LiveSession,
+  'accessMode' | 'passcode' | 'allowedStudents' | 'allowedCohorts'
+>
+
+type Viewer = Pick<User, 'id' | 'role'>
+
+export function accessModeOf(session: Pick<LiveSession, 'accessMode'>): SessionAccessMode {
+  return session.accessMode ?? 'open'
+}
+
+export function toAccessUser(user: User): AccessUser {
+  return { id: user.id, name: user.name || user.email || 'Anonymous', email: user.email }
+}
+
+/** Validate a PUT /api/sessions/[code]/access body */
+export function parseAccessSettings(body: unknown): ParsedAccessSettings {
+  const raw = (body ?? {}) as Record<string, unknown>
+  const accessMode = raw.accessMode ?? 'open'
+  if (!SESSION_ACCESS_MODES.includes(accessMode as SessionAccessMode)) {
+    return { ok: false, error: `accessMode must be one of ${SESSION_ACCESS_MODES.join(', ')}` }
+  }
+  const mode = accessMode as SessionAccessMode
+
+  let passcode: string | null = null
+  if (mode === 'passcode') {
+    passcode = typeof raw.passcode === 'string' ? raw.passcode.trim() : ''
+    if (passcode.length < MIN_PASSCODE_LENGTH || passcode.length > MAX_PASSCODE_LENGTH) {
+      return {
+        ok: false,
+        error: `The passcode must be ${MIN_PASSCODE_LENGTH} to ${MAX_PASSCODE_LENGTH} characters`,
+      }
+    }
+  }
+
+  let studentEmails: string[] = []
+  let cohortIds: number[] = []
+  if (mode === 'restricted') {
+    const emails = raw.studentEmails ?? []
+    const cohorts = raw.cohortIds ?? []
+    if (!Array.isArray(emails) || !emails.every((email) => typeof email === 'string')) {
+      return { ok: false, error: 'studentEmails must be a list of email addresses' }
+    }
+    if (!Array.isArray(cohorts) || !cohorts.every((id) => Number.isInteger(id) && id > 0)) {
+      return { ok: false, error: 'cohortIds must be a list of cohort ids' }
+    }
+    studentEmails = [
+      ...new Set(emails.map((email: string) => email.trim().toLowerCase()).filter(Boolean)),
+    ]
+    cohortIds = [...new Set(cohorts as number[])]
+    if (studentEmails.length > MAX_ALLOWED_STUDENTS) {
+      return { ok: false, error: `At most ${MAX_ALLOWED_STUDENTS} students can be listed` }
+    }
+    if (studentEmails.length === 0 && cohortIds.length === 0) {
+      return { ok: false, error: 'List at least one student or cohort' }
+    }
+  }
+
+  return { ok: true, input: { accessMode: mode, passcode, studentEmails, cohortIds } }
+}
+
+/** Look up the listed students and cohorts; the fields to store on the session */
+export async function resolveAccessSettings(
+  payload: Payload,
+  input: AccessSettingsInput,
+): Promise<{ ok: true; data: AccessFields } | { ok: false; status: number; error: string }> {
+  const data: AccessFields = {
+    accessMode: input.accessMode,
+    passcode: input.passcode,
+    allowedStudents: [],
+    allowedCohorts: [],
+  }
+  if (input.studentEmails.length > 0) {
+    const users = await payload.find({
+      collection: 'users',
+      where: { email: { in: input.studentEmails } },
+      pagination: false,
+      depth: 0,
+    })
+    const found = new Set(users.docs.map((user) => user.email.toLowerCase()))
+    const missing = input.studentEmails.find((email) => !found.has(email))
+    if (missing) return { ok: false, status: 404, error: `No account found for ${missing}` }
+    data.allowedStudents = users.docs.map((user) => user.id)
+  }
+  if (input.cohortIds.length > 0) {
+    const cohorts = await payload.find({
+      collection: 'cohorts',
+      where: { id: { in: input.cohortIds } },
+      pagination: false,
+      depth: 0,
+    })
+    if (cohorts.docs.length !== input.cohortIds.length) {
+      return { ok: false, status: 404, error: 'Cohort not found' }
+    }
+    data.allowedCohorts = input.cohortIds
+  }
+  return { ok: true, data }
+}
+
+/** One update writes all the access fields, so of two changes at once the last one wins whole */
+export async function updateAccessSettings(
+  payload: Payload,
+  sessionId: SessionId,
+  input: AccessSettingsInput,
+): Promise<{ ok: true; session: LiveSession } | { ok: false; status: number; error: string }> {
+  const resolved = await resolveAccessSettings(payload, input)
+  if (!resolved.ok) return resolved
+  const session = await payload.update({
+    collection: 'live-sessions',
+    id: sessionId,
+    data: resolved.data,
+    depth: 1,
+  })
+  return { ok: true, session }
+}
+
+export function toAccessSettings(session: LiveSession): SessionAccessSettings {
+  return {
+    accessMode: accessModeOf(session),
+    passcode: session.passcode ?? null,
+    allowedStudents: (session.allowedStudents ?? []).flatMap((user) =>
+      typeof user === 'object' ? [toAccessUser(user)] : [],
+    ),
+    allowedCohorts: (session.allowedCohorts ?? []).flatMap((cohort) =>
+      typeof cohort === 'object' ? [{ id: cohort.id, name: cohort.name }] : [],
+    ),
+  }
+}
+
+export interface CohortOption {
+  id: number
+  name: string
+  studentCount: number
+}
+
+/** Cohorts to choose from when restricting a session, by name */
+export async function listCohorts(payload: Payload): Promise<CohortOption[]> {
+  const result = await payload.find({
+    collection: 'cohorts',
+    sort: 'name',
+    pagination: false,
+    depth: 0,
+  })
+  return result.docs.map((cohort) => ({
+    id: cohort.id,
+    name: cohort.name,
+    studentCount: cohort.students?.length ?? 0,
+  }))
+}
+
+/** The student's passcode guesses for the session inside the window (`passcode-attempts`) */
+async function countPasscodeAttempts(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+  now: Date,
+): Promise<number> {
+  const { totalDocs } = await payload.count({
+    collection: 'passcode-attempts',
+    where: {
+      and: [
+        { session: { equals: sessionId } },
+        { user: { equals: userId } },
+        { createdAt: { greater_than: new Date(now.getTime() - PASSCODE_WINDOW_MS).toISOString() } },
+      ],
+    },
+  })
+  return totalDocs
+}
+
+function passcodeMatches(expected: string, given: string): boolean {
+  const a = Buffer.from(expected)
+  const b = Buffer.from(given)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+async function isEnrolled(payload: Payload, session: LiveSession, userId: UserId) {
+  if ((session.allowedStudents ?? []).some((user) => idOf(user) === userId)) return true
+  const cohortIds = (session.allowedCohorts ?? []).map(idOf)
+  if (cohortIds.length === 0) return false
+  const { totalDocs } = await payload.count({
+    collection: 'cohorts',
+    where: { and: [{ id: { in: cohortIds } }, { students: { in: [userId] } }] },
+  })
+  return totalDocs > 0
+}
+
+async function findAdmission(payload: Payload, sessionId: SessionId, userId: UserId) {
+  const result = await payload.find({
+    collection: 'session-admissions',
+    where: { and: [{ session: { equals: sessionId } }, { user: { equals: userId } }] },
+    limit: 1,
+    depth: 0,
+  })
+  return result.docs[0] ?? null
+}
+
+/** Ask to be let in, or return the request already made */
+async function requestAdmission(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+): Promise<SessionAdmission> {
+  const existing = await findAdmission(payload, sessionId, userId)
+  if (existing) return existing
+  try {
+    return await payload.create({
+      collection: 'session-admissions',
+      data: { session: sessionId, user: userId, status: 'waiting' },
+      depth: 0,
+    })
+  } catch (error) {
+    // Another request created it first (unique session + user)
+    const created = await findAdmission(payload, sessionId, userId)
+    if (!created) throw error
+    return created
+  }
+}
+
+/**
+ * Staff, the session's co-hosts, students already in the session, and everyone in open
+ * sessions can see it (live code, events, scratchpad). Anonymous visitors only see open
+ * sessions.
+ */
+export async function hasSessionAccess(
+  payload: Payload,
+  session: LiveSession,
+  user: Viewer | null,
+): Promise<boolean> {
+  if (accessModeOf(session) === 'open') return true
+  if (!user) return false
+  if (isStaff(user) || isSessionHost(session, user)) return true
+  return (await findParticipant(payload, session.id, user.id)) !== null
+}
+
+/**
+ * Sessions a student may see listed with their join code (upcoming list, calendar
+ * feed): open sessions, the ones they are enrolled in and the ones they joined.
+ */
+export async function studentSessionsWhere(payload: Payload, userId: UserId): Promise<Where> {
+  const [joined, cohorts] = await Promise.all([
+    joinedSessionIds(payload, userId),
+    payload.find({
+      collection: 'cohorts',
+      where: { students: { in: [userId] } },
+      select: {},
+      pagination: false,
+      depth: 0,
+    }),
+  ])
+  const visible: Where[] = [
+    { accessMode: { equals: 'open' } },
+    { accessMode: { exists: false } },
+    { allowedStudents: { in: [userId] } },
+  ]
+  if (cohorts.docs.length > 0) {
+    visible.push({ allowedCohorts: { in: cohorts.docs.map((cohort) => cohort.id) } })
+  }
+  if (joined.length > 0) visible.push({ id: { in: joined } })
+  return { or: visible }
+}
+
+/** Decide whether the user may join; in waiting-room sessions this puts them in the queue */
+export async function checkJoinAccess(
+  payload: Payload,
+  session: LiveSession,
+  user: Viewer,
+  passcode: string | null,
+  now: Date = new Date(),
+): Promise<JoinAccess> {
+  const mode = accessModeOf(session)
+  if (await hasSessionAccess(payload, session, user)) return { ok: true }
+
+  const deny = (status: number, reason: JoinDenial, error: string): JoinAccess => ({
+    ok: false,
+    status,
+    error,
+    access: { mode, reason },
+  })
+
+  if (mode === 'passcode') {
+    const tooMany = () =>
+      deny(429, 'too_many_attempts', 'Too many wrong passcodes. Try again in a few minutes')
+    if (!passcode) {
+      const attempts = await countPasscodeAttempts(payload, session.id, user.id, now)
+      return attempts >= MAX_PASSCODE_ATTEMPTS
+        ? tooMany()
+        : deny(403, 'passcode_required', 'Enter the session passcode')
+    }
+
+    // Every guess is written before it is checked, like the execution quota: of several
+    // guesses sent at once, the last to count sees all the others
+    const attempt = await payload.create({
+      collection: 'passcode-attempts',
+      data: { session: session.id, user: user.id },
+      depth: 0,
+    })
+    const attempts = await countPasscodeAttempts(payload, session.id, user.id, now)
+    if (attempts > MAX_PASSCODE_ATTEMPTS) {
+      await payload.delete({ collection: 'passcode-attempts', id: attempt.id, depth: 0 })
+      return tooMany()
+    }
+    if (!session.passcode || !passcodeMatches(session.passcode, passcode.trim())) {
+      return deny(403, 'passcode_invalid', 'Wrong passcode')
+    }
+    await payload.delete({
+      collection: 'passcode-attempts',
+      where: { and: [{ session: { equals: session.id } }, { user: { equals: user.id } }] },
+      depth: 0,
+    })
+    return { ok: true }
+  }
+
+  if (mode === 'restricted') {
+    if (await isEnrolled(payload, session, user.id)) return { ok: true }
+    return deny(403, 'not_enrolled', 'This session is only open to enrolled students')
+  }
+
+  // Waiting room
+  const admission = await requestAdmission(payload, session.id, user.id)
+  if (admission.status === 'admitted') return { ok: true }
+  if (admission.status === 'denied') {
+    return deny(403, 'denied', 'The trainer did not let you into this session')
+  }
+  return deny(403, 'waiting', 'Waiting for the trainer to let you in')
+}
+
+export function toAdmissionItem(admission: SessionAdmission): AdmissionItem {
+  const user =
+    typeof admission.user === 'object'
+      ? toAccessUser(admission.user)
+      : { id: admission.user, name: 'Anonymous', email: '' }
+  return { id: admission.id, user, status: admission.status, requestedAt: admission.createdAt }
+}
+
+/** Students waiting to be let in, oldest first */
+export async function listWaiting(
+  payload: Payload,
+  sessionId: SessionId,
+): Promise<SessionAdmission[]> {
+  const result = await payload.find({
+    collection: 'session-admissions',
+    where: { and: [{ session: { equals: sessionId } }, { status: { equals: 'waiting' } }] },
+    sort: 'createdAt',
+    pagination: false,
+    depth: 1,
+  })
+  return result.docs
+}
+
+/**
+ * Admit or turn away waiting students (all of them when `ids` is null).
+ * Each request is answered with one conditional UPDATE, so when two hosts answer
+ * at once only the first answer counts.
+ * @returns how many requests were answered
+ */
+export async function decideAdmissions(
+  payload: Payload,
+  session: LiveSession,
+  ids: SessionAdmission['id'][] | null,
+  status: 'admitted' | 'denied',
+  deciderId: UserId,
+  now: Date = new Date(),
+): Promise<number> {
+  const waiting = await listWaiting(payload, session.id)
+  const chosen = ids === null ? waiting : waiting.filter((admission) => ids.includes(admission.id))
+  const { drizzle } = payload.db as unknown as PostgresAdapter
+  let decided = 0
+  for (const admission of chosen) {
+    const result = await drizzle.execute(sql`
+      UPDATE "session_admissions"
+      SET "status" = ${status}, "decided_at" = ${now.toISOString()},
+        "decided_by_id" = ${deciderId}, "updated_at" = ${now.toISOString()}
+      WHERE "id" = ${admission.id} AND "status" = ${'waiting'}
+      RETURNING "id"`)
+    if (result.rows.length === 0) continue
+    decided++
+    // The UPDATE skips the collection hooks, so publish the answer here
+    await publishSessionEvent(session.joinCode, 'admission_changed', {
+      userId: idOf(admission.user),
+      status,
+    })
+  }
+  return decided
+}
+
+/** A student stops waiting; false when they were not waiting */
+export async function withdrawAdmission(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+): Promise<boolean> {
+  const admission = await findAdmission(payload, sessionId, userId)
+  if (!admission || admission.status !== 'waiting') return false
+  await payload.delete({ collection: 'session-admissions', id: admission.id, depth: 0 })
+  return true
+}
@@ -0,0 +1,295 @@
+// Session chat (`session-messages` collection). Public messages go to everyone
+// in the session; private ones form a thread between one student and the
+// trainers. Trainers can remove messages, mute students (public messages only,
+// so muted students can still ask privately) and turn on slow mode, which
+// applies to every student message. Slow mode counts from the participant's
+// lastMessageAt, claimed before the message is created so parallel sends can't
+// all get through.
+
+import type { Payload, Where } from 'payload'
+
+import type { LiveSession, SessionMessage, SessionParticipant, User } from '@/payload-types'
+import { findParticipant, recordChatMessage } from '@/services/sessionParticipants'
+import { isStaff } from '@/utilities/dashboardAccess'
+
+type SessionId = LiveSession['id']
+type UserId = User['id']
+
+export type ChatVisibility = SessionMessage['visibility']
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000
+export const MAX_CHAT_CODE_LENGTH = 20_000
+export const MAX_SLOW_MODE_SECONDS = 10 * 60
+const HISTORY_LIMIT = 200
+
+export interface ChatMessageInput {
+  body: string | null
+  code: string | null
+  language: string | null
+  visibility: ChatVisibility
+  /** Student a trainer is answering privately */
+  threadUserId: UserId | null
+}
+
+export interface ChatMessageItem {
+  id: SessionMessage['id']
+  sender: { id: UserId; name: string; staff: boolean }
+  visibility: ChatVisibility
+  /** The student of a private thread */
+  thread: { id: UserId; name: string } | null
+  /** Empty once a trainer removed the message */
+  body: string | null
+  code: string | null
+  language: string | null
+  sentAt: string
+  deleted: boolean
+}
+
+export interface ChatSettings {
+  slowModeSeconds: number
+  /** Whether the viewer is muted (students) */
+  muted: boolean
+  /** Muted students (staff only) */
+  mutedUserIds: UserId[]
+}
+
+export type ParsedChatMessage = { ok: true; input: ChatMessageInput } | { ok: false; error: string }
+
+export type ChatActionResult =
+  | { ok: true; message: SessionMessage }
+  | { ok: false; status: number; error: string }
+
+function userRef(user: SessionMessage['sender'] | SessionMessage['thread']) {
+  if (user == null) return null
+  if (typeof user !== 'object') return { id: user, name: 'Unknown', staff: false }
+  return {
+    id: user.id,
+    name: user.name || user.email || 'Anonymous',
+    staff: isStaff(user),
+  }
+}
+
+/** Validate a send-message request body */
+export function parseChatMessage(body: unknown): ParsedChatMessage {
+  const data = (body ?? {}) as Record<string, unknown>
+  const text = typeof data.body === 'string' ? data.body.trim() : ''
+  const code = typeof data.code === 'string' && data.code.trim() ? data.code : null
+
+  if (!text && !code) return { ok: false, error: 'A message needs text or code' }
+  if (text.length > MAX_CHAT_MESSAGE_LENGTH) {
+    return { ok: false, error: `Message is too long (${MAX_CHAT_MESSAGE_LENGTH} characters max)` }
+  }
+  if (code && code.length > MAX_CHAT_CODE_LENGTH) {
+    return { ok: false, error: `Code is too long (${MAX_CHAT_CODE_LENGTH} characters max)` }
+  }
+
+  const visibility = data.visibility ?? 'public'
+  if (visibility !== 'public' && visibility !== 'private') {
+    return { ok: false, error: "visibility must be 'public' or 'private'" }
+  }
+
+  const threadUserId = data.threadUserId ?? null
+  if (threadUserId !== null && !Number.isInteger(threadUserId)) {
+    return { ok: false, error: 'threadUserId must be a user id' }
+  }
+
+  return {
+    ok: true,
+    input: {
+      body: text || null,
+      code,
+      language: code && typeof data.language === 'string' ? data.language : null,
+      visibility,
+      threadUserId: visibility === 'private' ? (threadUserId as UserId | null) : null,
+    },
+  }
+}
+
+/**
+ * Post a message. Students must have joined the session; their private
+ * messages always go to their own thread. Staff answering privately name the
+ * student with `threadUserId`.
+ */
+export async function postChatMessage(
+  payload: Payload,
+  session: LiveSession,
+  sender: Pick<User, 'id' | 'role'>,
+  input: ChatMessageInput,
+  now = new Date(),
+): Promise<ChatActionResult> {
+  let thread: UserId | null = null
+
+  if (isStaff(sender)) {
+    if (input.visibility === 'private') {
+      if (input.threadUserId == null) {
+        return { ok: false, status: 400, error: 'threadUserId is required for private replies' }
+      }
+      if (!(await findParticipant(payload, session.id, input.threadUserId))) {
+        return { ok: false, status: 404, error: 'Student not found in this session' }
+      }
+      thread = input.threadUserId
+    }
+  } else {
+    const participant = await findParticipant(payload, session.id, sender.id)
+    if (!participant || participant.leftAt) {
+      return { ok: false, status: 403, error: 'Join the session to chat' }
+    }
+    if (input.visibility === 'public' && participant.chatMutedAt) {
+      return {
+        ok: false,
+        status: 403,
+        error: 'A trainer muted you in the chat. You can still message the trainer privately.',
+      }
+    }
+    const slowModeSeconds = session.chatSlowModeSeconds ?? 0
+    const since = slowModeSeconds > 0 ? new Date(now.getTime() - slowModeSeconds * 1000) : null
+    if (!(await recordChatMessage(payload, participant.id, since, now))) {
+      const wait = await slowModeWait(payload, participant.id, slowModeSeconds, now)
+      return { ok: false, status: 429, error: `Slow mode is on: wait ${wait}s before sending` }
+    }
+    thread = input.visibility === 'private' ? sender.id : null
+  }
+
+  const message = await payload.create({
+    collection: 'session-messages',
+    data: {
+      session: session.id,
+      sender: sender.id,
+      visibility: input.visibility,
+      thread,
+      body: input.body,
+      code: input.code,
+      language: input.language,
+    },
+    depth: 1,
+  })
+  return { ok: true, message }
+}
+
+/** Seconds until the participant may send again under slow mode (at least 1) */
+async function slowModeWait(
+  payload: Payload,
+  participantId: SessionParticipant['id'],
+  slowModeSeconds: number,
+  now: Date,
+): Promise<number> {
+  const participant = await payload.findByID({
+    collection: 'session-participants',
+    id: participantId,
+    depth: 0,
+  })
+  const last = participant.lastMessageAt ? new Date(participant.lastMessageAt).getTime() : 0
+  const nextAllowed = last + slowModeSeconds * 1000
+  return Math.max(1, Math.ceil((nextAllowed - now.getTime()) / 1000))
+}
+
+export async function deleteChatMessage(
+  payload: Payload,
+  message: SessionMessage,
+  staffId: UserId,
+  now = new Date(),
+): Promise<ChatActionResult> {
+  if (message.deletedAt) {
+    return { ok: false, status: 409, error: 'Message was already removed' }
+  }
+  const updated = await payload.update({
+    collection: 'session-messages',
+    id: message.id,
+    data: { deletedAt: now.toISOString(), deletedBy: staffId },
+    depth: 1,
+  })
+  return { ok: true, message: updated }
+}
+
+/** Mute or unmute a student. @returns null when they are not in the session */
+export async function setChatMuted(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+  muted: boolean,
+): Promise<SessionParticipant | null> {
+  const participant = await findParticipant(payload, sessionId, userId)
+  if (!participant) return null
+  if (!!participant.chatMutedAt === muted) return participant
+  return payload.update({
+    collection: 'session-participants',
+    id: participant.id,
+    data: { chatMutedAt: muted ? new Date().toISOString() : null },
+    depth: 0,
+  })
+}
+
+export async function chatSettings(
+  payload: Payload,
+  session: LiveSession,
+  viewer: { userId: UserId; staff: boolean },
+): Promise<ChatSettings> {
+  const muted = await payload.find({
+    collection: 'session-participants',
+    where: {
+      and: [
+        { session: { equals: session.id } },
+        { chatMutedAt: { exists: true } },
+        ...(viewer.staff ? [] : [{ user: { equals: viewer.userId } }]),
+      ],
+    },
+    pagination: false,
+    depth: 0,
+  })
+  const mutedUserIds = muted.docs.map((participant) =>
+    typeof participant.user === 'object' ? participant.user.id : participant.user,
+  )
+  return {
+    slowModeSeconds: session.chatSlowModeSeconds ?? 0,
+    muted: !viewer.staff && mutedUserIds.includes(viewer.userId),
+    mutedUserIds: viewer.staff ? mutedUserIds : [],
+  }
+}
+
+/**
+ * Messages the viewer may read, oldest first: everything for staff, public
+ * messages and their own thread for students. Pass no limit for the full history.
+ */
+export async function listChatMessages(
+  payload: Payload,
+  sessionId: SessionId,
+  viewer: { userId: UserId; staff: boolean },
+  limit: number | null = HISTORY_LIMIT,
+): Promise<SessionMessage[]> {
+  const where: Where = viewer.staff
+    ? { session: { equals: sessionId } }
+    : {
+        and: [
+          { session: { equals: sessionId } },
+          {
+            or: [{ visibility: { equals: 'public' } }, { thread: { equals: viewer.userId } }],
+          },
+        ],
+      }
+  const result = await payload.find({
+    collection: 'session-messages',
+    where,
+    // Newest first so the limit keeps the latest messages
+    sort: '-createdAt',
+    ...(limit == null ? { pagination: false } : { limit }),
+    depth: 1,
+  })
+  return result.docs.reverse()
+}
+
+export function toChatMessageItem(message: SessionMessage): ChatMessageItem {
+  const sender = userRef(message.sender)
+  const thread = userRef(message.thread)
+  const deleted = !!message.deletedAt
+  return {
+    id: message.id,
+    sender: sender ?? { id: 0, name: 'Anonymous', staff: false },
+    visibility: message.visibility,
+    thread: thread ? { id: thread.id, name: thread.name } : null,
+    body: deleted ? null : message.body || null,
+    code: deleted ? null : message.code || null,
+    language: deleted ? null : message.language || null,
+    sentAt: message.createdAt,
+    deleted,
+  }
+}
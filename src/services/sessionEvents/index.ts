@@ -0,0 +1,70 @@
+/**
+ * Push events for live sessions, streamed to clients by GET /api/sessions/[code]/events.
+ *
+ * Changes to a live-sessions document are published by the collection's afterChange
+ * hook (see hooks/publishLiveSessionEvents) once the change has committed (see
+ * utilities/afterCommit). SESSION_EVENTS_TRANSPORT picks how events
+ * travel between server instances:
+ * - memory (default): in-process, for a single instance
+ * - postgres: LISTEN/NOTIFY on DATABASE_URL, for multi-instance deployments
+ *
+ * Publishing never throws: clients can always fall back to GET /api/sessions/[code]/live.
+ *
+ * @module services/sessionEvents
+ */
+
+import { getConnectionString } from '@/db/adapter'
+import type { SessionEvent, SessionEventPayloads, SessionEventType } from '@/types/live-session'
+
+import { createMemoryPubSub } from './memoryPubSub'
+import { createPostgresPubSub } from './postgresPubSub'
+import type { SessionEventListener, SessionPubSub } from './types'
+
+export * from './types'
+export { createMemoryPubSub } from './memoryPubSub'
+export { createPostgresPubSub, encodeNotification, MAX_NOTIFY_BYTES } from './postgresPubSub'
+
+let pubSub: SessionPubSub | null = null
+
+export function getSessionPubSub(): SessionPubSub {
+  if (!pubSub) {
+    const transport = process.env.SESSION_EVENTS_TRANSPORT?.toLowerCase()
+    if (transport === 'postgres' && process.env.DATABASE_URL) {
+      pubSub = createPostgresPubSub(getConnectionString())
+    } else {
+      if (transport === 'postgres') {
+        console.warn('[SessionEvents] DATABASE_URL is not set, using in-process events')
+      }
+      pubSub = createMemoryPubSub()
+    }
+  }
+  return pubSub
+}
+
+/** Replace the transport (tests) */
+export function setSessionPubSub(next: SessionPubSub | null): void {
+  pubSub = next
+}
+
+export async function publishSessionEvent<K extends SessionEventType>(
+  sessionCode: string,
+  type: K,
+  data: SessionEventPayloads[K],
+): Promise<void> {
+  try {
+    await getSessionPubSub().publish(sessionCode.toUpperCase(), {
+      type,
+      timestamp: new Date().toISOString(),
+      data,
+    } as SessionEvent)
+  } catch (error) {
+    console.error(`[SessionEvents] Failed to publish ${type} for ${sessionCode}:`, error)
+  }
+}
+
+export function subscribeToSession(
+  sessionCode: string,
+  listener: SessionEventListener,
+): Promise<() => void> {
+  return getSessionPubSub().subscribe(sessionCode.toUpperCase(), listener)
+}
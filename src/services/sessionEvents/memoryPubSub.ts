@@ -0,0 +1,47 @@
+// In-process pub/sub: events only reach subscribers on the same server instance
+
+import type { SessionEvent } from '@/types/live-session'
+
+import type { SessionEventListener, SessionPubSub } from './types'
+
+/** Fan out an event to local listeners; a failing listener does not affect the others */
+export function createListenerSet() {
+  const listeners = new Map<string, Set<SessionEventListener>>()
+
+  return {
+    add(sessionCode: string, listener: SessionEventListener): () => void {
+      let set = listeners.get(sessionCode)
+      if (!set) {
+        set = new Set()
+        listeners.set(sessionCode, set)
+      }
+      set.add(listener)
+      return () => {
+        set.delete(listener)
+        if (set.size === 0 && listeners.get(sessionCode) === set) listeners.delete(sessionCode)
+      }
+    },
+    emit(sessionCode: string, event: SessionEvent): void {
+      listeners.get(sessionCode)?.forEach((listener) => {
+        try {
+          listener(event)
+        } catch (error) {
+          console.error('[SessionEvents] Error in event listener:', error)
+        }
+      })
+    },
+    get size(): number {
+      return listeners.size
+    },
+  }
+}
+
+export function createMemoryPubSub(): SessionPubSub {
+  const listeners = createListenerSet()
+
+  return {
+    transport: 'memory',
+    publish: async (sessionCode, event) => listeners.emit(sessionCode, event),
+    subscribe: async (sessionCode, listener) => listeners.add(sessionCode, listener),
+  }
+}
@@ -0,0 +1,105 @@
+// Postgres LISTEN/NOTIFY pub/sub: every server instance sharing the database
+// receives every event. One LISTEN connection per instance carries all sessions;
+// events are fanned out to local subscribers by session code.
+
+import pg from 'pg'
+
+import type { SessionEvent } from '@/types/live-session'
+
+import { createListenerSet } from './memoryPubSub'
+import type { SessionPubSub } from './types'
+
+export const SESSION_EVENTS_CHANNEL = 'live_session_events'
+
+/** NOTIFY payloads must stay under 8000 bytes */
+export const MAX_NOTIFY_BYTES = 7900
+
+const RECONNECT_DELAY_MS = 3_000
+
+/**
+ * Serialise an event for NOTIFY. Events too large for a notification (e.g. a long
+ * broadcast) are replaced by a `refresh` event so clients refetch the session.
+ */
+export function encodeNotification(sessionCode: string, event: SessionEvent): string {
+  const message = JSON.stringify({ sessionCode, event })
+  if (Buffer.byteLength(message, 'utf8') <= MAX_NOTIFY_BYTES) return message
+
+  const refresh: SessionEvent = { type: 'refresh', timestamp: event.timestamp, data: {} }
+  return JSON.stringify({ sessionCode, event: refresh })
+}
+
+export function createPostgresPubSub(connectionString: string): SessionPubSub {
+  const listeners = createListenerSet()
+  // Publishing shares a small pool; LISTEN needs its own long-lived connection
+  const pool = new pg.Pool({ connectionString, max: 2 })
+  let listening: Promise<pg.Client> | null = null
+
+  pool.on('error', (error) => console.error('[SessionEvents] Postgres pool error:', error))
+
+  const handleNotification = (message: pg.Notification) => {
+    if (message.channel !== SESSION_EVENTS_CHANNEL || !message.payload) return
+    try {
+      const { sessionCode, event } = JSON.parse(message.payload) as {
+        sessionCode: string
+        event: SessionEvent
+      }
+      listeners.emit(sessionCode, event)
+    } catch (error) {
+      console.error('[SessionEvents] Ignoring malformed notification:', error)
+    }
+  }
+
+  const reconnectLater = () => {
+    listening = null
+    setTimeout(() => {
+      // Only reconnect while someone is still subscribed
+      if (listeners.size > 0 && !listening) {
+        ensureListening().catch(() => reconnectLater())
+      }
+    }, RECONNECT_DELAY_MS)
+  }
+
+  const ensureListening = (): Promise<pg.Client> => {
+    if (listening) return listening
+
+    const connecting = (async () => {
+      const client = new pg.Client({ connectionString })
+      client.on('notification', handleNotification)
+      client.on('error', (error) => {
+        console.error('[SessionEvents] LISTEN connection lost:', error.message)
+        client.end().catch(() => {})
+        if (listening === connecting) reconnectLater()
+      })
+      await client.connect()
+      await client.query(`LISTEN ${SESSION_EVENTS_CHANNEL}`)
+      return client
+    })()
+
+    listening = connecting
+    connecting.catch((error) => {
+      console.error('[SessionEvents] Could not LISTEN:', error.message)
+      if (listening === connecting) listening = null
+    })
+    return connecting
+  }
+
+  return {
+    transport: 'postgres',
+    publish: async (sessionCode, event) => {
+      await pool.query('SELECT pg_notify($1, $2)', [
+        SESSION_EVENTS_CHANNEL,
+        encodeNotification(sessionCode, event),
+      ])
+    },
+    subscribe: async (sessionCode, listener) => {
+      const unsubscribe = listeners.add(sessionCode, listener)
+      try {
+        await ensureListening()
+      } catch (error) {
+        unsubscribe()
+        throw error
+      }
+      return unsubscribe
+    },
+  }
+}
@@ -0,0 +1,11 @@
+import type { SessionEvent } from '@/types/live-session'
+
+export type SessionEventListener = (event: SessionEvent) => void
+
+/** Delivers session events to every subscriber of a session, on any server instance */
+export interface SessionPubSub {
+  readonly transport: 'memory' | 'postgres'
+  publish: (sessionCode: string, event: SessionEvent) => Promise<void>
+  /** Resolves once events are being received; call the returned function to stop */
+  subscribe: (sessionCode: string, listener: SessionEventListener) => Promise<() => void>
+}
@@ -0,0 +1,245 @@
+// Who may run a live session besides its trainer (`coHosts` on live-sessions).
+// The trainer who owns the session, managers and admins can do everything;
+// co-hosts and teaching assistants get the permissions listed for them.
+// The owner, a manager or an admin can hand the session over to a co-host
+// during the session, for example when the trainer drops off.
+
+import type { Payload, Where } from 'payload'
+
+import type { LiveSession, User } from '@/payload-types'
+import { runExclusive } from '@/utilities/keyedQueue'
+import { isStaff } from '@/utilities/dashboardAccess'
+import { idOf } from '@/utilities/idOf'
+
+type UserId = User['id']
+
+export type SessionPermission = NonNullable<
+  NonNullable<LiveSession['coHosts']>[number]['permissions']
+>[number]
+
+export const SESSION_PERMISSIONS: SessionPermission[] = ['broadcast', 'monitor', 'end', 'helpQueue']
+
+export const MAX_CO_HOSTS = 10
+
+/** One co-host in a PUT /api/sessions/[code]/hosts body: by user id or by email */
+export interface CoHostInput {
+  userId: UserId | null
+  email: string | null
+  permissions: SessionPermission[]
+}
+
+export interface HostUser {
+  id: UserId
+  name: string
+  email: string
+}
+
+export interface SessionHosts {
+  trainer: HostUser | null
+  coHosts: Array<{ user: HostUser; permissions: SessionPermission[] }>
+}
+
+export type ParsedCoHosts = { ok: true; input: CoHostInput[] } | { ok: false; error: string }
+
+export type HostsResult =
+  | { ok: true; session: LiveSession }
+  | { ok: false; status: number; error: string }
+
+type Viewer = Pick<User, 'id' | 'role'>
+
+export function isSessionOwner(session: LiveSession, userId: UserId): boolean {
+  return idOf(session.trainer) === userId
+}
+
+/** Everything the user may do in the session; empty for everyone else */
+export function sessionPermissions(session: LiveSession, user: Viewer): SessionPermission[] {
+  if (user.role === 'admin' || user.role === 'manager' || isSessionOwner(session, user.id)) {
+    return [...SESSION_PERMISSIONS]
+  }
+  const entry = (session.coHosts ?? []).find((coHost) => idOf(coHost.user) === user.id)
+  return entry ? [...(entry.permissions ?? [])] : []
+}
+
+export function hasSessionPermission(
+  session: LiveSession,
+  user: Viewer,
+  permission: SessionPermission,
+): boolean {
+  return sessionPermissions(session, user).includes(permission)
+}
+
+/** The owner, managers, admins and anyone listed as a co-host */
+export function isSessionHost(session: LiveSession, user: Viewer): boolean {
+  return (
+    sessionPermissions(session, user).length > 0 ||
+    (session.coHosts ?? []).some((coHost) => idOf(coHost.user) === user.id)
+  )
+}
+
+/** Sessions the user owns or co-hosts; null for managers and admins, who see every session */
+export function hostedSessionsWhere(user: Viewer): Where | null {
+  if (user.role === 'admin' || user.role === 'manager') return null
+  return { or: [{ trainer: { equals: user.id } }, { 'coHosts.user': { equals: user.id } }] }
+}
+
+/** Only the owner, managers and admins choose the co-hosts */
+export function canManageHosts(session: LiveSession, user: Viewer): boolean {
+  return user.role === 'admin' || user.role === 'manager' || isSessionOwner(session, user.id)
+}
+
+/** Validate a PUT /api/sessions/[code]/hosts body */
+export function parseCoHosts(body: unknown): ParsedCoHosts {
+  const list = ((body ?? {}) as Record<string, unknown>).coHosts
+  if (!Array.isArray(list)) return { ok: false, error: 'coHosts must be a list' }
+  if (list.length > MAX_CO_HOSTS) {
+    return { ok: false, error: `A session can have at most ${MAX_CO_HOSTS} co-hosts` }
+  }
+
+  const input: CoHostInput[] = []
+  for (const entry of list as Array<Record<string, unknown>>) {
+    const userId = Number.isInteger(entry?.userId) ? (entry.userId as UserId) : null
+    const email =
+      typeof entry?.email === 'string' && entry.email.trim()
+        ? entry.email.trim().toLowerCase()
+        : null
+    if (userId == null && email == null) {
+      return { ok: false, error: 'Every co-host needs a userId or an email' }
+    }
+    const permissions = entry?.permissions
+    if (
+      !Array.isArray(permissions) ||
+      !permissions.every((permission) => SESSION_PERMISSIONS.includes(permission))
+    ) {
+      return {
+        ok: false,
+        error: `permissions must only contain: ${SESSION_PERMISSIONS.join(', ')}`,
+      }
+    }
+    input.push({ userId, email, permissions: [...new Set(permissions as SessionPermission[])] })
+  }
+  return { ok: true, input }
+}
+
+async function resolveUser(payload: Payload, input: CoHostInput): Promise<User | null> {
+  if (input.userId != null) {
+    try {
+      return await payload.findByID({ collection: 'users', id: input.userId, depth: 0 })
+    } catch {
+      return null
+    }
+  }
+  const result = await payload.find({
+    collection: 'users',
+    where: { email: { equals: input.email } },
+    limit: 1,
+    depth: 0,
+  })
+  return result.docs[0] ?? null
+}
+
+/** Replace the session's co-host list */
+export function setCoHosts(
+  payload: Payload,
+  sessionId: LiveSession['id'],
+  inputs: CoHostInput[],
+): Promise<HostsResult> {
+  return runExclusive(`live-sessions:${sessionId}`, async () => {
+    const session = await payload.findByID({ collection: 'live-sessions', id: sessionId, depth: 0 })
+
+    const coHosts: Array<{ user: UserId; permissions: SessionPermission[] }> = []
+    for (const input of inputs) {
+      const user = await resolveUser(payload, input)
+      if (!user) {
+        return {
+          ok: false as const,
+          status: 404,
+          error: `No user found for ${input.email ?? `id ${input.userId}`}`,
+        }
+      }
+      if (isSessionOwner(session, user.id)) {
+        return { ok: false as const, status: 400, error: 'The session owner cannot be a co-host' }
+      }
+      if (coHosts.some((coHost) => coHost.user === user.id)) {
+        return { ok: false as const, status: 400, error: `${user.email} is listed twice` }
+      }
+      coHosts.push({ user: user.id, permissions: input.permissions })
+    }
+
+    const updated = await payload.update({
+      collection: 'live-sessions',
+      id: sessionId,
+      data: { coHosts },
+      depth: 1,
+    })
+    return { ok: true as const, session: updated }
+  })
+}
+
+/**
+ * Make a co-host the owner of the session. The new owner needs a trainer,
+ * manager or admin account; the previous owner stays on as a co-host with
+ * every permission, so they can pick up again if they come back.
+ */
+export function transferOwnership(
+  payload: Payload,
+  sessionId: LiveSession['id'],
+  newOwnerId: UserId,
+): Promise<HostsResult> {
+  return runExclusive(`live-sessions:${sessionId}`, async () => {
+    const session = await payload.findByID({ collection: 'live-sessions', id: sessionId, depth: 0 })
+    if (!session.isActive) {
+      return { ok: false as const, status: 409, error: 'Session has ended' }
+    }
+    if (isSessionOwner(session, newOwnerId)) {
+      return { ok: false as const, status: 409, error: 'This user already owns the session' }
+    }
+
+    const coHosts = session.coHosts ?? []
+    if (!coHosts.some((coHost) => idOf(coHost.user) === newOwnerId)) {
+      return { ok: false as const, status: 400, error: 'Only a co-host can become the owner' }
+    }
+    const newOwner = await payload.findByID({ collection: 'users', id: newOwnerId, depth: 0 })
+    if (!isStaff(newOwner)) {
+      return {
+        ok: false as const,
+        status: 400,
+        error: 'The new owner needs a trainer, manager or admin account',
+      }
+    }
+
+    const previousOwnerId = idOf(session.trainer)
+    const updated = await payload.update({
+      collection: 'live-sessions',
+      id: sessionId,
+      data: {
+        trainer: newOwnerId,
+        coHosts: [
+          ...(previousOwnerId == null
+            ? []
+            : [{ user: previousOwnerId, permissions: [...SESSION_PERMISSIONS] }]),
+          ...coHosts
+            .filter((coHost) => idOf(coHost.user) !== newOwnerId)
+            .map((coHost) => ({ user: idOf(coHost.user)!, permissions: coHost.permissions ?? [] })),
+        ],
+      },
+      depth: 1,
+    })
+    return { ok: true as const, session: updated }
+  })
+}
+
+function toHostUser(user: User | UserId): HostUser {
+  if (typeof user !== 'object') return { id: user, name: 'Unknown', email: '' }
+  return { id: user.id, name: user.name || user.email || 'Unknown', email: user.email || '' }
+}
+
+/** API shape of the session's hosts (trainer and co-hosts populated with depth 1) */
+export function toSessionHosts(session: LiveSession): SessionHosts {
+  return {
+    trainer: session.trainer == null ? null : toHostUser(session.trainer),
+    coHosts: (session.coHosts ?? []).map((coHost) => ({
+      user: toHostUser(coHost.user),
+      permissions: coHost.permissions ?? [],
+    })),
+  }
+}
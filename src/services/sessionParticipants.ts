@@ -0,0 +1,216 @@
+// Students taking part in live sessions (`session-participants` collection):
+// presence (join / leave) and the scratchpad each student shares with the trainer.
+// One document per student and session, so concurrent students never overwrite each other.
+
+import { sql, type PostgresAdapter } from '@payloadcms/db-postgres'
+import type { Payload, Where } from 'payload'
+
+import type { LiveSession, SessionParticipant, User } from '@/payload-types'
+import { idOf } from '@/utilities/idOf'
+
+type SessionId = LiveSession['id']
+type UserId = User['id']
+
+export type ScratchpadFields = Partial<
+  Pick<SessionParticipant, 'code' | 'language' | 'output' | 'workspaceFileId' | 'workspaceFileName'>
+>
+
+/** Participants who joined and have not left */
+const present = (sessionId: SessionId): Where => ({
+  and: [{ session: { equals: sessionId } }, { leftAt: { exists: false } }],
+})
+
+export async function findParticipant(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+): Promise<SessionParticipant | null> {
+  const result = await payload.find({
+    collection: 'session-participants',
+    where: {
+      and: [{ session: { equals: sessionId } }, { user: { equals: userId } }],
+    },
+    limit: 1,
+    depth: 0,
+  })
+  return result.docs[0] ?? null
+}
+
+async function upsertParticipant(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+  data: Partial<SessionParticipant>,
+): Promise<SessionParticipant> {
+  const update = (id: SessionParticipant['id']) =>
+    payload.update({ collection: 'session-participants', id, data, depth: 0 })
+
+  const existing = await findParticipant(payload, sessionId, userId)
+  if (existing) return update(existing.id)
+
+  try {
+    return await payload.create({
+      collection: 'session-participants',
+      data: { session: sessionId, user: userId, joinedAt: new Date().toISOString(), ...data },
+      depth: 0,
+    })
+  } catch (error) {
+    // Another request created it first (unique session + user)
+    const created = await findParticipant(payload, sessionId, userId)
+    if (!created) throw error
+    return update(created.id)
+  }
+}
+
+/** Add the user to the session, or bring them back if they had left */
+export function joinSession(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+): Promise<SessionParticipant> {
+  return upsertParticipant(payload, sessionId, userId, {
+    leftAt: null,
+    lastSeenAt: new Date().toISOString(),
+  })
+}
+
+/** @returns false when the user was not in the session */
+export async function leaveSession(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+): Promise<boolean> {
+  const participant = await findParticipant(payload, sessionId, userId)
+  if (!participant || participant.leftAt) return false
+  await payload.update({
+    collection: 'session-participants',
+    id: participant.id,
+    data: { leftAt: new Date().toISOString() },
+    depth: 0,
+  })
+  return true
+}
+
+/**
+ * Refresh lastSeenAt of a present participant, unless it is less than
+ * `minIntervalMs` old: then nothing is written ('recent').
+ * @returns 'absent' when they are not in the session
+ */
+export async function markSeen(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+  minIntervalMs = 0,
+  now = new Date(),
+): Promise<'seen' | 'recent' | 'absent'> {
+  const participant = await findParticipant(payload, sessionId, userId)
+  if (!participant || participant.leftAt) return 'absent'
+  const lastSeen = participant.lastSeenAt ? Date.parse(participant.lastSeenAt) : null
+  if (lastSeen !== null && now.getTime() - lastSeen < minIntervalMs) return 'recent'
+  await payload.update({
+    collection: 'session-participants',
+    id: participant.id,
+    data: { lastSeenAt: now.toISOString() },
+    depth: 0,
+  })
+  return 'seen'
+}
+
+/**
+ * Record that the participant sent a chat message now, unless their last one
+ * was after `since` (slow mode; null records it regardless). One conditional
+ * UPDATE, so of several messages sent at once only one gets through.
+ * @returns false when a message after `since` was already recorded
+ */
+export async function recordChatMessage(
+  payload: Payload,
+  participantId: SessionParticipant['id'],
+  since: Date | null,
+  now = new Date(),
+): Promise<boolean> {
+  const { drizzle } = payload.db as unknown as PostgresAdapter
+  const slowMode = since
+    ? sql`AND ("last_message_at" IS NULL OR "last_message_at" <= ${since.toISOString()})`
+    : sql``
+  const result = await drizzle.execute(sql`
+    UPDATE "session_participants" SET "last_message_at" = ${now.toISOString()}
+    WHERE "id" = ${participantId} ${slowMode}
+    RETURNING "id"`)
+  return result.rows.length > 0
+}
+
+/** Store the student's shared code/output; sharing also counts as being in the session */
+export function saveScratchpad(
+  payload: Payload,
+  sessionId: SessionId,
+  userId: UserId,
+  fields: ScratchpadFields,
+): Promise<SessionParticipant> {
+  return upsertParticipant(payload, sessionId, userId, { ...fields, leftAt: null })
+}
+
+/** Participants currently in the session, with their user populated */
+export async function listParticipants(
+  payload: Payload,
+  sessionId: SessionId,
+): Promise<SessionParticipant[]> {
+  const result = await payload.find({
+    collection: 'session-participants',
+    where: present(sessionId),
+    sort: 'joinedAt',
+    pagination: false,
+    depth: 1,
+  })
+  return result.docs
+}
+
+export async function countParticipants(payload: Payload, sessionId: SessionId): Promise<number> {
+  const { totalDocs } = await payload.count({
+    collection: 'session-participants',
+    where: present(sessionId),
+  })
+  return totalDocs
+}
+
+/** Participant counts for many sessions in one query (session lists) */
+export async function countParticipantsBySession(
+  payload: Payload,
+  sessionIds: SessionId[],
+): Promise<Map<SessionId, number>> {
+  const counts = new Map<SessionId, number>(sessionIds.map((id) => [id, 0]))
+  if (sessionIds.length === 0) return counts
+
+  const result = await payload.find({
+    collection: 'session-participants',
+    where: {
+      and: [{ session: { in: sessionIds } }, { leftAt: { exists: false } }],
+    },
+    select: { session: true },
+    pagination: false,
+    depth: 0,
+  })
+  for (const participant of result.docs) {
+    const id =
+      typeof participant.session === 'object' ? participant.session.id : participant.session
+    counts.set(id, (counts.get(id) ?? 0) + 1)
+  }
+  return counts
+}
+
+/** Sessions the user has joined, including ones they have left (scopes what students can read) */
+export async function joinedSessionIds(payload: Payload, userId: UserId): Promise<SessionId[]> {
+  const result = await payload.find({
+    collection: 'session-participants',
+    where: { user: { equals: userId } },
+    select: { session: true },
+    pagination: false,
+    depth: 0,
+  })
+  return result.docs.map((participant) => idOf(participant.session))
+}
+
+/** Display name used for students in trainer views */
+export function participantName(participant: SessionParticipant): string {
+  const user = typeof participant.user === 'object' ? participant.user : null
+  return user?.name || user?.email || 'Anonymous'
+}
@@ -0,0 +1,434 @@
+// Quizzes and polls during live sessions (`session-polls` collection).
+// One poll runs at a time: opening a new one closes the previous one. A poll
+// stops taking answers when the trainer closes it or its countdown runs out.
+// Students see the results and the correct answer only once it has closed.
+// Answers are stored one per student and poll (`session-poll-answers`), so a
+// class answering together never overwrites each other's answers.
+
+import type { Payload } from 'payload'
+
+import type { Language, LiveSession, SessionPoll, SessionPollAnswer, User } from '@/payload-types'
+import { findParticipant } from '@/services/sessionParticipants'
+import { isSessionHost } from '@/services/sessionHosts'
+import { isStaff } from '@/utilities/dashboardAccess'
+import { getLanguageByFileName } from '@/utilities/languageRegistry'
+import { idOf } from '@/utilities/idOf'
+
+type SessionId = LiveSession['id']
+type UserId = User['id']
+
+export type PollKind = SessionPoll['kind']
+
+export const POLL_KINDS: PollKind[] = ['multiple_choice', 'short_answer', 'predict_output']
+
+export const MIN_POLL_DURATION_SECONDS = 10
+export const MAX_POLL_DURATION_SECONDS = 30 * 60
+export const MAX_POLL_OPTIONS = 8
+const MAX_QUESTION_LENGTH = 1000
+const MAX_ANSWER_LENGTH = 2000
+
+export interface PollInput {
+  kind: PollKind
+  question: string
+  options: string[]
+  correctOption: number | null
+  expectedAnswer: string | null
+  code: string | null
+  language: string | null
+  /** Countdown length; null for no time limit */
+  durationSeconds: number | null
+}
+
+export interface PollAnswer {
+  optionIndex?: number | null
+  answer?: string | null
+}
+
+export interface PollResults {
+  responseCount: number
+  /** null when the question has no correct answer */
+  correctCount: number | null
+  /** Answers per choice (multiple choice) */
+  optionCounts: number[]
+  /** Identical text answers grouped, most common first (short answer, predict the output) */
+  answers: Array<{ answer: string; count: number; correct: boolean | null }>
+}
+
+export interface PollItem {
+  id: SessionPoll['id']
+  kind: PollKind
+  question: string
+  code: string | null
+  language: string | null
+  options: string[]
+  /** Effective status: a poll whose countdown ran out is closed */
+  status: 'open' | 'closed'
+  openedAt: string
+  closesAt: string | null
+  /** Hidden from students while the poll is open */
+  correctOption: number | null
+  expectedAnswer: string | null
+  /** Hidden from students while the poll is open */
+  results: PollResults | null
+  /** The viewer's own answer (students) */
+  myAnswer: { optionIndex: number | null; answer: string | null; correct: boolean | null } | null
+}
+
+export type ParsedPollInput = { ok: true; input: PollInput } | { ok: false; error: string }
+
+export type PollActionResult =
+  | { ok: true; poll: SessionPoll }
+  | { ok: false; status: number; error: string }
+
+export type PollAnswerResult =
+  | { ok: true; answer: SessionPollAnswer }
+  | { ok: false; status: number; error: string }
+
+/** Compare text answers ignoring line endings and surrounding or trailing whitespace */
+export function normalizeAnswer(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim()
+}
+
+/** Validate a create-poll request body */
+export function parsePollInput(body: unknown): ParsedPollInput {
+  const data = (body ?? {}) as Record<string, unknown>
+  const kind = data.kind as PollKind
+  if (!POLL_KINDS.includes(kind)) {
+    return { ok: false, error: `kind must be one of: ${POLL_KINDS.join(', ')}` }
+  }
+
+  const question = typeof data.question === 'string' ? data.question.trim() : ''
+  if (!question) return { ok: false, error: 'question is required' }
+  if (question.length > MAX_QUESTION_LENGTH) {
+    return { ok: false, error: `question is too long (${MAX_QUESTION_LENGTH} characters max)` }
+  }
+
+  let options: string[] = []
+  let correctOption: number | null = null
+  if (kind === 'multiple_choice') {
+    options = Array.isArray(data.options)
+      ? data.options.map((option) => (typeof option === 'string' ? option.trim() : ''))
+      : []
+    if (options.length < 2 || options.length > MAX_POLL_OPTIONS || options.some((o) => !o)) {
+      return { ok: false, error: `options must be 2 to ${MAX_POLL_OPTIONS} non-empty choices` }
+    }
+    if (data.correctOption != null) {
+      const index = data.correctOption
+      if (
+        !Number.isInteger(index) ||
+        (index as number) < 0 ||
+        (index as number) >= options.length
+      ) {
+        return { ok: false, error: 'correctOption must be the index of one of the options' }
+      }
+      correctOption = index as number
+    }
+  }
+
+  const durationSeconds = data.durationSeconds ?? null
+  if (
+    durationSeconds !== null &&
+    (!Number.isInteger(durationSeconds) ||
+      (durationSeconds as number) < MIN_POLL_DURATION_SECONDS ||
+      (durationSeconds as number) > MAX_POLL_DURATION_SECONDS)
+  ) {
+    return {
+      ok: false,
+      error: `durationSeconds must be a whole number from ${MIN_POLL_DURATION_SECONDS} to ${MAX_POLL_DURATION_SECONDS}`,
+    }
+  }
+
+  const expectedAnswer =
+    kind !== 'multiple_choice' && typeof data.expectedAnswer === 'string'
+      ? normalizeAnswer(data.expectedAnswer) || null
+      : null
+
+  return {
+    ok: true,
+    input: {
+      kind,
+      question,
+      options,
+      correctOption,
+      expectedAnswer,
+      code: typeof data.code === 'string' && data.code.trim() ? data.code : null,
+      language: typeof data.language === 'string' ? data.language : null,
+      durationSeconds: durationSeconds as number | null,
+    },
+  }
+}
+
+/**
+ * The trainer's current broadcast as a "what does this code print?" prompt.
+ * The language is worked out like GET /api/sessions/[code]/live does, and the
+ * expected answer is the broadcast's last successful output, if any.
+ * @returns null when nothing has been broadcast yet
+ */
+export function broadcastPrompt(
+  session: LiveSession,
+): Pick<PollInput, 'code' | 'language' | 'expectedAnswer'> | null {
+  if (!session.currentCode?.trim()) return null
+  const language =
+    (session.trainerWorkspaceFileName &&
+      getLanguageByFileName(session.trainerWorkspaceFileName)?.id) ||
+    (typeof session.language === 'object' ? (session.language as Language | null)?.slug : null) ||
+    null
+  const output = session.currentOutput as { status?: string; stdout?: string } | null | undefined
+  const expectedAnswer =
+    output && output.status === 'success' && output.stdout
+      ? normalizeAnswer(output.stdout) || null
+      : null
+  return { code: session.currentCode, language, expectedAnswer }
+}
+
+export function isPollOpen(poll: SessionPoll, now = new Date()): boolean {
+  if (poll.status !== 'open') return false
+  return !poll.closesAt || new Date(poll.closesAt) > now
+}
+
+function isCorrect(poll: SessionPoll, answer: PollAnswer): boolean | null {
+  if (poll.kind === 'multiple_choice') {
+    return poll.correctOption == null ? null : answer.optionIndex === poll.correctOption
+  }
+  if (!poll.expectedAnswer) return null
+  return normalizeAnswer(answer.answer ?? '') === normalizeAnswer(poll.expectedAnswer)
+}
+
+/** Close any running poll of the session, then open a new one */
+export async function openPoll(
+  payload: Payload,
+  sessionId: SessionId,
+  creatorId: UserId,
+  input: PollInput,
+  now = new Date(),
+): Promise<SessionPoll> {
+  const running = await payload.find({
+    collection: 'session-polls',
+    where: { and: [{ session: { equals: sessionId } }, { status: { equals: 'open' } }] },
+    pagination: false,
+    depth: 0,
+  })
+  for (const poll of running.docs) {
+    await payload.update({
+      collection: 'session-polls',
+      id: poll.id,
+      data: { status: 'closed', closedAt: now.toISOString() },
+      depth: 0,
+    })
+  }
+
+  return payload.create({
+    collection: 'session-polls',
+    data: {
+      session: sessionId,
+      createdBy: creatorId,
+      kind: input.kind,
+      question: input.question,
+      code: input.code,
+      language: input.language,
+      options: input.options.map((text) => ({ text })),
+      correctOption: input.correctOption,
+      expectedAnswer: input.expectedAnswer,
+      status: 'open',
+      openedAt: now.toISOString(),
+      closesAt: input.durationSeconds
+        ? new Date(now.getTime() + input.durationSeconds * 1000).toISOString()
+        : null,
+    },
+    depth: 0,
+  })
+}
+
+export async function closePoll(
+  payload: Payload,
+  poll: SessionPoll,
+  now = new Date(),
+): Promise<PollActionResult> {
+  if (poll.status === 'closed') {
+    return { ok: false, status: 409, error: 'Poll is already closed' }
+  }
+  const updated = await payload.update({
+    collection: 'session-polls',
+    id: poll.id,
+    data: {
+      status: 'closed',
+      // A countdown that already ran out keeps its own end time
+      closedAt: isPollOpen(poll, now) ? now.toISOString() : poll.closesAt,
+    },
+    depth: 0,
+  })
+  return { ok: true, poll: updated }
+}
+
+/** Answers to the polls; only the user's own when `userId` is given */
+export async function listPollAnswers(
+  payload: Payload,
+  polls: SessionPoll[],
+  userId: UserId | null = null,
+): Promise<SessionPollAnswer[]> {
+  if (polls.length === 0) return []
+  const result = await payload.find({
+    collection: 'session-poll-answers',
+    where: {
+      and: [
+        { poll: { in: polls.map((poll) => poll.id) } },
+        ...(userId == null ? [] : [{ user: { equals: userId } }]),
+      ],
+    },
+    pagination: false,
+    depth: 0,
+  })
+  return result.docs
+}
+
+/**
+ * Record the answer of a student who is in the session; answering again before
+ * the poll closes replaces it. Staff and hosts of the session cannot answer.
+ */
+export async function answerPoll(
+  payload: Payload,
+  session: LiveSession,
+  poll: SessionPoll,
+  student: Pick<User, 'id' | 'role'>,
+  answer: PollAnswer,
+  now = new Date(),
+): Promise<PollAnswerResult> {
+  if (isStaff(student) || isSessionHost(session, student)) {
+    return { ok: false, status: 403, error: 'Hosts cannot answer polls' }
+  }
+  const participant = await findParticipant(payload, session.id, student.id)
+  if (!participant || participant.leftAt) {
+    return { ok: false, status: 403, error: 'Join the session to answer polls' }
+  }
+
+  if (!isPollOpen(poll, now)) {
+    return { ok: false, status: 409, error: 'This poll has closed' }
+  }
+
+  let response: PollAnswer
+  if (poll.kind === 'multiple_choice') {
+    const index = answer.optionIndex
+    if (!Number.isInteger(index) || index! < 0 || index! >= (poll.options?.length ?? 0)) {
+      return {
+        ok: false,
+        status: 400,
+        error: 'optionIndex must be the index of one of the options',
+      }
+    }
+    response = { optionIndex: index, answer: null }
+  } else {
+    const text = typeof answer.answer === 'string' ? answer.answer : ''
+    if (!text.trim()) return { ok: false, status: 400, error: 'answer is required' }
+    if (text.length > MAX_ANSWER_LENGTH) {
+      return {
+        ok: false,
+        status: 400,
+        error: `answer is too long (${MAX_ANSWER_LENGTH} characters max)`,
+      }
+    }
+    response = { optionIndex: null, answer: text }
+  }
+
+  const data = { ...response, correct: isCorrect(poll, response) }
+  const update = (id: SessionPollAnswer['id']) =>
+    payload.update({ collection: 'session-poll-answers', id, data, depth: 0 })
+
+  const [existing] = await listPollAnswers(payload, [poll], student.id)
+  if (existing) return { ok: true, answer: await update(existing.id) }
+
+  try {
+    const created = await payload.create({
+      collection: 'session-poll-answers',
+      data: { poll: poll.id, user: student.id, ...data },
+      depth: 0,
+    })
+    return { ok: true, answer: created }
+  } catch (error) {
+    // Another request from the student got there first (unique poll + user)
+    const [other] = await listPollAnswers(payload, [poll], student.id)
+    if (!other) throw error
+    return { ok: true, answer: await update(other.id) }
+  }
+}
+
+/** Results of the poll from `answers` (answers to any of the listed polls) */
+export function pollResults(poll: SessionPoll, answers: SessionPollAnswer[]): PollResults {
+  const responses = answers.filter((answer) => idOf(answer.poll) === poll.id)
+  const hasCorrectAnswer =
+    poll.kind === 'multiple_choice' ? poll.correctOption != null : !!poll.expectedAnswer
+
+  const optionCounts = (poll.options ?? []).map(
+    (_, index) => responses.filter((response) => response.optionIndex === index).length,
+  )
+
+  const grouped = new Map<string, { answer: string; count: number; correct: boolean | null }>()
+  if (poll.kind !== 'multiple_choice') {
+    for (const response of responses) {
+      const answer = normalizeAnswer(response.answer ?? '')
+      const group = grouped.get(answer) ?? { answer, count: 0, correct: response.correct ?? null }
+      group.count += 1
+      grouped.set(answer, group)
+    }
+  }
+
+  return {
+    responseCount: responses.length,
+    correctCount: hasCorrectAnswer ? responses.filter((response) => response.correct).length : null,
+    optionCounts,
+    answers: [...grouped.values()].sort((a, b) => b.count - a.count),
+  }
+}
+
+/** What a viewer may see of a poll: staff see everything, students their own answer until it closes */
+export function summarizePoll(
+  poll: SessionPoll,
+  viewer: { userId: UserId; staff: boolean },
+  answers: SessionPollAnswer[],
+  now = new Date(),
+): PollItem {
+  const open = isPollOpen(poll, now)
+  const reveal = viewer.staff || !open
+  const own = answers.find(
+    (answer) => idOf(answer.poll) === poll.id && idOf(answer.user) === viewer.userId,
+  )
+
+  return {
+    id: poll.id,
+    kind: poll.kind,
+    question: poll.question,
+    code: poll.code || null,
+    language: poll.language || null,
+    options: (poll.options ?? []).map((option) => option.text),
+    status: open ? 'open' : 'closed',
+    openedAt: poll.openedAt,
+    closesAt: poll.closesAt || null,
+    correctOption: reveal ? (poll.correctOption ?? null) : null,
+    expectedAnswer: reveal ? poll.expectedAnswer || null : null,
+    results: reveal ? pollResults(poll, answers) : null,
+    myAnswer:
+      !viewer.staff && own
+        ? {
+            optionIndex: own.optionIndex ?? null,
+            answer: own.answer ?? null,
+            correct: reveal ? (own.correct ?? null) : null,
+          }
+        : null,
+  }
+}
+
+/** Every poll of the session, oldest first */
+export async function listPolls(payload: Payload, sessionId: SessionId): Promise<SessionPoll[]> {
+  const result = await payload.find({
+    collection: 'session-polls',
+    where: { session: { equals: sessionId } },
+    sort: 'openedAt',
+    pagination: false,
+    depth: 0,
+  })
+  return result.docs
+}
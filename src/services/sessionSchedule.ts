@@ -0,0 +1,177 @@
+// Scheduled live sessions: the upcoming list and the per-user calendar feed.
+// A scheduled session is created inactive with a `scheduledStart` and goes live
+// when its trainer opens it (POST /api/sessions/[code]/open).
+
+import { randomBytes } from 'crypto'
+import type { Payload, Where } from 'payload'
+
+import type { Language, LiveSession, User } from '@/payload-types'
+import { studentSessionsWhere } from '@/services/sessionAccess'
+import { hostedSessionsWhere } from '@/services/sessionHosts'
+import { isStaff } from '@/utilities/dashboardAccess'
+import type { CalendarEvent } from '@/utilities/ics'
+import { DEFAULT_SESSION_DURATION_MINUTES, getScheduledEnd } from '@/utilities/sessionSchedule'
+
+type UserId = User['id']
+
+/** Keep past sessions in calendar feeds this long */
+const CALENDAR_HISTORY_DAYS = 30
+
+export interface UpcomingSession {
+  id: LiveSession['id']
+  joinCode: string
+  title: string
+  description: string | null
+  /** `scheduled` until the trainer opens it, then `live` */
+  status: 'scheduled' | 'live'
+  scheduledStart: string
+  durationMinutes: number
+  timezone: string | null
+  language: string | null
+  trainer: { id: UserId; name: string } | null
+}
+
+function trainerOf(session: LiveSession): User | null {
+  return typeof session.trainer === 'object' ? session.trainer : null
+}
+
+function toUpcomingSession(session: LiveSession): UpcomingSession {
+  const trainer = trainerOf(session)
+  const language = typeof session.language === 'object' ? (session.language as Language) : null
+  return {
+    id: session.id,
+    joinCode: session.joinCode,
+    title: session.title,
+    description: session.description || null,
+    status: session.isActive ? 'live' : 'scheduled',
+    scheduledStart: session.scheduledStart as string,
+    durationMinutes: session.durationMinutes || DEFAULT_SESSION_DURATION_MINUTES,
+    timezone: session.timezone || null,
+    language: language?.slug || null,
+    trainer: trainer ? { id: trainer.id, name: trainer.name || trainer.email || 'Unknown' } : null,
+  }
+}
+
+/**
+ * Scheduled sessions that are still to come or live now, soonest first.
+ * Sessions that were never opened drop off once their start time has passed.
+ * Students only get the sessions they may see (see studentSessionsWhere).
+ */
+export async function listUpcomingSessions(
+  payload: Payload,
+  viewer: Pick<User, 'id' | 'role'>,
+  options: { trainerId?: UserId; now?: Date; limit?: number } = {},
+): Promise<UpcomingSession[]> {
+  const now = options.now ?? new Date()
+  const conditions: Where[] = [
+    { scheduledStart: { exists: true } },
+    { endedAt: { exists: false } },
+    {
+      or: [
+        { isActive: { equals: true } },
+        {
+          and: [
+            { startedAt: { exists: false } },
+            { scheduledStart: { greater_than_equal: now.toISOString() } },
+          ],
+        },
+      ],
+    },
+  ]
+  if (options.trainerId != null) {
+    conditions.push({ trainer: { equals: options.trainerId } })
+  }
+  if (!isStaff(viewer)) {
+    conditions.push(await studentSessionsWhere(payload, viewer.id))
+  }
+
+  const result = await payload.find({
+    collection: 'live-sessions',
+    where: { and: conditions },
+    sort: 'scheduledStart',
+    limit: options.limit ?? 100,
+    depth: 1,
+  })
+
+  return result.docs.map(toUpcomingSession)
+}
+
+/**
+ * Events for a user's calendar feed: the scheduled sessions students may see
+ * (see studentSessionsWhere), the sessions they own or co-host for trainers,
+ * every session for managers and admins.
+ */
+export async function listCalendarEvents(
+  payload: Payload,
+  user: User,
+  baseUrl: string,
+  now = new Date(),
+): Promise<CalendarEvent[]> {
+  const since = new Date(now.getTime() - CALENDAR_HISTORY_DAYS * 24 * 60 * 60 * 1000)
+  const conditions: Where[] = [{ scheduledStart: { greater_than_equal: since.toISOString() } }]
+  const visible = isStaff(user)
+    ? hostedSessionsWhere(user)
+    : await studentSessionsWhere(payload, user.id)
+  if (visible) conditions.push(visible)
+
+  const result = await payload.find({
+    collection: 'live-sessions',
+    where: { and: conditions },
+    sort: 'scheduledStart',
+    pagination: false,
+    depth: 1,
+  })
+
+  const host = new URL(baseUrl).host
+  return result.docs.map((session) => {
+    const start = new Date(session.scheduledStart as string)
+    const trainer = trainerOf(session)
+    const joinUrl =
+      user.role === 'student' ? `${baseUrl}/join` : `${baseUrl}/trainer/session/${session.joinCode}`
+    const details = [
+      session.description,
+      trainer && `Trainer: ${trainer.name || trainer.email}`,
+      `Join code: ${session.joinCode}`,
+      joinUrl,
+    ]
+    return {
+      uid: `live-session-${session.id}@${host}`,
+      start,
+      end: getScheduledEnd(start, session.durationMinutes),
+      summary: session.title,
+      description: details.filter(Boolean).join('\n'),
+      url: joinUrl,
+      updatedAt: new Date(session.updatedAt),
+    }
+  })
+}
+
+/** The user's calendar feed secret, created on first use or replaced when `rotate` is set */
+export async function getCalendarToken(
+  payload: Payload,
+  userId: UserId,
+  options: { rotate?: boolean } = {},
+): Promise<string> {
+  if (!options.rotate) {
+    const user = await payload.findByID({ collection: 'users', id: userId, depth: 0 })
+    if (user.calendarToken) return user.calendarToken
+  }
+
+  const calendarToken = randomBytes(24).toString('base64url')
+  await payload.update({ collection: 'users', id: userId, data: { calendarToken }, depth: 0 })
+  return calendarToken
+}
+
+export async function findUserByCalendarToken(
+  payload: Payload,
+  token: string,
+): Promise<User | null> {
+  if (!token) return null
+  const result = await payload.find({
+    collection: 'users',
+    where: { calendarToken: { equals: token } },
+    limit: 1,
+    depth: 0,
+  })
+  return result.docs[0] ?? null
+}
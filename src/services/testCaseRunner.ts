@@ -0,0 +1,84 @@
+// Test Case Runner
+// Runs each test case through /api/execute and compares stdout with the expected output
+
+import { executeCode, type ExecutionResult } from './codeExecution'
+import {
+  compareOutput,
+  type ComparisonOptions,
+  type OutputDiffLine,
+  type TestCase,
+} from '@/utilities/testCases'
+
+export interface TestCaseResult {
+  testCase: TestCase
+  /** Position of the case in the run (0-based) */
+  index: number
+  passed: boolean
+  /** Raw execution result for this case */
+  result: ExecutionResult
+  /** Differing lines between expected and actual stdout */
+  diff: OutputDiffLine[]
+  /** Wall time of the request, including the network round trip */
+  durationMs: number
+}
+
+export interface TestRunSummary {
+  results: TestCaseResult[]
+  passed: number
+  total: number
+  durationMs: number
+}
+
+interface RunTestCasesOptions extends ComparisonOptions {
+  /**
+   * Runs the program with the given stdin.
+   * Defaults to a single-file run of `code`; pass executeFolder for folder projects.
+   */
+  execute?: (input: string) => Promise<ExecutionResult>
+  /** Called after each case finishes (for progress display) */
+  onCaseComplete?: (result: TestCaseResult) => void
+}
+
+/**
+ * Run all test cases sequentially (one /api/execute request per case).
+ * A case passes when the program exits successfully and its stdout matches.
+ *
+ * @param language - Programming language
+ * @param code - Source code to run
+ * @param testCases - Cases with stdin and expected stdout
+ * @param options - Comparison mode/tolerance, custom executor, progress callback
+ */
+export async function runTestCases(
+  language: string,
+  code: string,
+  testCases: TestCase[],
+  options: RunTestCasesOptions = {},
+): Promise<TestRunSummary> {
+  const execute = options.execute ?? ((input: string) => executeCode(language, code, input))
+  const startedAt = Date.now()
+  const results: TestCaseResult[] = []
+
+  for (const [index, testCase] of testCases.entries()) {
+    const caseStartedAt = Date.now()
+    const result = await execute(testCase.input || '')
+    const comparison = compareOutput(testCase.expectedOutput, result.stdout, options)
+
+    const caseResult: TestCaseResult = {
+      testCase,
+      index,
+      passed: result.status === 'success' && comparison.passed,
+      result,
+      diff: comparison.diff,
+      durationMs: Date.now() - caseStartedAt,
+    }
+    results.push(caseResult)
+    options.onCaseComplete?.(caseResult)
+  }
+
+  return {
+    results,
+    passed: results.filter((r) => r.passed).length,
+    total: results.length,
+    durationMs: Date.now() - startedAt,
+  }
+}
@@ -56,6 +56,59 @@ export interface LiveEvent {
   data: any
 }
 
+/**
+ * Data carried by each session event type (see SessionEvent)
+ */
+export interface SessionEventPayloads {
+  /** Trainer broadcast new code or switched file */
+  code_broadcast: {
+    code: string
+    trainerWorkspaceFileId: string | null
+    trainerWorkspaceFileName: string | null
+  }
+  /** Trainer broadcast the output of a run */
+  execution_completed: { output: unknown }
+  language_changed: { language: string }
+  session_ended: { endedAt: string }
+  /** Trainer started a break; resumeAt is when they said they'd be back */
+  session_paused: { pausedAt: string; resumeAt: string | null }
+  session_resumed: { resumedAt: string }
+  /** A hand was raised, claimed or closed; refetch GET /api/sessions/[code]/help */
+  help_queue_changed: Record<string, never>
+  /** The trainer pushed code; `recipientId` is null for the whole class */
+  code_pushed: { pushId: number; recipientId: number | null }
+  /** A poll opened, got an answer or closed; refetch GET /api/sessions/[code]/polls */
+  poll_changed: { pollId: number; reason: 'opened' | 'answered' | 'closed' }
+  /** A chat message was posted or removed; `threadUserId` is set for private threads */
+  chat_message: { messageId: number; threadUserId: number | null; reason: 'posted' | 'deleted' }
+  /** Slow mode changed (`userId` null) or a student was muted or unmuted */
+  chat_settings_changed: { userId: number | null }
+  /** A breakout group started, was renamed or regrouped, got scratchpad or trainer code, or closed */
+  group_changed: {
+    groupId: number
+    reason: 'started' | 'updated' | 'scratchpad' | 'broadcast' | 'closed'
+  }
+  /** The co-host list or the session owner changed */
+  hosts_changed: { trainerId: number | null }
+  /** Someone is waiting to be let into a waiting-room session, or was admitted, denied or gave up */
+  admission_changed: {
+    userId: number
+    status: 'waiting' | 'admitted' | 'denied' | 'withdrawn'
+  }
+  /** Something changed that the event could not carry; refetch GET /api/sessions/[code]/live */
+  refresh: Record<string, never>
+}
+
+export type SessionEventType = keyof SessionEventPayloads
+
+/**
+ * Event pushed to everyone watching a live session (GET /api/sessions/[code]/events).
+ * Server-side counterpart of LiveEvent; the timestamp is an ISO string so it survives JSON.
+ */
+export type SessionEvent = {
+  [K in SessionEventType]: { type: K; timestamp: string; data: SessionEventPayloads[K] }
+}[SessionEventType]
+
 /**
  * User role in a live session
  */
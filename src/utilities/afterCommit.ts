@@ -0,0 +1,53 @@
+import type { BaseDatabaseAdapter, PayloadRequest } from 'payload'
+
+type TransactionId = string | number
+type Task = () => Promise<void> | void
+
+const pending = new Map<TransactionId, Task[]>()
+const tracked = new WeakSet<BaseDatabaseAdapter>()
+
+function run(task: Task): void {
+  Promise.resolve()
+    .then(task)
+    .catch((error) => console.error('[afterCommit] Task failed:', error))
+}
+
+/**
+ * Run `task` once the request's database transaction has committed; tasks of a
+ * transaction that is rolled back are dropped. Payload runs afterChange and
+ * afterOperation hooks before the operation commits, so hooks that tell other
+ * clients about a change (session events) use this to announce only changes
+ * those clients can already read. Runs right away outside a transaction.
+ */
+export function afterCommit(req: PayloadRequest, task: Task): void {
+  const id = req.transactionID
+  if (!tracked.has(req.payload.db) || id == null || id instanceof Promise) {
+    run(task)
+    return
+  }
+  const tasks = pending.get(id)
+  if (tasks) tasks.push(task)
+  else pending.set(id, [task])
+}
+
+/** Hook into the adapter's commit and rollback so afterCommit tasks run (call once, from onInit) */
+export function trackCommits(db: BaseDatabaseAdapter): void {
+  if (tracked.has(db)) return
+  tracked.add(db)
+
+  const commit = db.commitTransaction.bind(db)
+  const rollback = db.rollbackTransaction.bind(db)
+
+  db.commitTransaction = async (transactionID) => {
+    const id = await transactionID
+    const tasks = pending.get(id) ?? []
+    pending.delete(id)
+    await commit(id)
+    tasks.forEach(run)
+  }
+  db.rollbackTransaction = async (transactionID) => {
+    const id = await transactionID
+    pending.delete(id)
+    await rollback(id)
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Apply a pushed session event to the data returned by GET /api/sessions/[code]/live,
+ * so clients stay current without refetching.
+ */
+
+import type { SessionLiveData } from '@/hooks/session/useSessionData'
+import type { SessionEvent } from '@/types/live-session'
+import { getLanguageByFileName } from '@/utilities/languageRegistry'
+
+/**
+ * @returns the updated data, or null when the event can't be applied (refetch instead)
+ */
+export function applySessionEvent(
+  data: SessionLiveData,
+  event: SessionEvent,
+): SessionLiveData | null {
+  switch (event.type) {
+    case 'code_broadcast': {
+      const { code, trainerWorkspaceFileId, trainerWorkspaceFileName } = event.data
+      return {
+        ...data,
+        code,
+        trainerWorkspaceFileId,
+        trainerWorkspaceFileName,
+        // Same priority as /live: the trainer's file name decides the language
+        language:
+          (trainerWorkspaceFileName && getLanguageByFileName(trainerWorkspaceFileName)?.id) ||
+          data.language,
+      }
+    }
+    case 'execution_completed':
+      return { ...data, output: event.data.output }
+    case 'language_changed': {
+      const fromFileName =
+        data.trainerWorkspaceFileName && getLanguageByFileName(data.trainerWorkspaceFileName)?.id
+      return { ...data, language: fromFileName || event.data.language }
+    }
+    case 'session_paused':
+      return { ...data, pausedAt: event.data.pausedAt, resumeAt: event.data.resumeAt }
+    case 'session_resumed':
+      return { ...data, pausedAt: null, resumeAt: null }
+    case 'session_ended':
+      return { ...data, isActive: false, pausedAt: null, resumeAt: null }
+    case 'help_queue_changed':
+    case 'code_pushed':
+    case 'poll_changed':
+    case 'chat_message':
+    case 'chat_settings_changed':
+    case 'group_changed':
+    case 'hosts_changed':
+    case 'admission_changed':
+      // Not part of /live (see useHelpQueue, usePendingPushes, useSessionPolls, useSessionChat,
+      // useBreakoutGroups, useSessionHosts and useAdmissions)
+      return data
+    default:
+      return null
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * CSV exports of the attendance reports (one per session, one per student).
+ * Times are ISO 8601 in UTC so spreadsheets can sort and convert them.
+ */
+
+import type {
+  SessionAttendanceReport,
+  StudentAttendance,
+  StudentAttendanceReport,
+} from '@/services/attendance'
+
+type Cell = string | number | boolean | null
+
+/**
+ * Quote cells with commas, quotes or line breaks (RFC 4180). Text a spreadsheet
+ * would run as a formula (a name like `=HYPERLINK(...)`) gets a leading `'`.
+ */
+function csvCell(value: Cell): string {
+  if (value === null) return ''
+  let text = String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: Cell[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+const ATTENDANCE_COLUMNS = [
+  'Attended minutes',
+  'Attendance %',
+  'Meets minimum',
+  'First joined',
+  'Last seen',
+  'Late (minutes)',
+  'Left early (minutes)',
+  'Visits',
+]
+
+function attendanceCells(attendance: StudentAttendance): Cell[] {
+  return [
+    attendance.attendedMinutes,
+    attendance.percent,
+    attendance.meetsThreshold ? 'yes' : 'no',
+    attendance.firstJoinedAt,
+    attendance.lastSeenAt,
+    attendance.lateMinutes,
+    attendance.leftEarlyMinutes,
+    attendance.visits,
+  ]
+}
+
+export function sessionAttendanceCsv(report: SessionAttendanceReport): string {
+  return toCsv([
+    ['Student', 'Email', ...ATTENDANCE_COLUMNS],
+    ...report.students.map(({ student, ...attendance }) => [
+      student.name,
+      student.email,
+      ...attendanceCells(attendance),
+    ]),
+  ])
+}
+
+export function studentAttendanceCsv(report: StudentAttendanceReport): string {
+  return toCsv([
+    ['Session', 'Join code', 'Started', 'Ended', ...ATTENDANCE_COLUMNS],
+    ...report.sessions.map(({ session, ...attendance }) => [
+      session.title,
+      session.joinCode,
+      session.startedAt,
+      session.endedAt,
+      ...attendanceCells(attendance),
+    ]),
+  ])
+}
@@ -0,0 +1,118 @@
+/**
+ * Attendance of a student in a live session, worked out from their join, leave
+ * and heartbeat events: attended minutes, late arrival and early departure.
+ * Client-safe (no server imports).
+ */
+
+/** How often the student's session page sends a heartbeat */
+export const HEARTBEAT_INTERVAL_MS = 60_000
+/** Gap between events after which the student counts as gone (closed laptop, lost network) */
+export const PRESENCE_TIMEOUT_MS = 3 * HEARTBEAT_INTERVAL_MS
+/** Arriving or leaving this close to the start or end is not flagged */
+export const PUNCTUALITY_GRACE_MINUTES = 5
+export const DEFAULT_MIN_ATTENDANCE_PERCENT = 75
+
+export type AttendanceKind = 'join' | 'leave' | 'heartbeat'
+
+export interface AttendanceEvent {
+  kind: AttendanceKind
+  at: string
+}
+
+/** The part of the session attendance is measured against */
+export interface AttendanceWindow {
+  startedAt: string
+  /** Null while the session is still running */
+  endedAt: string | null
+  /** Arrivals are measured from the later of the planned and the actual start */
+  scheduledStart?: string | null
+}
+
+export interface PresenceInterval {
+  from: number
+  to: number
+}
+
+export interface AttendanceSummary {
+  attendedMinutes: number
+  /** Share of the session attended, 0-100 */
+  percent: number
+  firstJoinedAt: string | null
+  lastSeenAt: string | null
+  lateMinutes: number
+  /** Null while the session is still running */
+  leftEarlyMinutes: number | null
+  /** Separate stretches of presence; dropping out and coming back starts a new one */
+  visits: number
+}
+
+const MINUTE_MS = 60_000
+
+/**
+ * Stretches of time the student was in the session, ending no later than `until`.
+ * A join or heartbeat keeps the student present until the next heartbeat is due;
+ * a leave ends the stretch straight away.
+ */
+export function presenceIntervals(events: AttendanceEvent[], until: number): PresenceInterval[] {
+  const sorted = events
+    .map((event) => ({ kind: event.kind, at: Date.parse(event.at) }))
+    .sort((a, b) => a.at - b.at)
+  const intervals: PresenceInterval[] = []
+  let open: { from: number; lastSeen: number } | null = null
+
+  for (const event of sorted) {
+    if (open) {
+      const stale = event.at - open.lastSeen > PRESENCE_TIMEOUT_MS
+      if (stale || event.kind === 'leave') {
+        const to = stale ? open.lastSeen + HEARTBEAT_INTERVAL_MS : event.at
+        intervals.push({ from: open.from, to: Math.min(to, until) })
+        open = null
+      }
+    }
+    if (event.kind === 'leave') continue
+    if (open) open.lastSeen = event.at
+    else open = { from: event.at, lastSeen: event.at }
+  }
+  if (open) {
+    intervals.push({ from: open.from, to: Math.min(open.lastSeen + HEARTBEAT_INTERVAL_MS, until) })
+  }
+  return intervals
+}
+
+/** Whole minutes past the grace period, or 0 within it */
+function minutesOver(ms: number): number {
+  const minutes = Math.floor(ms / MINUTE_MS)
+  return minutes > PUNCTUALITY_GRACE_MINUTES ? minutes : 0
+}
+
+export function summarizeAttendance(
+  events: AttendanceEvent[],
+  window: AttendanceWindow,
+  now: Date = new Date(),
+): AttendanceSummary {
+  const start = Date.parse(window.startedAt)
+  const end = window.endedAt ? Date.parse(window.endedAt) : now.getTime()
+  const intervals = presenceIntervals(events, end)
+    .map(({ from, to }) => ({ from: Math.max(from, start), to }))
+    .filter(({ from, to }) => to > from)
+
+  const attendedMs = intervals.reduce((total, { from, to }) => total + (to - from), 0)
+  const length = end - start
+  const times = events.map((event) => event.at).sort()
+  const arrivals = events.filter((event) => event.kind !== 'leave').map((event) => event.at)
+
+  const scheduled = window.scheduledStart ? Date.parse(window.scheduledStart) : start
+  const expectedStart = Math.max(start, scheduled)
+  const first = intervals[0]
+  const last = intervals[intervals.length - 1]
+
+  return {
+    attendedMinutes: Math.round(attendedMs / MINUTE_MS),
+    percent: length > 0 ? Math.min(100, Math.round((attendedMs / length) * 100)) : 0,
+    firstJoinedAt: arrivals.sort()[0] ?? null,
+    lastSeenAt: times[times.length - 1] ?? null,
+    lateMinutes: first ? minutesOver(first.from - expectedStart) : 0,
+    leftEarlyMinutes: !window.endedAt ? null : last ? minutesOver(end - last.to) : 0,
+    visits: intervals.length,
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Markdown transcript of a session chat, for the export at session end.
+ * Times are shown in the session's time zone (UTC when it has none).
+ */
+
+import type { ChatMessageItem } from '@/services/sessionChat'
+
+export interface TranscriptSession {
+  title: string
+  joinCode: string
+  timezone?: string | null
+}
+
+function formatTime(iso: string, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).format(new Date(iso))
+}
+
+function speaker(message: ChatMessageItem): string {
+  const name = message.sender.staff ? `${message.sender.name} (trainer)` : message.sender.name
+  if (message.visibility !== 'private') return name
+  if (message.sender.staff) return `${name} → ${message.thread?.name ?? 'student'} (private)`
+  return `${name} → trainers (private)`
+}
+
+/** Code fence long enough that backticks inside the code can't close it */
+function fenceFor(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length))
+  return '`'.repeat(Math.max(3, longest + 1))
+}
+
+export function buildChatTranscript(
+  session: TranscriptSession,
+  messages: ChatMessageItem[],
+): string {
+  const timeZone = session.timezone || 'UTC'
+  const lines = [`# Chat: ${session.title} (${session.joinCode})`, '']
+  const first = messages[0]
+  if (first) {
+    const day = new Intl.DateTimeFormat('en-GB', { timeZone, dateStyle: 'long' }).format(
+      new Date(first.sentAt),
+    )
+    lines.push(`${day}, times in ${timeZone}`, '')
+  } else {
+    lines.push('No messages.', '')
+  }
+
+  for (const message of messages) {
+    const heading = `**${formatTime(message.sentAt, timeZone)} ${speaker(message)}:**`
+    if (message.deleted) {
+      lines.push(`${heading} _message removed by a trainer_`, '')
+      continue
+    }
+    lines.push(message.body ? `${heading} ${message.body}` : heading)
+    if (message.code) {
+      const fence = fenceFor(message.code)
+      lines.push(`${fence}${message.language ?? ''}`, message.code.replace(/\n$/, ''), fence)
+    }
+    lines.push('')
+  }
+
+  return lines.join('\n')
+}
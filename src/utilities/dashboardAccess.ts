@@ -4,7 +4,7 @@ import type { User } from '@/payload-types'
  * Check if user can access the dashboard
  * Only admin, manager, and trainer roles can access
  */
-export function checkDashboardAccess(user: User | null | undefined): boolean {
+export function checkDashboardAccess(user: Pick<User, 'role'> | null | undefined): boolean {
   if (!user) return false
   return user.role === 'admin' || user.role === 'manager' || user.role === 'trainer'
 }
@@ -45,7 +45,7 @@ export function canEditFiles(user: User | null | undefined): boolean {
 /**
  * Check if user is staff (admin, manager, or trainer)
  */
-export function isStaff(user: User | null | undefined): boolean {
+export function isStaff(user: Pick<User, 'role'> | null | undefined): boolean {
   return checkDashboardAccess(user)
 }
 
@@ -0,0 +1,9 @@
+/**
+ * Error text of a stored run output (ExecutionResult-like), or null if the run succeeded
+ */
+export function lastErrorFromOutput(output: unknown): string | null {
+  if (!output || typeof output !== 'object') return null
+  const { status, stderr } = output as { status?: string; stderr?: string }
+  if (!status || status === 'success') return null
+  return stderr?.trim() || status
+}
@@ -0,0 +1,78 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for the schedule feed.
+ * Times are written in UTC, so no VTIMEZONE blocks are needed.
+ */
+
+export interface CalendarEvent {
+  /** Globally unique and stable across feed refreshes */
+  uid: string
+  start: Date
+  end: Date
+  summary: string
+  description?: string
+  url?: string
+  /** Last change to the event; calendar apps use it to pick up edits */
+  updatedAt?: Date
+}
+
+function formatDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/** Lines longer than 75 octets continue on the next line after a space */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+
+  const lines: string[] = []
+  let current = ''
+  for (const char of line) {
+    const limit = lines.length === 0 ? 75 : 74
+    if (encoder.encode(current + char).length > limit) {
+      lines.push(current)
+      current = ''
+    }
+    current += char
+  }
+  lines.push(current)
+  return lines.join('\r\n ')
+}
+
+export function buildCalendar(name: string, events: CalendarEvent[], now = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CodeHub//Live Sessions//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ]
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatDate(event.updatedAt ?? now)}`,
+      `DTSTART:${formatDate(event.start)}`,
+      `DTEND:${formatDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    )
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    if (event.url) lines.push(`URL:${event.url}`)
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
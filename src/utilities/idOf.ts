@@ -0,0 +1,9 @@
+/**
+ * ID of a relationship value, whether it was populated (an object) or is just the ID
+ */
+export function idOf(value: { id: number } | number): number
+export function idOf(value: { id: number } | number | null | undefined): number | null
+export function idOf(value: { id: number } | number | null | undefined): number | null {
+  if (value == null) return null
+  return typeof value === 'object' ? value.id : value
+}
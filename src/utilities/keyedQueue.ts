@@ -0,0 +1,18 @@
+const tails = new Map<string, Promise<unknown>>()
+
+/**
+ * Run `task` after every earlier task queued under the same key has settled.
+ * Used for read-modify-write updates of a session's co-hosts and breakout
+ * groups so changes arriving together don't overwrite each other. Only
+ * serializes within this server process.
+ */
+export function runExclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = tails.get(key) ?? Promise.resolve()
+  const result = previous.then(task, task)
+  const tail = result.catch(() => undefined)
+  tails.set(key, tail)
+  tail.then(() => {
+    if (tails.get(key) === tail) tails.delete(key)
+  })
+  return result
+}
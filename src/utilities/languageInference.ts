@@ -4,7 +4,7 @@
  * @module languageInference
  */
 
-import { SUPPORTED_LANGUAGES } from '@/components/LiveCodePlayground/types'
+import { getLanguageByFileName } from '@/utilities/languageRegistry'
 
 /**
  * Infers programming language from file name based on file extension.
@@ -32,9 +32,7 @@ export function inferLanguageFromFileName(
     return fallback
   }
   
-  const byExt = SUPPORTED_LANGUAGES.find(
-    (lang) => lang.extension.replace('.', '') === ext
-  )
+  const byExt = getLanguageByFileName(fileName)
   
   if (byExt) {
     console.log('[languageInference] Language inferred from extension', { fileName, ext, language: byExt.id })
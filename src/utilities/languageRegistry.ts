@@ -0,0 +1,435 @@
+/**
+ * Language registry: the single source of language knowledge.
+ *
+ * Used by the execution backends (OneCompiler id, entry file name, limits),
+ * the editors (Monaco id, default code), file → language inference and the
+ * `languages` collection, which is seeded and kept in sync from this list
+ * (see `syncLanguagesCollection`). To add a language, add an entry here.
+ *
+ * Client-safe: no server-only imports.
+ *
+ * @module languageRegistry
+ */
+
+/** Resource limits for one run (enforced by the local runner) */
+export interface LanguageLimits {
+  /** CPU time per process in seconds */
+  cpuTimeSeconds: number
+  /** Wall-clock time in milliseconds */
+  wallTimeMs: number
+  /** Memory available to the program in MB */
+  memoryMb: number
+  /** Maximum bytes captured per output stream */
+  maxOutputBytes: number
+}
+
+/** Server-side formatter behind /api/format */
+export type LanguageFormatter = 'prettier' | 'python'
+
+/** Server-side checker behind /api/lint */
+export type LanguageLinter = 'typescript' | 'python'
+
+export interface LanguageDefinition {
+  /** Language ID used everywhere (`languages.slug`, execute requests, editor state) */
+  id: string
+  /** Display name */
+  name: string
+  /** Monaco editor language ID */
+  monacoLanguage: string
+  /** File extensions with the dot; the first one is used for new files */
+  extensions: string[]
+  /** Name of the entry file for single-file runs */
+  entryFileName: string
+  /** Language identifier on the OneCompiler API */
+  oneCompilerId: string
+  /** Starter code for new files and the playground */
+  defaultCode: string
+  /** Overrides of DEFAULT_LANGUAGE_LIMITS (e.g. slower JVM start-up) */
+  limits?: Partial<LanguageLimits>
+  /** Formatter for the editor's Format action; none when absent */
+  formatter?: LanguageFormatter
+  /** Checker for editor diagnostics; none when absent */
+  linter?: LanguageLinter
+}
+
+export const DEFAULT_LANGUAGE_LIMITS: LanguageLimits = {
+  cpuTimeSeconds: 5,
+  wallTimeMs: 10_000,
+  memoryMb: 256,
+  maxOutputBytes: 64 * 1024,
+}
+
+export const LANGUAGES: LanguageDefinition[] = [
+  {
+    id: 'javascript',
+    name: 'JavaScript',
+    monacoLanguage: 'javascript',
+    extensions: ['.js'],
+    entryFileName: 'index.js',
+    oneCompilerId: 'nodejs',
+    defaultCode: '// Write your JavaScript code here\nconsole.log("Hello, World!");',
+    formatter: 'prettier',
+    linter: 'typescript',
+  },
+  {
+    id: 'nodejs',
+    name: 'Node.js',
+    monacoLanguage: 'javascript',
+    extensions: ['.js'],
+    entryFileName: 'index.js',
+    oneCompilerId: 'nodejs',
+    defaultCode: '// Write your Node.js code here\nconsole.log("Hello from Node.js!");',
+    formatter: 'prettier',
+    linter: 'typescript',
+  },
+  {
+    id: 'typescript',
+    name: 'TypeScript',
+    monacoLanguage: 'typescript',
+    extensions: ['.ts'],
+    entryFileName: 'index.ts',
+    oneCompilerId: 'typescript',
+    defaultCode: '// Write your TypeScript code here\nconst message: string = "Hello, TypeScript!";\nconsole.log(message);',
+    formatter: 'prettier',
+    linter: 'typescript',
+  },
+  {
+    id: 'python',
+    name: 'Python',
+    monacoLanguage: 'python',
+    extensions: ['.py'],
+    entryFileName: 'main.py',
+    oneCompilerId: 'python',
+    defaultCode: '# Write your Python code here\nprint("Hello, World!")',
+    formatter: 'python',
+    linter: 'python',
+  },
+  {
+    id: 'python2',
+    name: 'Python 2',
+    monacoLanguage: 'python',
+    extensions: ['.py'],
+    entryFileName: 'main.py',
+    oneCompilerId: 'python2',
+    defaultCode: '# Write your Python 2 code here\nprint "Hello, World!"',
+  },
+  {
+    id: 'c',
+    name: 'C',
+    monacoLanguage: 'c',
+    extensions: ['.c'],
+    entryFileName: 'main.c',
+    oneCompilerId: 'c',
+    defaultCode: `#include <stdio.h>
+
+int main() {
+    printf("Hello, World!\\n");
+    return 0;
+}`,
+  },
+  {
+    id: 'cpp',
+    name: 'C++',
+    monacoLanguage: 'cpp',
+    extensions: ['.cpp', '.cc', '.cxx'],
+    entryFileName: 'main.cpp',
+    oneCompilerId: 'cpp',
+    defaultCode: `#include <iostream>
+using namespace std;
+
+int main() {
+    cout << "Hello, World!" << endl;
+    return 0;
+}`,
+  },
+  {
+    id: 'java',
+    name: 'Java',
+    monacoLanguage: 'java',
+    extensions: ['.java'],
+    entryFileName: 'Main.java',
+    oneCompilerId: 'java',
+    limits: { cpuTimeSeconds: 10, wallTimeMs: 20_000 },
+    defaultCode: `public class Main {
+    public static void main(String[] args) {
+        System.out.println("Hello, World!");
+    }
+}`,
+  },
+  {
+    id: 'csharp',
+    name: 'C#',
+    monacoLanguage: 'csharp',
+    extensions: ['.cs'],
+    entryFileName: 'Program.cs',
+    oneCompilerId: 'csharp',
+    limits: { cpuTimeSeconds: 10, wallTimeMs: 20_000 },
+    defaultCode: `using System;
+
+class Program {
+    static void Main() {
+        Console.WriteLine("Hello, World!");
+    }
+}`,
+  },
+  {
+    id: 'php',
+    name: 'PHP',
+    monacoLanguage: 'php',
+    extensions: ['.php'],
+    entryFileName: 'index.php',
+    oneCompilerId: 'php',
+    defaultCode: '<?php\necho "Hello, World!";\n?>',
+  },
+  {
+    id: 'ruby',
+    name: 'Ruby',
+    monacoLanguage: 'ruby',
+    extensions: ['.rb'],
+    entryFileName: 'main.rb',
+    oneCompilerId: 'ruby',
+    defaultCode: '# Write your Ruby code here\nputs "Hello, World!"',
+  },
+  {
+    id: 'go',
+    name: 'Go',
+    monacoLanguage: 'go',
+    extensions: ['.go'],
+    entryFileName: 'main.go',
+    oneCompilerId: 'go',
+    defaultCode: `package main
+
+import "fmt"
+
+func main() {
+    fmt.Println("Hello, World!")
+}`,
+  },
+  {
+    id: 'rust',
+    name: 'Rust',
+    monacoLanguage: 'rust',
+    extensions: ['.rs'],
+    entryFileName: 'main.rs',
+    oneCompilerId: 'rust',
+    defaultCode: 'fn main() {\n    println!("Hello, World!");\n}',
+  },
+  {
+    id: 'kotlin',
+    name: 'Kotlin',
+    monacoLanguage: 'kotlin',
+    extensions: ['.kt'],
+    entryFileName: 'Main.kt',
+    oneCompilerId: 'kotlin',
+    limits: { cpuTimeSeconds: 10, wallTimeMs: 20_000 },
+    defaultCode: 'fun main() {\n    println("Hello, World!")\n}',
+  },
+  {
+    id: 'swift',
+    name: 'Swift',
+    monacoLanguage: 'swift',
+    extensions: ['.swift'],
+    entryFileName: 'main.swift',
+    oneCompilerId: 'swift',
+    defaultCode: 'import Swift\n\nprint("Hello, World!")',
+  },
+  {
+    id: 'scala',
+    name: 'Scala',
+    monacoLanguage: 'scala',
+    extensions: ['.scala'],
+    entryFileName: 'Main.scala',
+    oneCompilerId: 'scala',
+    limits: { cpuTimeSeconds: 10, wallTimeMs: 20_000 },
+    defaultCode: 'object Main extends App {\n  println("Hello, World!")\n}',
+  },
+  {
+    id: 'perl',
+    name: 'Perl',
+    monacoLanguage: 'perl',
+    extensions: ['.pl'],
+    entryFileName: 'main.pl',
+    oneCompilerId: 'perl',
+    defaultCode: '#!/usr/bin/perl\nprint "Hello, World!\\n";',
+  },
+  {
+    id: 'r',
+    name: 'R',
+    monacoLanguage: 'r',
+    extensions: ['.r'],
+    entryFileName: 'main.r',
+    oneCompilerId: 'r',
+    defaultCode: '# Write your R code here\nprint("Hello, World!")',
+  },
+  {
+    id: 'dart',
+    name: 'Dart',
+    monacoLanguage: 'dart',
+    extensions: ['.dart'],
+    entryFileName: 'main.dart',
+    oneCompilerId: 'dart',
+    defaultCode: 'void main() {\n  print("Hello, World!");\n}',
+  },
+  {
+    id: 'lua',
+    name: 'Lua',
+    monacoLanguage: 'lua',
+    extensions: ['.lua'],
+    entryFileName: 'main.lua',
+    oneCompilerId: 'lua',
+    defaultCode: '-- Write your Lua code here\nprint("Hello, World!")',
+  },
+  {
+    id: 'bash',
+    name: 'Bash',
+    monacoLanguage: 'shell',
+    extensions: ['.sh'],
+    entryFileName: 'script.sh',
+    oneCompilerId: 'bash',
+    defaultCode: '#!/bin/bash\necho "Hello, World!"',
+  },
+  {
+    id: 'shell',
+    name: 'Shell',
+    monacoLanguage: 'shell',
+    extensions: ['.sh'],
+    entryFileName: 'script.sh',
+    oneCompilerId: 'bash',
+    defaultCode: '#!/bin/sh\necho "Hello, World!"',
+  },
+  {
+    id: 'haskell',
+    name: 'Haskell',
+    monacoLanguage: 'haskell',
+    extensions: ['.hs'],
+    entryFileName: 'main.hs',
+    oneCompilerId: 'haskell',
+    defaultCode: 'main :: IO ()\nmain = putStrLn "Hello, World!"',
+  },
+  {
+    id: 'elixir',
+    name: 'Elixir',
+    monacoLanguage: 'elixir',
+    extensions: ['.ex'],
+    entryFileName: 'main.ex',
+    oneCompilerId: 'elixir',
+    defaultCode: 'IO.puts "Hello, World!"',
+  },
+  {
+    id: 'erlang',
+    name: 'Erlang',
+    monacoLanguage: 'erlang',
+    extensions: ['.erl'],
+    entryFileName: 'main.erl',
+    oneCompilerId: 'erlang',
+    defaultCode: '-module(main).\n-export([start/0]).\n\nstart() ->\n    io:fwrite("Hello, World!\\n").',
+  },
+  {
+    id: 'clojure',
+    name: 'Clojure',
+    monacoLanguage: 'clojure',
+    extensions: ['.clj'],
+    entryFileName: 'main.clj',
+    oneCompilerId: 'clojure',
+    limits: { cpuTimeSeconds: 10, wallTimeMs: 20_000 },
+    defaultCode: '(println "Hello, World!")',
+  },
+  {
+    id: 'groovy',
+    name: 'Groovy',
+    monacoLanguage: 'groovy',
+    extensions: ['.groovy'],
+    entryFileName: 'Main.groovy',
+    oneCompilerId: 'groovy',
+    limits: { cpuTimeSeconds: 10, wallTimeMs: 20_000 },
+    defaultCode: 'println "Hello, World!"',
+  },
+  {
+    id: 'objectivec',
+    name: 'Objective-C',
+    monacoLanguage: 'objective-c',
+    extensions: ['.m'],
+    entryFileName: 'main.m',
+    oneCompilerId: 'objectivec',
+    defaultCode: '#import <Foundation/Foundation.h>\n\nint main() {\n    NSLog(@"Hello, World!");\n    return 0;\n}',
+  },
+  {
+    id: 'fsharp',
+    name: 'F#',
+    monacoLanguage: 'fsharp',
+    extensions: ['.fs'],
+    entryFileName: 'Program.fs',
+    oneCompilerId: 'fsharp',
+    limits: { cpuTimeSeconds: 10, wallTimeMs: 20_000 },
+    defaultCode: 'printfn "Hello, World!"',
+  },
+  {
+    id: 'assembly',
+    name: 'Assembly',
+    monacoLanguage: 'asm',
+    extensions: ['.asm'],
+    entryFileName: 'main.asm',
+    oneCompilerId: 'assembly',
+    defaultCode: '; Assembly code\nsection .data\n    msg db "Hello, World!", 0xa\n\nsection .text\n    global _start\n\n_start:\n    mov rax, 1\n    mov rdi, 1\n    mov rsi, msg\n    mov rdx, 14\n    syscall\n    mov rax, 60\n    xor rdi, rdi\n    syscall',
+  },
+  {
+    id: 'fortran',
+    name: 'Fortran',
+    monacoLanguage: 'fortran',
+    extensions: ['.f90', '.f'],
+    entryFileName: 'main.f90',
+    oneCompilerId: 'fortran',
+    defaultCode: 'program hello\n    print *, "Hello, World!"\nend program hello',
+  },
+  {
+    id: 'cobol',
+    name: 'COBOL',
+    monacoLanguage: 'cobol',
+    extensions: ['.cob'],
+    entryFileName: 'main.cob',
+    oneCompilerId: 'cobol',
+    defaultCode: 'IDENTIFICATION DIVISION.\nPROGRAM-ID. HELLO.\nPROCEDURE DIVISION.\n    DISPLAY "Hello, World!".\n    STOP RUN.',
+  },
+  {
+    id: 'pascal',
+    name: 'Pascal',
+    monacoLanguage: 'pascal',
+    extensions: ['.pas'],
+    entryFileName: 'main.pas',
+    oneCompilerId: 'pascal',
+    defaultCode: 'program Hello;\nbegin\n  writeln(\'Hello, World!\');\nend.',
+  },
+]
+
+const LANGUAGES_BY_ID = new Map(LANGUAGES.map((language) => [language.id, language]))
+
+/** Registry entry for a language ID (case-insensitive) */
+export function getLanguage(id: string | null | undefined): LanguageDefinition | undefined {
+  if (!id) return undefined
+  return LANGUAGES_BY_ID.get(id.toLowerCase())
+}
+
+export function isKnownLanguage(id: string | null | undefined): boolean {
+  return getLanguage(id) !== undefined
+}
+
+/** Primary file extension (with the dot) */
+export function getPrimaryExtension(language: LanguageDefinition): string {
+  return language.extensions[0]!
+}
+
+/**
+ * Language for a file name by extension. When several languages share an
+ * extension (.js, .py, .sh), the first registry entry wins.
+ */
+export function getLanguageByFileName(fileName: string): LanguageDefinition | undefined {
+  const parts = fileName.split('.')
+  if (parts.length < 2) return undefined
+  const extension = `.${parts.pop()!.toLowerCase()}`
+  return LANGUAGES.find((language) => language.extensions.includes(extension))
+}
+
+/** Registry limits for a language merged over DEFAULT_LANGUAGE_LIMITS */
+export function getLanguageLimits(id: string): LanguageLimits {
+  return { ...DEFAULT_LANGUAGE_LIMITS, ...getLanguage(id)?.limits }
+}
@@ -2,36 +2,59 @@
  * Utility functions for checking and handling session expiration
  */
 
+/** Sessions expire after this much active (unpaused) time */
+export const SESSION_MAX_ACTIVE_MS = 24 * 60 * 60 * 1000
+
+/** Break bookkeeping of a live session (see POST /api/sessions/[code]/pause) */
+export interface SessionPauseFields {
+  /** Start of the current break, if paused */
+  pausedAt?: string | Date | null
+  /** Total seconds of earlier, finished breaks */
+  pausedSeconds?: number | null
+}
+
+/**
+ * Milliseconds the session has been live, not counting breaks
+ * @param sessionStartTime - When the session started
+ * @param pause - Break bookkeeping; omit for sessions that were never paused
+ */
+export function getActiveDurationMs(
+  sessionStartTime: string | Date,
+  pause: SessionPauseFields = {},
+  now: Date = new Date()
+): number {
+  const elapsed = now.getTime() - new Date(sessionStartTime).getTime()
+  const currentBreak = pause.pausedAt ? now.getTime() - new Date(pause.pausedAt).getTime() : 0
+  return elapsed - (pause.pausedSeconds || 0) * 1000 - Math.max(0, currentBreak)
+}
+
 /**
- * Check if a session has expired (older than 24 hours)
+ * Check if a session has expired (more than 24 hours of active time; breaks don't count)
  * @param startedAt - Session start time (ISO string or Date)
  * @param createdAt - Session creation time as fallback (ISO string or Date)
- * @returns true if session is older than 24 hours
+ * @param pause - Break bookkeeping, so paused time is not counted
+ * @returns true if session has been active for more than 24 hours
  */
-export function isSessionExpired(startedAt: string | Date | null | undefined, createdAt?: string | Date | null | undefined): boolean {
-  const twentyFourHoursAgo = new Date()
-  twentyFourHoursAgo.setHours(twentyFourHoursAgo.getHours() - 24)
-
+export function isSessionExpired(
+  startedAt: string | Date | null | undefined,
+  createdAt?: string | Date | null | undefined,
+  pause?: SessionPauseFields
+): boolean {
   const sessionStartTime = startedAt || createdAt
   if (!sessionStartTime) {
     // If no start time, consider it expired (shouldn't happen, but defensive)
     return true
   }
 
-  const startDate = typeof sessionStartTime === 'string' 
-    ? new Date(sessionStartTime) 
-    : sessionStartTime
-
-  return startDate < twentyFourHoursAgo
+  return getActiveDurationMs(sessionStartTime, pause) > SESSION_MAX_ACTIVE_MS
 }
 
 /**
- * Get the cutoff date for session expiration (24 hours ago)
+ * Get the cutoff date for session expiration (24 hours ago).
+ * Sessions that started after it can't have expired; older ones may still be
+ * within their limit if they were paused, so check them with isSessionExpired.
  * @returns Date object representing 24 hours ago
  */
 export function getSessionExpirationCutoff(): Date {
-  const cutoff = new Date()
-  cutoff.setHours(cutoff.getHours() - 24)
-  return cutoff
+  return new Date(Date.now() - SESSION_MAX_ACTIVE_MS)
 }
-
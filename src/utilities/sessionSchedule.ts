@@ -0,0 +1,84 @@
+/**
+ * Helpers for scheduled live sessions: durations, time zones and status.
+ * Client-safe (no server imports).
+ */
+
+export const DEFAULT_SESSION_DURATION_MINUTES = 60
+export const MIN_SESSION_DURATION_MINUTES = 5
+export const MAX_SESSION_DURATION_MINUTES = 8 * 60
+
+/** Fields of a live session that decide whether it is waiting to be opened */
+export interface ScheduleFields {
+  isActive?: boolean | null
+  startedAt?: string | null
+  endedAt?: string | null
+  scheduledStart?: string | null
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Milliseconds to add to UTC to get the wall-clock time in `timeZone` at `date` */
+function timeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date)
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value)
+  const wallClock = Date.UTC(
+    value('year'),
+    value('month') - 1,
+    value('day'),
+    value('hour'),
+    value('minute'),
+    value('second'),
+  )
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * Parse a scheduled start time. Values with a `Z` or UTC offset are absolute;
+ * plain `YYYY-MM-DDTHH:mm` values (from a datetime-local input) are read as
+ * wall-clock time in `timeZone`. Returns null when the value can't be parsed.
+ */
+export function parseScheduledStart(value: string, timeZone: string): Date | null {
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? null : date
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(value)
+  if (!match || !isValidTimeZone(timeZone)) return null
+
+  const [, year, month, day, hour, minute, second = '0'] = match
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)
+  if (isNaN(wallClock)) return null
+
+  // The offset can differ on either side of a DST change, so check it at the result
+  let utc = wallClock - timeZoneOffset(new Date(wallClock), timeZone)
+  const offset = timeZoneOffset(new Date(utc), timeZone)
+  if (wallClock - offset !== utc) utc = wallClock - offset
+  return new Date(utc)
+}
+
+export function getScheduledEnd(scheduledStart: string | Date, durationMinutes?: number | null) {
+  const start = new Date(scheduledStart)
+  return new Date(start.getTime() + (durationMinutes || DEFAULT_SESSION_DURATION_MINUTES) * 60_000)
+}
+
+/** Scheduled and not opened (or cancelled) yet */
+export function isSessionScheduled(session: ScheduleFields): boolean {
+  return !session.isActive && !session.startedAt && !session.endedAt && !!session.scheduledStart
+}
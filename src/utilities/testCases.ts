@@ -0,0 +1,125 @@
+/**
+ * Test case types and expected-output comparison used by the test runner.
+ *
+ * Comparison modes:
+ * - exact: identical output (line endings and trailing newlines ignored)
+ * - whitespace: same whitespace-separated tokens (spacing and line breaks ignored)
+ * - float: like whitespace, but numeric tokens may differ by `floatTolerance`
+ *
+ * @module utilities/testCases
+ */
+
+export type ComparisonMode = 'exact' | 'whitespace' | 'float'
+
+export const DEFAULT_COMPARISON_MODE: ComparisonMode = 'whitespace'
+export const DEFAULT_FLOAT_TOLERANCE = 1e-6
+
+export interface TestCase {
+  id?: string | null
+  name?: string | null
+  input?: string | null
+  expectedOutput: string
+}
+
+export interface ComparisonOptions {
+  mode?: ComparisonMode
+  /** Absolute or relative tolerance for numeric tokens in 'float' mode */
+  floatTolerance?: number
+}
+
+/** One line that differs between expected and actual output (1-based line number) */
+export interface OutputDiffLine {
+  line: number
+  expected: string | null
+  actual: string | null
+}
+
+export interface ComparisonResult {
+  passed: boolean
+  /** Differing lines (empty when passed) */
+  diff: OutputDiffLine[]
+}
+
+/** Cap on reported diff lines so huge outputs stay readable */
+const MAX_DIFF_LINES = 50
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/
+
+function normalizeNewlines(text: string): string {
+  return text.replace(/\r\n?/g, '\n').replace(/\n+$/, '')
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean)
+}
+
+function tokensEqual(expected: string, actual: string, tolerance: number): boolean {
+  if (expected === actual) return true
+  if (!NUMBER_PATTERN.test(expected) || !NUMBER_PATTERN.test(actual)) return false
+  const a = Number(expected)
+  const b = Number(actual)
+  const delta = Math.abs(a - b)
+  return delta <= tolerance || delta <= tolerance * Math.abs(a)
+}
+
+function textsMatch(expected: string, actual: string, options: Required<ComparisonOptions>): boolean {
+  if (options.mode === 'exact') return expected === actual
+
+  const expectedTokens = tokenize(expected)
+  const actualTokens = tokenize(actual)
+  if (expectedTokens.length !== actualTokens.length) return false
+
+  // 'whitespace' mode uses zero tolerance, so only identical tokens match
+  const tolerance = options.mode === 'float' ? options.floatTolerance : 0
+  return expectedTokens.every((token, i) => tokensEqual(token, actualTokens[i]!, tolerance))
+}
+
+/**
+ * Compare program output against the expected output.
+ *
+ * @example
+ * ```ts
+ * compareOutput('3.14159\n', '3.1416', { mode: 'float', floatTolerance: 1e-3 })
+ * // { passed: true, diff: [] }
+ * ```
+ */
+export function compareOutput(
+  expectedOutput: string,
+  actualOutput: string,
+  options: ComparisonOptions = {},
+): ComparisonResult {
+  const resolved: Required<ComparisonOptions> = {
+    mode: options.mode ?? DEFAULT_COMPARISON_MODE,
+    floatTolerance: options.floatTolerance ?? DEFAULT_FLOAT_TOLERANCE,
+  }
+  const expected = normalizeNewlines(expectedOutput)
+  const actual = normalizeNewlines(actualOutput)
+
+  if (textsMatch(expected, actual, resolved)) {
+    return { passed: true, diff: [] }
+  }
+
+  // Line-by-line diff, using the same rules per line (blank lines are skipped outside exact mode)
+  const splitLines = (text: string) => {
+    const lines = text === '' ? [] : text.split('\n')
+    return resolved.mode === 'exact' ? lines : lines.filter((line) => line.trim() !== '')
+  }
+  const expectedLines = splitLines(expected)
+  const actualLines = splitLines(actual)
+
+  const diff: OutputDiffLine[] = []
+  const lineCount = Math.max(expectedLines.length, actualLines.length)
+  for (let i = 0; i < lineCount && diff.length < MAX_DIFF_LINES; i++) {
+    const expectedLine = expectedLines[i] ?? null
+    const actualLine = actualLines[i] ?? null
+    if (
+      expectedLine === null ||
+      actualLine === null ||
+      !textsMatch(expectedLine, actualLine, resolved)
+    ) {
+      diff.push({ line: i + 1, expected: expectedLine, actual: actualLine })
+    }
+  }
+
+  return { passed: false, diff }
+}
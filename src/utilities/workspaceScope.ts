@@ -59,3 +59,37 @@ export function buildFolderPathChain(folder: BasicFolderRef | null | undefined):
 }
 
 
+
+/**
+ * Collect the IDs of `rootFolderId` and every folder nested below it.
+ * Works with both embedded parentFolder objects (depth >= 1) and raw IDs (depth 0).
+ */
+export function getFolderSubtreeIds(
+  folders: Array<{ id: string | number; parentFolder?: unknown }>,
+  rootFolderId: string | number,
+): Set<string> {
+  const childrenByParent = new Map<string, string[]>()
+  for (const folder of folders) {
+    const parent = folder.parentFolder
+    const parentId =
+      parent && typeof parent === 'object' && 'id' in parent
+        ? String((parent as { id: string | number }).id)
+        : parent != null
+          ? String(parent)
+          : null
+    if (!parentId) continue
+    const siblings = childrenByParent.get(parentId) ?? []
+    siblings.push(String(folder.id))
+    childrenByParent.set(parentId, siblings)
+  }
+
+  const subtree = new Set<string>()
+  const queue = [String(rootFolderId)]
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    if (subtree.has(id)) continue
+    subtree.add(id)
+    queue.push(...(childrenByParent.get(id) ?? []))
+  }
+  return subtree
+}
@@ -0,0 +1,727 @@
+/**
+ * In-memory stand-in for the Payload local API, for service and route specs
+ * that cannot reach Postgres. Documents live in plain arrays per collection;
+ * `where`, `sort`, pagination, `depth: 1` population, default values and unique
+ * indexes follow the collection configs of src/collections, so specs exercise
+ * the real queries instead of matching their shape.
+ *
+ * Raw conditional UPDATEs (`payload.db.drizzle.execute`) are interpreted too:
+ * `UPDATE "table" SET "col" = expr, ... WHERE cond RETURNING "col"`, with
+ * parameters, `+`/`-`, COALESCE, comparisons, IS [NOT] NULL, AND, OR and NOT.
+ *
+ * Not covered: hooks, access control (every call behaves as overrideAccess),
+ * transactions, `select` (whole documents are returned) and depth beyond 1.
+ */
+
+import type { SQL } from '@payloadcms/db-postgres/drizzle'
+import { PgDialect } from '@payloadcms/db-postgres/drizzle/pg-core'
+import { NotFound, ValidationError } from 'payload'
+import type { CollectionConfig, Field, Payload, Where } from 'payload'
+import { CodePushes } from '@/collections/CodePushes'
+import { CodePushResponses } from '@/collections/CodePushResponses'
+import { Cohorts } from '@/collections/Cohorts'
+import { Executions } from '@/collections/Executions'
+import { Files } from '@/collections/Files'
+import { Folders } from '@/collections/Folders'
+import { HelpRequests } from '@/collections/HelpRequests'
+import { Languages } from '@/collections/Languages'
+import { LiveSessions } from '@/collections/LiveSessions'
+import { PasscodeAttempts } from '@/collections/PasscodeAttempts'
+import { SessionAdmissions } from '@/collections/SessionAdmissions'
+import { SessionAttendance } from '@/collections/SessionAttendance'
+import { SessionGroups } from '@/collections/SessionGroups'
+import { SessionMessages } from '@/collections/SessionMessages'
+import { SessionParticipants } from '@/collections/SessionParticipants'
+import { SessionPollAnswers } from '@/collections/SessionPollAnswers'
+import { SessionPolls } from '@/collections/SessionPolls'
+import { SessionSnapshots } from '@/collections/SessionSnapshots'
+import { Users } from '@/collections/Users'
+
+export type Doc = Record<string, any>
+
+const COLLECTIONS: CollectionConfig[] = [
+  CodePushes,
+  CodePushResponses,
+  Cohorts,
+  Executions,
+  Files,
+  Folders,
+  HelpRequests,
+  Languages,
+  LiveSessions,
+  PasscodeAttempts,
+  SessionAdmissions,
+  SessionAttendance,
+  SessionGroups,
+  SessionMessages,
+  SessionParticipants,
+  SessionPollAnswers,
+  SessionPolls,
+  SessionSnapshots,
+  Users,
+]
+
+export interface FakePayload {
+  payload: Payload
+  /** The stored documents of a collection (live, not copies) */
+  docs: (collection: string) => Doc[]
+  /** Replace a global, e.g. `platform-settings` */
+  setGlobal: (slug: string, data: Doc) => void
+}
+
+type Seed = Record<string, Doc[]>
+
+interface FindArgs {
+  collection: string
+  where?: Where
+  sort?: string | string[]
+  limit?: number
+  page?: number
+  pagination?: boolean
+  depth?: number
+}
+
+interface FakeOptions {
+  /** Globals by slug, e.g. `platform-settings` */
+  globals?: Record<string, Doc>
+  /** Clock for createdAt/updatedAt stamps (defaults to Date.now) */
+  now?: () => number
+}
+
+/**
+ * Create an empty fake, optionally seeded with documents per collection slug.
+ * Seeded documents keep their ids (or get the next free one); created ones
+ * count on from the highest.
+ */
+export function createFakePayload(seed: Seed = {}, options: FakeOptions = {}): FakePayload {
+  const store = new Map<string, Doc[]>()
+  const nextIds = new Map<string, number>()
+  const globalStore = new Map(Object.entries(options.globals ?? {}))
+  let lastStamp = -Infinity
+
+  const docsOf = (collection: string): Doc[] => {
+    if (!store.has(collection)) store.set(collection, [])
+    return store.get(collection)!
+  }
+
+  const newId = (collection: string): number => {
+    const id =
+      nextIds.get(collection) ?? Math.max(0, ...docsOf(collection).map((d) => d.id ?? 0)) + 1
+    nextIds.set(collection, id + 1)
+    return id
+  }
+
+  // Strictly increasing stamps, so "-createdAt" orders by insertion
+  const timestamp = () => {
+    lastStamp = Math.max((options.now ?? Date.now)(), lastStamp + 1)
+    return new Date(lastStamp).toISOString()
+  }
+
+  for (const [collection, docs] of Object.entries(seed)) {
+    const config = configOf(collection)
+    docsOf(collection).push(
+      ...docs.map((doc) => ({
+        ...(config ? blankDoc(config.fields) : {}),
+        ...normalize(config?.fields, doc),
+      })),
+    )
+    for (const doc of docsOf(collection)) doc.id ??= newId(collection)
+  }
+
+  const getByID = (collection: string, id: unknown): Doc | undefined =>
+    docsOf(collection).find((doc) => sameValue(doc.id, id))
+
+  const output = (collection: string, doc: Doc, depth = 2): Doc => {
+    const copy = structuredClone(doc)
+    const config = configOf(collection)
+    return config && depth > 0 ? populate(config.fields, copy, getByID) : copy
+  }
+
+  const checkUnique = (collection: string, doc: Doc) => {
+    const config = configOf(collection)
+    if (!config) return
+    for (const fields of uniqueIndexes(config)) {
+      const clash = docsOf(collection).some(
+        (other) =>
+          other.id !== doc.id && fields.every((field) => sameValue(other[field], doc[field])),
+      )
+      if (clash) {
+        throw new ValidationError({
+          collection,
+          errors: fields.map((path) => ({ message: 'Value must be unique', path })),
+        })
+      }
+    }
+  }
+
+  const query = ({
+    collection,
+    where,
+    sort,
+    limit = 10,
+    page = 1,
+    pagination = true,
+  }: FindArgs) => {
+    const config = configOf(collection)
+    const matching = docsOf(collection).filter((doc) => !where || matchesWhere(doc, where))
+    const order = [sort ?? config?.defaultSort ?? '-createdAt'].flat() as string[]
+    const sorted = [...matching].sort((a, b) => compareBy(a, b, [...order, '-createdAt', '-id']))
+    const pageSize = pagination === false || limit === 0 ? sorted.length || 1 : limit
+    const totalPages = Math.max(1, Math.ceil(sorted.length / pageSize))
+    return {
+      docs: sorted.slice((page - 1) * pageSize, page * pageSize),
+      totalDocs: matching.length,
+      limit: pageSize,
+      page,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPrevPage: page > 1,
+      nextPage: page < totalPages ? page + 1 : null,
+      prevPage: page > 1 ? page - 1 : null,
+      pagingCounter: (page - 1) * pageSize + 1,
+    }
+  }
+
+  const payload = {
+    find: async (args: FindArgs) => {
+      const result = query(args)
+      return { ...result, docs: result.docs.map((doc) => output(args.collection, doc, args.depth)) }
+    },
+    findByID: async ({
+      collection,
+      id,
+      depth,
+      disableErrors,
+    }: {
+      collection: string
+      id: unknown
+      depth?: number
+      disableErrors?: boolean
+    }) => {
+      const doc = getByID(collection, id)
+      if (!doc) {
+        if (disableErrors) return null
+        throw new NotFound()
+      }
+      return output(collection, doc, depth)
+    },
+    count: async ({ collection, where }: { collection: string; where?: Where }) => ({
+      totalDocs: docsOf(collection).filter((doc) => !where || matchesWhere(doc, where)).length,
+    }),
+    create: async ({
+      collection,
+      data,
+      depth,
+    }: {
+      collection: string
+      data: Doc
+      depth?: number
+    }) => {
+      const config = configOf(collection)
+      const now = timestamp()
+      const doc: Doc = {
+        ...(config ? blankDoc(config.fields, true) : {}),
+        ...normalize(config?.fields, data),
+        id: newId(collection),
+      }
+      if (config?.timestamps !== false) Object.assign(doc, { createdAt: now, updatedAt: now })
+      checkUnique(collection, doc)
+      docsOf(collection).push(doc)
+      return output(collection, doc, depth)
+    },
+    update: async ({
+      collection,
+      id,
+      where,
+      data,
+      depth,
+    }: {
+      collection: string
+      id?: unknown
+      where?: Where
+      data: Doc
+      depth?: number
+    }) => {
+      const config = configOf(collection)
+      const apply = (doc: Doc) => {
+        const updated: Doc = { ...doc, ...normalize(config?.fields, data), id: doc.id }
+        if (config?.timestamps !== false) updated.updatedAt = timestamp()
+        checkUnique(collection, updated)
+        Object.assign(doc, updated)
+        return output(collection, doc, depth)
+      }
+      if (id !== undefined) {
+        const doc = getByID(collection, id)
+        if (!doc) throw new NotFound()
+        return apply(doc)
+      }
+      const docs = docsOf(collection).filter((doc) => !where || matchesWhere(doc, where))
+      return { docs: docs.map(apply), errors: [] }
+    },
+    delete: async ({
+      collection,
+      id,
+      where,
+    }: {
+      collection: string
+      id?: unknown
+      where?: Where
+    }) => {
+      const docs = docsOf(collection)
+      const removed =
+        id !== undefined
+          ? docs.filter((doc) => sameValue(doc.id, id))
+          : docs.filter((doc) => !where || matchesWhere(doc, where))
+      if (id !== undefined && removed.length === 0) throw new NotFound()
+      for (const doc of removed) docs.splice(docs.indexOf(doc), 1)
+      const out = removed.map((doc) => output(collection, doc, 0))
+      return id !== undefined ? out[0] : { docs: out, errors: [] }
+    },
+    findGlobal: async ({ slug }: { slug: string }) => structuredClone(globalStore.get(slug) ?? {}),
+    db: {
+      drizzle: {
+        execute: async (statement: SQL) => ({ rows: executeUpdate(statement, docsOf) }),
+      },
+    },
+  } as unknown as Payload
+
+  return {
+    payload,
+    docs: docsOf,
+    setGlobal: (slug, data) => globalStore.set(slug, data),
+  }
+}
+
+// --- Collection configs ---------------------------------------------------
+
+function configOf(collection: string): CollectionConfig | undefined {
+  return COLLECTIONS.find((config) => config.slug === collection)
+}
+
+/** Named fields, with rows, collapsibles and unnamed tabs flattened away */
+function namedFields(fields: Field[]): Field[] {
+  return fields.flatMap((field): Field[] => {
+    if (field.type === 'row' || field.type === 'collapsible') return namedFields(field.fields)
+    if (field.type === 'tabs') {
+      return field.tabs.flatMap((tab) =>
+        'name' in tab && tab.name
+          ? [{ type: 'group', name: tab.name, fields: tab.fields } as Field]
+          : namedFields(tab.fields),
+      )
+    }
+    return 'name' in field ? [field] : []
+  })
+}
+
+function uniqueIndexes(config: CollectionConfig): string[][] {
+  return [
+    ...namedFields(config.fields)
+      .filter((field) => 'unique' in field && field.unique)
+      .map((field) => [(field as { name: string }).name]),
+    ...(config.indexes ?? []).filter((index) => index.unique).map((index) => index.fields),
+  ]
+}
+
+/** What a freshly read row looks like: every column present, null when unset */
+function blankDoc(fields: Field[], withDefaults = false): Doc {
+  const doc: Doc = {}
+  for (const field of namedFields(fields)) {
+    if (!('name' in field)) continue
+    if (field.type === 'array' || field.type === 'blocks') doc[field.name] = []
+    else if (field.type === 'group') doc[field.name] = blankDoc(field.fields, withDefaults)
+    else if (field.type === 'join') continue
+    else {
+      const fallback = 'hasMany' in field && field.hasMany ? [] : null
+      const defaultValue = 'defaultValue' in field ? field.defaultValue : undefined
+      doc[field.name] =
+        withDefaults && defaultValue !== undefined && typeof defaultValue !== 'function'
+          ? structuredClone(defaultValue)
+          : fallback
+    }
+  }
+  return doc
+}
+
+let arrayRowId = 0
+
+/** Store relationships as ids and dates as ISO strings, like the database returns them */
+function normalize(fields: Field[] | undefined, data: Doc): Doc {
+  const byName = new Map(
+    namedFields(fields ?? []).map((field) => [(field as { name: string }).name, field]),
+  )
+  const doc: Doc = {}
+  for (const [key, value] of Object.entries(data)) {
+    const field = byName.get(key)
+    doc[key] = normalizeValue(field, value)
+  }
+  return doc
+}
+
+function normalizeValue(field: Field | undefined, value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString()
+  if (value == null || !field) return value
+  if (field.type === 'relationship' || field.type === 'upload') {
+    return Array.isArray(value) ? value.map(idOf) : idOf(value)
+  }
+  if (field.type === 'array' && Array.isArray(value)) {
+    return value.map((row: Doc) => ({
+      ...normalize(field.fields, row),
+      id: row.id ?? `row${++arrayRowId}`,
+    }))
+  }
+  if (field.type === 'group' && typeof value === 'object') {
+    return normalize(field.fields, value as Doc)
+  }
+  return value
+}
+
+function idOf(value: unknown): unknown {
+  return value && typeof value === 'object' && 'id' in value ? (value as Doc).id : value
+}
+
+/** Replace relationship ids with the related documents (depth 1) */
+function populate(
+  fields: Field[],
+  doc: Doc,
+  getByID: (collection: string, id: unknown) => Doc | undefined,
+): Doc {
+  for (const field of namedFields(fields)) {
+    if (!('name' in field)) continue
+    const value = doc[field.name]
+    if (value == null) continue
+    if (
+      (field.type === 'relationship' || field.type === 'upload') &&
+      typeof field.relationTo === 'string'
+    ) {
+      const relationTo = field.relationTo
+      const load = (id: unknown) => {
+        const related = getByID(relationTo, id)
+        return related ? structuredClone(related) : id
+      }
+      doc[field.name] = Array.isArray(value) ? value.map(load) : load(value)
+    } else if (field.type === 'array' && Array.isArray(value)) {
+      value.forEach((row: Doc) => populate(field.fields, row, getByID))
+    } else if (field.type === 'group' && typeof value === 'object') {
+      populate(field.fields, value, getByID)
+    }
+  }
+  return doc
+}
+
+// --- Where and sort -------------------------------------------------------
+
+type Operator = Record<string, unknown>
+
+function matchesWhere(doc: Doc, where: Where): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'and') return (condition as Where[]).every((part) => matchesWhere(doc, part))
+    if (key === 'or') return (condition as Where[]).some((part) => matchesWhere(doc, part))
+    return Object.entries(condition as Operator).every(([operator, expected]) =>
+      matchesOperator(valuesAt(doc, key.split('.')), operator, expected),
+    )
+  })
+}
+
+/** Every value at a dotted path, looking into arrays (any row may match) */
+function valuesAt(value: unknown, path: string[]): unknown[] {
+  if (Array.isArray(value)) return value.flatMap((item) => valuesAt(item, path))
+  if (path.length === 0) return [idOf(value)]
+  if (value == null || typeof value !== 'object') return []
+  return valuesAt((value as Doc)[path[0]], path.slice(1))
+}
+
+function matchesOperator(values: unknown[], operator: string, expected: unknown): boolean {
+  const present = values.filter((value) => value != null)
+  switch (operator) {
+    case 'equals':
+      return expected === null ? present.length === 0 : present.some((v) => sameValue(v, expected))
+    case 'not_equals':
+      return expected === null ? present.length > 0 : !present.some((v) => sameValue(v, expected))
+    case 'in':
+      return present.some((v) => (expected as unknown[]).some((e) => sameValue(v, e)))
+    case 'not_in':
+      return !present.some((v) => (expected as unknown[]).some((e) => sameValue(v, e)))
+    case 'exists':
+      return present.length > 0 === Boolean(expected)
+    case 'greater_than':
+      return present.some((v) => compareValues(v, expected) > 0)
+    case 'greater_than_equal':
+      return present.some((v) => compareValues(v, expected) >= 0)
+    case 'less_than':
+      return present.some((v) => compareValues(v, expected) < 0)
+    case 'less_than_equal':
+      return present.some((v) => compareValues(v, expected) <= 0)
+    case 'contains':
+    case 'like':
+      return present.some((v) =>
+        String(expected)
+          .toLowerCase()
+          .split(operator === 'like' ? /\s+/ : /$^/)
+          .every((word) => String(v).toLowerCase().includes(word)),
+      )
+    default:
+      throw new Error(`fakePayload: unsupported where operator "${operator}"`)
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  a = idOf(a instanceof Date ? a.toISOString() : a)
+  b = idOf(b instanceof Date ? b.toISOString() : b)
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b)
+  return a === b
+}
+
+/** Numbers numerically, dates (Date or ISO text) by time, anything else as text */
+function compareValues(a: unknown, b: unknown): number {
+  const date = (value: unknown) =>
+    value instanceof Date ? value.getTime() : typeof value === 'string' ? Date.parse(value) : NaN
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  if (!Number.isNaN(date(a)) && !Number.isNaN(date(b)) && typeof a !== 'number') {
+    return date(a) - date(b)
+  }
+  return String(a).localeCompare(String(b))
+}
+
+/** Postgres order: nulls sort last ascending and first descending */
+function compareBy(a: Doc, b: Doc, order: string[]): number {
+  for (const item of order) {
+    const descending = item.startsWith('-')
+    const path = (descending ? item.slice(1) : item).split('.')
+    const [x] = valuesAt(a, path)
+    const [y] = valuesAt(b, path)
+    let result = 0
+    if (x == null || y == null) result = x == null ? (y == null ? 0 : 1) : -1
+    else result = compareValues(x, y)
+    if (result !== 0) return descending ? -result : result
+  }
+  return 0
+}
+
+// --- Raw conditional UPDATEs ------------------------------------------------
+
+const dialect = new PgDialect()
+
+type Token = { kind: 'ident' | 'param' | 'number' | 'word' | 'symbol'; text: string }
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /\s*(?:"([^"]+)"|\$(\d+)|(\d+(?:\.\d+)?)|([A-Za-z_]+)|(<>|!=|<=|>=|[=<>+\-(),]))/y
+  const end = text.trimEnd().length
+  while (pattern.lastIndex < end) {
+    const from = pattern.lastIndex
+    const match = pattern.exec(text)
+    if (!match) throw new Error(`fakePayload: cannot read SQL near "${text.slice(from)}"`)
+    if (match[1] !== undefined) tokens.push({ kind: 'ident', text: match[1] })
+    else if (match[2] !== undefined) tokens.push({ kind: 'param', text: match[2] })
+    else if (match[3] !== undefined) tokens.push({ kind: 'number', text: match[3] })
+    else if (match[4] !== undefined) tokens.push({ kind: 'word', text: match[4].toUpperCase() })
+    else tokens.push({ kind: 'symbol', text: match[5] })
+  }
+  return tokens
+}
+
+type Row = Doc
+type Expr = (row: Row) => unknown
+type Cond = (row: Row) => boolean | null
+
+/**
+ * Run `UPDATE "table" SET ... WHERE ... RETURNING ...` against the store.
+ * Columns map to fields by snake_case name (`session_id` → `session`).
+ */
+function executeUpdate(statement: SQL, docsOf: (collection: string) => Doc[]): Doc[] {
+  const { sql: text, params } = dialect.sqlToQuery(statement)
+  const tokens = tokenize(text)
+  let position = 0
+
+  const peek = (offset = 0) => tokens[position + offset]
+  const isWord = (word: string, offset = 0) =>
+    peek(offset)?.kind === 'word' && peek(offset)?.text === word
+  const isSymbol = (symbol: string) => peek()?.kind === 'symbol' && peek()?.text === symbol
+  const expect = (kind: Token['kind'], wanted?: string) => {
+    const token = tokens[position++]
+    if (!token || token.kind !== kind || (wanted !== undefined && token.text !== wanted)) {
+      throw new Error(`fakePayload: expected ${wanted ?? kind} in "${text}"`)
+    }
+    return token.text
+  }
+
+  expect('word', 'UPDATE')
+  const table = expect('ident')
+  const collection = table.replace(/_/g, '-')
+  const config = configOf(collection)
+  const fieldOf = (column: string) => columnToField(config, column)
+
+  const parseTerm = (): Expr => {
+    const token = tokens[position++]
+    if (token?.kind === 'param') {
+      const value = params[Number(token.text) - 1]
+      return () => value
+    }
+    if (token?.kind === 'ident') {
+      const field = fieldOf(token.text)
+      return (row) => row[field] ?? null
+    }
+    if (token?.kind === 'number') return () => Number(token.text)
+    if (token?.kind === 'word' && token.text === 'NULL') return () => null
+    if (token?.kind === 'word' && token.text === 'COALESCE') {
+      expect('symbol', '(')
+      const parts = [parseExpr()]
+      while (isSymbol(',')) {
+        position++
+        parts.push(parseExpr())
+      }
+      expect('symbol', ')')
+      return (row) => parts.map((part) => part(row)).find((value) => value != null) ?? null
+    }
+    if (token?.kind === 'symbol' && token.text === '(') {
+      const inner = parseExpr()
+      expect('symbol', ')')
+      return inner
+    }
+    throw new Error(
+      `fakePayload: unexpected "${token?.text}" in "${text}" ${JSON.stringify(params)}`,
+    )
+  }
+
+  const parseExpr = (): Expr => {
+    let left = parseTerm()
+    while (isSymbol('+') || isSymbol('-')) {
+      const sign = tokens[position++].text === '+' ? 1 : -1
+      const l = left
+      const r = parseTerm()
+      left = (row) => {
+        const [a, b] = [l(row), r(row)]
+        return a == null || b == null ? null : Number(a) + sign * Number(b)
+      }
+    }
+    return left
+  }
+
+  const parseComparison = (): Cond => {
+    const left = parseExpr()
+    if (isWord('IS')) {
+      position++
+      const negate = isWord('NOT')
+      if (negate) position++
+      expect('word', 'NULL')
+      return (row) => (left(row) == null) !== negate
+    }
+    const operator = expect('symbol')
+    const right = parseExpr()
+    return (row) => {
+      const [a, b] = [left(row), right(row)]
+      if (a == null || b == null) return null
+      const order = compareValues(a, b)
+      switch (operator) {
+        case '=':
+          return sameValue(a, b)
+        case '<>':
+        case '!=':
+          return !sameValue(a, b)
+        case '<':
+          return order < 0
+        case '<=':
+          return order <= 0
+        case '>':
+          return order > 0
+        case '>=':
+          return order >= 0
+        default:
+          throw new Error(`fakePayload: unsupported operator "${operator}"`)
+      }
+    }
+  }
+
+  const parsePrimary = (): Cond => {
+    if (isWord('NOT')) {
+      position++
+      const inner = parsePrimary()
+      return (row) => {
+        const value = inner(row)
+        return value === null ? null : !value
+      }
+    }
+    if (isSymbol('(')) {
+      // A parenthesised condition, unless it turns out to be an expression
+      const start = position
+      try {
+        position++
+        const inner = parseCondition()
+        expect('symbol', ')')
+        return inner
+      } catch {
+        position = start
+      }
+    }
+    return parseComparison()
+  }
+
+  const parseAnd = (): Cond => {
+    const parts = [parsePrimary()]
+    while (isWord('AND')) {
+      position++
+      parts.push(parsePrimary())
+    }
+    return (row) => {
+      const values = parts.map((part) => part(row))
+      return values.includes(false) ? false : values.includes(null) ? null : true
+    }
+  }
+
+  const parseCondition = (): Cond => {
+    const parts = [parseAnd()]
+    while (isWord('OR')) {
+      position++
+      parts.push(parseAnd())
+    }
+    return (row) => {
+      const values = parts.map((part) => part(row))
+      return values.includes(true) ? true : values.includes(null) ? null : false
+    }
+  }
+
+  expect('word', 'SET')
+  const assignments: [string, Expr][] = []
+  do {
+    if (isSymbol(',')) position++
+    const field = fieldOf(expect('ident'))
+    expect('symbol', '=')
+    assignments.push([field, parseExpr()])
+  } while (isSymbol(','))
+
+  let condition: Cond = () => true
+  if (isWord('WHERE')) {
+    position++
+    condition = parseCondition()
+  }
+  const returning: string[] = []
+  if (isWord('RETURNING')) {
+    position++
+    returning.push(expect('ident'))
+    while (isSymbol(',')) {
+      position++
+      returning.push(expect('ident'))
+    }
+  }
+  if (position !== tokens.length) throw new Error(`fakePayload: unexpected SQL after the UPDATE`)
+
+  const rows = docsOf(collection).filter((row) => condition(row) === true)
+  for (const row of rows) {
+    // Every SET expression sees the row as it was before the UPDATE
+    const values = assignments.map(([field, expr]) => [field, expr(row)] as const)
+    for (const [field, value] of values) row[field] = value
+  }
+  return rows.map((row) =>
+    Object.fromEntries(returning.map((column) => [column, row[fieldOf(column)]])),
+  )
+}
+
+function columnToField(config: CollectionConfig | undefined, column: string): string {
+  const camel = column.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase())
+  if (column.endsWith('_id') && config) {
+    const name = camel.slice(0, -2)
+    const field = namedFields(config.fields).find((f) => 'name' in f && f.name === name)
+    if (field && (field.type === 'relationship' || field.type === 'upload')) return name
+  }
+  return camel
+}
@@ -0,0 +1,44 @@
+/**
+ * Calling route handlers in specs. Routes reach Payload through `getPayload`
+ * and the caller through `getMeUser`; a spec points both at `routeContext`:
+ *
+ *   vi.mock('@payload-config', () => ({ default: {} }))
+ *   vi.mock('payload', async (importOriginal) =>
+ *     (await import('../helpers/routes')).withFakeGetPayload(await importOriginal()),
+ *   )
+ *   vi.mock('@/auth/getMeUser', async () => (await import('../helpers/routes')).fakeGetMeUser)
+ *
+ * and then sets `routeContext.payload` (usually a createFakePayload()) and
+ * `routeContext.user` before each request.
+ */
+
+import { NextRequest } from 'next/server'
+import type { Payload } from 'payload'
+import type { User } from '@/payload-types'
+
+export const routeContext: { payload: Payload | null; user: Partial<User> | null } = {
+  payload: null,
+  user: null,
+}
+
+export function withFakeGetPayload<T extends object>(actual: T): T {
+  return { ...actual, getPayload: async () => routeContext.payload }
+}
+
+export const fakeGetMeUser = {
+  getMeUser: async () => ({ token: 'token', user: routeContext.user }),
+}
+
+/** A JSON request to `path` on the app */
+export function jsonRequest(path: string, body?: unknown, method = 'POST'): NextRequest {
+  return new NextRequest(new URL(path, 'http://localhost:3000'), {
+    method,
+    headers: { 'content-type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+/** The second argument Next.js passes to a dynamic route handler */
+export function routeParams<T extends Record<string, string>>(params: T) {
+  return { params: Promise.resolve(params) }
+}
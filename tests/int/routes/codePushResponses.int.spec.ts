@@ -0,0 +1,52 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { PATCH } from '@/app/api/sessions/[code]/pushes/[id]/route'
+import { createFakePayload, type FakePayload } from '../helpers/fakePayload'
+import { jsonRequest, routeContext, routeParams } from '../helpers/routes'
+
+vi.mock('@payload-config', () => ({ default: {} }))
+vi.mock('payload', async (importOriginal) =>
+  (await import('../helpers/routes')).withFakeGetPayload(await importOriginal()),
+)
+vi.mock('@/auth/getMeUser', async () => (await import('../helpers/routes')).fakeGetMeUser)
+
+const CODE = 'ABC-234-XYZ'
+
+let fake: FakePayload
+
+const respond = (action: string) =>
+  PATCH(
+    jsonRequest(`/api/sessions/${CODE}/pushes/1`, { action }, 'PATCH'),
+    routeParams({ code: CODE, id: '1' }),
+  )
+
+describe('PATCH /api/sessions/[code]/pushes/[id]', () => {
+  beforeEach(() => {
+    const joinedAt = new Date(Date.now() - 60_000).toISOString()
+    fake = createFakePayload({
+      'live-sessions': [{ id: 1, joinCode: CODE, trainer: 9, isActive: true }],
+      'session-participants': [
+        { session: 1, user: 20, joinedAt },
+        { session: 1, user: 21, joinedAt, leftAt: new Date().toISOString() },
+      ],
+      'code-pushes': [{ id: 1, session: 1, sentBy: 9, code: 'print(1)' }],
+    })
+    routeContext.payload = fake.payload
+  })
+
+  it('refuses students who are not in the session', async () => {
+    for (const id of [21, 30]) {
+      routeContext.user = { id, role: 'student' }
+      expect((await respond('merged')).status).toBe(403)
+    }
+    expect(fake.docs('code-push-responses')).toHaveLength(0)
+  })
+
+  it('records the answer of a student in the session', async () => {
+    routeContext.user = { id: 20, role: 'student' }
+    expect((await respond('merged')).status).toBe(200)
+    expect(fake.docs('code-push-responses')).toMatchObject([
+      { push: 1, user: 20, action: 'merged' },
+    ])
+  })
+})
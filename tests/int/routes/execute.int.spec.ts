@@ -0,0 +1,60 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { POST } from '@/app/api/execute/route'
+import { createFakePayload, type FakePayload } from '../helpers/fakePayload'
+import { jsonRequest, routeContext } from '../helpers/routes'
+
+vi.mock('@payload-config', () => ({ default: {} }))
+vi.mock('payload', async (importOriginal) =>
+  (await import('../helpers/routes')).withFakeGetPayload(await importOriginal()),
+)
+vi.mock('@/auth/getMeUser', async () => (await import('../helpers/routes')).fakeGetMeUser)
+
+// Work scheduled with after() runs once the test awaits it
+const scheduled: Promise<unknown>[] = []
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: (task: () => Promise<unknown>) => scheduled.push(task()),
+}))
+
+vi.mock('@/services/execution', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/execution')>()),
+  resolveExecutionBackend: async () => ({
+    id: 'local',
+    requiresSignIn: false,
+    supportsStreaming: false,
+    execute: async () => {
+      throw new Error('Sandbox crashed')
+    },
+  }),
+}))
+
+let fake: FakePayload
+
+describe('POST /api/execute', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    fake = createFakePayload()
+    routeContext.payload = fake.payload
+    routeContext.user = { id: 20, role: 'student' }
+  })
+
+  it('rejects a language that is not a string', async () => {
+    const response = await POST(
+      jsonRequest('/api/execute', { language: ['python'], code: 'print(1)' }),
+    )
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: 'language must be a string' })
+  })
+
+  it('finishes the reserved run when the backend throws', async () => {
+    const response = await POST(
+      jsonRequest('/api/execute', { language: 'python', code: 'print(1)' }),
+    )
+    expect(response.status).toBe(500)
+    await Promise.all(scheduled)
+    expect(fake.docs('executions')).toMatchObject([
+      { user: 20, status: 'error', stderr: 'Execution did not finish' },
+    ])
+  })
+})
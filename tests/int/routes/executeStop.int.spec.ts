@@ -0,0 +1,36 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest'
+import { POST } from '@/app/api/execute/stop/route'
+import { registerRun } from '@/services/execution'
+import { jsonRequest, routeContext } from '../helpers/routes'
+
+vi.mock('@/auth/getMeUser', async () => (await import('../helpers/routes')).fakeGetMeUser)
+
+const stop = (runId: string) => POST(jsonRequest('/api/execute/stop', { runId }))
+
+describe('POST /api/execute/stop', () => {
+  it("only stops the user's own runs", async () => {
+    const { runId, controller } = registerRun(20)
+
+    for (const user of [{ id: 21, role: 'student' as const }, null]) {
+      routeContext.user = user
+      expect((await stop(runId)).status).toBe(404)
+    }
+    expect(controller.signal.aborted).toBe(false)
+
+    routeContext.user = { id: 20, role: 'student' }
+    expect(await (await stop(runId)).json()).toEqual({ stopped: true })
+    expect(controller.signal.aborted).toBe(true)
+  })
+
+  it("leaves guests' runs to guests", async () => {
+    const { runId, controller } = registerRun(null)
+
+    routeContext.user = { id: 21, role: 'student' }
+    expect((await stop(runId)).status).toBe(404)
+
+    routeContext.user = null
+    expect((await stop(runId)).status).toBe(200)
+    expect(controller.signal.aborted).toBe(true)
+  })
+})
@@ -0,0 +1,50 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { POST } from '@/app/api/sessions/[code]/heartbeat/route'
+import { createFakePayload, type FakePayload } from '../helpers/fakePayload'
+import { jsonRequest, routeContext, routeParams } from '../helpers/routes'
+
+vi.mock('@payload-config', () => ({ default: {} }))
+vi.mock('payload', async (importOriginal) =>
+  (await import('../helpers/routes')).withFakeGetPayload(await importOriginal()),
+)
+vi.mock('@/auth/getMeUser', async () => (await import('../helpers/routes')).fakeGetMeUser)
+
+const CODE = 'ABC-234-XYZ'
+const MINUTE_AGO = () => new Date(Date.now() - 61_000).toISOString()
+
+let fake: FakePayload
+
+const beat = () => POST(jsonRequest(`/api/sessions/${CODE}/heartbeat`), routeParams({ code: CODE }))
+
+describe('POST /api/sessions/[code]/heartbeat', () => {
+  beforeEach(() => {
+    fake = createFakePayload({
+      'live-sessions': [{ id: 1, joinCode: CODE, trainer: 9, isActive: true }],
+      'session-participants': [
+        { session: 1, user: 20, joinedAt: MINUTE_AGO(), lastSeenAt: MINUTE_AGO() },
+        { session: 1, user: 21, joinedAt: MINUTE_AGO(), leftAt: MINUTE_AGO() },
+      ],
+    })
+    routeContext.payload = fake.payload
+  })
+
+  it('sends students who are not in the session back to /join', async () => {
+    for (const id of [21, 30]) {
+      routeContext.user = { id, role: 'student' }
+      const response = await beat()
+      expect(response.status).toBe(409)
+      expect(await response.json()).toMatchObject({ rejoinRequired: true })
+    }
+    expect(fake.docs('session-participants').find((p) => p.user === 21)?.leftAt).not.toBeNull()
+    expect(fake.docs('session-participants')).toHaveLength(2)
+    expect(fake.docs('session-attendance')).toHaveLength(0)
+  })
+
+  it('records at most one heartbeat a minute', async () => {
+    routeContext.user = { id: 20, role: 'student' }
+    expect(await (await beat()).json()).toEqual({ success: true, recorded: true })
+    expect(await (await beat()).json()).toEqual({ success: true, recorded: false })
+    expect(fake.docs('session-attendance')).toMatchObject([{ user: 20, kind: 'heartbeat' }])
+  })
+})
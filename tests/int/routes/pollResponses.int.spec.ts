@@ -0,0 +1,64 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { POST } from '@/app/api/sessions/[code]/polls/[id]/responses/route'
+import { createFakePayload, type FakePayload } from '../helpers/fakePayload'
+import { jsonRequest, routeContext, routeParams } from '../helpers/routes'
+
+vi.mock('@payload-config', () => ({ default: {} }))
+vi.mock('payload', async (importOriginal) =>
+  (await import('../helpers/routes')).withFakeGetPayload(await importOriginal()),
+)
+vi.mock('@/auth/getMeUser', async () => (await import('../helpers/routes')).fakeGetMeUser)
+
+const CODE = 'ABC-234-XYZ'
+
+let fake: FakePayload
+
+const answer = (body: unknown) =>
+  POST(
+    jsonRequest(`/api/sessions/${CODE}/polls/1/responses`, body),
+    routeParams({ code: CODE, id: '1' }),
+  )
+
+describe('POST /api/sessions/[code]/polls/[id]/responses', () => {
+  beforeEach(() => {
+    const now = Date.now()
+    fake = createFakePayload({
+      'live-sessions': [{ id: 1, joinCode: CODE, trainer: 9, isActive: true }],
+      'session-participants': [
+        { session: 1, user: 20, joinedAt: new Date(now - 60_000).toISOString() },
+      ],
+      'session-polls': [
+        {
+          id: 1,
+          session: 1,
+          kind: 'multiple_choice',
+          question: 'Pick one',
+          options: [{ text: 'a' }, { text: 'b' }],
+          status: 'open',
+          openedAt: new Date(now - 10_000).toISOString(),
+          closesAt: new Date(now + 60_000).toISOString(),
+        },
+      ],
+    })
+    routeContext.payload = fake.payload
+  })
+
+  it('refuses students who are not in the session', async () => {
+    routeContext.user = { id: 30, role: 'student' }
+    expect((await answer({ optionIndex: 0 })).status).toBe(403)
+    expect(fake.docs('session-poll-answers')).toHaveLength(0)
+  })
+
+  it('refuses the trainer', async () => {
+    routeContext.user = { id: 9, role: 'trainer' }
+    expect((await answer({ optionIndex: 0 })).status).toBe(403)
+  })
+
+  it('records the answer of a student in the session', async () => {
+    routeContext.user = { id: 20, role: 'student' }
+    const response = await answer({ optionIndex: 1 })
+    expect(response.status).toBe(200)
+    expect(fake.docs('session-poll-answers')).toMatchObject([{ poll: 1, user: 20, optionIndex: 1 }])
+  })
+})
@@ -0,0 +1,50 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { POST } from '@/app/api/sessions/[code]/chat/route'
+import { createFakePayload, type FakePayload } from '../helpers/fakePayload'
+import { jsonRequest, routeContext, routeParams } from '../helpers/routes'
+
+vi.mock('@payload-config', () => ({ default: {} }))
+vi.mock('payload', async (importOriginal) =>
+  (await import('../helpers/routes')).withFakeGetPayload(await importOriginal()),
+)
+vi.mock('@/auth/getMeUser', async () => (await import('../helpers/routes')).fakeGetMeUser)
+
+const CODE = 'ABC-234-XYZ'
+const ravi = { id: 20, role: 'student' as const }
+
+let fake: FakePayload
+
+function setUp(participants: object[] = []) {
+  fake = createFakePayload({
+    'live-sessions': [{ id: 1, joinCode: CODE, trainer: 9, isActive: true }],
+    'session-participants': participants,
+  })
+  routeContext.payload = fake.payload
+  routeContext.user = ravi
+}
+
+const send = (body: unknown) =>
+  POST(jsonRequest(`/api/sessions/${CODE}/chat`, body), routeParams({ code: CODE }))
+
+describe('POST /api/sessions/[code]/chat', () => {
+  beforeEach(() => setUp())
+
+  it('needs a signed-in user', async () => {
+    routeContext.user = null
+    expect((await send({ body: 'Hi' })).status).toBe(401)
+  })
+
+  it('refuses students who have not joined the session', async () => {
+    const response = await send({ body: 'Hi' })
+    expect(response.status).toBe(403)
+    expect(fake.docs('session-messages')).toHaveLength(0)
+  })
+
+  it('posts for students in the session', async () => {
+    setUp([{ session: 1, user: ravi.id, joinedAt: '2026-01-01T10:00:00.000Z' }])
+    const response = await send({ body: 'Hi' })
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ message: { body: 'Hi', visibility: 'public' } })
+  })
+})
@@ -0,0 +1,56 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { DELETE } from '@/app/api/sessions/[code]/pause/route'
+import { createFakePayload, type FakePayload } from '../helpers/fakePayload'
+import { jsonRequest, routeContext, routeParams } from '../helpers/routes'
+
+vi.mock('@payload-config', () => ({ default: {} }))
+vi.mock('payload', async (importOriginal) =>
+  (await import('../helpers/routes')).withFakeGetPayload(await importOriginal()),
+)
+vi.mock('@/auth/getMeUser', async () => (await import('../helpers/routes')).fakeGetMeUser)
+
+const CODE = 'ABC-234-XYZ'
+
+let fake: FakePayload
+
+const resume = () =>
+  DELETE(
+    jsonRequest(`/api/sessions/${CODE}/pause`, undefined, 'DELETE'),
+    routeParams({ code: CODE }),
+  )
+
+describe('DELETE /api/sessions/[code]/pause', () => {
+  beforeEach(() => {
+    fake = createFakePayload({
+      'live-sessions': [
+        {
+          id: 1,
+          joinCode: CODE,
+          trainer: 9,
+          isActive: true,
+          pausedAt: new Date(Date.now() - 600_000).toISOString(),
+          pausedSeconds: 60,
+        },
+      ],
+    })
+    routeContext.payload = fake.payload
+    routeContext.user = { id: 9, role: 'trainer' }
+  })
+
+  it('refuses students', async () => {
+    routeContext.user = { id: 20, role: 'student' }
+    expect((await resume()).status).toBe(403)
+    expect(fake.docs('live-sessions')[0].pausedAt).toBeTruthy()
+  })
+
+  it('banks the break once when two resumes race', async () => {
+    const statuses = (await Promise.all([resume(), resume()])).map((response) => response.status)
+    expect(statuses.sort()).toEqual([200, 409])
+
+    const [session] = fake.docs('live-sessions')
+    expect(session.pausedAt).toBeNull()
+    expect(session.pausedSeconds).toBeGreaterThanOrEqual(660)
+    expect(session.pausedSeconds).toBeLessThan(670)
+  })
+})
@@ -0,0 +1,70 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { GET } from '@/app/api/sessions/upcoming/route'
+import { createFakePayload } from '../helpers/fakePayload'
+import { jsonRequest, routeContext } from '../helpers/routes'
+
+vi.mock('@payload-config', () => ({ default: {} }))
+vi.mock('payload', async (importOriginal) =>
+  (await import('../helpers/routes')).withFakeGetPayload(await importOriginal()),
+)
+vi.mock('@/auth/getMeUser', async () => (await import('../helpers/routes')).fakeGetMeUser)
+
+const IN_A_DAY = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+
+const upcoming = async (query = '') => {
+  const response = await GET(jsonRequest(`/api/sessions/upcoming${query}`, undefined, 'GET'))
+  return { status: response.status, body: await response.json() }
+}
+
+const joinCodes = (body: { sessions: { joinCode: string }[] }) =>
+  body.sessions.map((session) => session.joinCode).sort()
+
+describe('GET /api/sessions/upcoming', () => {
+  beforeEach(() => {
+    const session = (id: number, joinCode: string, extra: Record<string, unknown>) => ({
+      id,
+      joinCode,
+      title: joinCode,
+      trainer: 9,
+      scheduledStart: IN_A_DAY(),
+      ...extra,
+    })
+    routeContext.payload = createFakePayload({
+      cohorts: [{ id: 5, name: 'Batch 5', students: [21] }],
+      'live-sessions': [
+        session(1, 'OPN-234-AAA', { accessMode: 'open' }),
+        session(2, 'RST-234-BBB', { accessMode: 'restricted', allowedStudents: [20] }),
+        session(3, 'RST-234-CCC', { accessMode: 'restricted', allowedCohorts: [5] }),
+        session(4, 'PWD-234-DDD', { accessMode: 'passcode' }),
+      ],
+      'session-participants': [{ session: 4, user: 22, joinedAt: new Date().toISOString() }],
+    }).payload
+  })
+
+  it('lists open sessions and the ones a student is enrolled in or joined', async () => {
+    routeContext.user = { id: 20, role: 'student' }
+    expect(joinCodes((await upcoming()).body)).toEqual(['OPN-234-AAA', 'RST-234-BBB'])
+
+    routeContext.user = { id: 21, role: 'student' }
+    expect(joinCodes((await upcoming()).body)).toEqual(['OPN-234-AAA', 'RST-234-CCC'])
+
+    routeContext.user = { id: 22, role: 'student' }
+    expect(joinCodes((await upcoming()).body)).toEqual(['OPN-234-AAA', 'PWD-234-DDD'])
+  })
+
+  it('lists every session for staff', async () => {
+    routeContext.user = { id: 9, role: 'trainer' }
+    expect((await upcoming()).body.sessions).toHaveLength(4)
+  })
+
+  it('only lets staff filter by trainer', async () => {
+    routeContext.user = { id: 20, role: 'student' }
+    expect((await upcoming('?trainerId=9')).status).toBe(403)
+
+    routeContext.user = { id: 1, role: 'manager' }
+    const { status, body } = await upcoming('?trainerId=8')
+    expect(status).toBe(200)
+    expect(body.sessions).toEqual([])
+  })
+})
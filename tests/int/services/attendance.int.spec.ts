@@ -0,0 +1,99 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type { LiveSession, SessionAttendance, SessionParticipant, User } from '@/payload-types'
+import {
+  getSessionAttendance,
+  getStudentAttendance,
+  parseMinAttendance,
+} from '@/services/attendance'
+import { createFakePayload } from '../helpers/fakePayload'
+
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 10, minute)).toISOString()
+
+const ravi = { id: 20, name: 'Ravi', email: 'ravi@example.com', role: 'student' } as User
+const mei = { id: 21, name: 'Mei', email: 'mei@example.com', role: 'student' } as User
+const asha = { id: 9, name: 'Asha', email: 'asha@example.com', role: 'trainer' } as User
+
+const session = {
+  id: 1,
+  title: 'Loops',
+  joinCode: 'ABC123',
+  trainer: 9,
+  isActive: false,
+  startedAt: at(0),
+  endedAt: at(60),
+} as LiveSession
+const other = { ...session, id: 2, joinCode: 'XYZ789', trainer: 10 } as LiveSession
+
+function participant(user: User, fields: Partial<SessionParticipant> = {}): SessionParticipant {
+  return { id: user.id, session, user, joinedAt: at(0), ...fields } as SessionParticipant
+}
+
+/** Join at `from`, a heartbeat every minute and a leave at `to` */
+function visit(user: User, from: number, to: number): SessionAttendance[] {
+  const event = (kind: SessionAttendance['kind'], minute: number) =>
+    ({ session: 1, user: user.id, kind, at: at(minute) }) as SessionAttendance
+  return [
+    event('join', from),
+    ...Array.from({ length: to - from - 1 }, (_, i) => event('heartbeat', from + i + 1)),
+    event('leave', to),
+  ]
+}
+
+function fakePayload(participants: SessionParticipant[], events: SessionAttendance[]) {
+  return createFakePayload({
+    users: [ravi, mei, asha],
+    'live-sessions': [session, other],
+    'session-participants': participants,
+    'session-attendance': events,
+  }).payload
+}
+
+describe('parseMinAttendance', () => {
+  it('accepts percentages and leaves an empty value to the platform default', () => {
+    expect(parseMinAttendance('80')).toEqual({ ok: true, percent: 80 })
+    expect(parseMinAttendance(null)).toEqual({ ok: true, percent: null })
+    expect(parseMinAttendance('120').ok).toBe(false)
+    expect(parseMinAttendance('most').ok).toBe(false)
+  })
+})
+
+describe('getSessionAttendance', () => {
+  it('reports every student by name against the threshold, skipping staff', async () => {
+    const payload = fakePayload(
+      [participant(ravi), participant(mei), participant(asha)],
+      [...visit(ravi, 0, 51), ...visit(mei, 20, 50)],
+    )
+    const report = await getSessionAttendance(payload, session, 75)
+    expect(
+      report.students.map(({ student, percent, meetsThreshold }) => [
+        student.name,
+        percent,
+        meetsThreshold,
+      ]),
+    ).toEqual([
+      ['Mei', 50, false],
+      ['Ravi', 85, true],
+    ])
+    expect(report.students[0]).toMatchObject({ lateMinutes: 20, leftEarlyMinutes: 10 })
+  })
+
+  it('falls back to the join and leave times of students without recorded events', async () => {
+    const payload = fakePayload([participant(ravi, { joinedAt: at(10), leftAt: at(40) })], [])
+    const report = await getSessionAttendance(payload, session, 75)
+    expect(report.students[0]).toMatchObject({ attendedMinutes: 30, lateMinutes: 10, visits: 1 })
+  })
+})
+
+describe('getStudentAttendance', () => {
+  it('only shows trainers the sessions they host', async () => {
+    const payload = fakePayload(
+      [participant(ravi), participant(ravi, { id: 30, session: other })],
+      [],
+    )
+    const trainerView = await getStudentAttendance(payload, ravi, asha, 75)
+    expect(trainerView.sessions.map((row) => row.session.joinCode)).toEqual(['ABC123'])
+    const managerView = await getStudentAttendance(payload, ravi, { id: 3, role: 'manager' }, 75)
+    expect(managerView.sessions).toHaveLength(2)
+  })
+})
@@ -0,0 +1,228 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type { SessionGroup, User } from '@/payload-types'
+import {
+  parseBreakoutInput,
+  parseGroupCode,
+  parseScratchpadEdit,
+  saveGroupScratchpad,
+  splitRandomly,
+  startBreakout,
+  toGroupItem,
+  updateGroup,
+} from '@/services/breakoutGroups'
+import { createFakePayload } from '../helpers/fakePayload'
+
+const NOW = new Date('2026-01-01T10:00:00.000Z')
+
+function fakePayload({ present = [20, 21, 22, 23], open = [] as Partial<SessionGroup>[] } = {}) {
+  const fake = createFakePayload({
+    'session-participants': present.map((user) => ({
+      session: 1,
+      user,
+      joinedAt: NOW.toISOString(),
+    })),
+    'session-groups': open.map((group) => ({ session: 1, ...group })),
+  })
+  return { payload: fake.payload, groups: fake.docs('session-groups') }
+}
+
+describe('splitRandomly', () => {
+  it('deals everyone into groups whose sizes differ by at most one', () => {
+    const groups = splitRandomly([1, 2, 3, 4, 5, 6, 7], 3, () => 0.5)
+    expect(groups.map((group) => group.length)).toEqual([3, 2, 2])
+    expect(groups.flat().sort()).toEqual([1, 2, 3, 4, 5, 6, 7])
+  })
+
+  it('never makes more groups than there are people', () => {
+    expect(splitRandomly([1, 2], 5)).toHaveLength(2)
+  })
+})
+
+describe('parseBreakoutInput', () => {
+  it('takes a group count or a group size for random groups', () => {
+    expect(parseBreakoutInput({ mode: 'random', groupCount: 3 })).toEqual({
+      ok: true,
+      input: { mode: 'random', groupCount: 3 },
+    })
+    expect(parseBreakoutInput({ mode: 'random', groupSize: 2 }).ok).toBe(true)
+    expect(parseBreakoutInput({ mode: 'random', groupCount: 21 }).ok).toBe(false)
+    expect(parseBreakoutInput({ mode: 'random' }).ok).toBe(false)
+  })
+
+  it('needs members in every hand-picked group', () => {
+    expect(
+      parseBreakoutInput({ mode: 'manual', groups: [{ name: ' Pair A ', memberIds: [20, 21] }] }),
+    ).toEqual({
+      ok: true,
+      input: { mode: 'manual', groups: [{ name: 'Pair A', memberIds: [20, 21] }] },
+    })
+    expect(parseBreakoutInput({ mode: 'manual', groups: [{ memberIds: [] }] }).ok).toBe(false)
+    expect(parseBreakoutInput({ mode: 'teams' }).ok).toBe(false)
+  })
+})
+
+describe('parseGroupCode', () => {
+  it('requires code and drops an empty language', () => {
+    expect(parseGroupCode({ code: '', language: '' })).toEqual({
+      ok: true,
+      input: { code: '', language: null },
+    })
+    expect(parseGroupCode({ language: 'python' }).ok).toBe(false)
+  })
+})
+
+describe('parseScratchpadEdit', () => {
+  it('needs the version the edit was made on', () => {
+    expect(parseScratchpadEdit({ code: 'x = 1', baseUpdatedAt: null })).toEqual({
+      ok: true,
+      input: { code: 'x = 1', language: null, baseUpdatedAt: null },
+    })
+    expect(parseScratchpadEdit({ code: 'x = 1' }).ok).toBe(false)
+  })
+})
+
+describe('startBreakout', () => {
+  it('closes the previous groups and names new ones', async () => {
+    const { payload, groups } = fakePayload({ open: [{ id: 7 }] })
+    const result = await startBreakout(payload, 1, { mode: 'random', groupSize: 2 }, NOW)
+    expect(result.ok && result.groups).toHaveLength(2)
+    expect(groups.map(({ id, name, closedAt }) => ({ id, name, closedAt }))).toEqual([
+      { id: 7, name: null, closedAt: NOW.toISOString() },
+      { id: 8, name: 'Group 1', closedAt: null },
+      { id: 9, name: 'Group 2', closedAt: null },
+    ])
+  })
+
+  it('only takes students who are in the session, in one group each', async () => {
+    const { payload, groups } = fakePayload()
+    expect(
+      await startBreakout(payload, 1, {
+        mode: 'manual',
+        groups: [{ name: null, memberIds: [20, 99] }],
+      }),
+    ).toEqual({ ok: false, status: 400, error: 'User 99 is not in the session' })
+    expect(
+      await startBreakout(payload, 1, {
+        mode: 'manual',
+        groups: [
+          { name: 'A', memberIds: [20, 21] },
+          { name: 'B', memberIds: [21, 22] },
+        ],
+      }),
+    ).toEqual({ ok: false, status: 400, error: 'User 21 is in more than one group' })
+    expect(groups).toHaveLength(0)
+  })
+
+  it('needs someone to split', async () => {
+    const { payload } = fakePayload({ present: [] })
+    expect(await startBreakout(payload, 1, { mode: 'random', groupCount: 2 })).toMatchObject({
+      ok: false,
+      status: 409,
+    })
+  })
+})
+
+describe('updateGroup', () => {
+  it('takes moved students out of their old group', async () => {
+    const { payload, groups } = fakePayload({
+      open: [
+        { id: 7, members: [20, 21] },
+        { id: 8, members: [22, 23] },
+      ],
+    })
+    const result = await updateGroup(payload, 1, 8, { memberIds: [22, 23, 21] })
+    expect(result.ok).toBe(true)
+    expect(groups.map(({ id, members }) => ({ id, members }))).toEqual([
+      { id: 7, members: [20] },
+      { id: 8, members: [22, 23, 21] },
+    ])
+  })
+
+  it('refuses groups that have ended', async () => {
+    const { payload } = fakePayload()
+    expect(await updateGroup(payload, 1, 8, { name: 'Pair B' })).toEqual({
+      ok: false,
+      status: 409,
+      error: 'This breakout group has ended',
+    })
+  })
+})
+
+describe('saveGroupScratchpad', () => {
+  it('refuses a save made on an outdated version and returns the newer one', async () => {
+    const group = { id: 7, session: 1, members: [20, 21], codeUpdatedAt: null } as SessionGroup
+    const { payload, groups } = fakePayload({ open: [group] })
+    const later = new Date('2026-01-01T10:00:05.000Z')
+
+    const first = await saveGroupScratchpad(
+      payload,
+      group,
+      20,
+      { code: 'a = 1', language: 'python', baseUpdatedAt: null },
+      NOW,
+    )
+    expect(first).toMatchObject({ ok: true, group: { code: 'a = 1', codeUpdatedBy: 20 } })
+
+    const stale = await saveGroupScratchpad(
+      payload,
+      group,
+      21,
+      { code: 'b = 2', language: 'python', baseUpdatedAt: null },
+      later,
+    )
+    expect(stale).toMatchObject({ ok: false, status: 409, latest: { code: 'a = 1' } })
+    expect(groups[0]).toMatchObject({ code: 'a = 1', codeUpdatedBy: 20 })
+
+    const rebased = await saveGroupScratchpad(
+      payload,
+      group,
+      21,
+      { code: 'b = 2', language: 'python', baseUpdatedAt: NOW.toISOString() },
+      later,
+    )
+    expect(rebased).toMatchObject({ ok: true, group: { code: 'b = 2' } })
+  })
+
+  it('refuses groups that have ended', async () => {
+    const group = { id: 7, session: 1, closedAt: NOW.toISOString() } as SessionGroup
+    const { payload } = fakePayload({ open: [group] })
+    expect(
+      await saveGroupScratchpad(payload, group, 20, {
+        code: '',
+        language: null,
+        baseUpdatedAt: null,
+      }),
+    ).toEqual({ ok: false, status: 409, error: 'This breakout group has ended' })
+  })
+})
+
+describe('toGroupItem', () => {
+  it('names members and only shows code the trainer actually sent', () => {
+    const item = toGroupItem({
+      id: 7,
+      session: 1,
+      name: 'Pair A',
+      members: [{ id: 20, name: 'Ravi' } as User, 21],
+      code: 'print(1)',
+      language: 'python',
+      codeUpdatedAt: NOW.toISOString(),
+      codeUpdatedBy: { id: 20, name: 'Ravi' } as User,
+      createdAt: NOW.toISOString(),
+      updatedAt: NOW.toISOString(),
+    })
+    expect(item).toEqual({
+      id: 7,
+      name: 'Pair A',
+      members: [
+        { id: 20, name: 'Ravi' },
+        { id: 21, name: 'Anonymous' },
+      ],
+      code: 'print(1)',
+      language: 'python',
+      codeUpdatedAt: NOW.toISOString(),
+      codeUpdatedBy: { id: 20, name: 'Ravi' },
+      broadcast: null,
+    })
+  })
+})
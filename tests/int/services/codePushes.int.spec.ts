@@ -0,0 +1,115 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type { CodePush, CodePushResponse } from '@/payload-types'
+import { pendingPushesFor, respondToPush, toCodePushItem } from '@/services/codePushes'
+import { createFakePayload } from '../helpers/fakePayload'
+
+const trainer = { id: 9, name: 'Asha', email: 'asha@example.com' }
+
+function codePush(id: number, fields: Partial<CodePush> = {}): CodePush {
+  return {
+    id,
+    session: 1,
+    sentBy: trainer,
+    recipient: null,
+    code: `print(${id})`,
+    createdAt: `2026-01-01T10:0${id}:00.000Z`,
+    updatedAt: `2026-01-01T10:0${id}:00.000Z`,
+    ...fields,
+  } as CodePush
+}
+
+let nextResponseId = 1
+function answer(push: number, user: number, action: CodePushResponse['action']): CodePushResponse {
+  return { id: nextResponseId++, push, user, action } as CodePushResponse
+}
+
+describe('pendingPushesFor', () => {
+  const pushes = [
+    codePush(1),
+    codePush(2, { recipient: 20 }),
+    codePush(3, { recipient: { id: 21, name: 'Ravi' } as CodePush['recipient'] }),
+    codePush(4),
+  ]
+  const responses = [answer(4, 20, 'dismissed')]
+
+  it('keeps class pushes and pushes to the student that they have not answered', () => {
+    expect(pendingPushesFor(pushes, 20, responses).map((push) => push.id)).toEqual([1, 2])
+    expect(pendingPushesFor(pushes, 21, responses).map((push) => push.id)).toEqual([1, 3, 4])
+  })
+})
+
+describe('toCodePushItem', () => {
+  it('counts answers and names sender and recipient', () => {
+    const item = toCodePushItem(
+      codePush(1, {
+        recipient: { id: 21, name: 'Ravi' } as CodePush['recipient'],
+        fileName: 'loops.py',
+      }),
+      [answer(1, 21, 'merged'), answer(2, 20, 'saved')],
+    )
+    expect(item).toMatchObject({
+      fileName: 'loops.py',
+      message: null,
+      sentBy: { id: 9, name: 'Asha' },
+      recipient: { id: 21, name: 'Ravi' },
+      sentAt: '2026-01-01T10:01:00.000Z',
+      responses: { replaced: 0, merged: 1, saved: 0, dismissed: 0 },
+    })
+  })
+})
+
+describe('respondToPush', () => {
+  const JOINED_AT = '2026-01-01T10:00:00.000Z'
+
+  /** Students 20 to 22 are in session 1; 23 left it */
+  function fakePayload() {
+    const fake = createFakePayload({
+      'session-participants': [
+        ...[20, 21, 22].map((user) => ({ session: 1, user, joinedAt: JOINED_AT })),
+        { session: 1, user: 23, joinedAt: JOINED_AT, leftAt: '2026-01-01T10:30:00.000Z' },
+      ],
+    })
+    return { payload: fake.payload, responses: fake.docs('code-push-responses') }
+  }
+
+  it('stores one answer per student, even when they answer at the same time', async () => {
+    const push = codePush(1)
+    const { payload, responses } = fakePayload()
+    const results = await Promise.all([
+      respondToPush(payload, push, 20, 'replaced'),
+      respondToPush(payload, push, 21, 'dismissed'),
+      respondToPush(payload, push, 22, 'merged'),
+    ])
+    expect(results.every((result) => result.ok)).toBe(true)
+    expect(responses.map((response) => response.user)).toEqual([20, 21, 22])
+  })
+
+  it('refuses students the push was not sent to', async () => {
+    const { payload, responses } = fakePayload()
+    const result = await respondToPush(payload, codePush(1, { recipient: 20 }), 21, 'replaced')
+    expect(result).toEqual({ ok: false, status: 404, error: 'Push not found' })
+    expect(responses).toHaveLength(0)
+  })
+
+  it('refuses students who are not in the session', async () => {
+    const { payload, responses } = fakePayload()
+    for (const user of [23, 30]) {
+      expect(await respondToPush(payload, codePush(1), user, 'dismissed')).toEqual({
+        ok: false,
+        status: 403,
+        error: 'Join the session to answer pushes',
+      })
+    }
+    expect(responses).toHaveLength(0)
+  })
+
+  it('accepts one answer per student', async () => {
+    const { payload, responses } = fakePayload()
+    const push = codePush(1)
+    expect((await respondToPush(payload, push, 21, 'dismissed')).ok).toBe(true)
+    const again = await respondToPush(payload, push, 21, 'replaced')
+    expect(again).toEqual({ ok: false, status: 409, error: 'You already answered this push' })
+    expect(responses).toHaveLength(1)
+  })
+})
@@ -0,0 +1,94 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+  LINT_REQUESTS_PER_MINUTE,
+  MAX_LINT_SOURCE_BYTES,
+  formatCode,
+  lintCode,
+  takeLintRequest,
+} from '@/services/codeTools'
+import { lintJavaScript } from '@/services/codeTools/javascript'
+
+describe('code tools', () => {
+  it('formats JavaScript and TypeScript with Prettier', async () => {
+    expect(await formatCode('javascript', 'const x = {a:1,b:2}\nconsole.log( x )')).toEqual({
+      ok: true,
+      value: 'const x = { a: 1, b: 2 };\nconsole.log(x);\n',
+    })
+    expect(await formatCode('typescript', 'let n:number=1')).toMatchObject({
+      ok: true,
+      value: 'let n: number = 1;\n',
+    })
+    expect(await formatCode('javascript', 'const = 1')).toMatchObject({ ok: false, status: 422 })
+    expect(await formatCode('cobol', 'x')).toMatchObject({ ok: false, status: 501 })
+  })
+
+  it('reports JavaScript syntax errors and undefined names with positions', async () => {
+    const syntax = await lintCode('javascript', 'const x = 1\nif (x {\n}')
+    expect(syntax.ok && syntax.value[0]).toMatchObject({
+      line: 2,
+      severity: 'error',
+      source: 'typescript',
+    })
+
+    const names = await lintCode('javascript', 'const name = "a"\nconsole.log(nmae, name)')
+    expect(names.ok && names.value).toEqual([
+      expect.objectContaining({
+        line: 2,
+        column: 13,
+        endColumn: 17,
+        severity: 'error',
+        code: 'TS2304',
+      }),
+    ])
+
+    // Dynamic JavaScript is not type-checked
+    const dynamic = await lintCode(
+      'javascript',
+      'const o = {}\no.x = 1\nconsole.log(o.x, require("fs"))',
+    )
+    expect(dynamic).toEqual({ ok: true, value: [] })
+  }, 30_000)
+
+  it('type-checks TypeScript and warns about unused variables', async () => {
+    const result = await lintCode(
+      'typescript',
+      'const n: number = "one"\nconst unused = 1\nconsole.log(n)',
+    )
+    expect(result.ok && result.value.map(({ line, severity }) => ({ line, severity }))).toEqual([
+      { line: 1, severity: 'error' },
+      { line: 2, severity: 'warning' },
+    ])
+  }, 30_000)
+
+  it('only reports syntax errors once the type-check time is up', () => {
+    const code = 'const n: number = "one"\nconsole.log(n'
+    expect(lintJavaScript(code, true, -1).map((d) => d.code)).toEqual(['TS1005'])
+    const typeError = 'const n: number = "one"\nconsole.log(n)'
+    expect(lintJavaScript(typeError, true, -1)).toEqual([])
+    expect(lintJavaScript(typeError, true).map((d) => d.code)).toEqual(['TS2322'])
+  }, 30_000)
+
+  it('limits how much code and how often a user may lint', async () => {
+    const large = 'let x = 1\n'.repeat(MAX_LINT_SOURCE_BYTES / 10 + 1)
+    expect(await lintCode('javascript', large)).toMatchObject({ ok: false, status: 413 })
+
+    const now = Date.now()
+    for (let i = 0; i < LINT_REQUESTS_PER_MINUTE; i++) {
+      expect(takeLintRequest('ravi', now).ok).toBe(true)
+    }
+    expect(takeLintRequest('ravi', now)).toMatchObject({ ok: false, status: 429 })
+    expect(takeLintRequest('mei', now).ok).toBe(true)
+    expect(takeLintRequest('ravi', now + 60_001).ok).toBe(true)
+  })
+
+  it('reports Python syntax errors without running the code', async () => {
+    const result = await lintCode('python', 'import os\nos.remove("x")\nprint("hi"')
+    expect(result.ok && result.value[0]).toMatchObject({
+      line: 3,
+      severity: 'error',
+      source: 'python',
+    })
+    expect(await lintCode('python', 'print("ok")\n')).toEqual({ ok: true, value: [] })
+  })
+})
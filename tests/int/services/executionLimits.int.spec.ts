@@ -0,0 +1,103 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest'
+import type { Payload } from 'payload'
+import { applyConfiguredLimits, resolveExecutionLimits } from '@/services/execution'
+import { normalizeExecutionResult } from '@/services/execution/resultNormalizers'
+import { DEFAULT_LANGUAGE_LIMITS, getLanguageLimits } from '@/utilities/languageRegistry'
+import { createFakePayload } from '../helpers/fakePayload'
+
+const fakePayload = createFakePayload({
+  languages: [
+    { slug: 'c', limits: { cpuTimeSeconds: 2, wallTimeMs: null, memoryMb: 64, maxOutputKb: null } },
+  ],
+  'live-sessions': [
+    {
+      id: 1,
+      joinCode: 'ABC-DEF-GHJ',
+      trainer: 9,
+      executionLimits: { cpuTimeSeconds: null, wallTimeMs: 3000, memoryMb: null, maxOutputKb: 8 },
+    },
+  ],
+  'session-participants': [
+    { session: 1, user: 20, joinedAt: '2026-01-01T10:00:00.000Z' },
+    {
+      session: 1,
+      user: 21,
+      joinedAt: '2026-01-01T10:00:00.000Z',
+      leftAt: '2026-01-01T10:30:00.000Z',
+    },
+  ],
+}).payload
+
+const student = (id: number) => ({ id, role: 'student' as const })
+
+describe('execution limits', () => {
+  it('applies only the configured fields', () => {
+    expect(applyConfiguredLimits(DEFAULT_LANGUAGE_LIMITS, null)).toEqual(DEFAULT_LANGUAGE_LIMITS)
+    expect(
+      applyConfiguredLimits(DEFAULT_LANGUAGE_LIMITS, {
+        memoryMb: 512,
+        wallTimeMs: 0,
+        maxOutputKb: 2,
+      }),
+    ).toEqual({
+      ...DEFAULT_LANGUAGE_LIMITS,
+      memoryMb: 512,
+      maxOutputBytes: 2048,
+    })
+  })
+
+  it('layers registry, language and session limits', async () => {
+    expect(await resolveExecutionLimits(fakePayload, 'c')).toEqual({
+      ...getLanguageLimits('c'),
+      cpuTimeSeconds: 2,
+      memoryMb: 64,
+    })
+    expect(await resolveExecutionLimits(fakePayload, 'c', 'abc-def-ghj', student(20))).toEqual({
+      cpuTimeSeconds: 2,
+      wallTimeMs: 3000,
+      memoryMb: 64,
+      maxOutputBytes: 8 * 1024,
+    })
+  })
+
+  it('applies the session limits only for its hosts and current participants', async () => {
+    const languageLimits = await resolveExecutionLimits(fakePayload, 'c')
+    const trainer = await resolveExecutionLimits(fakePayload, 'c', 'ABC-DEF-GHJ', {
+      id: 9,
+      role: 'trainer',
+    })
+    expect(trainer).toMatchObject({ wallTimeMs: 3000 })
+
+    for (const outsider of [student(21), student(30), { id: 8, role: 'trainer' as const }, null]) {
+      expect(await resolveExecutionLimits(fakePayload, 'c', 'ABC-DEF-GHJ', outsider)).toEqual(
+        languageLimits,
+      )
+    }
+  })
+
+  it('falls back to the registry limits when the database fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const failing = { find: async () => Promise.reject(new Error('offline')) } as unknown as Payload
+    expect(await resolveExecutionLimits(failing, 'java', 'ABC-DEF-GHJ', student(20))).toEqual(
+      getLanguageLimits('java'),
+    )
+  })
+
+  it('reports the limit that stopped the program', () => {
+    expect(
+      normalizeExecutionResult('c', {
+        stdout: 'x'.repeat(10) + '\n[output truncated]',
+        exitCode: null,
+        signal: 'SIGKILL',
+      }),
+    ).toMatchObject({
+      status: 'runtime_error',
+      limitExceeded: 'output',
+    })
+    expect(normalizeExecutionResult('python', { timedOut: true })).toMatchObject({
+      status: 'timeout',
+      limitExceeded: 'time',
+    })
+  })
+})
@@ -0,0 +1,94 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type { User } from '@/payload-types'
+import { getClientIp, getRoleLimits, reserveExecution } from '@/services/execution'
+import { getRetryAfterSeconds, MINUTE_MS } from '@/services/execution/quota'
+import { createFakePayload } from '../helpers/fakePayload'
+
+const settings = {
+  executionRateLimits: [
+    { role: 'student' as const, runsPerMinute: 2, runsPerDay: null },
+    { role: 'guest' as const, runsPerMinute: 2, runsPerDay: 10 },
+  ],
+}
+
+/** platform-settings plus the `executions` collection (reservations only) */
+function fakePayload() {
+  let clock = 0
+  const fake = createFakePayload(
+    {},
+    { globals: { 'platform-settings': settings }, now: () => clock },
+  )
+  const { payload } = fake
+
+  /** Reserve a run at `now` (rows are stamped with the same clock) */
+  const reserve = (caller: { user: User | null; ip: string }, now: number) => {
+    clock = now
+    return reserveExecution(payload, { ...caller, language: 'python' }, now)
+  }
+
+  return { rows: fake.docs('executions'), reserve }
+}
+
+describe('execution quotas', () => {
+  it('reads limits per role and leaves unlisted roles unlimited', () => {
+    expect(getRoleLimits(settings, 'student')).toEqual({ runsPerMinute: 2, runsPerDay: null })
+    expect(getRoleLimits(settings, 'admin')).toEqual({ runsPerMinute: null, runsPerDay: null })
+    expect(getRoleLimits(null, 'student')).toEqual({ runsPerMinute: null, runsPerDay: null })
+  })
+
+  it('computes retry-after from the run that frees the next slot', () => {
+    const now = 100_000
+    expect(getRetryAfterSeconds([now - 1_000], 2, MINUTE_MS, now)).toBeNull()
+    // Limit 2: the 2nd newest run (30s ago) leaves the 60s window in 30s
+    expect(getRetryAfterSeconds([now - 1_000, now - 30_000, now - 50_000], 2, MINUTE_MS, now)).toBe(
+      30,
+    )
+  })
+
+  it('limits guests per IP with a retry-after', async () => {
+    const { rows, reserve } = fakePayload()
+    const now = Date.now()
+    const caller = { user: null, ip: '203.0.113.7' }
+
+    expect(await reserve(caller, now)).toEqual({ ok: true, reservationId: 1 })
+    expect((await reserve(caller, now + 1_000)).ok).toBe(true)
+
+    const blocked = await reserve(caller, now + 2_000)
+    expect(blocked).toMatchObject({ ok: false, status: 429, retryAfter: 58 })
+    // The refused run is not stored, and the address is only stored hashed
+    expect(rows).toHaveLength(2)
+    expect(rows[0].guestKey).not.toContain('203.0.113.7')
+
+    // Other addresses have their own window
+    expect((await reserve({ user: null, ip: '203.0.113.8' }, now)).ok).toBe(true)
+    // The first run has left the window
+    expect((await reserve(caller, now + MINUTE_MS + 1)).ok).toBe(true)
+  })
+
+  it('never lets parallel runs go over the limit', async () => {
+    const { rows, reserve } = fakePayload()
+    const student = { id: 20, role: 'student' } as User
+    const now = Date.now()
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => reserve({ user: student, ip: 'unknown' }, now)),
+    )
+
+    expect(results.filter((result) => result.ok).length).toBeLessThanOrEqual(2)
+    expect(rows.length).toBeLessThanOrEqual(2)
+  })
+
+  it('only trusts the X-Forwarded-For entries our proxies added', () => {
+    const headers = new Headers({ 'x-forwarded-for': '6.6.6.6, 203.0.113.7, 10.0.0.2' })
+    expect(getClientIp(headers, 2)).toBe('203.0.113.7')
+    expect(getClientIp(headers, 1)).toBe('10.0.0.2')
+    expect(getClientIp(new Headers(), 1)).toBe('unknown')
+  })
+
+  it('uses the connection address when there is no proxy', () => {
+    // Next.js fills in X-Forwarded-For from the socket
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '198.51.100.4' }), 0)).toBe('198.51.100.4')
+    expect(getClientIp(new Headers(), 0)).toBe('unknown')
+  })
+})
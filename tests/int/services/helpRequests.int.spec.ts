@@ -0,0 +1,136 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type { HelpRequest } from '@/payload-types'
+import { buildHelpQueue, queuePosition, updateHelpRequest } from '@/services/helpRequests'
+import { lastErrorFromOutput } from '@/utilities/executionError'
+import { createFakePayload } from '../helpers/fakePayload'
+
+function helpRequest(id: number, raisedAt: string, fields: Partial<HelpRequest> = {}): HelpRequest {
+  return {
+    id,
+    session: 1,
+    user: { id: 100 + id, name: `Student ${id}`, email: `s${id}@example.com` },
+    status: 'waiting',
+    raisedAt,
+    updatedAt: raisedAt,
+    createdAt: raisedAt,
+    ...fields,
+  } as HelpRequest
+}
+
+describe('buildHelpQueue', () => {
+  const requests = [
+    helpRequest(1, '2026-01-01T10:05:00.000Z'),
+    helpRequest(2, '2026-01-01T10:00:00.000Z', {
+      status: 'claimed',
+      claimedAt: '2026-01-01T10:01:00.000Z',
+      claimedBy: { id: 9, name: 'Trainer', email: 't@example.com' } as HelpRequest['claimedBy'],
+    }),
+    helpRequest(3, '2026-01-01T09:00:00.000Z', {
+      status: 'resolved',
+      claimedAt: '2026-01-01T09:03:00.000Z',
+      closedAt: '2026-01-01T09:10:00.000Z',
+    }),
+    helpRequest(4, '2026-01-01T09:30:00.000Z', {
+      status: 'withdrawn',
+      closedAt: '2026-01-01T09:31:00.000Z',
+    }),
+    helpRequest(5, '2026-01-01T10:02:00.000Z'),
+  ]
+
+  it('lists open requests oldest first', () => {
+    const queue = buildHelpQueue(requests)
+    expect(queue.requests.map((request) => request.id)).toEqual([2, 5, 1])
+    expect(queue.requests[0]).toMatchObject({
+      name: 'Student 2',
+      status: 'claimed',
+      claimedBy: { id: 9, name: 'Trainer' },
+    })
+  })
+
+  it('counts requests and averages the wait until a trainer picked them up', () => {
+    const { stats } = buildHelpQueue(requests)
+    expect(stats).toEqual({ waiting: 2, claimed: 1, resolved: 1, averageWaitSeconds: 120 })
+  })
+
+  it('has no average before anyone was helped', () => {
+    expect(
+      buildHelpQueue([helpRequest(1, '2026-01-01T10:00:00.000Z')]).stats.averageWaitSeconds,
+    ).toBeNull()
+  })
+})
+
+describe('queuePosition', () => {
+  const requests = [
+    helpRequest(1, '2026-01-01T10:05:00.000Z'),
+    helpRequest(2, '2026-01-01T10:00:00.000Z', { status: 'claimed' }),
+    helpRequest(3, '2026-01-01T10:02:00.000Z'),
+  ]
+
+  it('counts only waiting requests', () => {
+    expect(queuePosition(requests, 3)).toBe(1)
+    expect(queuePosition(requests, 1)).toBe(2)
+    expect(queuePosition(requests, 2)).toBeNull()
+  })
+})
+
+describe('updateHelpRequest', () => {
+  // The request as stored, and the payload holding it
+  function stored(request: HelpRequest) {
+    const fake = createFakePayload({ 'help-requests': [request] })
+    return { payload: fake.payload, saved: () => fake.docs('help-requests')[0] }
+  }
+
+  it('claims a waiting request', async () => {
+    const request = helpRequest(1, '2026-01-01T10:00:00.000Z')
+    const { payload, saved } = stored(request)
+    const result = await updateHelpRequest(payload, request, 'claim', 9)
+    expect(result.ok).toBe(true)
+    expect(saved()).toMatchObject({ status: 'claimed', claimedBy: 9 })
+    expect(saved().claimedAt).toEqual(expect.any(String))
+  })
+
+  it('keeps the first claim time when another trainer takes over', async () => {
+    const request = helpRequest(1, '2026-01-01T10:00:00.000Z', {
+      status: 'claimed',
+      claimedAt: '2026-01-01T10:01:00.000Z',
+    })
+    const { payload, saved } = stored(request)
+    await updateHelpRequest(payload, request, 'claim', 10)
+    expect(saved()).toMatchObject({ claimedAt: '2026-01-01T10:01:00.000Z', claimedBy: 10 })
+  })
+
+  it('resolves and dismisses open requests', async () => {
+    const first = helpRequest(1, '2026-01-01T10:00:00.000Z')
+    const second = helpRequest(2, '2026-01-01T10:00:00.000Z')
+    const fake = createFakePayload({ 'help-requests': [first, second] })
+    await updateHelpRequest(fake.payload, first, 'resolve', 9)
+    await updateHelpRequest(fake.payload, second, 'dismiss', 9)
+    const [resolved, dismissed] = fake.docs('help-requests')
+    expect([resolved.status, dismissed.status]).toEqual(['resolved', 'dismissed'])
+    expect(dismissed.closedAt).toEqual(expect.any(String))
+  })
+
+  it('refuses to change a closed request', async () => {
+    const request = helpRequest(1, '2026-01-01T10:00:00.000Z', { status: 'withdrawn' })
+    const { payload, saved } = stored(request)
+    const result = await updateHelpRequest(payload, request, 'claim', 9)
+    expect(result).toEqual({ ok: false, status: 409, error: 'Request is already withdrawn' })
+    expect(saved().status).toBe('withdrawn')
+  })
+})
+
+describe('lastErrorFromOutput', () => {
+  it('returns stderr of a failed run', () => {
+    expect(lastErrorFromOutput({ status: 'error', stderr: 'NameError: x\n' })).toBe('NameError: x')
+  })
+
+  it('falls back to the status when there is no stderr', () => {
+    expect(lastErrorFromOutput({ status: 'timeout', stderr: '' })).toBe('timeout')
+  })
+
+  it('ignores successful runs and missing output', () => {
+    expect(lastErrorFromOutput({ status: 'success', stderr: 'warning' })).toBeNull()
+    expect(lastErrorFromOutput(null)).toBeNull()
+  })
+})
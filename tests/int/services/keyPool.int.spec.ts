@@ -0,0 +1,69 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest'
+import { classifyKeyFailure, createKeyPool } from '@/services/execution/keyPool'
+
+function createTestPool() {
+  let time = 1_000_000
+  const pool = createKeyPool({
+    failureThreshold: 2,
+    errorCooldownMs: 10_000,
+    quotaCooldownMs: 60_000,
+    authCooldownMs: 120_000,
+    now: () => time,
+  })
+  pool.setKeys(['key-aaaaaa', 'key-bbbbbb'])
+  return { pool, advance: (ms: number) => (time += ms) }
+}
+
+describe('execution key pool', () => {
+  it('classifies provider errors', () => {
+    expect(classifyKeyFailure(429)).toBe('quota')
+    expect(classifyKeyFailure(403)).toBe('auth')
+    expect(classifyKeyFailure(503)).toBe('error')
+    expect(classifyKeyFailure(400)).toBeNull()
+  })
+
+  it('benches a key after a quota error and skips it', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const { pool, advance } = createTestPool()
+
+    pool.reportFailure('key-aaaaaa', { kind: 'quota', status: 429, message: 'quota' })
+    for (let i = 0; i < 10; i++) expect(pool.pick()).toBe('key-bbbbbb')
+    expect(pool.pick(new Set(['key-bbbbbb']))).toBeNull()
+    expect(pool.status()[0]).toMatchObject({ health: 'benched', failures: 1 })
+
+    // Cooldown over: the key gets a trial run
+    advance(60_000)
+    expect(pool.status()[0].health).toBe('probation')
+    expect(pool.pick(new Set(['key-bbbbbb']))).toBe('key-aaaaaa')
+  })
+
+  it('benches after repeated errors and re-benches a failing probation key at once', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const { pool, advance } = createTestPool()
+
+    pool.reportFailure('key-aaaaaa', { kind: 'error', message: 'timeout' })
+    expect(pool.status()[0].health).toBe('healthy')
+    pool.reportFailure('key-aaaaaa', { kind: 'error', message: 'timeout' })
+    expect(pool.status()[0].health).toBe('benched')
+
+    advance(10_000)
+    pool.reportFailure('key-aaaaaa', { kind: 'error', message: 'timeout' })
+    expect(pool.status()[0].health).toBe('benched')
+
+    advance(10_000)
+    pool.reportSuccess('key-aaaaaa')
+    expect(pool.status()[0]).toMatchObject({ health: 'healthy', consecutiveFailures: 0 })
+  })
+
+  it('honours Retry-After and masks keys', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const { pool, advance } = createTestPool()
+
+    pool.reportFailure('key-bbbbbb', { kind: 'quota', message: 'quota', retryAfterMs: 5_000 })
+    expect(pool.nextAvailableAt()).not.toBeNull()
+    advance(5_000)
+    expect(pool.nextAvailableAt()).toBeNull()
+    expect(pool.status().map((key) => key.maskedKey)).toEqual(['key-aa...', 'key-bb...'])
+  })
+})
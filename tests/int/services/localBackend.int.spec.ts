@@ -0,0 +1,207 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_LOCAL_LIMITS,
+  getExecutionBackend,
+  isExecutionBackendId,
+  runLocally,
+} from '@/services/execution'
+import { javaMainClass } from '@/services/execution/localBackend'
+
+describe('local execution backend', () => {
+  it('only knows its own runtimes and backends', () => {
+    expect(getExecutionBackend('local').supportsLanguage('python')).toBe(true)
+    expect(getExecutionBackend('local').supportsLanguage('constructor')).toBe(false)
+    expect(isExecutionBackendId('local')).toBe(true)
+    expect(isExecutionBackendId('toString')).toBe(false)
+  })
+
+  it('runs the Java class its folders name', () => {
+    expect(javaMainClass('Main.java')).toBe('Main')
+    expect(javaMainClass('com/acme/Main.java')).toBe('com.acme.Main')
+    expect(javaMainClass('./app/Main.java')).toBe('app.Main')
+  })
+
+  it('runs a program and returns its output', async () => {
+    const result = await runLocally(
+      'javascript',
+      [{ name: 'index.js', content: 'const fs = require("fs"); console.log("hi " + fs.readFileSync(0, "utf8"))' }],
+      'there',
+    )
+
+    expect(result.stdout).toBe('hi there\n')
+    expect(result.status).toBe('success')
+    expect(result.exitCode).toBe(0)
+    expect(result.backend).toBe('local')
+  })
+
+  it('reports a non-zero exit code', async () => {
+    const result = await runLocally(
+      'javascript',
+      [{ name: 'index.js', content: 'console.error("boom"); process.exit(3)' }],
+      '',
+    )
+
+    expect(result.status).toBe('failed')
+    expect(result.exitCode).toBe(3)
+    expect(result.stderr).toContain('boom')
+  })
+
+  it('kills programs that exceed the wall-clock limit', async () => {
+    const result = await runLocally(
+      'javascript',
+      [{ name: 'index.js', content: 'setInterval(() => {}, 1000)' }],
+      '',
+      { ...DEFAULT_LOCAL_LIMITS, wallTimeMs: 500 },
+    )
+
+    expect(result.timedOut).toBe(true)
+    expect(result.status).toBe('failed')
+  })
+
+  it('has no network access', async () => {
+    const result = await runLocally(
+      'javascript',
+      [
+        {
+          name: 'index.js',
+          content:
+            'require("net").connect(80, "1.1.1.1").on("error", () => console.log("offline")).on("connect", () => console.log("online"))',
+        },
+      ],
+      '',
+    )
+
+    expect(result.stdout).toBe('offline\n')
+  })
+
+  it('only lets programs write to their work dir and hides the app', async () => {
+    const result = await runLocally(
+      'javascript',
+      [
+        {
+          name: 'index.js',
+          content:
+            'const fs = require("fs")\n' +
+            'for (const file of ["/work/out.txt", "/tmp/out.txt", "/etc/out.txt"]) {\n' +
+            '  try { fs.writeFileSync(file, "x"); console.log("wrote " + file) }\n' +
+            '  catch (error) { console.log("blocked " + file) }\n' +
+            '}\n' +
+            `console.log(fs.existsSync(${JSON.stringify(process.cwd())}) ? "app visible" : "app hidden")`,
+        },
+      ],
+      '',
+    )
+
+    expect(result.stdout).toBe(
+      'wrote /work/out.txt\nblocked /tmp/out.txt\nblocked /etc/out.txt\napp hidden\n',
+    )
+  })
+
+  it('limits the number of processes and kills detached ones', async () => {
+    const result = await runLocally(
+      'bash',
+      [
+        {
+          name: 'main.sh',
+          content:
+            'setsid sleep 60 < /dev/null > /dev/null 2>&1 &\n' +
+            'for i in $(seq 100); do sleep 60 & done 2> /dev/null\n' +
+            'echo started',
+        },
+      ],
+      '',
+      { ...DEFAULT_LOCAL_LIMITS, maxProcesses: 16, wallTimeMs: 2000 },
+    )
+
+    expect(result.stdout).toBe('')
+    expect(result.status).toBe('failed')
+  })
+
+  it('rejects file names outside the work dir', async () => {
+    await expect(
+      runLocally('javascript', [{ name: '../escape.js', content: '' }], ''),
+    ).rejects.toThrow('Invalid file name')
+  })
+
+  it('streams output chunks while running', async () => {
+    const chunks: string[] = []
+    const result = await runLocally(
+      'javascript',
+      [{ name: 'index.js', content: 'console.log("a"); setTimeout(() => console.log("b"), 200)' }],
+      '',
+      DEFAULT_LOCAL_LIMITS,
+      { onOutput: (stream, data) => stream === 'stdout' && chunks.push(data) },
+    )
+
+    expect(chunks.join('')).toBe('a\nb\n')
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(result.stdout).toBe('a\nb\n')
+  })
+
+  it('kills the program when aborted', async () => {
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 300)
+    const startedAt = Date.now()
+
+    const result = await runLocally(
+      'javascript',
+      [{ name: 'index.js', content: 'setInterval(() => {}, 1000)' }],
+      '',
+      DEFAULT_LOCAL_LIMITS,
+      { signal: controller.signal },
+    )
+
+    expect(result.cancelled).toBe(true)
+    expect(result.status).toBe('failed')
+    expect(Date.now() - startedAt).toBeLessThan(DEFAULT_LOCAL_LIMITS.wallTimeMs)
+  })
+
+  it('keeps stdin open for interactive runs', async () => {
+    const output: string[] = []
+    const result = await runLocally(
+      'javascript',
+      [
+        {
+          name: 'index.js',
+          content:
+            'const rl = require("readline").createInterface({ input: process.stdin })\n' +
+            'console.log("name?")\n' +
+            'rl.on("line", (line) => console.log("hello " + line))\n' +
+            'rl.on("close", () => console.log("bye"))',
+        },
+      ],
+      'first\n',
+      DEFAULT_LOCAL_LIMITS,
+      {
+        interactive: true,
+        onOutput: (stream, data) => stream === 'stdout' && output.push(data),
+        onStdinReady: (stdin) => {
+          // Answer once the program has greeted the initial input
+          const wait = setInterval(() => {
+            if (!output.join('').includes('hello first')) return
+            clearInterval(wait)
+            stdin.write('second\n')
+            stdin.end()
+          }, 20)
+        },
+      },
+    )
+
+    expect(result.stdout).toBe('name?\nhello first\nhello second\nbye\n')
+    expect(result.status).toBe('success')
+  })
+
+  it('keeps interactive runs to the configured wall-clock limit', async () => {
+    const result = await runLocally(
+      'javascript',
+      [{ name: 'index.js', content: 'process.stdin.on("data", () => {})' }],
+      '',
+      { ...DEFAULT_LOCAL_LIMITS, wallTimeMs: 500 },
+      { interactive: true, onStdinReady: () => {} },
+    )
+
+    expect(result.timedOut).toBe(true)
+    expect(result.executionTime).toBeLessThan(5_000)
+  })
+})
@@ -0,0 +1,88 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type { PayloadRequest } from 'payload'
+import type { LiveSession } from '@/payload-types'
+import { recordSessionSnapshot } from '@/hooks/recordSessionSnapshot'
+
+const session = {
+  id: 1,
+  joinCode: 'ABC-DEF-GHJ',
+  isActive: true,
+  currentCode: 'print(1)',
+  currentOutput: null,
+  language: 3,
+  trainerWorkspaceFileId: 'f1',
+  trainerWorkspaceFileName: 'main.py',
+} as LiveSession
+
+async function runHook(previousDoc: LiveSession, doc: LiveSession, failCreate = false) {
+  const created: Record<string, unknown>[] = []
+  const errors: string[] = []
+  const req = {
+    payload: {
+      findByID: async () => ({ id: 3, slug: 'javascript' }),
+      create: async ({
+        collection,
+        data,
+      }: {
+        collection: string
+        data: Record<string, unknown>
+      }) => {
+        if (failCreate) throw new Error('database is down')
+        created.push({ collection, ...data })
+        return data
+      },
+      logger: { error: (_: unknown, message: string) => errors.push(message) },
+    },
+  } as unknown as PayloadRequest
+
+  const result = await recordSessionSnapshot({
+    doc,
+    previousDoc,
+    operation: 'update',
+    req,
+  } as Parameters<typeof recordSessionSnapshot>[0])
+  expect(result).toBe(doc)
+  return { created, errors }
+}
+
+describe('recordSessionSnapshot', () => {
+  it('records code and output broadcasts with the language of the file', async () => {
+    const output = { stdout: '1\n', stderr: '', status: 'success' }
+    const { created } = await runHook(session, { ...session, currentCode: 'print(2)' })
+    const { created: outputs } = await runHook(session, { ...session, currentOutput: output })
+
+    expect(created).toEqual([
+      expect.objectContaining({
+        collection: 'session-snapshots',
+        session: 1,
+        code: 'print(2)',
+        language: 'python',
+        workspaceFileId: 'f1',
+        workspaceFileName: 'main.py',
+        capturedAt: expect.any(String),
+      }),
+    ])
+    expect(outputs).toEqual([expect.objectContaining({ code: 'print(1)', output })])
+  })
+
+  it('falls back to the session language when the file name has no known extension', async () => {
+    const { created } = await runHook(session, {
+      ...session,
+      trainerWorkspaceFileId: 'f2',
+      trainerWorkspaceFileName: 'notes',
+    })
+    expect(created[0]).toMatchObject({ language: 'javascript', workspaceFileName: 'notes' })
+  })
+
+  it('ignores changes that are not broadcasts', async () => {
+    const { created } = await runHook(session, { ...session, isActive: false })
+    expect(created).toEqual([])
+  })
+
+  it('logs instead of failing the broadcast when the snapshot cannot be saved', async () => {
+    const { created, errors } = await runHook(session, { ...session, currentCode: 'x' }, true)
+    expect(created).toEqual([])
+    expect(errors).toEqual(['Failed to record snapshot of session ABC-DEF-GHJ'])
+  })
+})
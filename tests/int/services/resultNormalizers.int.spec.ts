@@ -0,0 +1,225 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+  LANGUAGE_RESULT_PROFILES,
+  normalizeExecutionResult,
+} from '@/services/execution/resultNormalizers'
+import { LANGUAGES } from '@/utilities/languageRegistry'
+
+/** Sample OneCompiler-style stderr (no exit codes) per language */
+const SAMPLES: Record<string, { compile: string; runtime: string; memory?: string }> = {
+  javascript: {
+    compile:
+      '/index.js:1\nconsole.log(\n\nSyntaxError: missing ) after argument list\n    at wrapSafe (node:internal/modules/cjs/loader:1469:18)',
+    runtime:
+      'undefined:1\nx\n^\n\nSyntaxError: Unexpected token x in JSON at position 0\n    at JSON.parse (<anonymous>)\n    at Object.<anonymous> (/index.js:1:6)',
+    memory: 'FATAL ERROR: Reached heap limit Allocation failed - JavaScript heap out of memory',
+  },
+  typescript: {
+    compile: "index.ts(2,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+    runtime: 'TypeError: Cannot read properties of undefined (reading \'x\')\n    at Object.<anonymous> (index.ts:3:13)',
+  },
+  python: {
+    compile: '  File "main.py", line 1\n    print("hi"\n         ^\nSyntaxError: \'(\' was never closed',
+    runtime:
+      'Traceback (most recent call last):\n  File "main.py", line 2, in <module>\n    print(1 / 0)\nZeroDivisionError: division by zero',
+    memory: 'Traceback (most recent call last):\n  File "main.py", line 1, in <module>\nMemoryError',
+  },
+  python2: {
+    compile: '  File "main.py", line 1\n    print "hi\n            ^\nSyntaxError: EOL while scanning string literal',
+    runtime: 'Traceback (most recent call last):\n  File "main.py", line 1, in <module>\nNameError: name \'x\' is not defined',
+  },
+  c: {
+    compile: "main.c: In function 'main':\nmain.c:4:5: error: expected ';' before 'return'",
+    runtime: 'Segmentation fault (core dumped)',
+  },
+  cpp: {
+    compile: "main.cpp:5:3: error: 'cout' was not declared in this scope",
+    runtime: "terminate called after throwing an instance of 'std::runtime_error'\n  what():  boom\nAborted",
+    memory: "terminate called after throwing an instance of 'std::bad_alloc'\n  what():  std::bad_alloc",
+  },
+  java: {
+    compile: "Main.java:3: error: ';' expected\n        int x = 1\n                 ^\n1 error",
+    runtime: 'Exception in thread "main" java.lang.ArithmeticException: / by zero\n\tat Main.main(Main.java:3)',
+    memory: 'Exception in thread "main" java.lang.OutOfMemoryError: Java heap space',
+  },
+  csharp: {
+    compile: "Program.cs(5,13): error CS0103: The name 'x' does not exist in the current context",
+    runtime: 'Unhandled exception. System.DivideByZeroException: Attempted to divide by zero.',
+    memory: 'Unhandled exception. System.OutOfMemoryException: Insufficient memory.',
+  },
+  php: {
+    compile: 'PHP Parse error:  syntax error, unexpected end of file in /index.php on line 4',
+    runtime: 'PHP Fatal error:  Uncaught Error: Call to undefined function foo() in /index.php:2',
+    memory: 'PHP Fatal error:  Allowed memory size of 134217728 bytes exhausted (tried to allocate 20480 bytes)',
+  },
+  ruby: {
+    compile: 'main.rb:3: syntax error, unexpected end-of-input, expecting `end\'',
+    runtime: "main.rb:1:in `/': divided by 0 (ZeroDivisionError)",
+  },
+  go: {
+    compile: '# command-line-arguments\n./main.go:6:2: undefined: x',
+    runtime: 'panic: runtime error: index out of range [5] with length 3\n\ngoroutine 1 [running]:\nmain.main()\n\t/tmp/main.go:7 +0x1d',
+    memory: 'fatal error: runtime: out of memory',
+  },
+  rust: {
+    compile: 'error[E0425]: cannot find value `x` in this scope\n --> main.rs:2:20',
+    runtime: "thread 'main' panicked at main.rs:3:5:\nattempt to divide by zero",
+    memory: 'memory allocation of 8589934592 bytes failed',
+  },
+  kotlin: {
+    compile: 'Main.kt:2:13: error: unresolved reference: x',
+    runtime: 'Exception in thread "main" java.lang.ArithmeticException: / by zero',
+  },
+  swift: {
+    compile: "main.swift:1:7: error: cannot find 'x' in scope",
+    runtime: 'Fatal error: Index out of range',
+  },
+  scala: {
+    compile: 'Main.scala:3: error: not found: value x',
+    runtime: 'Exception in thread "main" java.lang.RuntimeException: boom',
+  },
+  perl: {
+    compile: 'syntax error at main.pl line 2, near "print"\nExecution of main.pl aborted due to compilation errors.',
+    runtime: 'Illegal division by zero at main.pl line 1.',
+  },
+  r: {
+    compile: 'Error: unexpected symbol in "x y"\nExecution halted',
+    runtime: "Error in foo() : could not find function \"foo\"\nExecution halted",
+    memory: 'Error: cannot allocate vector of size 7.5 Gb',
+  },
+  dart: {
+    compile: "main.dart:2:9: Error: Expected ';' after this.",
+    runtime: 'Unhandled exception:\nIntegerDivisionByZeroException',
+  },
+  lua: {
+    compile: "lua: main.lua:2: '=' expected near 'x'",
+    runtime: 'lua: main.lua:1: attempt to call a nil value (global \'foo\')',
+    memory: 'lua: not enough memory',
+  },
+  bash: {
+    compile: "script.sh: line 3: syntax error near unexpected token `fi'",
+    runtime: 'script.sh: line 1: foo: command not found',
+  },
+  haskell: {
+    compile: "main.hs:2:8: error:\n    Variable not in scope: x",
+    runtime: 'main: Prelude.head: empty list',
+    memory: 'main: Heap exhausted;',
+  },
+  elixir: {
+    compile: '** (SyntaxError) main.ex:2:5: syntax error before: \')\'',
+    runtime: '** (ArithmeticError) bad argument in arithmetic expression',
+  },
+  erlang: {
+    compile: 'main.erl:4:5: syntax error before: \'end\'',
+    runtime: 'escript: exception error: bad argument',
+  },
+  clojure: {
+    compile: 'Syntax error compiling at (main.clj:1:1).\nUnable to resolve symbol: x in this context',
+    runtime: 'Execution error (ArithmeticException) at user/eval1 (main.clj:1).\nDivide by zero',
+  },
+  groovy: {
+    compile: 'org.codehaus.groovy.control.MultipleCompilationErrorsException: startup failed:\nMain.groovy: 2: Unexpected input',
+    runtime: 'Caught: java.lang.ArithmeticException: Division by zero',
+  },
+  objectivec: {
+    compile: "main.m:4:5: error: use of undeclared identifier 'x'",
+    runtime: 'Segmentation fault (core dumped)',
+  },
+  fsharp: {
+    compile: "Program.fs(2,9): error FS0039: The value or constructor 'x' is not defined.",
+    runtime: 'Unhandled exception. System.DivideByZeroException: Attempted to divide by zero.',
+  },
+  assembly: {
+    compile: 'main.asm:3: error: parser: instruction expected',
+    runtime: 'Segmentation fault (core dumped)',
+  },
+  fortran: {
+    compile: "main.f90:3:5:\n\n    3 |   x = \n      |     1\nError: Invalid character in name at (1)",
+    runtime: 'At line 3 of file main.f90\nFortran runtime error: Index \'5\' of dimension 1 of array \'a\' above upper bound of 3',
+  },
+  cobol: {
+    compile: 'main.cob:5: error: syntax error, unexpected Identifier',
+    runtime: 'libcob: main.cob:7: error: subscript of \'ARR\' out of bounds: 5',
+  },
+  pascal: {
+    compile: 'main.pas(4,3) Error: Identifier not found "x"\nmain.pas(6) Fatal: There were 1 errors compiling module, stopping',
+    runtime: 'Runtime error 200 at $0000000000401234',
+  },
+}
+// Languages sharing a runtime reuse its samples
+SAMPLES.nodejs = SAMPLES.javascript
+SAMPLES.shell = SAMPLES.bash
+
+describe('execution result normalisers', () => {
+  it('has a profile and samples for every registry language', () => {
+    for (const { id: language } of LANGUAGES) {
+      expect(LANGUAGE_RESULT_PROFILES[language], language).toBeDefined()
+      expect(SAMPLES[language], language).toBeDefined()
+    }
+  })
+
+  for (const { id: language } of LANGUAGES) {
+    it(`maps ${language} compile, runtime and memory errors`, () => {
+      const sample = SAMPLES[language]
+
+      expect(normalizeExecutionResult(language, { stderr: sample.compile }).status, 'compile').toBe(
+        'compilation_error',
+      )
+
+      const runtime = normalizeExecutionResult(language, { stderr: sample.runtime })
+      expect(runtime.status, 'runtime').toBe('runtime_error')
+      expect(runtime.limitExceeded).toBeUndefined()
+
+      if (sample.memory) {
+        const memory = normalizeExecutionResult(language, { stderr: sample.memory })
+        expect(memory).toMatchObject({ status: 'runtime_error', limitExceeded: 'memory' })
+      }
+
+      const clean = normalizeExecutionResult(language, { stdout: 'ok\n', stderr: null, exception: null })
+      expect(clean).toMatchObject({ status: 'success', stdout: 'ok\n', exitCode: undefined })
+    })
+  }
+
+  it('treats warnings without errors as success', () => {
+    expect(
+      normalizeExecutionResult('c', { stdout: '1\n', stderr: "main.c:3:9: warning: unused variable 'x' [-Wunused-variable]" })
+        .status,
+    ).toBe('success')
+    expect(
+      normalizeExecutionResult('python', { stdout: '', stderr: 'main.py:1: DeprecationWarning: the imp module is deprecated' })
+        .status,
+    ).toBe('success')
+  })
+
+  it('trusts exit codes, signals and limits reported by the local runner', () => {
+    // Exit code 0 wins over anything on stderr
+    expect(
+      normalizeExecutionResult('python', { stderr: 'SyntaxError: printed on purpose', exitCode: 0 }).status,
+    ).toBe('success')
+    expect(normalizeExecutionResult('python', { stderr: 'boom', exitCode: 3 })).toMatchObject({
+      status: 'runtime_error',
+      exitCode: 3,
+    })
+    expect(normalizeExecutionResult('c', { stderr: '', exitCode: null, signal: 'SIGSEGV' })).toMatchObject({
+      status: 'runtime_error',
+      signal: 'SIGSEGV',
+      stderr: '[Process terminated by SIGSEGV]',
+    })
+    expect(normalizeExecutionResult('java', { stderr: 'Main.java:1: error: x', exitCode: 1, phase: 'compile' }).status).toBe(
+      'compilation_error',
+    )
+    expect(normalizeExecutionResult('python', { timedOut: true, signal: 'SIGKILL' })).toMatchObject({
+      status: 'timeout',
+      limitExceeded: 'time',
+    })
+    expect(normalizeExecutionResult('python', { cancelled: true, signal: 'SIGKILL' })).toMatchObject({
+      status: 'error',
+      stderr: '[Execution stopped]',
+    })
+  })
+
+  it('detects OneCompiler time limits from the exception field', () => {
+    expect(normalizeExecutionResult('java', { exception: 'Execution Timed Out' }).status).toBe('timeout')
+  })
+})
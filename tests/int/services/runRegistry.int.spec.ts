@@ -0,0 +1,50 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+  MAX_INPUT_CHUNK_BYTES,
+  MAX_TYPED_INPUT_BYTES,
+  attachRunStdin,
+  cancelRun,
+  registerRun,
+  sendRunInput,
+} from '@/services/execution'
+
+function interactiveRun(ownerId: number) {
+  const typed: string[] = []
+  const { runId } = registerRun(ownerId)
+  attachRunStdin(runId, { write: (data) => typed.push(data), end: () => typed.push('EOF') })
+  return { runId, typed }
+}
+
+describe('sendRunInput', () => {
+  it('only lets the user who started the run type into it', () => {
+    const { runId, typed } = interactiveRun(20)
+    expect(sendRunInput(runId, 21, { data: 'hi\n' })).toMatchObject({ ok: false, status: 404 })
+    expect(sendRunInput(runId, 20, { data: 'hi\n', eof: true })).toEqual({ ok: true })
+    expect(typed).toEqual(['hi\n', 'EOF'])
+  })
+
+  it('limits the input per request and per run', () => {
+    const { runId, typed } = interactiveRun(20)
+    const chunk = 'x'.repeat(MAX_INPUT_CHUNK_BYTES)
+    expect(sendRunInput(runId, 20, { data: chunk + 'x' })).toMatchObject({ status: 413 })
+
+    for (let sent = 0; sent < MAX_TYPED_INPUT_BYTES; sent += MAX_INPUT_CHUNK_BYTES) {
+      expect(sendRunInput(runId, 20, { data: chunk }).ok).toBe(true)
+    }
+    expect(sendRunInput(runId, 20, { data: 'x' })).toMatchObject({ status: 413 })
+    expect(typed.join('')).toHaveLength(MAX_TYPED_INPUT_BYTES)
+  })
+})
+
+describe('cancelRun', () => {
+  it('only lets the user who started the run stop it', () => {
+    const { runId, controller } = registerRun(20)
+    expect(cancelRun(runId, 21)).toBe(false)
+    expect(cancelRun(runId, null)).toBe(false)
+    expect(controller.signal.aborted).toBe(false)
+    expect(cancelRun(runId, 20)).toBe(true)
+    expect(controller.signal.aborted).toBe(true)
+    expect(cancelRun(runId, 20)).toBe(false)
+  })
+})
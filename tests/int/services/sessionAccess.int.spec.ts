@@ -0,0 +1,178 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type { LiveSession, SessionParticipant, User } from '@/payload-types'
+import {
+  MAX_PASSCODE_ATTEMPTS,
+  checkJoinAccess,
+  decideAdmissions,
+  hasSessionAccess,
+  parseAccessSettings,
+  withdrawAdmission,
+} from '@/services/sessionAccess'
+import { createFakePayload } from '../helpers/fakePayload'
+
+const ravi = { id: 20, role: 'student' } as User
+const mei = { id: 21, role: 'student' } as User
+const asha = { id: 9, role: 'trainer' } as User
+
+let nextSessionId = 1
+function liveSession(fields: Partial<LiveSession>): LiveSession {
+  return { id: nextSessionId++, joinCode: 'ABC-234-XYZ', trainer: 9, ...fields } as LiveSession
+}
+
+/** Participants, admissions and cohorts in the shared fake (cohort 5 has Mei) */
+function fakePayload(participants: Partial<SessionParticipant>[] = [], now?: () => number) {
+  const fake = createFakePayload(
+    {
+      cohorts: [{ id: 5, name: 'Batch 5', students: [mei.id] }],
+      'session-participants': participants,
+    },
+    { now },
+  )
+  return {
+    payload: fake.payload,
+    admissions: fake.docs('session-admissions'),
+    attempts: fake.docs('passcode-attempts'),
+  }
+}
+
+describe('parseAccessSettings', () => {
+  it('requires what each mode needs and drops the rest', () => {
+    expect(parseAccessSettings({ accessMode: 'passcode', passcode: ' py-batch-7 ' })).toEqual({
+      ok: true,
+      input: { accessMode: 'passcode', passcode: 'py-batch-7', studentEmails: [], cohortIds: [] },
+    })
+    expect(parseAccessSettings({ accessMode: 'passcode', passcode: 'abc' }).ok).toBe(false)
+    expect(parseAccessSettings({ accessMode: 'restricted' }).ok).toBe(false)
+    expect(
+      parseAccessSettings({
+        accessMode: 'restricted',
+        studentEmails: ['Ravi@Example.com', 'ravi@example.com'],
+        cohortIds: [5],
+        passcode: 'ignored',
+      }),
+    ).toEqual({
+      ok: true,
+      input: {
+        accessMode: 'restricted',
+        passcode: null,
+        studentEmails: ['ravi@example.com'],
+        cohortIds: [5],
+      },
+    })
+    expect(parseAccessSettings({ accessMode: 'invite-only' }).ok).toBe(false)
+  })
+})
+
+describe('checkJoinAccess', () => {
+  it('lets everyone into open sessions and staff into any session', async () => {
+    const { payload } = fakePayload()
+    expect(await checkJoinAccess(payload, liveSession({}), ravi, null)).toEqual({ ok: true })
+    const restricted = liveSession({ accessMode: 'restricted', allowedStudents: [] })
+    expect(await checkJoinAccess(payload, restricted, asha, null)).toEqual({ ok: true })
+  })
+
+  it('asks for the passcode and locks out after repeated wrong guesses', async () => {
+    let clock = new Date('2026-01-01T10:00:00Z').getTime()
+    const { payload, attempts } = fakePayload([], () => clock)
+    const session = liveSession({ accessMode: 'passcode', passcode: 'py-batch-7' })
+    const now = new Date(clock)
+
+    const missing = await checkJoinAccess(payload, session, ravi, null, now)
+    expect(missing).toMatchObject({
+      ok: false,
+      status: 403,
+      access: { reason: 'passcode_required' },
+    })
+    expect(await checkJoinAccess(payload, session, ravi, 'py-batch-7', now)).toEqual({ ok: true })
+
+    for (let i = 0; i < MAX_PASSCODE_ATTEMPTS; i++) {
+      const wrong = await checkJoinAccess(payload, session, mei, 'guess', now)
+      expect(wrong).toMatchObject({ access: { reason: 'passcode_invalid' } })
+    }
+    const locked = await checkJoinAccess(payload, session, mei, 'py-batch-7', now)
+    expect(locked).toMatchObject({ status: 429, access: { reason: 'too_many_attempts' } })
+    expect(await checkJoinAccess(payload, session, mei, null, now)).toMatchObject({ status: 429 })
+    expect(attempts).toHaveLength(MAX_PASSCODE_ATTEMPTS)
+
+    clock = new Date('2026-01-01T10:11:00Z').getTime()
+    const later = new Date(clock)
+    expect(await checkJoinAccess(payload, session, mei, 'py-batch-7', later)).toEqual({ ok: true })
+    expect(attempts).toHaveLength(0)
+  })
+
+  it('only lets listed students and cohort members into restricted sessions', async () => {
+    const { payload } = fakePayload()
+    const session = liveSession({
+      accessMode: 'restricted',
+      allowedStudents: [ravi.id],
+      allowedCohorts: [5],
+    })
+    expect(await checkJoinAccess(payload, session, ravi, null)).toEqual({ ok: true })
+    expect(await checkJoinAccess(payload, session, mei, null)).toEqual({ ok: true })
+
+    const stranger = { id: 30, role: 'student' } as User
+    expect(await checkJoinAccess(payload, session, stranger, null)).toMatchObject({
+      ok: false,
+      access: { mode: 'restricted', reason: 'not_enrolled' },
+    })
+  })
+
+  it('keeps students who already joined when the mode changes', async () => {
+    const session = liveSession({ accessMode: 'restricted', allowedStudents: [] })
+    const { payload } = fakePayload([
+      { session: session.id, user: ravi.id, joinedAt: '2026-01-01T10:00:00.000Z' },
+    ])
+    expect(await checkJoinAccess(payload, session, ravi, null)).toEqual({ ok: true })
+    expect(await hasSessionAccess(payload, session, ravi)).toBe(true)
+    expect(await hasSessionAccess(payload, session, mei)).toBe(false)
+    expect(await hasSessionAccess(payload, session, null)).toBe(false)
+  })
+
+  it('lets co-hosts in without joining', async () => {
+    const { payload } = fakePayload()
+    const session = liveSession({
+      accessMode: 'restricted',
+      allowedStudents: [],
+      coHosts: [{ user: mei.id, permissions: ['helpQueue'] }],
+    })
+    expect(await hasSessionAccess(payload, session, mei)).toBe(true)
+    expect(await hasSessionAccess(payload, session, ravi)).toBe(false)
+  })
+})
+
+describe('waiting room', () => {
+  it('queues students once until a host admits or denies them', async () => {
+    const { payload, admissions } = fakePayload()
+    const session = liveSession({ accessMode: 'waitingRoom' })
+
+    expect(await checkJoinAccess(payload, session, ravi, null)).toMatchObject({
+      access: { reason: 'waiting' },
+    })
+    await checkJoinAccess(payload, session, ravi, null)
+    await checkJoinAccess(payload, session, mei, null)
+    expect(admissions).toHaveLength(2)
+
+    expect(await decideAdmissions(payload, session, [1], 'admitted', asha.id)).toBe(1)
+    expect(await checkJoinAccess(payload, session, ravi, null)).toEqual({ ok: true })
+    expect(admissions[0]).toMatchObject({ decidedBy: asha.id })
+    // Answered requests are not answered again
+    expect(await decideAdmissions(payload, session, [1], 'denied', asha.id)).toBe(0)
+    expect(admissions[0]).toMatchObject({ status: 'admitted' })
+
+    expect(await decideAdmissions(payload, session, null, 'denied', asha.id)).toBe(1)
+    expect(await checkJoinAccess(payload, session, mei, null)).toMatchObject({
+      access: { reason: 'denied' },
+    })
+  })
+
+  it('lets waiting students leave the queue', async () => {
+    const { payload, admissions } = fakePayload()
+    const session = liveSession({ accessMode: 'waitingRoom' })
+    await checkJoinAccess(payload, session, ravi, null)
+
+    expect(await withdrawAdmission(payload, session.id, ravi.id)).toBe(true)
+    expect(admissions).toHaveLength(0)
+    expect(await withdrawAdmission(payload, session.id, ravi.id)).toBe(false)
+  })
+})
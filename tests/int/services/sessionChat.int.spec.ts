@@ -0,0 +1,173 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type { LiveSession, SessionMessage, SessionParticipant } from '@/payload-types'
+import {
+  deleteChatMessage,
+  parseChatMessage,
+  postChatMessage,
+  toChatMessageItem,
+  type ChatMessageInput,
+} from '@/services/sessionChat'
+import { createFakePayload } from '../helpers/fakePayload'
+
+const NOW = new Date('2026-01-01T10:00:30.000Z')
+const session = { id: 1, joinCode: 'ABC123', chatSlowModeSeconds: 0 } as LiveSession
+const student = { id: 20, role: 'student' } as const
+const trainer = { id: 9, role: 'trainer' } as const
+
+const publicMessage: ChatMessageInput = {
+  body: 'Hello',
+  code: null,
+  language: null,
+  visibility: 'public',
+  threadUserId: null,
+}
+
+const joined = { id: 5, session: 1, user: 20, joinedAt: '2026-01-01T09:55:00.000Z' }
+
+function fakePayload({ participants = [joined] as Partial<SessionParticipant>[] } = {}) {
+  const fake = createFakePayload({ 'session-participants': participants })
+  return { payload: fake.payload, created: fake.docs('session-messages') }
+}
+
+describe('parseChatMessage', () => {
+  it('needs text or code, and drops the language without code', () => {
+    expect(parseChatMessage({ body: '  ' })).toEqual({
+      ok: false,
+      error: 'A message needs text or code',
+    })
+    expect(parseChatMessage({ body: ' Hi ', language: 'python' })).toEqual({
+      ok: true,
+      input: { ...publicMessage, body: 'Hi' },
+    })
+  })
+
+  it('keeps the thread only for private messages', () => {
+    const parsed = parseChatMessage({ code: 'print(1)', language: 'python', threadUserId: 20 })
+    expect(parsed.ok && parsed.input).toMatchObject({ body: null, threadUserId: null })
+    expect(parseChatMessage({ body: 'x', visibility: 'secret' }).ok).toBe(false)
+  })
+})
+
+describe('postChatMessage', () => {
+  it('puts a private student question in their own thread', async () => {
+    const { payload, created } = fakePayload()
+    const result = await postChatMessage(
+      payload,
+      session,
+      student,
+      { ...publicMessage, visibility: 'private', threadUserId: 99 },
+      NOW,
+    )
+    expect(result.ok).toBe(true)
+    expect(created[0]).toMatchObject({ sender: 20, visibility: 'private', thread: 20 })
+  })
+
+  it('refuses students who have not joined', async () => {
+    const { payload } = fakePayload({ participants: [] })
+    expect(await postChatMessage(payload, session, student, publicMessage, NOW)).toMatchObject({
+      ok: false,
+      status: 403,
+    })
+  })
+
+  it('keeps muted students out of the public chat but lets them ask privately', async () => {
+    const { payload } = fakePayload({
+      participants: [{ ...joined, chatMutedAt: NOW.toISOString() }],
+    })
+    expect(await postChatMessage(payload, session, student, publicMessage, NOW)).toMatchObject({
+      ok: false,
+      status: 403,
+    })
+    const privateResult = await postChatMessage(
+      payload,
+      session,
+      student,
+      { ...publicMessage, visibility: 'private' },
+      NOW,
+    )
+    expect(privateResult.ok).toBe(true)
+  })
+
+  it('makes students wait under slow mode', async () => {
+    const { payload, created } = fakePayload({
+      participants: [{ ...joined, lastMessageAt: '2026-01-01T10:00:10.000Z' }],
+    })
+    const slow = { ...session, chatSlowModeSeconds: 30 }
+    expect(await postChatMessage(payload, slow, student, publicMessage, NOW)).toEqual({
+      ok: false,
+      status: 429,
+      error: 'Slow mode is on: wait 10s before sending',
+    })
+    // Trainers are never slowed down
+    expect((await postChatMessage(payload, slow, trainer, publicMessage, NOW)).ok).toBe(true)
+
+    const later = new Date('2026-01-01T10:00:40.000Z')
+    expect((await postChatMessage(payload, slow, student, publicMessage, later)).ok).toBe(true)
+    expect(created).toHaveLength(2)
+  })
+
+  it('lets only one of several messages sent at once through slow mode', async () => {
+    const { payload, created } = fakePayload()
+    const slow = { ...session, chatSlowModeSeconds: 30 }
+    const results = await Promise.all(
+      [1, 2, 3].map(() => postChatMessage(payload, slow, student, publicMessage, NOW)),
+    )
+    expect(results.filter((result) => result.ok)).toHaveLength(1)
+    expect(created).toHaveLength(1)
+  })
+
+  it('needs a student of the session for private trainer replies', async () => {
+    const { payload, created } = fakePayload()
+    const reply = { ...publicMessage, visibility: 'private' as const }
+    expect(await postChatMessage(payload, session, trainer, reply, NOW)).toMatchObject({
+      status: 400,
+    })
+    expect(
+      await postChatMessage(payload, session, trainer, { ...reply, threadUserId: 21 }, NOW),
+    ).toMatchObject({ status: 404 })
+    await postChatMessage(payload, session, trainer, { ...reply, threadUserId: 20 }, NOW)
+    expect(created[0]).toMatchObject({ sender: 9, thread: 20 })
+  })
+})
+
+describe('toChatMessageItem', () => {
+  it('hides the content of removed messages', () => {
+    const item = toChatMessageItem({
+      id: 4,
+      session: 1,
+      sender: { id: 9, name: 'Asha', role: 'trainer' } as SessionMessage['sender'],
+      visibility: 'private',
+      thread: { id: 20, name: 'Ravi', role: 'student' } as SessionMessage['thread'],
+      body: 'Try this',
+      code: 'print(1)',
+      language: 'python',
+      deletedAt: NOW.toISOString(),
+      createdAt: '2026-01-01T10:00:00.000Z',
+      updatedAt: NOW.toISOString(),
+    })
+    expect(item).toEqual({
+      id: 4,
+      sender: { id: 9, name: 'Asha', staff: true },
+      visibility: 'private',
+      thread: { id: 20, name: 'Ravi' },
+      body: null,
+      code: null,
+      language: null,
+      sentAt: '2026-01-01T10:00:00.000Z',
+      deleted: true,
+    })
+  })
+})
+
+describe('deleteChatMessage', () => {
+  it('refuses to remove a message twice', async () => {
+    const { payload } = fakePayload()
+    const message = { id: 4, deletedAt: NOW.toISOString() } as SessionMessage
+    expect(await deleteChatMessage(payload, message, 9, NOW)).toEqual({
+      ok: false,
+      status: 409,
+      error: 'Message was already removed',
+    })
+  })
+})
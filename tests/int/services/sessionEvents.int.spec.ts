@@ -0,0 +1,144 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest'
+import type { PayloadRequest } from 'payload'
+import type { LiveSession } from '@/payload-types'
+import { publishLiveSessionEvents } from '@/hooks/publishLiveSessionEvents'
+import {
+  createMemoryPubSub,
+  encodeNotification,
+  MAX_NOTIFY_BYTES,
+  publishSessionEvent,
+  setSessionPubSub,
+  subscribeToSession,
+} from '@/services/sessionEvents'
+import type { SessionEvent } from '@/types/live-session'
+
+const session = {
+  id: 1,
+  joinCode: 'ABC-DEF-GHJ',
+  isActive: true,
+  currentCode: 'print(1)',
+  currentOutput: null,
+  language: 3,
+  trainerWorkspaceFileName: 'main.py',
+} as LiveSession
+
+const fakeReq = {
+  payload: {
+    findByID: async () => ({ id: 4, slug: 'javascript' }),
+  },
+} as unknown as PayloadRequest
+
+async function runHook(previousDoc: LiveSession, doc: LiveSession): Promise<SessionEvent[]> {
+  const events: SessionEvent[] = []
+  setSessionPubSub(createMemoryPubSub())
+  const stop = await subscribeToSession(doc.joinCode, (event) => events.push(event))
+  await publishLiveSessionEvents({
+    doc,
+    previousDoc,
+    operation: 'update',
+    req: fakeReq,
+  } as Parameters<typeof publishLiveSessionEvents>[0])
+  // Outside a transaction events go out right after the hook
+  await new Promise((resolve) => setTimeout(resolve, 0))
+  stop()
+  return events
+}
+
+describe('session events', () => {
+  afterEach(() => setSessionPubSub(null))
+
+  it('delivers events only to subscribers of the same session', async () => {
+    setSessionPubSub(createMemoryPubSub())
+    const received: string[] = []
+    const stop = await subscribeToSession('abc-def-ghj', (event) => received.push(event.type))
+    await subscribeToSession('XYZ-XYZ-XYZ', () => {
+      throw new Error('listener failure must not reach the publisher')
+    })
+
+    await publishSessionEvent('ABC-DEF-GHJ', 'language_changed', { language: 'python' })
+    await publishSessionEvent('XYZ-XYZ-XYZ', 'session_ended', { endedAt: 'now' })
+    stop()
+    await publishSessionEvent('ABC-DEF-GHJ', 'session_ended', { endedAt: 'now' })
+
+    expect(received).toEqual(['language_changed'])
+  })
+
+  it('replaces events too large for NOTIFY with a refresh event', () => {
+    const event: SessionEvent = {
+      type: 'language_changed',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      data: { language: 'python' },
+    }
+    expect(JSON.parse(encodeNotification('ABC-DEF-GHJ', event))).toEqual({
+      sessionCode: 'ABC-DEF-GHJ',
+      event,
+    })
+
+    const large: SessionEvent = {
+      type: 'code_broadcast',
+      timestamp: event.timestamp,
+      data: {
+        code: 'x'.repeat(MAX_NOTIFY_BYTES),
+        trainerWorkspaceFileId: null,
+        trainerWorkspaceFileName: null,
+      },
+    }
+    expect(JSON.parse(encodeNotification('ABC-DEF-GHJ', large)).event).toEqual({
+      type: 'refresh',
+      timestamp: event.timestamp,
+      data: {},
+    })
+  })
+
+  it('publishes what changed in a live session', async () => {
+    const events = await runHook(session, {
+      ...session,
+      currentCode: 'print(2)',
+      currentOutput: { stdout: '2\n' },
+      language: 4,
+    })
+    expect(events.map(({ type, data }) => ({ type, data }))).toEqual([
+      {
+        type: 'code_broadcast',
+        data: {
+          code: 'print(2)',
+          trainerWorkspaceFileId: null,
+          trainerWorkspaceFileName: 'main.py',
+        },
+      },
+      { type: 'execution_completed', data: { output: { stdout: '2\n' } } },
+      { type: 'language_changed', data: { language: 'javascript' } },
+    ])
+
+    const ended = await runHook(session, {
+      ...session,
+      isActive: false,
+      endedAt: '2026-01-01T10:00:00.000Z',
+    })
+    expect(ended).toEqual([
+      expect.objectContaining({
+        type: 'session_ended',
+        data: { endedAt: '2026-01-01T10:00:00.000Z' },
+      }),
+    ])
+
+    // Bookkeeping changes don't notify anyone
+    expect(await runHook(session, { ...session, startedAt: '2026-01-01T09:00:00.000Z' })).toEqual(
+      [],
+    )
+  })
+
+  it('publishes breaks and the end of a break', async () => {
+    const pausedAt = '2026-01-01T10:00:00.000Z'
+    const resumeAt = '2026-01-01T10:15:00.000Z'
+    const paused = { ...session, pausedAt, resumeAt }
+
+    expect(await runHook(session, paused)).toEqual([
+      expect.objectContaining({ type: 'session_paused', data: { pausedAt, resumeAt } }),
+    ])
+    expect(await runHook(paused, { ...session, pausedAt: null, pausedSeconds: 900 })).toEqual([
+      expect.objectContaining({ type: 'session_resumed' }),
+    ])
+  })
+})
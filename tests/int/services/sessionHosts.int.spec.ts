@@ -0,0 +1,114 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type { LiveSession, User } from '@/payload-types'
+import {
+  hasSessionPermission,
+  isSessionHost,
+  parseCoHosts,
+  sessionPermissions,
+  setCoHosts,
+  transferOwnership,
+} from '@/services/sessionHosts'
+import { createFakePayload, type Doc } from '../helpers/fakePayload'
+
+const session = {
+  id: 1,
+  trainer: 9,
+  isActive: true,
+  coHosts: [
+    { user: 10, permissions: ['monitor', 'helpQueue'] },
+    { user: 11, permissions: [] },
+  ],
+} as unknown as LiveSession
+
+const users: Record<number, Pick<User, 'id' | 'role' | 'email'>> = {
+  9: { id: 9, role: 'trainer', email: 'asha@example.com' },
+  10: { id: 10, role: 'trainer', email: 'ben@example.com' },
+  11: { id: 11, role: 'student', email: 'ta@example.com' },
+  12: { id: 12, role: 'student', email: 'ravi@example.com' },
+}
+
+function fakePayload() {
+  const fake = createFakePayload({ 'live-sessions': [session], users: Object.values(users) })
+  return { payload: fake.payload, stored: () => fake.docs('live-sessions')[0] }
+}
+
+const coHostsOf = (stored: Doc) =>
+  stored.coHosts.map(({ user, permissions }: Doc) => ({ user, permissions }))
+
+describe('sessionPermissions', () => {
+  it('gives the owner, managers and admins everything, co-hosts what is listed', () => {
+    expect(sessionPermissions(session, { id: 9, role: 'trainer' })).toHaveLength(4)
+    expect(sessionPermissions(session, { id: 50, role: 'manager' })).toHaveLength(4)
+    expect(sessionPermissions(session, { id: 10, role: 'trainer' })).toEqual([
+      'monitor',
+      'helpQueue',
+    ])
+    expect(hasSessionPermission(session, { id: 10, role: 'trainer' }, 'broadcast')).toBe(false)
+    // Other trainers are not hosts of this session
+    expect(sessionPermissions(session, { id: 20, role: 'trainer' })).toEqual([])
+  })
+
+  it('counts co-hosts without permissions as hosts', () => {
+    expect(isSessionHost(session, { id: 11, role: 'student' })).toBe(true)
+    expect(isSessionHost(session, { id: 12, role: 'student' })).toBe(false)
+  })
+})
+
+describe('parseCoHosts', () => {
+  it('takes a user id or an email and known permissions', () => {
+    expect(
+      parseCoHosts({
+        coHosts: [{ email: ' TA@Example.com ', permissions: ['monitor', 'monitor'] }],
+      }),
+    ).toEqual({
+      ok: true,
+      input: [{ userId: null, email: 'ta@example.com', permissions: ['monitor'] }],
+    })
+    expect(parseCoHosts({ coHosts: [{ permissions: [] }] }).ok).toBe(false)
+    expect(parseCoHosts({ coHosts: [{ userId: 10, permissions: ['delete'] }] }).ok).toBe(false)
+  })
+})
+
+describe('setCoHosts', () => {
+  it('looks users up by email and refuses the owner', async () => {
+    const { payload, stored } = fakePayload()
+    const result = await setCoHosts(payload, 1, [
+      { userId: null, email: 'ravi@example.com', permissions: ['monitor'] },
+    ])
+    expect(result.ok).toBe(true)
+    expect(coHostsOf(stored())).toEqual([{ user: 12, permissions: ['monitor'] }])
+
+    expect(
+      await setCoHosts(payload, 1, [{ userId: 9, email: null, permissions: [] }]),
+    ).toMatchObject({ ok: false, status: 400 })
+    expect(
+      await setCoHosts(payload, 1, [
+        { userId: null, email: 'nobody@example.com', permissions: [] },
+      ]),
+    ).toMatchObject({ ok: false, status: 404 })
+  })
+})
+
+describe('transferOwnership', () => {
+  it('keeps the previous owner on as a co-host with every permission', async () => {
+    const { payload, stored } = fakePayload()
+    expect((await transferOwnership(payload, 1, 10)).ok).toBe(true)
+    expect(stored().trainer).toBe(10)
+    expect(coHostsOf(stored())).toEqual([
+      { user: 9, permissions: ['broadcast', 'monitor', 'end', 'helpQueue'] },
+      { user: 11, permissions: [] },
+    ])
+  })
+
+  it('only hands over to co-hosts with a staff account', async () => {
+    const { payload, stored } = fakePayload()
+    expect(await transferOwnership(payload, 1, 11)).toMatchObject({ ok: false, status: 400 })
+    expect(await transferOwnership(payload, 1, 12)).toEqual({
+      ok: false,
+      status: 400,
+      error: 'Only a co-host can become the owner',
+    })
+    expect(stored().trainer).toBe(9)
+  })
+})
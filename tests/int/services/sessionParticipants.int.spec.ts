@@ -0,0 +1,80 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest'
+import type { Payload } from 'payload'
+import {
+  countParticipants,
+  countParticipantsBySession,
+  joinSession,
+  leaveSession,
+  listParticipants,
+  markSeen,
+  saveScratchpad,
+} from '@/services/sessionParticipants'
+import { createFakePayload, type FakePayload } from '../helpers/fakePayload'
+
+let fake: FakePayload
+let fakePayload: Payload
+
+describe('session participants', () => {
+  beforeEach(() => {
+    fake = createFakePayload()
+    fakePayload = fake.payload
+  })
+
+  it('keeps one entry per student and session', async () => {
+    await Promise.all([joinSession(fakePayload, 1, 10), joinSession(fakePayload, 1, 10)])
+    await joinSession(fakePayload, 1, 11)
+    await joinSession(fakePayload, 2, 10)
+
+    expect(fake.docs('session-participants')).toHaveLength(3)
+    expect(await countParticipants(fakePayload, 1)).toBe(2)
+  })
+
+  it('saves scratchpads without touching other students', async () => {
+    await Promise.all([
+      saveScratchpad(fakePayload, 1, 10, { code: 'print(1)', language: 'python' }),
+      saveScratchpad(fakePayload, 1, 11, { code: 'console.log(2)', language: 'javascript' }),
+    ])
+    await saveScratchpad(fakePayload, 1, 10, { output: { stdout: '1\n' } })
+
+    const participants = await listParticipants(fakePayload, 1)
+    expect(participants.map(({ user, code, output }) => ({ user, code, output }))).toEqual(
+      expect.arrayContaining([
+        { user: 10, code: 'print(1)', output: { stdout: '1\n' } },
+        { user: 11, code: 'console.log(2)', output: null },
+      ]),
+    )
+    expect(participants).toHaveLength(2)
+  })
+
+  it('marks students as left and brings them back on rejoin', async () => {
+    await joinSession(fakePayload, 1, 10)
+    await joinSession(fakePayload, 1, 11)
+
+    expect(await leaveSession(fakePayload, 1, 10)).toBe(true)
+    expect(await leaveSession(fakePayload, 1, 10)).toBe(false)
+    expect(await leaveSession(fakePayload, 1, 12)).toBe(false)
+    expect(await countParticipantsBySession(fakePayload, [1, 2])).toEqual(
+      new Map([
+        [1, 1],
+        [2, 0],
+      ]),
+    )
+
+    const rejoined = await joinSession(fakePayload, 1, 10)
+    expect(rejoined.leftAt).toBeNull()
+    expect(await countParticipants(fakePayload, 1)).toBe(2)
+  })
+
+  it('refreshes lastSeenAt at most once per interval', async () => {
+    await joinSession(fakePayload, 1, 10)
+    const now = new Date(Date.now() + 60_000)
+
+    expect(await markSeen(fakePayload, 1, 10, 60_000, now)).toBe('seen')
+    expect(await markSeen(fakePayload, 1, 10, 60_000, new Date(now.getTime() + 30_000))).toBe(
+      'recent',
+    )
+    expect(fake.docs('session-participants')[0].lastSeenAt).toBe(now.toISOString())
+    expect(await markSeen(fakePayload, 1, 11, 60_000, now)).toBe('absent')
+  })
+})
@@ -0,0 +1,287 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type { LiveSession, SessionPoll, SessionPollAnswer, User } from '@/payload-types'
+import {
+  answerPoll,
+  broadcastPrompt,
+  normalizeAnswer,
+  openPoll,
+  parsePollInput,
+  pollResults,
+  summarizePoll,
+} from '@/services/sessionPolls'
+import { createFakePayload } from '../helpers/fakePayload'
+
+const NOW = new Date('2026-01-01T10:01:00.000Z')
+
+function sessionPoll(fields: Partial<SessionPoll> = {}): SessionPoll {
+  return {
+    id: 1,
+    session: 1,
+    createdBy: 9,
+    kind: 'multiple_choice',
+    question: 'Which loop runs at least once?',
+    options: [{ text: 'for' }, { text: 'while' }, { text: 'do...while' }],
+    correctOption: 2,
+    status: 'open',
+    openedAt: '2026-01-01T10:00:00.000Z',
+    closesAt: '2026-01-01T10:02:00.000Z',
+    createdAt: '2026-01-01T10:00:00.000Z',
+    updatedAt: '2026-01-01T10:00:00.000Z',
+    ...fields,
+  } as SessionPoll
+}
+
+let nextAnswerId = 1
+function pollAnswer(user: number, fields: Partial<SessionPollAnswer>): SessionPollAnswer {
+  return { id: nextAnswerId++, poll: 1, user, ...fields } as SessionPollAnswer
+}
+
+describe('normalizeAnswer', () => {
+  it('ignores line endings and surrounding or trailing whitespace', () => {
+    expect(normalizeAnswer('  1\r\n2   \r\n3\n\n')).toBe('1\n2\n3')
+  })
+})
+
+describe('parsePollInput', () => {
+  it('accepts a multiple choice question', () => {
+    const parsed = parsePollInput({
+      kind: 'multiple_choice',
+      question: ' Pick one ',
+      options: ['a', ' b '],
+      correctOption: 1,
+      durationSeconds: 60,
+    })
+    expect(parsed).toEqual({
+      ok: true,
+      input: {
+        kind: 'multiple_choice',
+        question: 'Pick one',
+        options: ['a', 'b'],
+        correctOption: 1,
+        expectedAnswer: null,
+        code: null,
+        language: null,
+        durationSeconds: 60,
+      },
+    })
+  })
+
+  it('rejects bad kinds, choices and durations', () => {
+    expect(parsePollInput({ kind: 'essay', question: 'Why?' }).ok).toBe(false)
+    expect(parsePollInput({ kind: 'short_answer', question: ' ' }).ok).toBe(false)
+    expect(parsePollInput({ kind: 'multiple_choice', question: 'Q', options: ['only'] }).ok).toBe(
+      false,
+    )
+    expect(
+      parsePollInput({
+        kind: 'multiple_choice',
+        question: 'Q',
+        options: ['a', 'b'],
+        correctOption: 2,
+      }).ok,
+    ).toBe(false)
+    expect(parsePollInput({ kind: 'short_answer', question: 'Q', durationSeconds: 5 }).ok).toBe(
+      false,
+    )
+  })
+
+  it('normalizes the expected answer of text questions', () => {
+    const parsed = parsePollInput({
+      kind: 'predict_output',
+      question: 'What does this print?',
+      expectedAnswer: '1\r\n2  \n',
+      code: 'for i in range(1, 3): print(i)',
+    })
+    expect(parsed.ok && parsed.input).toMatchObject({
+      options: [],
+      expectedAnswer: '1\n2',
+      code: 'for i in range(1, 3): print(i)',
+      durationSeconds: null,
+    })
+  })
+})
+
+describe('broadcastPrompt', () => {
+  it('uses the broadcast code and its last successful output', () => {
+    const session = {
+      currentCode: 'print("hi")',
+      trainerWorkspaceFileName: 'hello.py',
+      currentOutput: { status: 'success', stdout: 'hi\n' },
+    } as unknown as LiveSession
+    expect(broadcastPrompt(session)).toEqual({
+      code: 'print("hi")',
+      language: 'python',
+      expectedAnswer: 'hi',
+    })
+  })
+
+  it('leaves the answer empty after a failed run, and returns null before any broadcast', () => {
+    const session = {
+      currentCode: 'print(x)',
+      language: { slug: 'python' },
+      currentOutput: { status: 'error', stdout: '' },
+    } as unknown as LiveSession
+    expect(broadcastPrompt(session)).toMatchObject({ language: 'python', expectedAnswer: null })
+    expect(broadcastPrompt({ currentCode: '' } as LiveSession)).toBeNull()
+  })
+})
+
+describe('pollResults', () => {
+  it('groups identical text answers, most common first', () => {
+    const poll = sessionPoll({
+      kind: 'predict_output',
+      options: [],
+      correctOption: null,
+      expectedAnswer: '3',
+    })
+    const answers = [
+      pollAnswer(20, { answer: '3', correct: true }),
+      pollAnswer(21, { answer: '2', correct: false }),
+      pollAnswer(22, { answer: '3 \n', correct: true }),
+      pollAnswer(20, { poll: 2, answer: '4', correct: false }),
+    ]
+    expect(pollResults(poll, answers)).toEqual({
+      responseCount: 3,
+      correctCount: 2,
+      optionCounts: [],
+      answers: [
+        { answer: '3', count: 2, correct: true },
+        { answer: '2', count: 1, correct: false },
+      ],
+    })
+  })
+})
+
+describe('summarizePoll', () => {
+  const poll = sessionPoll()
+  const answers = [
+    pollAnswer(20, { optionIndex: 2, correct: true }),
+    pollAnswer(21, { optionIndex: 0, correct: false }),
+  ]
+
+  it('hides the answer and results from students while the poll is open', () => {
+    expect(summarizePoll(poll, { userId: 20, staff: false }, answers, NOW)).toMatchObject({
+      status: 'open',
+      correctOption: null,
+      results: null,
+      myAnswer: { optionIndex: 2, answer: null, correct: null },
+    })
+  })
+
+  it('shows everything to staff, and to students once the countdown ran out', () => {
+    expect(summarizePoll(poll, { userId: 9, staff: true }, answers, NOW)).toMatchObject({
+      correctOption: 2,
+      results: { responseCount: 2, correctCount: 1, optionCounts: [1, 0, 1] },
+      myAnswer: null,
+    })
+    const later = new Date('2026-01-01T10:03:00.000Z')
+    expect(summarizePoll(poll, { userId: 21, staff: false }, answers, later)).toMatchObject({
+      status: 'closed',
+      correctOption: 2,
+      myAnswer: { optionIndex: 0, correct: false },
+    })
+  })
+})
+
+describe('answerPoll', () => {
+  const session = {
+    id: 1,
+    trainer: 9,
+    coHosts: [{ user: 23, permissions: [] }],
+  } as unknown as LiveSession
+  const student = (id: number) => ({ id, role: 'student' as const })
+
+  /** Students 20-22 are in the session, 24 has left it */
+  function fakePayload() {
+    const joinedAt = '2026-01-01T09:55:00.000Z'
+    const fake = createFakePayload({
+      'session-participants': [
+        ...[20, 21, 22].map((user) => ({ session: 1, user, joinedAt })),
+        { session: 1, user: 24, joinedAt, leftAt: '2026-01-01T09:58:00.000Z' },
+      ],
+    })
+    return { payload: fake.payload, answers: fake.docs('session-poll-answers') }
+  }
+
+  it('marks the answer and replaces an earlier one', async () => {
+    const poll = sessionPoll()
+    const { payload, answers } = fakePayload()
+    await answerPoll(payload, session, poll, student(20), { optionIndex: 0 }, NOW)
+    const result = await answerPoll(payload, session, poll, student(20), { optionIndex: 2 }, NOW)
+    expect(result.ok && result.answer).toMatchObject({ optionIndex: 2, correct: true })
+    expect(answers).toHaveLength(1)
+    expect(answers[0]).toMatchObject({ poll: 1, user: 20, optionIndex: 2, answer: null })
+  })
+
+  it('keeps every answer when students answer at the same time', async () => {
+    const poll = sessionPoll()
+    const { payload, answers } = fakePayload()
+    await Promise.all(
+      [20, 21, 22, 22].map((id) =>
+        answerPoll(payload, session, poll, student(id), { optionIndex: 1 }, NOW),
+      ),
+    )
+    expect(answers.map((answer) => answer.user)).toEqual([20, 21, 22])
+  })
+
+  it('only takes answers from students in the session', async () => {
+    const poll = sessionPoll()
+    const { payload, answers } = fakePayload()
+    const answerAs = (user: Pick<User, 'id' | 'role'>) =>
+      answerPoll(payload, session, poll, user, { optionIndex: 1 }, NOW)
+
+    expect(await answerAs(student(30))).toEqual({
+      ok: false,
+      status: 403,
+      error: 'Join the session to answer polls',
+    })
+    expect(await answerAs(student(24))).toMatchObject({ status: 403 })
+    expect(await answerAs({ id: 9, role: 'trainer' })).toEqual({
+      ok: false,
+      status: 403,
+      error: 'Hosts cannot answer polls',
+    })
+    // A co-host with a student account
+    expect(await answerAs(student(23))).toMatchObject({ status: 403 })
+    expect(answers).toHaveLength(0)
+  })
+
+  it('rejects answers once the poll has closed or that are not a choice', async () => {
+    const poll = sessionPoll()
+    const later = new Date('2026-01-01T10:03:00.000Z')
+    const { payload } = fakePayload()
+    expect(
+      await answerPoll(payload, session, poll, student(20), { optionIndex: 1 }, later),
+    ).toEqual({
+      ok: false,
+      status: 409,
+      error: 'This poll has closed',
+    })
+    expect(
+      await answerPoll(payload, session, poll, student(20), { optionIndex: 3 }, NOW),
+    ).toMatchObject({
+      ok: false,
+      status: 400,
+    })
+  })
+})
+
+describe('openPoll', () => {
+  it('closes the running poll before opening the next one', async () => {
+    const fake = createFakePayload({ 'session-polls': [sessionPoll({ id: 4 })] })
+    const parsed = parsePollInput({ kind: 'short_answer', question: 'Q', durationSeconds: 30 })
+    if (!parsed.ok) throw new Error(parsed.error)
+
+    const created = await openPoll(fake.payload, 1, 9, parsed.input, NOW)
+    expect(fake.docs('session-polls').map(({ id, status }) => ({ id, status }))).toEqual([
+      { id: 4, status: 'closed' },
+      { id: 5, status: 'open' },
+    ])
+    expect(created).toMatchObject({
+      status: 'open',
+      openedAt: NOW.toISOString(),
+      closesAt: '2026-01-01T10:01:30.000Z',
+    })
+  })
+})
@@ -0,0 +1,56 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type { BaseDatabaseAdapter, PayloadRequest } from 'payload'
+import { afterCommit, trackCommits } from '@/utilities/afterCommit'
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+function fakeDb() {
+  const log: string[] = []
+  const db = {
+    commitTransaction: async (id: string) => {
+      log.push(`commit ${id}`)
+    },
+    rollbackTransaction: async (id: string) => {
+      log.push(`rollback ${id}`)
+    },
+  } as unknown as BaseDatabaseAdapter
+  trackCommits(db)
+  const reqIn = (transactionID?: string) => ({ payload: { db }, transactionID }) as PayloadRequest
+  return { db, log, reqIn }
+}
+
+describe('afterCommit', () => {
+  it('waits for the transaction to commit', async () => {
+    const { db, log, reqIn } = fakeDb()
+    afterCommit(reqIn('tx-1'), () => {
+      log.push('publish')
+    })
+    await tick()
+    expect(log).toEqual([])
+
+    await db.commitTransaction('tx-1')
+    await tick()
+    expect(log).toEqual(['commit tx-1', 'publish'])
+  })
+
+  it('drops tasks of a rolled back transaction', async () => {
+    const { db, log, reqIn } = fakeDb()
+    afterCommit(reqIn('tx-2'), () => {
+      log.push('publish')
+    })
+    await db.rollbackTransaction('tx-2')
+    await db.commitTransaction('tx-2')
+    await tick()
+    expect(log).toEqual(['rollback tx-2', 'commit tx-2'])
+  })
+
+  it('runs right away outside a transaction', async () => {
+    const { log, reqIn } = fakeDb()
+    afterCommit(reqIn(), () => {
+      log.push('publish')
+    })
+    await tick()
+    expect(log).toEqual(['publish'])
+  })
+})
@@ -0,0 +1,123 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type { SessionLiveData } from '@/hooks/session/useSessionData'
+import { applySessionEvent } from '@/utilities/applySessionEvent'
+
+const timestamp = '2026-01-01T00:00:00.000Z'
+
+const live: SessionLiveData = {
+  code: 'print(1)',
+  output: null,
+  isActive: true,
+  title: 'Loops',
+  language: 'python',
+  participantCount: 4,
+  trainerWorkspaceFileId: '10',
+  trainerWorkspaceFileName: 'loops.py',
+}
+
+describe('applySessionEvent', () => {
+  it('updates code, file and language from a broadcast', () => {
+    expect(
+      applySessionEvent(live, {
+        type: 'code_broadcast',
+        timestamp,
+        data: {
+          code: 'console.log(1)',
+          trainerWorkspaceFileId: '11',
+          trainerWorkspaceFileName: 'a.js',
+        },
+      }),
+    ).toEqual({
+      ...live,
+      code: 'console.log(1)',
+      trainerWorkspaceFileId: '11',
+      trainerWorkspaceFileName: 'a.js',
+      language: 'javascript',
+    })
+  })
+
+  it('prefers the language of the trainer file, like /live', () => {
+    const changed = applySessionEvent(live, {
+      type: 'language_changed',
+      timestamp,
+      data: { language: 'java' },
+    })
+    expect(changed?.language).toBe('python')
+
+    const withoutFile = { ...live, trainerWorkspaceFileName: null }
+    expect(
+      applySessionEvent(withoutFile, {
+        type: 'language_changed',
+        timestamp,
+        data: { language: 'java' },
+      })?.language,
+    ).toBe('java')
+  })
+
+  it('tracks breaks', () => {
+    const paused = applySessionEvent(live, {
+      type: 'session_paused',
+      timestamp,
+      data: { pausedAt: timestamp, resumeAt: '2026-01-01T00:15:00.000Z' },
+    })
+    expect(paused).toMatchObject({ pausedAt: timestamp, resumeAt: '2026-01-01T00:15:00.000Z' })
+    expect(
+      applySessionEvent(paused!, {
+        type: 'session_resumed',
+        timestamp,
+        data: { resumedAt: timestamp },
+      }),
+    ).toMatchObject({ pausedAt: null, resumeAt: null })
+  })
+
+  it('leaves the live data alone for help queue, code push, poll, chat, group, host and admission events', () => {
+    expect(applySessionEvent(live, { type: 'help_queue_changed', timestamp, data: {} })).toBe(live)
+    expect(
+      applySessionEvent(live, {
+        type: 'code_pushed',
+        timestamp,
+        data: { pushId: 1, recipientId: null },
+      }),
+    ).toBe(live)
+    expect(
+      applySessionEvent(live, {
+        type: 'poll_changed',
+        timestamp,
+        data: { pollId: 1, reason: 'opened' },
+      }),
+    ).toBe(live)
+    expect(
+      applySessionEvent(live, {
+        type: 'chat_message',
+        timestamp,
+        data: { messageId: 1, threadUserId: null, reason: 'posted' },
+      }),
+    ).toBe(live)
+    expect(
+      applySessionEvent(live, {
+        type: 'group_changed',
+        timestamp,
+        data: { groupId: 1, reason: 'started' },
+      }),
+    ).toBe(live)
+    expect(
+      applySessionEvent(live, { type: 'hosts_changed', timestamp, data: { trainerId: 9 } }),
+    ).toBe(live)
+    expect(
+      applySessionEvent(live, {
+        type: 'admission_changed',
+        timestamp,
+        data: { userId: 20, status: 'waiting' },
+      }),
+    ).toBe(live)
+  })
+
+  it('ends the session and asks for a refetch on refresh', () => {
+    expect(
+      applySessionEvent(live, { type: 'session_ended', timestamp, data: { endedAt: timestamp } })
+        ?.isActive,
+    ).toBe(false)
+    expect(applySessionEvent(live, { type: 'refresh', timestamp, data: {} })).toBeNull()
+  })
+})
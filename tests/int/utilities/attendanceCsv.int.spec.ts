@@ -0,0 +1,66 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type { StudentAttendance } from '@/services/attendance'
+import { sessionAttendanceCsv, studentAttendanceCsv, toCsv } from '@/utilities/attendanceCsv'
+
+const attendance: StudentAttendance = {
+  attendedMinutes: 48,
+  percent: 80,
+  firstJoinedAt: '2026-01-01T10:07:00.000Z',
+  lastSeenAt: '2026-01-01T11:00:00.000Z',
+  lateMinutes: 7,
+  leftEarlyMinutes: 0,
+  visits: 2,
+  meetsThreshold: true,
+}
+
+const session = {
+  id: 1,
+  title: 'Loops, part 2',
+  joinCode: 'ABC123',
+  startedAt: '2026-01-01T10:00:00.000Z',
+  endedAt: null,
+  scheduledStart: null,
+  timezone: null,
+}
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(toCsv([['a', 'b,c', 'say "hi"', 'two\nlines', null, 3]])).toBe(
+      'a,"b,c","say ""hi""","two\nlines",,3\r\n',
+    )
+  })
+
+  it('keeps text that starts like a formula from running in spreadsheets', () => {
+    expect(toCsv([['=HYPERLINK("http://evil.example")', '+1', '@SUM(A1)', '\tx', 'ok', -3]])).toBe(
+      `"'=HYPERLINK(""http://evil.example"")",'+1,'@SUM(A1),'\tx,ok,-3\r\n`,
+    )
+    expect(toCsv([['-2', '\rx']])).toBe(`'-2,"'\rx"\r\n`)
+  })
+})
+
+describe('attendance exports', () => {
+  it('writes one row per student of a session', () => {
+    const csv = sessionAttendanceCsv({
+      session,
+      minAttendancePercent: 75,
+      students: [{ student: { id: 20, name: 'Ravi', email: 'ravi@example.com' }, ...attendance }],
+    })
+    expect(csv.split('\r\n')).toEqual([
+      'Student,Email,Attended minutes,Attendance %,Meets minimum,First joined,Last seen,Late (minutes),Left early (minutes),Visits',
+      'Ravi,ravi@example.com,48,80,yes,2026-01-01T10:07:00.000Z,2026-01-01T11:00:00.000Z,7,0,2',
+      '',
+    ])
+  })
+
+  it('writes one row per session of a student, leaving unknown values empty', () => {
+    const csv = studentAttendanceCsv({
+      student: { id: 20, name: 'Ravi', email: 'ravi@example.com' },
+      minAttendancePercent: 90,
+      sessions: [{ session, ...attendance, leftEarlyMinutes: null, meetsThreshold: false }],
+    })
+    expect(csv.split('\r\n')[1]).toBe(
+      '"Loops, part 2",ABC123,2026-01-01T10:00:00.000Z,,48,80,no,2026-01-01T10:07:00.000Z,2026-01-01T11:00:00.000Z,7,,2',
+    )
+  })
+})
@@ -0,0 +1,80 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+  presenceIntervals,
+  summarizeAttendance,
+  type AttendanceEvent,
+} from '@/utilities/attendanceReport'
+
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 10, minute)).toISOString()
+const ms = (minute: number) => Date.parse(at(minute))
+
+/** Join at `from`, a heartbeat every minute, and optionally a leave at `to` */
+function visit(from: number, to: number, leave = true): AttendanceEvent[] {
+  const events: AttendanceEvent[] = [{ kind: 'join', at: at(from) }]
+  for (let minute = from + 1; minute < to; minute++)
+    events.push({ kind: 'heartbeat', at: at(minute) })
+  if (leave) events.push({ kind: 'leave', at: at(to) })
+  return events
+}
+
+const window = { startedAt: at(0), endedAt: at(60), scheduledStart: at(0) }
+
+describe('presenceIntervals', () => {
+  it('ends a stretch at a leave and starts a new one at the next join', () => {
+    expect(presenceIntervals([...visit(0, 10), ...visit(20, 30)], ms(60))).toEqual([
+      { from: ms(0), to: ms(10) },
+      { from: ms(20), to: ms(30) },
+    ])
+  })
+
+  it('keeps a student present until the next heartbeat is due when heartbeats stop', () => {
+    // Laptop closed at minute 9, opened again at minute 40
+    const events = [...visit(0, 10, false), { kind: 'heartbeat' as const, at: at(40) }]
+    expect(presenceIntervals(events, ms(45))).toEqual([
+      { from: ms(0), to: ms(10) },
+      { from: ms(40), to: ms(41) },
+    ])
+  })
+
+  it('does not count past the end of the session', () => {
+    expect(presenceIntervals(visit(50, 70, false), ms(60))).toEqual([{ from: ms(50), to: ms(60) }])
+  })
+})
+
+describe('summarizeAttendance', () => {
+  it('adds up the stretches and flags late arrival and early departure', () => {
+    const summary = summarizeAttendance([...visit(12, 30), ...visit(35, 50)], window)
+    expect(summary).toEqual({
+      attendedMinutes: 33,
+      percent: 55,
+      firstJoinedAt: at(12),
+      lastSeenAt: at(50),
+      lateMinutes: 12,
+      leftEarlyMinutes: 10,
+      visits: 2,
+    })
+  })
+
+  it('forgives a few minutes either side and does not count time before the start', () => {
+    const summary = summarizeAttendance(visit(-5, 57), { ...window, scheduledStart: null })
+    expect(summary).toMatchObject({
+      attendedMinutes: 57,
+      percent: 95,
+      lateMinutes: 0,
+      leftEarlyMinutes: 0,
+    })
+  })
+
+  it('measures lateness from the actual start when the trainer opened the session late', () => {
+    const summary = summarizeAttendance(visit(14, 60), { ...window, startedAt: at(10) })
+    expect(summary.lateMinutes).toBe(0)
+    expect(summarizeAttendance(visit(16, 60), { ...window, startedAt: at(10) }).lateMinutes).toBe(6)
+  })
+
+  it('leaves early departure open while the session is running', () => {
+    const now = new Date(ms(30))
+    const summary = summarizeAttendance(visit(0, 30, false), { ...window, endedAt: null }, now)
+    expect(summary).toMatchObject({ attendedMinutes: 30, percent: 100, leftEarlyMinutes: null })
+  })
+})
@@ -0,0 +1,65 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type { ChatMessageItem } from '@/services/sessionChat'
+import { buildChatTranscript } from '@/utilities/chatTranscript'
+
+const asha = { id: 9, name: 'Asha', staff: true }
+const ravi = { id: 20, name: 'Ravi', staff: false }
+
+function message(id: number, fields: Partial<ChatMessageItem>): ChatMessageItem {
+  return {
+    id,
+    sender: ravi,
+    visibility: 'public',
+    thread: null,
+    body: null,
+    code: null,
+    language: null,
+    sentAt: `2026-01-01T10:0${id}:00.000Z`,
+    deleted: false,
+    ...fields,
+  }
+}
+
+describe('buildChatTranscript', () => {
+  it('writes messages, private threads, code blocks and removed messages', () => {
+    const transcript = buildChatTranscript(
+      { title: 'Loops', joinCode: 'ABC123', timezone: 'Asia/Kolkata' },
+      [
+        message(1, {
+          body: 'Why does this hang?',
+          code: 'while True:\n    pass\n',
+          language: 'python',
+        }),
+        message(2, { sender: asha, visibility: 'private', thread: ravi, body: 'Add a break' }),
+        message(3, { deleted: true }),
+      ],
+    )
+    expect(transcript).toBe(
+      [
+        '# Chat: Loops (ABC123)',
+        '',
+        '1 January 2026, times in Asia/Kolkata',
+        '',
+        '**15:31:00 Ravi:** Why does this hang?',
+        '```python',
+        'while True:',
+        '    pass',
+        '```',
+        '',
+        '**15:32:00 Asha (trainer) → Ravi (private):** Add a break',
+        '',
+        '**15:33:00 Ravi:** _message removed by a trainer_',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('uses a longer fence when the code contains backticks', () => {
+    const transcript = buildChatTranscript({ title: 'Docs', joinCode: 'XYZ789' }, [
+      message(1, { code: 'x = "```"' }),
+    ])
+    expect(transcript).toContain('````\nx = "```"\n````')
+    expect(transcript).toContain('times in UTC')
+  })
+})
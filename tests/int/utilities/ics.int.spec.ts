@@ -0,0 +1,40 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { buildCalendar } from '@/utilities/ics'
+
+describe('buildCalendar', () => {
+  const event = {
+    uid: 'live-session-1@example.com',
+    start: new Date('2026-03-10T09:30:00.000Z'),
+    end: new Date('2026-03-10T10:30:00.000Z'),
+    summary: 'Loops, lists; and more',
+    description: 'Bring a laptop\nJoin code: ABC-DEF-GHJ',
+    url: 'https://example.com/join',
+  }
+
+  it('writes UTC events with escaped text and CRLF line endings', () => {
+    const ics = buildCalendar('Sessions', [event], new Date('2026-03-01T00:00:00.000Z'))
+    const lines = ics.split('\r\n')
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(lines).toContain('DTSTAMP:20260301T000000Z')
+    expect(lines).toContain('DTSTART:20260310T093000Z')
+    expect(lines).toContain('DTEND:20260310T103000Z')
+    expect(lines).toContain('SUMMARY:Loops\\, lists\\; and more')
+    expect(lines).toContain('DESCRIPTION:Bring a laptop\\nJoin code: ABC-DEF-GHJ')
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+  })
+
+  it('folds lines longer than 75 octets', () => {
+    const ics = buildCalendar('Sessions', [{ ...event, description: 'é'.repeat(100) }])
+    const folded = ics
+      .split('\r\n')
+      .filter((line) => line.startsWith('DESCRIPTION') || line.startsWith(' '))
+
+    expect(folded.length).toBeGreaterThan(1)
+    for (const line of folded) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+    }
+    expect(ics.replace(/\r\n /g, '')).toContain(`DESCRIPTION:${'é'.repeat(100)}`)
+  })
+})
@@ -0,0 +1,38 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_LANGUAGE_LIMITS,
+  getLanguage,
+  getLanguageByFileName,
+  getLanguageLimits,
+  LANGUAGES,
+} from '@/utilities/languageRegistry'
+
+describe('language registry', () => {
+  it('has unique IDs and complete entries', () => {
+    const ids = LANGUAGES.map((language) => language.id)
+    expect(new Set(ids).size).toBe(ids.length)
+    for (const language of LANGUAGES) {
+      expect(language.extensions.length, language.id).toBeGreaterThan(0)
+      expect(language.extensions.every((extension) => extension.startsWith('.')), language.id).toBe(true)
+      expect(language.entryFileName, language.id).toMatch(/\.\w+$/)
+      expect(language.oneCompilerId, language.id).toBeTruthy()
+    }
+  })
+
+  it('looks languages up by ID and file name', () => {
+    expect(getLanguage('Python')?.id).toBe('python')
+    expect(getLanguage('brainfuck')).toBeUndefined()
+    expect(getLanguageByFileName('Main.JAVA')?.id).toBe('java')
+    expect(getLanguageByFileName('util.cc')?.id).toBe('cpp')
+    // Shared extensions resolve to the first entry
+    expect(getLanguageByFileName('app.js')?.id).toBe('javascript')
+    expect(getLanguageByFileName('README')).toBeUndefined()
+  })
+
+  it('merges per-language limits over the defaults', () => {
+    expect(getLanguageLimits('python')).toEqual(DEFAULT_LANGUAGE_LIMITS)
+    expect(getLanguageLimits('java').wallTimeMs).toBeGreaterThan(DEFAULT_LANGUAGE_LIMITS.wallTimeMs)
+    expect(getLanguageLimits('java').memoryMb).toBe(DEFAULT_LANGUAGE_LIMITS.memoryMb)
+  })
+})
@@ -0,0 +1,37 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { getActiveDurationMs, isSessionExpired } from '@/utilities/sessionExpiration'
+
+const HOUR = 60 * 60 * 1000
+
+describe('session expiration', () => {
+  afterEach(() => vi.useRealTimers())
+
+  it('subtracts finished breaks and the current break from the active time', () => {
+    const now = new Date('2026-01-02T12:00:00.000Z')
+    const startedAt = '2026-01-02T00:00:00.000Z'
+
+    expect(getActiveDurationMs(startedAt, {}, now)).toBe(12 * HOUR)
+    expect(getActiveDurationMs(startedAt, { pausedSeconds: 3600 }, now)).toBe(11 * HOUR)
+    expect(
+      getActiveDurationMs(
+        startedAt,
+        { pausedSeconds: 3600, pausedAt: '2026-01-02T10:00:00.000Z' },
+        now,
+      ),
+    ).toBe(9 * HOUR)
+  })
+
+  it('expires after 24 hours of active time, not counting breaks', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-01-03T06:00:00.000Z'))
+    const startedAt = '2026-01-02T00:00:00.000Z' // 30 hours ago
+
+    expect(isSessionExpired(startedAt)).toBe(true)
+    expect(isSessionExpired(startedAt, null, { pausedSeconds: 8 * 3600 })).toBe(false)
+    // Paused for the last 7 hours
+    expect(isSessionExpired(startedAt, null, { pausedAt: '2026-01-02T23:00:00.000Z' })).toBe(false)
+    expect(isSessionExpired(null, '2026-01-03T00:00:00.000Z')).toBe(false)
+    expect(isSessionExpired(null, null)).toBe(true)
+  })
+})
@@ -0,0 +1,56 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+  getScheduledEnd,
+  isSessionScheduled,
+  isValidTimeZone,
+  parseScheduledStart,
+} from '@/utilities/sessionSchedule'
+
+describe('session schedule', () => {
+  it('reads datetime-local values as wall-clock time in the time zone', () => {
+    expect(parseScheduledStart('2026-03-10T09:30', 'Asia/Kolkata')?.toISOString()).toBe(
+      '2026-03-10T04:00:00.000Z',
+    )
+    expect(parseScheduledStart('2026-03-10T09:30', 'UTC')?.toISOString()).toBe(
+      '2026-03-10T09:30:00.000Z',
+    )
+  })
+
+  it('uses the offset in effect on the scheduled day', () => {
+    // New York is UTC-5 in winter and UTC-4 after the March change
+    expect(parseScheduledStart('2026-01-15T10:00', 'America/New_York')?.toISOString()).toBe(
+      '2026-01-15T15:00:00.000Z',
+    )
+    expect(parseScheduledStart('2026-07-15T10:00', 'America/New_York')?.toISOString()).toBe(
+      '2026-07-15T14:00:00.000Z',
+    )
+  })
+
+  it('keeps absolute times and rejects invalid input', () => {
+    expect(parseScheduledStart('2026-03-10T09:30:00Z', 'Asia/Kolkata')?.toISOString()).toBe(
+      '2026-03-10T09:30:00.000Z',
+    )
+    expect(parseScheduledStart('2026-03-10T09:30:00+02:00', 'UTC')?.toISOString()).toBe(
+      '2026-03-10T07:30:00.000Z',
+    )
+    expect(parseScheduledStart('next tuesday', 'UTC')).toBeNull()
+    expect(parseScheduledStart('2026-03-10T09:30', 'Mars/Olympus')).toBeNull()
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false)
+  })
+
+  it('tells scheduled sessions apart from live and ended ones', () => {
+    const scheduledStart = '2026-03-10T09:30:00.000Z'
+    expect(isSessionScheduled({ isActive: false, scheduledStart })).toBe(true)
+    expect(isSessionScheduled({ isActive: true, startedAt: scheduledStart, scheduledStart })).toBe(
+      false,
+    )
+    expect(isSessionScheduled({ isActive: false, endedAt: scheduledStart, scheduledStart })).toBe(
+      false,
+    )
+    expect(isSessionScheduled({ isActive: false })).toBe(false)
+    expect(getScheduledEnd(scheduledStart, 90).toISOString()).toBe('2026-03-10T11:00:00.000Z')
+    expect(getScheduledEnd(scheduledStart).toISOString()).toBe('2026-03-10T10:30:00.000Z')
+  })
+})
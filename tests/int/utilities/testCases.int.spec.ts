@@ -0,0 +1,32 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { compareOutput } from '@/utilities/testCases'
+
+describe('compareOutput', () => {
+  it('ignores line endings and trailing newlines in exact mode', () => {
+    expect(compareOutput('a\nb\n', 'a\r\nb', { mode: 'exact' }).passed).toBe(true)
+    expect(compareOutput('a b', 'a  b', { mode: 'exact' }).passed).toBe(false)
+  })
+
+  it('ignores spacing and blank lines in whitespace mode', () => {
+    expect(compareOutput('1 2 3\n', '1  2\t3\n\n', { mode: 'whitespace' }).passed).toBe(true)
+    expect(compareOutput('1 2 3', '1 2 4', { mode: 'whitespace' }).passed).toBe(false)
+  })
+
+  it('accepts numbers within tolerance in float mode', () => {
+    expect(compareOutput('3.14159', '3.1416', { mode: 'float', floatTolerance: 1e-3 }).passed).toBe(true)
+    expect(compareOutput('3.14159', '3.2', { mode: 'float', floatTolerance: 1e-3 }).passed).toBe(false)
+    expect(compareOutput('1e9', '1000000001', { mode: 'float', floatTolerance: 1e-6 }).passed).toBe(true)
+    expect(compareOutput('pi', 'pie', { mode: 'float' }).passed).toBe(false)
+  })
+
+  it('reports differing lines', () => {
+    const result = compareOutput('one\ntwo\nthree', 'one\n2', { mode: 'whitespace' })
+
+    expect(result.passed).toBe(false)
+    expect(result.diff).toEqual([
+      { line: 2, expected: 'two', actual: '2' },
+      { line: 3, expected: 'three', actual: null },
+    ])
+  })
+})